@@ -1,17 +1,44 @@
 #!/usr/bin/env node
 
-// Pure-module harness for Phase 8A FOW graph logic.
+// Pure-module harness for Phase 8 FOW graph logic (readiness, inspections,
+// procurement) and the project entity graph.
 
 import {
   computeFowReadiness,
   rankFowByReadiness,
   groupSubmittalsByFowSpecSections,
+  groupSubmittalsByFowLinks,
+  planFowSubmittalLinkSync,
+  applyFowLinkSyncPlan,
   normalizeFowName,
   normalizeSpecSectionForFow,
   getCsiDivision,
   csiDivisionName,
   suggestFowsFromSubmittals,
+  groupInspectionsByFow,
 } from '../src/lib/graph/fow-readiness.ts'
+import {
+  classifyInspectionType,
+  planInspectionSeeds,
+  isInspectionSatisfied,
+  isOpenHoldPoint,
+} from '../src/lib/graph/inspections.ts'
+import {
+  buildProcurementTimeline,
+  projectProcurementLanding,
+  releasesProcurement,
+} from '../src/lib/graph/procurement.ts'
+import {
+  buildProjectGraph,
+  resolveGraphNodes,
+  graphNeighbors,
+  traverseGraph,
+  findGraphPaths,
+  findGraphBlockers,
+  runGraphQuery,
+  formatGraphQueryAnswer,
+  formatGraphPath,
+} from '../src/lib/graph/entity-graph.ts'
 
 let passed = 0
 let failed = 0
@@ -102,6 +129,13 @@ assert('FOW-3f: all non-approved listed as blockers', r2.blockers.length === 4)
 const r3 = computeFowReadiness(fowConcrete, [])
 assert('FOW-3g: empty list = 100% vacuous', r3.readinessPercent === 100)
 
+const withSuperseded = computeFowReadiness(fowConcrete, [
+  submittal('s1', 'approved'),
+  { ...submittal('s2', 'submitted'), reviewStatus: 'superseded' },
+])
+assert('FOW-3h: superseded submittals are not required', withSuperseded.readinessPercent === 100 &&
+  withSuperseded.totalCount === 1 && withSuperseded.blockers.length === 0)
+
 // ---------------------------------------------------------------------------
 section('FOW-4: rankFowByReadiness')
 
@@ -183,6 +217,442 @@ assert('FOW-6g: sorted by division', suggestions[0].division === '03' && suggest
 const empty = suggestFowsFromSubmittals([submittal('s1', 'draft', null)])
 assert('FOW-6h: empty when no spec sections', empty.length === 0)
 
+// ---------------------------------------------------------------------------
+section('FOW-7: planFowSubmittalLinkSync')
+
+function keyed(id, status, specSection, opts = {}) {
+  return { ...submittal(id, status, specSection), dedupeKey: `k-${id}`, relatedFOW: opts.relatedFOW ?? null }
+}
+function link(fowId, dedupeKey, source, opts = {}) {
+  return {
+    id: opts.id ?? `${fowId}-${dedupeKey}`,
+    fowId,
+    dedupeKey,
+    specSection: opts.specSection ?? null,
+    source,
+    status: opts.status ?? 'active',
+  }
+}
+
+const linkFows = [
+  fow('fConc', 'Concrete', ['03 30 00']),
+  fow('fRoof', 'Roofing', ['07 50 00']),
+]
+const linkSubs = [
+  keyed('s1', 'approved', '03 30 00'),
+  keyed('s2', 'submitted', '07 50 00'),
+  keyed('s3', 'draft', '09 90 00', { relatedFOW: '  ROOFING ' }),
+  keyed('s4', 'draft', '03 30 00', { relatedFOW: 'Concrete' }),
+  { ...submittal('s5', 'draft', '03 30 00') }, // no dedupeKey
+]
+
+const fresh = planFowSubmittalLinkSync(linkFows, linkSubs, [])
+const pair = (l) => `${l.fowId}|${l.dedupeKey}|${l.source}`
+const freshPairs = fresh.toInsert.map(pair).sort()
+assert('FOW-7a: spec-section links inferred',
+  freshPairs.includes('fConc|k-s1|spec_section') && freshPairs.includes('fRoof|k-s2|spec_section'))
+assert('FOW-7b: relatedFOW backfilled via normalizeFowName', freshPairs.includes('fRoof|k-s3|related_fow'))
+assert('FOW-7c: relatedFOW wins over spec section for same pair',
+  freshPairs.includes('fConc|k-s4|related_fow') && !freshPairs.includes('fConc|k-s4|spec_section'))
+assert('FOW-7d: items without dedupeKey skipped', fresh.toInsert.every(l => l.dedupeKey !== undefined) && fresh.toInsert.length === 4)
+assert('FOW-7e: stores item spec section', fresh.toInsert.find(l => l.dedupeKey === 'k-s1')?.specSection === '03 30 00')
+
+const existingLinks = fresh.toInsert.map(l => ({ ...l, id: `${l.fowId}-${l.dedupeKey}` }))
+const rerun = planFowSubmittalLinkSync(linkFows, linkSubs, existingLinks)
+assert('FOW-7f: idempotent on re-run', rerun.toInsert.length === 0 && rerun.toDelete.length === 0)
+
+const tombstoned = planFowSubmittalLinkSync(linkFows, linkSubs, [
+  link('fConc', 'k-s1', 'spec_section', { status: 'removed', specSection: '03 30 00' }),
+])
+assert('FOW-7g: removed link is not re-inferred',
+  !tombstoned.toInsert.some(l => l.fowId === 'fConc' && l.dedupeKey === 'k-s1'))
+
+const narrowed = [fow('fConc', 'Concrete', ['03 11 00']), linkFows[1]]
+const stale = planFowSubmittalLinkSync(narrowed, linkSubs, [
+  link('fConc', 'k-s1', 'spec_section', { id: 'L1', specSection: '03 30 00' }),
+  link('fConc', 'k-s2', 'user', { id: 'L2', specSection: '07 50 00' }),
+  link('fConc', 'k-s4', 'related_fow', { id: 'L3', specSection: '03 30 00' }),
+])
+assert('FOW-7h: inferred link dropped when section leaves FOW', stale.toDelete.includes('L1'))
+assert('FOW-7i: user and related_fow links kept', !stale.toDelete.includes('L2') && !stale.toDelete.includes('L3'))
+
+const applied = applyFowLinkSyncPlan(
+  [link('fConc', 'k-s1', 'spec_section', { id: 'L1', specSection: '03 30 00' })],
+  { toInsert: [link('fRoof', 'k-s2', 'spec_section')], toDelete: ['L1'] }
+)
+assert('FOW-7j: applyFowLinkSyncPlan drops deletes and adds inserts',
+  applied.length === 1 && applied[0].fowId === 'fRoof')
+
+// ---------------------------------------------------------------------------
+section('FOW-8: groupSubmittalsByFowLinks')
+
+const nextRun = [
+  // Same dedupe keys as linkSubs but a new workflow run (new persisted ids)
+  { ...keyed('s1', 'approved', '03 30 00'), persistedItemId: 'run2-s1' },
+  { ...keyed('s2', 'rejected', '07 50 00'), persistedItemId: 'run2-s2' },
+]
+const byLinks = groupSubmittalsByFowLinks(linkFows, nextRun, [
+  link('fConc', 'k-s1', 'spec_section'),
+  link('fConc', 'k-s2', 'user'),
+  link('fRoof', 'k-s2', 'spec_section', { status: 'removed' }),
+  link('fGone', 'k-s1', 'user'),
+])
+assert('FOW-8a: links carry across register runs',
+  byLinks.get('fConc').map(s => s.persistedItemId).sort().join(',') === 'run2-s1,run2-s2')
+assert('FOW-8b: removed links excluded', byLinks.get('fRoof').length === 0)
+assert('FOW-8c: links to unknown FOWs ignored', !byLinks.has('fGone'))
+
+const linkedReadiness = computeFowReadiness(linkFows[0], byLinks.get('fConc'), {
+  links: [
+    link('fConc', 'k-s1', 'spec_section'),
+    link('fConc', 'k-s2', 'user'),
+    link('fRoof', 'k-s2', 'spec_section'),
+  ],
+})
+assert('FOW-8d: readiness from linked submittals',
+  linkedReadiness.totalCount === 2 && linkedReadiness.blockedCount === 1 && linkedReadiness.readinessPercent === 50)
+assert('FOW-8e: linkSources records provenance for this FOW only',
+  linkedReadiness.linkSources['k-s1'] === 'spec_section' &&
+  linkedReadiness.linkSources['k-s2'] === 'user' &&
+  Object.keys(linkedReadiness.linkSources).length === 2)
+assert('FOW-8f: linkSources omitted without links',
+  computeFowReadiness(linkFows[0], []).linkSources === undefined)
+
+// ---------------------------------------------------------------------------
+section('FOW-9: inspection seeding')
+
+assert('FOW-9a: hold point wording',
+  classifyInspectionType('Notify Architect 48 hours prior to placing concrete; hold point.', 'inspection_requirement') === 'hold_point')
+assert('FOW-9b: do-not-cover is a hold point',
+  classifyInspectionType('Do not cover insulation until inspected.', 'inspection_requirement') === 'hold_point')
+assert('FOW-9c: special inspection',
+  classifyInspectionType('Owner will engage a special inspector for welds.', 'inspection_requirement') === 'special_inspection')
+assert('FOW-9d: testing family defaults to test',
+  classifyInspectionType('Perform slump tests per ASTM C143.', 'testing_requirement') === 'test')
+assert('FOW-9e: inspection family defaults to inspection',
+  classifyInspectionType('Inspect anchorage before grouting.', 'inspection_requirement') === 'inspection')
+
+const reqs = [
+  { canonicalName: 'req-slump', family: 'testing_requirement', sectionNumber: '03 30 00', partReference: '3.5.A', statement: 'Perform slump tests per ASTM C143.' },
+  { canonicalName: 'req-hold', family: 'inspection_requirement', sectionNumber: '03 30 00', partReference: null, statement: 'Hold point: rebar inspection before pour.' },
+  { canonicalName: 'req-exec', family: 'execution_requirement', sectionNumber: '03 30 00', partReference: null, statement: 'Cure for 7 days.' },
+  { canonicalName: 'req-empty', family: 'testing_requirement', sectionNumber: '03 30 00', partReference: null, statement: '  ' },
+  { canonicalName: 'req-slump', family: 'testing_requirement', sectionNumber: '03 30 00', partReference: '3.5.A', statement: 'Duplicate.' },
+]
+const seeds = planInspectionSeeds(reqs, new Set())
+assert('FOW-9f: only testing/inspection families with text, once per key',
+  seeds.map(s => s.sourceRequirementKey).join(',') === 'req-slump,req-hold')
+assert('FOW-9g: seed carries section, part and type',
+  seeds[0].specSection === '03 30 00' && seeds[0].partReference === '3.5.A' && seeds[0].inspectionType === 'test' &&
+  seeds[1].inspectionType === 'hold_point')
+assert('FOW-9h: existing keys skipped', planInspectionSeeds(reqs, new Set(['req-hold'])).length === 1)
+assert('FOW-9i: long statements truncated for title',
+  planInspectionSeeds([{ ...reqs[0], statement: 'x'.repeat(400) }], new Set())[0].title.length === 160)
+
+// ---------------------------------------------------------------------------
+section('FOW-10: inspections in FOW readiness')
+
+function inspection(id, type, status, opts = {}) {
+  return {
+    id,
+    fowId: opts.fowId ?? null,
+    title: `Inspection ${id}`,
+    inspectionType: type,
+    specSection: opts.specSection ?? null,
+    partReference: null,
+    status,
+    scheduledDate: null,
+    inspector: null,
+    result: opts.result ?? null,
+    resultNotes: null,
+    completedAt: null,
+    source: 'manual',
+    sourceRequirementKey: null,
+  }
+}
+
+const insp = [
+  inspection('i1', 'test', 'complete', { specSection: '033000', result: 'pass' }),
+  inspection('i2', 'hold_point', 'scheduled', { specSection: '03 30 00' }),
+  inspection('i3', 'inspection', 'required', { fowId: 'fRoof', specSection: '03 30 00' }),
+  inspection('i4', 'special_inspection', 'complete', { specSection: '07 50 00', result: 'fail' }),
+  inspection('i5', 'hold_point', 'waived', { specSection: '07 50 00' }),
+]
+assert('FOW-10a: satisfied = pass or waived',
+  isInspectionSatisfied(insp[0]) && isInspectionSatisfied(insp[4]) && !isInspectionSatisfied(insp[3]))
+assert('FOW-10b: waived hold point is not open', isOpenHoldPoint(insp[1]) && !isOpenHoldPoint(insp[4]))
+
+const byFowInsp = groupInspectionsByFow(linkFows, insp)
+assert('FOW-10c: spec-section match, explicit fowId wins',
+  byFowInsp.get('fConc').map(i => i.id).join(',') === 'i1,i2' &&
+  byFowInsp.get('fRoof').map(i => i.id).sort().join(',') === 'i3,i4,i5')
+
+const concReady = computeFowReadiness(linkFows[0], [submittal('x1', 'approved')], { inspections: byFowInsp.get('fConc') })
+assert('FOW-10d: inspections count toward readiness',
+  concReady.readinessPercent === 67 && concReady.satisfiedInspectionCount === 1 && concReady.openHoldPointCount === 1)
+assert('FOW-10e: open hold point listed as inspection blocker',
+  concReady.inspectionBlockers.map(i => i.id).join(',') === 'i2')
+
+const manyApproved = Array.from({ length: 300 }, (_, i) => submittal(`ok${i}`, 'approved'))
+const capped = computeFowReadiness(linkFows[0], manyApproved, { inspections: [insp[1]] })
+assert('FOW-10f: open hold point caps readiness at 99', capped.readinessPercent === 99)
+
+const roofReady = computeFowReadiness(linkFows[1], [], { inspections: byFowInsp.get('fRoof') })
+assert('FOW-10g: failed inspection ranked first among blockers',
+  roofReady.failedInspectionCount === 1 && roofReady.inspectionBlockers.map(i => i.id).join(',') === 'i4,i3')
+assert('FOW-10h: no inspections leaves submittal readiness unchanged',
+  computeFowReadiness(fowConcrete, mixed).readinessPercent === 20 &&
+  computeFowReadiness(fowConcrete, mixed).inspections.length === 0)
+
+// ---------------------------------------------------------------------------
+section('PROC-1: landing date')
+
+function procItem(id, key, opts = {}) {
+  return {
+    id,
+    submittalDedupeKey: key,
+    description: opts.description ?? `PO line ${id}`,
+    poNumber: opts.poNumber ?? null,
+    vendor: opts.vendor ?? null,
+    status: opts.status ?? 'ordered',
+    orderDate: opts.orderDate ?? null,
+    promisedShipDate: opts.promisedShipDate ?? null,
+    expectedDeliveryDate: opts.expectedDeliveryDate ?? null,
+    actualDeliveryDate: opts.actualDeliveryDate ?? null,
+    notes: null,
+  }
+}
+
+const allDates = procItem('x', 'k', {
+  orderDate: '2026-01-01', promisedShipDate: '2026-03-01',
+  expectedDeliveryDate: '2026-03-10', actualDeliveryDate: '2026-03-12',
+})
+assert('PROC-1a: actual delivery wins', projectProcurementLanding(allDates, 30, '2026-09-01').landingSource === 'actual')
+assert('PROC-1b: expected before promised ship',
+  projectProcurementLanding({ ...allDates, actualDeliveryDate: null }, 30, null).landingDate === '2026-03-10')
+assert('PROC-1c: promised ship before order + lead',
+  projectProcurementLanding(procItem('x', 'k', { orderDate: '2026-01-01', promisedShipDate: '2026-03-01' }), 30, null).landingSource === 'promised')
+const orderLead = projectProcurementLanding(procItem('x', 'k', { orderDate: '2026-01-01' }), 30, null)
+assert('PROC-1d: order date + lead time', orderLead.landingDate === '2026-01-31' && orderLead.landingSource === 'order_lead')
+assert('PROC-1e: falls back to projected approval + lead',
+  projectProcurementLanding(procItem('x', 'k', { status: 'not_ordered' }), 30, '2026-06-01').landingSource === 'projected')
+assert('PROC-1f: nothing known', projectProcurementLanding(procItem('x', 'k'), 0, null).landingDate === null)
+
+// ---------------------------------------------------------------------------
+section('PROC-2: buildProcurementTimeline')
+
+function releasing(key, status, opts = {}) {
+  return {
+    submittalItem: `Submittal ${key}`,
+    dedupeKey: key,
+    persistedItemId: `p-${key}`,
+    specSection: opts.specSection ?? '23 73 00',
+    lifecycleStatus: status,
+    lifecycleApprovedAt: opts.approvedAt ?? null,
+    lifecycleLeadTimeDays: opts.leadTimeDays ?? null,
+    lifecycleLongLeadFlag: opts.longLead ?? false,
+    scheduleActivityLink: opts.activityId ? { activityId: opts.activityId, activityName: `Act ${opts.activityId}` } : null,
+  }
+}
+
+function act(activityId, earlyStart, lateStart = null) {
+  return {
+    activityId, activityName: `Install ${activityId}`, isCritical: activityId === 'A400',
+    earlyStart, lateStart, actualStart: null,
+  }
+}
+
+const procSubs = [
+  releasing('k-ahu', 'approved', { approvedAt: '2026-02-01T00:00:00Z', leadTimeDays: 90, activityId: 'A300' }),
+  releasing('k-switch', 'approved_as_noted', { approvedAt: '2026-02-01T00:00:00Z', leadTimeDays: 60, activityId: 'A400' }),
+  releasing('k-gen', 'approved', { longLead: true }),
+  releasing('k-pending', 'submitted', { longLead: true, leadTimeDays: 120 }),
+  releasing('k-paint', 'approved'),
+]
+const timeline = buildProcurementTimeline({
+  items: [
+    procItem('p1', 'k-ahu', { orderDate: '2026-02-05' }),
+    procItem('p2', 'k-switch', { promisedShipDate: '2026-04-10' }),
+    procItem('p3', 'k-ahu', { expectedDeliveryDate: '2026-04-20' }),
+    procItem('p4', 'k-switch', { status: 'delivered', actualDeliveryDate: '2026-02-20' }),
+    procItem('p5', 'k-switch', { status: 'cancelled', promisedShipDate: '2026-09-01' }),
+    procItem('p6', 'k-missing'),
+  ],
+  submittals: procSubs,
+  activities: [act('A300', '2026-05-01', '2026-05-20'), act('A400', '2026-04-01')],
+  today: '2026-03-02',
+})
+const byId = Object.fromEntries(timeline.entries.map(e => [e.item.id, e]))
+assert('PROC-2a: landing after early start but before late start = at_risk',
+  byId.p1.level === 'at_risk' && byId.p1.landingDate === '2026-05-06' && byId.p1.daysLate === 5)
+assert('PROC-2b: landing after need-by with no late start = late',
+  byId.p2.level === 'late' && byId.p2.daysLate === 9 && byId.p2.activityIsCritical)
+assert('PROC-2c: landing before need-by = on_track', byId.p3.level === 'on_track' && byId.p3.daysLate === -11)
+assert('PROC-2d: delivered and cancelled', byId.p4.level === 'delivered' && byId.p5.level === 'cancelled')
+assert('PROC-2e: missing submittal is unscheduled', byId.p6.submittal === null && byId.p6.level === 'unscheduled')
+assert('PROC-2f: need-by from the submittal\'s linked activity',
+  byId.p1.needByDate === '2026-05-01' && byId.p1.needBySource === 'activity' && byId.p1.activityId === 'A300')
+assert('PROC-2g: sorted late → at_risk → unscheduled → on_track → delivered → cancelled',
+  timeline.entries.map(e => e.item.id).join(',') === 'p2,p1,p6,p3,p4,p5')
+assert('PROC-2h: only approved long-lead submittals without a PO are candidates',
+  timeline.candidates.map(c => c.dedupeKey).join(',') === 'k-gen')
+assert('PROC-2i: releasesProcurement requires approval',
+  releasesProcurement(procSubs[2]) && !releasesProcurement(procSubs[3]) && !releasesProcurement(procSubs[4]))
+assert('PROC-2j: summary counts',
+  timeline.summary.total === 6 && timeline.summary.late === 1 && timeline.summary.atRisk === 1 &&
+  timeline.summary.onTrack === 1 && timeline.summary.delivered === 1 && timeline.summary.unscheduled === 1 &&
+  timeline.summary.unorderedReleases === 1)
+
+const supersededTimeline = buildProcurementTimeline({
+  items: [procItem('q1', 'k-old', { orderDate: '2026-02-05' })],
+  submittals: [
+    { ...releasing('k-old', 'submitted', { leadTimeDays: 90, activityId: 'A300' }), reviewStatus: 'superseded' },
+    { ...releasing('k-dropped', 'approved', { longLead: true }), reviewStatus: 'superseded' },
+  ],
+  activities: [act('A300', '2026-03-10', '2026-03-20')],
+  today: '2026-03-02',
+})
+assert('PROC-2k: superseded submittals release nothing and are not late',
+  supersededTimeline.candidates.length === 0 && supersededTimeline.summary.unorderedReleases === 0 &&
+  supersededTimeline.entries[0].submittal === null && supersededTimeline.entries[0].level !== 'late')
+
+// ---------------------------------------------------------------------------
+section('GRAPH-1: buildProjectGraph')
+
+function activity(activityId, activityName, opts = {}) {
+  return {
+    id: `row-${activityId}`,
+    activityId,
+    activityName,
+    wbsCode: null,
+    wbsName: opts.wbsName ?? null,
+    earlyStart: opts.start ?? '2025-05-05',
+    earlyFinish: opts.finish ?? '2025-05-09',
+    lateStart: null,
+    lateFinish: null,
+    actualStart: null,
+    actualFinish: null,
+    durationDays: 5,
+    totalFloatDays: 0,
+    percentComplete: opts.status === 'complete' ? 100 : 0,
+    isCritical: false,
+    isMilestone: false,
+    status: opts.status ?? 'not_started',
+    responsibleParty: null,
+    calendar: null,
+  }
+}
+
+const gFows = [
+  fow('fConc', 'Concrete', ['03 30 00']),
+  fow('fRoof', 'Roofing', ['07 50 00']),
+]
+const gSubs = [
+  keyed('rebar', 'submitted', '03 30 00'),
+  keyed('mix', 'approved', '03 30 00'),
+  { ...keyed('embeds', 'draft', '05 50 00'), scheduleActivityLink: { activityId: 'A200' } },
+  keyed('membrane', 'rejected', '07 50 00'),
+]
+const gGraph = buildProjectGraph({
+  entities: [
+    { id: 'spec0330', entityType: 'spec_section', discipline: 'spec', canonicalName: 'SPEC_03_30_00', displayName: 'Cast-in-Place Concrete', label: '03 30 00', status: 'existing' },
+    { id: 'rfi12', entityType: 'rfi', discipline: 'rfi', canonicalName: 'RFI_012', displayName: 'Slab thickness at grid C', label: 'RFI-012', status: 'new' },
+    { id: 'rfi09', entityType: 'rfi', discipline: 'rfi', canonicalName: 'RFI_009', displayName: 'Rebar lap length', label: 'RFI-009', status: 'existing' },
+  ],
+  relationships: [
+    { fromEntityId: 'rfi12', toEntityId: 'spec0330', relationshipType: 'clarifies' },
+    { fromEntityId: 'rfi09', toEntityId: 'spec0330', relationshipType: 'clarifies' },
+    { fromEntityId: 'rfi12', toEntityId: 'missing', relationshipType: 'references' },
+  ],
+  fows: gFows,
+  fowLinks: [
+    link('fConc', 'k-rebar', 'spec_section'),
+    link('fConc', 'k-mix', 'spec_section'),
+    link('fConc', 'k-embeds', 'user'),
+    link('fRoof', 'k-membrane', 'spec_section'),
+  ],
+  submittals: gSubs,
+  schedule: {
+    version: { id: 'v1', versionNumber: 1 },
+    activities: [
+      activity('A100', 'Formwork Level 1', { status: 'in_progress' }),
+      activity('A150', 'Excavation', { status: 'complete' }),
+      activity('A200', 'Slab Pour Level 1', { wbsName: 'Concrete' }),
+      activity('A300', 'Roofing Membrane'),
+    ],
+    ties: [
+      { predecessorActivityId: 'A100', successorActivityId: 'A200', type: 'FS', lagDays: 0 },
+      { predecessorActivityId: 'A150', successorActivityId: 'A100', type: 'FS', lagDays: 0 },
+    ],
+  },
+})
+
+const outTypes = (id) => (gGraph.out.get(id) ?? []).map(e => `${e.type}>${e.to}`).sort()
+assert('GRAPH-1a: entity_relationships edges kept, dangling endpoints dropped',
+  outTypes('entity:rfi12').join(',') === 'clarifies>entity:spec0330')
+assert('GRAPH-1b: submittal → spec section by normalized section',
+  outTypes('submittal:k-rebar').includes('submitted_for>entity:spec0330'))
+assert('GRAPH-1c: spec section governs FOW', outTypes('entity:spec0330').includes('governs>entity:fConc'))
+assert('GRAPH-1d: FOW link → belongs_to', outTypes('submittal:k-membrane').includes('belongs_to>entity:fRoof'))
+assert('GRAPH-1e: schedule link → required_by', outTypes('submittal:k-embeds').includes('required_by>activity:A200'))
+assert('GRAPH-1f: FOW performed_in activity by WBS name', outTypes('entity:fConc').includes('performed_in>activity:A200'))
+assert('GRAPH-1g: FOW performed_in activity by name words', outTypes('entity:fRoof').includes('performed_in>activity:A300'))
+assert('GRAPH-1h: logic ties → precedes', outTypes('activity:A100').includes('precedes>activity:A200'))
+assert('GRAPH-1i: open flags',
+  gGraph.nodes.get('submittal:k-rebar').open && !gGraph.nodes.get('submittal:k-mix').open &&
+  gGraph.nodes.get('entity:rfi12').open && !gGraph.nodes.get('entity:rfi09').open &&
+  !gGraph.nodes.get('activity:A150').open)
+
+// ---------------------------------------------------------------------------
+section('GRAPH-2: resolve + traverse')
+
+assert('GRAPH-2a: resolves by id', resolveGraphNodes(gGraph, 'activity:A200')[0]?.id === 'activity:A200')
+assert('GRAPH-2b: resolves by activity code / RFI number',
+  resolveGraphNodes(gGraph, 'a300')[0]?.id === 'activity:A300' &&
+  resolveGraphNodes(gGraph, 'RFI-012')[0]?.id === 'entity:rfi12')
+assert('GRAPH-2c: resolves by name words', resolveGraphNodes(gGraph, 'the slab pour')[0]?.id === 'activity:A200')
+assert('GRAPH-2d: type filter', resolveGraphNodes(gGraph, 'concrete', { types: ['feature_of_work'] })[0]?.id === 'entity:fConc')
+
+const reverse = graphNeighbors(gGraph, 'entity:fConc', { direction: 'in' }).map(s => s.node.id).sort()
+assert('GRAPH-2e: reverse lookup lists what points at the FOW',
+  reverse.join(',') === 'entity:spec0330,submittal:k-embeds,submittal:k-mix,submittal:k-rebar')
+const onlyLinks = graphNeighbors(gGraph, 'entity:fConc', { direction: 'in', relationTypes: ['governs'] })
+assert('GRAPH-2f: relation-type filter', onlyLinks.length === 1 && onlyLinks[0].node.id === 'entity:spec0330')
+
+const oneHop = traverseGraph(gGraph, 'entity:rfi12', { direction: 'out', maxHops: 1 }).map(p => p.steps.at(-1).node.id)
+const threeHop = traverseGraph(gGraph, 'entity:rfi12', { direction: 'out', maxHops: 3 }).map(p => p.steps.at(-1).node.id)
+assert('GRAPH-2g: traversal respects maxHops', oneHop.length === 1 && threeHop.includes('activity:A200'))
+assert('GRAPH-2h: each node reached once', new Set(threeHop).size === threeHop.length)
+
+const paths = findGraphPaths(gGraph, 'submittal:k-rebar', 'activity:A200', { direction: 'out' })
+assert('GRAPH-2i: N-hop paths, shortest first',
+  paths.length === 2 && paths[0].steps.length === 2 && paths[1].steps.length === 3)
+assert('GRAPH-2j: path text',
+  formatGraphPath(paths[0]) === '03 30 00 Item rebar —belongs_to→ Concrete —performed_in→ Slab Pour Level 1')
+assert('GRAPH-2k: no path within hops', findGraphPaths(gGraph, 'submittal:k-rebar', 'activity:A200', { direction: 'out', maxHops: 1 }).length === 0)
+
+// ---------------------------------------------------------------------------
+section('GRAPH-3: blockers')
+
+const blockers = findGraphBlockers(gGraph, 'activity:A200').map(p => p.steps.at(-1).node.id).sort()
+assert('GRAPH-3a: open submittals via FOW and schedule link',
+  blockers.includes('submittal:k-rebar') && blockers.includes('submittal:k-embeds'))
+assert('GRAPH-3b: approved submittal not a blocker', !blockers.includes('submittal:k-mix'))
+assert('GRAPH-3c: open RFI on the FOW\'s spec section', blockers.includes('entity:rfi12') && !blockers.includes('entity:rfi09'))
+assert('GRAPH-3d: incomplete predecessor reported', blockers.includes('activity:A100'))
+assert('GRAPH-3e: predecessor chain not walked', !blockers.includes('activity:A150'))
+assert('GRAPH-3f: other FOWs\' submittals excluded', !blockers.includes('submittal:k-membrane'))
+
+const q = runGraphQuery(gGraph, { mode: 'blockers', node: 'slab pour' })
+assert('GRAPH-3g: runGraphQuery resolves text and returns blockers', q.start?.id === 'activity:A200' && q.totalPaths === blockers.length)
+const answer = formatGraphQueryAnswer(q, 'schedule v1')
+assert('GRAPH-3h: answer names blockers, route and schedule version',
+  answer.includes('Item rebar') && answer.includes('←belongs_to—') && answer.includes('Schedule: schedule v1'))
+const miss = runGraphQuery(gGraph, { mode: 'neighbors', node: 'curtain wall' })
+assert('GRAPH-3i: unmatched node', miss.start === null && formatGraphQueryAnswer(miss, null).startsWith('No project entity'))
+const noTarget = runGraphQuery(gGraph, { mode: 'paths', node: 'A100', target: 'nothing here' })
+assert('GRAPH-3j: paths needs a resolvable target', noTarget.target === null && noTarget.paths.length === 0)
+
 // ---------------------------------------------------------------------------
 console.log('\n──────────────────────────────────────────────────')
 console.log(`fow-graph:harness: ${passed} passed, ${failed} failed`)
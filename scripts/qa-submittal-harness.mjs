@@ -18,6 +18,50 @@ import { associateNearbySdCodes } from '../src/lib/ingestion/nearby-sd-associati
 
 import { groupPdfTextItemsIntoLines } from '../src/lib/parsers/pdf-line-reconstruction.ts'
 
+import {
+  applyLifecycleToRevisions,
+  formatSubmittalNumber,
+  nextSubmittalBaseNumber,
+  parseSubmittalNumber,
+  summarizeRevisionHistory,
+} from '../src/lib/chat/submittal-revisions.ts'
+
+import {
+  buildPackageTransition,
+  buildTransmittal,
+  nextPackageNumber,
+  summarizePackage,
+} from '../src/lib/chat/submittal-packages.ts'
+
+import {
+  buildReviewerAging,
+  computeReviewDueDate,
+  countReviewDays,
+  DEFAULT_SUBMITTAL_SLA,
+  evaluateItemReviewSla,
+  normalizeSlaConfig,
+  resolveReviewPeriod,
+  validateSlaConfig,
+} from '../src/lib/chat/submittal-sla.ts'
+
+import { buildPartyIndex, cleanAliases, resolveParty } from '../src/lib/chat/project-parties.ts'
+import {
+  buildBallInCourtSummary,
+  holdsFromHistory,
+  resolveBallInCourt,
+} from '../src/lib/chat/ball-in-court.ts'
+import { applyLifecycleStep, planBulkTransition } from '../src/lib/chat/submittal-lifecycle-apply.ts'
+import {
+  isItemInScope,
+  mergeSubmittalRegisterItems,
+  splitReadPathFields,
+} from '../src/lib/chat/submittal-register-merge.ts'
+import { diffSubmittalRegisters } from '../src/lib/chat/submittal-register-diff.ts'
+
+import { renderTransmittalHtml, renderTransmittalPdf } from '../src/lib/export/transmittal-export.ts'
+
+import { wrapText } from '../src/lib/export/simple-pdf.ts'
+
 import {
   hasUfgsDDFormAppendix,
   parseUfgsDDFormAppendix,
@@ -1768,6 +1812,641 @@ function mkItem(str, x, y, width = str.length * 6) {
   console.log()
 }
 
+// ---------------------------------------------------------------------------
+// REV — Submittal revision chains
+// ---------------------------------------------------------------------------
+
+// REV-1: Numbering — base per section, revision suffix, parse round-trip
+{
+  console.log('REV-1: Submittal numbering')
+  assert('rev 0 is the base number', formatSubmittalNumber('03 30 00-001', 0) === '03 30 00-001')
+  assert('rev 2 appends .2', formatSubmittalNumber('03 30 00-001', 2) === '03 30 00-001.2')
+  const parsed = parseSubmittalNumber('03 30 00-004.1')
+  assert('parse section', parsed?.section === '03 30 00')
+  assert('parse sequence', parsed?.sequence === 4)
+  assert('parse revision', parsed?.revision === 1)
+  assert('unparseable → null', parseSubmittalNumber('shop drawings') === null)
+  assert('first number in section is 001', nextSubmittalBaseNumber('03 30 00', []) === '03 30 00-001')
+  assert(
+    'next number skips issued sequences in the same section only',
+    nextSubmittalBaseNumber('03 30 00', ['03 30 00-001', '03 30 00-003', '05 12 00-007', null]) === '03 30 00-004'
+  )
+  assert('no section → GEN', nextSubmittalBaseNumber(null, []) === 'GEN-001')
+  console.log()
+}
+
+// REV-2: Submit → revise & resubmit → resubmit → approve builds a two-cycle chain
+{
+  console.log('REV-2: Revision chain across a resubmittal')
+  let state = {}
+  let r = applyLifecycleToRevisions(state, 'submitted', {
+    at: '2026-03-02T00:00:00Z', nextBaseNumber: '03 30 00-001', packageReference: 'TR-014',
+  })
+  assert('first submit opens Rev 0', r && !('error' in r) && r.revisions.length === 1 && r.revisions[0].revision === 0)
+  assert('Rev 0 carries the package', r.revisions[0].packageReference === 'TR-014')
+  state = r
+
+  const dup = applyLifecycleToRevisions(state, 'submitted', { at: '2026-03-03T00:00:00Z' })
+  assert('resubmitting an open revision is an error', dup && 'error' in dup)
+
+  r = applyLifecycleToRevisions(state, 'revise_resubmit', {
+    at: '2026-03-16T00:00:00Z', by: 'EOR', note: 'Add rebar laps at construction joints',
+  })
+  assert('return closes Rev 0', r.revisions[0].disposition === 'revise_resubmit' && r.revisions[0].returnedAt === '2026-03-16T00:00:00Z')
+  assert('reviewer comments recorded', r.revisions[0].reviewerComments === 'Add rebar laps at construction joints')
+  state = r
+
+  r = applyLifecycleToRevisions(state, 'submitted', { at: '2026-03-20T00:00:00Z' })
+  assert('resubmittal opens Rev 1', r.revisions.length === 2 && r.revisions[1].submittalNumber === '03 30 00-001.1')
+  assert('base number kept', r.submittalNumber === '03 30 00-001')
+  state = r
+
+  r = applyLifecycleToRevisions(state, 'approved', { at: '2026-03-30T00:00:00Z' })
+  state = r
+  const summary = summarizeRevisionHistory(state.revisions)
+  assert('two cycles', summary.cycles === 2)
+  assert('one resubmittal', summary.resubmittals === 1)
+  assert('final disposition approved', summary.finalDisposition === 'approved')
+  assert('not in review', summary.inReview === false)
+  assert('24 review days (14 + 10)', summary.reviewDays === 24)
+  assert('28 days to approval', summary.daysToApproval === 28)
+  assert('non-revision status → null', applyLifecycleToRevisions(state, 'draft', { at: '2026-04-01T00:00:00Z' }) === null)
+  console.log()
+}
+
+// REV-3: Legacy items and re-marking a returned revision
+{
+  console.log('REV-3: Backfill and re-mark')
+  const r = applyLifecycleToRevisions(
+    { lifecycleSubmittedAt: '2026-02-01T00:00:00Z' },
+    'approved_as_noted',
+    { at: '2026-02-10T00:00:00Z', nextBaseNumber: '09 91 00-002', note: 'Match sample' }
+  )
+  assert('Rev 0 backfilled from lifecycleSubmittedAt', r.revisions.length === 1 && r.revisions[0].submittedAt === '2026-02-01T00:00:00Z')
+  assert('backfilled revision closed', r.revisions[0].disposition === 'approved_as_noted')
+
+  const re = applyLifecycleToRevisions(r, 'revise_resubmit', { at: '2026-02-12T00:00:00Z', note: 'Color mismatch' })
+  assert('re-mark keeps one revision', re.revisions.length === 1)
+  assert('re-mark updates disposition', re.revisions[0].disposition === 'revise_resubmit')
+  assert('re-mark keeps original returnedAt', re.revisions[0].returnedAt === '2026-02-10T00:00:00Z')
+  assert('re-mark appends comments', re.revisions[0].reviewerComments === 'Match sample\nColor mismatch')
+  assert('empty history summary', summarizeRevisionHistory(undefined).cycles === 0)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// PKG — Submittal packages and transmittals
+// ---------------------------------------------------------------------------
+
+function mkRegisterItem(dedupeKey, overrides = {}) {
+  return {
+    specSection: '03 30 00',
+    sectionTitle: 'Cast-in-Place Concrete',
+    submittalItem: `Item ${dedupeKey}`,
+    submittalType: 'Product Data',
+    requiredAction: null,
+    approvalRequired: true,
+    sourceReference: {},
+    excerpt: null,
+    confidence: 0.9,
+    notes: null,
+    dedupeKey,
+    ...overrides,
+  }
+}
+
+// PKG-1: Package numbering and transitions
+{
+  console.log('PKG-1: Package numbering and lifecycle transitions')
+  assert('first package is PKG-001', nextPackageNumber([]) === 'PKG-001')
+  assert('next skips the highest issued', nextPackageNumber(['PKG-002', 'PKG-010', 'other', null]) === 'PKG-011')
+  const transmit = buildPackageTransition('draft', 'transmitted', 'gc_pm')
+  assert('draft → transmitted allowed', transmit.ok)
+  assert('transmit stamps transmittedAt and clears returnedAt',
+    transmit.ok && transmit.timestamps.transmittedAt === transmit.entry.changedAt && transmit.timestamps.returnedAt === null)
+  const back = buildPackageTransition('transmitted', 'returned')
+  assert('transmitted → returned stamps returnedAt', back.ok && typeof back.timestamps.returnedAt === 'string')
+  assert('returned → transmitted (resubmit) allowed', buildPackageTransition('returned', 'transmitted').ok)
+  assert('draft → returned rejected', !buildPackageTransition('draft', 'returned').ok)
+  assert('closed is terminal', !buildPackageTransition('closed', 'draft').ok)
+  console.log()
+}
+
+// PKG-2: Rollup against the register
+{
+  console.log('PKG-2: Package rollup')
+  const register = [
+    mkRegisterItem('a', { lifecycleStatus: 'approved' }),
+    mkRegisterItem('b', { lifecycleStatus: 'revise_resubmit' }),
+    mkRegisterItem('c', { lifecycleStatus: 'submitted' }),
+  ]
+  const rollup = summarizePackage({ itemDedupeKeys: ['a', 'b', 'c', 'gone'] }, register)
+  assert('item count includes missing keys', rollup.itemCount === 4)
+  assert('missing key reported', rollup.missingKeys.length === 1 && rollup.missingKeys[0] === 'gone')
+  assert('two returned', rollup.returnedCount === 2)
+  assert('one approved', rollup.approvedCount === 1)
+  assert('one to resubmit', rollup.reviseResubmitCount === 1)
+  assert('not all returned while one is in review', rollup.allReturned === false)
+  const done = summarizePackage({ itemDedupeKeys: ['a', 'b'] }, register)
+  assert('all returned once every present item is back', done.allReturned === true)
+  console.log()
+}
+
+// PKG-3: Transmittal document model and renderers
+{
+  console.log('PKG-3: Transmittal generation')
+  const register = [
+    mkRegisterItem('a', {
+      sdCode: 'SD-03',
+      approvalAuthority: 'Government',
+      submittalNumber: '03 30 00-001',
+      revisions: [
+        { revision: 0, submittalNumber: '03 30 00-001' },
+        { revision: 1, submittalNumber: '03 30 00-001.1' },
+      ],
+    }),
+    mkRegisterItem('b', { approvalRequired: false, submittalItem: 'Curing compound <data> & (sheets)' }),
+    mkRegisterItem('c', { requiredAction: 'Submit for record' }),
+  ]
+  const pkg = {
+    id: 'p1', packageNumber: 'PKG-004', title: 'Concrete materials', specSection: '03 30 00',
+    purpose: 'for_approval', itemDedupeKeys: ['b', 'a', 'c', 'gone'], status: 'draft', statusHistory: [],
+    toParty: 'Architect', fromParty: 'GC', dueDate: '2026-11-02', transmittedAt: null, returnedAt: null,
+    remarks: 'Please return by the due date.', createdAt: '2026-10-19T00:00:00Z',
+  }
+  const doc = buildTransmittal(pkg, register, { name: 'Test Project', projectNumber: 'P-1', address: null }, '2026-10-19')
+  assert('rows follow package order', doc.rows.map(r => r.description).join('|') === 'Curing compound <data> & (sheets)|Item a|Item c')
+  assert('latest revision number used', doc.rows[1].submittalNumber === '03 30 00-001.1')
+  assert('SD code and approval authority carried', doc.rows[1].sdCode === 'SD-03' && doc.rows[1].approvalAuthority === 'Government')
+  assert('register requiredAction wins', doc.rows[2].requiredAction === 'Submit for record')
+  assert('approvalRequired false → Information', doc.rows[0].requiredAction === 'Information')
+  assert('approvalRequired true → Approval', doc.rows[1].requiredAction === 'Approval')
+  assert('draft dated today', doc.date === '2026-10-19')
+  assert('missing member counted', doc.missingItemCount === 1)
+
+  const html = renderTransmittalHtml(doc)
+  assert('HTML escapes item text', html.includes('Curing compound &lt;data&gt; &amp; (sheets)'))
+  assert('HTML lists package number', html.includes('PKG-004'))
+  assert('plain HTML has no Word namespace', !html.includes('urn:schemas-microsoft-com:office:word'))
+  assert('Word HTML has Office namespace', renderTransmittalHtml(doc, { word: true }).includes('urn:schemas-microsoft-com:office:word'))
+
+  const pdf = renderTransmittalPdf(doc)
+  const text = Buffer.from(pdf).toString('latin1')
+  assert('PDF header', text.startsWith('%PDF-1.4'))
+  assert('PDF trailer', text.trimEnd().endsWith('%%EOF'))
+  assert('PDF escapes parentheses', text.includes('\\(sheets\\)'))
+  const xrefAt = Number(/startxref\n(\d+)/.exec(text)?.[1])
+  assert('startxref points at xref table', text.slice(xrefAt, xrefAt + 4) === 'xref')
+
+  const many = { ...doc, rows: Array.from({ length: 80 }, (_, i) => ({ ...doc.rows[0], index: i + 1 })) }
+  const pages = (Buffer.from(renderTransmittalPdf(many)).toString('latin1').match(/\/Type \/Page /g) ?? []).length
+  assert('long transmittal paginates', pages > 1)
+  assert('wrapText breaks long lines', wrapText('alpha beta gamma delta epsilon zeta eta theta', 60, 8).length > 1)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// SLA — Review turnaround periods
+// ---------------------------------------------------------------------------
+
+// SLA-1: Config validation and period resolution
+{
+  console.log('SLA-1: SLA config')
+  const parsed = validateSlaConfig({
+    defaultPeriod: { days: 14, basis: 'calendar' },
+    byAuthority: { 'Designer of Record': { days: 10, basis: 'working' } },
+    holidays: ['2026-11-26'],
+  })
+  assert('valid config accepted', 'config' in parsed)
+  const config = parsed.config
+  assert('authority override matched case-insensitively',
+    resolveReviewPeriod(config, 'designer of record').basis === 'working')
+  assert('unknown authority → default', resolveReviewPeriod(config, 'Owner').days === 14)
+  assert('zero-day period rejected', 'error' in validateSlaConfig({ defaultPeriod: { days: 0, basis: 'calendar' } }))
+  assert('bad holiday rejected', 'error' in validateSlaConfig({ defaultPeriod: { days: 5, basis: 'working' }, holidays: ['11/26'] }))
+  assert('missing config → default', normalizeSlaConfig(undefined) === DEFAULT_SUBMITTAL_SLA)
+  assert('garbage config → default', normalizeSlaConfig({ defaultPeriod: 'x' }) === DEFAULT_SUBMITTAL_SLA)
+  console.log()
+}
+
+// SLA-2: Due dates on calendar and working-day bases
+{
+  console.log('SLA-2: Due-date computation')
+  const config = { ...DEFAULT_SUBMITTAL_SLA, holidays: ['2026-11-26', '2026-11-27'] }
+  // Mon 2026-11-02 + 14 calendar days = Mon 2026-11-16
+  assert('14 calendar days', computeReviewDueDate('2026-11-02T15:00:00Z', { days: 14, basis: 'calendar' }, config) === '2026-11-16')
+  // Fri 2026-11-06 + 15 calendar days = Sat 11-21 → rolls to Mon 11-23
+  assert('calendar due on a weekend rolls forward', computeReviewDueDate('2026-11-06', { days: 15, basis: 'calendar' }, config) === '2026-11-23')
+  // Fri 2026-11-20 + 5 working days skips the weekend and Thanksgiving Thu/Fri → Tue 12-01
+  assert('working days skip weekends and holidays', computeReviewDueDate('2026-11-20', { days: 5, basis: 'working' }, config) === '2026-12-01')
+  assert('calendar days counted', countReviewDays('2026-11-16', '2026-11-20', 'calendar', config) === 4)
+  assert('working days counted across weekend', countReviewDays('2026-11-13', '2026-11-17', 'working', config) === 2)
+  console.log()
+}
+
+// SLA-3: Item evaluation and reviewer aging
+{
+  console.log('SLA-3: Review cycles and aging buckets')
+  const config = {
+    ...DEFAULT_SUBMITTAL_SLA,
+    byAuthority: { Government: { days: 10, basis: 'working' } },
+  }
+  const lateReturn = {
+    ...mkRegisterItem('x'),
+    approvalAuthority: 'Architect',
+    lifecycleStatus: 'submitted',
+    revisions: [
+      // due 11-16, returned 11-20 → 4 days late
+      { revision: 0, submittalNumber: 'A-001', submittedAt: '2026-11-02T00:00:00Z', returnedAt: '2026-11-20T00:00:00Z', disposition: 'revise_resubmit', reviewDueDate: '2026-11-16' },
+      // open, due 12-07, today 12-18 → 11 days late
+      { revision: 1, submittalNumber: 'A-001.1', submittedAt: '2026-11-23T00:00:00Z', returnedAt: null, disposition: null, reviewDueDate: '2026-12-07' },
+    ],
+  }
+  const sla = evaluateItemReviewSla(lateReturn, config, '2026-12-18')
+  assert('two cycles', sla.cycles.length === 2)
+  assert('first cycle returned late', sla.cycles[0].status === 'returned_late' && sla.cycles[0].daysLate === 4)
+  assert('open cycle overdue', sla.current?.status === 'overdue' && sla.current.daysLate === 11)
+  assert('reviewer delay sums cycles', sla.reviewerDelayDays === 15)
+
+  const legacy = {
+    ...mkRegisterItem('y'),
+    approvalAuthority: 'Government',
+    lifecycleStatus: 'pending_review',
+    lifecycleSubmittedAt: '2026-12-14T00:00:00Z',
+  }
+  const legacySla = evaluateItemReviewSla(legacy, config, '2026-12-18')
+  assert('legacy item gets a cycle from lifecycleSubmittedAt', legacySla.current?.revision === null)
+  assert('authority period applied (10 working days)', legacySla.current?.dueDate === '2026-12-28')
+  assert('not yet due', legacySla.current?.status === 'on_time' && legacySla.current.daysRemaining === 6)
+
+  const draft = { ...mkRegisterItem('z'), lifecycleStatus: 'draft' }
+  assert('draft item has no cycles', evaluateItemReviewSla(draft, config, '2026-12-18').cycles.length === 0)
+
+  const aging = buildReviewerAging(
+    [lateReturn, legacy, draft, { ...legacy, dedupeKey: 'y2', lifecycleAssignedReviewer: 'EOR' }],
+    config,
+    '2026-12-18'
+  )
+  assert('one row per reviewer with cycles', aging.length === 3)
+  assert('worst reviewer first', aging[0].reviewer === 'Architect')
+  assert('11 days late → 8–14 bucket', aging[0].buckets.overdue_8_14 === 1)
+  assert('assigned reviewer wins over authority', aging.some(r => r.reviewer === 'EOR' && r.open === 1))
+  assert('late return counted', aging[0].lateReturns === 1)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// BIC — Ball in court and party workload
+// ---------------------------------------------------------------------------
+
+const bicParties = [
+  { id: 'p-gc', name: 'Acme Builders', role: 'contractor', organization: null, email: null, aliases: ['GC'] },
+  { id: 'p-ae', name: 'Smith Architects', role: 'designer', organization: null, email: null, aliases: ['Smith Arch.', 'A/E'] },
+  { id: 'p-own', name: 'City of Springfield', role: 'owner', organization: null, email: null, aliases: [] },
+]
+
+// BIC-1: Party resolution
+{
+  console.log('BIC-1: Party name resolution')
+  const index = buildPartyIndex(bicParties)
+  assert('alias matched ignoring case and punctuation', resolveParty('smith arch', index)?.id === 'p-ae')
+  assert('slash alias matched', resolveParty('A / E', index)?.id === 'p-ae')
+  assert('unknown name unmatched', resolveParty('Jones Engineering', index) === null)
+  assert('blank name unmatched', resolveParty('  ', index) === null)
+  assert('aliases de-duplicated and own name dropped',
+    JSON.stringify(cleanAliases('Acme Builders', ['GC', 'gc.', 'ACME builders', ' ', 'Acme'])) === JSON.stringify(['GC', 'Acme']))
+  console.log()
+}
+
+// BIC-2: Side and holder from status
+{
+  console.log('BIC-2: Ball-in-court side')
+  const index = buildPartyIndex(bicParties)
+  const withGc = { ...mkRegisterItem('a'), lifecycleStatus: 'revise_resubmit', lifecycleResponsibleParty: 'gc' }
+  assert('revise & resubmit → contractor party', resolveBallInCourt(withGc, index)?.party?.id === 'p-gc')
+  const inReview = { ...mkRegisterItem('b'), lifecycleStatus: 'pending_review', approvalAuthority: 'A/E' }
+  const reviewCourt = resolveBallInCourt(inReview, index)
+  assert('in review → designer party via alias', reviewCourt?.side === 'designer' && reviewCourt.holder === 'Smith Architects')
+  const govt = { ...mkRegisterItem('c'), lifecycleStatus: 'submitted', approvalAuthority: 'Government' }
+  const govtCourt = resolveBallInCourt(govt, index)
+  assert('unmatched government authority → owner side', govtCourt?.side === 'owner' && govtCourt.party === null)
+  const ownerParty = { ...inReview, lifecycleAssignedReviewer: 'City of Springfield' }
+  assert('assigned reviewer wins over authority', resolveBallInCourt(ownerParty, index)?.side === 'owner')
+  assert('approved item is with nobody', resolveBallInCourt({ ...inReview, lifecycleStatus: 'approved' }, index) === null)
+  assert('draft item is with nobody', resolveBallInCourt(mkRegisterItem('d'), index) === null)
+  console.log()
+}
+
+// BIC-3: Holds from history and the per-party dashboard
+{
+  console.log('BIC-3: Hold durations and workload rows')
+  const index = buildPartyIndex(bicParties)
+  const history = (...steps) => steps.map(([toStatus, changedAt], i) => ({
+    fromStatus: i === 0 ? 'draft' : steps[i - 1][0],
+    toStatus,
+    changedAt,
+  }))
+  const cycled = {
+    ...mkRegisterItem('h1'),
+    approvalAuthority: 'Smith Arch.',
+    lifecycleResponsibleParty: 'Acme Builders',
+    lifecycleStatus: 'pending_review',
+    lifecycleStatusHistory: history(
+      ['pending_submission', '2026-11-01T00:00:00Z'],
+      ['submitted', '2026-11-05T00:00:00Z'],
+      ['pending_review', '2026-11-06T00:00:00Z'],
+      ['revise_resubmit', '2026-11-15T00:00:00Z'],
+      ['submitted', '2026-11-20T00:00:00Z'],
+    ),
+  }
+  const holds = holdsFromHistory(cycled)
+  assert('submitted → pending_review is one hold', holds.length === 4)
+  assert('first review hold lasted 10 days',
+    holds[1].side === 'reviewer' && holds[1].from === '2026-11-05T00:00:00Z' && holds[1].to === '2026-11-15T00:00:00Z')
+  assert('current hold open', holds[3].to === null)
+
+  const legacy = {
+    ...mkRegisterItem('h2'),
+    approvalAuthority: 'Smith Architects',
+    lifecycleStatus: 'submitted',
+    lifecycleSubmittedAt: '2026-11-28T00:00:00Z',
+  }
+  const stranger = {
+    ...mkRegisterItem('h3'),
+    lifecycleStatus: 'pending_submission',
+    lifecycleResponsibleParty: 'Jones Mechanical',
+    lifecycleStatusHistory: history(['pending_submission', '2026-11-25T00:00:00Z']),
+  }
+  const summary = buildBallInCourtSummary([cycled, legacy, stranger, mkRegisterItem('h4')], index, '2026-12-01T00:00:00Z')
+  const ae = summary.rows.find(r => r.key === 'p-ae')
+  assert('designer holds two items', ae?.openCount === 2)
+  assert('average days held uses history and legacy timestamp', ae?.avgDaysHeld === 7)
+  assert('oldest item is the longest held', ae?.oldest?.dedupeKey === 'h1' && ae.oldest.daysHeld === 11)
+  assert('finished review hold averaged', ae?.avgCompletedHoldDays === 10 && ae.completedHolds === 1)
+  const gc = summary.rows.find(r => r.key === 'p-gc')
+  assert('contractor credited with past holds only', gc?.openCount === 0 && gc.completedHolds === 2)
+  assert('side totals', summary.bySide.designer.openCount === 2 && summary.bySide.contractor.openCount === 1)
+  assert('unmatched name listed', summary.unmatchedNames.length === 1 && summary.unmatchedNames[0].name === 'Jones Mechanical')
+  assert('busiest party first', summary.rows[0].key === 'p-ae')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// BLK — Bulk lifecycle transitions
+// ---------------------------------------------------------------------------
+
+// BLK-1: Single step payload update
+{
+  console.log('BLK-1: applyLifecycleStep')
+  const payload = { submittalItem: 'Mix design', lifecycleStatus: 'pending_submission', approvalAuthority: 'Architect' }
+  const step = applyLifecycleStep(payload, 'submitted', {
+    by: 'editor',
+    note: 'Transmittal 12',
+    slaConfig: DEFAULT_SUBMITTAL_SLA,
+    nextBaseNumber: '03 30 00-004',
+  })
+  assert('step ok', step.ok)
+  assert('history appended with note', step.payload.lifecycleStatusHistory.length === 1 &&
+    step.payload.lifecycleStatusHistory[0].note === 'Transmittal 12')
+  assert('submitted timestamp set', step.timestampField === 'lifecycleSubmittedAt' && !!step.payload.lifecycleSubmittedAt)
+  assert('base number issued and Rev 0 opened', step.payload.submittalNumber === '03 30 00-004' &&
+    step.payload.revisions.length === 1 && step.revisionsChanged)
+  assert('SLA due date set on the payload and revision', !!step.payload.lifecycleDueDate &&
+    step.payload.revisions[0].reviewDueDate === step.payload.lifecycleDueDate)
+  const override = applyLifecycleStep(payload, 'submitted', { reviewDueDate: null, slaConfig: DEFAULT_SUBMITTAL_SLA, nextBaseNumber: 'X-001' })
+  assert('explicit null due date skips the SLA', override.ok && override.payload.lifecycleDueDate === undefined)
+  assert('input payload untouched', payload.lifecycleStatus === 'pending_submission' && !('revisions' in payload))
+  const illegal = applyLifecycleStep(payload, 'approved', {})
+  assert('illegal step rejected', !illegal.ok && /Invalid transition/.test(illegal.error))
+  console.log()
+}
+
+// BLK-2: Bulk plan — moves, unchanged, blocked
+{
+  console.log('BLK-2: planBulkTransition')
+  const cand = (itemId, specSection, payload) => ({ itemId, workflowRunId: 'run-1', specSection, payload })
+  const candidates = [
+    cand('i1', '03 30 00', { submittalItem: 'Draft one', lifecycleStatus: 'draft' }),
+    cand('i2', '03 30 00', { submittalItem: 'Ready two', lifecycleStatus: 'pending_submission' }),
+    cand('i3', '03 30 00', { submittalItem: 'Already in', lifecycleStatus: 'submitted', submittalNumber: '03 30 00-001' }),
+    cand('i4', '05 12 00', { submittalItem: 'Closed', lifecycleStatus: 'closed' }),
+    cand('i5', '03 30 00', {
+      submittalItem: 'Resubmit',
+      lifecycleStatus: 'revise_resubmit',
+      submittalNumber: '03 30 00-001',
+      revisions: [{ revision: 0, submittalNumber: '03 30 00-001', submittedAt: '2026-11-01T00:00:00Z', packageReference: null,
+        returnedAt: '2026-11-10T00:00:00Z', disposition: 'revise_resubmit', reviewer: null, reviewerComments: null }],
+    }),
+  ]
+  const issuedNumbersByRun = new Map([['run-1', ['03 30 00-001']]])
+  const plan = planBulkTransition(candidates, 'submitted', { by: 'editor', note: 'Batch 1', issuedNumbersByRun })
+  const byId = Object.fromEntries(plan.entries.map(e => [e.itemId, e]))
+  assert('counts', plan.counts.move === 3 && plan.counts.unchanged === 1 && plan.counts.blocked === 1)
+  assert('draft walks through pending submission', byId.i1.path.join('>') === 'pending_submission>submitted')
+  assert('first submissions number consecutively', byId.i1.issuesSubmittalNumber === '03 30 00-002' &&
+    byId.i2.issuesSubmittalNumber === '03 30 00-003')
+  assert('resubmittal keeps its base number', byId.i5.issuesSubmittalNumber === null &&
+    plan.payloads.get('i5').revisions[1].submittalNumber === '03 30 00-001.1')
+  assert('closed item blocked with reason', byId.i4.outcome === 'blocked' && /No legal path/.test(byId.i4.reason))
+  assert('shared note on every step', plan.payloads.get('i1').lifecycleStatusHistory.every(h => h.note === 'Batch 1'))
+  assert('only movers have payloads', plan.payloads.size === 3 && !plan.payloads.has('i3'))
+  assert('issued numbers carried for the next batch', issuedNumbersByRun.get('run-1').length === 3)
+
+  const viaOutcome = planBulkTransition(
+    [cand('j1', null, { submittalItem: 'AAN', lifecycleStatus: 'approved_as_noted' })],
+    'draft',
+    { issuedNumbersByRun: new Map() }
+  )
+  assert('path through a review outcome is blocked',
+    viaOutcome.entries[0].outcome === 'blocked' && /Revision Required/.test(viaOutcome.entries[0].reason))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// RGN — Incremental register regeneration
+// ---------------------------------------------------------------------------
+
+// RGN-1: Section scope
+{
+  console.log('RGN-1: isItemInScope')
+  const item = mkRegisterItem('a', { specSection: '03 30 53' })
+  assert('prefix filter matches', isItemInScope(item, ['03 30']))
+  assert('punctuation ignored', isItemInScope(item, ['03-30-53']))
+  assert('other section out of scope', !isItemInScope(item, ['03 31']))
+  assert('null scope covers everything', isItemInScope(mkRegisterItem('b', { specSection: null }), null))
+  assert('unsectioned item outside a section scope', !isItemInScope(mkRegisterItem('b', { specSection: null }), ['03']))
+  console.log()
+}
+
+// RGN-2: Merge keeps workflow state, supersedes, adds
+{
+  console.log('RGN-2: mergeSubmittalRegisterItems')
+  const at = '2026-10-19T12:00:00.000Z'
+  const previous = [
+    mkRegisterItem('keep', {
+      excerpt: 'Submit mix design.',
+      persistedItemId: 'row-1',
+      reviewStatus: 'approved',
+      lifecycleStatus: 'submitted',
+      submittalNumber: '03 30 00-001',
+      sdCode: 'SD-05',
+      confidence: 0.7,
+    }),
+    mkRegisterItem('reword', { excerpt: 'Submit curing compound data.', reviewStatus: 'pending' }),
+    mkRegisterItem('gone', { excerpt: 'Submit form ties.', reviewStatus: 'approved', lifecycleStatus: 'pending_submission' }),
+    mkRegisterItem('other', { specSection: '05 12 00', reviewStatus: 'approved' }),
+    mkRegisterItem('revived', { excerpt: 'Submit waterstops.', reviewStatus: 'superseded' }),
+  ]
+  const regenerated = [
+    mkRegisterItem('keep', { excerpt: 'Submit  mix design.', confidence: 0.95, sdCode: 'SD-03' }),
+    mkRegisterItem('reword', { excerpt: 'Submit curing compound data and MSDS.' }),
+    mkRegisterItem('revived', { excerpt: 'Submit waterstops.' }),
+    mkRegisterItem('fresh', { excerpt: 'Submit vapor retarder.' }),
+  ]
+  const { items, summary } = mergeSubmittalRegisterItems(previous, regenerated, {
+    sections: ['03 30 00'],
+    supersedeMissing: true,
+    at,
+  })
+  const byKey = Object.fromEntries(items.map(i => [i.dedupeKey, i]))
+  assert('summary counts', summary.unchanged === 1 && summary.updated === 1 && summary.added === 2 &&
+    summary.superseded === 1 && summary.carried === 1)
+  assert('lifecycle and review kept on unchanged item', byKey.keep.lifecycleStatus === 'submitted' &&
+    byKey.keep.submittalNumber === '03 30 00-001' && byKey.keep.reviewStatus === 'approved' &&
+    byKey.keep.persistedItemId === 'row-1')
+  assert('reviewer fix survives, evidence refreshed', byKey.keep.sdCode === 'SD-05' && byKey.keep.confidence === 0.95)
+  assert('whitespace-only change is unchanged', byKey.keep.regeneration.status === 'unchanged')
+  assert('reworded item flagged with previous excerpt', byKey.reword.regeneration.status === 'updated' &&
+    byKey.reword.regeneration.previousExcerpt === 'Submit curing compound data.' &&
+    byKey.reword.excerpt === 'Submit curing compound data and MSDS.')
+  assert('missing item superseded, not dropped', byKey.gone.reviewStatus === 'superseded' &&
+    byKey.gone.regeneration.status === 'superseded' && byKey.gone.lifecycleStatus === 'pending_submission')
+  assert('out-of-scope item untouched', byKey.other.reviewStatus === 'approved' && byKey.other.regeneration === undefined)
+  assert('re-extracted superseded item comes back for review', byKey.revived.reviewStatus === 'pending' &&
+    byKey.revived.regeneration.status === 'new')
+  assert('new item pending and flagged', byKey.fresh.reviewStatus === 'pending' && byKey.fresh.regeneration.status === 'new')
+  assert('register order kept, new items last', items.map(i => i.dedupeKey).join(',') === 'keep,reword,gone,other,revived,fresh')
+
+  const again = mergeSubmittalRegisterItems(items, regenerated, { sections: ['03 30 00'], supersedeMissing: true, at: '2026-10-20T00:00:00.000Z' })
+  const gone = again.items.find(i => i.dedupeKey === 'gone')
+  assert('already superseded keeps its original mark', gone.regeneration.at === at && again.summary.superseded === 1)
+
+  const keyword = mergeSubmittalRegisterItems(previous, regenerated, { sections: null, supersedeMissing: false, at })
+  assert('keyword run supersedes nothing', keyword.summary.superseded === 0 &&
+    keyword.items.find(i => i.dedupeKey === 'gone').reviewStatus === 'approved')
+  console.log()
+}
+
+// RGN-3: Read-path fields split back into row columns
+{
+  console.log('RGN-3: splitReadPathFields')
+  const { payload, review } = splitReadPathFields(mkRegisterItem('x', {
+    persistedItemId: 'row-9',
+    reviewStatus: 'superseded',
+    reviewNotes: 'Removed by Addendum 2',
+    reviewedAt: null,
+    reviewedByRole: 'editor',
+    lifecycleStatus: 'draft',
+  }))
+  assert('payload has no read-path fields', !('persistedItemId' in payload) && !('reviewStatus' in payload) &&
+    !('reviewNotes' in payload))
+  assert('payload keeps item state', payload.lifecycleStatus === 'draft' && payload.dedupeKey === 'x')
+  assert('review columns carried', review.review_status === 'superseded' &&
+    review.review_notes === 'Removed by Addendum 2' && review.reviewed_by_role === 'editor')
+  assert('missing review status defaults to pending', splitReadPathFields(mkRegisterItem('y')).review.review_status === 'pending')
+  console.log()
+}
+
+// RGN-4: Superseded items leave the ball-in-court dashboard
+{
+  console.log('RGN-4: superseded excluded from ball in court')
+  const item = mkRegisterItem('s', { lifecycleStatus: 'submitted', approvalAuthority: 'Architect' })
+  const index = buildPartyIndex([])
+  assert('open item is with the reviewer', resolveBallInCourt(item, index)?.side === 'designer')
+  assert('superseded item is with nobody', resolveBallInCourt({ ...item, reviewStatus: 'superseded' }, index) === null)
+  console.log()
+}
+
+// RGN-5: Superseded items are not aging, overdue or bulk-movable
+{
+  console.log('RGN-5: superseded excluded from review SLA and bulk moves')
+  const open = {
+    ...mkRegisterItem('s', { lifecycleStatus: 'submitted', approvalAuthority: 'Architect' }),
+    revisions: [{ revision: 0, submittalNumber: 'A-001', submittedAt: '2026-11-02T00:00:00Z', returnedAt: null, disposition: null, reviewDueDate: '2026-11-16' }],
+  }
+  const superseded = { ...open, dedupeKey: 's2', reviewStatus: 'superseded' }
+  assert('open item overdue', evaluateItemReviewSla(open, DEFAULT_SUBMITTAL_SLA, '2026-12-18').current?.status === 'overdue')
+  const sla = evaluateItemReviewSla(superseded, DEFAULT_SUBMITTAL_SLA, '2026-12-18')
+  assert('superseded item has no review cycles', sla.cycles.length === 0 && sla.current === null && sla.reviewerDelayDays === 0)
+  const aging = buildReviewerAging([open, superseded], DEFAULT_SUBMITTAL_SLA, '2026-12-18')
+  assert('reviewer aging counts only the open item', aging.length === 1 && aging[0].open === 1)
+
+  const plan = planBulkTransition(
+    [
+      { itemId: 'k1', workflowRunId: 'run-1', specSection: null, payload: { submittalItem: 'Live', lifecycleStatus: 'submitted', submittalNumber: 'A-001' }, reviewStatus: 'approved' },
+      { itemId: 'k2', workflowRunId: 'run-1', specSection: null, payload: { submittalItem: 'Gone', lifecycleStatus: 'submitted', submittalNumber: 'A-002' }, reviewStatus: 'superseded' },
+    ],
+    'pending_review',
+    { issuedNumbersByRun: new Map() }
+  )
+  const byId = Object.fromEntries(plan.entries.map(e => [e.itemId, e]))
+  assert('live item moves', byId.k1.outcome === 'move')
+  assert('superseded item blocked', byId.k2.outcome === 'blocked' && /Superseded/.test(byId.k2.reason) && !plan.payloads.has('k2'))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// DIF — Register-to-register diff
+// ---------------------------------------------------------------------------
+
+// DIF-1: Added, removed, changed by dedupeKey
+{
+  console.log('DIF-1: diffSubmittalRegisters by dedupeKey')
+  const base = [
+    mkRegisterItem('a', { submittalItem: 'Concrete mix design', sdCode: 'SD-03', approvalAuthority: 'Architect' }),
+    mkRegisterItem('b', { submittalItem: 'Curing compound product data', requiredAction: 'Submit' }),
+    mkRegisterItem('c', { submittalItem: 'Form tie layout' }),
+    mkRegisterItem('z', { submittalItem: 'Superseded earlier', reviewStatus: 'superseded' }),
+  ]
+  const head = [
+    mkRegisterItem('a', { submittalItem: 'Concrete mix design', sdCode: 'SD-05', approvalAuthority: 'Government' }),
+    mkRegisterItem('b', { submittalItem: 'Curing compound product data', requiredAction: '  submit ' }),
+    mkRegisterItem('d', { submittalItem: 'Vapor retarder samples' }),
+    mkRegisterItem('c', { submittalItem: 'Form tie layout', regeneration: { status: 'superseded', at: '2026-10-19T00:00:00Z' } }),
+  ]
+  const diff = diffSubmittalRegisters(base, head)
+  assert('counts ignore superseded items', diff.counts.base === 3 && diff.counts.head === 3)
+  assert('added', diff.added.length === 1 && diff.added[0].dedupeKey === 'd')
+  assert('superseded in head shows as removed', diff.removed.length === 1 && diff.removed[0].dedupeKey === 'c')
+  assert('changed fields listed', diff.changed.length === 1 &&
+    diff.changed[0].changes.map(c => c.field).join(',') === 'sdCode,approvalAuthority')
+  assert('before and after recorded', diff.changed[0].changes[0].before === 'SD-03' && diff.changed[0].changes[0].after === 'SD-05')
+  assert('case and whitespace are not a change', diff.unchangedCount === 1)
+  console.log()
+}
+
+// DIF-2: Fuzzy fallback
+{
+  console.log('DIF-2: fuzzy pairing within a section')
+  const base = [
+    mkRegisterItem('k1', { submittalItem: 'Shop drawings for reinforcing steel placement', submittalType: 'Shop Drawings' }),
+    mkRegisterItem('k2', { specSection: '05 12 00', submittalItem: 'Anchor bolt layout' }),
+  ]
+  const head = [
+    mkRegisterItem('k1-new', { submittalItem: 'Shop drawings for reinforcing steel bar placement', submittalType: 'Shop Drawings' }),
+    mkRegisterItem('k2-new', { specSection: '05 50 00', submittalItem: 'Anchor bolt layout' }),
+  ]
+  const diff = diffSubmittalRegisters(base, head)
+  const pair = diff.changed.find(c => c.base.dedupeKey === 'k1')
+  assert('reworded item paired by title', pair?.matchedBy === 'fuzzy' && pair.head.dedupeKey === 'k1-new' && pair.similarity >= 0.7)
+  assert('title change reported', pair?.changes.length === 1 && pair.changes[0].field === 'submittalItem')
+  assert('same title in another section is not paired',
+    diff.removed.some(r => r.dedupeKey === 'k2') && diff.added.some(a => a.dedupeKey === 'k2-new'))
+  const strict = diffSubmittalRegisters(base, head, { fuzzyThreshold: 0.95 })
+  assert('threshold respected', strict.changed.length === 0 && strict.removed.length === 2)
+  console.log()
+}
+
 // ---------------------------------------------------------------------------
 // Summary
 // ---------------------------------------------------------------------------
@@ -2,14 +2,38 @@
 
 import {
   normalizeHeaders,
+  normalizeProfileRows,
   normalizeRows,
 } from '../src/lib/reconciliation/submittal-log-normalizer.ts'
 
+import {
+  detectSubmittalLogProfile,
+  formatPlatformNumber,
+  parsePlatformNumber,
+  SUBMITTAL_LOG_PROFILE_IDS,
+  SUBMITTAL_LOG_PROFILES,
+  toPlatformRow,
+} from '../src/lib/reconciliation/submittal-log-profiles.ts'
+
 import {
   reconcileRegisters,
   applyMatchDecision,
 } from '../src/lib/reconciliation/submittal-reconciliation.ts'
 
+import {
+  parseLogDate,
+  planReconciliationWriteBack,
+} from '../src/lib/reconciliation/submittal-reconciliation-apply.ts'
+
+import {
+  externalRowIdentity,
+  indexRegisterItems,
+  planReconciliationResync,
+  resolveDecisionItemId,
+} from '../src/lib/reconciliation/submittal-log-resync.ts'
+
+import { DEFAULT_SUBMITTAL_SLA } from '../src/lib/chat/submittal-sla.ts'
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -380,6 +404,391 @@ console.log('\nREC Tests — Reconciliation Engine\n')
   }
 }
 
+// ---------------------------------------------------------------------------
+// Platform profiles (Procore / ACC / e-Builder)
+// ---------------------------------------------------------------------------
+
+function mockExportRow(overrides = {}) {
+  return {
+    'Spec Section': '03 30 00',
+    'Section Title': 'Cast-in-Place Concrete',
+    'Submittal Item': 'Concrete Mix Design',
+    'Submittal Type': 'SD-03 Product Data',
+    'SD Code': 'SD-03',
+    'Approval Authority': 'Architect',
+    'Lifecycle Status': 'approved_as_noted',
+    'Submittal No.': '03 30 00-004.2',
+    'Due Date': '2026-11-14',
+    'Responsible Party': 'Acme Concrete',
+    'Submitted At': '2026-11-01T15:00:00.000Z',
+    'Approved At': '2026-11-12T09:00:00.000Z',
+    'Need-by Date': '2026-12-01',
+    'Source Excerpt': 'Submit mix designs for each class of concrete.',
+    ...overrides,
+  }
+}
+
+// PRF-1: number formats
+{
+  console.log('PRF-1: Platform submittal number formats')
+  const { procore, acc, ebuilder } = SUBMITTAL_LOG_PROFILES
+  const p = formatPlatformNumber('03 30 00-004.2', procore)
+  assert('Procore compact, unpadded, revision column', p.number === '033000-4' && p.revision === '2', JSON.stringify(p))
+  const a = formatPlatformNumber('03 30 00-004', acc)
+  assert('ACC compact, padded, Rev 0', a.number === '033000-004' && a.revision === '0', JSON.stringify(a))
+  const e = formatPlatformNumber('03 30 00-004.1', ebuilder)
+  assert('e-Builder spaced with -R suffix', e.number === '03 30 00-004-R1' && e.revision === '', JSON.stringify(e))
+  assert('Procore parses back', parsePlatformNumber('033000-4', '2', procore) === '03 30 00-004.2')
+  assert('e-Builder parses back', parsePlatformNumber('03 30 00-004-R1', null, ebuilder) === '03 30 00-004.1')
+  assert('unrecognised number kept as given', parsePlatformNumber('S-17', null, acc) === 'S-17')
+  console.log()
+}
+
+// PRF-2: export → import round trip for every profile
+{
+  console.log('PRF-2: Export/import round trip')
+  for (const id of SUBMITTAL_LOG_PROFILE_IDS) {
+    const profile = SUBMITTAL_LOG_PROFILES[id]
+    const exported = toPlatformRow(mockExportRow(), profile)
+    assert(`${id}: columns in profile order`, Object.keys(exported).join('|') === profile.columns.map(c => c.header).join('|'))
+    const [row] = normalizeProfileRows([exported], profile, `${id}.xlsx`)
+    assert(`${id}: section, number and title survive`, row.specSection === '03 30 00' &&
+      row.submittalNumber === '03 30 00-004.2' && row.title === 'Concrete Mix Design',
+      JSON.stringify({ s: row.specSection, n: row.submittalNumber }))
+    assert(`${id}: status survives`, row.status === 'approved_as_noted', row.status)
+    assert(`${id}: SD code read from type`, row.sdCode === 'SD-03')
+    assert(`${id}: dates normalised to ISO`, row.submittedAt === '2026-11-01' && row.dueDate === '2026-11-14' &&
+      row.approvedAt === '2026-11-12', JSON.stringify([row.submittedAt, row.dueDate, row.approvedAt]))
+    assert(`${id}: party and reviewer`, row.responsibleParty === 'Acme Concrete' && row.reviewer === 'Architect')
+  }
+  const procore = toPlatformRow(mockExportRow(), SUBMITTAL_LOG_PROFILES.procore)
+  assert('Procore spec section carries the title', procore['Spec Section'] === '03 30 00 - Cast-in-Place Concrete')
+  assert('Procore dates are MM/DD/YYYY', procore['Sent Date'] === '11/01/2026')
+  const acc = toPlatformRow(mockExportRow(), SUBMITTAL_LOG_PROFILES.acc)
+  assert('ACC splits status and response', acc['Status'] === 'Reviewed' && acc['Response'] === 'Approved as noted')
+  const draft = toPlatformRow(mockExportRow({ 'Lifecycle Status': 'draft', 'Submittal No.': '' }), SUBMITTAL_LOG_PROFILES.ebuilder)
+  assert('unnumbered draft exports blank number', draft['Submittal Number'] === '' && draft['Status'] === 'Not Submitted')
+  console.log()
+}
+
+// PRF-3: ACC status + response vocabulary
+{
+  console.log('PRF-3: ACC status vocabulary')
+  const acc = SUBMITTAL_LOG_PROFILES.acc
+  const rows = normalizeProfileRows([
+    { 'Spec section': '033000', 'Title': 'A', 'Status': 'In review', 'Response': '' },
+    { 'Spec section': '033000', 'Title': 'B', 'Status': 'Closed', 'Response': 'Approved' },
+    { 'Spec section': '033000', 'Title': 'C', 'Status': 'Reviewed', 'Response': 'Revise and resubmit' },
+    { 'Spec section': '033000', 'Title': 'D', 'Status': 'On hold' },
+  ], acc, 'acc.csv')
+  assert('workflow status when no response', rows[0].status === 'pending_review')
+  assert('closed outranks response', rows[1].status === 'closed')
+  assert('response outranks reviewed', rows[2].status === 'revise_resubmit')
+  assert('unknown word kept for the reconciler', rows[3].status === 'On hold')
+  assert('row ids carry the profile', rows[0].externalId === 'acc-0' && rows[0].sourceRowNumber === 2)
+  console.log()
+}
+
+// PRF-4: detection
+{
+  console.log('PRF-4: detectSubmittalLogProfile')
+  const headersOf = id => SUBMITTAL_LOG_PROFILES[id].columns.map(c => c.header)
+  for (const id of SUBMITTAL_LOG_PROFILE_IDS) {
+    assert(`${id} export detected`, detectSubmittalLogProfile(headersOf(id))?.id === id)
+  }
+  assert('generic log not detected', detectSubmittalLogProfile(['Spec Section', 'Item No', 'Description', 'Status', 'Remarks']) === null)
+  assert('header case ignored', detectSubmittalLogProfile(['RESPONSIBLE CONTRACTOR', 'final due date', 'Title'])?.id === 'procore')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// Write-back on session completion
+// ---------------------------------------------------------------------------
+
+function mockLogRow(overrides = {}) {
+  return {
+    externalId: 'procore-0',
+    specSection: '03 30 00',
+    submittalNumber: null,
+    title: 'Concrete Mix Design',
+    description: null,
+    sdCode: 'SD-03',
+    status: null,
+    submittedAt: null,
+    returnedAt: null,
+    approvedAt: null,
+    dueDate: null,
+    responsibleParty: null,
+    reviewer: null,
+    remarks: null,
+    sourceRowNumber: 7,
+    sourceFileName: 'procore.xlsx',
+    ...overrides,
+  }
+}
+
+function writeBack(payload, row, issued = [], slaConfig = null) {
+  const plan = planReconciliationWriteBack(
+    [{ itemId: 'item-1', workflowRunId: 'run-1', specSection: '03 30 00', payload, row }],
+    { sessionId: 'sess-1', by: 'editor', issuedNumbersByRun: new Map([['run-1', issued]]), slaConfig }
+  )
+  return { entry: plan.entries[0], payload: plan.payloads.get('item-1') ?? null, counts: plan.counts }
+}
+
+// WB-1: status, number and dates copied with one audit entry per field
+{
+  console.log('WB-1: Write-back copies status, number and dates')
+  const { entry, payload } = writeBack(
+    { submittalItem: 'Concrete Mix Design', lifecycleStatus: 'pending_submission' },
+    mockLogRow({
+      status: 'Approved as Noted',
+      submittalNumber: '03 30 00-004.1',
+      submittedAt: '11/1/2026',
+      approvedAt: '2026-11-12',
+      dueDate: '2026-11-14',
+    })
+  )
+  assert('walked to approved as noted', payload?.lifecycleStatus === 'approved_as_noted', payload?.lifecycleStatus)
+  assert('history has one entry per step', payload?.lifecycleStatusHistory.length === 3 &&
+    payload.lifecycleStatusHistory.every(h => h.note === 'Updated via reconciliation (procore.xlsx row 7)'))
+  assert('base number taken from the log', payload?.submittalNumber === '03 30 00-004', payload?.submittalNumber)
+  assert('revision opened under the log number', payload?.revisions?.[0]?.submittalNumber === '03 30 00-004')
+  const rev = payload?.revisions?.[0]
+  assert('revision stamped with the log dates', rev?.submittedAt === '2026-11-01T00:00:00.000Z' &&
+    rev?.returnedAt === '2026-11-12T00:00:00.000Z' && rev?.reviewDueDate === '2026-11-14', JSON.stringify(rev))
+  assert('log dates replace walk timestamps', payload?.lifecycleSubmittedAt === '2026-11-01T00:00:00.000Z' &&
+    payload?.lifecycleApprovedAt === '2026-11-12T00:00:00.000Z' && payload?.lifecycleDueDate === '2026-11-14')
+  const fields = entry.audit.map(a => a.field).sort().join(',')
+  assert('one audit entry per field copied',
+    fields === 'lifecycleApprovedAt,lifecycleDueDate,lifecycleStatus,lifecycleSubmittedAt,submittalNumber', fields)
+  const status = entry.audit.find(a => a.field === 'lifecycleStatus')
+  assert('audit names before, after and source', status.before === 'pending_submission' &&
+    status.after === 'approved_as_noted' && status.sessionId === 'sess-1' && status.sourceRowNumber === 7 &&
+    status.sourceFileName === 'procore.xlsx' && status.by === 'editor')
+  assert('audit trail stored on the payload', payload?.reconciliationAudit?.length === 5)
+  assert('outcome updated', entry.outcome === 'updated' && entry.notes.length === 0, JSON.stringify(entry.notes))
+  console.log()
+}
+
+// WB-2: never regresses, keeps the register number, skips same-day dates
+{
+  console.log('WB-2: Write-back leaves the register alone where it is ahead')
+  const prior = [{ field: 'lifecycleDueDate', before: null, after: '2026-10-01', at: 'x', sessionId: 'old', sourceFileName: 'a.xlsx', sourceRowNumber: 2 }]
+  const { entry, payload, counts } = writeBack(
+    {
+      submittalItem: 'Concrete Mix Design',
+      lifecycleStatus: 'approved',
+      submittalNumber: '03 30 00-002',
+      lifecycleSubmittedAt: '2026-11-01T15:30:00.000Z',
+      reconciliationAudit: prior,
+    },
+    mockLogRow({ status: 'Submitted', submittalNumber: '03 30 00-009', submittedAt: '2026-11-01', dueDate: '2026-11-20' })
+  )
+  assert('status not regressed', payload?.lifecycleStatus === 'approved')
+  assert('register number kept', payload?.submittalNumber === '03 30 00-002')
+  assert('same-day submitted timestamp kept', payload?.lifecycleSubmittedAt === '2026-11-01T15:30:00.000Z')
+  assert('only the due date audited', entry.audit.length === 1 && entry.audit[0].field === 'lifecycleDueDate')
+  assert('audit appended to the existing trail', payload?.reconciliationAudit?.length === 2 &&
+    payload.reconciliationAudit[0].sessionId === 'old')
+  assert('notes explain status and number', entry.notes.length === 2 &&
+    entry.notes.some(n => n.includes('not applied')) && entry.notes.some(n => n.includes('kept 03 30 00-002')),
+    JSON.stringify(entry.notes))
+  assert('counts', counts.updated === 1 && counts.unchanged === 0)
+  console.log()
+}
+
+// WB-3: guards — implied outcomes, unsubmitted items, nothing to copy
+{
+  console.log('WB-3: Write-back guards')
+  const closed = writeBack(
+    { submittalItem: 'A', lifecycleStatus: 'pending_review', submittalNumber: '03 30 00-001' },
+    mockLogRow({ status: 'Closed' })
+  )
+  assert('closed via an implied approval not applied', closed.payload === null &&
+    closed.entry.notes[0]?.includes('would record Approved'), JSON.stringify(closed.entry.notes))
+  const draft = writeBack(
+    { submittalItem: 'B', lifecycleStatus: 'draft' },
+    mockLogRow({ status: 'Not submitted', approvedAt: '2026-11-12' })
+  )
+  assert('draft log status moves nothing', draft.entry.audit.length === 0 && draft.entry.outcome === 'unchanged')
+  assert('approved date not copied onto a draft', draft.entry.notes.some(n => n.startsWith('Approved date not copied')))
+  const numbered = writeBack(
+    { submittalItem: 'C', lifecycleStatus: 'pending_submission' },
+    mockLogRow({ status: 'Submitted' }),
+    ['03 30 00-001', '03 30 00-002']
+  )
+  assert('unnumbered submission issued the next base number', numbered.payload?.submittalNumber === '03 30 00-003' &&
+    !numbered.entry.audit.some(a => a.field === 'submittalNumber'), numbered.payload?.submittalNumber)
+  assert('unrecognised status noted', writeBack({ submittalItem: 'D' }, mockLogRow({ status: 'On hold' }))
+    .entry.notes[0] === 'Log status "On hold" not recognised')
+  assert('log dates parsed', parseLogDate('3/5/26') === '2026-03-05' && parseLogDate('2026-03-05T10:00') === '2026-03-05' &&
+    parseLogDate('March 5') === null)
+  assert('off-calendar dates not recognised', parseLogDate('13/05/2026') === null && parseLogDate('2/30/2026') === null &&
+    parseLogDate('2026-00-10') === null && parseLogDate('0/5/26') === null)
+  assert('leap day recognised only in a leap year', parseLogDate('2/29/2028') === '2028-02-29' && parseLogDate('2/29/2026') === null)
+  const dayFirst = writeBack(
+    { submittalItem: 'E', lifecycleStatus: 'submitted', submittalNumber: '03 30 00-001' },
+    mockLogRow({ submittedAt: '13/05/2026' })
+  )
+  assert('day-first date noted, not written', dayFirst.payload === null &&
+    dayFirst.entry.notes[0] === 'Submitted date "13/05/2026" not recognised', JSON.stringify(dayFirst.entry.notes))
+  console.log()
+}
+
+// WB-4: the revision the walk opens is back-dated to the log
+{
+  console.log('WB-4: Write-back back-dates the opened revision and its SLA due date')
+  const { payload } = writeBack(
+    { submittalItem: 'Concrete Mix Design', lifecycleStatus: 'pending_submission', submittalNumber: '03 30 00-001' },
+    mockLogRow({ status: 'Submitted', submittedAt: '01/05/2026' }),
+    [],
+    DEFAULT_SUBMITTAL_SLA
+  )
+  const rev = payload?.revisions?.[0]
+  assert('revision submitted on the log date', rev?.submittedAt === '2026-01-05T00:00:00.000Z', rev?.submittedAt)
+  assert('revision still in review', rev?.returnedAt === null && rev?.disposition === null)
+  assert('review due date from the SLA, counted from the log date', rev?.reviewDueDate === '2026-01-19' &&
+    payload?.lifecycleDueDate === '2026-01-19', `${rev?.reviewDueDate} / ${payload?.lifecycleDueDate}`)
+  assert('item submitted on the log date', payload?.lifecycleSubmittedAt === '2026-01-05T00:00:00.000Z')
+  const noDate = writeBack(
+    { submittalItem: 'Concrete Mix Design', lifecycleStatus: 'pending_submission', submittalNumber: '03 30 00-001' },
+    mockLogRow({ status: 'Submitted' })
+  )
+  assert('undated log row keeps the walk timestamp', noDate.payload?.revisions?.[0]?.submittedAt ===
+    noDate.payload?.lifecycleSubmittedAt && noDate.payload?.revisions?.[0]?.reviewDueDate === null)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// Re-sync against an updated upload of the same log
+// ---------------------------------------------------------------------------
+
+function decision(externalRowId, generatedItemId, value = 'confirmed', carriedFromSessionId = null, generatedDedupeKey = null) {
+  return {
+    externalRowId, generatedItemId, generatedDedupeKey, decision: value,
+    decidedBy: 'u1', decidedAt: '2026-10-01T00:00:00Z', carriedFromSessionId,
+  }
+}
+
+// RSY-1: row pairing and change summary
+{
+  console.log('RSY-1: Re-sync pairs rows by identity, not position')
+  assert('revision suffixes share an identity',
+    externalRowIdentity(mockLogRow({ submittalNumber: '03 30 00-004.2' })) ===
+      externalRowIdentity(mockLogRow({ submittalNumber: '033000-004-R1' })))
+  assert('unnumbered rows keyed by section and title',
+    externalRowIdentity(mockLogRow({ specSection: '03 30 00', title: 'Mix  Design' })) === 'st:033000|mix design')
+
+  const previousRows = [
+    mockLogRow({ externalId: 'row-0', submittalNumber: '03 30 00-001', title: 'Mix Design', status: 'Submitted' }),
+    mockLogRow({ externalId: 'row-1', submittalNumber: '03 30 00-002', title: 'Rebar Shop Drawings' }),
+    mockLogRow({ externalId: 'row-2', submittalNumber: null, title: 'Curing Compound' }),
+    mockLogRow({ externalId: 'row-3', submittalNumber: '03 30 00-003', title: 'Formwork' }),
+  ]
+  // Weekly update: rows reordered, one status moved, one retitled, one dropped, one new.
+  const nextRows = [
+    mockLogRow({ externalId: 'row-0', submittalNumber: null, title: 'Curing Compound' }),
+    mockLogRow({ externalId: 'row-1', submittalNumber: '03 30 00-001.1', title: 'Mix Design', status: 'Approved' }),
+    mockLogRow({ externalId: 'row-2', submittalNumber: '03 30 00-002', title: 'Embedded Plates' }),
+    mockLogRow({ externalId: 'row-3', submittalNumber: '03 30 00-005', title: 'Waterstops' }),
+  ]
+  const plan = planReconciliationResync(
+    {
+      sessionId: 'sess-1',
+      sourceFileName: 'log-week1.xlsx',
+      createdAt: '2026-10-01T00:00:00Z',
+      rows: previousRows,
+      decisions: [
+        decision('row-0', 'item-mix'),
+        decision('row-1', 'item-rebar'),
+        decision('row-2', 'item-curing', 'rejected', 'sess-0'),
+        decision('row-3', 'item-forms'),
+      ],
+    },
+    nextRows
+  )
+  const { counts } = plan.summary
+  assert('counts', counts.added === 1 && counts.removed === 1 && counts.changed === 2 && counts.unchanged === 1,
+    JSON.stringify(counts))
+  const mix = plan.summary.changed.find(c => c.next.title === 'Mix Design')
+  assert('status and revision reported as changes', mix?.fields.map(f => f.field).join(',') === 'submittalNumber,status' &&
+    !mix.identityChanged)
+  const rebar = plan.summary.changed.find(c => c.previous.title === 'Rebar Shop Drawings')
+  assert('retitled row flagged as identity change', rebar?.identityChanged === true)
+  assert('added and removed refs', plan.summary.added[0].title === 'Waterstops' && plan.summary.removed[0].title === 'Formwork')
+  assert('summary names the previous upload', plan.summary.previousFileName === 'log-week1.xlsx' &&
+    plan.summary.previousSessionId === 'sess-1')
+  console.log()
+
+  console.log('RSY-2: Decisions carried onto unchanged rows only')
+  const byItem = new Map(plan.decisions.map(d => [d.generatedItemId, d]))
+  assert('unchanged row keeps its decision and origin session', byItem.get('item-curing')?.externalRowId === 'row-0' &&
+    byItem.get('item-curing')?.decision === 'rejected' && byItem.get('item-curing')?.carriedFromSessionId === 'sess-0')
+  assert('changed rows do not carry, even on a progress-only change', !byItem.has('item-mix') && !byItem.has('item-rebar'))
+  assert('changed rows list their previous decisions for re-confirmation',
+    mix?.previousDecisions.map(d => `${d.generatedItemId}:${d.decision}`).join(',') === 'item-mix:confirmed' &&
+    rebar?.previousDecisions.map(d => d.generatedItemId).join(',') === 'item-rebar')
+  assert('removed row drops its decision', !byItem.has('item-forms'))
+  assert('decision counts', plan.summary.decisions.carried === 1 && plan.summary.decisions.reconfirm === 2 &&
+    plan.summary.decisions.dropped === 1, JSON.stringify(plan.summary.decisions))
+  console.log()
+}
+
+// RSY-3: register regenerated between two sessions
+{
+  console.log('RSY-3: Carried decisions re-pointed at the regenerated register')
+  const rows = [
+    mockLogRow({ externalId: 'row-0', submittalNumber: '03 30 00-001', title: 'Mix Design' }),
+    mockLogRow({ externalId: 'row-1', submittalNumber: '03 30 00-002', title: 'Rebar Shop Drawings' }),
+    mockLogRow({ externalId: 'row-2', submittalNumber: '03 30 00-003', title: 'Formwork' }),
+    mockLogRow({ externalId: 'row-3', submittalNumber: '03 30 00-004', title: 'Waterstops' }),
+  ]
+  // Session 1 decided on run-1 items; the register was then regenerated
+  // (run-2), which deleted run-1's rows. Formwork was dropped from the register.
+  const register = indexRegisterItems([
+    { id: 'run2-mix', dedupeKey: 'k-mix' },
+    { id: 'run2-rebar', dedupeKey: 'k-rebar' },
+    { id: 'run2-stops', dedupeKey: 'k-stops' },
+  ])
+  const plan = planReconciliationResync(
+    {
+      sessionId: 'sess-1',
+      sourceFileName: 'log-week1.xlsx',
+      createdAt: '2026-10-01T00:00:00Z',
+      rows,
+      decisions: [
+        decision('row-0', 'run1-mix', 'confirmed', null, 'k-mix'),
+        decision('row-1', 'run1-rebar', 'rejected', null, 'k-rebar'),
+        decision('row-2', 'run1-forms', 'confirmed', null, 'k-forms'),
+        decision('row-3', 'run2-stops', 'confirmed', null, 'k-stops'),
+      ],
+    },
+    rows.map((r, i) => ({ ...r, externalId: `new-${i}` })),
+    register
+  )
+  const byRow = new Map(plan.decisions.map(d => [d.externalRowId, d]))
+  assert('decision on a deleted item re-pointed by dedupe key', byRow.get('new-0')?.generatedItemId === 'run2-mix' &&
+    byRow.get('new-0')?.generatedDedupeKey === 'k-mix')
+  assert('rejection re-pointed too', byRow.get('new-1')?.generatedItemId === 'run2-rebar' &&
+    byRow.get('new-1')?.decision === 'rejected')
+  assert('decision on a current item kept as is', byRow.get('new-3')?.generatedItemId === 'run2-stops')
+  assert('item gone from the register is not carried', !byRow.has('new-2'))
+  assert('stale decision counted', plan.summary.decisions.carried === 3 && plan.summary.decisions.stale === 1,
+    JSON.stringify(plan.summary.decisions))
+  assert('no carried decision points outside the latest run', plan.decisions.every(d => register.itemIds.has(d.generatedItemId)))
+
+  // Completion resolves the same way for decisions made in the new session
+  // before a second regeneration.
+  assert('resolve: existing item', resolveDecisionItemId({ generatedItemId: 'run2-mix', generatedDedupeKey: 'k-mix' }, register) === 'run2-mix')
+  assert('resolve: deleted item by dedupe key',
+    resolveDecisionItemId({ generatedItemId: 'run1-rebar', generatedDedupeKey: 'k-rebar' }, register) === 'run2-rebar')
+  assert('resolve: deleted item without a key is unresolved',
+    resolveDecisionItemId({ generatedItemId: 'run1-rebar', generatedDedupeKey: null }, register) === null)
+  assert('resolve: key no longer in the register is unresolved',
+    resolveDecisionItemId({ generatedItemId: 'run1-forms', generatedDedupeKey: 'k-forms' }, register) === null)
+  console.log()
+}
+
 // ---------------------------------------------------------------------------
 // Summary
 // ---------------------------------------------------------------------------
@@ -0,0 +1,327 @@
+#!/usr/bin/env node
+
+import {
+  buildRevisionChain,
+  compareRevisionLabels,
+  diffRevisions,
+  formatRevisionComparison,
+  normalizeRevisionLabel,
+  pageSpecSection,
+  planConformance,
+  revisionTargetKey,
+  selectRevisionPair,
+} from '../src/lib/documents/conformed-set.ts'
+import {
+  alignMasks,
+  changeKind,
+  countUncloudedChanges,
+  diffSheetImages,
+  dilateMask,
+  formatSheetChanges,
+  inkMask,
+  padRegion,
+  renderDiffOverlay,
+} from '../src/lib/documents/sheet-diff.ts'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let passed = 0
+let failed = 0
+
+function assert(label, condition, detail = '') {
+  if (condition) {
+    console.log(`  ✓ ${label}`)
+    passed++
+  } else {
+    console.error(`  ✗ ${label}${detail ? ': ' + detail : ''}`)
+    failed++
+  }
+}
+
+function mockPage(overrides = {}) {
+  return {
+    id: 'page-1',
+    documentId: 'doc-1',
+    pageNumber: 1,
+    sheetNumber: null,
+    specSection: null,
+    revision: null,
+    revisionSequence: 0,
+    supersededByPageId: null,
+    ...overrides,
+  }
+}
+
+function mockSnapshot(overrides = {}) {
+  return {
+    pageId: 'page-1',
+    documentId: 'doc-1',
+    filename: 'civil-set.pdf',
+    pageNumber: 1,
+    sheetNumber: 'C-101',
+    sheetTitle: 'SITE PLAN',
+    specSection: null,
+    revision: null,
+    revisionSequence: 0,
+    supersededByPageId: null,
+    textContent: '',
+    detailRefs: [],
+    crossReferences: [],
+    entities: [],
+    ...overrides,
+  }
+}
+
+// White RGBA sheet with black rectangles [x, y, width, height].
+function mockSheet(width, height, rects) {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (const [rx, ry, rw, rh] of rects) {
+    for (let y = ry; y < ry + rh; y++) {
+      for (let x = rx; x < rx + rw; x++) {
+        if (x < 0 || y < 0 || x >= width || y >= height) continue
+        const p = (y * width + x) * 4
+        data[p] = data[p + 1] = data[p + 2] = 0
+      }
+    }
+  }
+  return { width, height, data }
+}
+
+function shiftRects(rects, dx, dy) {
+  return rects.map(([x, y, w, h]) => [x + dx, y + dy, w, h])
+}
+
+// Title block, grid lines and a few uneven features so alignment has one answer.
+const BASE_SHEET = [
+  [10, 10, 180, 2], [10, 10, 2, 130], [10, 138, 180, 2], [188, 10, 2, 130],
+  [30, 40, 60, 3], [45, 60, 3, 50], [120, 30, 25, 25], [140, 100, 30, 6], [70, 115, 12, 12],
+]
+
+// ---------------------------------------------------------------------------
+// REV-1: Revision labels and targets
+// ---------------------------------------------------------------------------
+
+{
+  console.log('REV-1: Revision labels normalize and order')
+  assert("'Rev 3' normalizes to '3'", normalizeRevisionLabel('Rev 3') === '3')
+  assert("'REV. B' and 'Revision B' normalize to 'B'",
+    normalizeRevisionLabel('REV. B') === 'B' && normalizeRevisionLabel('Revision B') === 'B')
+  assert("'R2' normalizes to '2'", normalizeRevisionLabel('R2') === '2')
+  assert('numeric labels compare as numbers', compareRevisionLabels('10', 'Rev 9') > 0)
+  assert("letters compare by length then text ('B' < 'AA')",
+    compareRevisionLabels('B', 'C') < 0 && compareRevisionLabels('AA', 'B') > 0)
+  assert('sheet targets key on the sheet number', revisionTargetKey({ targetType: 'sheet', targetRef: 'C-101' }) ===
+    revisionTargetKey({ targetType: 'sheet', targetRef: 'c101' }))
+  assert('spec targets key on the 6-digit section',
+    revisionTargetKey({ targetType: 'spec_section', targetRef: '03 30 00' }) === '033000')
+  assert('spec page section from the SECTION heading',
+    pageSpecSection('SECTION 03 30 00\nCAST-IN-PLACE CONCRETE') === '033000')
+  assert('spec page section from the page footer',
+    pageSpecSection('3.2 PLACEMENT\n...\n03 30 00 - 4') === '033000')
+  assert('no section on a page without one', pageSpecSection('GENERAL NOTES') === null)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// REV-2: Conformance planning
+// ---------------------------------------------------------------------------
+
+{
+  console.log('REV-2: A revision supersedes the current sheet')
+  const target = { targetType: 'sheet', targetRef: 'C-101' }
+  const original = mockPage({ id: 'orig-5', documentId: 'set', pageNumber: 5, sheetNumber: 'C-101' })
+  const other = mockPage({ id: 'orig-6', documentId: 'set', pageNumber: 6, sheetNumber: 'C-102' })
+  const revPage = mockPage({ id: 'rev-1', documentId: 'rev-doc', sheetNumber: 'C101' })
+
+  const plan = planConformance(target, 'Rev 1', 'rev-doc', [revPage], [original, other, revPage])
+  assert('plan is planned', plan.status === 'planned')
+  assert('revision page gets sequence 1 and label 1',
+    plan.pages.length === 1 && plan.pages[0].revisionSequence === 1 && plan.pages[0].revision === '1')
+  assert('revision page links back to the page it replaces', plan.pages[0].supersedesPageId === 'orig-5')
+  assert('only the matching sheet is superseded',
+    plan.superseded.length === 1 && plan.superseded[0].pageId === 'orig-5' &&
+    plan.superseded[0].supersededByPageId === 'rev-1')
+
+  const rev2Page = mockPage({ id: 'rev-2', documentId: 'rev2-doc', sheetNumber: 'C-101' })
+  const afterRev1 = [
+    { ...original, supersededByPageId: 'rev-1' },
+    { ...revPage, revision: '1', revisionSequence: 1 },
+  ]
+  const plan2 = planConformance(target, '2', 'rev2-doc', [rev2Page], [...afterRev1, rev2Page])
+  assert('next revision supersedes Rev 1 only',
+    plan2.status === 'planned' && plan2.pages[0].revisionSequence === 2 &&
+    plan2.superseded.map(s => s.pageId).join() === 'rev-1')
+
+  const stale = planConformance(target, '1', 'rev2-doc', [rev2Page], [...afterRev1, rev2Page])
+  assert('a label not newer than the current one is refused',
+    stale.status === 'not_newer' && stale.currentRevision === '1')
+
+  const rerun = planConformance(target, '1', 'rev-doc', [{ ...revPage, revision: '1', revisionSequence: 1 }], afterRev1)
+  assert('re-running a conformed revision keeps its sequence and supersedes nothing',
+    rerun.status === 'planned' && rerun.pages[0].revisionSequence === 1 && rerun.superseded.length === 0)
+
+  const untitled = mockPage({ id: 'scan', documentId: 'scan-doc' })
+  const single = planConformance(target, '1', 'scan-doc', [untitled], [original, untitled])
+  assert('a single untitled page counts as the target sheet',
+    single.status === 'planned' && single.pages[0].sheetNumber === 'C-101')
+
+  const wrong = planConformance(target, '1', 'rev-doc', [mockPage({ id: 'x', documentId: 'rev-doc', sheetNumber: 'A-201' })], [original])
+  assert('no matching page is no_pages', wrong.status === 'no_pages')
+  console.log()
+}
+
+{
+  console.log('REV-3: A spec section revision')
+  const target = { targetType: 'spec_section', targetRef: '03 30 00' }
+  const specPages = [
+    mockPage({ id: 's-12', documentId: 'specs', pageNumber: 12, specSection: '033000' }),
+    mockPage({ id: 's-13', documentId: 'specs', pageNumber: 13, specSection: '033000' }),
+    mockPage({ id: 's-14', documentId: 'specs', pageNumber: 14, specSection: '042000' }),
+  ]
+  const revPages = [
+    mockPage({ id: 'r-1', documentId: 'addendum', pageNumber: 1 }),
+    mockPage({ id: 'r-2', documentId: 'addendum', pageNumber: 2 }),
+  ]
+  const plan = planConformance(target, 'A', 'addendum', revPages, [...specPages, ...revPages])
+  assert('unlabelled revision pages count whole', plan.status === 'planned' && plan.pages.length === 2 &&
+    plan.pages.every(p => p.specSection === '033000'))
+  assert('both pages of the section are superseded by the first revision page',
+    plan.superseded.map(s => s.pageId).sort().join() === 's-12,s-13' &&
+    plan.superseded.every(s => s.supersededByPageId === 'r-1'))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// REV-4: Chain, pair selection and diff
+// ---------------------------------------------------------------------------
+
+{
+  console.log('REV-4: What changed between two revisions')
+  const chain = buildRevisionChain([
+    mockSnapshot({ pageId: 'r3', documentId: 'd3', filename: 'C-101 Rev 3.pdf', revision: '3', revisionSequence: 2,
+      sheetTitle: 'SITE PLAN AND GRADING',
+      textContent: 'INSTALL 8" WATER MAIN\nMH-12 RIM 104.20\nSEE 5/C-501',
+      detailRefs: ['5/C-501'], crossReferences: ['C-501'], entities: ['structure: MH-12'] }),
+    mockSnapshot({ pageId: 'o', documentId: 'd0', filename: 'civil-set.pdf', supersededByPageId: 'r2',
+      textContent: 'INSTALL 6" WATER MAIN', entities: ['structure: MH-11'] }),
+    mockSnapshot({ pageId: 'r2', documentId: 'd2', filename: 'C-101 Rev 2.pdf', revision: '2', revisionSequence: 1,
+      supersededByPageId: 'r3',
+      textContent: 'INSTALL 6" WATER MAIN\nMH-12 RIM 103.90\nNTS',
+      detailRefs: ['4/C-501'], crossReferences: ['C-501'], entities: ['structure: MH-11', 'structure: MH-12'] }),
+  ])
+  assert('chain is ordered oldest first', chain.map(e => e.revision).join() === 'Original,2,3')
+  assert('only the newest entry is current', chain.map(e => e.current).join() === 'false,false,true')
+
+  const defaults = selectRevisionPair(chain)
+  assert('defaults compare the current revision with the one before',
+    !('error' in defaults) && defaults.from.revision === '2' && defaults.to.revision === '3')
+
+  const explicit = selectRevisionPair(chain, 'Rev 3', 'original')
+  assert('explicit labels match loosely and are put in order',
+    !('error' in explicit) && explicit.from.revision === 'Original' && explicit.to.revision === '3')
+  assert('an unknown revision is an error', 'error' in selectRevisionPair(chain, '7'))
+  assert('a single revision cannot be compared', 'error' in selectRevisionPair(chain.slice(0, 1)))
+
+  const diff = diffRevisions(chain[1], chain[2])
+  assert('title change is reported',
+    diff.titleChange?.from === 'SITE PLAN' && diff.titleChange?.to === 'SITE PLAN AND GRADING')
+  assert('added and removed lines are reported',
+    diff.addedLines.includes('INSTALL 8" WATER MAIN') && diff.removedLines.includes('INSTALL 6" WATER MAIN') &&
+    diff.addedLines.includes('MH-12 RIM 104.20'))
+  assert('short page-furniture lines are ignored', !diff.removedLines.includes('NTS'))
+  assert('entity changes are reported',
+    diff.removedEntities.join() === 'structure: MH-11' && diff.addedEntities.length === 0)
+  assert('detail reference changes are reported',
+    diff.addedDetailRefs.join() === '5/C-501' && diff.removedDetailRefs.join() === '4/C-501')
+  assert('unchanged cross references are not reported',
+    diff.addedCrossReferences.length === 0 && diff.removedCrossReferences.length === 0)
+
+  const text = formatRevisionComparison('C-101', chain, chain[1], chain[2], diff)
+  assert('answer names both revisions and the history',
+    text.includes('from Rev 2 (C-101 Rev 2.pdf) to Rev 3 (C-101 Rev 3.pdf)') && text.includes('Original → 2 → 3 (current)'))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// SD-1: Visual sheet diff
+// ---------------------------------------------------------------------------
+
+{
+  console.log('SD-1: Masks and alignment')
+  const sheet = mockSheet(200, 150, BASE_SHEET)
+  const mask = inkMask(sheet)
+  assert('ink mask marks dark pixels only', mask[10 * 200 + 10] === 1 && mask[5 * 200 + 5] === 0)
+
+  const dot = new Uint8Array(25)
+  dot[12] = 1
+  assert('dilating one pixel by 1 covers its 3x3 neighbourhood',
+    dilateMask(dot, 5, 5, 1).reduce((a, b) => a + b, 0) === 9)
+
+  const moved = inkMask(mockSheet(200, 150, shiftRects(BASE_SHEET, 5, -3)))
+  const alignment = alignMasks(mask, moved, 200, 150)
+  assert('alignment recovers the shift of a reissued sheet', alignment.dx === 5 && alignment.dy === -3,
+    `got ${alignment.dx},${alignment.dy}`)
+  assert('aligned sheets overlap fully', alignment.overlap > 0.99)
+  console.log()
+}
+
+{
+  console.log('SD-2: Changes between revisions')
+  const from = mockSheet(200, 150, [...BASE_SHEET, [150, 50, 20, 20]])
+  const same = diffSheetImages(from, mockSheet(200, 150, [...BASE_SHEET, [150, 50, 20, 20]]))
+  assert('identical revisions have no changes',
+    same.addedPixels === 0 && same.removedPixels === 0 && same.regions.length === 0)
+
+  const to = mockSheet(200, 150, shiftRects([...BASE_SHEET, [25, 80, 12, 18]], 4, 2))
+  const diff = diffSheetImages(from, to)
+  assert('page shift alone is not a change', diff.alignment.dx === 4 && diff.alignment.dy === 2)
+  assert('two change regions found', diff.regions.length === 2, `got ${diff.regions.length}`)
+
+  const added = diff.regions.find(r => changeKind(r) === 'added')
+  const removed = diff.regions.find(r => changeKind(r) === 'removed')
+  assert('new box is an added region in new-sheet coordinates',
+    added && added.x <= 29 && added.x + added.width >= 41 && added.y <= 82 && added.y + added.height >= 100)
+  assert('deleted box is a removed region', removed && removed.removedPixels >= 400 && removed.addedPixels === 0)
+
+  const overlay = renderDiffOverlay(diff, 200, 150)
+  const px = (x, y) => Array.from(overlay.data.slice((y * 200 + x) * 4, (y * 200 + x) * 4 + 3)).join()
+  assert('added ink is green on the overlay', px(31, 90) === '0,153,51')
+  assert('removed ink is red on the overlay', px(160, 60) === '214,39,40')
+  assert('unchanged ink is grey and paper white', px(34, 43) === '170,170,170' && px(5, 5) === '255,255,255')
+
+  const speckle = diffSheetImages(from, mockSheet(200, 150, [...BASE_SHEET, [150, 50, 20, 20], [100, 130, 2, 2]]))
+  assert('isolated speckle is not a region', speckle.addedPixels === 4 && speckle.regions.length === 0)
+  console.log()
+}
+
+{
+  console.log('SD-3: Change list')
+  const region = { x: 5, y: 190, width: 20, height: 20, addedPixels: 10, removedPixels: 90 }
+  assert('mostly removed pixels is a removed change', changeKind(region) === 'removed')
+  assert('mixed pixels is a modified change', changeKind({ ...region, addedPixels: 50 }) === 'modified')
+  const padded = padRegion(region, 16, 200, 200)
+  assert('padding is clipped to the sheet', padded.x === 0 && padded.y === 174 && padded.width === 41 && padded.height === 26)
+
+  const changes = [
+    { region, kind: 'added', description: 'Added 8-in gate valve', clouded: true },
+    { region, kind: 'modified', description: 'Rim of MH-12 changed to 104.20', clouded: false },
+    { region, kind: 'removed', description: null, clouded: null },
+  ]
+  assert('unclouded changes are counted', countUncloudedChanges(changes) === 1)
+  const lines = formatSheetChanges(changes)
+  assert('change lines flag unclouded changes and undescribed regions',
+    lines[1] === '2. Rim of MH-12 changed to 104.20 — not clouded' && lines[2] === '3. Removed linework (not described)')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+console.log(`\n${'─'.repeat(50)}`)
+console.log(`revision:harness: ${passed} passed, ${failed} failed`)
+if (failed > 0) {
+  process.exit(1)
+}
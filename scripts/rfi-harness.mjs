@@ -0,0 +1,390 @@
+#!/usr/bin/env node
+
+import {
+  buildRfiDraftFromAnswer,
+  buildRfiTransition,
+  formatRfiNumber,
+  getNextRfiStatuses,
+  isRfiOverdue,
+  nextRfiSequence,
+  parseRfiNumber,
+  rfiDaysOpen,
+  rowToRfi,
+} from '../src/lib/rfi/rfi-workflow.ts'
+import {
+  clearSubmittalRfiImpact,
+  collectRfiReferences,
+  flagSubmittalRfiImpact,
+  pendingRfiImpacts,
+  traceRfiImpact,
+} from '../src/lib/rfi/rfi-impact.ts'
+import {
+  buildChangeEventDraftFromAddendum,
+  buildChangeEventDraftFromChangeDocument,
+  buildChangeEventDraftFromRfi,
+  buildChangeEventTransition,
+  buildRomLineItems,
+  currentChangeEventNumber,
+  extractTextQuantities,
+  formatChangeEventNumber,
+  getNextChangeEventStatuses,
+  matchRomCostKey,
+  nextChangeEventSequence,
+  parseChangeEventNumber,
+  priceRomLineInputs,
+  rowToChangeEvent,
+  summarizeRom,
+} from '../src/lib/change-events/change-event-workflow.ts'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let passed = 0
+let failed = 0
+
+function assert(label, condition, detail = '') {
+  if (condition) {
+    console.log(`  ✓ ${label}`)
+    passed++
+  } else {
+    console.error(`  ✗ ${label}${detail ? ': ' + detail : ''}`)
+    failed++
+  }
+}
+
+function mockRfi(overrides = {}) {
+  return {
+    status: 'open',
+    response: null,
+    openedAt: '2026-10-01T12:00:00.000Z',
+    answeredAt: null,
+    closedAt: null,
+    dueDate: null,
+    ...overrides,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// RFI-1: Drafting from a chat answer
+// ---------------------------------------------------------------------------
+
+{
+  console.log('RFI-1: Draft pre-filled from the chat question and answer')
+  const question = 'What is the embedment depth for the anchor bolts at the pump pad on S-201? The detail conflicts with the spec.'
+  const answer = [
+    'Detail 5/S-501 shows 12" embedment, but Section 03 30 00 and C-003 call for 18".',
+    'The general notes on S-001 defer to the details.',
+    'I recommend confirming with the EOR that 18" governs, since it is the more conservative value.',
+    'You should also verify the pad thickness can accommodate it.',
+  ].join(' ')
+  const draft = buildRfiDraftFromAnswer(question, answer)
+
+  assert('subject is the first sentence of the question', draft.subject ===
+    'What is the embedment depth for the anchor bolts at the pump pad on S-201', draft.subject)
+  assert('question carried verbatim', draft.question === question)
+  assert('sheets from question and answer, detail refs kept whole',
+    draft.referencedSheets.join(',') === '5/S-501,C-003,S-001,S-201', draft.referencedSheets.join(','))
+  assert('spec sections extracted', draft.specSections.join(',') === '03 30 00', draft.specSections.join(','))
+  assert('suggested solution from the recommendation sentences',
+    draft.suggestedSolution.startsWith('I recommend confirming') && draft.suggestedSolution.includes('You should also verify') &&
+    !draft.suggestedSolution.includes('general notes'), draft.suggestedSolution)
+
+  const long = buildRfiDraftFromAnswer(`${'Please confirm the waterstop material at every construction joint in the wet well walls '.repeat(2)}?`, 'See plans.')
+  assert('long subject trimmed on a word boundary', long.subject.length <= 80 && long.subject.endsWith('…'), long.subject)
+  assert('no recommendation → empty suggested solution', long.suggestedSolution === '')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// RFI-2: Numbering
+// ---------------------------------------------------------------------------
+
+{
+  console.log('RFI-2: Per-project auto-numbering')
+  assert('formats zero-padded', formatRfiNumber(7) === 'RFI-007' && formatRfiNumber(1234) === 'RFI-1234')
+  assert('parses loose forms', parseRfiNumber('RFI-007') === 7 && parseRfiNumber('rfi #12') === 12 && parseRfiNumber('Q-4') === null)
+  assert('first RFI is 1', nextRfiSequence([]) === 1)
+  assert('next is max + 1, falling back to the number text', nextRfiSequence([
+    { sequence: 2, rfiNumber: 'RFI-002' },
+    { sequence: null, rfiNumber: 'RFI-009' },
+    { sequence: null, rfiNumber: 'Legacy A' },
+  ]) === 10)
+  const row = rowToRfi({
+    id: 'r1', rfi_number: 'RFI-004', sequence: null, subject: 's', question: 'q', suggested_solution: null,
+    referenced_sheets: null, spec_sections: null, status: 'bogus', priority: null, due_date: null, assigned_to: null,
+    response: null, answered_by: null, source_question: null, status_history: null, opened_at: null,
+    answered_at: null, closed_at: null, created_at: null, updated_at: null,
+  })
+  assert('row mapper fills sequence and defaults', row.sequence === 4 && row.status === 'open' && row.priority === 'normal' &&
+    row.referencedSheets.length === 0 && row.statusHistory.length === 0)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// RFI-3: Status transitions and response capture
+// ---------------------------------------------------------------------------
+
+{
+  console.log('RFI-3: Status transitions')
+  const at = '2026-10-10T09:00:00.000Z'
+  assert('draft can only be issued', getNextRfiStatuses('draft').join(',') === 'open')
+  assert('closed is terminal', getNextRfiStatuses('closed').length === 0)
+
+  const issue = buildRfiTransition(mockRfi({ status: 'draft', openedAt: null }), 'open', { at, by: 'u1' })
+  assert('issuing stamps openedAt and a history entry', issue.ok && issue.fields.openedAt === at &&
+    issue.entry.fromStatus === 'draft' && issue.entry.toStatus === 'open' && issue.entry.changedBy === 'u1')
+
+  const skip = buildRfiTransition(mockRfi({ status: 'draft', openedAt: null }), 'answered', { response: 'x' })
+  assert('draft cannot jump to answered', !skip.ok)
+
+  const empty = buildRfiTransition(mockRfi(), 'answered', { response: '   ' })
+  assert('answering requires a response', !empty.ok && /response/.test(empty.error))
+
+  const answer = buildRfiTransition(mockRfi(), 'answered', { response: ' Use 18". ', answeredBy: 'J. Smith, PE', at })
+  assert('answering captures response, responder and date', answer.ok && answer.fields.response === 'Use 18".' &&
+    answer.fields.answeredBy === 'J. Smith, PE' && answer.fields.answeredAt === at)
+
+  const existing = buildRfiTransition(mockRfi({ response: 'Already entered' }), 'answered', { at })
+  assert('response already on the RFI satisfies answering', existing.ok && existing.fields.response === 'Already entered')
+
+  const reopen = buildRfiTransition(mockRfi({ status: 'answered', response: 'r' }), 'open', { at, note: 'Does not address pad' })
+  assert('reopen keeps the original openedAt', reopen.ok && reopen.fields.openedAt === undefined &&
+    reopen.entry.note === 'Does not address pad')
+
+  const close = buildRfiTransition(mockRfi({ status: 'answered', response: 'r' }), 'closed', { at })
+  assert('closing stamps closedAt', close.ok && close.fields.closedAt === at)
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// RFI-4: Ageing
+// ---------------------------------------------------------------------------
+
+{
+  console.log('RFI-4: Days open and overdue')
+  assert('days open runs to today while open', rfiDaysOpen(mockRfi(), '2026-10-11') === 9)
+  assert('days open stops when answered', rfiDaysOpen(mockRfi({ answeredAt: '2026-10-04T08:00:00.000Z' }), '2026-10-30') === 2)
+  assert('draft has no age', rfiDaysOpen(mockRfi({ status: 'draft', openedAt: null }), '2026-10-11') === null)
+  assert('open past due is overdue', isRfiOverdue(mockRfi({ dueDate: '2026-10-05' }), '2026-10-06'))
+  assert('answered past due is not overdue', !isRfiOverdue(mockRfi({ status: 'answered', dueDate: '2026-10-05' }), '2026-10-06'))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// IMP-1: References collected from an answered RFI
+// ---------------------------------------------------------------------------
+
+const answeredRfi = {
+  id: 'rfi-1',
+  rfiNumber: 'RFI-023',
+  subject: 'Footing depth at grid C',
+  question: 'Detail 5/S-501 shows a 24" footing; S-201 notes 18". Confirm depth.',
+  suggestedSolution: null,
+  response: 'Use 24". Revise rebar per Section 03 20 00.',
+  referencedSheets: ['A-101'],
+  specSections: ['033000'],
+  answeredAt: '2026-10-10T12:00:00.000Z',
+}
+
+{
+  console.log('IMP-1: References collected from an answered RFI')
+  const refs = collectRfiReferences(answeredRfi)
+  assert('detail references kept as written', refs.details.includes('5/S-501'), JSON.stringify(refs.details))
+  assert('sheets include text, entered and detail sheets',
+    ['A-101', 'S-201', 'S-501'].every(s => refs.sheets.includes(s)), JSON.stringify(refs.sheets))
+  assert('sections from response and entered list, normalized',
+    refs.specSections.includes('03 20 00') && refs.specSections.includes('03 30 00'), JSON.stringify(refs.specSections))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// IMP-2: Trace to sheets, sections, entities and submittals
+// ---------------------------------------------------------------------------
+
+{
+  console.log('IMP-2: Trace to sheets, sections, entities and submittals')
+  const refs = collectRfiReferences(answeredRfi)
+  const trace = traceRfiImpact(refs, {
+    entities: [
+      { id: 'e-footing', entityType: 'structural_element', discipline: 'structural', label: 'F-3', displayName: null,
+        canonicalName: 'FOOTING F-3', sheetNumbers: ['S501'], detailRefs: ['5/S501'] },
+      { id: 'e-section', entityType: 'spec_section', discipline: 'structural', label: '03 30 00', displayName: null,
+        canonicalName: '03 30 00 CAST-IN-PLACE CONCRETE', sheetNumbers: [], detailRefs: [] },
+      { id: 'e-other', entityType: 'spec_section', discipline: 'architectural', label: '09 29 00', displayName: null,
+        canonicalName: '09 29 00 GYPSUM BOARD', sheetNumbers: [], detailRefs: [] },
+    ],
+    submittals: [
+      { dedupeKey: 'k-mix', specSection: '03 30 00', submittalItem: 'Concrete mix design', submittalNumber: '033000-01' },
+      { dedupeKey: 'k-rebar', specSection: '032000', submittalItem: 'Rebar shop drawings', submittalNumber: null },
+      { dedupeKey: 'k-gyp', specSection: '09 29 00', submittalItem: 'Gypsum board data', submittalNumber: null },
+    ],
+  })
+  const find = (type, ref) => trace.targets.find(t => t.targetType === type && t.targetRef === ref)
+  assert('sheet of a cited detail reported for its detail', find('sheet', 'S501')?.reasons.includes('cited_detail'))
+  assert('sheet cited only in text', find('sheet', 'S201')?.reasons.includes('cited_sheet'))
+  assert('spec section keyed by 6 digits', !!find('spec_section', '033000') && !!find('spec_section', '032000'))
+  const footing = find('entity', 'e-footing')
+  assert('entity at the cited detail and on its sheet',
+    footing?.reasons.includes('at_cited_detail') && footing?.reasons.includes('on_cited_sheet'), JSON.stringify(footing))
+  assert('spec_section entity of a cited section', find('entity', 'e-section')?.reasons.includes('in_cited_section'))
+  assert('uncited section entity untouched', !find('entity', 'e-other'))
+  assert('submittals in cited sections keyed by dedupeKey', !!find('submittal', 'k-mix') && !!find('submittal', 'k-rebar'))
+  assert('submittal outside cited sections untouched', !find('submittal', 'k-gyp'))
+  assert('counts by target type', trace.counts.submittal === 2 && trace.counts.entity === 2, JSON.stringify(trace.counts))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// IMP-3: Re-review flags
+// ---------------------------------------------------------------------------
+
+{
+  console.log('IMP-3: Re-review flags')
+  const flagged = flagSubmittalRfiImpact(undefined, answeredRfi, ['in_cited_section'], '2026-10-10T13:00:00.000Z')
+  assert('flag adds a pending entry', pendingRfiImpacts({ rfiImpacts: flagged }).length === 1 &&
+    flagged[0].rfiNumber === 'RFI-023')
+
+  const retraced = flagSubmittalRfiImpact(flagged, answeredRfi, ['in_cited_section'], '2026-10-11T09:00:00.000Z')
+  assert('re-trace keeps the pending flaggedAt', retraced.length === 1 && retraced[0].flaggedAt === '2026-10-10T13:00:00.000Z')
+
+  const cleared = clearSubmittalRfiImpact(flagged, 'rfi-1', 'engineer', '2026-10-12T09:00:00.000Z')
+  assert('clearing marks the entry re-reviewed', cleared?.[0].reReviewStatus === 'cleared' &&
+    cleared[0].clearedBy === 'engineer' && pendingRfiImpacts({ rfiImpacts: cleared }).length === 0)
+  assert('clearing an RFI not flagged returns null', clearSubmittalRfiImpact(flagged, 'rfi-2', null, '2026-10-12') === null)
+
+  const sameAnswer = flagSubmittalRfiImpact(cleared, answeredRfi, ['in_cited_section'], '2026-10-13T09:00:00.000Z')
+  assert('re-trace of the same answer stays cleared', sameAnswer[0].reReviewStatus === 'cleared')
+
+  const reanswered = flagSubmittalRfiImpact(cleared, { ...answeredRfi, answeredAt: '2026-10-14T09:00:00.000Z' },
+    ['in_cited_section'], '2026-10-14T09:05:00.000Z')
+  assert('a later answer flags the submittal again', reanswered[0].reReviewStatus === 'pending' &&
+    reanswered[0].flaggedAt === '2026-10-14T09:05:00.000Z')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// CE-1: Change event numbering and PCO → COR → CO transitions
+// ---------------------------------------------------------------------------
+
+{
+  console.log('CE-1: Change event numbering and stage transitions')
+  const at = '2026-10-15T09:00:00.000Z'
+  assert('formats per stage', formatChangeEventNumber('pco', 7) === 'PCO-007' &&
+    formatChangeEventNumber('cor', 3) === 'COR-003' && formatChangeEventNumber('co', 12) === 'CO-012')
+  assert('parses only its own stage', parseChangeEventNumber('pco', 'pco #4') === 4 &&
+    parseChangeEventNumber('co', 'COR-004') === null && parseChangeEventNumber('cor', 'COR-004') === 4)
+  assert('next is max + 1 per stage', nextChangeEventSequence('cor', ['COR-002', null, 'COR-005', 'Legacy']) === 6 &&
+    nextChangeEventSequence('co', []) === 1)
+
+  const pco = { status: 'pricing', stage: 'pco', corNumber: null, scopeDescription: 'Lower the 8" main', romLow: 4000, approvedAmount: null }
+  const unpriced = buildChangeEventTransition({ ...pco, romLow: null }, 'submitted')
+  assert('submitting requires a ROM estimate', !unpriced.ok && /ROM/.test(unpriced.error))
+  const submit = buildChangeEventTransition(pco, 'submitted', { at, by: 'u1' })
+  assert('first submission becomes a COR and allocates its number', submit.ok && submit.stage === 'cor' &&
+    submit.allocate === 'cor' && submit.fields.submittedAt === at && submit.entry.changedBy === 'u1')
+  const resubmit = buildChangeEventTransition({ ...pco, status: 'rejected', stage: 'cor', corNumber: 'COR-002' }, 'submitted', { at })
+  assert('resubmission keeps the COR number', resubmit.ok && resubmit.allocate === null)
+
+  const cor = { ...pco, status: 'submitted', stage: 'cor', corNumber: 'COR-002' }
+  const noAmount = buildChangeEventTransition(cor, 'executed')
+  assert('executing requires the approved amount', !noAmount.ok && /approved amount/.test(noAmount.error))
+  const execute = buildChangeEventTransition(cor, 'executed', { approvedAmount: 5200, at })
+  assert('executing becomes a CO with the approved amount', execute.ok && execute.stage === 'co' &&
+    execute.allocate === 'co' && execute.fields.approvedAmount === 5200 && execute.fields.executedAt === at)
+  assert('open cannot jump to submitted', !buildChangeEventTransition({ ...pco, status: 'open' }, 'submitted').ok)
+  assert('executed and void are terminal', getNextChangeEventStatuses('executed').length === 0 &&
+    getNextChangeEventStatuses('void').length === 0)
+
+  const row = rowToChangeEvent({
+    id: 'c1', pco_number: 'PCO-004', sequence: null, cor_number: 'COR-001', co_number: null, stage: 'cor',
+    status: 'bogus', title: 't', scope_description: 's', source_type: null, source_id: null, source_label: null,
+    referenced_sheets: null, spec_sections: null, rom_items: null, rom_low: null, rom_high: null,
+    approved_amount: null, schedule_impact_days: null, status_history: null, submitted_at: null,
+    executed_at: null, created_at: null, updated_at: null,
+  })
+  assert('row mapper fills sequence and defaults', row.sequence === 4 && row.status === 'open' &&
+    row.sourceType === 'manual' && row.romItems.length === 0)
+  assert('current number follows the stage', currentChangeEventNumber(row) === 'COR-001')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// CE-2: ROM estimate seeded from ROM_UNIT_COSTS
+// ---------------------------------------------------------------------------
+
+{
+  console.log('CE-2: ROM estimate from extracted and stated quantities')
+  assert('pipe matched by size and use', matchRomCostKey('8" DI Water Main', 'LF') === '8_inch_water_main_di' &&
+    matchRomCostKey('12-inch gate valve', 'EA') === 'gate_valve_12_inch')
+  assert('sizes without a cost item are unmatched', matchRomCostKey('6" water main', 'LF') === null)
+  assert('units the item is not priced in are unmatched', matchRomCostKey('HMA paving', 'TON') === null)
+
+  const seeded = buildRomLineItems([
+    { itemName: '4" Asphalt Concrete', quantity: 100, unit: 'SY', sheetNumber: 'C-201' },
+    { itemName: 'Fire Hydrant Assembly', quantity: 2, unit: 'EA' },
+    { itemName: 'Traffic signal pole', quantity: 1, unit: 'EA' },
+    { itemName: 'Curb and gutter', quantity: null, unit: 'LF' },
+  ])
+  const asphalt = seeded.items[0]
+  assert('SY converted to SF before pricing', asphalt?.costKey === 'asphalt_concrete_4_inch' &&
+    asphalt.quantity === 900 && asphalt.unit === 'SF' && asphalt.low === 900 * asphalt.unitLow && asphalt.sheetNumber === 'C-201')
+  assert('items without a unit cost are listed for hand pricing', seeded.unmatched.length === 1 &&
+    seeded.unmatched[0] === 'Traffic signal pole (1 EA)')
+  const total = summarizeRom(seeded.items)
+  assert('ROM totals sum the lines', total !== null && total.low === seeded.items[0].low + seeded.items[1].low &&
+    total.high === seeded.items[0].high + seeded.items[1].high)
+  assert('no lines is no estimate', summarizeRom([]) === null)
+
+  const stated = extractTextQuantities('Add 120 LF of 8" DI water main and 2 EA 8-inch gate valves; remove 1,200 SF of 4" sidewalk.')
+  assert('quantities read from prose, split at the next quantity', stated.length === 3 &&
+    stated[0].itemName === '8" DI water main' && stated[1].quantity === 2 && stated[2].quantity === 1200)
+  assert('stated quantities price like extracted ones', buildRomLineItems(stated).items.map(i => i.costKey).join(',') ===
+    '8_inch_water_main_di,gate_valve_8_inch,concrete_sidewalk_4_inch')
+
+  const posted = priceRomLineInputs([{ costKey: 'import_fill', quantity: 50, low: 1 }])
+  assert('posted lines are re-priced from the cost table', 'items' in posted && posted.items[0].low === 50 * posted.items[0].unitLow)
+  assert('unknown cost items are rejected', 'error' in priceRomLineInputs([{ costKey: 'gold_leaf', quantity: 1 }]))
+  assert('non-positive quantities are rejected', 'error' in priceRomLineInputs([{ costKey: 'import_fill', quantity: 0 }]))
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// CE-3: Drafts from RFIs, change documents and addenda
+// ---------------------------------------------------------------------------
+
+{
+  console.log('CE-3: Change event drafts from the source')
+  const fromRfi = buildChangeEventDraftFromRfi({
+    rfiNumber: 'RFI-012', subject: 'Water main conflict with storm drain at STA 12+50', question: 'Can the main be lowered?',
+    suggestedSolution: 'Lower 40 LF of 8" water main.', response: 'Lower 40 LF of 8" DI water main 2 ft.',
+    referencedSheets: ['C-301', 'C-101'], specSections: ['33 11 00'],
+  })
+  assert('answered RFI leads with the response', fromRfi.scopeDescription.startsWith('Per RFI-012 response: Lower') &&
+    !fromRfi.scopeDescription.includes('Proposed'))
+  assert('RFI title and references carried over', fromRfi.title.startsWith('RFI-012 — Water main') &&
+    fromRfi.sourceLabel === 'RFI-012' && fromRfi.referencedSheets.join(',') === 'C-101,C-301')
+
+  const fromAsi = buildChangeEventDraftFromChangeDocument({
+    label: 'ASI-002', displayName: 'Revised curb return', statements: ['Extend curb per detail 4/C-501.', ''],
+  })
+  assert('change document scope from its findings', fromAsi.scopeDescription === 'Per ASI-002:\nExtend curb per detail 4/C-501.' &&
+    fromAsi.title === 'ASI-002 — Revised curb return' && fromAsi.referencedSheets.includes('4/C-501'))
+
+  const fromAddendum = buildChangeEventDraftFromAddendum({
+    filename: 'Addendum 3 - Civil.pdf', description: null, statements: [], sheetNumbers: ['C-102'],
+  })
+  assert('addendum labelled from its filename', fromAddendum.sourceLabel === 'ADDENDUM-003' &&
+    fromAddendum.scopeDescription === 'Changes issued in ADDENDUM-003.' && fromAddendum.referencedSheets.join(',') === 'C-102')
+  console.log()
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+console.log(`\n${'─'.repeat(50)}`)
+console.log(`rfi:harness: ${passed} passed, ${failed} failed`)
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,669 @@
+#!/usr/bin/env node
+
+// Pure-module harness for schedule logic: P6 XER / MS Project XML import,
+// version diff, CPM engine, submittal → activity linking and schedule risk,
+// chat activity query, look-ahead generator.
+
+import {
+  detectScheduleFormat,
+  isScheduleExportFileName,
+  parseIsoDurationHours,
+  parseMsProjectXml,
+  parseP6Xer,
+  parseScheduleFile,
+  parseXerTables,
+  toIsoDate,
+} from '../src/lib/schedule/schedule-parser.ts'
+import { daysBetween, rowToScheduleActivity } from '../src/lib/schedule/schedule-model.ts'
+import { diffScheduleVersions } from '../src/lib/schedule/schedule-diff.ts'
+import {
+  calendarFromName,
+  findFloatDiscrepancies,
+  runCpm,
+  simulateActivityDelay,
+  workingDaysBetween,
+} from '../src/lib/schedule/cpm-engine.ts'
+import {
+  activityNameTokens,
+  computeSubmittalScheduleRisk,
+  needsScheduleLink,
+  suggestActivityMatches,
+  summarizeSubmittalScheduleRisk,
+} from '../src/lib/schedule/submittal-schedule-risk.ts'
+import {
+  filterScheduleActivities,
+  formatScheduleActivityAnswer,
+  queryScheduleSnapshot,
+} from '../src/lib/schedule/schedule-query.ts'
+import { buildLookahead, lookaheadSpan, lookaheadWindow } from '../src/lib/schedule/lookahead.ts'
+import { buildLookaheadExportRows, lookaheadExportTitle } from '../src/lib/export/lookahead-export.ts'
+
+let passed = 0
+let failed = 0
+
+function assert(label, condition, detail = '') {
+  if (condition) {
+    passed++
+    console.log(`  ✓ ${label}`)
+  } else {
+    failed++
+    console.log(`  ✗ ${label}${detail ? ` — ${detail}` : ''}`)
+  }
+}
+
+function section(name) {
+  console.log(`\n── ${name} ──`)
+}
+
+function version(id, versionNumber) {
+  return {
+    id, versionNumber, versionDate: '2024-01-01', description: null, isBaseline: false,
+    sourceFormat: 'p6_xer', sourceFileName: null, dataDate: null, activityCount: 0, createdAt: null,
+  }
+}
+
+function act(activityId, earlyStart, earlyFinish, opts = {}) {
+  return {
+    id: `${activityId}-uuid`,
+    activityId,
+    activityName: opts.name ?? `Activity ${activityId}`,
+    wbsCode: opts.wbsCode ?? null,
+    wbsName: opts.wbsName ?? null,
+    earlyStart,
+    earlyFinish,
+    lateStart: opts.lateStart ?? null,
+    lateFinish: opts.lateFinish ?? null,
+    actualStart: opts.actualStart ?? null,
+    actualFinish: opts.actualFinish ?? null,
+    durationDays: opts.durationDays ?? null,
+    totalFloatDays: opts.float ?? null,
+    percentComplete: opts.percent ?? 0,
+    isCritical: opts.critical ?? false,
+    isMilestone: false,
+    status: opts.status ?? 'not_started',
+    responsibleParty: opts.responsibleParty ?? null,
+    calendar: opts.calendar ?? null,
+  }
+}
+
+function tie(pred, succ, type = 'FS', lagDays = 0) {
+  return { predecessorActivityId: pred, successorActivityId: succ, type, lagDays }
+}
+
+function xer(lines) {
+  return lines.map(cells => cells.join('\t')).join('\r\n')
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures
+
+const XER = xer([
+  ['ERMHDR', '19.12', '2024-03-01', 'Project', 'admin', 'Admin', 'dbxDatabaseNoName', 'Project Management', 'USD'],
+  ['%T', 'PROJECT'],
+  ['%F', 'proj_id', 'proj_short_name', 'last_recalc_date'],
+  ['%R', '100', 'WTP-EXP', '2024-03-01 08:00'],
+  ['%T', 'CALENDAR'],
+  ['%F', 'clndr_id', 'clndr_name', 'day_hr_cnt'],
+  ['%R', '1', '5-Day 8hr', '8'],
+  ['%R', '2', '4-Day 10hr', '10'],
+  ['%T', 'PROJWBS'],
+  ['%F', 'wbs_id', 'proj_id', 'parent_wbs_id', 'wbs_short_name', 'wbs_name', 'proj_node_flag'],
+  ['%R', '500', '100', '', 'WTP-EXP', 'WTP Expansion', 'Y'],
+  ['%R', '501', '100', '500', 'CIV', 'Civil', 'N'],
+  ['%R', '502', '100', '501', 'UG', 'Underground Utilities', 'N'],
+  ['%T', 'TASK'],
+  ['%F', 'task_id', 'proj_id', 'wbs_id', 'clndr_id', 'task_code', 'task_name', 'task_type', 'status_code',
+    'phys_complete_pct', 'target_drtn_hr_cnt', 'total_float_hr_cnt', 'driving_path_flag',
+    'act_start_date', 'act_end_date', 'early_start_date', 'early_end_date', 'late_start_date', 'late_end_date'],
+  ['%R', '1001', '100', '502', '1', 'A1000', 'Mobilize', 'TT_Task', 'TK_Complete',
+    '100', '40', '0', 'N', '2024-01-02 08:00', '2024-01-08 17:00', '', '', '', ''],
+  ['%R', '1002', '100', '502', '1', 'A1010', 'Install 12" Water Main', 'TT_Task', 'TK_Active',
+    '35', '160', '0', 'Y', '2024-02-20 08:00', '', '2024-02-20 08:00', '2024-03-15 17:00', '2024-02-20 08:00', '2024-03-15 17:00'],
+  ['%R', '1003', '100', '502', '2', 'A1020', 'Pressure Test', 'TT_Task', 'TK_NotStart',
+    '0', '20', '50', 'N', '', '', '2024-03-18 08:00', '2024-03-19 17:00', '2024-03-25 08:00', '2024-03-26 17:00'],
+  ['%R', '1004', '100', '501', '1', 'M1000', 'Substantial Completion', 'TT_FinMile', 'TK_NotStart',
+    '0', '0', '-16', 'N', '', '', '2024-04-01 17:00', '2024-04-01 17:00', '2024-03-29 17:00', '2024-03-29 17:00'],
+  ['%R', '1005', '100', '501', '1', 'A1000', 'Duplicate code', 'TT_Task', 'TK_NotStart',
+    '0', '8', '0', 'N', '', '', '', '', '', ''],
+  ['%R', '1006', '100', '501', '1', 'WBS-SUM', 'WBS summary', 'TT_WBS', 'TK_NotStart',
+    '0', '0', '0', 'N', '', '', '', '', '', ''],
+  ['%T', 'TASKPRED'],
+  ['%F', 'task_pred_id', 'task_id', 'pred_task_id', 'pred_type', 'lag_hr_cnt'],
+  ['%R', '1', '1002', '1001', 'PR_FS', '0'],
+  ['%R', '2', '1003', '1002', 'PR_SS', '20'],
+  ['%R', '3', '1004', '1003', 'PR_FF', '16'],
+  ['%R', '4', '1004', '9999', 'PR_FS', '0'],
+  ['%T', 'ACTVTYPE'],
+  ['%F', 'actv_code_type_id', 'actv_code_type'],
+  ['%R', '10', 'Phase'],
+  ['%R', '11', 'Responsibility'],
+  ['%T', 'ACTVCODE'],
+  ['%F', 'actv_code_id', 'actv_code_type_id', 'short_name', 'actv_code_name'],
+  ['%R', '70', '10', 'P1', 'Phase 1'],
+  ['%R', '71', '11', 'ABC', 'ABC Underground'],
+  ['%T', 'TASKACTV'],
+  ['%F', 'task_id', 'actv_code_type_id', 'actv_code_id'],
+  ['%R', '1002', '10', '70'],
+  ['%R', '1002', '11', '71'],
+  ['%E'],
+])
+
+const MSP = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Name>Lift Station 4.xml</Name>
+  <Title>Lift Station 4 &amp; Forcemain</Title>
+  <StatusDate>2024-05-10T08:00:00</StatusDate>
+  <MinutesPerDay>480</MinutesPerDay>
+  <CalendarUID>1</CalendarUID>
+  <Calendars>
+    <Calendar><UID>1</UID><Name>Standard</Name><WeekDays><WeekDay><DayType>1</DayType></WeekDay></WeekDays></Calendar>
+    <Calendar><UID>3</UID><Name>Night Work</Name></Calendar>
+  </Calendars>
+  <Tasks>
+    <Task><UID>0</UID><ID>0</ID><Name>Lift Station 4</Name><Summary>1</Summary><OutlineNumber>0</OutlineNumber></Task>
+    <Task><UID>1</UID><ID>1</ID><Name>Structure</Name><Summary>1</Summary><OutlineNumber>1</OutlineNumber><WBS>1</WBS></Task>
+    <Task>
+      <UID>2</UID><ID>2</ID><Name>Excavate Wet Well</Name><WBS>1.1</WBS><OutlineNumber>1.1</OutlineNumber>
+      <Start>2024-05-01T08:00:00</Start><Finish>2024-05-07T17:00:00</Finish>
+      <EarlyStart>2024-05-01T08:00:00</EarlyStart><EarlyFinish>2024-05-07T17:00:00</EarlyFinish>
+      <LateStart>2024-05-01T08:00:00</LateStart><LateFinish>2024-05-07T17:00:00</LateFinish>
+      <ActualStart>2024-05-01T08:00:00</ActualStart>
+      <Duration>PT40H0M0S</Duration><PercentComplete>60</PercentComplete>
+      <Critical>1</Critical><TotalSlack>0</TotalSlack><Contact>Dig Co</Contact>
+      <ExtendedAttribute><FieldID>188743731</FieldID><Name>Not the task name</Name></ExtendedAttribute>
+    </Task>
+    <Task>
+      <UID>3</UID><ID>3</ID><Name>Set Precast &lt;Wet Well&gt;</Name><WBS>1.2</WBS><OutlineNumber>1.2</OutlineNumber>
+      <Start>2024-05-13T08:00:00</Start><Finish>2024-05-14T17:00:00</Finish>
+      <LateStart>2024-05-20T08:00:00</LateStart><LateFinish>2024-05-21T17:00:00</LateFinish>
+      <Duration>PT16H0M0S</Duration><PercentComplete>0</PercentComplete>
+      <Critical>0</Critical><TotalSlack>24000</TotalSlack><CalendarUID>3</CalendarUID>
+      <PredecessorLink><PredecessorUID>2</PredecessorUID><Type>1</Type><LinkLag>4800</LinkLag><LagFormat>7</LagFormat></PredecessorLink>
+    </Task>
+    <Task>
+      <UID>4</UID><ID>4</ID><Name>Startup</Name><WBS>2</WBS><OutlineNumber>2</OutlineNumber>
+      <Start>2024-05-22T08:00:00</Start><Finish>2024-05-22T08:00:00</Finish>
+      <Duration>PT0H0M0S</Duration><Milestone>1</Milestone>
+      <PredecessorLink><PredecessorUID>3</PredecessorUID><Type>3</Type><LinkLag>28800</LinkLag><LagFormat>8</LagFormat></PredecessorLink>
+      <PredecessorLink><PredecessorUID>2</PredecessorUID><Type>0</Type><LinkLag>500</LinkLag><LagFormat>19</LagFormat></PredecessorLink>
+      <PredecessorLink><PredecessorUID>1</PredecessorUID><Type>1</Type></PredecessorLink>
+    </Task>
+  </Tasks>
+</Project>`
+
+// ---------------------------------------------------------------------------
+section('SCH-1: helpers')
+
+assert('SCH-1a: toIsoDate strips P6 time', toIsoDate('2024-03-01 08:00') === '2024-03-01')
+assert('SCH-1b: toIsoDate strips MSP time', toIsoDate('2024-05-10T08:00:00') === '2024-05-10')
+assert('SCH-1c: toIsoDate rejects junk', toIsoDate('n/a') === null && toIsoDate('') === null)
+assert('SCH-1d: PT40H0M0S = 40h', parseIsoDurationHours('PT40H0M0S') === 40)
+assert('SCH-1e: P1DT2H = 26h', parseIsoDurationHours('P1DT2H') === 26)
+assert('SCH-1f: negative duration', parseIsoDurationHours('-PT8H0M0S') === -8)
+assert('SCH-1g: export file names', isScheduleExportFileName('Update 04.XER') && isScheduleExportFileName('ls4.xml') && !isScheduleExportFileName('schedule.pdf'))
+
+// ---------------------------------------------------------------------------
+section('SCH-2: format detection')
+
+assert('SCH-2a: XER by header', detectScheduleFormat('export.txt', XER) === 'p6_xer')
+assert('SCH-2b: MSP by namespace', detectScheduleFormat('export.txt', MSP) === 'msp_xml')
+assert('SCH-2c: falls back to extension', detectScheduleFormat('a.xer', 'garbage') === 'p6_xer')
+assert('SCH-2d: unknown → null', detectScheduleFormat('a.csv', 'a,b,c') === null)
+
+const unknown = parseScheduleFile('a.csv', 'a,b,c')
+assert('SCH-2e: parseScheduleFile rejects unknown', unknown.ok === false && /Unrecognized/.test(unknown.error))
+const emptyXer = parseScheduleFile('a.xer', 'ERMHDR\t19.12\r\n%T\tTASK\r\n%F\ttask_id\r\n%E')
+assert('SCH-2f: parseScheduleFile rejects zero activities', emptyXer.ok === false && /No activities/.test(emptyXer.error))
+
+// ---------------------------------------------------------------------------
+section('SCH-3: XER tables')
+
+const tables = parseXerTables(XER)
+assert('SCH-3a: reads all tables', ['PROJECT', 'CALENDAR', 'PROJWBS', 'TASK', 'TASKPRED'].every(t => tables.has(t)))
+assert('SCH-3b: row fields keyed by %F', tables.get('TASK')[1].task_name === 'Install 12" Water Main')
+
+// ---------------------------------------------------------------------------
+section('SCH-4: P6 XER activities')
+
+const p6 = parseP6Xer(XER)
+const byId = Object.fromEntries(p6.activities.map(a => [a.activityId, a]))
+
+assert('SCH-4a: project name + data date', p6.projectName === 'WTP-EXP' && p6.dataDate === '2024-03-01')
+assert('SCH-4b: WBS summary + duplicate skipped', p6.activities.length === 4, `got ${p6.activities.length}`)
+assert('SCH-4c: duplicate keeps first', byId.A1000.activityName === 'Mobilize')
+assert('SCH-4d: duplicate warned', p6.warnings.some(w => /Duplicate activity ID "A1000"/.test(w)))
+assert('SCH-4e: WBS path excludes project node', byId.A1010.wbsCode === 'CIV.UG' && byId.A1010.wbsName === 'Underground Utilities')
+assert('SCH-4f: duration hours → days (8h cal)', byId.A1010.durationDays === 20)
+assert('SCH-4g: duration hours → days (10h cal)', byId.A1020.durationDays === 2 && byId.A1020.hoursPerDay === 10)
+assert('SCH-4h: float hours → days', byId.A1020.totalFloatDays === 5)
+assert('SCH-4i: driving path → critical', byId.A1010.isCritical === true)
+assert('SCH-4j: negative float → critical', byId.M1000.isCritical === true && byId.M1000.totalFloatDays === -2)
+assert('SCH-4k: complete activity never critical', byId.A1000.isCritical === false)
+assert('SCH-4l: positive float not critical', byId.A1020.isCritical === false)
+assert('SCH-4m: status mapped', byId.A1000.status === 'complete' && byId.A1010.status === 'in_progress' && byId.A1020.status === 'not_started')
+assert('SCH-4n: complete activity uses actual dates', byId.A1000.earlyStart === '2024-01-02' && byId.A1000.actualFinish === '2024-01-08')
+assert('SCH-4o: late dates', byId.A1020.lateStart === '2024-03-25' && byId.A1020.lateFinish === '2024-03-26')
+assert('SCH-4p: milestone flagged', byId.M1000.isMilestone === true)
+assert('SCH-4q: responsibility code', byId.A1010.responsibleParty === 'ABC Underground' && byId.A1020.responsibleParty === null)
+assert('SCH-4r: calendar name', byId.A1020.calendar === '4-Day 10hr')
+assert('SCH-4s: percent complete', byId.A1010.percentComplete === 35)
+assert('SCH-4t: sourceKey is task_id', byId.A1010.sourceKey === '1002')
+
+// ---------------------------------------------------------------------------
+section('SCH-5: P6 XER relationships')
+
+const rel = (list, pred, succ) => list.find(r => r.predecessorActivityId === pred && r.successorActivityId === succ)
+assert('SCH-5a: resolvable ties only', p6.relationships.length === 3, `got ${p6.relationships.length}`)
+assert('SCH-5b: FS mapped', rel(p6.relationships, 'A1000', 'A1010')?.type === 'FS')
+assert('SCH-5c: SS lag on successor calendar (20h / 10h)', rel(p6.relationships, 'A1010', 'A1020')?.lagDays === 2)
+assert('SCH-5d: FF lag (16h / 8h)', rel(p6.relationships, 'A1020', 'M1000')?.type === 'FF' && rel(p6.relationships, 'A1020', 'M1000')?.lagDays === 2)
+assert('SCH-5e: unresolved tie warned', p6.warnings.some(w => /1 logic tie/.test(w)))
+
+// ---------------------------------------------------------------------------
+section('SCH-6: MS Project XML activities')
+
+const msp = parseMsProjectXml(MSP)
+const mById = Object.fromEntries(msp.activities.map(a => [a.activityId, a]))
+
+assert('SCH-6a: title decoded + status date', msp.projectName === 'Lift Station 4 & Forcemain' && msp.dataDate === '2024-05-10')
+assert('SCH-6b: summary tasks skipped', msp.activities.length === 3 && !mById['0'] && !mById['1'])
+assert('SCH-6c: name not taken from ExtendedAttribute', mById['2'].activityName === 'Excavate Wet Well')
+assert('SCH-6d: entities decoded', mById['3'].activityName === 'Set Precast <Wet Well>')
+assert('SCH-6e: WBS + parent summary name', mById['2'].wbsCode === '1.1' && mById['2'].wbsName === 'Structure')
+assert('SCH-6f: duration PT40H → 5 days', mById['2'].durationDays === 5)
+assert('SCH-6g: slack tenths-of-minutes → days', mById['3'].totalFloatDays === 5)
+assert('SCH-6h: Start falls back for early start', mById['3'].earlyStart === '2024-05-13' && mById['3'].earlyFinish === '2024-05-14')
+assert('SCH-6i: critical flag', mById['2'].isCritical === true && mById['3'].isCritical === false)
+assert('SCH-6j: contact → responsible party', mById['2'].responsibleParty === 'Dig Co')
+assert('SCH-6k: in-progress status', mById['2'].status === 'in_progress' && mById['3'].status === 'not_started')
+assert('SCH-6l: calendar by UID, default otherwise', mById['3'].calendar === 'Night Work' && mById['2'].calendar === 'Standard')
+assert('SCH-6m: milestone flagged', mById['4'].isMilestone === true && mById['4'].durationDays === 0)
+
+// ---------------------------------------------------------------------------
+section('SCH-7: MS Project XML relationships')
+
+assert('SCH-7a: tie to summary skipped', msp.relationships.length === 3, `got ${msp.relationships.length}`)
+assert('SCH-7b: FS with 1d working lag', rel(msp.relationships, '2', '3')?.type === 'FS' && rel(msp.relationships, '2', '3')?.lagDays === 1)
+assert('SCH-7c: SS with elapsed lag (2 edays)', rel(msp.relationships, '3', '4')?.type === 'SS' && rel(msp.relationships, '3', '4')?.lagDays === 2)
+assert('SCH-7d: percent lag → 0 + warning', rel(msp.relationships, '2', '4')?.type === 'FF' && rel(msp.relationships, '2', '4')?.lagDays === 0
+  && msp.warnings.some(w => /percent-based lag/.test(w)))
+
+// ---------------------------------------------------------------------------
+section('SCH-8: date ordering guard')
+
+const inverted = parseP6Xer(xer([
+  ['%T', 'TASK'],
+  ['%F', 'task_id', 'task_code', 'task_name', 'early_start_date', 'early_end_date'],
+  ['%R', '1', 'X1', 'Inverted', '2024-06-10 08:00', '2024-06-07 17:00'],
+  ['%E'],
+]))
+assert('SCH-8a: finish clamped to start', inverted.activities[0].earlyStart === '2024-06-10' && inverted.activities[0].earlyFinish === '2024-06-10')
+assert('SCH-8b: defaults to 8h calendar', inverted.activities[0].hoursPerDay === 8)
+
+// ---------------------------------------------------------------------------
+section('SCH-9: schedule model helpers')
+
+assert('SCH-9a: daysBetween forward', daysBetween('2024-03-01', '2024-03-11') === 10)
+assert('SCH-9b: daysBetween across month', daysBetween('2024-02-28', '2024-03-01') === 2)
+assert('SCH-9c: daysBetween null-safe', daysBetween(null, '2024-03-01') === null)
+const mapped = rowToScheduleActivity({
+  id: 'u1', activity_id: 'A1', activity_name: 'Row', wbs_code: null,
+  early_start: '2024-01-01', early_finish: '2024-01-05', late_start: null, late_finish: null,
+  actual_start: '2024-01-01', actual_finish: null, duration_days: 5, total_float_days: 3,
+  percent_complete: 40, is_critical: null, responsible_party: null, calendar: null,
+  metadata: { wbsName: 'Civil', isMilestone: false },
+})
+assert('SCH-9d: row status derived when metadata lacks it', mapped.status === 'in_progress')
+assert('SCH-9e: null is_critical → false', mapped.isCritical === false && mapped.wbsName === 'Civil')
+
+// ---------------------------------------------------------------------------
+section('SCH-10: version diff — activities')
+
+const v1 = {
+  version: version('v1', 1),
+  activities: [
+    act('A100', '2024-03-01', '2024-03-10', { float: 10, percent: 0 }),
+    act('A200', '2024-03-11', '2024-03-20', { float: 0, critical: true }),
+    act('A300', '2024-03-21', '2024-03-25', { float: 4 }),
+    act('A400', '2024-03-26', '2024-03-28', { float: 2, name: 'Old Name' }),
+    act('A500', '2024-04-01', '2024-04-02', { float: 8 }),
+  ],
+  ties: [tie('A100', 'A200'), tie('A200', 'A300', 'SS', 2), tie('A300', 'A500')],
+}
+const v2 = {
+  version: version('v2', 2),
+  activities: [
+    act('A100', '2024-03-01', '2024-03-10', { float: 10, percent: 50, actualStart: '2024-03-04' }),
+    act('A200', '2024-03-11', '2024-03-25', { float: 0, critical: true }),
+    act('A300', '2024-03-26', '2024-03-30', { float: -1, critical: true }),
+    act('A400', '2024-03-26', '2024-03-27', { float: 3, name: 'New Name' }),
+    act('A600', '2024-04-10', '2024-04-12', { float: 0 }),
+  ],
+  ties: [tie('A100', 'A200'), tie('A200', 'A300', 'FS', 0), tie('A300', 'A600')],
+}
+const d = diffScheduleVersions(v1, v2)
+const ch = Object.fromEntries(d.changes.map(c => [c.activityId, c]))
+
+assert('SCH-10a: matched count', d.summary.matchedCount === 4)
+assert('SCH-10b: added / removed', d.added.map(a => a.activityId).join() === 'A600' && d.removed.map(a => a.activityId).join() === 'A500')
+assert('SCH-10c: actual start drives start slip', ch.A100.startSlipDays === 3 && ch.A100.finishSlipDays === 0)
+assert('SCH-10d: progress captured', ch.A100.percentBefore === 0 && ch.A100.percentAfter === 50)
+assert('SCH-10e: finish slip in calendar days', ch.A200.finishSlipDays === 5)
+assert('SCH-10f: float erosion', ch.A300.floatDeltaDays === -5 && ch.A300.floatAfter === -1)
+assert('SCH-10g: newly critical', ch.A300.newlyCritical === true && ch.A200.newlyCritical === false)
+assert('SCH-10h: finish gain is negative slip', ch.A400.finishSlipDays === -1 && ch.A400.floatDeltaDays === 1)
+assert('SCH-10i: rename detected', ch.A400.nameChanged === true && ch.A400.activityName === 'New Name')
+assert('SCH-10j: worst finish slip first, float erosion breaks ties', d.changes[0].activityId === 'A300' && d.changes[1].activityId === 'A200')
+assert('SCH-10k: summary counts', d.summary.finishSlipCount === 2 && d.summary.floatErodedCount === 1
+  && d.summary.newlyCriticalCount === 1 && d.summary.progressedCount === 1 && d.summary.finishGainCount === 1)
+assert('SCH-10l: max finish slip', d.summary.maxFinishSlipDays === 5)
+assert('SCH-10m: project finish movement', d.summary.projectFinishBefore === '2024-04-02'
+  && d.summary.projectFinishAfter === '2024-04-12' && d.summary.projectFinishSlipDays === 10)
+
+// ---------------------------------------------------------------------------
+section('SCH-11: version diff — logic ties')
+
+assert('SCH-11a: tie added', d.tiesAdded.length === 1 && d.tiesAdded[0].successorActivityId === 'A600')
+assert('SCH-11b: tie removed', d.tiesRemoved.length === 1 && d.tiesRemoved[0].successorActivityId === 'A500')
+assert('SCH-11c: type/lag change reported as changed, not add+remove',
+  d.tiesChanged.length === 1 && d.tiesChanged[0].before.type === 'SS' && d.tiesChanged[0].after.type === 'FS'
+  && d.tiesChanged[0].before.lagDays === 2)
+
+const same = diffScheduleVersions(v1, { ...v1, version: version('v1b', 2) })
+assert('SCH-11d: identical versions → no changes', same.changes.length === 0 && same.tiesAdded.length === 0
+  && same.summary.projectFinishSlipDays === 0)
+
+// ---------------------------------------------------------------------------
+section('SCH-12: CPM forward / backward pass')
+
+// Mon 2024-03-04 start, Mon–Fri calendar.
+//   A 5d ─FS→ B 3d ─FS→ D 1d
+//   A ─FS+2→ C 2d ─FS→ D
+//   A ─SS+2→ E 1d (open end)
+//   D ─FF→ F 3d
+const net = {
+  activities: [
+    act('A', '2024-03-04', null, { durationDays: 5 }),
+    act('B', null, null, { durationDays: 3 }),
+    act('C', null, null, { durationDays: 2 }),
+    act('D', null, null, { durationDays: 1 }),
+    act('E', null, null, { durationDays: 1 }),
+    act('F', null, null, { durationDays: 3 }),
+  ],
+  ties: [tie('A', 'B'), tie('A', 'C', 'FS', 2), tie('B', 'D'), tie('C', 'D'), tie('A', 'E', 'SS', 2), tie('D', 'F', 'FF')],
+}
+const cpm = runCpm(net)
+const r = cpm.ok ? Object.fromEntries(cpm.result.activities.map(a => [a.activityId, a])) : {}
+
+assert('SCH-12a: runs', cpm.ok === true)
+assert('SCH-12b: A 5d spans the work week', r.A?.earlyStart === '2024-03-04' && r.A?.earlyFinish === '2024-03-08')
+assert('SCH-12c: FS skips the weekend', r.B?.earlyStart === '2024-03-11' && r.B?.earlyFinish === '2024-03-13')
+assert('SCH-12d: FS lag 2 working days', r.C?.earlyStart === '2024-03-13' && r.C?.earlyFinish === '2024-03-14')
+assert('SCH-12e: merge takes the later predecessor', r.D?.earlyStart === '2024-03-15' && r.D?.drivingPredecessorIds.join() === 'C')
+assert('SCH-12f: SS lag 2', r.E?.earlyStart === '2024-03-06')
+assert('SCH-12g: FF finishes with predecessor', r.F?.earlyFinish === '2024-03-15' && r.F?.earlyStart === '2024-03-13')
+assert('SCH-12h: project finish', cpm.ok && cpm.result.projectFinish === '2024-03-15')
+assert('SCH-12i: float on the shorter branch', r.B?.totalFloatDays === 1 && r.B?.isCritical === false)
+assert('SCH-12j: lag chain is critical', r.A?.isCritical && r.C?.isCritical && r.D?.isCritical && r.F?.isCritical)
+assert('SCH-12k: open-end float to project finish', r.E?.totalFloatDays === 7)
+assert('SCH-12l: late dates', r.B?.lateStart === '2024-03-12' && r.B?.lateFinish === '2024-03-14')
+assert('SCH-12m: critical path ordered by start', cpm.ok && cpm.result.criticalPath.join() === 'A,C,F,D',
+  cpm.ok ? cpm.result.criticalPath.join() : '')
+
+// ---------------------------------------------------------------------------
+section('SCH-13: CPM calendars, progress, loops')
+
+const holiday = runCpm(net, { holidays: ['2024-03-11'] })
+const rh = holiday.ok ? Object.fromEntries(holiday.result.activities.map(a => [a.activityId, a])) : {}
+assert('SCH-13a: holiday pushes FS successor', rh.B?.earlyStart === '2024-03-12')
+
+const sevenDay = runCpm({
+  activities: [act('P', '2024-03-04', null, { durationDays: 5 }), act('Q', null, null, { durationDays: 2, calendar: '7 Day Calendar' })],
+  ties: [tie('P', 'Q')],
+})
+const q = sevenDay.ok ? sevenDay.result.activities.find(a => a.activityId === 'Q') : null
+assert('SCH-13b: 7-day calendar works the weekend', q?.earlyStart === '2024-03-09' && q?.earlyFinish === '2024-03-10')
+assert('SCH-13c: calendarFromName', calendarFromName('6-Day Work Week').workDays.length === 6
+  && calendarFromName('Standard').workDays.length === 5 && calendarFromName('24/7').workDays.length === 7)
+
+const dataDated = runCpm(net, { dataDate: '2024-03-06' })
+assert('SCH-13d: data date holds unstarted work', dataDated.ok && dataDated.result.activities[0].earlyStart === '2024-03-06')
+
+const progressed = runCpm({
+  activities: [act('A', '2024-03-04', null, { durationDays: 5, actualStart: '2024-03-04', percent: 40, status: 'in_progress' }), ...net.activities.slice(1)],
+  ties: net.ties,
+}, { dataDate: '2024-03-06' })
+const rp = progressed.ok ? Object.fromEntries(progressed.result.activities.map(a => [a.activityId, a])) : {}
+assert('SCH-13e: in-progress keeps actual start, remaining from data date',
+  rp.A?.earlyStart === '2024-03-04' && rp.A?.earlyFinish === '2024-03-08')
+
+const completed = runCpm({
+  activities: [act('A', '2024-03-04', null, { durationDays: 5, actualStart: '2024-03-04', actualFinish: '2024-03-07', status: 'complete', percent: 100 }), ...net.activities.slice(1)],
+  ties: net.ties,
+})
+const rc = completed.ok ? Object.fromEntries(completed.result.activities.map(a => [a.activityId, a])) : {}
+assert('SCH-13f: complete activity keeps actuals, not critical', rc.A?.earlyFinish === '2024-03-07' && rc.A?.isCritical === false)
+assert('SCH-13g: successor follows actual finish', rc.B?.earlyStart === '2024-03-08')
+
+const sf = runCpm({
+  activities: [act('X', '2024-03-11', null, { durationDays: 1 }), act('Y', null, null, { durationDays: 2 })],
+  ties: [tie('X', 'Y', 'SF')],
+})
+const y = sf.ok ? sf.result.activities.find(a => a.activityId === 'Y') : null
+assert('SCH-13h: SF finishes at predecessor start', y?.earlyStart === '2024-03-07' && y?.earlyFinish === '2024-03-08')
+
+const loop = runCpm({ activities: [act('L1', '2024-03-04', null), act('L2', null, null), act('L3', null, null)], ties: [tie('L1', 'L2'), tie('L2', 'L3'), tie('L3', 'L2')] })
+assert('SCH-13i: logic loop reported', loop.ok === false && loop.cycleActivityIds.join() === 'L2,L3')
+
+const discrepancies = cpm.ok ? findFloatDiscrepancies(
+  { activities: net.activities.map(a => ({ ...a, totalFloatDays: 0, isCritical: true })), ties: net.ties },
+  cpm.result,
+) : []
+assert('SCH-13j: float discrepancies vs imported', discrepancies.map(d => d.activityId).sort().join() === 'B,E')
+
+// ---------------------------------------------------------------------------
+section('SCH-14: CPM what-if delay')
+
+const absorbed = simulateActivityDelay(net, 'B', 1)
+assert('SCH-14a: delay within float is absorbed', absorbed.ok && absorbed.impact.absorbedByFloat && absorbed.impact.floatBefore === 1)
+assert('SCH-14b: absorbed delay still moves the delayed activity', absorbed.ok && absorbed.impact.impacted.map(i => i.activityId).join() === 'B')
+
+const late = simulateActivityDelay(net, 'B', 3)
+assert('SCH-14c: delay beyond float slips the finish', late.ok && late.impact.projectFinishAfter === '2024-03-19'
+  && late.impact.projectFinishSlipDays === 4)
+const lateD = late.ok ? late.impact.impacted.find(i => i.activityId === 'D') : null
+assert('SCH-14d: downstream slip in working days', lateD?.finishSlipDays === 2)
+assert('SCH-14e: B becomes critical', late.ok && late.impact.impacted.find(i => i.activityId === 'B')?.becameCritical === true)
+assert('SCH-14f: unknown activity rejected', simulateActivityDelay(net, 'ZZZ', 5).ok === false)
+
+// ---------------------------------------------------------------------------
+section('SCH-15: submittal → activity matching')
+
+const linkActs = [
+  act('A1000', '2024-06-03', '2024-06-14', { name: 'Install Curtain Wall Level 2', wbsName: 'Envelope' }),
+  act('A1010', '2024-07-01', '2024-07-12', { name: 'Set Rooftop Units', wbsName: 'Mechanical' }),
+  act('A1020', '2024-05-06', '2024-05-10', { name: 'Pour Level 2 Slab', wbsName: 'Structure' }),
+  act('A1030', '2024-08-05', '2024-08-09', { name: 'Paint Corridors', wbsName: 'Finishes' }),
+]
+const sub = (overrides = {}) => ({
+  submittalItem: 'Item', specSection: '08 44 13', sectionTitle: 'Glazed Curtain Walls', ...overrides,
+})
+
+assert('SCH-15a: tokens drop boilerplate and stem plurals', [...activityNameTokens('Shop Drawings for Rooftop Units')].join() === 'rooftop,unit')
+const byCode = suggestActivityMatches(sub({ scheduleActivity: 'A1010 - RTUs' }), linkActs)
+assert('SCH-15b: activity code in free text matches exactly', byCode[0]?.activityId === 'A1010' && byCode[0].score === 1 && byCode[0].matchMethod === 'activity_code')
+const byName = suggestActivityMatches(sub({ scheduleActivity: 'curtain wall install L2' }), linkActs)
+assert('SCH-15c: free-text name ranks the right activity first', byName[0]?.activityId === 'A1000' && byName[0].matchMethod === 'name')
+const inferred = suggestActivityMatches(sub({ submittalItem: 'Curtain wall shop drawings', sectionTitle: null }), linkActs)
+assert('SCH-15d: inferred query scores below an explicit one', inferred[0]?.activityId === 'A1000' && inferred[0].score < byName[0].score)
+const wbsOnly = suggestActivityMatches(sub({ scheduleActivity: 'mechanical' }), linkActs)
+assert('SCH-15e: WBS name can carry the match', wbsOnly[0]?.activityId === 'A1010' && wbsOnly[0].matchMethod === 'wbs')
+assert('SCH-15f: unrelated text yields nothing', suggestActivityMatches(sub({ scheduleActivity: 'elevator cab' }), linkActs).length === 0)
+assert('SCH-15g: limit respected', suggestActivityMatches(sub({ scheduleActivity: 'level 2' }), linkActs, 1).length === 1)
+assert('SCH-15h: long-lead and blocking items need links', needsScheduleLink(sub({ lifecycleLeadTimeDays: 56 })) && needsScheduleLink(sub({ blocksWork: true })))
+assert('SCH-15i: plain items do not', needsScheduleLink(sub()) === false)
+assert('SCH-15j: superseded items do not', needsScheduleLink(sub({ lifecycleLeadTimeDays: 56, reviewStatus: 'superseded' })) === false)
+
+// ---------------------------------------------------------------------------
+section('SCH-16: submittal schedule risk')
+
+const link = (activityId) => ({ activityId, activityName: 'x', scheduleVersionId: 'v', matchMethod: 'manual', matchScore: null, confirmedAt: '2024-01-01T00:00:00Z' })
+const cw = act('A1000', '2024-06-03', '2024-06-14', { lateStart: '2024-06-17' })
+const today = { today: '2024-04-01' }
+
+const draft = computeSubmittalScheduleRisk(sub({ lifecycleLeadTimeDays: 56, scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16a: draft submits today, approves after review turnaround', draft.projectedSubmitDate === '2024-04-01' && draft.projectedApprovalDate === '2024-04-15')
+assert('SCH-16b: ready = approval + lead time', draft.projectedReadyDate === '2024-06-10' && draft.needByDate === '2024-06-03' && draft.needBySource === 'activity')
+assert('SCH-16c: ready after early start but before late start is at_risk', draft.level === 'at_risk' && draft.daysLate === 7)
+const lateRisk = computeSubmittalScheduleRisk(sub({ lifecycleLeadTimeDays: 70, scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16d: ready after late start is late', lateRisk.level === 'late' && lateRisk.projectedReadyDate === '2024-06-24')
+const onTrack = computeSubmittalScheduleRisk(sub({ lifecycleLeadTimeDays: 28, scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16e: ready before start is on_track', onTrack.level === 'on_track' && onTrack.daysLate < 0)
+const overdueReview = computeSubmittalScheduleRisk(
+  sub({ lifecycleStatus: 'submitted', lifecycleSubmittedAt: '2024-03-01T10:00:00Z', scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16f: overdue review projects approval no earlier than today', overdueReview.projectedApprovalDate === '2024-04-01')
+const approved = computeSubmittalScheduleRisk(
+  sub({ lifecycleStatus: 'approved', lifecycleApprovedAt: '2024-03-20', lifecycleLeadTimeDays: 30, scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16g: approved uses the actual approval date', approved.projectedApprovalDate === '2024-03-20' && approved.projectedReadyDate === '2024-04-19')
+const plannedDue = computeSubmittalScheduleRisk(sub({ lifecycleDueDate: '2024-05-01', scheduleActivityLink: link('A1000') }), cw, { ...today, reviewTurnaroundDays: 10 })
+assert('SCH-16h: future due date is the planned submit; turnaround override applies', plannedDue.projectedSubmitDate === '2024-05-01' && plannedDue.projectedApprovalDate === '2024-05-11')
+const closed = computeSubmittalScheduleRisk(sub({ lifecycleStatus: 'closed', scheduleActivityLink: link('A1000') }), cw, today)
+assert('SCH-16i: closed items are complete', closed.level === 'complete')
+const missing = computeSubmittalScheduleRisk(sub({ activityNeedByDate: '2024-04-10', scheduleActivityLink: link('GONE') }), null, today)
+assert('SCH-16j: dropped activity falls back to the item need-by date', missing.linkStatus === 'missing_activity' && missing.needBySource === 'item' && missing.level === 'late')
+const unscheduled = computeSubmittalScheduleRisk(sub(), null, today)
+assert('SCH-16k: no need-by date is unscheduled', unscheduled.level === 'unscheduled' && unscheduled.linkStatus === 'unlinked' && unscheduled.projectedReadyDate === '2024-04-15')
+const started = computeSubmittalScheduleRisk(
+  sub({ scheduleActivityLink: link('A1000') }), act('A1000', '2024-06-03', null, { actualStart: '2024-03-25' }), today)
+assert('SCH-16l: started activity needs it by its actual start', started.needByDate === '2024-03-25' && started.level === 'late')
+
+const riskSummary = summarizeSubmittalScheduleRisk([draft, lateRisk, onTrack, closed, missing, unscheduled])
+assert('SCH-16m: summary counts', riskSummary.late === 2 && riskSummary.atRisk === 1 && riskSummary.onTrack === 1
+  && riskSummary.complete === 1 && riskSummary.unscheduled === 1 && riskSummary.linked === 4 && riskSummary.missingActivity === 1)
+assert('SCH-16n: working days between skip weekends, signed', workingDaysBetween('2024-06-03', '2024-06-10') === 5 && workingDaysBetween('2024-06-10', '2024-06-03') === -5)
+
+// ---------------------------------------------------------------------------
+section('SCH-17: schedule activity query')
+
+const qSnap = {
+  version: { ...version('v3', 3), dataDate: '2024-04-01', sourceFileName: 'update-03.xer' },
+  activities: [
+    act('A1000', '2024-06-03', '2024-06-14', { name: 'Install Curtain Wall Level 2', wbsCode: '1.3.2', wbsName: 'Envelope', critical: true, responsibleParty: 'Acme Glazing', float: 0 }),
+    act('A1010', '2024-07-01', '2024-07-12', { name: 'Set Rooftop Units', wbsCode: '1.4', wbsName: 'Mechanical', responsibleParty: 'ABC Mechanical', float: 12 }),
+    act('A1020', '2024-05-06', '2024-05-10', { name: 'Pour Level 2 Slab', wbsCode: '1.2', wbsName: 'Structure', critical: true, actualStart: '2024-03-28', status: 'in_progress', percent: 40 }),
+    act('A1030', null, null, { name: 'Paint Corridors', wbsCode: '1.5' }),
+  ],
+  ties: [tie('A1020', 'A1000'), tie('A1000', 'A1010', 'SS', 5)],
+}
+const ids = (list) => list.map(a => a.activityId).join()
+
+assert('SCH-17a: name words match in any order', ids(filterScheduleActivities(qSnap.activities, { text: 'level 2 curtain' })) === 'A1000')
+assert('SCH-17b: activity code matches', ids(filterScheduleActivities(qSnap.activities, { text: 'a1010' })) === 'A1010')
+assert('SCH-17c: WBS code prefix and name', ids(filterScheduleActivities(qSnap.activities, { wbs: '1.3' })) === 'A1000'
+  && ids(filterScheduleActivities(qSnap.activities, { wbs: 'mechan' })) === 'A1010')
+assert('SCH-17d: date window overlaps, undated excluded', ids(filterScheduleActivities(qSnap.activities, { from: '2024-06-10', to: '2024-07-01' })) === 'A1000,A1010')
+assert('SCH-17e: window uses actual start', ids(filterScheduleActivities(qSnap.activities, { to: '2024-03-31' })) === 'A1020')
+assert('SCH-17f: critical only, sorted by start', ids(filterScheduleActivities(qSnap.activities, { criticalOnly: true })) === 'A1020,A1000')
+assert('SCH-17g: responsible party and status', ids(filterScheduleActivities(qSnap.activities, { responsibleParty: 'abc' })) === 'A1010'
+  && ids(filterScheduleActivities(qSnap.activities, { status: 'in_progress' })) === 'A1020')
+
+const linkedCw = sub({ specSection: '08 44 13', submittalItem: 'Curtain wall shop drawings', lifecycleLeadTimeDays: 70, scheduleActivityLink: link('A1000'), persistedItemId: 'item-1' })
+const qr = queryScheduleSnapshot(qSnap, { text: 'curtain wall' }, [linkedCw, sub()], '2024-04-01')
+const hit = qr.hits[0]
+assert('SCH-17h: predecessors and successors with tie type/lag', hit.predecessors.map(p => `${p.activityId}:${p.type}`).join() === 'A1020:FS'
+  && hit.successors[0]?.activityId === 'A1010' && hit.successors[0].type === 'SS' && hit.successors[0].lagDays === 5)
+assert('SCH-17i: confirmed submittal links carry risk', hit.linkedSubmittals.length === 1 && hit.linkedSubmittals[0].itemId === 'item-1'
+  && hit.linkedSubmittals[0].riskLevel === 'late')
+assert('SCH-17j: limit caps hits but not the match count', (() => {
+  const capped = queryScheduleSnapshot(qSnap, { limit: 2 })
+  return capped.totalMatches === 4 && capped.hits.length === 2
+})())
+const answer = formatScheduleActivityAnswer(qr)
+assert('SCH-17k: answer cites the schedule version', answer.includes('schedule v3, data date 2024-04-01, update-03.xer'))
+assert('SCH-17l: answer lists logic and submittal', answer.includes('Predecessors: A1020 Pour Level 2 Slab (FS)') && answer.includes('Successors: A1010 Set Rooftop Units (SS +5d)')
+  && answer.includes('Submittal: 08 44 13 Curtain wall shop drawings'))
+assert('SCH-17m: empty result says so', formatScheduleActivityAnswer(queryScheduleSnapshot(qSnap, { text: 'elevator' })).includes('No activities matched'))
+
+// ---------------------------------------------------------------------------
+section('SCH-18: look-ahead generator')
+
+assert('SCH-18a: Friday build starts next Monday', JSON.stringify(lookaheadWindow('2024-03-08', 3)) === JSON.stringify({ start: '2024-03-11', end: '2024-03-31', weeks: 3 }))
+assert('SCH-18b: Wednesday build starts this Monday; Sunday rolls forward', lookaheadWindow('2024-03-13', 6).start === '2024-03-11'
+  && lookaheadWindow('2024-03-13', 6).end === '2024-04-21' && lookaheadWindow('2024-03-10', 3).start === '2024-03-11')
+
+const laSnap = {
+  version: { ...version('v4', 4), dataDate: '2024-03-08' },
+  activities: [
+    act('L100', '2024-03-04', '2024-03-15', { name: 'Form and Pour Footings', actualStart: '2024-03-04', status: 'in_progress', percent: 50 }),
+    act('L110', '2024-03-18', '2024-03-29', { name: 'Install Curtain Wall Level 2', critical: true }),
+    act('L120', '2024-03-25', '2024-04-05', { name: 'Set Rooftop Units', wbsName: 'Mechanical' }),
+    act('L130', '2024-04-22', '2024-05-03', { name: 'Paint Corridors' }),
+    act('L140', '2024-03-11', '2024-03-12', { name: 'Survey Layout', status: 'complete', actualStart: '2024-03-11', actualFinish: '2024-03-12' }),
+    act('L150', '2024-03-20', '2024-03-22', { name: 'Frame Interior Partitions' }),
+  ],
+  ties: [],
+}
+const fow = (id, displayName, specSections) => ({
+  id, projectId: 'p', canonicalName: displayName.toLowerCase(), displayName, discipline: 'general',
+  status: 'active', sequence: 0, specSections, trade: null, subcontractor: null,
+})
+const rfi = (id, label, displayName, status = 'new', references = []) => ({
+  id, entityType: 'rfi', subtype: null, canonicalName: displayName, displayName, label, status,
+  confidence: 0.9, dateIssued: '2024-03-01', dateAnswered: null, sheetNumber: null, findings: [], references,
+})
+const la = buildLookahead({
+  snapshot: laSnap,
+  asOf: '2024-03-08',
+  weeks: 3,
+  submittals: [
+    sub({ persistedItemId: 's1', specSection: '08 44 13', submittalItem: 'Curtain wall shop drawings', lifecycleLeadTimeDays: 60, scheduleActivityLink: link('L110') }),
+    sub({ persistedItemId: 's2', specSection: '08 44 13', submittalItem: 'Glass samples', lifecycleStatus: 'approved' }),
+    sub({ persistedItemId: 's3', specSection: '23 74 13', submittalItem: 'RTU product data', lifecycleStatus: 'revise_resubmit' }),
+    sub({ persistedItemId: 's4', specSection: '03 30 00', submittalItem: 'Concrete mix design', lifecycleStatus: 'approved' }),
+  ],
+  rfis: [
+    rfi('r1', 'RFI-012', 'Curtain wall anchor embed conflict', 'new', [{ refType: 'spec_section', ref: '084413', entityId: null }]),
+    rfi('r2', 'RFI-013', 'Rooftop units curb height', 'new'),
+    rfi('r3', 'RFI-009', 'Footing rebar lap length', 'existing'),
+  ],
+  fows: [fow('f1', 'Curtain Wall', ['08 44 13']), fow('f2', 'Mechanical', ['23 74 13']), fow('f3', 'Concrete', ['03 30 00'])],
+})
+const laById = Object.fromEntries(la.activities.map(a => [a.activity.activityId, a]))
+
+assert('SCH-18c: window selection drops complete and out-of-window activities', la.activities.map(a => a.activity.activityId).join() === 'L100,L110,L150,L120')
+assert('SCH-18d: start week, 0 for already running', laById.L100.startWeek === 0 && laById.L110.startWeek === 2 && laById.L120.startWeek === 3)
+assert('SCH-18e: linked submittal attached via schedule link, approved one dropped', laById.L110.openSubmittals.map(s => `${s.itemId}:${s.via}`).join() === 's1:schedule_link')
+assert('SCH-18f: FOW tied via linked submittal spec section', laById.L110.features.map(f => `${f.name}:${f.readinessPercent}`).join() === 'Curtain Wall:50')
+assert('SCH-18g: RFI by spec section reference', laById.L110.openRfis.map(r => `${r.label}:${r.via}`).join() === 'RFI-012:spec_section')
+assert('SCH-18h: late linked submittal blocks the activity', laById.L110.readiness === 'blocked')
+assert('SCH-18i: FOW by WBS name; rejected submittal blocks; RFI by shared name words', laById.L120.features[0]?.fowId === 'f2'
+  && laById.L120.openSubmittals[0]?.via === 'fow' && laById.L120.readiness === 'blocked' && laById.L120.openRfis[0]?.label === 'RFI-013')
+assert('SCH-18j: answered RFIs ignored; nothing open is ready', laById.L100.openRfis.length === 0 && laById.L150.readiness === 'ready')
+assert('SCH-18k: summary counts distinct open items', la.summary.activityCount === 4 && la.summary.blocked === 2 && la.summary.ready === 2
+  && la.summary.openSubmittalCount === 2 && la.summary.openRfiCount === 2)
+assert('SCH-18l: bar span clipped to the window', JSON.stringify(lookaheadSpan(la.window, laSnap.activities[0])) === JSON.stringify({ offset: 0, length: 5 })
+  && JSON.stringify(lookaheadSpan(la.window, laSnap.activities[2])) === JSON.stringify({ offset: 14, length: 7 }))
+
+const laRows = buildLookaheadExportRows(la)
+assert('SCH-18m: export row per activity', laRows.length === 4 && laRows[0]['Week'] === 'In progress' && laRows[1]['Activity ID'] === 'L110'
+  && laRows[1]['Readiness'] === 'Blocked' && laRows[1]['Open RFIs'] === 'RFI-012 Curtain wall anchor embed conflict')
+assert('SCH-18n: export title names window and version', lookaheadExportTitle(la) === '3-Week Look-ahead 2024-03-11 – 2024-03-31 (schedule v4, data date 2024-03-08)')
+
+const laSuperseded = buildLookahead({
+  snapshot: laSnap,
+  asOf: '2024-03-08',
+  weeks: 3,
+  submittals: [
+    sub({ persistedItemId: 's1', specSection: '08 44 13', submittalItem: 'Curtain wall shop drawings', lifecycleLeadTimeDays: 60, scheduleActivityLink: link('L110'), reviewStatus: 'superseded' }),
+    sub({ persistedItemId: 's3', specSection: '23 74 13', submittalItem: 'RTU product data', lifecycleStatus: 'revise_resubmit', reviewStatus: 'superseded' }),
+  ],
+  fows: [fow('f2', 'Mechanical', ['23 74 13'])],
+})
+const laSupById = Object.fromEntries(laSuperseded.activities.map(a => [a.activity.activityId, a]))
+assert('SCH-18o: superseded submittals are not open items', laSuperseded.summary.openSubmittalCount === 0
+  && laSupById.L110.openSubmittals.length === 0 && laSupById.L120.openSubmittals.length === 0 && laSupById.L120.readiness === 'ready')
+
+// ---------------------------------------------------------------------------
+console.log('\n──────────────────────────────────────────────────')
+console.log(`schedule:harness: ${passed} passed, ${failed} failed`)
+process.exit(failed === 0 ? 0 : 1)
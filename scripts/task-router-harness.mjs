@@ -65,6 +65,10 @@ const examples = [
     input: 'Can we pour this wall on Friday?',
     expected: ['field_question', 'schedule_question'],
   },
+  {
+    input: 'What is blocking the slab pour?',
+    expected: ['schedule_question'],
+  },
   {
     input: 'What sheet shows the storm drain crossing?',
     expected: ['plan_lookup'],
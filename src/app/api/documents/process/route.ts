@@ -24,6 +24,8 @@ import { createDocumentChunks } from '@/lib/embeddings/vector-search'
 import { getDocumentSignedUrl } from '@/lib/db/queries/documents'
 import { triggerVisionWithInngest, shouldAutoProcessVision } from '@/lib/vision/auto-process'
 import { inngest } from '@/inngest/client'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { conformDocumentRevision } from '@/lib/documents/conformed-set-persistence'
 
 export async function POST(request: NextRequest) {
   try {
@@ -111,6 +113,18 @@ export async function POST(request: NextRequest) {
 
       console.log(`Document ${documentId} processed successfully`)
 
+      // Step 5b: Spec sections are never vision-indexed, so a spec revision is
+      // conformed here, from its chunks. Sheet revisions conform when vision
+      // finishes. Non-fatal — failures land on documents.conform_error.
+      if (document.revision_target_type === 'spec_section') {
+        try {
+          const outcome = await conformDocumentRevision(createServiceRoleClient(), documentId)
+          console.log(`[Document Process] Revision conform for ${documentId}: ${outcome.status}`)
+        } catch (conformError) {
+          console.error('[Document Process] Revision conform failed:', conformError)
+        }
+      }
+
       // Step 6: Trigger embedding generation via Inngest (non-blocking, durable)
       // Runs outside the Vercel request lifecycle — no 300s deadline, no large
       // single-payload inserts. Deduplicated by documentId so re-uploads only
@@ -14,6 +14,7 @@ import { visionProcessDocument } from '@/inngest/functions/vision-process-docume
 import { visionStuckRecovery } from '@/inngest/functions/vision-stuck-recovery'
 import { specExtractDocument } from '@/inngest/functions/spec-extract-document'
 import { embedDocumentChunks } from '@/inngest/functions/embed-document-chunks'
+import { sheetDiffDocument } from '@/inngest/functions/sheet-diff-document'
 
 // Allow each step invocation up to 5 minutes — vision processing (PDF render +
 // Claude API) for a page-range chunk can take 2-3 minutes on a large document.
@@ -27,5 +28,6 @@ export const { GET, POST, PUT } = serve({
     visionStuckRecovery,
     specExtractDocument,
     embedDocumentChunks,
+    sheetDiffDocument,
   ],
 })
@@ -0,0 +1,158 @@
+/**
+ * PATCH /api/projects/[id]/change-events/[changeEventId]
+ *   Body: { title?, scopeDescription?, referencedSheets?, specSections?,
+ *           romItems?, scheduleImpactDays?, approvedAmount?, status?, note? }
+ *   Edits the change event and/or moves it to a new status
+ *   (buildChangeEventTransition in
+ *   src/lib/change-events/change-event-workflow.ts). romItems replace the
+ *   ROM estimate and are re-priced from ROM_UNIT_COSTS. Submitting needs a
+ *   scope and a ROM estimate and numbers the event as a COR the first time;
+ *   executing needs approvedAmount — in the body or already on the event —
+ *   and numbers it as a CO. Each transition is appended to status_history.
+ *   Executed and void events are read-only (409).
+ *   Returns { changeEvent }.
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { Database, Json } from '@/lib/db/supabase/types'
+import { CHANGE_EVENT_COLUMNS, updateChangeEvent } from '@/lib/change-events/change-event-persistence'
+import {
+  buildChangeEventTransition,
+  CHANGE_EVENT_STATUSES,
+  isChangeEventLocked,
+  isChangeEventStatus,
+  priceRomLineInputs,
+  rowToChangeEvent,
+  summarizeRom,
+  type ChangeEventRow,
+} from '@/lib/change-events/change-event-workflow'
+
+type ChangeEventUpdate = Database['public']['Tables']['change_events']['Update']
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+function cleanList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean))]
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; changeEventId: string } }
+) {
+  const { id: projectId, changeEventId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    title?: string
+    scopeDescription?: string
+    referencedSheets?: unknown
+    specSections?: unknown
+    romItems?: unknown
+    scheduleImpactDays?: number | null
+    approvedAmount?: number | null
+    status?: string
+    note?: string
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.status !== undefined && !isChangeEventStatus(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${CHANGE_EVENT_STATUSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.scheduleImpactDays !== undefined && body.scheduleImpactDays !== null &&
+    !(Number.isInteger(body.scheduleImpactDays) && body.scheduleImpactDays >= 0)) {
+    return NextResponse.json({ error: 'scheduleImpactDays must be a whole number of days' }, { status: 400 })
+  }
+  if (body.approvedAmount !== undefined && body.approvedAmount !== null && !Number.isFinite(body.approvedAmount)) {
+    return NextResponse.json({ error: 'approvedAmount must be a number' }, { status: 400 })
+  }
+
+  const updateRow: ChangeEventUpdate = { updated_at: new Date().toISOString() }
+  if (typeof body.title === 'string' && body.title.trim()) updateRow.title = body.title.trim()
+  if (typeof body.scopeDescription === 'string') updateRow.scope_description = body.scopeDescription.trim()
+  if ('referencedSheets' in body) updateRow.referenced_sheets = cleanList(body.referencedSheets)
+  if ('specSections' in body) updateRow.spec_sections = cleanList(body.specSections)
+  if ('scheduleImpactDays' in body) updateRow.schedule_impact_days = body.scheduleImpactDays ?? null
+  if ('approvedAmount' in body) updateRow.approved_amount = body.approvedAmount ?? null
+  if (body.romItems !== undefined) {
+    const priced = priceRomLineInputs(body.romItems)
+    if ('error' in priced) return NextResponse.json({ error: priced.error }, { status: 400 })
+    const rom = summarizeRom(priced.items)
+    updateRow.rom_items = priced.items as unknown as Json
+    updateRow.rom_low = rom?.low ?? null
+    updateRow.rom_high = rom?.high ?? null
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ChangeEventRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: currentRow, error: fetchErr } = await svc
+    .from('change_events')
+    .select(CHANGE_EVENT_COLUMNS)
+    .eq('id', changeEventId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!currentRow) return NextResponse.json({ error: 'Change event not found' }, { status: 404 })
+  const current = rowToChangeEvent(currentRow as unknown as ChangeEventRow)
+
+  if (isChangeEventLocked(current)) {
+    return NextResponse.json({ error: 'Executed and void change events cannot be edited' }, { status: 409 })
+  }
+
+  let allocate: 'cor' | 'co' | null = null
+  if (body.status !== undefined && body.status !== current.status) {
+    // Checked against the event as it will be after this edit.
+    const transition = buildChangeEventTransition(
+      {
+        status: current.status,
+        stage: current.stage,
+        corNumber: current.corNumber,
+        scopeDescription: updateRow.scope_description ?? current.scopeDescription,
+        romLow: updateRow.rom_items !== undefined ? updateRow.rom_low ?? null : current.romLow,
+        approvedAmount: current.approvedAmount,
+      },
+      body.status,
+      { approvedAmount: body.approvedAmount, by: auth.user.id, note: body.note }
+    )
+    if (!transition.ok) return NextResponse.json({ error: transition.error }, { status: 409 })
+    updateRow.status = transition.entry.toStatus
+    updateRow.stage = transition.stage
+    updateRow.status_history = [...current.statusHistory, transition.entry] as unknown as Json
+    const { fields } = transition
+    if (fields.approvedAmount !== undefined) updateRow.approved_amount = fields.approvedAmount
+    if (fields.submittedAt !== undefined) updateRow.submitted_at = fields.submittedAt
+    if (fields.executedAt !== undefined) updateRow.executed_at = fields.executedAt
+    allocate = transition.allocate
+  }
+
+  const result = await updateChangeEvent(svc, projectId, changeEventId, current.status, updateRow, allocate)
+  if (result.status === 'error') {
+    console.error('[ChangeEventRoute] Update failed:', result.error)
+    return NextResponse.json({ error: result.error }, { status: 500 })
+  }
+  if (result.status === 'conflict') {
+    return NextResponse.json({ error: 'Change event status changed since it was loaded; refresh and retry' }, { status: 409 })
+  }
+
+  return NextResponse.json({ changeEvent: result.changeEvent })
+}
@@ -0,0 +1,182 @@
+/**
+ * GET  /api/projects/[id]/change-events
+ *   The project's change event log, in PCO number order
+ *   (src/lib/change-events/change-event-workflow.ts). Returns { changeEvents }.
+ *
+ * POST /api/projects/[id]/change-events
+ *   Body: { sourceType: 'rfi' | 'rfi_entity' | 'addendum' | 'manual',
+ *           sourceId?, title?, scopeDescription?, referencedSheets?,
+ *           specSections?, romItems?, scheduleImpactDays? }
+ *   Creates a PCO under the project's next number (PCO-001, PCO-002, …).
+ *   With a source, the title, scope, references and ROM estimate are seeded
+ *   from the RFI, change-document entity or addendum; fields in the body
+ *   override the seed. romItems are [{ costKey, quantity, description? }],
+ *   priced from ROM_UNIT_COSTS. Manual events need title and
+ *   scopeDescription.
+ *   Returns { changeEvent, unmatchedQuantities } — quantities found on the
+ *   source that no ROM cost item covers, for pricing by hand.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { Json } from '@/lib/db/supabase/types'
+import {
+  insertNumberedChangeEvent,
+  loadChangeEvents,
+  loadChangeEventSeed,
+  type ChangeEventSeed,
+} from '@/lib/change-events/change-event-persistence'
+import {
+  CHANGE_EVENT_SOURCE_TYPES,
+  isChangeEventSourceType,
+  priceRomLineInputs,
+  summarizeRom,
+  type ChangeEventStatusHistoryEntry,
+  type RomLineItem,
+} from '@/lib/change-events/change-event-workflow'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+function cleanList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean))]
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ChangeEventRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { changeEvents, error } = await loadChangeEvents(svc, projectId)
+  if (error) {
+    console.error('[ChangeEventRoute] Change event load failed:', error)
+    return NextResponse.json({ error: 'Failed to load change events' }, { status: 500 })
+  }
+
+  return NextResponse.json({ changeEvents })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    sourceType?: string
+    sourceId?: string | null
+    title?: string
+    scopeDescription?: string
+    referencedSheets?: unknown
+    specSections?: unknown
+    romItems?: unknown
+    scheduleImpactDays?: number | null
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (!isChangeEventSourceType(body.sourceType)) {
+    return NextResponse.json({ error: `sourceType must be one of: ${CHANGE_EVENT_SOURCE_TYPES.join(', ')}` }, { status: 400 })
+  }
+  const sourceType = body.sourceType
+  const sourceId = typeof body.sourceId === 'string' ? body.sourceId.trim() : ''
+  if (sourceType !== 'manual' && !sourceId) {
+    return NextResponse.json({ error: 'sourceId is required unless sourceType is manual' }, { status: 400 })
+  }
+  if (body.scheduleImpactDays !== undefined && body.scheduleImpactDays !== null &&
+    !(Number.isInteger(body.scheduleImpactDays) && body.scheduleImpactDays >= 0)) {
+    return NextResponse.json({ error: 'scheduleImpactDays must be a whole number of days' }, { status: 400 })
+  }
+
+  let romItems: RomLineItem[] | null = null
+  if (body.romItems !== undefined) {
+    const priced = priceRomLineInputs(body.romItems)
+    if ('error' in priced) return NextResponse.json({ error: priced.error }, { status: 400 })
+    romItems = priced.items
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ChangeEventRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  let seed: ChangeEventSeed | null = null
+  if (sourceType !== 'manual') {
+    const seeded = await loadChangeEventSeed(svc, projectId, sourceType, sourceId)
+    if (seeded.status === 'not_found') {
+      return NextResponse.json({ error: 'Source not found in this project' }, { status: 404 })
+    }
+    if (seeded.status === 'error') {
+      console.error('[ChangeEventRoute] Seed failed:', seeded.error)
+      return NextResponse.json({ error: 'Failed to read the change event source' }, { status: 500 })
+    }
+    seed = seeded.seed
+  }
+
+  const title = (typeof body.title === 'string' && body.title.trim()) || seed?.draft.title || ''
+  const scopeDescription =
+    (typeof body.scopeDescription === 'string' && body.scopeDescription.trim()) || seed?.draft.scopeDescription || ''
+  if (!title || !scopeDescription) {
+    return NextResponse.json({ error: 'title and scopeDescription are required' }, { status: 400 })
+  }
+
+  const items = romItems ?? seed?.rom.items ?? []
+  const rom = summarizeRom(items)
+  const now = new Date().toISOString()
+  const history: ChangeEventStatusHistoryEntry[] = [{ fromStatus: null, toStatus: 'open', changedAt: now, changedBy: auth.user.id }]
+
+  const { changeEvent, error } = await insertNumberedChangeEvent(svc, projectId, {
+    title,
+    scope_description: scopeDescription,
+    source_type: sourceType,
+    source_id: sourceType === 'manual' ? null : sourceId,
+    source_label: seed?.draft.sourceLabel ?? null,
+    referenced_sheets: 'referencedSheets' in body ? cleanList(body.referencedSheets) : seed?.draft.referencedSheets ?? [],
+    spec_sections: 'specSections' in body ? cleanList(body.specSections) : seed?.draft.specSections ?? [],
+    rom_items: items as unknown as Json,
+    rom_low: rom?.low ?? null,
+    rom_high: rom?.high ?? null,
+    schedule_impact_days: body.scheduleImpactDays ?? null,
+    stage: 'pco',
+    status: 'open',
+    status_history: history as unknown as Json,
+    created_by: auth.user.id,
+  })
+
+  if (error || !changeEvent) {
+    console.error('[ChangeEventRoute] Insert failed:', error)
+    return NextResponse.json({ error: error ?? 'Failed to create change event' }, { status: 500 })
+  }
+
+  return NextResponse.json(
+    { changeEvent, unmatchedQuantities: romItems ? [] : seed?.rom.unmatched ?? [] },
+    { status: 201 }
+  )
+}
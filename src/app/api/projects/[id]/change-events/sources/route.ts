@@ -0,0 +1,44 @@
+/**
+ * GET /api/projects/[id]/change-events/sources
+ *   What a change event can be raised from: issued RFIs, RFI / ASI / addendum
+ *   entities extracted from change documents, and uploaded addenda
+ *   (src/lib/change-events/change-event-persistence.ts).
+ *   Returns { sources: [{ sourceType, id, label, description }] }.
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { listChangeEventSources } from '@/lib/change-events/change-event-persistence'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ChangeEventSourcesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { sources, error } = await listChangeEventSources(svc, projectId)
+  if (error) {
+    console.error('[ChangeEventSourcesRoute] Source load failed:', error)
+    return NextResponse.json({ error: 'Failed to load change event sources' }, { status: 500 })
+  }
+
+  return NextResponse.json({ sources })
+}
@@ -0,0 +1,162 @@
+/**
+ * POST /api/projects/[id]/documents/[documentId]/revision
+ *
+ * Mark an uploaded document as a revision of an earlier sheet or spec section
+ * and conform it into the project's current set. Body:
+ *   { revision: '3', target_type: 'sheet' | 'spec_section', target_ref: 'C-101' }
+ *
+ * The document's pages supersede the current pages for that sheet or section
+ * (src/lib/documents/conformed-set.ts). Re-posting is safe — a conformed
+ * revision is already current, so it conforms again to the same state.
+ * A conformed sheet revision queues the visual sheet diff.
+ *
+ * Responses:
+ *   200  conformed — { conform: { revision, revisionSequence, pageIds, supersededPageIds } }
+ *   202  pages not indexed yet — conform runs when processing finishes
+ *   409  revision label is not newer than the current revision
+ *   422  no pages in the document match the sheet or section
+ *
+ * Auth: any project member.
+ * Write path: service-role (document_pages has no member UPDATE policy).
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { inngest } from '@/inngest/client'
+import { conformDocumentRevision } from '@/lib/documents/conformed-set-persistence'
+import { isRevisionTargetType } from '@/lib/documents/conformed-set'
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  const projectId = params.id
+  const documentId = params.documentId
+
+  // ── Auth ─────────────────────────────────────────────────────────────────
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  // ── Body validation ──────────────────────────────────────────────────────
+  let body: { revision?: unknown; target_type?: unknown; target_ref?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const revision = typeof body.revision === 'string' ? body.revision.trim() : ''
+  const targetRef = typeof body.target_ref === 'string' ? body.target_ref.trim() : ''
+  if (!revision) {
+    return NextResponse.json({ error: 'revision is required' }, { status: 400 })
+  }
+  if (!isRevisionTargetType(body.target_type)) {
+    return NextResponse.json(
+      { error: "target_type must be 'sheet' or 'spec_section'" },
+      { status: 400 }
+    )
+  }
+  if (!targetRef) {
+    return NextResponse.json({ error: 'target_ref is required' }, { status: 400 })
+  }
+
+  // ── Document validation ──────────────────────────────────────────────────
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('id, project_id')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (docError) {
+    console.error('[DocumentRevision] Document lookup error:', docError)
+    return NextResponse.json(
+      { error: 'Failed to look up document' },
+      { status: 500 }
+    )
+  }
+  if (!doc) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+  }
+  if (doc.project_id !== projectId) {
+    return NextResponse.json(
+      { error: 'Document does not belong to this project' },
+      { status: 403 }
+    )
+  }
+
+  // ── Record the revision and conform ──────────────────────────────────────
+  let svc
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[DocumentRevision] Service role client unavailable:', err)
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  const { error: updateError } = await svc
+    .from('documents')
+    .update({
+      revision,
+      revision_target_type: body.target_type,
+      revision_target_ref: targetRef,
+      conform_error: null,
+    })
+    .eq('id', documentId)
+
+  if (updateError) {
+    console.error('[DocumentRevision] Document update error:', updateError)
+    return NextResponse.json({ error: 'Failed to record revision' }, { status: 500 })
+  }
+
+  const outcome = await conformDocumentRevision(svc, documentId)
+  switch (outcome.status) {
+    case 'conformed':
+      if (body.target_type === 'sheet') {
+        await inngest.send({
+          name: 'document/sheet-diff.requested',
+          data: { documentId, projectId, trigger: 'revision-endpoint' },
+        })
+      }
+      return NextResponse.json({
+        success: true,
+        documentId,
+        conform: {
+          revision: outcome.revision,
+          revisionSequence: outcome.revisionSequence,
+          pageIds: outcome.pageIds,
+          supersededPageIds: outcome.supersededPageIds,
+        },
+      })
+    case 'pending':
+      return NextResponse.json(
+        { success: true, accepted: true, documentId, conform: null },
+        { status: 202 }
+      )
+    case 'not_newer':
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    case 'no_pages':
+      return NextResponse.json({ error: outcome.error }, { status: 422 })
+    case 'error':
+      console.error('[DocumentRevision] Conform failed:', outcome.error)
+      return NextResponse.json({ error: 'Failed to conform revision' }, { status: 500 })
+    default:
+      return NextResponse.json({ error: 'Document is not marked as a revision' }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * GET  /api/projects/[id]/documents/[documentId]/sheet-diff
+ * POST /api/projects/[id]/documents/[documentId]/sheet-diff
+ *
+ * Visual diff of a sheet revision against the pages it superseded
+ * (src/lib/documents/sheet-diff-persistence.ts).
+ *
+ * GET returns { diffs: [{ ...StoredSheetDiff, overlayUrl }] } — one per
+ * revision page, overlayUrl a short-lived signed URL for the red / green
+ * overlay (null when there is none).
+ *
+ * POST re-queues the diff (document/sheet-diff.requested), e.g. after a
+ * failed run. The document must be a conformed sheet revision.
+ *
+ * Auth: any project member.
+ * Read path: user client (sheet_revision_diffs member SELECT policy).
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { inngest } from '@/inngest/client'
+import { loadSheetDiffs } from '@/lib/documents/sheet-diff-persistence'
+
+// Signed overlay URLs live long enough to view and download the image.
+const OVERLAY_URL_TTL_SECONDS = 3600
+
+async function authorize(projectId: string, documentId: string) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('id, project_id, revision_target_type, conformed_at')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (docError) {
+    console.error('[SheetDiffRoute] Document lookup error:', docError)
+    return { error: NextResponse.json({ error: 'Failed to look up document' }, { status: 500 }) }
+  }
+  if (!doc) {
+    return { error: NextResponse.json({ error: 'Document not found' }, { status: 404 }) }
+  }
+  if (doc.project_id !== projectId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Document does not belong to this project' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { supabase, doc }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  const auth = await authorize(params.id, params.documentId)
+  if ('error' in auth) return auth.error
+  const { supabase } = auth
+
+  const { diffs, error } = await loadSheetDiffs(supabase, params.documentId)
+  if (error) {
+    console.error('[SheetDiffRoute] Load error:', error)
+    return NextResponse.json({ error: 'Failed to load sheet diffs' }, { status: 500 })
+  }
+
+  const withUrls = await Promise.all(
+    diffs.map(async d => {
+      if (!d.overlayPath) return { ...d, overlayUrl: null }
+      const { data } = await supabase.storage
+        .from('documents')
+        .createSignedUrl(d.overlayPath, OVERLAY_URL_TTL_SECONDS)
+      return { ...d, overlayUrl: data?.signedUrl ?? null }
+    })
+  )
+
+  return NextResponse.json({ success: true, diffs: withUrls })
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  const auth = await authorize(params.id, params.documentId)
+  if ('error' in auth) return auth.error
+  const { doc } = auth
+
+  if (doc.revision_target_type !== 'sheet') {
+    return NextResponse.json(
+      { error: 'Visual diffs are only available for sheet revisions.' },
+      { status: 400 }
+    )
+  }
+  if (!doc.conformed_at) {
+    return NextResponse.json(
+      { error: 'The revision has not been conformed yet. Wait for sheet indexing to finish.' },
+      { status: 409 }
+    )
+  }
+
+  try {
+    const eventResult = await inngest.send({
+      name: 'document/sheet-diff.requested',
+      data: { documentId: params.documentId, projectId: params.id, trigger: 'manual-sheet-diff-endpoint' },
+    })
+    return NextResponse.json({ success: true, accepted: true, eventId: eventResult.ids[0] ?? null })
+  } catch (err) {
+    console.error('[SheetDiffRoute] Failed to queue sheet diff:', err)
+    return NextResponse.json({ error: 'Failed to queue sheet diff' }, { status: 500 })
+  }
+}
@@ -4,7 +4,8 @@
  *   Updates a FOW entity. Re-normalizes canonical_name if name changes.
  *
  * DELETE /api/projects/[id]/features-of-work/[fowId]
- *   Deletes the FOW entity. Does not touch submittals (relation is derived).
+ *   Deletes the FOW entity. Its fow_submittal_links rows cascade; submittals
+ *   themselves are untouched.
  */
 
 import { NextResponse } from 'next/server'
@@ -0,0 +1,98 @@
+/**
+ * POST   /api/projects/[id]/features-of-work/[fowId]/submittals
+ *   Body: { dedupeKey }
+ *   Links a register item to the FOW by hand (source 'user'). Re-activates a
+ *   previously removed link.
+ *
+ * DELETE /api/projects/[id]/features-of-work/[fowId]/submittals?dedupe_key=
+ *   Removes the link. The row is kept with status 'removed' so spec-section
+ *   and relatedFOW inference do not re-create it on the next read.
+ *
+ * Links are keyed on the item's dedupeKey, so they carry across register runs.
+ * The item must exist in the latest run.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { setFowSubmittalLink } from '@/lib/graph/fow-links'
+import type { FowLinkStatus } from '@/lib/graph/fow-readiness'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+async function writeLink(projectId: string, fowId: string, userId: string, dedupeKey: string, status: FowLinkStatus) {
+  const svc = createServiceRoleClient()
+
+  const { data: fow, error: fowErr } = await svc
+    .from('project_entities')
+    .select('id')
+    .eq('id', fowId)
+    .eq('project_id', projectId)
+    .eq('entity_type', 'feature_of_work')
+    .maybeSingle()
+  if (fowErr) return NextResponse.json({ error: fowErr.message }, { status: 500 })
+  if (!fow) return NextResponse.json({ error: 'FOW not found' }, { status: 404 })
+
+  const runOutcome = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (runOutcome.status === 'error') {
+    return NextResponse.json({ error: runOutcome.error }, { status: 500 })
+  }
+  const item = runOutcome.status === 'found'
+    ? runOutcome.run.items.find(i => i.dedupeKey === dedupeKey)
+    : undefined
+  if (!item) return NextResponse.json({ error: 'Submittal not found in the latest register run' }, { status: 404 })
+
+  const { link, error } = await setFowSubmittalLink(svc, {
+    projectId,
+    fowId,
+    dedupeKey,
+    specSection: item.specSection,
+    status,
+    userId,
+  })
+  if (error) return NextResponse.json({ error }, { status: 500 })
+
+  return NextResponse.json({ link })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string; fowId: string } }
+) {
+  const { id: projectId, fowId } = params
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: { dedupeKey?: string }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const dedupeKey = typeof body.dedupeKey === 'string' ? body.dedupeKey : ''
+  if (!dedupeKey) return NextResponse.json({ error: 'dedupeKey is required' }, { status: 400 })
+
+  return writeLink(projectId, fowId, auth.user.id, dedupeKey, 'active')
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; fowId: string } }
+) {
+  const { id: projectId, fowId } = params
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  const dedupeKey = new URL(request.url).searchParams.get('dedupe_key') ?? ''
+  if (!dedupeKey) return NextResponse.json({ error: 'dedupe_key is required' }, { status: 400 })
+
+  return writeLink(projectId, fowId, auth.user.id, dedupeKey, 'removed')
+}
@@ -1,6 +1,10 @@
 /**
  * GET  /api/projects/[id]/features-of-work
  *   Returns every FOW for the project plus its readiness state. Sorted worst-first.
+ *   Syncs inferred fow_submittal_links for the latest register run first, then
+ *   computes readiness from the active links and the FOW's inspections /
+ *   hold points. Each FOW carries linkSources (dedupeKey → source);
+ *   `unlinked` lists register items in no FOW.
  *
  * POST /api/projects/[id]/features-of-work
  *   Body: { name, specSections?, trade?, subcontractor?, sequence?, status? }
@@ -11,47 +15,20 @@ import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/db/supabase/server'
 import { createServiceRoleClient } from '@/lib/db/supabase/service'
 import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { syncFowSubmittalLinks } from '@/lib/graph/fow-links'
+import { loadProjectInspections } from '@/lib/graph/inspection-persistence'
 import {
   computeFowReadiness,
   rankFowByReadiness,
-  groupSubmittalsByFowSpecSections,
+  groupInspectionsByFow,
+  groupSubmittalsByFowLinks,
   normalizeFowName,
+  rowToFowEntity,
   type FowEntity,
+  type FowMetadata,
   type FowReviewStatus,
 } from '@/lib/graph/fow-readiness'
 
-interface FowMetadata {
-  specSections?: string[]
-  trade?: string | null
-  subcontractor?: string | null
-  sequence?: number
-}
-
-function rowToFowEntity(row: {
-  id: string
-  project_id: string
-  canonical_name: string
-  display_name: string | null
-  discipline: string
-  status: string | null
-  metadata: unknown
-}): FowEntity {
-  const meta = (row.metadata ?? {}) as FowMetadata
-  const status = (row.status as FowReviewStatus) ?? 'active'
-  return {
-    id: row.id,
-    projectId: row.project_id,
-    canonicalName: row.canonical_name,
-    displayName: row.display_name ?? row.canonical_name,
-    discipline: row.discipline,
-    status,
-    sequence: typeof meta.sequence === 'number' ? meta.sequence : 0,
-    specSections: Array.isArray(meta.specSections) ? meta.specSections : [],
-    trade: meta.trade ?? null,
-    subcontractor: meta.subcontractor ?? null,
-  }
-}
-
 export async function GET(
   _request: Request,
   { params }: { params: { id: string } }
@@ -88,8 +65,17 @@ export async function GET(
   }
   const submittals = runOutcome.status === 'found' ? runOutcome.run.items : []
 
-  const grouped = groupSubmittalsByFowSpecSections(fows, submittals)
-  const readinesses = fows.map(fow => computeFowReadiness(fow, grouped.get(fow.id) ?? []))
+  const { links, error: linkErr } = await syncFowSubmittalLinks(svc, projectId, fows, submittals)
+  if (linkErr) return NextResponse.json({ error: linkErr }, { status: 500 })
+
+  const { inspections, error: inspectionErr } = await loadProjectInspections(svc, projectId)
+  if (inspectionErr) return NextResponse.json({ error: inspectionErr }, { status: 500 })
+
+  const grouped = groupSubmittalsByFowLinks(fows, submittals, links)
+  const inspectionsByFow = groupInspectionsByFow(fows, inspections)
+  const readinesses = fows.map(fow =>
+    computeFowReadiness(fow, grouped.get(fow.id) ?? [], { links, inspections: inspectionsByFow.get(fow.id) ?? [] })
+  )
   const ranked = rankFowByReadiness(readinesses)
 
   // Count submittals linked to ≥1 FOW
@@ -97,13 +83,16 @@ export async function GET(
   for (const list of grouped.values()) {
     for (const s of list) if (s.persistedItemId) linkedSubmittalIds.add(s.persistedItemId)
   }
+  const unlinked = submittals.filter(s => s.persistedItemId && !linkedSubmittalIds.has(s.persistedItemId))
 
   return NextResponse.json({
     features: ranked,
+    unlinked,
     totals: {
       fowCount: fows.length,
       submittalsLinked: linkedSubmittalIds.size,
-      submittalsUnlinked: submittals.filter(s => s.persistedItemId && !linkedSubmittalIds.has(s.persistedItemId)).length,
+      submittalsUnlinked: unlinked.length,
+      openHoldPoints: ranked.reduce((n, r) => n + r.openHoldPointCount, 0),
     },
   })
 }
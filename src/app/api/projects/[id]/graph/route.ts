@@ -0,0 +1,124 @@
+/**
+ * GET /api/projects/[id]/graph
+ *
+ * Traverses the project relationship graph (src/lib/graph/entity-graph.ts):
+ * entity_relationships joined to register submittals, features of work and
+ * schedule activities.
+ *
+ * Query:
+ *   node        node id (entity:<uuid> | submittal:<dedupeKey> | activity:<code>)
+ *               or text resolved against labels, activity codes, RFI numbers
+ *               and spec sections
+ *   mode?       neighbors | traverse | paths | blockers — defaults to neighbors
+ *   target?     path end for mode=paths, same forms as node
+ *   node_type?  restrict text resolution of node, comma-separated
+ *   direction?  out | in | both — defaults to both; `in` is the reverse lookup
+ *   types?      relation types to follow, comma-separated
+ *   hops?       traversal depth, 1–6
+ *   limit?      maximum paths returned, 1–500 — defaults to 50
+ *   version?    schedule_versions.id — defaults to the newest version
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadProjectGraph } from '@/lib/graph/entity-graph-read'
+import {
+  GRAPH_QUERY_MODES,
+  runGraphQuery,
+  type GraphDirection,
+  type GraphQueryMode,
+} from '@/lib/graph/entity-graph'
+
+const DIRECTIONS: GraphDirection[] = ['out', 'in', 'both']
+
+function csv(value: string | null): string[] | undefined {
+  const list = (value ?? '').split(',').map(s => s.trim()).filter(Boolean)
+  return list.length > 0 ? list : undefined
+}
+
+function intParam(value: string | null, min: number, max: number): number | null | undefined {
+  if (value === null) return undefined
+  const n = Number(value)
+  return Number.isInteger(n) && n >= min && n <= max ? n : null
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const url = new URL(request.url)
+  const node = url.searchParams.get('node')?.trim() ?? ''
+  if (!node) return NextResponse.json({ error: 'node is required' }, { status: 400 })
+
+  const mode = (url.searchParams.get('mode') ?? 'neighbors') as GraphQueryMode
+  if (!GRAPH_QUERY_MODES.includes(mode)) {
+    return NextResponse.json({ error: `mode must be one of: ${GRAPH_QUERY_MODES.join(', ')}` }, { status: 400 })
+  }
+  const target = url.searchParams.get('target')?.trim() || null
+  if (mode === 'paths' && !target) {
+    return NextResponse.json({ error: 'target is required for mode=paths' }, { status: 400 })
+  }
+  const direction = (url.searchParams.get('direction') ?? 'both') as GraphDirection
+  if (!DIRECTIONS.includes(direction)) {
+    return NextResponse.json({ error: `direction must be one of: ${DIRECTIONS.join(', ')}` }, { status: 400 })
+  }
+  const maxHops = intParam(url.searchParams.get('hops'), 1, 6)
+  if (maxHops === null) return NextResponse.json({ error: 'hops must be an integer from 1 to 6' }, { status: 400 })
+  const limit = intParam(url.searchParams.get('limit'), 1, 500)
+  if (limit === null) return NextResponse.json({ error: 'limit must be an integer from 1 to 500' }, { status: 400 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[GraphRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const loaded = await loadProjectGraph(svc, projectId, { scheduleVersionId: url.searchParams.get('version') })
+  if (loaded.status === 'error') {
+    console.error('[GraphRoute] Graph load failed:', loaded.error)
+    return NextResponse.json({ error: 'Failed to load project graph' }, { status: 500 })
+  }
+
+  const result = runGraphQuery(loaded.graph, {
+    mode,
+    node,
+    target,
+    nodeTypes: csv(url.searchParams.get('node_type')),
+    direction,
+    relationTypes: csv(url.searchParams.get('types')),
+    maxHops,
+    limit,
+  })
+  if (!result.start) {
+    return NextResponse.json({ error: `No node matched "${node}"` }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    scheduleVersion: loaded.scheduleVersion,
+    ...result,
+  })
+}
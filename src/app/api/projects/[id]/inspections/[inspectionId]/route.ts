@@ -0,0 +1,152 @@
+/**
+ * PATCH  /api/projects/[id]/inspections/[inspectionId]
+ *   Body: { status?, scheduledDate?, inspector?, result?, resultNotes?,
+ *           fowId?, title?, inspectionType? }
+ *   Records scheduling and results. Setting a result marks the inspection
+ *   complete; completed_at is stamped when status becomes 'complete'.
+ *   fowId: null returns the inspection to spec-section matching.
+ *
+ * DELETE /api/projects/[id]/inspections/[inspectionId]
+ *   Deletes the inspection. A spec-seeded row is re-created by the next seed;
+ *   set status 'waived' to retire it instead.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { INSPECTION_COLUMNS } from '@/lib/graph/inspection-persistence'
+import {
+  INSPECTION_RESULTS,
+  INSPECTION_STATUSES,
+  INSPECTION_TYPES,
+  rowToProjectInspection,
+  type InspectionResult,
+  type InspectionStatus,
+  type InspectionType,
+  type ProjectInspectionRow,
+} from '@/lib/graph/inspections'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; inspectionId: string } }
+) {
+  const { id: projectId, inspectionId } = params
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    status?: InspectionStatus
+    scheduledDate?: string | null
+    inspector?: string | null
+    result?: InspectionResult | null
+    resultNotes?: string | null
+    fowId?: string | null
+    title?: string
+    inspectionType?: InspectionType
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.status !== undefined && !INSPECTION_STATUSES.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${INSPECTION_STATUSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.result != null && !INSPECTION_RESULTS.includes(body.result)) {
+    return NextResponse.json({ error: `result must be one of: ${INSPECTION_RESULTS.join(', ')}` }, { status: 400 })
+  }
+  if (body.inspectionType !== undefined && !INSPECTION_TYPES.includes(body.inspectionType)) {
+    return NextResponse.json({ error: `inspectionType must be one of: ${INSPECTION_TYPES.join(', ')}` }, { status: 400 })
+  }
+  if (body.scheduledDate && !ISO_DATE.test(body.scheduledDate)) {
+    return NextResponse.json({ error: 'scheduledDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  const svc = createServiceRoleClient()
+
+  const { data: current, error: fetchErr } = await svc
+    .from('project_inspections')
+    .select('id, status, result')
+    .eq('id', inspectionId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!current) return NextResponse.json({ error: 'Inspection not found' }, { status: 404 })
+
+  if (body.fowId) {
+    const { data: fow, error: fowErr } = await svc
+      .from('project_entities')
+      .select('id')
+      .eq('id', body.fowId)
+      .eq('project_id', projectId)
+      .eq('entity_type', 'feature_of_work')
+      .maybeSingle()
+    if (fowErr) return NextResponse.json({ error: fowErr.message }, { status: 500 })
+    if (!fow) return NextResponse.json({ error: 'FOW not found' }, { status: 404 })
+  }
+
+  const updateRow: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if ('scheduledDate' in body) updateRow.scheduled_date = body.scheduledDate || null
+  if ('inspector' in body) updateRow.inspector = body.inspector?.trim() || null
+  if ('resultNotes' in body) updateRow.result_notes = body.resultNotes?.trim() || null
+  if ('fowId' in body) updateRow.fow_entity_id = body.fowId || null
+  if (typeof body.title === 'string' && body.title.trim()) updateRow.title = body.title.trim()
+  if (body.inspectionType) updateRow.inspection_type = body.inspectionType
+  if ('result' in body) updateRow.result = body.result ?? null
+
+  let status: InspectionStatus | undefined = body.status
+  if (!status && body.result) status = 'complete'
+  if (!status && body.scheduledDate && current.status === 'required') status = 'scheduled'
+  if (status) {
+    updateRow.status = status
+    if (status === 'complete' && current.status !== 'complete') updateRow.completed_at = new Date().toISOString()
+    if (status !== 'complete') {
+      updateRow.completed_at = null
+      updateRow.result = null
+    }
+  }
+
+  const { data: updated, error: updateErr } = await svc
+    .from('project_inspections')
+    .update(updateRow)
+    .eq('id', inspectionId)
+    .eq('project_id', projectId)
+    .select(INSPECTION_COLUMNS)
+    .single()
+
+  if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 })
+
+  return NextResponse.json({ inspection: rowToProjectInspection(updated as ProjectInspectionRow) })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string; inspectionId: string } }
+) {
+  const { id: projectId, inspectionId } = params
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  const svc = createServiceRoleClient()
+
+  const { error } = await svc
+    .from('project_inspections')
+    .delete()
+    .eq('id', inspectionId)
+    .eq('project_id', projectId)
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,139 @@
+/**
+ * GET  /api/projects/[id]/inspections
+ *   Query: fow_id? — only inspections that count toward that FOW (explicitly
+ *   assigned, or unassigned with a spec section in the FOW's specSections)
+ *   Returns { inspections }.
+ *
+ * POST /api/projects/[id]/inspections
+ *   Body: { title, inspectionType?, specSection?, partReference?, fowId?,
+ *           scheduledDate?, inspector? }
+ *   Adds a manual inspection / hold point.
+ *
+ * Spec-seeded rows come from POST /inspections/seed.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { groupInspectionsByFow, rowToFowEntity } from '@/lib/graph/fow-readiness'
+import { INSPECTION_COLUMNS, loadProjectInspections } from '@/lib/graph/inspection-persistence'
+import {
+  INSPECTION_TYPES,
+  rowToProjectInspection,
+  type InspectionType,
+  type ProjectInspectionRow,
+} from '@/lib/graph/inspections'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  const svc = createServiceRoleClient()
+
+  const { inspections, error } = await loadProjectInspections(svc, projectId)
+  if (error) return NextResponse.json({ error }, { status: 500 })
+
+  const fowId = new URL(request.url).searchParams.get('fow_id')
+  if (!fowId) return NextResponse.json({ inspections })
+
+  const { data: fowRow, error: fowErr } = await svc
+    .from('project_entities')
+    .select('id, project_id, canonical_name, display_name, discipline, status, metadata')
+    .eq('id', fowId)
+    .eq('project_id', projectId)
+    .eq('entity_type', 'feature_of_work')
+    .maybeSingle()
+  if (fowErr) return NextResponse.json({ error: fowErr.message }, { status: 500 })
+  if (!fowRow) return NextResponse.json({ error: 'FOW not found' }, { status: 404 })
+
+  const grouped = groupInspectionsByFow([rowToFowEntity(fowRow)], inspections)
+  return NextResponse.json({ inspections: grouped.get(fowId) ?? [] })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    title?: string
+    inspectionType?: InspectionType
+    specSection?: string | null
+    partReference?: string | null
+    fowId?: string | null
+    scheduledDate?: string | null
+    inspector?: string | null
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const title = typeof body.title === 'string' ? body.title.trim() : ''
+  if (!title) return NextResponse.json({ error: 'title is required' }, { status: 400 })
+
+  const inspectionType = body.inspectionType ?? 'inspection'
+  if (!INSPECTION_TYPES.includes(inspectionType)) {
+    return NextResponse.json({ error: `inspectionType must be one of: ${INSPECTION_TYPES.join(', ')}` }, { status: 400 })
+  }
+  if (body.scheduledDate && !ISO_DATE.test(body.scheduledDate)) {
+    return NextResponse.json({ error: 'scheduledDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  const svc = createServiceRoleClient()
+
+  if (body.fowId) {
+    const { data: fow, error: fowErr } = await svc
+      .from('project_entities')
+      .select('id')
+      .eq('id', body.fowId)
+      .eq('project_id', projectId)
+      .eq('entity_type', 'feature_of_work')
+      .maybeSingle()
+    if (fowErr) return NextResponse.json({ error: fowErr.message }, { status: 500 })
+    if (!fow) return NextResponse.json({ error: 'FOW not found' }, { status: 404 })
+  }
+
+  const { data: inserted, error } = await svc
+    .from('project_inspections')
+    .insert({
+      project_id: projectId,
+      fow_entity_id: body.fowId ?? null,
+      title,
+      inspection_type: inspectionType,
+      spec_section: body.specSection?.trim() || null,
+      part_reference: body.partReference?.trim() || null,
+      status: body.scheduledDate ? 'scheduled' : 'required',
+      scheduled_date: body.scheduledDate ?? null,
+      inspector: body.inspector?.trim() || null,
+      source: 'manual',
+      created_by: auth.user.id,
+    })
+    .select(INSPECTION_COLUMNS)
+    .single()
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json(
+    { inspection: rowToProjectInspection(inserted as ProjectInspectionRow) },
+    { status: 201 }
+  )
+}
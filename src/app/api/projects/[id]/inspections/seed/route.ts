@@ -0,0 +1,38 @@
+/**
+ * POST /api/projects/[id]/inspections/seed
+ *
+ * Creates an inspection for every extracted spec testing / inspection
+ * requirement (spec_requirement entities, subtype testing_requirement |
+ * inspection_requirement) that does not have one yet. Hold points and special
+ * inspections are classified from the requirement text.
+ *
+ * Idempotent: rows are keyed on the requirement's canonical_name. Spec
+ * extraction runs the same seeding when it finishes.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { seedInspectionsFromSpecRequirements } from '@/lib/graph/inspection-persistence'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const svc = createServiceRoleClient()
+
+  const { seeded, error } = await seedInspectionsFromSpecRequirements(svc, projectId)
+  if (error) return NextResponse.json({ error }, { status: 500 })
+
+  return NextResponse.json({ seeded })
+}
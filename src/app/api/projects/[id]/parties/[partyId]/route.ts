@@ -0,0 +1,137 @@
+/**
+ * PATCH  /api/projects/[id]/parties/[partyId]
+ *   Body: { name?, role?, organization?, email?, aliases? }
+ *   aliases replaces the whole list.
+ *
+ * DELETE /api/projects/[id]/parties/[partyId]
+ *   Register items keep their free-text names; they show as unmatched again.
+ *
+ * Auth: owner or editor.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { PROJECT_PARTY_COLUMNS } from '@/lib/chat/project-parties-read'
+import {
+  cleanAliases,
+  PARTY_ROLES,
+  rowToProjectParty,
+  type PartyRole,
+  type ProjectPartyRow,
+} from '@/lib/chat/project-parties'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  if (!['owner', 'editor'].includes(membership.role ?? '')) {
+    return { error: NextResponse.json({ error: 'Only project owners and editors can manage parties' }, { status: 403 }) }
+  }
+  return { user, membership }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; partyId: string } }
+) {
+  const { id: projectId, partyId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    name?: string
+    role?: PartyRole
+    organization?: string | null
+    email?: string | null
+    aliases?: unknown
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.role !== undefined && !PARTY_ROLES.includes(body.role)) {
+    return NextResponse.json({ error: `role must be one of: ${PARTY_ROLES.join(', ')}` }, { status: 400 })
+  }
+  if ('name' in body && !(typeof body.name === 'string' && body.name.trim())) {
+    return NextResponse.json({ error: 'name cannot be blank' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[PartiesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: current, error: fetchErr } = await svc
+    .from('project_parties')
+    .select(PROJECT_PARTY_COLUMNS)
+    .eq('id', partyId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!current) return NextResponse.json({ error: 'Party not found' }, { status: 404 })
+
+  const name = body.name?.trim() || current.name
+  const updateRow: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (name !== current.name) updateRow.name = name
+  if (body.role) updateRow.role = body.role
+  if ('organization' in body) updateRow.organization = body.organization?.trim() || null
+  if ('email' in body) updateRow.email = body.email?.trim() || null
+  // Renaming re-cleans the stored aliases so none duplicates the new name.
+  if ('aliases' in body || updateRow.name) {
+    updateRow.aliases = cleanAliases(name, 'aliases' in body ? body.aliases : current.aliases)
+  }
+
+  const { data: updated, error: updateErr } = await svc
+    .from('project_parties')
+    .update(updateRow)
+    .eq('id', partyId)
+    .eq('project_id', projectId)
+    .select(PROJECT_PARTY_COLUMNS)
+    .single()
+
+  if (updateErr) {
+    if (updateErr.code === '23505') {
+      return NextResponse.json({ error: `A party named "${name}" already exists` }, { status: 409 })
+    }
+    console.error('[PartiesRoute] Update failed:', updateErr.message)
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ party: rowToProjectParty(updated as ProjectPartyRow) })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string; partyId: string } }
+) {
+  const { id: projectId, partyId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[PartiesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { error } = await svc
+    .from('project_parties')
+    .delete()
+    .eq('id', partyId)
+    .eq('project_id', projectId)
+
+  if (error) {
+    console.error('[PartiesRoute] Delete failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
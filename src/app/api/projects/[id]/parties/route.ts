@@ -0,0 +1,118 @@
+/**
+ * GET  /api/projects/[id]/parties
+ *   The project's parties (src/lib/chat/project-parties.ts), by name.
+ *   Returns { parties }.
+ *
+ * POST /api/projects/[id]/parties
+ *   Body: { name, role, organization?, email?, aliases? }
+ *   Creates a party. Names are unique per project.
+ *
+ * Auth: any project member to read; owner or editor to write.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadProjectParties, PROJECT_PARTY_COLUMNS } from '@/lib/chat/project-parties-read'
+import {
+  cleanAliases,
+  PARTY_ROLES,
+  rowToProjectParty,
+  type PartyRole,
+  type ProjectPartyRow,
+} from '@/lib/chat/project-parties'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[PartiesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { parties, error } = await loadProjectParties(svc, projectId)
+  if (error) {
+    console.error('[PartiesRoute] Party load failed:', error)
+    return NextResponse.json({ error: 'Failed to load parties' }, { status: 500 })
+  }
+
+  return NextResponse.json({ parties })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+  if (!['owner', 'editor'].includes(auth.membership.role ?? '')) {
+    return NextResponse.json({ error: 'Only project owners and editors can manage parties' }, { status: 403 })
+  }
+
+  let body: {
+    name?: string
+    role?: PartyRole
+    organization?: string | null
+    email?: string | null
+    aliases?: unknown
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) return NextResponse.json({ error: 'name is required' }, { status: 400 })
+  if (!body.role || !PARTY_ROLES.includes(body.role)) {
+    return NextResponse.json({ error: `role must be one of: ${PARTY_ROLES.join(', ')}` }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[PartiesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: inserted, error } = await svc
+    .from('project_parties')
+    .insert({
+      project_id: projectId,
+      name,
+      role: body.role,
+      organization: body.organization?.trim() || null,
+      email: body.email?.trim() || null,
+      aliases: cleanAliases(name, body.aliases),
+      created_by: auth.user.id,
+    })
+    .select(PROJECT_PARTY_COLUMNS)
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: `A party named "${name}" already exists` }, { status: 409 })
+    }
+    console.error('[PartiesRoute] Insert failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ party: rowToProjectParty(inserted as ProjectPartyRow) }, { status: 201 })
+}
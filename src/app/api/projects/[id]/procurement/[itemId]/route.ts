@@ -0,0 +1,151 @@
+/**
+ * PATCH  /api/projects/[id]/procurement/[itemId]
+ *   Body: { description?, poNumber?, vendor?, status?, orderDate?,
+ *           promisedShipDate?, expectedDeliveryDate?, actualDeliveryDate?,
+ *           notes? }
+ *   Dates are YYYY-MM-DD; null clears. Without an explicit status, an actual
+ *   delivery date marks the item 'delivered' and an order date or PO number
+ *   moves a 'not_ordered' item to 'ordered'.
+ *
+ * DELETE /api/projects/[id]/procurement/[itemId]
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { PROCUREMENT_COLUMNS } from '@/lib/graph/procurement-persistence'
+import {
+  PROCUREMENT_STATUSES,
+  rowToProcurementItem,
+  type ProcurementItemRow,
+  type ProcurementStatus,
+} from '@/lib/graph/procurement'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const DATE_COLUMNS = {
+  orderDate: 'order_date',
+  promisedShipDate: 'promised_ship_date',
+  expectedDeliveryDate: 'expected_delivery_date',
+  actualDeliveryDate: 'actual_delivery_date',
+} as const
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const { id: projectId, itemId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    description?: string
+    poNumber?: string | null
+    vendor?: string | null
+    status?: ProcurementStatus
+    orderDate?: string | null
+    promisedShipDate?: string | null
+    expectedDeliveryDate?: string | null
+    actualDeliveryDate?: string | null
+    notes?: string | null
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.status !== undefined && !PROCUREMENT_STATUSES.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${PROCUREMENT_STATUSES.join(', ')}` }, { status: 400 })
+  }
+
+  const updateRow: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  for (const [field, column] of Object.entries(DATE_COLUMNS) as Array<[keyof typeof DATE_COLUMNS, string]>) {
+    if (!(field in body)) continue
+    const value = body[field]
+    if (value && !ISO_DATE.test(value)) {
+      return NextResponse.json({ error: `${field} must be YYYY-MM-DD` }, { status: 400 })
+    }
+    updateRow[column] = value || null
+  }
+  if (typeof body.description === 'string' && body.description.trim()) updateRow.description = body.description.trim()
+  if ('poNumber' in body) updateRow.po_number = body.poNumber?.trim() || null
+  if ('vendor' in body) updateRow.vendor = body.vendor?.trim() || null
+  if ('notes' in body) updateRow.notes = body.notes?.trim() || null
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ProcurementRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: current, error: fetchErr } = await svc
+    .from('project_procurement_items')
+    .select('id, status')
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!current) return NextResponse.json({ error: 'Procurement item not found' }, { status: 404 })
+
+  let status = body.status
+  if (!status && body.actualDeliveryDate) status = 'delivered'
+  if (!status && current.status === 'not_ordered' && (body.orderDate || body.poNumber?.trim())) status = 'ordered'
+  if (status) updateRow.status = status
+
+  const { data: updated, error: updateErr } = await svc
+    .from('project_procurement_items')
+    .update(updateRow)
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+    .select(PROCUREMENT_COLUMNS)
+    .single()
+
+  if (updateErr) {
+    console.error('[ProcurementRoute] Update failed:', updateErr.message)
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ item: rowToProcurementItem(updated as ProcurementItemRow) })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const { id: projectId, itemId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ProcurementRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { error } = await svc
+    .from('project_procurement_items')
+    .delete()
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+
+  if (error) {
+    console.error('[ProcurementRoute] Delete failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
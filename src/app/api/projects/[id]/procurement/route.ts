@@ -0,0 +1,189 @@
+/**
+ * GET  /api/projects/[id]/procurement
+ *   Procurement timeline (src/lib/graph/procurement.ts): every procurement
+ *   item with its releasing submittal, landing date and the need-by date of
+ *   the submittal's linked activity in the latest schedule version, plus the
+ *   approved long-lead submittals that have no procurement item yet.
+ *   Returns { scheduleVersion, timeline }.
+ *
+ * POST /api/projects/[id]/procurement
+ *   Body: { dedupeKey, description?, poNumber?, vendor?, status?, orderDate?,
+ *           promisedShipDate?, expectedDeliveryDate?, actualDeliveryDate?,
+ *           notes? }
+ *   Records a PO released by the submittal with that dedupeKey in the latest
+ *   register run. description defaults to the submittal item name; status
+ *   defaults to 'ordered' when an order date or PO number is given.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { PROCUREMENT_COLUMNS, loadProcurementItems } from '@/lib/graph/procurement-persistence'
+import {
+  buildProcurementTimeline,
+  PROCUREMENT_STATUSES,
+  rowToProcurementItem,
+  type ProcurementItemRow,
+  type ProcurementStatus,
+} from '@/lib/graph/procurement'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '@/lib/schedule/schedule-read'
+import type { ScheduleVersionSnapshot } from '@/lib/schedule/schedule-model'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const DATE_FIELDS = ['orderDate', 'promisedShipDate', 'expectedDeliveryDate', 'actualDeliveryDate'] as const
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ProcurementRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { items, error: itemsErr } = await loadProcurementItems(svc, projectId)
+  if (itemsErr) {
+    console.error('[ProcurementRoute] Procurement load failed:', itemsErr)
+    return NextResponse.json({ error: 'Failed to load procurement items' }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[ProcurementRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+
+  const { versions, error: versionsErr } = await listScheduleVersions(svc, projectId)
+  if (versionsErr) {
+    console.error('[ProcurementRoute] schedule_versions query failed:', versionsErr)
+    return NextResponse.json({ error: 'Failed to load schedule versions' }, { status: 500 })
+  }
+  let snapshot: ScheduleVersionSnapshot | null = null
+  if (versions.length > 0) {
+    const loaded = await loadScheduleVersionSnapshot(svc, projectId, versions[0].id)
+    if (loaded.status === 'error') {
+      console.error('[ProcurementRoute] Snapshot load failed:', loaded.error)
+      return NextResponse.json({ error: 'Failed to load schedule activities' }, { status: 500 })
+    }
+    if (loaded.status === 'found') snapshot = loaded.snapshot
+  }
+
+  const timeline = buildProcurementTimeline({
+    items,
+    submittals: register.status === 'found' ? register.run.items : [],
+    activities: snapshot?.activities ?? [],
+    today: new Date().toISOString().slice(0, 10),
+  })
+
+  return NextResponse.json({ scheduleVersion: snapshot?.version ?? null, timeline })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    dedupeKey?: string
+    description?: string
+    poNumber?: string | null
+    vendor?: string | null
+    status?: ProcurementStatus
+    orderDate?: string | null
+    promisedShipDate?: string | null
+    expectedDeliveryDate?: string | null
+    actualDeliveryDate?: string | null
+    notes?: string | null
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const dedupeKey = typeof body.dedupeKey === 'string' ? body.dedupeKey.trim() : ''
+  if (!dedupeKey) return NextResponse.json({ error: 'dedupeKey is required' }, { status: 400 })
+  if (body.status !== undefined && !PROCUREMENT_STATUSES.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${PROCUREMENT_STATUSES.join(', ')}` }, { status: 400 })
+  }
+  for (const field of DATE_FIELDS) {
+    const value = body[field]
+    if (value && !ISO_DATE.test(value)) {
+      return NextResponse.json({ error: `${field} must be YYYY-MM-DD` }, { status: 400 })
+    }
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ProcurementRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[ProcurementRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+  const submittal = register.status === 'found'
+    ? register.run.items.find(i => i.dedupeKey === dedupeKey)
+    : undefined
+  if (!submittal) {
+    return NextResponse.json({ error: 'Submittal not found in the latest register' }, { status: 404 })
+  }
+
+  const poNumber = body.poNumber?.trim() || null
+  const status: ProcurementStatus = body.status
+    ?? (body.actualDeliveryDate ? 'delivered' : body.orderDate || poNumber ? 'ordered' : 'not_ordered')
+
+  const { data: inserted, error } = await svc
+    .from('project_procurement_items')
+    .insert({
+      project_id: projectId,
+      submittal_dedupe_key: dedupeKey,
+      description: body.description?.trim() || submittal.submittalItem,
+      po_number: poNumber,
+      vendor: body.vendor?.trim() || null,
+      status,
+      order_date: body.orderDate || null,
+      promised_ship_date: body.promisedShipDate || null,
+      expected_delivery_date: body.expectedDeliveryDate || null,
+      actual_delivery_date: body.actualDeliveryDate || null,
+      notes: body.notes?.trim() || null,
+      created_by: auth.user.id,
+    })
+    .select(PROCUREMENT_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('[ProcurementRoute] Insert failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(
+    { item: rowToProcurementItem(inserted as ProcurementItemRow) },
+    { status: 201 }
+  )
+}
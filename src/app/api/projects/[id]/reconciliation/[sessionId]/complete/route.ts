@@ -1,40 +1,46 @@
 /**
  * POST /api/projects/[id]/reconciliation/[sessionId]/complete
  *
- * Marks the session complete and pushes lifecycle updates to the submittal
- * register for every confirmed match that has a meaningful external status.
+ * Marks the session complete and writes the external log back onto the
+ * submittal register for every confirmed match: status (walked forward along
+ * legal transitions, never regressed), submittal number, submitted / approved
+ * / due dates. Each field copied gets an entry in the item's
+ * `reconciliationAudit` trail — see
+ * src/lib/reconciliation/submittal-reconciliation-apply.ts.
  *
- * Only advances lifecycle (never regresses). Skips items where the external
- * status would be invalid or would move the item backward.
+ * All updated items are written in one transaction
+ * (apply_submittal_item_payloads, migration 00059). If any of them changed
+ * status while the plan was computed nothing is written, the session stays
+ * open and the response is 409. A submission the status walk opens gets its
+ * review due date from the log, else from the project SLA config.
  *
- * Returns: { updatedCount, skippedCount, updatedItemIds }
+ * A decision made before the register was regenerated points at an item row
+ * that no longer exists; it is resolved to the latest run's item with the same
+ * dedupe key (resolveDecisionItemId in
+ * src/lib/reconciliation/submittal-log-resync.ts). Decisions that resolve to
+ * no item are not written back and are returned as `unresolved`.
+ *
+ * Returns: { ok, updatedCount, skippedCount, updatedItemIds, writeBack, unresolved }
+ *   writeBack: ReconciliationWriteBackEntry[] — per matched item, the fields
+ *   copied and why any log values were not.
+ *   unresolved: [{ externalRowId, generatedItemId }] — confirmed matches whose
+ *   register item is gone.
  */
 
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/db/supabase/server'
 import { createServiceRoleClient } from '@/lib/db/supabase/service'
-import {
-  ALL_LIFECYCLE_STATUSES,
-  buildTransition,
-  findTransitionPath,
-  timestampFieldForStatus,
-  type SubmittalLifecycleStatus,
-  type LifecycleHistoryEntry,
-} from '@/lib/chat/submittal-lifecycle'
+import { loadLatestSubmittalRegisterItemKeys } from '@/lib/chat/submittal-register-read'
+import { loadSubmittalSlaConfig } from '@/lib/chat/submittal-sla-read'
 import type { NormalizedExternalRow } from '@/lib/reconciliation/submittal-log-normalizer'
+import { indexRegisterItems, resolveDecisionItemId } from '@/lib/reconciliation/submittal-log-resync'
+import {
+  planReconciliationWriteBack,
+  type ReconciliationWriteBackCandidate,
+} from '@/lib/reconciliation/submittal-reconciliation-apply'
 
-// External status strings → lifecycle statuses we'll write back
-const EXTERNAL_TO_LIFECYCLE: Record<string, SubmittalLifecycleStatus> = {
-  approved:           'approved',
-  submitted:          'submitted',
-  pending_review:     'pending_review',
-  revise_resubmit:    'revise_resubmit',
-  pending_submission: 'pending_submission',
-}
-
-function isLifecycleStatus(v: unknown): v is SubmittalLifecycleStatus {
-  return typeof v === 'string' && (ALL_LIFECYCLE_STATUSES as string[]).includes(v)
-}
+// Item ids per `.in()` read — keeps the request URL well under proxy limits.
+const ID_CHUNK = 200
 
 export async function POST(
   _request: Request,
@@ -54,7 +60,13 @@ export async function POST(
     .single()
   if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
 
-  const svc = createServiceRoleClient()
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ReconciliationCompleteRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
 
   // Load session
   const { data: session, error: sessionErr } = await svc
@@ -71,81 +83,110 @@ export async function POST(
   // Load confirmed decisions that have a generated item ID
   const { data: decisions, error: decisionsErr } = await svc
     .from('reconciliation_decisions')
-    .select('external_row_id, generated_item_id, decision')
+    .select('external_row_id, generated_item_id, generated_dedupe_key, decision')
     .eq('session_id', sessionId)
     .eq('decision', 'confirmed')
 
   if (decisionsErr) return NextResponse.json({ error: decisionsErr.message }, { status: 500 })
 
+  const register = await loadLatestSubmittalRegisterItemKeys(svc, projectId)
+  if (register.error) return NextResponse.json({ error: register.error }, { status: 500 })
+  const registerIndex = indexRegisterItems(register.items)
+
   const externalRows = (session.external_rows as unknown as NormalizedExternalRow[]) ?? []
   const extById = new Map(externalRows.map(r => [r.externalId, r]))
 
-  let updatedCount = 0
+  // One log row per item: a second confirmed row for the same item is skipped.
   let skippedCount = 0
-  const updatedItemIds: string[] = []
-
+  const unresolved: Array<{ externalRowId: string; generatedItemId: string }> = []
+  const rowByItemId = new Map<string, NormalizedExternalRow>()
   for (const d of decisions ?? []) {
     const extRow = extById.get(d.external_row_id)
-    if (!extRow?.status) { skippedCount++; continue }
-
-    const toStatus = EXTERNAL_TO_LIFECYCLE[extRow.status]
-    if (!toStatus) { skippedCount++; continue }
-
-    const generatedItemId = d.generated_item_id
-    if (!generatedItemId) { skippedCount++; continue }
+    if (!extRow || !d.generated_item_id) { skippedCount++; continue }
+    const itemId = resolveDecisionItemId(
+      { generatedItemId: d.generated_item_id, generatedDedupeKey: d.generated_dedupe_key },
+      registerIndex
+    )
+    if (!itemId) {
+      unresolved.push({ externalRowId: d.external_row_id, generatedItemId: d.generated_item_id })
+      continue
+    }
+    if (rowByItemId.has(itemId)) { skippedCount++; continue }
+    rowByItemId.set(itemId, extRow)
+  }
 
-    // Load current item payload
-    const { data: item, error: fetchErr } = await svc
+  const itemIds = [...rowByItemId.keys()]
+  const items: Array<{ id: string; item_payload: unknown; workflow_run_id: string; spec_section: string | null }> = []
+  for (let i = 0; i < itemIds.length; i += ID_CHUNK) {
+    const { data, error: itemsErr } = await svc
       .from('submittal_register_items')
-      .select('id, item_payload')
-      .eq('id', generatedItemId)
+      .select('id, item_payload, workflow_run_id, spec_section')
       .eq('project_id', projectId)
-      .maybeSingle()
-
-    if (fetchErr || !item) { skippedCount++; continue }
-
-    const payload = item.item_payload as Record<string, unknown>
-    const fromStatus = (payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
-
-    const path = findTransitionPath(fromStatus, toStatus)
-    if (path === null || path.length === 0) { skippedCount++; continue }
-
-    const historyAdditions: LifecycleHistoryEntry[] = []
-    const timestampUpdates: Record<string, string> = {}
-    let cursor = fromStatus
-    let walkFailed = false
-    for (const next of path) {
-      const stepResult = buildTransition(cursor, next, membership.role ?? undefined, 'Updated via reconciliation')
-      if (!stepResult.ok) { walkFailed = true; break }
-      historyAdditions.push(stepResult.entry)
-      const tsField = timestampFieldForStatus(next)
-      if (tsField) timestampUpdates[tsField] = stepResult.entry.changedAt
-      cursor = next
-    }
-    if (walkFailed) { skippedCount++; continue }
-
-    const existingHistory: LifecycleHistoryEntry[] = Array.isArray(payload.lifecycleStatusHistory)
-      ? (payload.lifecycleStatusHistory as LifecycleHistoryEntry[])
-      : []
-
-    const updatedPayload: Record<string, unknown> = {
-      ...payload,
-      lifecycleStatus: cursor,
-      lifecycleStatusHistory: [...existingHistory, ...historyAdditions],
-      ...timestampUpdates,
-    }
-
-    const { error: updateErr } = await svc
+      .in('id', itemIds.slice(i, i + ID_CHUNK))
+    if (itemsErr) return NextResponse.json({ error: itemsErr.message }, { status: 500 })
+    items.push(...(data ?? []))
+  }
+  // Deleted by a regeneration after the register was read above.
+  skippedCount += rowByItemId.size - items.length
+
+  const candidates: ReconciliationWriteBackCandidate[] = items.map(item => ({
+    itemId: item.id,
+    workflowRunId: item.workflow_run_id,
+    specSection: item.spec_section,
+    payload: item.item_payload as Record<string, unknown>,
+    row: rowByItemId.get(item.id)!,
+  }))
+
+  // Base numbers already issued on each run touched, for first submissions the
+  // log does not number.
+  const issuedNumbersByRun = new Map<string, Array<string | null>>()
+  for (const runId of new Set(candidates.map(c => c.workflowRunId))) {
+    const { data: siblings, error: siblingErr } = await svc
       .from('submittal_register_items')
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .update({ item_payload: updatedPayload as any })
-      .eq('id', generatedItemId)
+      .select('submittal_number:item_payload->>submittalNumber')
       .eq('project_id', projectId)
+      .eq('workflow_run_id', runId)
+    if (siblingErr) return NextResponse.json({ error: siblingErr.message }, { status: 500 })
+    issuedNumbersByRun.set(
+      runId,
+      ((siblings ?? []) as Array<{ submittal_number: string | null }>).map(r => r.submittal_number)
+    )
+  }
 
-    if (updateErr) { skippedCount++; continue }
+  const sla = await loadSubmittalSlaConfig(svc, projectId)
+  if (sla.error) {
+    console.error('[ReconciliationCompleteRoute] SLA config load failed:', sla.error)
+  }
 
-    updatedCount++
-    updatedItemIds.push(generatedItemId)
+  const plan = planReconciliationWriteBack(candidates, {
+    sessionId,
+    by: membership.role ?? undefined,
+    issuedNumbersByRun,
+    slaConfig: sla.config,
+  })
+
+  const updated = plan.entries.filter(e => e.outcome === 'updated')
+  if (updated.length > 0) {
+    const updates = updated.map(e => ({
+      id: e.itemId,
+      expected_status: e.fromStatus,
+      item_payload: plan.payloads.get(e.itemId),
+    }))
+    const { error: applyErr } = await svc.rpc('apply_submittal_item_payloads', {
+      p_project_id: projectId,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      p_updates: updates as any,
+    })
+    if (applyErr) {
+      if (applyErr.code === '40001') {
+        return NextResponse.json(
+          { error: 'A matched item changed while completing — review and try again' },
+          { status: 409 }
+        )
+      }
+      console.error('[ReconciliationCompleteRoute] Write-back failed:', applyErr.message)
+      return NextResponse.json({ error: applyErr.message }, { status: 500 })
+    }
   }
 
   // Mark session complete
@@ -154,5 +195,12 @@ export async function POST(
     .update({ status: 'complete', updated_at: new Date().toISOString() })
     .eq('id', sessionId)
 
-  return NextResponse.json({ ok: true, updatedCount, skippedCount, updatedItemIds })
+  return NextResponse.json({
+    ok: true,
+    updatedCount: updated.length,
+    skippedCount: skippedCount + plan.counts.unchanged,
+    updatedItemIds: updated.map(e => e.itemId),
+    writeBack: plan.entries,
+    unresolved,
+  })
 }
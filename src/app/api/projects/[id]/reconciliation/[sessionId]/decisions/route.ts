@@ -2,7 +2,9 @@
  * POST /api/projects/[id]/reconciliation/[sessionId]/decisions
  *
  * Upserts a single match decision. Called immediately on each user
- * accept/reject action in the ReconciliationTab.
+ * accept/reject action in the ReconciliationTab. The item's dedupe key is
+ * recorded with the decision so it still resolves after the register is
+ * regenerated (migration 00066).
  *
  * Body: { external_row_id: string, generated_item_id: string, decision: 'confirmed' | 'rejected' }
  */
@@ -54,6 +56,14 @@ export async function POST(
     .maybeSingle()
   if (!session) return NextResponse.json({ error: 'Session not found' }, { status: 404 })
 
+  // Unpersisted items have no row (and no dedupe key to record).
+  const { data: item } = await svc
+    .from('submittal_register_items')
+    .select('dedupe_key')
+    .eq('id', body.generated_item_id)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
   const { error } = await svc
     .from('reconciliation_decisions')
     .upsert(
@@ -61,6 +71,7 @@ export async function POST(
         session_id: sessionId,
         external_row_id: body.external_row_id,
         generated_item_id: body.generated_item_id,
+        generated_dedupe_key: item?.dedupe_key ?? null,
         decision: body.decision,
         decided_by: user.id,
         decided_at: new Date().toISOString(),
@@ -5,12 +5,29 @@
  *
  * POST /api/projects/[id]/reconciliation
  *   Creates a new session, replacing the previous one.
- *   Body: { source_file_name: string, external_rows: NormalizedExternalRow[] }
+ *   Body: { source_file_name: string, external_rows: NormalizedExternalRow[], previous_session_id?: string }
+ *
+ *   With previous_session_id the upload is a re-sync of that session's log:
+ *   rows are compared with the previous upload and its match decisions are
+ *   carried onto unchanged rows (src/lib/reconciliation/submittal-log-resync.ts).
+ *   Carried decisions are re-pointed at the latest register run's items by
+ *   dedupe key; those whose item is gone are counted as stale, not carried.
+ *   The change summary is stored on the new session and returned.
+ *   Response: { session, decisions, changeSummary }
  */
 
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/db/supabase/server'
 import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { Json } from '@/lib/db/supabase/types'
+import type { NormalizedExternalRow } from '@/lib/reconciliation/submittal-log-normalizer'
+import { loadLatestSubmittalRegisterItemKeys } from '@/lib/chat/submittal-register-read'
+import {
+  indexRegisterItems,
+  planReconciliationResync,
+  type ExternalLogChangeSummary,
+  type ReconciliationDecisionRecord,
+} from '@/lib/reconciliation/submittal-log-resync'
 
 export async function GET(
   _request: Request,
@@ -33,7 +50,7 @@ export async function GET(
 
   const { data: session, error: sessionErr } = await svc
     .from('reconciliation_sessions')
-    .select('id, source_file_name, external_rows, status, created_at')
+    .select('id, source_file_name, external_rows, status, created_at, previous_session_id, change_summary')
     .eq('project_id', projectId)
     .order('created_at', { ascending: false })
     .limit(1)
@@ -44,7 +61,7 @@ export async function GET(
 
   const { data: decisions, error: decisionsErr } = await svc
     .from('reconciliation_decisions')
-    .select('external_row_id, generated_item_id, decision')
+    .select('external_row_id, generated_item_id, decision, carried_from_session_id')
     .eq('session_id', session.id)
 
   if (decisionsErr) return NextResponse.json({ error: decisionsErr.message }, { status: 500 })
@@ -69,7 +86,7 @@ export async function POST(
     .single()
   if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
 
-  let body: { source_file_name: string; external_rows: unknown[] }
+  let body: { source_file_name: string; external_rows: unknown[]; previous_session_id?: unknown }
   try {
     body = await request.json()
   } catch {
@@ -79,21 +96,104 @@ export async function POST(
   if (!body.source_file_name || !Array.isArray(body.external_rows)) {
     return NextResponse.json({ error: 'source_file_name and external_rows are required' }, { status: 400 })
   }
+  if (body.previous_session_id !== undefined && typeof body.previous_session_id !== 'string') {
+    return NextResponse.json({ error: 'previous_session_id must be a session id' }, { status: 400 })
+  }
 
   const svc = createServiceRoleClient()
 
+  let carried: ReconciliationDecisionRecord[] = []
+  let changeSummary: ExternalLogChangeSummary | null = null
+  if (body.previous_session_id) {
+    const { data: previous, error: previousErr } = await svc
+      .from('reconciliation_sessions')
+      .select('id, source_file_name, external_rows, created_at')
+      .eq('id', body.previous_session_id)
+      .eq('project_id', projectId)
+      .maybeSingle()
+    if (previousErr) return NextResponse.json({ error: previousErr.message }, { status: 500 })
+    if (!previous) return NextResponse.json({ error: 'Previous session not found' }, { status: 404 })
+
+    const { data: previousDecisions, error: decisionsErr } = await svc
+      .from('reconciliation_decisions')
+      .select('external_row_id, generated_item_id, generated_dedupe_key, decision, decided_by, decided_at, carried_from_session_id')
+      .eq('session_id', previous.id)
+    if (decisionsErr) return NextResponse.json({ error: decisionsErr.message }, { status: 500 })
+
+    // The register may have been regenerated since the previous session.
+    const register = await loadLatestSubmittalRegisterItemKeys(svc, projectId)
+    if (register.error) return NextResponse.json({ error: register.error }, { status: 500 })
+
+    const plan = planReconciliationResync(
+      {
+        sessionId: previous.id,
+        sourceFileName: previous.source_file_name,
+        createdAt: previous.created_at,
+        rows: (previous.external_rows as unknown as NormalizedExternalRow[]) ?? [],
+        decisions: (previousDecisions ?? []).map(d => ({
+          externalRowId: d.external_row_id,
+          generatedItemId: d.generated_item_id,
+          generatedDedupeKey: d.generated_dedupe_key,
+          decision: d.decision as ReconciliationDecisionRecord['decision'],
+          decidedBy: d.decided_by,
+          decidedAt: d.decided_at,
+          carriedFromSessionId: d.carried_from_session_id,
+        })),
+      },
+      body.external_rows as NormalizedExternalRow[],
+      indexRegisterItems(register.items)
+    )
+    carried = plan.decisions
+    changeSummary = plan.summary
+  }
+
   const { data: session, error } = await svc
     .from('reconciliation_sessions')
     .insert({
       project_id: projectId,
       source_file_name: body.source_file_name,
-      external_rows: body.external_rows as unknown as import('@/lib/db/supabase/types').Json,
+      external_rows: body.external_rows as unknown as Json,
       created_by: user.id,
+      previous_session_id: changeSummary?.previousSessionId ?? null,
+      change_summary: changeSummary as unknown as Json,
     })
-    .select('id, source_file_name, status, created_at')
+    .select('id, source_file_name, status, created_at, previous_session_id, change_summary')
     .single()
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 })
 
-  return NextResponse.json({ session }, { status: 201 })
+  if (carried.length > 0) {
+    const { error: carryErr } = await svc
+      .from('reconciliation_decisions')
+      .insert(carried.map(d => ({
+        session_id: session.id,
+        external_row_id: d.externalRowId,
+        generated_item_id: d.generatedItemId,
+        generated_dedupe_key: d.generatedDedupeKey,
+        decision: d.decision,
+        decided_by: d.decidedBy,
+        decided_at: d.decidedAt,
+        carried_from_session_id: d.carriedFromSessionId,
+      })))
+    if (carryErr) {
+      console.error('[ReconciliationRoute] Carrying decisions forward failed:', carryErr.message)
+      // Don't leave a re-sync session behind that silently lost its decisions.
+      await svc.from('reconciliation_sessions').delete().eq('id', session.id)
+      return NextResponse.json({ error: carryErr.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json(
+    {
+      session,
+      decisions: carried.map(d => ({
+        external_row_id: d.externalRowId,
+        generated_item_id: d.generatedItemId,
+        decision: d.decision,
+        carried_from_session_id: d.carriedFromSessionId,
+      })),
+      changeSummary,
+    },
+    { status: 201 }
+  )
 }
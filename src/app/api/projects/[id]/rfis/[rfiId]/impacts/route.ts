@@ -0,0 +1,103 @@
+/**
+ * GET  /api/projects/[id]/rfis/[rfiId]/impacts
+ *   What the RFI touches, as last traced (rfi_impacts): sheets, spec
+ *   sections, entities and submittals, each with the reasons it was matched.
+ *   Returns { impacts }.
+ *
+ * POST /api/projects/[id]/rfis/[rfiId]/impacts
+ *   Re-traces an answered or closed RFI — e.g. after new drawings were
+ *   ingested or the register was re-run — replacing its rfi_impacts rows and
+ *   re-flagging impacted submittals in the latest register run.
+ *   Returns { references, impacts, counts, flaggedItemIds, unflaggedItemIds }.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { RFI_COLUMNS } from '@/lib/rfi/rfi-persistence'
+import { loadRfiImpacts, traceAndStoreRfiImpact } from '@/lib/rfi/rfi-impact-persistence'
+import { rowToRfi, type RfiRow } from '@/lib/rfi/rfi-workflow'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string; rfiId: string } }
+) {
+  const { id: projectId, rfiId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiImpactRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { impacts, error } = await loadRfiImpacts(svc, projectId, { rfiId })
+  if (error) {
+    console.error('[RfiImpactRoute] Impact load failed:', error)
+    return NextResponse.json({ error: 'Failed to load RFI impacts' }, { status: 500 })
+  }
+
+  return NextResponse.json({ impacts })
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string; rfiId: string } }
+) {
+  const { id: projectId, rfiId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiImpactRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: row, error: fetchErr } = await svc
+    .from('rfis')
+    .select(RFI_COLUMNS)
+    .eq('id', rfiId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!row) return NextResponse.json({ error: 'RFI not found' }, { status: 404 })
+  const rfi = rowToRfi(row as unknown as RfiRow)
+
+  if (rfi.status !== 'answered' && rfi.status !== 'closed') {
+    return NextResponse.json({ error: 'Only answered RFIs can be traced' }, { status: 409 })
+  }
+
+  const traced = await traceAndStoreRfiImpact(svc, projectId, rfi)
+  if (traced.status === 'conflict') return NextResponse.json({ error: traced.error }, { status: 409 })
+  if (traced.status === 'error') {
+    console.error('[RfiImpactRoute] Impact trace failed:', traced.error)
+    return NextResponse.json({ error: traced.error }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    references: traced.trace.references,
+    impacts: traced.trace.targets,
+    counts: traced.trace.counts,
+    flaggedItemIds: traced.flaggedItemIds,
+    unflaggedItemIds: traced.unflaggedItemIds,
+  })
+}
@@ -0,0 +1,240 @@
+/**
+ * PATCH  /api/projects/[id]/rfis/[rfiId]
+ *   Body: { subject?, question?, suggestedSolution?, referencedSheets?,
+ *           specSections?, priority?, dueDate?, assignedTo?, response?,
+ *           answeredBy?, status?, note? }
+ *   Edits the RFI and/or moves it to a new status (buildRfiTransition in
+ *   src/lib/rfi/rfi-workflow.ts). Moving to 'answered' requires a response —
+ *   in the body or already on the RFI — and stamps answeredAt; answeredBy
+ *   records the responder. Each transition is appended to status_history.
+ *   Closed RFIs are read-only (409). An answered RFI's response can only be
+ *   cleared together with a move back to 'open' (409 otherwise).
+ *
+ *   Answering (or editing the response, referenced sheets or spec sections
+ *   of an answered RFI) traces what the RFI touches and flags impacted
+ *   submittals for re-review (src/lib/rfi/rfi-impact.ts).
+ *   Returns { rfi, impact? }; impact is
+ *   { counts, flaggedItemIds } or { error } when tracing failed — the RFI
+ *   update itself has been saved either way.
+ *
+ * DELETE /api/projects/[id]/rfis/[rfiId]
+ *   Drafts only; an issued RFI keeps its number and is closed instead (409).
+ *   404 when the RFI is not in this project.
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { Json } from '@/lib/db/supabase/types'
+import { RFI_COLUMNS } from '@/lib/rfi/rfi-persistence'
+import { traceAndStoreRfiImpact } from '@/lib/rfi/rfi-impact-persistence'
+import {
+  buildRfiTransition,
+  isRfiStatus,
+  RFI_PRIORITIES,
+  RFI_STATUSES,
+  rowToRfi,
+  type RfiPriority,
+  type RfiRow,
+  type RfiStatus,
+} from '@/lib/rfi/rfi-workflow'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+function cleanList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean))]
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; rfiId: string } }
+) {
+  const { id: projectId, rfiId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    subject?: string
+    question?: string
+    suggestedSolution?: string | null
+    referencedSheets?: unknown
+    specSections?: unknown
+    priority?: RfiPriority
+    dueDate?: string | null
+    assignedTo?: string | null
+    response?: string | null
+    answeredBy?: string | null
+    status?: string
+    note?: string
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.status !== undefined && !isRfiStatus(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${RFI_STATUSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.priority !== undefined && !RFI_PRIORITIES.includes(body.priority)) {
+    return NextResponse.json({ error: `priority must be one of: ${RFI_PRIORITIES.join(', ')}` }, { status: 400 })
+  }
+  if (body.dueDate && !ISO_DATE.test(body.dueDate)) {
+    return NextResponse.json({ error: 'dueDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  const updateRow: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (typeof body.subject === 'string' && body.subject.trim()) updateRow.subject = body.subject.trim()
+  if (typeof body.question === 'string' && body.question.trim()) updateRow.question = body.question.trim()
+  if ('suggestedSolution' in body) updateRow.suggested_solution = body.suggestedSolution?.trim() || null
+  if ('referencedSheets' in body) updateRow.referenced_sheets = cleanList(body.referencedSheets)
+  if ('specSections' in body) updateRow.spec_sections = cleanList(body.specSections)
+  if (body.priority) updateRow.priority = body.priority
+  if ('dueDate' in body) updateRow.due_date = body.dueDate || null
+  if ('assignedTo' in body) updateRow.assigned_to = body.assignedTo?.trim() || null
+  if ('response' in body) updateRow.response = body.response?.trim() || null
+  if ('answeredBy' in body) updateRow.answered_by = body.answeredBy?.trim() || null
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: currentRow, error: fetchErr } = await svc
+    .from('rfis')
+    .select(RFI_COLUMNS)
+    .eq('id', rfiId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!currentRow) return NextResponse.json({ error: 'RFI not found' }, { status: 404 })
+  const current = rowToRfi(currentRow as unknown as RfiRow)
+
+  if (current.status === 'closed') {
+    return NextResponse.json({ error: 'Closed RFIs cannot be edited' }, { status: 409 })
+  }
+
+  // An answered RFI keeps its response; clearing it means reopening the RFI.
+  const nextStatus = body.status ?? current.status
+  if (current.status === 'answered' && 'response' in body && !body.response?.trim() && nextStatus !== 'open') {
+    return NextResponse.json(
+      { error: 'An answered RFI must keep its response; reopen the RFI to clear it' },
+      { status: 409 }
+    )
+  }
+
+  if (body.status !== undefined && body.status !== current.status) {
+    const transition = buildRfiTransition(current, body.status as RfiStatus, {
+      response: body.response,
+      answeredBy: body.answeredBy,
+      by: auth.user.id,
+      note: body.note,
+    })
+    if (!transition.ok) return NextResponse.json({ error: transition.error }, { status: 409 })
+    updateRow.status = transition.entry.toStatus
+    updateRow.status_history = [...current.statusHistory, transition.entry] as unknown as Json
+    const { fields } = transition
+    if (fields.response !== undefined) updateRow.response = fields.response
+    if (fields.answeredBy !== undefined) updateRow.answered_by = fields.answeredBy
+    if (fields.openedAt !== undefined) updateRow.opened_at = fields.openedAt
+    if (fields.answeredAt !== undefined) updateRow.answered_at = fields.answeredAt
+    if (fields.closedAt !== undefined) updateRow.closed_at = fields.closedAt
+  }
+
+  // Guard on the status read above so a concurrent transition isn't overwritten.
+  const { data: updated, error: updateErr } = await svc
+    .from('rfis')
+    .update(updateRow)
+    .eq('id', rfiId)
+    .eq('project_id', projectId)
+    .eq('status', current.status)
+    .select(RFI_COLUMNS)
+    .maybeSingle()
+
+  if (updateErr) {
+    console.error('[RfiRoute] Update failed:', updateErr.message)
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+  if (!updated) {
+    return NextResponse.json({ error: 'RFI status changed since it was loaded; refresh and retry' }, { status: 409 })
+  }
+
+  const rfi = rowToRfi(updated as unknown as RfiRow)
+  // Re-trace on a new answer, or when an answered RFI's response or what it
+  // references changes — the stored impacts would otherwise go stale.
+  const retrace = rfi.status === 'answered' && (
+    current.status !== 'answered' || 'response' in body || 'referencedSheets' in body || 'specSections' in body
+  )
+  if (!retrace) return NextResponse.json({ rfi })
+
+  const traced = await traceAndStoreRfiImpact(svc, projectId, rfi)
+  if (traced.status !== 'traced') {
+    console.error('[RfiRoute] Impact trace failed:', traced.error)
+    return NextResponse.json({ rfi, impact: { error: traced.error } })
+  }
+  return NextResponse.json({
+    rfi,
+    impact: { counts: traced.trace.counts, flaggedItemIds: traced.flaggedItemIds },
+  })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string; rfiId: string } }
+) {
+  const { id: projectId, rfiId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: existing, error: fetchErr } = await svc
+    .from('rfis')
+    .select('id, status')
+    .eq('id', rfiId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!existing) return NextResponse.json({ error: 'RFI not found' }, { status: 404 })
+  if (existing.status !== 'draft') {
+    return NextResponse.json({ error: 'Only draft RFIs can be deleted' }, { status: 409 })
+  }
+
+  // Still guarded on status so an RFI issued since the read above is kept.
+  const { data: deleted, error } = await svc
+    .from('rfis')
+    .delete()
+    .eq('id', rfiId)
+    .eq('project_id', projectId)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    console.error('[RfiRoute] Delete failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: 'Only draft RFIs can be deleted' }, { status: 409 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,82 @@
+/**
+ * GET /api/projects/[id]/rfis/impacts?sheets=S-201,5/S-501
+ *   Answered and closed RFIs that impact any of the given sheets — detail
+ *   references count for their sheet. Drives the "Impacted by RFI-023" badge
+ *   under sheet-level chat answers.
+ *   Returns { impacts: [{ sheet, rfiId, rfiNumber, subject, status, label }] },
+ *   one entry per sheet and RFI, in RFI number order.
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadRfiImpacts } from '@/lib/rfi/rfi-impact-persistence'
+import { sheetKey } from '@/lib/rfi/rfi-impact'
+
+// Chat answers cite a handful of sheets; anything longer is not a badge lookup.
+const MAX_SHEETS = 50
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const raw = new URL(request.url).searchParams.get('sheets') ?? ''
+  const sheets = [...new Set(
+    raw.split(',').map(s => s.trim()).filter(Boolean).map(s => sheetKey(s.includes('/') ? s.split('/')[1] : s))
+  )].filter(Boolean)
+  if (sheets.length === 0) return NextResponse.json({ impacts: [] })
+  if (sheets.length > MAX_SHEETS) {
+    return NextResponse.json({ error: `At most ${MAX_SHEETS} sheets per request` }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiImpactRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { impacts, error } = await loadRfiImpacts(svc, projectId, { targetType: 'sheet', targetRefs: sheets })
+  if (error) {
+    console.error('[RfiImpactRoute] Impact load failed:', error)
+    return NextResponse.json({ error: 'Failed to load RFI impacts' }, { status: 500 })
+  }
+  if (impacts.length === 0) return NextResponse.json({ impacts: [] })
+
+  const { data: rfis, error: rfiErr } = await svc
+    .from('rfis')
+    .select('id, rfi_number, sequence, subject, status')
+    .eq('project_id', projectId)
+    .in('id', [...new Set(impacts.map(i => i.rfiId))])
+    .in('status', ['answered', 'closed'])
+  if (rfiErr) return NextResponse.json({ error: rfiErr.message }, { status: 500 })
+  const byId = new Map((rfis ?? []).map(r => [r.id, r]))
+
+  return NextResponse.json({
+    impacts: impacts
+      .filter(i => byId.has(i.rfiId))
+      .map(i => {
+        const r = byId.get(i.rfiId)!
+        return { sheet: i.targetRef, rfiId: r.id, rfiNumber: r.rfi_number, sequence: r.sequence, subject: r.subject, status: r.status, label: i.label }
+      })
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))
+      .map(({ sequence: _sequence, ...rest }) => rest),
+  })
+}
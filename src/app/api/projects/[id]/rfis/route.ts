@@ -0,0 +1,139 @@
+/**
+ * GET  /api/projects/[id]/rfis
+ *   The project's RFI log, in number order (src/lib/rfi/rfi-workflow.ts).
+ *   Returns { rfis }.
+ *
+ * POST /api/projects/[id]/rfis
+ *   Body: { subject, question, suggestedSolution?, referencedSheets?,
+ *           specSections?, priority?, dueDate?, assignedTo?, sourceQuestion?,
+ *           status?: 'draft' | 'open' }
+ *   Creates an RFI under the project's next number (RFI-001, RFI-002, …).
+ *   status defaults to 'draft'; 'open' issues it straight away.
+ *   sourceQuestion is the chat question the RFI was drafted from.
+ *   Returns { rfi }.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { Json } from '@/lib/db/supabase/types'
+import { insertNumberedRfi, loadRfis } from '@/lib/rfi/rfi-persistence'
+import { RFI_PRIORITIES, type RfiPriority, type RfiStatusHistoryEntry } from '@/lib/rfi/rfi-workflow'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+function cleanList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean))]
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { rfis, error } = await loadRfis(svc, projectId)
+  if (error) {
+    console.error('[RfiRoute] RFI load failed:', error)
+    return NextResponse.json({ error: 'Failed to load RFIs' }, { status: 500 })
+  }
+
+  return NextResponse.json({ rfis })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    subject?: string
+    question?: string
+    suggestedSolution?: string | null
+    referencedSheets?: unknown
+    specSections?: unknown
+    priority?: RfiPriority
+    dueDate?: string | null
+    assignedTo?: string | null
+    sourceQuestion?: string | null
+    status?: 'draft' | 'open'
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const subject = typeof body.subject === 'string' ? body.subject.trim() : ''
+  const question = typeof body.question === 'string' ? body.question.trim() : ''
+  if (!subject || !question) {
+    return NextResponse.json({ error: 'subject and question are required' }, { status: 400 })
+  }
+  if (body.priority !== undefined && !RFI_PRIORITIES.includes(body.priority)) {
+    return NextResponse.json({ error: `priority must be one of: ${RFI_PRIORITIES.join(', ')}` }, { status: 400 })
+  }
+  if (body.status !== undefined && body.status !== 'draft' && body.status !== 'open') {
+    return NextResponse.json({ error: "status must be 'draft' or 'open'" }, { status: 400 })
+  }
+  if (body.dueDate && !ISO_DATE.test(body.dueDate)) {
+    return NextResponse.json({ error: 'dueDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const now = new Date().toISOString()
+  const status = body.status ?? 'draft'
+  const history: RfiStatusHistoryEntry[] = [{ fromStatus: null, toStatus: status, changedAt: now, changedBy: auth.user.id }]
+
+  const { rfi, error } = await insertNumberedRfi(svc, projectId, {
+    subject,
+    question,
+    suggested_solution: body.suggestedSolution?.trim() || null,
+    referenced_sheets: cleanList(body.referencedSheets),
+    spec_sections: cleanList(body.specSections),
+    priority: body.priority ?? 'normal',
+    due_date: body.dueDate || null,
+    assigned_to: body.assignedTo?.trim() || null,
+    source_question: body.sourceQuestion?.trim() || null,
+    status,
+    status_history: history as unknown as Json,
+    opened_at: status === 'open' ? now : null,
+    created_by: auth.user.id,
+  })
+
+  if (error || !rfi) {
+    console.error('[RfiRoute] Insert failed:', error)
+    return NextResponse.json({ error: error ?? 'Failed to create RFI' }, { status: 500 })
+  }
+
+  return NextResponse.json({ rfi }, { status: 201 })
+}
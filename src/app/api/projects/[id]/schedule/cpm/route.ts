@@ -0,0 +1,121 @@
+/**
+ * GET /api/projects/[id]/schedule/cpm
+ *
+ * Runs our own CPM pass over a schedule version's activities and logic ties
+ * (src/lib/schedule/cpm-engine.ts) and returns recomputed early/late dates,
+ * total float and criticality, plus activities where the imported float
+ * disagrees with the recomputed value.
+ *
+ * Query:
+ *   version?        schedule_versions.id — defaults to the newest version
+ *   data_date?      YYYY-MM-DD — defaults to the version's data date
+ *   delay_activity? activity_id to delay for a what-if run
+ *   delay_days?     working days of delay (required with delay_activity)
+ *
+ * Read-only: the version rows keep the values from the uploaded file.
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { findFloatDiscrepancies, runCpm, simulateActivityDelay } from '@/lib/schedule/cpm-engine'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '@/lib/schedule/schedule-read'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const url = new URL(request.url)
+  const dataDateParam = url.searchParams.get('data_date')
+  if (dataDateParam && !ISO_DATE.test(dataDateParam)) {
+    return NextResponse.json({ error: 'data_date must be YYYY-MM-DD' }, { status: 400 })
+  }
+  const delayActivity = url.searchParams.get('delay_activity')
+  const delayDaysParam = url.searchParams.get('delay_days')
+  const delayDays = delayDaysParam === null ? null : Number(delayDaysParam)
+  if (delayActivity && (delayDays === null || !Number.isInteger(delayDays) || delayDays < 1)) {
+    return NextResponse.json({ error: 'delay_days must be a positive whole number' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleCpmRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  let versionId = url.searchParams.get('version')
+  if (!versionId) {
+    const { versions, error } = await listScheduleVersions(svc, projectId)
+    if (error) {
+      console.error('[ScheduleCpmRoute] schedule_versions query failed:', error)
+      return NextResponse.json({ error: 'Failed to load schedule versions' }, { status: 500 })
+    }
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'No schedule has been imported for this project' }, { status: 404 })
+    }
+    versionId = versions[0].id
+  }
+
+  const loaded = await loadScheduleVersionSnapshot(svc, projectId, versionId)
+  if (loaded.status === 'error') {
+    console.error('[ScheduleCpmRoute] Snapshot load failed:', loaded.error)
+    return NextResponse.json({ error: 'Failed to load schedule activities' }, { status: 500 })
+  }
+  if (loaded.status === 'not_found') {
+    return NextResponse.json({ error: 'Schedule version not found' }, { status: 404 })
+  }
+
+  const { snapshot } = loaded
+  const options = { dataDate: dataDateParam ?? snapshot.version.dataDate }
+
+  if (delayActivity && delayDays !== null) {
+    const simulated = simulateActivityDelay(snapshot, delayActivity, delayDays, options)
+    if (!simulated.ok) {
+      return NextResponse.json(
+        { error: simulated.error, cycle_activity_ids: simulated.cycleActivityIds },
+        { status: 422 }
+      )
+    }
+    return NextResponse.json({
+      version: snapshot.version,
+      result: simulated.base,
+      discrepancies: findFloatDiscrepancies(snapshot, simulated.base),
+      impact: simulated.impact,
+    })
+  }
+
+  const run = runCpm(snapshot, options)
+  if (!run.ok) {
+    return NextResponse.json({ error: run.error, cycle_activity_ids: run.cycleActivityIds }, { status: 422 })
+  }
+
+  return NextResponse.json({
+    version: snapshot.version,
+    result: run.result,
+    discrepancies: findFloatDiscrepancies(snapshot, run.result),
+  })
+}
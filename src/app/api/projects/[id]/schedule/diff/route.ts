@@ -0,0 +1,95 @@
+/**
+ * GET /api/projects/[id]/schedule/diff?from=<versionId>&to=<versionId>
+ *
+ * Slip report between two schedule versions of the project. Activities are
+ * matched on activity_id; see src/lib/schedule/schedule-diff.ts.
+ *
+ * Both params are optional: `to` defaults to the newest version and `from`
+ * to the version immediately before `to` — i.e. "what slipped since the last
+ * update".
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { diffScheduleVersions } from '@/lib/schedule/schedule-diff'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '@/lib/schedule/schedule-read'
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleDiffRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { versions, error: listError } = await listScheduleVersions(svc, projectId)
+  if (listError) {
+    console.error('[ScheduleDiffRoute] schedule_versions query failed:', listError)
+    return NextResponse.json({ error: 'Failed to load schedule versions' }, { status: 500 })
+  }
+  if (versions.length < 2) {
+    return NextResponse.json(
+      { error: 'At least two schedule versions are needed for a comparison', versions },
+      { status: 404 }
+    )
+  }
+
+  // versions are newest first
+  const url = new URL(request.url)
+  const toId = url.searchParams.get('to') ?? versions[0].id
+  const toIndex = versions.findIndex(v => v.id === toId)
+  if (toIndex === -1) {
+    return NextResponse.json({ error: 'Unknown "to" version' }, { status: 404 })
+  }
+  const fromId = url.searchParams.get('from') ?? versions[toIndex + 1]?.id
+  if (!fromId || !versions.some(v => v.id === fromId)) {
+    return NextResponse.json({ error: 'Unknown "from" version' }, { status: 404 })
+  }
+  if (fromId === toId) {
+    return NextResponse.json({ error: '"from" and "to" must be different versions' }, { status: 400 })
+  }
+
+  const [from, to] = await Promise.all([
+    loadScheduleVersionSnapshot(svc, projectId, fromId),
+    loadScheduleVersionSnapshot(svc, projectId, toId),
+  ])
+  for (const outcome of [from, to]) {
+    if (outcome.status === 'error') {
+      console.error('[ScheduleDiffRoute] Snapshot load failed:', outcome.error)
+      return NextResponse.json({ error: 'Failed to load schedule activities' }, { status: 500 })
+    }
+  }
+  if (from.status !== 'found' || to.status !== 'found') {
+    return NextResponse.json({ error: 'Schedule version not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    versions,
+    diff: diffScheduleVersions(from.snapshot, to.snapshot),
+  })
+}
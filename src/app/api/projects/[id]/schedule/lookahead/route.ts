@@ -0,0 +1,144 @@
+/**
+ * GET /api/projects/[id]/schedule/lookahead
+ *
+ * Builds a 3- or 6-week look-ahead from a schedule version
+ * (src/lib/schedule/lookahead.ts): incomplete activities whose span
+ * intersects the window, each with its open submittals, open RFIs and
+ * feature-of-work readiness.
+ *
+ * Query:
+ *   weeks?    3 | 6 — defaults to 3
+ *   as_of?    YYYY-MM-DD — defaults to today; the window starts the following
+ *             Monday when built Friday–Sunday, else this week's Monday
+ *   version?  schedule_versions.id — defaults to the newest version
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { queryOpenChanges } from '@/lib/chat/rfi-queries'
+import { syncFowSubmittalLinks } from '@/lib/graph/fow-links'
+import { rowToFowEntity } from '@/lib/graph/fow-readiness'
+import { loadProjectInspections } from '@/lib/graph/inspection-persistence'
+import { buildLookahead, LOOKAHEAD_WEEK_OPTIONS } from '@/lib/schedule/lookahead'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '@/lib/schedule/schedule-read'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const url = new URL(request.url)
+  const weeks = Number(url.searchParams.get('weeks') ?? 3)
+  if (!(LOOKAHEAD_WEEK_OPTIONS as readonly number[]).includes(weeks)) {
+    return NextResponse.json(
+      { error: `weeks must be one of: ${LOOKAHEAD_WEEK_OPTIONS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  const asOf = url.searchParams.get('as_of') ?? new Date().toISOString().slice(0, 10)
+  if (!ISO_DATE.test(asOf)) {
+    return NextResponse.json({ error: 'as_of must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[LookaheadRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  let versionId = url.searchParams.get('version')
+  if (!versionId) {
+    const { versions, error } = await listScheduleVersions(svc, projectId)
+    if (error) {
+      console.error('[LookaheadRoute] schedule_versions query failed:', error)
+      return NextResponse.json({ error: 'Failed to load schedule versions' }, { status: 500 })
+    }
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'No schedule has been imported for this project' }, { status: 404 })
+    }
+    versionId = versions[0].id
+  }
+
+  const loaded = await loadScheduleVersionSnapshot(svc, projectId, versionId)
+  if (loaded.status === 'error') {
+    console.error('[LookaheadRoute] Snapshot load failed:', loaded.error)
+    return NextResponse.json({ error: 'Failed to load schedule activities' }, { status: 500 })
+  }
+  if (loaded.status === 'not_found') {
+    return NextResponse.json({ error: 'Schedule version not found' }, { status: 404 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[LookaheadRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+
+  const { data: fowRows, error: fowErr } = await svc
+    .from('project_entities')
+    .select('id, project_id, canonical_name, display_name, discipline, status, metadata')
+    .eq('project_id', projectId)
+    .eq('entity_type', 'feature_of_work')
+
+  if (fowErr) {
+    console.error('[LookaheadRoute] FOW query failed:', fowErr.message)
+    return NextResponse.json({ error: 'Failed to load features of work' }, { status: 500 })
+  }
+
+  const submittals = register.status === 'found' ? register.run.items : []
+  const fows = (fowRows ?? []).map(rowToFowEntity)
+
+  const { links: fowLinks, error: linkErr } = await syncFowSubmittalLinks(svc, projectId, fows, submittals)
+  if (linkErr) {
+    console.error('[LookaheadRoute] FOW link load failed:', linkErr)
+    return NextResponse.json({ error: 'Failed to load feature-of-work links' }, { status: 500 })
+  }
+
+  const { inspections, error: inspectionErr } = await loadProjectInspections(svc, projectId)
+  if (inspectionErr) {
+    console.error('[LookaheadRoute] Inspection load failed:', inspectionErr)
+    return NextResponse.json({ error: 'Failed to load inspections' }, { status: 500 })
+  }
+
+  // queryOpenChanges logs and returns an empty result on failure — RFIs are
+  // supporting context, so a missing RFI set still yields a usable look-ahead.
+  const rfis = await queryOpenChanges(svc, projectId)
+
+  const lookahead = buildLookahead({
+    snapshot: loaded.snapshot,
+    asOf,
+    weeks,
+    submittals,
+    rfis: rfis.open,
+    fows,
+    fowLinks,
+    inspections,
+  })
+
+  return NextResponse.json({ lookahead })
+}
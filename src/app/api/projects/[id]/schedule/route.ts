@@ -0,0 +1,143 @@
+/**
+ * GET  /api/projects/[id]/schedule
+ *   Lists schedule_versions for the project, newest first.
+ *
+ * POST /api/projects/[id]/schedule
+ *   Imports a Primavera P6 .xer or MS Project .xml export as a new schedule
+ *   version (activities + logic ties). Prior versions are left untouched.
+ *   Body: { file_name, content, description?, is_baseline? }
+ *     content — raw file text (the browser reads the file with File.text()).
+ *
+ * Auth: any project member to read; owner or editor to write.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { parseScheduleFile } from '@/lib/schedule/schedule-parser'
+import { persistScheduleVersion } from '@/lib/schedule/schedule-persistence'
+import { listScheduleVersions } from '@/lib/schedule/schedule-read'
+
+// XER exports for large programs run to tens of MB; anything beyond this is
+// almost certainly not a schedule export.
+const MAX_CONTENT_LENGTH = 50 * 1024 * 1024
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { versions, error } = await listScheduleVersions(svc, projectId)
+  if (error) {
+    console.error('[ScheduleRoute] schedule_versions query failed:', error)
+    return NextResponse.json({ error: 'Failed to load schedule versions' }, { status: 500 })
+  }
+
+  return NextResponse.json({ versions })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  if (!['owner', 'editor'].includes(membership.role ?? '')) {
+    return NextResponse.json({ error: 'Only project owners and editors can import schedules' }, { status: 403 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = (await request.json()) as Record<string, unknown>
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const fileName = typeof body.file_name === 'string' ? body.file_name.trim() : ''
+  if (!fileName) {
+    return NextResponse.json({ error: 'file_name is required' }, { status: 400 })
+  }
+  const content = body.content
+  if (typeof content !== 'string' || !content) {
+    return NextResponse.json({ error: 'content is required' }, { status: 400 })
+  }
+  if (content.length > MAX_CONTENT_LENGTH) {
+    return NextResponse.json({ error: 'Schedule file is too large' }, { status: 413 })
+  }
+
+  const parsed = parseScheduleFile(fileName, content)
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 422 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const outcome = await persistScheduleVersion(svc, {
+    projectId,
+    schedule: parsed.schedule,
+    sourceFileName: fileName,
+    description: typeof body.description === 'string' ? body.description.trim() || null : null,
+    isBaseline: body.is_baseline === true,
+    createdByUserId: user.id,
+  })
+
+  if (outcome.status !== 'completed') {
+    console.error('[ScheduleRoute] Import failed:', outcome.error)
+    return NextResponse.json({ error: outcome.error ?? 'Schedule import failed' }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    version_id: outcome.versionId,
+    version_number: outcome.versionNumber,
+    format: parsed.schedule.format,
+    data_date: parsed.schedule.dataDate,
+    activities_written: outcome.activitiesWritten,
+    relationships_written: outcome.relationshipsWritten,
+    warnings: parsed.schedule.warnings,
+  }, { status: 201 })
+}
@@ -0,0 +1,195 @@
+/**
+ * PATCH  /api/projects/[id]/submittal-packages/[packageId]
+ *   Body: { title?, purpose?, specSection?, toParty?, fromParty?, dueDate?,
+ *           remarks?, dedupeKeys?, status?, note? }
+ *   status runs the package transition (draft → transmitted → returned →
+ *   closed, returned → transmitted to resubmit) and appends status_history.
+ *   dedupeKeys replaces the member list; only while the package is a draft or
+ *   returned, and every key must be on the latest register run.
+ *
+ * DELETE /api/projects/[id]/submittal-packages/[packageId]
+ *   Draft packages only — anything transmitted is part of the record.
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { loadSubmittalPackage, SUBMITTAL_PACKAGE_COLUMNS } from '@/lib/chat/submittal-packages-read'
+import {
+  buildPackageTransition,
+  PACKAGE_PURPOSES,
+  PACKAGE_STATUSES,
+  rowToSubmittalPackage,
+  summarizePackage,
+  type SubmittalPackagePurpose,
+  type SubmittalPackageRow,
+  type SubmittalPackageStatus,
+} from '@/lib/chat/submittal-packages'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; packageId: string } }
+) {
+  const { id: projectId, packageId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    title?: string
+    purpose?: SubmittalPackagePurpose
+    specSection?: string | null
+    toParty?: string | null
+    fromParty?: string | null
+    dueDate?: string | null
+    remarks?: string | null
+    dedupeKeys?: unknown
+    status?: SubmittalPackageStatus
+    note?: string
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  if (body.purpose !== undefined && !PACKAGE_PURPOSES.includes(body.purpose)) {
+    return NextResponse.json({ error: `purpose must be one of: ${PACKAGE_PURPOSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.status !== undefined && !PACKAGE_STATUSES.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${PACKAGE_STATUSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.dueDate && !ISO_DATE.test(body.dueDate)) {
+    return NextResponse.json({ error: 'dueDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+  let dedupeKeys: string[] | undefined
+  if ('dedupeKeys' in body) {
+    dedupeKeys = Array.isArray(body.dedupeKeys)
+      ? [...new Set(body.dedupeKeys.filter((k): k is string => typeof k === 'string' && k.trim() !== ''))]
+      : []
+    if (dedupeKeys.length === 0) {
+      return NextResponse.json({ error: 'dedupeKeys must list at least one submittal' }, { status: 400 })
+    }
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalPackagesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { pkg: current, error: fetchErr } = await loadSubmittalPackage(svc, projectId, packageId)
+  if (fetchErr) return NextResponse.json({ error: fetchErr }, { status: 500 })
+  if (!current) return NextResponse.json({ error: 'Package not found' }, { status: 404 })
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[SubmittalPackagesRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+  const registerItems = register.status === 'found' ? register.run.items : []
+
+  const updateRow: Record<string, unknown> = { updated_at: new Date().toISOString() }
+
+  if (dedupeKeys) {
+    if (current.status !== 'draft' && current.status !== 'returned') {
+      return NextResponse.json(
+        { error: `Items cannot be changed while the package is ${current.status}` },
+        { status: 422 }
+      )
+    }
+    const onRegister = new Set(registerItems.map(i => i.dedupeKey).filter(Boolean))
+    const unknown = dedupeKeys.filter(k => !onRegister.has(k))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `${unknown.length} submittal(s) not found in the latest register`, unknownKeys: unknown },
+        { status: 404 }
+      )
+    }
+    updateRow.item_dedupe_keys = dedupeKeys
+  }
+
+  if (body.status && body.status !== current.status) {
+    const note = typeof body.note === 'string' ? body.note.trim() || undefined : undefined
+    const result = buildPackageTransition(current.status, body.status, auth.membership.role ?? undefined, note)
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: 422 })
+    updateRow.status = body.status
+    updateRow.status_history = [...current.statusHistory, result.entry]
+    if (result.timestamps.transmittedAt !== undefined) updateRow.transmitted_at = result.timestamps.transmittedAt
+    if (result.timestamps.returnedAt !== undefined) updateRow.returned_at = result.timestamps.returnedAt
+  }
+
+  if (typeof body.title === 'string' && body.title.trim()) updateRow.title = body.title.trim()
+  if (body.purpose) updateRow.purpose = body.purpose
+  if ('specSection' in body) updateRow.spec_section = body.specSection?.trim() || null
+  if ('toParty' in body) updateRow.to_party = body.toParty?.trim() || null
+  if ('fromParty' in body) updateRow.from_party = body.fromParty?.trim() || null
+  if ('dueDate' in body) updateRow.due_date = body.dueDate || null
+  if ('remarks' in body) updateRow.remarks = body.remarks?.trim() || null
+
+  const { data: updated, error: updateErr } = await svc
+    .from('submittal_packages')
+    .update(updateRow)
+    .eq('id', packageId)
+    .eq('project_id', projectId)
+    .select(SUBMITTAL_PACKAGE_COLUMNS)
+    .single()
+
+  if (updateErr) {
+    console.error('[SubmittalPackagesRoute] Update failed:', updateErr.message)
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+
+  const pkg = rowToSubmittalPackage(updated as SubmittalPackageRow)
+  return NextResponse.json({ package: pkg, rollup: summarizePackage(pkg, registerItems) })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string; packageId: string } }
+) {
+  const { id: projectId, packageId } = params
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalPackagesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { pkg, error: fetchErr } = await loadSubmittalPackage(svc, projectId, packageId)
+  if (fetchErr) return NextResponse.json({ error: fetchErr }, { status: 500 })
+  if (!pkg) return NextResponse.json({ error: 'Package not found' }, { status: 404 })
+  if (pkg.status !== 'draft') {
+    return NextResponse.json({ error: 'Only draft packages can be deleted' }, { status: 422 })
+  }
+
+  const { error } = await svc
+    .from('submittal_packages')
+    .delete()
+    .eq('id', packageId)
+    .eq('project_id', projectId)
+
+  if (error) {
+    console.error('[SubmittalPackagesRoute] Delete failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
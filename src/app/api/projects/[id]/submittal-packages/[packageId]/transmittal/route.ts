@@ -0,0 +1,105 @@
+/**
+ * GET /api/projects/[id]/submittal-packages/[packageId]/transmittal?format=pdf|html|doc
+ *
+ * Cover transmittal for a submittal package, generated from the latest
+ * register run (src/lib/export/transmittal-export.ts):
+ *   pdf   application/pdf download (default)
+ *   html  print-ready page, shown inline
+ *   doc   Word-compatible HTML download
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { loadSubmittalPackage } from '@/lib/chat/submittal-packages-read'
+import { buildTransmittal } from '@/lib/chat/submittal-packages'
+import {
+  renderTransmittalHtml,
+  renderTransmittalPdf,
+  transmittalFileName,
+} from '@/lib/export/transmittal-export'
+
+const FORMATS = ['pdf', 'html', 'doc'] as const
+type TransmittalFormat = (typeof FORMATS)[number]
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; packageId: string } }
+) {
+  const { id: projectId, packageId } = params
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const format = (new URL(request.url).searchParams.get('format') ?? 'pdf') as TransmittalFormat
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of: ${FORMATS.join(', ')}` }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[TransmittalRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { pkg, error: pkgErr } = await loadSubmittalPackage(svc, projectId, packageId)
+  if (pkgErr) return NextResponse.json({ error: pkgErr }, { status: 500 })
+  if (!pkg) return NextResponse.json({ error: 'Package not found' }, { status: 404 })
+
+  const { data: project, error: projectErr } = await svc
+    .from('projects')
+    .select('name, project_number, address')
+    .eq('id', projectId)
+    .maybeSingle()
+  if (projectErr) {
+    console.error('[TransmittalRoute] Project load failed:', projectErr.message)
+    return NextResponse.json({ error: projectErr.message }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[TransmittalRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+
+  const doc = buildTransmittal(
+    pkg,
+    register.status === 'found' ? register.run.items : [],
+    {
+      name: project?.name ?? 'Project',
+      projectNumber: project?.project_number ?? null,
+      address: project?.address ?? null,
+    },
+    new Date().toISOString().slice(0, 10)
+  )
+
+  if (format === 'pdf') {
+    return new NextResponse(renderTransmittalPdf(doc), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${transmittalFileName(doc, 'pdf')}"`,
+      },
+    })
+  }
+  if (format === 'doc') {
+    return new NextResponse(renderTransmittalHtml(doc, { word: true }), {
+      headers: {
+        'Content-Type': 'application/msword; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${transmittalFileName(doc, 'doc')}"`,
+      },
+    })
+  }
+  return new NextResponse(renderTransmittalHtml(doc), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  })
+}
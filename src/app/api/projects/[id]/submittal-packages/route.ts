@@ -0,0 +1,172 @@
+/**
+ * GET  /api/projects/[id]/submittal-packages
+ *   Every submittal package with its rollup against the latest register run
+ *   (src/lib/chat/submittal-packages.ts). Returns { packages: [{ package, rollup }] }.
+ *
+ * POST /api/projects/[id]/submittal-packages
+ *   Body: { title, dedupeKeys, purpose?, specSection?, toParty?, fromParty?,
+ *           dueDate?, remarks? }
+ *   Creates a draft package with the next PKG-NNN number. Every dedupeKey
+ *   must be on the latest register run.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import { loadSubmittalPackages, SUBMITTAL_PACKAGE_COLUMNS } from '@/lib/chat/submittal-packages-read'
+import {
+  nextPackageNumber,
+  PACKAGE_PURPOSES,
+  rowToSubmittalPackage,
+  summarizePackage,
+  type SubmittalPackagePurpose,
+  type SubmittalPackageRow,
+} from '@/lib/chat/submittal-packages'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalPackagesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { packages, error: packagesErr } = await loadSubmittalPackages(svc, projectId)
+  if (packagesErr) {
+    console.error('[SubmittalPackagesRoute] Package load failed:', packagesErr)
+    return NextResponse.json({ error: 'Failed to load submittal packages' }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[SubmittalPackagesRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+  const registerItems = register.status === 'found' ? register.run.items : []
+
+  return NextResponse.json({
+    packages: packages.map(pkg => ({ package: pkg, rollup: summarizePackage(pkg, registerItems) })),
+  })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let body: {
+    title?: string
+    dedupeKeys?: unknown
+    purpose?: SubmittalPackagePurpose
+    specSection?: string | null
+    toParty?: string | null
+    fromParty?: string | null
+    dueDate?: string | null
+    remarks?: string | null
+  }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const title = typeof body.title === 'string' ? body.title.trim() : ''
+  if (!title) return NextResponse.json({ error: 'title is required' }, { status: 400 })
+  const dedupeKeys = Array.isArray(body.dedupeKeys)
+    ? [...new Set(body.dedupeKeys.filter((k): k is string => typeof k === 'string' && k.trim() !== ''))]
+    : []
+  if (dedupeKeys.length === 0) {
+    return NextResponse.json({ error: 'dedupeKeys must list at least one submittal' }, { status: 400 })
+  }
+  if (body.purpose !== undefined && !PACKAGE_PURPOSES.includes(body.purpose)) {
+    return NextResponse.json({ error: `purpose must be one of: ${PACKAGE_PURPOSES.join(', ')}` }, { status: 400 })
+  }
+  if (body.dueDate && !ISO_DATE.test(body.dueDate)) {
+    return NextResponse.json({ error: 'dueDate must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalPackagesRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[SubmittalPackagesRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+  const onRegister = new Set(
+    register.status === 'found' ? register.run.items.map(i => i.dedupeKey).filter(Boolean) : []
+  )
+  const unknown = dedupeKeys.filter(k => !onRegister.has(k))
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `${unknown.length} submittal(s) not found in the latest register`, unknownKeys: unknown },
+      { status: 404 }
+    )
+  }
+
+  const { data: numbers, error: numbersErr } = await svc
+    .from('submittal_packages')
+    .select('package_number')
+    .eq('project_id', projectId)
+  if (numbersErr) {
+    console.error('[SubmittalPackagesRoute] Package number query failed:', numbersErr.message)
+    return NextResponse.json({ error: numbersErr.message }, { status: 500 })
+  }
+
+  const { data: inserted, error } = await svc
+    .from('submittal_packages')
+    .insert({
+      project_id: projectId,
+      package_number: nextPackageNumber((numbers ?? []).map(r => r.package_number)),
+      title,
+      spec_section: body.specSection?.trim() || null,
+      purpose: body.purpose ?? 'for_approval',
+      item_dedupe_keys: dedupeKeys,
+      to_party: body.toParty?.trim() || null,
+      from_party: body.fromParty?.trim() || null,
+      due_date: body.dueDate || null,
+      remarks: body.remarks?.trim() || null,
+      created_by: auth.user.id,
+    })
+    .select(SUBMITTAL_PACKAGE_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('[SubmittalPackagesRoute] Insert failed:', error.message)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const pkg = rowToSubmittalPackage(inserted as SubmittalPackageRow)
+  return NextResponse.json(
+    { package: pkg, rollup: summarizePackage(pkg, register.status === 'found' ? register.run.items : []) },
+    { status: 201 }
+  )
+}
@@ -0,0 +1,75 @@
+/**
+ * GET /api/projects/[id]/submittal-register/diff?base=<runId>&head=<runId>
+ *
+ * Diff between two completed submittal register runs: items added, removed
+ * and changed (type, SD code, approval authority, required action), paired by
+ * dedupeKey with a same-section title-similarity fallback
+ * (src/lib/chat/submittal-register-diff.ts). head defaults to the latest run.
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ *
+ * Response: { success, base: { id, completedAt }, head: { id, completedAt }, diff }
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import {
+  loadLatestSubmittalRegisterRun,
+  loadSubmittalRegisterRun,
+} from '@/lib/chat/submittal-register-read'
+import { diffSubmittalRegisters } from '@/lib/chat/submittal-register-diff'
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  const url = new URL(request.url)
+  const baseId = url.searchParams.get('base')
+  const headId = url.searchParams.get('head')
+  if (!baseId) return NextResponse.json({ error: 'base run id is required' }, { status: 400 })
+  if (baseId === headId) return NextResponse.json({ error: 'base and head must be different runs' }, { status: 400 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalRegisterDiff] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const [base, head] = await Promise.all([
+    loadSubmittalRegisterRun(svc, projectId, baseId),
+    headId ? loadSubmittalRegisterRun(svc, projectId, headId) : loadLatestSubmittalRegisterRun(svc, projectId),
+  ])
+  if (base.status === 'error') {
+    console.error('[SubmittalRegisterDiff] Base run read error:', base.error)
+    return NextResponse.json({ error: 'Failed to load base run' }, { status: 500 })
+  }
+  if (head.status === 'error') {
+    console.error('[SubmittalRegisterDiff] Head run read error:', head.error)
+    return NextResponse.json({ error: 'Failed to load head run' }, { status: 500 })
+  }
+  if (base.status === 'not_found') return NextResponse.json({ error: 'Base run not found' }, { status: 404 })
+  if (head.status === 'not_found') return NextResponse.json({ error: 'Head run not found' }, { status: 404 })
+  if (base.run.workflowRun.id === head.run.workflowRun.id) {
+    return NextResponse.json({ error: 'base and head must be different runs' }, { status: 400 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    base: { id: base.run.workflowRun.id, completedAt: base.run.workflowRun.completedAt },
+    head: { id: head.run.workflowRun.id, completedAt: head.run.workflowRun.completedAt },
+    diff: diffSubmittalRegisters(base.run.items, head.run.items),
+  })
+}
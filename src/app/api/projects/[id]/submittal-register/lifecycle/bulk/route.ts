@@ -0,0 +1,251 @@
+/**
+ * POST /api/projects/[id]/submittal-register/lifecycle/bulk
+ *
+ * Moves many submittal_register_items rows to one lifecycle status. Each item
+ * walks the shortest legal path (findTransitionPath) with the same history
+ * note on every step; payload changes — history, timestamps, revision chain,
+ * SLA due date — are the single-item route's (applyLifecycleStep in
+ * src/lib/chat/submittal-lifecycle-apply.ts). Items with no legal path, or
+ * whose path would record a review outcome on the way, are blocked and left
+ * alone, as are superseded items.
+ *
+ * dry_run: true returns the preview only. Otherwise every movable item is
+ * written in one transaction (apply_submittal_item_payloads, migration 00059);
+ * if any of them changed status since it was read — or since the preview,
+ * when expected_statuses is sent — nothing is written and the response is 409
+ * with a fresh preview.
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ *
+ * Body:
+ *   {
+ *     item_ids:            string[],                  // required, ≤ 500
+ *     to_status:           SubmittalLifecycleStatus,  // required
+ *     note?:               string,
+ *     dry_run?:            boolean,
+ *     expected_statuses?:  Record<itemId, SubmittalLifecycleStatus>  // from the preview
+ *   }
+ *
+ * Response: { success, dryRun, toStatus, counts, preview, applied }
+ *   applied: [{ itemId, updatedFields }] — empty on a dry run.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import {
+  ALL_LIFECYCLE_STATUSES,
+  type SubmittalLifecycleStatus,
+} from '@/lib/chat/submittal-lifecycle'
+import {
+  planBulkTransition,
+  type BulkTransitionCandidate,
+  type BulkTransitionPlan,
+} from '@/lib/chat/submittal-lifecycle-apply'
+import { loadSubmittalSlaConfig } from '@/lib/chat/submittal-sla-read'
+
+const MAX_BULK_ITEMS = 500
+
+// Item ids per read — keeps the PostgREST `in` filter well under gateway URL
+// limits (500 UUIDs is ~18 KB of query string).
+const ID_CHUNK = 200
+
+function isLifecycleStatus(v: unknown): v is SubmittalLifecycleStatus {
+  return typeof v === 'string' && (ALL_LIFECYCLE_STATUSES as string[]).includes(v)
+}
+
+function previewResponse(plan: BulkTransitionPlan) {
+  return { toStatus: plan.toStatus, counts: plan.counts, preview: plan.entries }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let body: Record<string, unknown>
+  try {
+    body = (await request.json()) as Record<string, unknown>
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const itemIds = Array.isArray(body.item_ids)
+    ? [...new Set(body.item_ids.filter((id): id is string => typeof id === 'string' && id !== ''))]
+    : []
+  if (itemIds.length === 0) {
+    return NextResponse.json({ error: 'item_ids must list at least one item' }, { status: 400 })
+  }
+  if (itemIds.length > MAX_BULK_ITEMS) {
+    return NextResponse.json({ error: `At most ${MAX_BULK_ITEMS} items per bulk transition` }, { status: 400 })
+  }
+
+  const toStatus = body.to_status
+  if (!isLifecycleStatus(toStatus)) {
+    return NextResponse.json(
+      { error: `to_status must be one of: ${ALL_LIFECYCLE_STATUSES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() || undefined : undefined
+  const dryRun = body.dry_run === true
+  const expected = body.expected_statuses && typeof body.expected_statuses === 'object'
+    ? (body.expected_statuses as Record<string, unknown>)
+    : null
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[BulkLifecycleRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const rows: Array<{
+    id: string
+    item_payload: unknown
+    workflow_run_id: string
+    spec_section: string | null
+    review_status: string | null
+  }> = []
+  for (let i = 0; i < itemIds.length; i += ID_CHUNK) {
+    const { data, error: fetchErr } = await svc
+      .from('submittal_register_items')
+      .select('id, item_payload, workflow_run_id, spec_section, review_status')
+      .eq('project_id', projectId)
+      .in('id', itemIds.slice(i, i + ID_CHUNK))
+
+    if (fetchErr) {
+      return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+    }
+    rows.push(...(data ?? []))
+  }
+  const found = new Set(rows.map(r => r.id))
+  const missing = itemIds.filter(id => !found.has(id))
+  if (missing.length > 0) {
+    return NextResponse.json(
+      { error: `${missing.length} item(s) not found`, missingItemIds: missing },
+      { status: 404 }
+    )
+  }
+
+  // Keep the caller's order so first submissions number in register order.
+  const byId = new Map(rows.map(r => [r.id, r]))
+  const candidates: BulkTransitionCandidate[] = itemIds.map(id => {
+    const row = byId.get(id)!
+    return {
+      itemId: row.id,
+      workflowRunId: row.workflow_run_id,
+      specSection: row.spec_section,
+      payload: row.item_payload as Record<string, unknown>,
+      reviewStatus: row.review_status,
+    }
+  })
+
+  // Base numbers already issued on each run touched.
+  const issuedNumbersByRun = new Map<string, Array<string | null>>()
+  for (const runId of new Set(candidates.map(c => c.workflowRunId))) {
+    const { data: siblings, error: siblingErr } = await svc
+      .from('submittal_register_items')
+      .select('submittal_number:item_payload->>submittalNumber')
+      .eq('project_id', projectId)
+      .eq('workflow_run_id', runId)
+    if (siblingErr) {
+      return NextResponse.json({ error: siblingErr.message }, { status: 500 })
+    }
+    issuedNumbersByRun.set(
+      runId,
+      ((siblings ?? []) as Array<{ submittal_number: string | null }>).map(r => r.submittal_number)
+    )
+  }
+
+  const sla = await loadSubmittalSlaConfig(svc, projectId)
+  if (sla.error) {
+    console.error('[BulkLifecycleRoute] SLA config load failed:', sla.error)
+  }
+
+  const plan = planBulkTransition(candidates, toStatus, {
+    by: membership.role ?? undefined,
+    note,
+    slaConfig: sla.config,
+    issuedNumbersByRun,
+  })
+
+  if (dryRun) {
+    return NextResponse.json({ success: true, dryRun: true, ...previewResponse(plan), applied: [] })
+  }
+
+  if (expected) {
+    const drifted = plan.entries.filter(e => e.itemId in expected && expected[e.itemId] !== e.fromStatus)
+    if (drifted.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${drifted.length} item(s) changed status since the preview`,
+          ...previewResponse(plan),
+        },
+        { status: 409 }
+      )
+    }
+  }
+
+  const movers = plan.entries.filter(e => e.outcome === 'move')
+  if (movers.length > 0) {
+    const updates = movers.map(e => ({
+      id: e.itemId,
+      expected_status: e.fromStatus,
+      item_payload: plan.payloads.get(e.itemId),
+    }))
+    const { error: applyErr } = await svc.rpc('apply_submittal_item_payloads', {
+      p_project_id: projectId,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      p_updates: updates as any,
+    })
+    if (applyErr) {
+      if (applyErr.code === '40001') {
+        return NextResponse.json({ error: applyErr.message, ...previewResponse(plan) }, { status: 409 })
+      }
+      console.error('[BulkLifecycleRoute] Apply failed:', applyErr.message)
+      return NextResponse.json({ error: applyErr.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    dryRun: false,
+    ...previewResponse(plan),
+    applied: movers.map(e => {
+      const payload = plan.payloads.get(e.itemId)!
+      return {
+        itemId: e.itemId,
+        updatedFields: {
+          lifecycleStatus: payload.lifecycleStatus,
+          lifecycleStatusHistory: payload.lifecycleStatusHistory,
+          lifecycleSubmittedAt: payload.lifecycleSubmittedAt ?? null,
+          lifecycleApprovedAt: payload.lifecycleApprovedAt ?? null,
+          lifecycleClosedAt: payload.lifecycleClosedAt ?? null,
+          lifecycleDueDate: payload.lifecycleDueDate ?? null,
+          submittalNumber: payload.submittalNumber ?? null,
+          revisions: payload.revisions ?? [],
+        },
+      }
+    }),
+  })
+}
@@ -8,6 +8,17 @@
  * lifecycle timestamps, and optionally updates metadata fields
  * (responsibleParty, dueDate, etc.).
  *
+ * Revisions (src/lib/chat/submittal-revisions.ts): → submitted opens the next
+ * revision, issuing the item's base submittal number on first submission;
+ * a review outcome closes it with the note as reviewer comments.
+ *
+ * Review due date (src/lib/chat/submittal-sla.ts): → submitted without an
+ * explicit due_date sets lifecycleDueDate from the project's review period for
+ * the item's approvalAuthority; the revision keeps it as reviewDueDate.
+ *
+ * Payload changes are made by applyLifecycleStep
+ * (src/lib/chat/submittal-lifecycle-apply.ts), shared with the bulk route.
+ *
  * Auth: any project member.
  * Write path: service-role.
  *
@@ -18,9 +29,10 @@
  *     note?:                 string,
  *     responsible_party?:    string | null,
  *     assigned_reviewer?:    string | null,
- *     due_date?:             string | null,     // YYYY-MM-DD
+ *     due_date?:             string | null,     // YYYY-MM-DD — overrides the SLA due date
  *     lead_time_days?:       number | null,
  *     long_lead_flag?:       boolean,
+ *     package_reference?:    string | null,     // → submitted only
  *   }
  */
 
@@ -29,11 +41,12 @@ import { createClient } from '@/lib/db/supabase/server'
 import { createServiceRoleClient } from '@/lib/db/supabase/service'
 import {
   ALL_LIFECYCLE_STATUSES,
-  buildTransition,
-  timestampFieldForStatus,
   type SubmittalLifecycleStatus,
-  type LifecycleHistoryEntry,
 } from '@/lib/chat/submittal-lifecycle'
+import { applyLifecycleStep, needsBaseNumber } from '@/lib/chat/submittal-lifecycle-apply'
+import { nextSubmittalBaseNumber } from '@/lib/chat/submittal-revisions'
+import type { SubmittalSlaConfig } from '@/lib/chat/submittal-sla'
+import { loadSubmittalSlaConfig } from '@/lib/chat/submittal-sla-read'
 
 function isLifecycleStatus(v: unknown): v is SubmittalLifecycleStatus {
   return typeof v === 'string' && (ALL_LIFECYCLE_STATUSES as string[]).includes(v)
@@ -92,7 +105,7 @@ export async function POST(
 
   const { data: current, error: fetchErr } = await svc
     .from('submittal_register_items')
-    .select('id, item_payload')
+    .select('id, item_payload, workflow_run_id, spec_section')
     .eq('id', itemId)
     .eq('project_id', projectId)
     .maybeSingle()
@@ -107,24 +120,47 @@ export async function POST(
   const payload = current.item_payload as Record<string, unknown>
   const fromStatus = (payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
 
-  const result = buildTransition(fromStatus, toStatus, membership.role ?? undefined, note)
-  if (!result.ok) {
-    return NextResponse.json({ error: result.error }, { status: 422 })
+  // Contract review period — a new review cycle gets its due date from the SLA
+  // unless the caller supplies one.
+  let slaConfig: SubmittalSlaConfig | null = null
+  if (toStatus === 'submitted' && !('due_date' in body)) {
+    const sla = await loadSubmittalSlaConfig(svc, projectId)
+    if (sla.error) {
+      console.error('[LifecycleRoute] SLA config load failed:', sla.error)
+    }
+    slaConfig = sla.config
   }
 
-  const history: LifecycleHistoryEntry[] = Array.isArray(payload.lifecycleStatusHistory)
-    ? (payload.lifecycleStatusHistory as LifecycleHistoryEntry[])
-    : []
-
-  const updatedPayload: Record<string, unknown> = {
-    ...payload,
-    lifecycleStatus: toStatus,
-    lifecycleStatusHistory: [...history, result.entry],
+  // Revision chain — a base number is only needed the first time through.
+  let nextBaseNumber: string | undefined
+  if (needsBaseNumber(payload, toStatus)) {
+    const { data: siblings, error: siblingErr } = await svc
+      .from('submittal_register_items')
+      .select('submittal_number:item_payload->>submittalNumber')
+      .eq('project_id', projectId)
+      .eq('workflow_run_id', current.workflow_run_id)
+    if (siblingErr) {
+      return NextResponse.json({ error: siblingErr.message }, { status: 500 })
+    }
+    nextBaseNumber = nextSubmittalBaseNumber(
+      current.spec_section,
+      ((siblings ?? []) as Array<{ submittal_number: string | null }>).map(r => r.submittal_number)
+    )
   }
 
-  // Set lifecycle timestamps for key transitions
-  const tsField = timestampFieldForStatus(toStatus)
-  if (tsField) updatedPayload[tsField] = result.entry.changedAt
+  const result = applyLifecycleStep(payload, toStatus, {
+    by: membership.role ?? undefined,
+    note,
+    packageReference: typeof body.package_reference === 'string' ? body.package_reference : null,
+    reviewDueDate: 'due_date' in body ? (typeof body.due_date === 'string' ? body.due_date : null) : undefined,
+    slaConfig,
+    nextBaseNumber,
+  })
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 422 })
+  }
+  const updatedPayload = result.payload
+  const tsField = result.timestampField
 
   // Optional metadata updates (only update if key present in body)
   if ('responsible_party' in body) updatedPayload.lifecycleResponsibleParty = body.responsible_party ?? null
@@ -159,6 +195,9 @@ export async function POST(
       lifecycleLeadTimeDays: updatedPayload.lifecycleLeadTimeDays ?? null,
       lifecycleLongLeadFlag: updatedPayload.lifecycleLongLeadFlag ?? false,
       lifecycleStatusHistory: updatedPayload.lifecycleStatusHistory,
+      ...(result.revisionsChanged
+        ? { submittalNumber: updatedPayload.submittalNumber, revisions: updatedPayload.revisions }
+        : {}),
     },
   })
 }
@@ -0,0 +1,129 @@
+/**
+ * POST /api/projects/[id]/submittal-register/regenerate
+ *
+ * Re-extracts the given spec sections and merges the result onto the latest
+ * register run by dedupeKey (src/lib/chat/submittal-register-merge.ts): items
+ * still found keep their lifecycle, revisions and review state; items no
+ * longer found in those sections are kept as superseded; new items are
+ * flagged for review. Sections not listed are carried over untouched.
+ *
+ * A section whose extraction fails or hits the item limit is left out of the
+ * supersede scope — its missing items are carried, not superseded — and named
+ * in `warnings`.
+ *
+ * Auth: project owner or editor.
+ * Write path: service-role (persistSubmittalRegisterRun).
+ *
+ * Body: { sections: string[] }   // e.g. ["03 30 00", "33 05"], prefix match, ≤ 20
+ *
+ * Response: { success, workflowRunId, itemsWritten, regeneration, warnings }
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import {
+  buildSubmittalRegisterFromSpecs,
+  type SubmittalRegisterItem,
+} from '@/lib/chat/submittal-register'
+import { persistSubmittalRegisterRun } from '@/lib/chat/submittal-register-persistence'
+
+const MAX_SECTIONS = 20
+const SECTION_LIMIT = 200
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const startedAt = new Date()
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  if (!['owner', 'editor'].includes(membership.role ?? '')) {
+    return NextResponse.json({ error: 'Only project owners and editors can regenerate the register' }, { status: 403 })
+  }
+
+  let body: { sections?: unknown }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const sections = Array.isArray(body.sections)
+    ? [...new Set(body.sections.filter((s): s is string => typeof s === 'string').map(s => s.trim()).filter(Boolean))]
+    : []
+  if (sections.length === 0) {
+    return NextResponse.json({ error: 'sections must list at least one spec section' }, { status: 400 })
+  }
+  if (sections.length > MAX_SECTIONS) {
+    return NextResponse.json({ error: `At most ${MAX_SECTIONS} sections per regeneration` }, { status: 400 })
+  }
+
+  const items: SubmittalRegisterItem[] = []
+  const scope: string[] = []
+  const warnings: string[] = []
+  for (const section of sections) {
+    const result = await buildSubmittalRegisterFromSpecs({
+      projectId,
+      supabase,
+      sectionFilter: section,
+      limit: SECTION_LIMIT,
+    })
+    items.push(...result.items)
+    if (!result.success) {
+      warnings.push(`${section}: ${result.notes[0] ?? 'extraction failed'} — existing items kept as they were`)
+    } else if (result.items.length >= SECTION_LIMIT) {
+      warnings.push(`${section}: hit the ${SECTION_LIMIT}-item limit — missing items were not superseded`)
+    } else {
+      scope.push(section)
+    }
+  }
+
+  if (scope.length === 0 && items.length === 0) {
+    return NextResponse.json(
+      { error: 'Nothing could be extracted for the requested sections', warnings },
+      { status: 422 }
+    )
+  }
+
+  const outcome = await persistSubmittalRegisterRun({
+    projectId,
+    result: {
+      success: true,
+      projectId,
+      source: 'spec_entity_graph',
+      items,
+      confidence: items.length > 0
+        ? Math.round((items.reduce((sum, i) => sum + (i.confidence ?? 0), 0) / items.length) * 100) / 100
+        : 0,
+      notes: [`Regenerated sections: ${sections.join(', ')}`],
+    },
+    inputs: {
+      sectionFilter: sections.join(', '),
+      keyword: null,
+      limit: SECTION_LIMIT * sections.length,
+      taskType: 'submittal_register_regenerate',
+    },
+    triggeredByUserId: user.id,
+    triggeredByRole: membership.role ?? null,
+    startedAt,
+    merge: { sections: scope, supersedeMissing: true },
+  })
+
+  if (outcome.status !== 'completed') {
+    console.error('[RegenerateRoute] Persistence did not complete:', outcome.warning)
+    return NextResponse.json(
+      { error: 'Failed to save the regenerated register', warnings },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    workflowRunId: outcome.workflowRunId,
+    itemsWritten: outcome.itemsWritten,
+    regeneration: outcome.regeneration ?? null,
+    warnings,
+  })
+}
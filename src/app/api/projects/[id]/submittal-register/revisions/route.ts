@@ -0,0 +1,143 @@
+/**
+ * PATCH /api/projects/[id]/submittal-register/revisions
+ *
+ * Edits one revision in a submittal register item's revision chain
+ * (item_payload.revisions). Revisions are opened and closed by lifecycle
+ * transitions; this route only corrects what was submitted and what came
+ * back — package reference, reviewer, comments and dates.
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ *
+ * Body:
+ *   {
+ *     item_id:             string,          // required
+ *     revision:            number,          // required — 0 = original submission
+ *     package_reference?:  string | null,
+ *     reviewer?:           string | null,
+ *     reviewer_comments?:  string | null,
+ *     submitted_at?:       string,          // YYYY-MM-DD or ISO timestamp
+ *     returned_at?:        string,          // only on a returned revision
+ *   }
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import type { SubmittalRevision } from '@/lib/chat/submittal-revisions'
+
+const ISO_DATE_OR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/
+
+function optionalText(v: unknown): string | null {
+  return typeof v === 'string' ? v.trim() || null : null
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let body: Record<string, unknown>
+  try {
+    body = (await request.json()) as Record<string, unknown>
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const itemId = body.item_id
+  if (typeof itemId !== 'string' || !itemId) {
+    return NextResponse.json({ error: 'item_id is required' }, { status: 400 })
+  }
+  const revisionNumber = body.revision
+  if (typeof revisionNumber !== 'number' || !Number.isInteger(revisionNumber) || revisionNumber < 0) {
+    return NextResponse.json({ error: 'revision must be a non-negative integer' }, { status: 400 })
+  }
+  for (const field of ['submitted_at', 'returned_at'] as const) {
+    if (!(field in body)) continue
+    const value = body[field]
+    if (typeof value !== 'string' || !ISO_DATE_OR_TIMESTAMP.test(value)) {
+      return NextResponse.json({ error: `${field} must be YYYY-MM-DD or an ISO timestamp` }, { status: 400 })
+    }
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RevisionsRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: current, error: fetchErr } = await svc
+    .from('submittal_register_items')
+    .select('id, item_payload')
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
+  if (fetchErr) {
+    return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  }
+  if (!current) {
+    return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+  }
+
+  const payload = current.item_payload as Record<string, unknown>
+  const revisions: SubmittalRevision[] = Array.isArray(payload.revisions)
+    ? (payload.revisions as SubmittalRevision[])
+    : []
+  const index = revisions.findIndex(r => r.revision === revisionNumber)
+  if (index === -1) {
+    return NextResponse.json({ error: `Revision ${revisionNumber} not found` }, { status: 404 })
+  }
+
+  const updated: SubmittalRevision = { ...revisions[index] }
+  if ('package_reference' in body) updated.packageReference = optionalText(body.package_reference)
+  if ('reviewer' in body) updated.reviewer = optionalText(body.reviewer)
+  if ('reviewer_comments' in body) updated.reviewerComments = optionalText(body.reviewer_comments)
+  if (typeof body.submitted_at === 'string') updated.submittedAt = body.submitted_at
+  if (typeof body.returned_at === 'string') {
+    if (updated.disposition === null) {
+      return NextResponse.json({ error: 'returned_at can only be set on a returned revision' }, { status: 422 })
+    }
+    updated.returnedAt = body.returned_at
+  }
+  if (updated.returnedAt && updated.returnedAt.slice(0, 10) < updated.submittedAt.slice(0, 10)) {
+    return NextResponse.json({ error: 'returned_at is before submitted_at' }, { status: 422 })
+  }
+
+  const nextRevisions = revisions.map((r, i) => (i === index ? updated : r))
+
+  const { error: updateErr } = await svc
+    .from('submittal_register_items')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .update({ item_payload: { ...payload, revisions: nextRevisions } as any })
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+
+  if (updateErr) {
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    itemId,
+    updatedFields: { revisions: nextRevisions },
+  })
+}
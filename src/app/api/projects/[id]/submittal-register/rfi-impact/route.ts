@@ -0,0 +1,106 @@
+/**
+ * POST /api/projects/[id]/submittal-register/rfi-impact
+ *
+ * Marks a submittal flagged by an answered RFI as re-reviewed — the pending
+ * rfiImpacts entry for that RFI is cleared (src/lib/rfi/rfi-impact.ts).
+ *
+ * Auth: any project member.
+ * Write path: service-role.
+ *
+ * Body:
+ *   {
+ *     item_id: string,   // submittal_register_items.id
+ *     rfi_id:  string
+ *   }
+ *
+ * Returns { rfiImpacts } — the item's updated list.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { clearSubmittalRfiImpact, type SubmittalRfiImpact } from '@/lib/rfi/rfi-impact'
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let body: Record<string, unknown>
+  try {
+    body = (await request.json()) as Record<string, unknown>
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const itemId = body.item_id
+  const rfiId = body.rfi_id
+  if (typeof itemId !== 'string' || itemId.length === 0 || typeof rfiId !== 'string' || rfiId.length === 0) {
+    return NextResponse.json({ error: 'item_id and rfi_id are required' }, { status: 400 })
+  }
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[RfiImpactReview] Service-role client unavailable:', err)
+    return NextResponse.json(
+      { error: 'Service-role client unavailable' },
+      { status: 500 }
+    )
+  }
+
+  const { data: current, error: fetchErr } = await svc
+    .from('submittal_register_items')
+    .select('id, item_payload')
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
+  if (fetchErr) {
+    return NextResponse.json({ error: 'Fetch failed: ' + fetchErr.message }, { status: 500 })
+  }
+  if (!current) {
+    return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+  }
+
+  const payload = current.item_payload as Record<string, unknown>
+  const rfiImpacts = clearSubmittalRfiImpact(
+    payload.rfiImpacts as SubmittalRfiImpact[] | undefined,
+    rfiId,
+    membership.role ?? null,
+    new Date().toISOString()
+  )
+  if (!rfiImpacts) {
+    return NextResponse.json({ error: 'Item is not flagged by this RFI' }, { status: 404 })
+  }
+
+  const { error: updateErr } = await svc
+    .from('submittal_register_items')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .update({ item_payload: { ...payload, rfiImpacts } as any })
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+
+  if (updateErr) {
+    return NextResponse.json({ error: 'Update failed: ' + updateErr.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, itemId, rfiImpacts })
+}
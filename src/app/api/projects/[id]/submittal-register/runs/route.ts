@@ -0,0 +1,46 @@
+/**
+ * GET /api/projects/[id]/submittal-register/runs
+ *
+ * Completed submittal_register workflow runs for the project, newest first —
+ * the run picker for the register diff (GET /submittal-register/diff).
+ *
+ * Auth: any project member.
+ * Read path: service-role.
+ *
+ * Response: { success, runs: [{ id, completedAt, triggeredByRole, inputs, totalItemCount }] }
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { listSubmittalRegisterRuns } from '@/lib/chat/submittal-register-read'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SubmittalRegisterRuns] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { runs, error } = await listSubmittalRegisterRuns(svc, projectId)
+  if (error) {
+    console.error('[SubmittalRegisterRuns] Read error:', error)
+    return NextResponse.json({ error: 'Failed to load register runs' }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, runs })
+}
@@ -0,0 +1,282 @@
+/**
+ * GET  /api/projects/[id]/submittal-register/schedule-links
+ * POST /api/projects/[id]/submittal-register/schedule-links
+ *
+ * Links submittal register items to activities in the project's latest
+ * schedule version and reports approval-vs-start risk
+ * (src/lib/schedule/submittal-schedule-risk.ts).
+ *
+ * GET returns, for every persisted item in the latest register run that is
+ * not superseded:
+ *   risk         projected approval / ready-for-work vs the activity start
+ *   suggestions  ranked activity candidates — unlinked items only
+ *   impact       for late linked items: project finish slip if the activity
+ *                is held until the material is ready (CPM what-if)
+ *
+ * POST confirms (or clears) a link. Body (camelCase, like qa-patch):
+ *   {
+ *     itemId:      string,          // required
+ *     activityId:  string | null,   // null clears the link
+ *     matchMethod?: 'activity_code' | 'name' | 'wbs' | 'manual',
+ *     matchScore?:  number | null,
+ *   }
+ * The activity must exist in the latest schedule version. Confirming also
+ * fills scheduleActivity / activityStartDate from the activity, and
+ * activityNeedByDate when the item has none.
+ *
+ * Auth: any project member.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '@/lib/chat/submittal-register-read'
+import type { SubmittalRegisterItem, SubmittalScheduleLink } from '@/lib/chat/submittal-register'
+import { isSupersededItem } from '@/lib/chat/submittal-register-merge'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '@/lib/schedule/schedule-read'
+import type { ScheduleActivity, ScheduleVersionSnapshot } from '@/lib/schedule/schedule-model'
+import { simulateActivityDelay, workingDaysBetween } from '@/lib/schedule/cpm-engine'
+import {
+  computeSubmittalScheduleRisk,
+  needsScheduleLink,
+  suggestActivityMatches,
+  summarizeSubmittalScheduleRisk,
+  type ActivityMatchCandidate,
+  type SubmittalScheduleRisk,
+} from '@/lib/schedule/submittal-schedule-risk'
+
+const MATCH_METHODS = ['activity_code', 'name', 'wbs', 'manual'] as const
+
+/** CPM what-if runs are full network passes — only the worst offenders get one. */
+const MAX_IMPACT_RUNS = 20
+
+interface SubmittalScheduleLinkRow {
+  itemId: string
+  risk: SubmittalScheduleRisk
+  suggestions: ActivityMatchCandidate[]
+  /** Calendar days the project finish slips if the linked activity waits for this item; null when not computed. */
+  projectFinishImpactDays: number | null
+}
+
+type LatestSnapshotOutcome =
+  | { status: 'found'; snapshot: ScheduleVersionSnapshot }
+  | { status: 'not_found' }
+  | { status: 'error'; error: string }
+
+async function loadLatestSnapshot(
+  svc: ReturnType<typeof createServiceRoleClient>,
+  projectId: string
+): Promise<LatestSnapshotOutcome> {
+  const { versions, error } = await listScheduleVersions(svc, projectId)
+  if (error) return { status: 'error', error }
+  if (versions.length === 0) return { status: 'not_found' }
+  const loaded = await loadScheduleVersionSnapshot(svc, projectId, versions[0].id)
+  if (loaded.status === 'error') return { status: 'error', error: loaded.error }
+  if (loaded.status === 'not_found') return { status: 'not_found' }
+  return { status: 'found', snapshot: loaded.snapshot }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleLinksRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(svc, projectId)
+  if (register.status === 'error') {
+    console.error('[ScheduleLinksRoute] Register load failed:', register.error)
+    return NextResponse.json({ error: 'Failed to load submittal register' }, { status: 500 })
+  }
+  const items: SubmittalRegisterItem[] =
+    register.status === 'found' ? register.run.items.filter(i => i.persistedItemId && !isSupersededItem(i)) : []
+
+  const latest = await loadLatestSnapshot(svc, projectId)
+  if (latest.status === 'error') {
+    console.error('[ScheduleLinksRoute] Schedule load failed:', latest.error)
+    return NextResponse.json({ error: 'Failed to load schedule' }, { status: 500 })
+  }
+  const snapshot = latest.status === 'found' ? latest.snapshot : null
+  const byActivityId = new Map<string, ScheduleActivity>(
+    (snapshot?.activities ?? []).map(a => [a.activityId, a])
+  )
+
+  const now = today()
+  const rows: SubmittalScheduleLinkRow[] = items.map(item => {
+    const link = item.scheduleActivityLink ?? null
+    const activity = link ? byActivityId.get(link.activityId) ?? null : null
+    return {
+      itemId: item.persistedItemId!,
+      risk: computeSubmittalScheduleRisk(item, activity, { today: now }),
+      suggestions:
+        snapshot && !link && needsScheduleLink(item)
+          ? suggestActivityMatches(item, snapshot.activities)
+          : [],
+      projectFinishImpactDays: null,
+    }
+  })
+
+  if (snapshot) {
+    const lateLinked = rows
+      .filter(r => r.risk.level === 'late' && r.risk.linkStatus === 'linked' && r.risk.needBySource === 'activity')
+      .sort((a, b) => (b.risk.daysLate ?? 0) - (a.risk.daysLate ?? 0))
+      .slice(0, MAX_IMPACT_RUNS)
+    for (const row of lateLinked) {
+      const { activityId, needByDate, projectedReadyDate } = row.risk
+      if (!activityId || !needByDate || !projectedReadyDate) continue
+      const delayDays = workingDaysBetween(needByDate, projectedReadyDate)
+      if (delayDays < 1) continue
+      const simulated = simulateActivityDelay(snapshot, activityId, delayDays, {
+        dataDate: snapshot.version.dataDate,
+      })
+      // A cyclic network has no meaningful impact; leave the row without one.
+      if (simulated.ok) row.projectFinishImpactDays = simulated.impact.projectFinishSlipDays
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    scheduleVersion: snapshot?.version ?? null,
+    summary: summarizeSubmittalScheduleRisk(rows.map(r => r.risk)),
+    items: rows,
+  })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+  const { user } = auth
+
+  let body: Record<string, unknown>
+  try {
+    body = (await request.json()) as Record<string, unknown>
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const itemId = body.itemId
+  if (typeof itemId !== 'string' || !itemId) {
+    return NextResponse.json({ error: 'itemId is required' }, { status: 400 })
+  }
+  if (!('activityId' in body) || (body.activityId !== null && (typeof body.activityId !== 'string' || !body.activityId))) {
+    return NextResponse.json({ error: 'activityId must be a string or null' }, { status: 400 })
+  }
+  const activityId = body.activityId as string | null
+  const matchMethod = body.matchMethod ?? 'manual'
+  if (!(MATCH_METHODS as readonly unknown[]).includes(matchMethod)) {
+    return NextResponse.json(
+      { error: `matchMethod must be one of: ${MATCH_METHODS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  const matchScore = typeof body.matchScore === 'number' && Number.isFinite(body.matchScore) ? body.matchScore : null
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[ScheduleLinksRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: current, error: fetchErr } = await svc
+    .from('submittal_register_items')
+    .select('id, item_payload')
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!current) return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+
+  const payload = current.item_payload as Record<string, unknown>
+  const updatedPayload: Record<string, unknown> = { ...payload }
+  const updatedFields: Record<string, unknown> = {}
+  let activity: ScheduleActivity | null = null
+
+  if (activityId === null) {
+    updatedPayload.scheduleActivityLink = null
+    updatedFields.scheduleActivityLink = null
+  } else {
+    const latest = await loadLatestSnapshot(svc, projectId)
+    if (latest.status === 'error') {
+      console.error('[ScheduleLinksRoute] Schedule load failed:', latest.error)
+      return NextResponse.json({ error: 'Failed to load schedule' }, { status: 500 })
+    }
+    if (latest.status === 'not_found') {
+      return NextResponse.json({ error: 'No schedule has been imported for this project' }, { status: 404 })
+    }
+    activity = latest.snapshot.activities.find(a => a.activityId === activityId) ?? null
+    if (!activity) {
+      return NextResponse.json(
+        { error: `Activity ${activityId} is not in the latest schedule version` },
+        { status: 422 }
+      )
+    }
+
+    const link: SubmittalScheduleLink = {
+      activityId: activity.activityId,
+      activityName: activity.activityName,
+      scheduleVersionId: latest.snapshot.version.id,
+      matchMethod: matchMethod as SubmittalScheduleLink['matchMethod'],
+      matchScore,
+      confirmedAt: new Date().toISOString(),
+      confirmedBy: user.email ?? user.id,
+    }
+    updatedPayload.scheduleActivityLink = link
+    updatedPayload.scheduleActivity = `${activity.activityId} ${activity.activityName}`
+    updatedPayload.activityStartDate = activity.earlyStart
+    updatedFields.scheduleActivityLink = link
+    updatedFields.scheduleActivity = updatedPayload.scheduleActivity
+    updatedFields.activityStartDate = updatedPayload.activityStartDate
+    if (!payload.activityNeedByDate && activity.earlyStart) {
+      updatedPayload.activityNeedByDate = activity.earlyStart
+      updatedFields.activityNeedByDate = activity.earlyStart
+    }
+  }
+
+  const { error: updateErr } = await svc
+    .from('submittal_register_items')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .update({ item_payload: updatedPayload as any })
+    .eq('id', itemId)
+    .eq('project_id', projectId)
+
+  if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 })
+
+  const risk = computeSubmittalScheduleRisk(
+    updatedPayload as unknown as SubmittalRegisterItem,
+    activity,
+    { today: today() }
+  )
+
+  return NextResponse.json({ success: true, itemId, updatedFields, risk })
+}
@@ -0,0 +1,103 @@
+/**
+ * GET /api/projects/[id]/submittal-register/sla
+ *   The project's submittal review SLA config (src/lib/chat/submittal-sla.ts).
+ *   Returns { success, config, isDefault } — isDefault when nothing is saved.
+ *
+ * PUT /api/projects/[id]/submittal-register/sla
+ *   Body: { config: SubmittalSlaConfig }
+ *   Replaces the config in projects.metadata.submittalReviewSla. Applies to
+ *   review cycles opened afterwards; open cycles keep the due date they were
+ *   given on submission.
+ *
+ * Auth: any project member to read; owner or editor to write.
+ * Read/write path: service-role.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/db/supabase/server'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import { loadSubmittalSlaConfig, SLA_METADATA_KEY } from '@/lib/chat/submittal-sla-read'
+import { validateSlaConfig } from '@/lib/chat/submittal-sla'
+
+async function authorize(projectId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  const { data: membership } = await supabase
+    .from('project_members').select('role').eq('project_id', projectId).eq('user_id', user.id).single()
+  if (!membership) return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  return { user, membership }
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SlaRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { config, isDefault, error } = await loadSubmittalSlaConfig(svc, projectId)
+  if (error) {
+    console.error('[SlaRoute] Project load failed:', error)
+    return NextResponse.json({ error: 'Failed to load SLA config' }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, config, isDefault })
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const projectId = params.id
+  const auth = await authorize(projectId)
+  if ('error' in auth) return auth.error
+  if (!['owner', 'editor'].includes(auth.membership.role ?? '')) {
+    return NextResponse.json({ error: 'Only project owners and editors can change review periods' }, { status: 403 })
+  }
+
+  let body: { config?: unknown }
+  try { body = await request.json() } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+
+  const parsed = validateSlaConfig(body.config)
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  let svc: ReturnType<typeof createServiceRoleClient>
+  try {
+    svc = createServiceRoleClient()
+  } catch (err) {
+    console.error('[SlaRoute] Service-role client unavailable:', err)
+    return NextResponse.json({ error: 'Service-role client unavailable' }, { status: 500 })
+  }
+
+  const { data: project, error: fetchErr } = await svc
+    .from('projects')
+    .select('metadata')
+    .eq('id', projectId)
+    .maybeSingle()
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+  if (!project) return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+
+  const metadata = (project.metadata ?? {}) as Record<string, unknown>
+  const { error: updateErr } = await svc
+    .from('projects')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .update({ metadata: { ...metadata, [SLA_METADATA_KEY]: parsed.config } as any })
+    .eq('id', projectId)
+
+  if (updateErr) {
+    console.error('[SlaRoute] Update failed:', updateErr.message)
+    return NextResponse.json({ error: updateErr.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, config: parsed.config, isDefault: false })
+}
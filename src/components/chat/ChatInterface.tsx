@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
+import { CreateRfiModal } from './CreateRfiModal'
+import { extractDetailReferences, extractSheetReferences } from '@/lib/vision/rfi-extractor'
 
 interface Message {
   id: string
@@ -8,6 +10,15 @@ interface Message {
   content: string
 }
 
+interface SheetRfiImpact {
+  sheet: string
+  rfiId: string
+  rfiNumber: string
+  subject: string
+  status: string
+  label: string
+}
+
 interface ChatInterfaceProps {
   projectId: string
 }
@@ -39,6 +50,15 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
   const [flagSuccess, setFlagSuccess] = useState(false)
   const [flagError, setFlagError] = useState<string | null>(null)
 
+  // Create RFI modal: the assistant answer and the user question before it
+  const [rfiSource, setRfiSource] = useState<{
+    question: string
+    answer: string
+  } | null>(null)
+
+  // Answered RFIs impacting the sheets an assistant answer cites, by message id
+  const [rfiImpactsByMessage, setRfiImpactsByMessage] = useState<Record<string, SheetRfiImpact[]>>({})
+
   useEffect(() => {
     if (!flagModal) return
     const handler = (e: KeyboardEvent) => {
@@ -126,6 +146,8 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
           )
         )
       }
+
+      void loadSheetRfiImpacts(assistantMessageId, assistantMessage)
     } catch (err) {
       console.error('Chat error:', err)
       setError(err instanceof Error ? err.message : 'Something went wrong')
@@ -134,6 +156,25 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
     }
   }
 
+  // Badge lookup only — a failure leaves the answer without RFI badges.
+  const loadSheetRfiImpacts = async (messageId: string, content: string) => {
+    const sheets = [...extractSheetReferences(content), ...extractDetailReferences(content)]
+    if (sheets.length === 0) return
+    try {
+      const res = await fetch(
+        `/api/projects/${projectId}/rfis/impacts?sheets=${encodeURIComponent(sheets.slice(0, 50).join(','))}`
+      )
+      if (!res.ok) return
+      const body = await res.json()
+      const impacts = (body.impacts ?? []) as SheetRfiImpact[]
+      if (impacts.length > 0) {
+        setRfiImpactsByMessage((prev) => ({ ...prev, [messageId]: impacts }))
+      }
+    } catch (err) {
+      console.error('RFI impact lookup failed:', err)
+    }
+  }
+
   const handleFlagSubmit = async () => {
     if (!flagModal || !flagForm.expected_value) return
     setFlagSubmitting(true)
@@ -245,7 +286,7 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
           </div>
         ) : (
           <>
-            {messages.map((message) => (
+            {messages.map((message, index) => (
               <div
                 key={message.id}
                 className={`flex ${
@@ -282,8 +323,24 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
                       {message.content}
                     </div>
                   </div>
+                  {rfiImpactsByMessage[message.id] && (
+                    <div className="flex flex-wrap gap-1 pl-1">
+                      {[...new Map(rfiImpactsByMessage[message.id].map(i => [i.rfiId, i])).values()].map(impact => (
+                        <span
+                          key={impact.rfiId}
+                          className="px-2 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800 border border-amber-200"
+                          title={`${impact.subject} — ${rfiImpactsByMessage[message.id]
+                            .filter(i => i.rfiId === impact.rfiId)
+                            .map(i => i.label)
+                            .join(', ')}`}
+                        >
+                          Impacted by {impact.rfiNumber}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   {message.role === 'assistant' && message.content && (
-                    <div className="flex justify-start pl-1">
+                    <div className="flex justify-start pl-1 space-x-3">
                       <button
                         onClick={() => setFlagModal({ messageId: message.id, messageContent: message.content })}
                         className="text-xs text-gray-400 hover:text-red-500 transition-colors flex items-center space-x-1"
@@ -291,6 +348,16 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
                         <span>⚑</span>
                         <span>Flag Issue</span>
                       </button>
+                      <button
+                        onClick={() => setRfiSource({
+                          question: messages.slice(0, index).reverse().find(m => m.role === 'user')?.content ?? '',
+                          answer: message.content,
+                        })}
+                        className="text-xs text-gray-400 hover:text-blue-600 transition-colors flex items-center space-x-1"
+                      >
+                        <span>?</span>
+                        <span>Create RFI</span>
+                      </button>
                     </div>
                   )}
                 </div>
@@ -359,6 +426,15 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
         </div>
       </form>
 
+      {rfiSource && (
+        <CreateRfiModal
+          projectId={projectId}
+          chatQuestion={rfiSource.question}
+          chatAnswer={rfiSource.answer}
+          onClose={() => setRfiSource(null)}
+        />
+      )}
+
       {/* Flag Issue Modal */}
       {flagModal && (
         <div
@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  buildRfiDraftFromAnswer,
+  RFI_PRIORITIES,
+  type Rfi,
+  type RfiPriority,
+} from '@/lib/rfi/rfi-workflow'
+
+interface CreateRfiModalProps {
+  projectId: string
+  chatQuestion: string
+  chatAnswer: string
+  onClose: () => void
+}
+
+const PRIORITY_LABELS: Record<RfiPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  critical: 'Critical',
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[,;\n]/).map(v => v.trim()).filter(Boolean)
+}
+
+export function CreateRfiModal({ projectId, chatQuestion, chatAnswer, onClose }: CreateRfiModalProps) {
+  const [form, setForm] = useState(() => {
+    const draft = buildRfiDraftFromAnswer(chatQuestion, chatAnswer)
+    return {
+      subject: draft.subject,
+      question: draft.question,
+      suggestedSolution: draft.suggestedSolution,
+      sheets: draft.referencedSheets.join(', '),
+      specSections: draft.specSections.join(', '),
+      priority: 'normal' as RfiPriority,
+      dueDate: '',
+      assignedTo: '',
+    }
+  })
+  const [submitting, setSubmitting] = useState(false)
+  const [created, setCreated] = useState<Rfi | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  const handleSubmit = async (status: 'draft' | 'open') => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/rfis`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subject: form.subject,
+          question: form.question,
+          suggestedSolution: form.suggestedSolution || null,
+          referencedSheets: splitList(form.sheets),
+          specSections: splitList(form.specSections),
+          priority: form.priority,
+          dueDate: form.dueDate || null,
+          assignedTo: form.assignedTo || null,
+          sourceQuestion: chatQuestion,
+          status,
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error ?? 'Failed to create RFI')
+      setCreated(body.rfi)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create RFI. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 space-y-4 max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Create RFI</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">✕</button>
+        </div>
+
+        {created ? (
+          <div className="space-y-3">
+            <p className="text-green-600 text-sm font-medium">
+              {created.rfiNumber} saved as {created.status === 'draft' ? 'a draft' : 'open'}.
+            </p>
+            <p className="text-sm text-gray-600">Track it from the RFI log in Operations.</p>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-50">
+                Close
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Subject *</label>
+              <input
+                value={form.subject}
+                onChange={e => setForm(f => ({ ...f, subject: e.target.value }))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Question *</label>
+              <textarea
+                value={form.question}
+                onChange={e => setForm(f => ({ ...f, question: e.target.value }))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                rows={4}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Suggested solution</label>
+              <textarea
+                value={form.suggestedSolution}
+                onChange={e => setForm(f => ({ ...f, suggestedSolution: e.target.value }))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                rows={3}
+                placeholder="Contractor's proposed resolution"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Referenced sheets</label>
+                <input
+                  value={form.sheets}
+                  onChange={e => setForm(f => ({ ...f, sheets: e.target.value }))}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  placeholder="e.g. C-003, 5/S-201"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Spec sections</label>
+                <input
+                  value={form.specSections}
+                  onChange={e => setForm(f => ({ ...f, specSections: e.target.value }))}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  placeholder="e.g. 03 30 00"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                <select
+                  value={form.priority}
+                  onChange={e => setForm(f => ({ ...f, priority: e.target.value as RfiPriority }))}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {RFI_PRIORITIES.map(p => (
+                    <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Response due</label>
+                <input
+                  type="date"
+                  value={form.dueDate}
+                  onChange={e => setForm(f => ({ ...f, dueDate: e.target.value }))}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Assigned to</label>
+                <input
+                  value={form.assignedTo}
+                  onChange={e => setForm(f => ({ ...f, assignedTo: e.target.value }))}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  placeholder="e.g. Engineer of Record"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-red-600 text-sm">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleSubmit('draft')}
+                disabled={submitting || !form.subject.trim() || !form.question.trim()}
+                className="px-4 py-2 text-sm text-blue-700 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+              >
+                Save draft
+              </button>
+              <button
+                onClick={() => handleSubmit('open')}
+                disabled={submitting || !form.subject.trim() || !form.question.trim()}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? 'Saving...' : 'Issue RFI'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { deleteDocument, getDocumentSignedUrl } from '@/lib/db/queries/documents'
 import { createClient } from '@/lib/db/supabase/client'
 import type { Database } from '@/lib/db/supabase/types'
+import { SheetDiffPanel } from './SheetDiffPanel'
 
 type Document = Database['public']['Tables']['documents']['Row']
 
@@ -16,6 +17,7 @@ interface DocumentListProps {
 export function DocumentList({ documents, projectId, onDelete }: DocumentListProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [downloadingId, setDownloadingId] = useState<string | null>(null)
+  const [diffDocumentId, setDiffDocumentId] = useState<string | null>(null)
 
   const handleDelete = async (documentId: string, filename: string) => {
     if (!confirm(`Are you sure you want to delete "${filename}"?`)) {
@@ -251,7 +253,31 @@ export function DocumentList({ documents, projectId, onDelete }: DocumentListPro
                         document.page_count,
                         document.vision_cost_usd
                       )}
+                      {document.revision_target_ref && (
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded ${
+                            document.conform_error
+                              ? 'bg-amber-100 text-amber-800'
+                              : 'bg-indigo-100 text-indigo-800'
+                          }`}
+                          title={document.conform_error ?? (document.conformed_at ? 'Current conformed version' : 'Conforms once indexing finishes')}
+                        >
+                          Rev {document.revision} of {document.revision_target_ref}
+                        </span>
+                      )}
+                      {document.revision_target_type === 'sheet' && document.conformed_at && (
+                        <button
+                          type="button"
+                          onClick={() => setDiffDocumentId(diffDocumentId === document.id ? null : document.id)}
+                          className="px-2 py-0.5 text-xs text-indigo-700 border border-indigo-200 rounded hover:bg-indigo-50 cursor-pointer"
+                        >
+                          {diffDocumentId === document.id ? 'Hide changes' : 'View changes'}
+                        </button>
+                      )}
                     </div>
+                    {diffDocumentId === document.id && (
+                      <SheetDiffPanel projectId={projectId} documentId={document.id} />
+                    )}
                   </div>
 
                   {/* Actions */}
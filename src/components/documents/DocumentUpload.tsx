@@ -8,6 +8,14 @@ import {
   DOCUMENT_TYPE_HELP,
   type DocumentType,
 } from '@/lib/documents/document-types'
+import { isScheduleExportFileName } from '@/lib/schedule/schedule-parser'
+import type { RevisionTargetType } from '@/lib/documents/conformed-set'
+
+// Document types that can be uploaded as a revision, and what they revise.
+const REVISION_TARGET_BY_TYPE: Partial<Record<DocumentType, RevisionTargetType>> = {
+  drawing: 'sheet',
+  spec: 'spec_section',
+}
 
 interface DocumentUploadProps {
   projectId: string
@@ -20,10 +28,21 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
   const [error, setError] = useState<string | null>(null)
   const [uploadProgress, setUploadProgress] = useState<string>('')
   const [documentType, setDocumentType] = useState<DocumentType>('drawing')
+  const [revisionTargetRef, setRevisionTargetRef] = useState('')
+  const [revisionLabel, setRevisionLabel] = useState('')
+
+  const revisionTargetType = REVISION_TARGET_BY_TYPE[documentType] ?? null
 
   const handleUpload = async (file: File) => {
     if (!file) return
 
+    // Native schedule exports skip the document pipeline and are imported
+    // as a new schedule version.
+    if (documentType === 'schedule' && isScheduleExportFileName(file.name)) {
+      await handleScheduleImport(file)
+      return
+    }
+
     // Validate file type
     const allowedTypes = [
       'application/pdf',
@@ -69,6 +88,10 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
       const { path } = await uploadDocumentFile(supabase, projectId, file)
       setUploadProgress('Creating document record...')
 
+      // Marked as a revision: pages supersede the current sheet or section
+      // once indexed (conformed by the processing pipeline).
+      const isRevision = revisionTargetType !== null && revisionTargetRef.trim() !== '' && revisionLabel.trim() !== ''
+
       // Create document record in database
       const newDocument = await createDocument(supabase, {
         project_id: projectId,
@@ -79,6 +102,11 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
         processing_status: 'pending',
         uploaded_by: user.id,
         document_type: documentType,
+        ...(isRevision && {
+          revision: revisionLabel.trim(),
+          revision_target_type: revisionTargetType,
+          revision_target_ref: revisionTargetRef.trim(),
+        }),
       })
 
       setUploadProgress('Upload complete! Starting processing...')
@@ -109,6 +137,8 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
       setTimeout(() => {
         setUploadProgress('')
         setUploading(false)
+        setRevisionTargetRef('')
+        setRevisionLabel('')
         onUploadComplete?.()
       }, 1500)
     } catch (err) {
@@ -119,6 +149,42 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
     }
   }
 
+  const handleScheduleImport = async (file: File) => {
+    setUploading(true)
+    setError(null)
+    setUploadProgress('Importing schedule...')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ file_name: file.name, content: await file.text() }),
+      })
+      const payload = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Schedule import failed')
+      }
+
+      setUploadProgress(
+        `Imported ${payload.activities_written} activities as schedule version ${payload.version_number}`
+      )
+
+      setTimeout(() => {
+        setUploadProgress('')
+        setUploading(false)
+        onUploadComplete?.()
+      }, 1500)
+    } catch (err) {
+      console.error('Schedule import error:', err)
+      setError(err instanceof Error ? err.message : 'Schedule import failed')
+      setUploading(false)
+      setUploadProgress('')
+    }
+  }
+
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -146,7 +212,7 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
         handleUpload(file)
       }
     },
-    [projectId]
+    [projectId, documentType, revisionTargetRef, revisionLabel]
   )
 
   return (
@@ -171,6 +237,45 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
         <p className="mt-1 text-xs text-gray-500">{DOCUMENT_TYPE_HELP[documentType]}</p>
       </div>
 
+      {revisionTargetType && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="revision-target" className="block text-sm font-medium text-gray-700">
+              Revision of {revisionTargetType === 'sheet' ? 'sheet' : 'spec section'}{' '}
+              <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              id="revision-target"
+              type="text"
+              value={revisionTargetRef}
+              onChange={(e) => setRevisionTargetRef(e.target.value)}
+              disabled={uploading}
+              placeholder={revisionTargetType === 'sheet' ? 'C-101' : '03 30 00'}
+              className="mt-1 block w-40 rounded-md border border-gray-300 px-3 py-2 text-sm disabled:opacity-50"
+            />
+          </div>
+          <div>
+            <label htmlFor="revision-label" className="block text-sm font-medium text-gray-700">
+              Revision
+            </label>
+            <input
+              id="revision-label"
+              type="text"
+              value={revisionLabel}
+              onChange={(e) => setRevisionLabel(e.target.value)}
+              disabled={uploading}
+              placeholder="3"
+              className="mt-1 block w-24 rounded-md border border-gray-300 px-3 py-2 text-sm disabled:opacity-50"
+            />
+          </div>
+          {revisionTargetRef.trim() !== '' && (
+            <p className="text-xs text-gray-500 pb-2">
+              Once indexed, this upload becomes the current version of {revisionTargetRef.trim()}.
+            </p>
+          )}
+        </div>
+      )}
+
       <div
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -186,7 +291,7 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
           id="file-upload"
           onChange={handleFileInput}
           disabled={uploading}
-          accept=".pdf,.docx,.xlsx,.jpg,.jpeg,.png,.dwg,.dxf"
+          accept={documentType === 'schedule' ? '.pdf,.xer,.xml' : '.pdf,.docx,.xlsx,.jpg,.jpeg,.png,.dwg,.dxf'}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
         />
 
@@ -226,7 +331,9 @@ export function DocumentUpload({ projectId, onUploadComplete }: DocumentUploadPr
 
           {/* File Types */}
           <p className="text-xs text-gray-500">
-            PDF, DOCX, XLSX, JPG, PNG, DWG up to 500MB
+            {documentType === 'schedule'
+              ? 'P6 XER, MS Project XML, or PDF'
+              : 'PDF, DOCX, XLSX, JPG, PNG, DWG up to 500MB'}
           </p>
         </div>
 
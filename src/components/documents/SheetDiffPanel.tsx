@@ -0,0 +1,148 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { StoredSheetDiff } from '@/lib/documents/sheet-diff-persistence'
+
+type SheetDiffView = StoredSheetDiff & { overlayUrl: string | null }
+
+interface SheetDiffPanelProps {
+  projectId: string
+  documentId: string
+}
+
+function revisionName(revision: string | null): string {
+  return revision ? `Rev ${revision}` : 'Original'
+}
+
+/**
+ * Visual diff of a sheet revision against the sheet it replaced: the red /
+ * green overlay and the described change list, with changes outside any
+ * revision cloud called out for the field team.
+ */
+export function SheetDiffPanel({ projectId, documentId }: SheetDiffPanelProps) {
+  const [diffs, setDiffs] = useState<SheetDiffView[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [queued, setQueued] = useState(false)
+  const [requesting, setRequesting] = useState(false)
+
+  const load = useCallback(async () => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/documents/${documentId}/sheet-diff`, {
+        credentials: 'include',
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      setDiffs(body.diffs)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sheet diff')
+    }
+  }, [projectId, documentId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleRerun = async () => {
+    setRequesting(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/documents/${documentId}/sheet-diff`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      setQueued(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue sheet diff')
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-md p-3 space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-green-600" /> Added
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-red-600" /> Removed
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-gray-400" /> Unchanged
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleRerun}
+          disabled={requesting || queued}
+          className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+        >
+          {queued ? 'Queued — refresh shortly' : requesting ? 'Queuing…' : 'Re-run diff'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+      {diffs === null && !error && <p className="text-xs text-gray-500">Loading…</p>}
+      {diffs !== null && diffs.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No visual diff yet. It runs once the revision&apos;s sheets are indexed and conformed.
+        </p>
+      )}
+
+      {diffs?.map(diff => (
+        <div key={diff.id} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h5 className="font-medium text-gray-900">
+              {diff.sheetNumber ?? 'Sheet'}: {revisionName(diff.fromRevision)} → {revisionName(diff.toRevision)}
+            </h5>
+            {diff.status === 'no_changes' && (
+              <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">No visible changes</span>
+            )}
+            {diff.status === 'failed' && (
+              <span className="px-2 py-0.5 text-xs rounded bg-red-100 text-red-800" title={diff.error ?? undefined}>
+                Diff failed
+              </span>
+            )}
+            {diff.uncloudedCount > 0 && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800">
+                {diff.uncloudedCount} change{diff.uncloudedCount === 1 ? '' : 's'} not clouded
+              </span>
+            )}
+          </div>
+
+          {diff.overlayUrl && (
+            <a href={diff.overlayUrl} target="_blank" rel="noreferrer" className="block">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={diff.overlayUrl}
+                alt={`Changes to ${diff.sheetNumber ?? 'sheet'}`}
+                className="max-h-96 border border-gray-200 rounded"
+              />
+            </a>
+          )}
+
+          {diff.changes.length > 0 && (
+            <ol className="list-decimal list-inside space-y-1 text-xs text-gray-700">
+              {diff.changes.map((change, i) => (
+                <li key={i}>
+                  {change.description ?? `${change.kind === 'added' ? 'Added' : change.kind === 'removed' ? 'Removed' : 'Modified'} linework`}
+                  {change.clouded === false && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">Not clouded</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -2,11 +2,21 @@
 
 import { useState } from 'react'
 import { FowReadinessTab } from './tabs/FowReadinessTab'
+import { ScheduleSlipTab } from './tabs/ScheduleSlipTab'
+import { LookaheadTab } from './tabs/LookaheadTab'
+import { ProcurementTab } from './tabs/ProcurementTab'
+import { RfiLogTab } from './tabs/RfiLogTab'
+import { ChangeEventLogTab } from './tabs/ChangeEventLogTab'
 
-type Tab = 'fow'
+type Tab = 'fow' | 'schedule_slip' | 'lookahead' | 'procurement' | 'rfis' | 'change_events'
 
 const TABS: { id: Tab; label: string }[] = [
   { id: 'fow', label: 'Features of Work' },
+  { id: 'schedule_slip', label: 'Schedule Slip' },
+  { id: 'lookahead', label: 'Look-ahead' },
+  { id: 'procurement', label: 'Procurement' },
+  { id: 'rfis', label: 'RFIs' },
+  { id: 'change_events', label: 'Change Events' },
 ]
 
 interface OperationsCommandCenterProps {
@@ -40,6 +50,11 @@ export function OperationsCommandCenter({ projectId }: OperationsCommandCenterPr
       {/* Tab content */}
       <div>
         {activeTab === 'fow' && <FowReadinessTab projectId={projectId} />}
+        {activeTab === 'schedule_slip' && <ScheduleSlipTab projectId={projectId} />}
+        {activeTab === 'lookahead' && <LookaheadTab projectId={projectId} />}
+        {activeTab === 'procurement' && <ProcurementTab projectId={projectId} />}
+        {activeTab === 'rfis' && <RfiLogTab projectId={projectId} />}
+        {activeTab === 'change_events' && <ChangeEventLogTab projectId={projectId} />}
       </div>
     </div>
   )
@@ -0,0 +1,14 @@
+interface StatCardProps {
+  label: string
+  value: string | number
+  tone?: string
+}
+
+export function StatCard({ label, value, tone = 'text-gray-900' }: StatCardProps) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg px-4 py-3">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`text-2xl font-semibold ${tone}`}>{value}</p>
+    </div>
+  )
+}
@@ -0,0 +1,538 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  CHANGE_EVENT_SOURCE_LABELS,
+  CHANGE_EVENT_STAGE_LABELS,
+  CHANGE_EVENT_STATUS_COLORS,
+  CHANGE_EVENT_STATUS_LABELS,
+  CHANGE_EVENT_STATUSES,
+  currentChangeEventNumber,
+  getNextChangeEventStatuses,
+  isChangeEventLocked,
+  ROM_COST_ITEMS,
+  type ChangeEvent,
+  type ChangeEventSourceType,
+  type ChangeEventStatus,
+  type RomLineItem,
+} from '@/lib/change-events/change-event-workflow'
+import type { ChangeEventSourceOption } from '@/lib/change-events/change-event-persistence'
+import { buildChangeEventExportRows, CHANGE_EVENT_EXPORT_COLUMNS } from '@/lib/export/change-event-export'
+import { StatCard } from '../StatCard'
+
+interface ChangeEventLogTabProps {
+  projectId: string
+}
+
+// Button label for each transition out of the event's current status.
+const ACTION_LABELS: Record<ChangeEventStatus, string> = {
+  open: 'Back to scoping',
+  pricing: 'Start pricing',
+  submitted: 'Submit COR',
+  rejected: 'Mark rejected',
+  executed: 'Execute CO',
+  void: 'Void',
+}
+
+function formatMoney(v: number | null): string {
+  return v === null ? '—' : `$${Math.round(v).toLocaleString()}`
+}
+
+function formatRange(low: number | null, high: number | null): string {
+  return low === null || high === null ? '—' : `${formatMoney(low)} – ${formatMoney(high)}`
+}
+
+// ROM lines in the shape the API re-prices.
+function toRomInput(items: RomLineItem[]) {
+  return items.map(i => ({ costKey: i.costKey, quantity: i.quantity, description: i.description, sheetNumber: i.sheetNumber ?? null }))
+}
+
+function CreateChangeEventForm({ projectId, onCreated }: { projectId: string; onCreated: (note: string | null) => void }) {
+  const [sources, setSources] = useState<ChangeEventSourceOption[] | null>(null)
+  const [sourceType, setSourceType] = useState<ChangeEventSourceType>('rfi')
+  const [sourceId, setSourceId] = useState('')
+  const [title, setTitle] = useState('')
+  const [scope, setScope] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/projects/${projectId}/change-events/sources`)
+      .then(res => res.json())
+      .then((json: { sources?: ChangeEventSourceOption[] }) => { if (!cancelled) setSources(json.sources ?? []) })
+      .catch(() => { if (!cancelled) setSources([]) })
+    return () => { cancelled = true }
+  }, [projectId])
+
+  const options = (sources ?? []).filter(s => s.sourceType === sourceType)
+  const manual = sourceType === 'manual'
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/change-events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(manual ? { sourceType, title, scopeDescription: scope } : { sourceType, sourceId }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      const unmatched: string[] = body.unmatchedQuantities ?? []
+      setSourceId('')
+      setTitle('')
+      setScope('')
+      onCreated(unmatched.length > 0
+        ? `${body.changeEvent.pcoNumber}: no ROM unit cost for ${unmatched.join('; ')} — price by hand.`
+        : null)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create change event')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white px-4 py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={sourceType}
+          onChange={e => { setSourceType(e.target.value as ChangeEventSourceType); setSourceId('') }}
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+        >
+          {(Object.keys(CHANGE_EVENT_SOURCE_LABELS) as ChangeEventSourceType[]).map(t => (
+            <option key={t} value={t}>{CHANGE_EVENT_SOURCE_LABELS[t]}</option>
+          ))}
+        </select>
+        {manual ? (
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="Title"
+            className="flex-1 min-w-[16rem] px-2 py-1.5 text-sm border border-gray-300 rounded"
+          />
+        ) : (
+          <select
+            value={sourceId}
+            onChange={e => setSourceId(e.target.value)}
+            disabled={sources === null}
+            className="flex-1 min-w-[16rem] px-2 py-1.5 text-sm border border-gray-300 rounded bg-white disabled:opacity-50"
+          >
+            <option value="">
+              {sources === null ? 'Loading…' : options.length === 0 ? 'None in this project' : 'Select…'}
+            </option>
+            {options.map(o => (
+              <option key={o.id} value={o.id}>{o.label}{o.description && o.description !== o.label ? ` — ${o.description}` : ''}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={saving || (manual ? !title.trim() || !scope.trim() : !sourceId)}
+          className="px-3 py-1.5 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 cursor-pointer"
+        >
+          {saving ? 'Creating…' : 'Create PCO'}
+        </button>
+      </div>
+      {manual && (
+        <textarea
+          value={scope}
+          onChange={e => setScope(e.target.value)}
+          placeholder="Scope description"
+          rows={2}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+      )}
+      {!manual && (
+        <p className="text-xs text-gray-500">
+          Scope, references and the ROM estimate are seeded from the source and its extracted quantities.
+        </p>
+      )}
+    </div>
+  )
+}
+
+function ChangeEventRowView({
+  changeEvent: ce,
+  projectId,
+  onChanged,
+}: {
+  changeEvent: ChangeEvent
+  projectId: string
+  onChanged: () => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [scope, setScope] = useState(ce.scopeDescription)
+  const [days, setDays] = useState(ce.scheduleImpactDays?.toString() ?? '')
+  const [approved, setApproved] = useState(ce.approvedAmount?.toString() ?? '')
+  const [newKey, setNewKey] = useState(ROM_COST_ITEMS[0]?.key ?? '')
+  const [newQty, setNewQty] = useState('')
+
+  const locked = isChangeEventLocked(ce)
+  const newItem = ROM_COST_ITEMS.find(i => i.key === newKey)
+
+  const update = async (patch: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/change-events/${ce.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update change event')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTransition = (to: ChangeEventStatus) => {
+    if (to === 'executed') {
+      update({ status: to, approvedAmount: approved.trim() ? Number(approved) : null })
+      return
+    }
+    if (to === 'void' && !confirm(`Void ${currentChangeEventNumber(ce)}? Void events can no longer be edited.`)) return
+    update({ status: to })
+  }
+
+  const handleDays = () => {
+    const value = days.trim() ? Number(days) : null
+    if (value !== ce.scheduleImpactDays) update({ scheduleImpactDays: value })
+  }
+
+  const handleRemoveLine = (index: number) =>
+    update({ romItems: toRomInput(ce.romItems.filter((_, i) => i !== index)) })
+
+  const handleAddLine = () => {
+    const quantity = Number(newQty)
+    if (!newItem || !(quantity > 0)) return
+    update({ romItems: [...toRomInput(ce.romItems), { costKey: newItem.key, quantity }] })
+    setNewQty('')
+  }
+
+  return (
+    <>
+      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(e => !e)}>
+        <td className="px-3 py-2 font-mono text-xs text-gray-700 whitespace-nowrap">
+          {currentChangeEventNumber(ce)}
+          {ce.stage !== 'pco' && <p className="text-gray-400">{ce.pcoNumber}</p>}
+        </td>
+        <td className="px-3 py-2">
+          <p className="text-gray-900">{ce.title}</p>
+          <p className="text-xs text-gray-500">
+            {ce.sourceLabel ?? CHANGE_EVENT_SOURCE_LABELS[ce.sourceType]}
+            {ce.referencedSheets.length > 0 && ` • ${ce.referencedSheets.join(', ')}`}
+          </p>
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+          {ce.status === 'executed' ? formatMoney(ce.approvedAmount) : formatRange(ce.romLow, ce.romHigh)}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+          {ce.scheduleImpactDays !== null ? `${ce.scheduleImpactDays}d` : '—'}
+        </td>
+        <td className="px-3 py-2 text-right whitespace-nowrap">
+          <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${CHANGE_EVENT_STATUS_COLORS[ce.status]}`}>
+            {CHANGE_EVENT_STATUS_LABELS[ce.status]}
+          </span>
+          <p className="text-xs mt-0.5 text-gray-400">{CHANGE_EVENT_STAGE_LABELS[ce.stage]}</p>
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td colSpan={5} className="px-6 py-3 space-y-3">
+            <label className="block space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Scope</span>
+              <textarea
+                value={scope}
+                onChange={e => setScope(e.target.value)}
+                onBlur={() => scope.trim() !== ce.scopeDescription && update({ scopeDescription: scope })}
+                disabled={saving || locked}
+                rows={3}
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+              />
+            </label>
+
+            <div>
+              <p className="text-xs font-medium text-gray-500">
+                ROM estimate {ce.romLow !== null && `— ${formatRange(ce.romLow, ce.romHigh)}`}
+              </p>
+              {ce.romItems.length === 0 ? (
+                <p className="text-xs text-gray-500">No priced quantities yet.</p>
+              ) : (
+                <table className="mt-1 text-xs">
+                  <tbody>
+                    {ce.romItems.map((item, i) => (
+                      <tr key={i}>
+                        <td className="pr-3 py-0.5 text-gray-800">{item.description}</td>
+                        <td className="pr-3 py-0.5 text-gray-600 whitespace-nowrap">{item.quantity.toLocaleString()} {item.unit}</td>
+                        <td className="pr-3 py-0.5 text-gray-600 whitespace-nowrap">
+                          @ ${item.unitLow}–${item.unitHigh}/{item.unit}
+                        </td>
+                        <td className="pr-3 py-0.5 text-gray-800 whitespace-nowrap">{formatRange(item.low, item.high)}</td>
+                        <td className="py-0.5">
+                          {!locked && (
+                            <button
+                              onClick={() => handleRemoveLine(i)}
+                              disabled={saving}
+                              className="text-gray-400 hover:text-red-600 disabled:opacity-50 cursor-pointer"
+                              title="Remove line"
+                            >
+                              ×
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {!locked && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <select
+                    value={newKey}
+                    onChange={e => setNewKey(e.target.value)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+                  >
+                    {ROM_COST_ITEMS.map(i => (
+                      <option key={i.key} value={i.key}>{i.label} (${i.lowRange}–${i.highRange}/{i.unit})</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={newQty}
+                    onChange={e => setNewQty(e.target.value)}
+                    placeholder={newItem?.unit ?? 'Qty'}
+                    className="w-24 px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+                  />
+                  <button
+                    onClick={handleAddLine}
+                    disabled={saving || !(Number(newQty) > 0)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                  >
+                    Add line
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="space-y-1">
+                <span className="block text-xs text-gray-500">Schedule impact (days)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={days}
+                  onChange={e => setDays(e.target.value)}
+                  onBlur={handleDays}
+                  disabled={saving || locked}
+                  className="w-28 px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                />
+              </label>
+              {(ce.status === 'submitted' || ce.status === 'executed') && (
+                <label className="space-y-1">
+                  <span className="block text-xs text-gray-500">Approved amount ($)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={approved}
+                    onChange={e => setApproved(e.target.value)}
+                    disabled={saving || locked}
+                    className="w-32 px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                  />
+                </label>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              {!locked && getNextChangeEventStatuses(ce.status).map(to => (
+                <button
+                  key={to}
+                  onClick={() => handleTransition(to)}
+                  disabled={saving || (to === 'executed' && !approved.trim())}
+                  className={`px-2 py-1 text-xs border rounded bg-white disabled:opacity-50 cursor-pointer ${
+                    to === 'void'
+                      ? 'ml-auto border-red-300 text-red-700 hover:bg-red-50'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {ce.status === 'rejected' && to === 'submitted' ? 'Resubmit COR' : ACTION_LABELS[to]}
+                </button>
+              ))}
+            </div>
+
+            {ce.statusHistory.length > 0 && (
+              <p className="text-xs text-gray-400">
+                {ce.statusHistory
+                  .map(h => `${CHANGE_EVENT_STATUS_LABELS[h.toStatus]} ${h.changedAt.slice(0, 10)}${h.note ? ` (${h.note})` : ''}`)
+                  .join(' → ')}
+              </p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function ChangeEventLogTab({ projectId }: ChangeEventLogTabProps) {
+  const [changeEvents, setChangeEvents] = useState<ChangeEvent[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<ChangeEventStatus | 'all'>('all')
+  const [exporting, setExporting] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [createNote, setCreateNote] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    async function load() {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/change-events`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: { changeEvents: ChangeEvent[] } = await res.json()
+        if (!cancelled) setChangeEvents(json.changeEvents)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => { cancelled = true }
+  }, [projectId, refreshKey])
+
+  const refresh = () => setRefreshKey(k => k + 1)
+  const today = new Date().toISOString().slice(0, 10)
+
+  const visible = useMemo(
+    () => (changeEvents ?? []).filter(ce => statusFilter === 'all' || ce.status === statusFilter),
+    [changeEvents, statusFilter]
+  )
+
+  async function doExport() {
+    if (!changeEvents) return
+    setExporting(true)
+    try {
+      const XLSX = await import('xlsx')
+      const ws = XLSX.utils.aoa_to_sheet([[`Change Event Log — exported ${today}`], []])
+      XLSX.utils.sheet_add_json(ws, buildChangeEventExportRows(visible), {
+        header: CHANGE_EVENT_EXPORT_COLUMNS.map(c => c.key),
+        origin: 'A3',
+      })
+      ws['!cols'] = CHANGE_EVENT_EXPORT_COLUMNS.map(c => ({ wch: c.width }))
+
+      const wb = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(wb, ws, 'Change Events')
+      XLSX.writeFile(wb, `change-event-log-${projectId}-${today}.xlsx`)
+    } catch (err) {
+      console.error('[ChangeEventLogTab] export failed:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (loading && !changeEvents) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-indigo-200 border-t-indigo-600 mb-3" />
+          <p className="text-sm text-gray-500">Loading change events…</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !changeEvents) {
+    return <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3"><p className="text-sm text-red-700">{error ?? 'Failed to load'}</p></div>
+  }
+
+  const active = changeEvents.filter(ce => ce.status !== 'executed' && ce.status !== 'void')
+  const exposure = active.reduce((sum, ce) => sum + (ce.romHigh ?? 0), 0)
+  const executed = changeEvents
+    .filter(ce => ce.status === 'executed')
+    .reduce((sum, ce) => sum + (ce.approvedAmount ?? 0), 0)
+  const days = active.reduce((sum, ce) => sum + (ce.scheduleImpactDays ?? 0), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <StatCard label="Change events" value={changeEvents.length} />
+        <StatCard label="Open PCOs" value={changeEvents.filter(ce => ce.stage === 'pco' && !isChangeEventLocked(ce)).length} tone="text-blue-700" />
+        <StatCard label="Pending exposure (ROM high)" value={formatMoney(exposure)} tone={exposure > 0 ? 'text-amber-700' : 'text-gray-900'} />
+        <StatCard label="Executed COs" value={formatMoney(executed)} tone="text-green-700" />
+        <StatCard label="Pending schedule days" value={days} />
+      </div>
+
+      <CreateChangeEventForm projectId={projectId} onCreated={note => { setCreateNote(note); refresh() }} />
+      {createNote && <p className="text-xs text-amber-700">{createNote}</p>}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={e => setStatusFilter(e.target.value as ChangeEventStatus | 'all')}
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+        >
+          <option value="all">All statuses</option>
+          {CHANGE_EVENT_STATUSES.map(s => (
+            <option key={s} value={s}>{CHANGE_EVENT_STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={doExport}
+          disabled={exporting || visible.length === 0}
+          className="ml-auto px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+        >
+          {exporting ? 'Exporting…' : 'Export XLSX'}
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-6 text-center">
+          <p className="text-sm text-gray-600">
+            {changeEvents.length === 0 ? 'No change events yet.' : 'No change events with this status.'}
+          </p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg bg-white overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-3 py-2 text-left">No.</th>
+                <th className="px-3 py-2 text-left">Title</th>
+                <th className="px-3 py-2 text-left">ROM / Amount</th>
+                <th className="px-3 py-2 text-left">Days</th>
+                <th className="px-3 py-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(ce => (
+                <ChangeEventRowView
+                  key={`${ce.id}:${ce.updatedAt}`}
+                  changeEvent={ce}
+                  projectId={projectId}
+                  onChanged={refresh}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
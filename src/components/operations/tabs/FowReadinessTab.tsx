@@ -2,7 +2,13 @@
 
 import { useEffect, useState } from 'react'
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
-import type { FowEntity, FowReadiness, FowReviewStatus } from '@/lib/graph/fow-readiness'
+import type { FowEntity, FowLinkSource, FowReadiness, FowReviewStatus } from '@/lib/graph/fow-readiness'
+import type {
+  InspectionResult,
+  InspectionStatus,
+  InspectionType,
+  ProjectInspection,
+} from '@/lib/graph/inspections'
 import { LifecycleBadge } from '../../submittal/LifecycleBadge'
 
 interface FowReadinessTabProps {
@@ -11,10 +17,12 @@ interface FowReadinessTabProps {
 
 interface FowApiResponse {
   features: FowReadiness[]
+  unlinked: SubmittalRegisterItem[]
   totals: {
     fowCount: number
     submittalsLinked: number
     submittalsUnlinked: number
+    openHoldPoints: number
   }
 }
 
@@ -42,16 +50,131 @@ const STATUS_LABELS: Record<FowReviewStatus, string> = {
   approved: 'Approved',
 }
 
+const LINK_SOURCE_LABELS: Record<FowLinkSource, string> = {
+  spec_section: 'Spec section',
+  related_fow: 'Related FOW',
+  user: 'Manual',
+}
+
+const INSPECTION_TYPE_LABELS: Record<InspectionType, string> = {
+  hold_point: 'Hold point',
+  special_inspection: 'Special inspection',
+  test: 'Test',
+  inspection: 'Inspection',
+}
+
+const INSPECTION_TYPE_STYLES: Record<InspectionType, string> = {
+  hold_point: 'bg-red-50 text-red-700 border border-red-200',
+  special_inspection: 'bg-purple-50 text-purple-700 border border-purple-200',
+  test: 'bg-blue-50 text-blue-700 border border-blue-200',
+  inspection: 'bg-gray-100 text-gray-700 border border-gray-200',
+}
+
+const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  required: 'Required',
+  scheduled: 'Scheduled',
+  complete: 'Complete',
+  waived: 'Waived',
+}
+
+const INSPECTION_RESULT_LABELS: Record<InspectionResult, string> = {
+  pass: 'Pass',
+  pass_with_comments: 'Pass w/ comments',
+  fail: 'Fail',
+}
+
+// ---------------------------------------------------------------------------
+// Inspection row — status / result / schedule inline controls
+// ---------------------------------------------------------------------------
+
+function InspectionRow({
+  inspection,
+  projectId,
+  onChanged,
+}: {
+  inspection: ProjectInspection
+  projectId: string
+  onChanged: () => void
+}) {
+  const [saving, setSaving] = useState(false)
+
+  const update = async (patch: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/inspections/${inspection.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update inspection')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <li className="flex items-center gap-2 text-sm">
+      <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${INSPECTION_TYPE_STYLES[inspection.inspectionType]}`}>
+        {INSPECTION_TYPE_LABELS[inspection.inspectionType]}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="text-gray-900 truncate" title={inspection.title}>{inspection.title}</p>
+        <p className="text-xs text-gray-500">
+          {[inspection.specSection, inspection.partReference, inspection.inspector].filter(Boolean).join(' • ') || '—'}
+        </p>
+      </div>
+      <input
+        type="date"
+        value={inspection.scheduledDate ?? ''}
+        onChange={e => update({ scheduledDate: e.target.value || null })}
+        disabled={saving}
+        className="text-xs border border-gray-300 rounded px-1.5 py-1 bg-white disabled:opacity-50 shrink-0"
+      />
+      <select
+        value={inspection.status}
+        onChange={e => update({ status: e.target.value })}
+        disabled={saving}
+        className="text-xs border border-gray-300 rounded px-1.5 py-1 bg-white disabled:opacity-50 shrink-0"
+      >
+        {(Object.keys(INSPECTION_STATUS_LABELS) as InspectionStatus[]).map(s => (
+          <option key={s} value={s}>{INSPECTION_STATUS_LABELS[s]}</option>
+        ))}
+      </select>
+      <select
+        value={inspection.result ?? ''}
+        onChange={e => update({ result: e.target.value || null })}
+        disabled={saving}
+        className={`text-xs border rounded px-1.5 py-1 bg-white disabled:opacity-50 shrink-0 ${
+          inspection.result === 'fail' ? 'border-red-300 text-red-700' : 'border-gray-300'
+        }`}
+      >
+        <option value="">No result</option>
+        {(Object.keys(INSPECTION_RESULT_LABELS) as InspectionResult[]).map(r => (
+          <option key={r} value={r}>{INSPECTION_RESULT_LABELS[r]}</option>
+        ))}
+      </select>
+    </li>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // FOW row — expandable inline edit
 // ---------------------------------------------------------------------------
 
 function FowRow({
   data,
+  unlinked,
   projectId,
   onChanged,
 }: {
   data: FowReadiness
+  unlinked: SubmittalRegisterItem[]
   projectId: string
   onChanged: () => void
 }) {
@@ -97,7 +220,7 @@ function FowRow({
   }
 
   const handleDelete = async () => {
-    if (!confirm(`Delete "${fow.displayName}"? Submittals will not be affected.`)) return
+    if (!confirm(`Delete "${fow.displayName}"? Its submittal links will be removed; submittals will not be affected.`)) return
     setDeleting(true)
     try {
       const res = await fetch(`/api/projects/${projectId}/features-of-work/${fow.id}`, {
@@ -115,6 +238,29 @@ function FowRow({
     }
   }
 
+  const handleLink = async (dedupeKey: string, remove: boolean) => {
+    setSaving(true)
+    try {
+      const url = `/api/projects/${projectId}/features-of-work/${fow.id}/submittals`
+      const res = remove
+        ? await fetch(`${url}?dedupe_key=${encodeURIComponent(dedupeKey)}`, { method: 'DELETE' })
+        : await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ dedupeKey }),
+          })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update link')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const handleApprove = async () => {
     setSaving(true)
     try {
@@ -151,6 +297,11 @@ function FowRow({
             <span className="mx-2">•</span>
             {data.approvedCount}/{data.totalCount} approved
             {data.blockedCount > 0 && <span className="text-red-600 ml-2">• {data.blockedCount} blocked</span>}
+            {data.openHoldPointCount > 0 && (
+              <span className="text-red-600 ml-2">
+                • {data.openHoldPointCount} open hold point{data.openHoldPointCount !== 1 ? 's' : ''}
+              </span>
+            )}
           </p>
         </div>
         <div className="flex-shrink-0 w-32">
@@ -310,6 +461,76 @@ function FowRow({
               </ul>
             </div>
           )}
+
+          {/* Linked submittals */}
+          <div className="pt-2 border-t border-gray-200">
+            <p className="text-xs font-medium text-gray-700 uppercase tracking-wider mb-2">
+              Linked submittals ({data.totalCount})
+            </p>
+            {data.requiredSubmittals.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">none</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {data.requiredSubmittals.map((s: SubmittalRegisterItem, i) => {
+                  const source = s.dedupeKey ? data.linkSources?.[s.dedupeKey] : undefined
+                  return (
+                    <li key={s.dedupeKey ?? i} className="flex items-center gap-2 text-sm">
+                      <LifecycleBadge status={s.lifecycleStatus ?? 'draft'} compact />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-gray-900 truncate">{s.submittalItem}</p>
+                        {s.specSection && <p className="text-xs text-gray-500">{s.specSection}</p>}
+                      </div>
+                      {source && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-white border border-gray-300 text-gray-600 shrink-0">
+                          {LINK_SOURCE_LABELS[source]}
+                        </span>
+                      )}
+                      {s.dedupeKey && (
+                        <button
+                          onClick={() => handleLink(s.dedupeKey!, true)}
+                          disabled={saving}
+                          className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50 cursor-pointer shrink-0"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+            {unlinked.some(s => s.dedupeKey) && (
+              <select
+                value=""
+                onChange={e => e.target.value && handleLink(e.target.value, false)}
+                disabled={saving}
+                className="mt-2 w-full text-sm border border-gray-300 rounded px-2 py-1.5 bg-white text-gray-700 disabled:opacity-50"
+              >
+                <option value="">Link an unlinked submittal…</option>
+                {unlinked.filter(s => s.dedupeKey).map(s => (
+                  <option key={s.dedupeKey} value={s.dedupeKey}>
+                    {[s.specSection, s.submittalItem].filter(Boolean).join(' — ')}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Inspections & hold points */}
+          <div className="pt-2 border-t border-gray-200">
+            <p className="text-xs font-medium text-gray-700 uppercase tracking-wider mb-2">
+              Inspections &amp; hold points ({data.satisfiedInspectionCount}/{data.inspections.length} satisfied)
+            </p>
+            {data.inspections.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">none</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {data.inspections.map(i => (
+                  <InspectionRow key={i.id} inspection={i} projectId={projectId} onChanged={onChanged} />
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -436,6 +657,7 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
   const [error, setError] = useState<string | null>(null)
   const [createOpen, setCreateOpen] = useState(false)
   const [suggesting, setSuggesting] = useState(false)
+  const [seeding, setSeeding] = useState(false)
   const [refreshKey, setRefreshKey] = useState(0)
 
   useEffect(() => {
@@ -485,6 +707,26 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
     }
   }
 
+  const handleSeedInspections = async () => {
+    setSeeding(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/inspections/seed`, { method: 'POST' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? 'Failed to seed inspections')
+      }
+      const result = await res.json()
+      if (result.seeded === 0) {
+        alert('No new inspections — every extracted testing / inspection requirement already has one.')
+      }
+      refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to seed inspections')
+    } finally {
+      setSeeding(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-16">
@@ -506,7 +748,7 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
     <div className="space-y-4">
       {/* Header */}
       <div className="flex items-center justify-between gap-3">
-        <div className="grid grid-cols-3 gap-3 flex-1">
+        <div className="grid grid-cols-4 gap-3 flex-1">
           <div className="bg-white border border-gray-200 rounded-lg px-4 py-3">
             <p className="text-xs text-gray-500">Features of Work</p>
             <p className="text-2xl font-semibold text-gray-900">{data?.totals.fowCount ?? 0}</p>
@@ -519,6 +761,12 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
             <p className="text-xs text-gray-500">Submittals unlinked</p>
             <p className="text-2xl font-semibold text-gray-900">{data?.totals.submittalsUnlinked ?? 0}</p>
           </div>
+          <div className="bg-white border border-gray-200 rounded-lg px-4 py-3">
+            <p className="text-xs text-gray-500">Open hold points</p>
+            <p className={`text-2xl font-semibold ${(data?.totals.openHoldPoints ?? 0) > 0 ? 'text-red-700' : 'text-gray-900'}`}>
+              {data?.totals.openHoldPoints ?? 0}
+            </p>
+          </div>
         </div>
         <div className="flex gap-2 shrink-0">
           <button
@@ -528,6 +776,13 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
           >
             {suggesting ? 'Generating…' : 'Suggest from spec data'}
           </button>
+          <button
+            onClick={handleSeedInspections}
+            disabled={seeding}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer whitespace-nowrap"
+          >
+            {seeding ? 'Seeding…' : 'Seed inspections from spec'}
+          </button>
           <button
             onClick={() => setCreateOpen(true)}
             className="px-3 py-2 text-sm border border-indigo-600 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 cursor-pointer whitespace-nowrap"
@@ -552,7 +807,7 @@ export function FowReadinessTab({ projectId }: FowReadinessTabProps) {
       {data && data.features.length > 0 && (
         <div className="space-y-2">
           {data.features.map(f => (
-            <FowRow key={f.fow.id} data={f} projectId={projectId} onChanged={refresh} />
+            <FowRow key={f.fow.id} data={f} unlinked={data.unlinked ?? []} projectId={projectId} onChanged={refresh} />
           ))}
         </div>
       )}
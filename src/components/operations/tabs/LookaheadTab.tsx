@@ -0,0 +1,310 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  lookaheadSpan,
+  LOOKAHEAD_WEEK_OPTIONS,
+  type Lookahead,
+  type LookaheadActivity,
+  type LookaheadReadiness,
+  type LookaheadWeeks,
+} from '@/lib/schedule/lookahead'
+import {
+  buildLookaheadExportRows,
+  lookaheadExportTitle,
+  LOOKAHEAD_EXPORT_COLUMNS,
+} from '@/lib/export/lookahead-export'
+import { isOverdue } from '@/lib/chat/submittal-lifecycle'
+import { LifecycleBadge } from '../../submittal/LifecycleBadge'
+import { StatCard } from '../StatCard'
+
+interface LookaheadTabProps {
+  projectId: string
+}
+
+const READINESS_STYLES: Record<LookaheadReadiness, string> = {
+  ready: 'bg-green-100 text-green-800 border border-green-200',
+  open_items: 'bg-amber-100 text-amber-800 border border-amber-200',
+  blocked: 'bg-red-100 text-red-800 border border-red-200',
+}
+
+const READINESS_LABELS: Record<LookaheadReadiness, string> = {
+  ready: 'Ready',
+  open_items: 'Open items',
+  blocked: 'Blocked',
+}
+
+const BAR_COLORS: Record<LookaheadReadiness, string> = {
+  ready: 'bg-green-400',
+  open_items: 'bg-amber-400',
+  blocked: 'bg-red-400',
+}
+
+function ActivityRow({ item, lookahead }: { item: LookaheadActivity; lookahead: Lookahead }) {
+  const [expanded, setExpanded] = useState(false)
+  const { activity: a } = item
+  const totalDays = lookahead.window.weeks * 7
+  const span = lookaheadSpan(lookahead.window, a)
+  const openCount = item.openSubmittals.length + item.openRfis.length
+
+  return (
+    <>
+      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(e => !e)}>
+        <td className="px-3 py-2">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-xs text-gray-500">{a.activityId}</span>
+            {a.isCritical && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-100 text-red-800 border border-red-200">Critical</span>
+            )}
+          </div>
+          <p className="text-gray-900">{a.activityName}</p>
+          {a.responsibleParty && <p className="text-xs text-gray-500">{a.responsibleParty}</p>}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+          {a.actualStart ?? a.earlyStart ?? '—'} → {a.actualFinish ?? a.earlyFinish ?? '—'}
+          {a.totalFloatDays != null && <p className="text-gray-400">float {a.totalFloatDays}d</p>}
+        </td>
+        <td className="px-3 py-2 w-1/3 min-w-[200px]">
+          <div className="relative h-3 bg-gray-100 rounded">
+            <div
+              className={`absolute h-3 rounded ${BAR_COLORS[item.readiness]}`}
+              style={{ left: `${(span.offset / totalDays) * 100}%`, width: `${(span.length / totalDays) * 100}%` }}
+            />
+          </div>
+        </td>
+        <td className="px-3 py-2">
+          <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${READINESS_STYLES[item.readiness]}`}>
+            {READINESS_LABELS[item.readiness]}
+          </span>
+        </td>
+        <td className="px-3 py-2 text-right text-xs text-gray-600">
+          {openCount > 0 ? `${item.openSubmittals.length} sub • ${item.openRfis.length} RFI` : '—'}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td colSpan={5} className="px-6 py-3 space-y-3 text-xs">
+            {item.features.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Features of work</p>
+                <ul className="space-y-0.5">
+                  {item.features.map(f => (
+                    <li key={f.fowId} className="text-gray-600">
+                      {f.name} — {f.readinessPercent}% ready ({f.approvedCount}/{f.totalCount} approved
+                      {f.blockedCount > 0 && `, ${f.blockedCount} blocked`}
+                      {f.openHoldPointCount > 0 && `, ${f.openHoldPointCount} open hold point${f.openHoldPointCount !== 1 ? 's' : ''}`})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {item.openSubmittals.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Open submittals</p>
+                <ul className="space-y-1">
+                  {item.openSubmittals.map(s => (
+                    <li key={s.itemId ?? `${s.specSection}|${s.submittalItem}`} className="flex items-center gap-2 text-gray-600">
+                      <LifecycleBadge status={s.status} overdue={isOverdue(s.dueDate)} compact />
+                      <span>{[s.specSection, s.submittalItem].filter(Boolean).join(' ')}</span>
+                      {s.dueDate && <span className="text-gray-400">due {s.dueDate}</span>}
+                      {s.via === 'schedule_link' && s.riskLevel === 'late' && (
+                        <span className="text-red-600 font-medium">late for start</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {item.openRfis.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Open RFIs</p>
+                <ul className="space-y-0.5">
+                  {item.openRfis.map(r => (
+                    <li key={r.id} className="text-gray-600">
+                      <span className="font-mono">{r.label ?? '—'}</span> {r.title}
+                      {r.dateIssued && <span className="text-gray-400"> • issued {r.dateIssued}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {item.features.length === 0 && openCount === 0 && (
+              <p className="text-gray-500">No linked submittals, RFIs or features of work.</p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function LookaheadTab({ projectId }: LookaheadTabProps) {
+  const [weeks, setWeeks] = useState<LookaheadWeeks>(3)
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().slice(0, 10))
+  const [lookahead, setLookahead] = useState<Lookahead | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadLookahead() {
+      setLoading(true)
+      setError(null)
+      try {
+        const qs = new URLSearchParams({ weeks: String(weeks), as_of: asOf })
+        const res = await fetch(`/api/projects/${projectId}/schedule/lookahead?${qs}`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: { lookahead: Lookahead } = await res.json()
+        if (!cancelled) setLookahead(json.lookahead)
+      } catch (err) {
+        if (!cancelled) {
+          setLookahead(null)
+          setError(err instanceof Error ? err.message : 'Failed to load')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    loadLookahead()
+    return () => { cancelled = true }
+  }, [projectId, weeks, asOf])
+
+  const byWeek = useMemo(() => {
+    const groups = new Map<number, LookaheadActivity[]>()
+    for (const a of lookahead?.activities ?? []) {
+      if (!groups.has(a.startWeek)) groups.set(a.startWeek, [])
+      groups.get(a.startWeek)!.push(a)
+    }
+    return Array.from(groups.entries()).sort(([x], [y]) => x - y)
+  }, [lookahead])
+
+  async function doExport() {
+    if (!lookahead) return
+    setExporting(true)
+    try {
+      const XLSX = await import('xlsx')
+      const ws = XLSX.utils.aoa_to_sheet([[lookaheadExportTitle(lookahead)], []])
+      XLSX.utils.sheet_add_json(ws, buildLookaheadExportRows(lookahead), {
+        header: LOOKAHEAD_EXPORT_COLUMNS.map(c => c.key),
+        origin: 'A3',
+      })
+      ws['!cols'] = LOOKAHEAD_EXPORT_COLUMNS.map(c => ({ wch: c.width }))
+
+      const wb = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(wb, ws, `${lookahead.window.weeks}-Week Look-ahead`)
+      XLSX.writeFile(wb, `lookahead-${lookahead.window.weeks}wk-${projectId}-${lookahead.window.start}.xlsx`)
+    } catch (err) {
+      console.error('[LookaheadTab] export failed:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const s = lookahead?.summary
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <span className="block text-xs font-medium text-gray-700">Window</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            {LOOKAHEAD_WEEK_OPTIONS.map(w => (
+              <button
+                key={w}
+                onClick={() => setWeeks(w)}
+                className={`px-3 py-1.5 text-sm cursor-pointer ${
+                  weeks === w ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {w} weeks
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="space-y-1">
+          <span className="block text-xs font-medium text-gray-700">Built on</span>
+          <input
+            type="date"
+            value={asOf}
+            onChange={e => e.target.value && setAsOf(e.target.value)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={doExport}
+          disabled={!lookahead || exporting || lookahead.activities.length === 0}
+          className="ml-auto px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+        >
+          {exporting ? 'Exporting…' : 'Export XLSX'}
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-indigo-200 border-t-indigo-600 mb-3" />
+            <p className="text-sm text-gray-500">Building look-ahead…</p>
+          </div>
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3"><p className="text-sm text-red-700">{error}</p></div>
+      )}
+
+      {!loading && !error && lookahead && s && (
+        <>
+          <p className="text-xs text-gray-500">
+            {lookahead.window.start} → {lookahead.window.end} • schedule v{lookahead.version.versionNumber}
+            {lookahead.version.dataDate && <> (data date {lookahead.version.dataDate})</>}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <StatCard label="Activities" value={s.activityCount} />
+            <StatCard label="Ready" value={s.ready} tone="text-green-700" />
+            <StatCard label="Open items" value={s.openItems} tone={s.openItems > 0 ? 'text-amber-700' : 'text-gray-900'} />
+            <StatCard label="Blocked" value={s.blocked} tone={s.blocked > 0 ? 'text-red-700' : 'text-gray-900'} />
+            <StatCard label="Open submittals / RFIs" value={`${s.openSubmittalCount} / ${s.openRfiCount}`} />
+          </div>
+
+          {lookahead.activities.length === 0 ? (
+            <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-6 text-center">
+              <p className="text-sm text-gray-600">No incomplete activities fall in this window.</p>
+            </div>
+          ) : (
+            byWeek.map(([week, items]) => (
+              <div key={week} className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-800">
+                  {week === 0 ? 'In progress' : `Week ${week}`}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{items.length} activities</span>
+                </h3>
+                <div className="border border-gray-200 rounded-lg bg-white overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Activity</th>
+                        <th className="px-3 py-2 text-left">Dates</th>
+                        <th className="px-3 py-2 text-left">{lookahead.window.weeks}-week window</th>
+                        <th className="px-3 py-2 text-left">Readiness</th>
+                        <th className="px-3 py-2 text-right">Open</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {items.map(item => (
+                        <ActivityRow key={item.activity.activityId} item={item} lookahead={lookahead} />
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  )
+}
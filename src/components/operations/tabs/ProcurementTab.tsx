@@ -0,0 +1,455 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import type { ScheduleVersionSummary } from '@/lib/schedule/schedule-model'
+import {
+  PROCUREMENT_STATUSES,
+  type ProcurementLandingSource,
+  type ProcurementStatus,
+  type ProcurementTimeline,
+  type ProcurementTimelineEntry,
+  type ProcurementTimelineLevel,
+} from '@/lib/graph/procurement'
+import { StatCard } from '../StatCard'
+
+interface ProcurementTabProps {
+  projectId: string
+}
+
+interface ProcurementApiResponse {
+  scheduleVersion: ScheduleVersionSummary | null
+  timeline: ProcurementTimeline
+}
+
+const LEVEL_STYLES: Record<ProcurementTimelineLevel, string> = {
+  late: 'bg-red-100 text-red-800 border border-red-200',
+  at_risk: 'bg-amber-100 text-amber-800 border border-amber-200',
+  on_track: 'bg-green-100 text-green-800 border border-green-200',
+  delivered: 'bg-gray-100 text-gray-700 border border-gray-200',
+  unscheduled: 'bg-white text-gray-500 border border-gray-200',
+  cancelled: 'bg-white text-gray-400 border border-gray-200',
+}
+
+const LEVEL_LABELS: Record<ProcurementTimelineLevel, string> = {
+  late: 'Late for need-by',
+  at_risk: 'Eating float',
+  on_track: 'On track',
+  delivered: 'Delivered',
+  unscheduled: 'No need-by date',
+  cancelled: 'Cancelled',
+}
+
+const BAR_COLORS: Record<ProcurementTimelineLevel, string> = {
+  late: 'bg-red-400',
+  at_risk: 'bg-amber-400',
+  on_track: 'bg-green-400',
+  delivered: 'bg-gray-400',
+  unscheduled: 'bg-gray-300',
+  cancelled: 'bg-gray-200',
+}
+
+const STATUS_LABELS: Record<ProcurementStatus, string> = {
+  not_ordered: 'Not ordered',
+  ordered: 'Ordered',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+}
+
+const LANDING_SOURCE_LABELS: Record<ProcurementLandingSource, string> = {
+  actual: 'delivered',
+  expected: 'expected delivery',
+  promised: 'promised ship',
+  order_lead: 'order date + lead time',
+  projected: 'approval + lead time',
+}
+
+function toDay(iso: string): number {
+  return Date.parse(`${iso}T00:00:00Z`) / 86_400_000
+}
+
+interface TimelineAxis {
+  start: number
+  days: number
+  today: number
+}
+
+function TimelineBar({ entry, axis }: { entry: ProcurementTimelineEntry; axis: TimelineAxis }) {
+  const pct = (day: number) => `${Math.min(100, Math.max(0, ((day - axis.start) / axis.days) * 100))}%`
+  const landing = entry.landingDate ? toDay(entry.landingDate) : null
+  const needBy = entry.needByDate ? toDay(entry.needByDate) : null
+  const from = Math.min(axis.today, landing ?? axis.today)
+
+  return (
+    <div className="relative h-4 bg-gray-100 rounded">
+      <div className="absolute top-0 bottom-0 w-px bg-indigo-300" style={{ left: pct(axis.today) }} title="Today" />
+      {landing !== null && (
+        <div
+          className={`absolute top-1 h-2 rounded ${BAR_COLORS[entry.level]}`}
+          style={{ left: pct(from), width: `calc(${pct(landing)} - ${pct(from)} + 4px)` }}
+          title={`Lands ${entry.landingDate}`}
+        />
+      )}
+      {needBy !== null && (
+        <div
+          className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-gray-900"
+          style={{ left: pct(needBy) }}
+          title={`Needed ${entry.needByDate}`}
+        />
+      )}
+    </div>
+  )
+}
+
+function DateField({
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  label: string
+  value: string | null
+  disabled: boolean
+  onChange: (value: string | null) => void
+}) {
+  return (
+    <label className="space-y-1">
+      <span className="block text-xs text-gray-500">{label}</span>
+      <input
+        type="date"
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value || null)}
+        disabled={disabled}
+        className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+      />
+    </label>
+  )
+}
+
+function ProcurementRow({
+  entry,
+  axis,
+  projectId,
+  onChanged,
+}: {
+  entry: ProcurementTimelineEntry
+  axis: TimelineAxis
+  projectId: string
+  onChanged: () => void
+}) {
+  const { item } = entry
+  const [expanded, setExpanded] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [poNumber, setPoNumber] = useState(item.poNumber ?? '')
+  const [vendor, setVendor] = useState(item.vendor ?? '')
+
+  const update = async (patch: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/procurement/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update procurement item')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete procurement record "${item.description}"?`)) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/procurement/${item.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(e => !e)}>
+        <td className="px-3 py-2">
+          <p className="text-gray-900">{item.description}</p>
+          <p className="text-xs text-gray-500">
+            {[item.vendor, item.poNumber && `PO ${item.poNumber}`, entry.submittal?.specSection].filter(Boolean).join(' • ') || '—'}
+          </p>
+          {!entry.submittal && <p className="text-xs text-red-600">Releasing submittal not in latest register</p>}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600">
+          {entry.activityId ? (
+            <>
+              <span className="font-mono">{entry.activityId}</span> {entry.activityName}
+              {entry.activityIsCritical && (
+                <span className="ml-1 text-[10px] px-1.5 py-0.5 rounded bg-red-100 text-red-800 border border-red-200">Critical</span>
+              )}
+            </>
+          ) : '—'}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+          <p>Lands {entry.landingDate ?? '—'}</p>
+          {entry.landingSource && <p className="text-gray-400">{LANDING_SOURCE_LABELS[entry.landingSource]}</p>}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+          <p>Needed {entry.needByDate ?? '—'}</p>
+          {entry.needBySource === 'item' && <p className="text-gray-400">register date</p>}
+        </td>
+        <td className="px-3 py-2 w-1/4 min-w-[180px]">
+          <TimelineBar entry={entry} axis={axis} />
+        </td>
+        <td className="px-3 py-2 text-right whitespace-nowrap">
+          <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${LEVEL_STYLES[entry.level]}`}>
+            {LEVEL_LABELS[entry.level]}
+          </span>
+          {entry.daysLate !== null && entry.daysLate > 0 && entry.level !== 'cancelled' && (
+            <p className="text-xs text-red-600 mt-0.5">{entry.daysLate}d late</p>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td colSpan={6} className="px-6 py-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="space-y-1">
+                <span className="block text-xs text-gray-500">Vendor</span>
+                <input
+                  type="text"
+                  value={vendor}
+                  onChange={e => setVendor(e.target.value)}
+                  onBlur={() => vendor !== (item.vendor ?? '') && update({ vendor })}
+                  disabled={saving}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs text-gray-500">PO number</span>
+                <input
+                  type="text"
+                  value={poNumber}
+                  onChange={e => setPoNumber(e.target.value)}
+                  onBlur={() => poNumber !== (item.poNumber ?? '') && update({ poNumber })}
+                  disabled={saving}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white font-mono disabled:opacity-50"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs text-gray-500">Status</span>
+                <select
+                  value={item.status}
+                  onChange={e => update({ status: e.target.value })}
+                  disabled={saving}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                >
+                  {PROCUREMENT_STATUSES.map(s => (
+                    <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-end justify-end">
+                <button
+                  onClick={handleDelete}
+                  disabled={saving}
+                  className="px-2 py-1 text-xs border border-red-300 rounded text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 cursor-pointer"
+                >
+                  Delete
+                </button>
+              </div>
+              <DateField label="Order date" value={item.orderDate} disabled={saving} onChange={v => update({ orderDate: v })} />
+              <DateField label="Promised ship" value={item.promisedShipDate} disabled={saving} onChange={v => update({ promisedShipDate: v })} />
+              <DateField label="Expected delivery" value={item.expectedDeliveryDate} disabled={saving} onChange={v => update({ expectedDeliveryDate: v })} />
+              <DateField label="Actual delivery" value={item.actualDeliveryDate} disabled={saving} onChange={v => update({ actualDeliveryDate: v })} />
+            </div>
+            {entry.submittal && (
+              <p className="text-xs text-gray-500 mt-2">
+                Released by {[entry.submittal.specSection, entry.submittal.submittalItem].filter(Boolean).join(' ')}
+                {entry.leadTimeDays > 0 && ` • lead time ${entry.leadTimeDays}d`}
+                {entry.lateStart && ` • activity late start ${entry.lateStart}`}
+              </p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function ProcurementTab({ projectId }: ProcurementTabProps) {
+  const [data, setData] = useState<ProcurementApiResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    async function load() {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/procurement`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: ProcurementApiResponse = await res.json()
+        if (!cancelled) setData(json)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => { cancelled = true }
+  }, [projectId, refreshKey])
+
+  const refresh = () => setRefreshKey(k => k + 1)
+
+  const axis = useMemo<TimelineAxis>(() => {
+    const today = toDay(new Date().toISOString().slice(0, 10))
+    const days = [today]
+    for (const e of data?.timeline.entries ?? []) {
+      if (e.landingDate) days.push(toDay(e.landingDate))
+      if (e.needByDate) days.push(toDay(e.needByDate))
+    }
+    const start = Math.min(...days) - 3
+    return { start, days: Math.max(14, Math.max(...days) + 3 - start), today }
+  }, [data])
+
+  const handleCreate = async (submittal: SubmittalRegisterItem) => {
+    if (!submittal.dedupeKey) return
+    setCreating(submittal.dedupeKey)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/procurement`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dedupeKey: submittal.dedupeKey }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? 'Failed to create procurement item')
+      }
+      refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create procurement item')
+    } finally {
+      setCreating(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-indigo-200 border-t-indigo-600 mb-3" />
+          <p className="text-sm text-gray-500">Loading procurement…</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3"><p className="text-sm text-red-700">{error ?? 'Failed to load'}</p></div>
+  }
+
+  const { timeline, scheduleVersion } = data
+  const s = timeline.summary
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <StatCard label="Procurement items" value={s.total} />
+        <StatCard label="Late for need-by" value={s.late} tone={s.late > 0 ? 'text-red-700' : 'text-gray-900'} />
+        <StatCard label="Eating float" value={s.atRisk} tone={s.atRisk > 0 ? 'text-amber-700' : 'text-gray-900'} />
+        <StatCard label="Delivered" value={s.delivered} tone="text-green-700" />
+        <StatCard
+          label="Approved, not ordered"
+          value={s.unorderedReleases}
+          tone={s.unorderedReleases > 0 ? 'text-amber-700' : 'text-gray-900'}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {scheduleVersion
+          ? `Need-by dates from schedule v${scheduleVersion.versionNumber} via each submittal's linked activity.`
+          : 'No schedule imported — need-by dates come from the submittal register.'}
+      </p>
+
+      {timeline.entries.length === 0 ? (
+        <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-6 text-center">
+          <p className="text-sm text-gray-600">No procurement items yet.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg bg-white overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-3 py-2 text-left">Item</th>
+                <th className="px-3 py-2 text-left">Activity</th>
+                <th className="px-3 py-2 text-left">Lands</th>
+                <th className="px-3 py-2 text-left">Needed</th>
+                <th className="px-3 py-2 text-left">Timeline</th>
+                <th className="px-3 py-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {timeline.entries.map(entry => (
+                <ProcurementRow
+                  key={entry.item.id}
+                  entry={entry}
+                  axis={axis}
+                  projectId={projectId}
+                  onChanged={refresh}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {timeline.candidates.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-800">
+            Approved long-lead submittals with no procurement record
+            <span className="ml-2 text-xs font-normal text-gray-500">{timeline.candidates.length}</span>
+          </h3>
+          <ul className="border border-gray-200 rounded-lg bg-white divide-y divide-gray-100">
+            {timeline.candidates.map(c => (
+              <li key={c.dedupeKey} className="px-3 py-2 flex items-center gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-900 truncate">{c.submittalItem}</p>
+                  <p className="text-xs text-gray-500">
+                    {[c.specSection, c.lifecycleLeadTimeDays ? `${c.lifecycleLeadTimeDays}d lead time` : null, c.lifecycleApprovedAt && `approved ${c.lifecycleApprovedAt.slice(0, 10)}`]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleCreate(c)}
+                  disabled={creating !== null}
+                  className="px-2 py-1 text-xs border border-indigo-600 rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 cursor-pointer shrink-0"
+                >
+                  {creating === c.dedupeKey ? 'Creating…' : 'Track procurement'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,424 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  getNextRfiStatuses,
+  isRfiOverdue,
+  RFI_STATUS_COLORS,
+  RFI_STATUS_LABELS,
+  RFI_STATUSES,
+  rfiDaysOpen,
+  type Rfi,
+  type RfiStatus,
+} from '@/lib/rfi/rfi-workflow'
+import { buildRfiExportRows, RFI_EXPORT_COLUMNS } from '@/lib/export/rfi-export'
+import type { RfiImpactTargetType } from '@/lib/rfi/rfi-impact'
+import { StatCard } from '../StatCard'
+
+interface RfiLogTabProps {
+  projectId: string
+}
+
+// Button label for each transition out of the RFI's current status.
+const ACTION_LABELS: Record<RfiStatus, string> = {
+  draft: 'Back to draft',
+  open: 'Issue',
+  answered: 'Mark answered',
+  closed: 'Close',
+}
+
+// One line summarising a trace from the PATCH or re-trace response.
+function describeImpact(impact: {
+  error?: string
+  counts?: Record<RfiImpactTargetType, number>
+  flaggedItemIds?: string[]
+}): string {
+  if (impact.error || !impact.counts) return `Impact trace failed: ${impact.error ?? 'unknown error'}`
+  const c = impact.counts
+  const flagged = impact.flaggedItemIds?.length ?? 0
+  return `Impact: ${c.sheet} sheets, ${c.spec_section} spec sections, ${c.entity} entities, ${c.submittal} submittals` +
+    (flagged > 0 ? ` — ${flagged} flagged for re-review` : '')
+}
+
+function RfiRowView({
+  rfi,
+  today,
+  projectId,
+  onChanged,
+}: {
+  rfi: Rfi
+  today: string
+  projectId: string
+  onChanged: () => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [response, setResponse] = useState(rfi.response ?? '')
+  const [answeredBy, setAnsweredBy] = useState(rfi.answeredBy ?? '')
+  const [impactNote, setImpactNote] = useState<string | null>(null)
+
+  const overdue = isRfiOverdue(rfi, today)
+  const daysOpen = rfiDaysOpen(rfi, today)
+  const locked = rfi.status === 'closed'
+
+  const update = async (patch: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/rfis/${rfi.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      if (body.impact) setImpactNote(describeImpact(body.impact))
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update RFI')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTransition = (to: RfiStatus) => {
+    if (to === 'answered') {
+      update({ status: to, response, answeredBy })
+      return
+    }
+    if (to === 'closed' && !confirm(`Close ${rfi.rfiNumber}? Closed RFIs can no longer be edited.`)) return
+    update({ status: to })
+  }
+
+  const handleRetrace = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/rfis/${rfi.id}/impacts`, { method: 'POST' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      setImpactNote(describeImpact(body))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to trace impact')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Raises a PCO seeded from this RFI; it appears on the Change Events tab.
+  const handleChangeEvent = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/change-events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceType: 'rfi', sourceId: rfi.id }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      setImpactNote(`Created ${body.changeEvent.pcoNumber} — see the Change Events tab.`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create change event')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete draft ${rfi.rfiNumber}?`)) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/rfis/${rfi.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error ?? `Request failed: ${res.status}`)
+      }
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(e => !e)}>
+        <td className="px-3 py-2 font-mono text-xs text-gray-700 whitespace-nowrap">{rfi.rfiNumber}</td>
+        <td className="px-3 py-2">
+          <p className="text-gray-900">{rfi.subject}</p>
+          <p className="text-xs text-gray-500">
+            {[...rfi.referencedSheets, ...rfi.specSections].join(' • ') || '—'}
+          </p>
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600">{rfi.assignedTo ?? '—'}</td>
+        <td className={`px-3 py-2 text-xs whitespace-nowrap ${overdue ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+          {rfi.dueDate ?? '—'}
+          {overdue && <p>Overdue</p>}
+        </td>
+        <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">{daysOpen !== null ? `${daysOpen}d` : '—'}</td>
+        <td className="px-3 py-2 text-right whitespace-nowrap">
+          <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${RFI_STATUS_COLORS[rfi.status]}`}>
+            {RFI_STATUS_LABELS[rfi.status]}
+          </span>
+          {rfi.priority !== 'normal' && (
+            <p className={`text-xs mt-0.5 ${rfi.priority === 'high' || rfi.priority === 'critical' ? 'text-red-600' : 'text-gray-400'}`}>
+              {rfi.priority}
+            </p>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td colSpan={6} className="px-6 py-3 space-y-3">
+            <div>
+              <p className="text-xs font-medium text-gray-500">Question</p>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{rfi.question}</p>
+            </div>
+            {rfi.suggestedSolution && (
+              <div>
+                <p className="text-xs font-medium text-gray-500">Suggested solution</p>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">{rfi.suggestedSolution}</p>
+              </div>
+            )}
+
+            {rfi.status === 'open' || rfi.status === 'answered' ? (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <label className="space-y-1 md:col-span-3">
+                  <span className="block text-xs text-gray-500">Response</span>
+                  <textarea
+                    value={response}
+                    onChange={e => setResponse(e.target.value)}
+                    onBlur={() => rfi.status === 'answered' && response !== (rfi.response ?? '') && update({ response })}
+                    disabled={saving}
+                    rows={3}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="block text-xs text-gray-500">Answered by</span>
+                  <input
+                    type="text"
+                    value={answeredBy}
+                    onChange={e => setAnsweredBy(e.target.value)}
+                    onBlur={() => rfi.status === 'answered' && answeredBy !== (rfi.answeredBy ?? '') && update({ answeredBy })}
+                    disabled={saving}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white disabled:opacity-50"
+                  />
+                </label>
+              </div>
+            ) : rfi.response && (
+              <div>
+                <p className="text-xs font-medium text-gray-500">
+                  Response{rfi.answeredBy && ` — ${rfi.answeredBy}`}{rfi.answeredAt && `, ${rfi.answeredAt.slice(0, 10)}`}
+                </p>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">{rfi.response}</p>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              {!locked && getNextRfiStatuses(rfi.status).map(to => (
+                <button
+                  key={to}
+                  onClick={() => handleTransition(to)}
+                  disabled={saving || (to === 'answered' && !response.trim())}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                >
+                  {rfi.status === 'answered' && to === 'open' ? 'Reopen' : ACTION_LABELS[to]}
+                </button>
+              ))}
+              {(rfi.status === 'answered' || rfi.status === 'closed') && (
+                <button
+                  onClick={handleRetrace}
+                  disabled={saving}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                  title="Re-trace impacted sheets, spec sections, entities and submittals"
+                >
+                  Re-trace impact
+                </button>
+              )}
+              {rfi.status !== 'draft' && (
+                <button
+                  onClick={handleChangeEvent}
+                  disabled={saving}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                  title="Raise a potential change order seeded from this RFI"
+                >
+                  Create change event
+                </button>
+              )}
+              {rfi.status === 'draft' && (
+                <button
+                  onClick={handleDelete}
+                  disabled={saving}
+                  className="ml-auto px-2 py-1 text-xs border border-red-300 rounded text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 cursor-pointer"
+                >
+                  Delete draft
+                </button>
+              )}
+            </div>
+
+            {impactNote && <p className="text-xs text-amber-700">{impactNote}</p>}
+
+            {rfi.statusHistory.length > 0 && (
+              <p className="text-xs text-gray-400">
+                {rfi.statusHistory
+                  .map(h => `${RFI_STATUS_LABELS[h.toStatus]} ${h.changedAt.slice(0, 10)}${h.note ? ` (${h.note})` : ''}`)
+                  .join(' → ')}
+              </p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function RfiLogTab({ projectId }: RfiLogTabProps) {
+  const [rfis, setRfis] = useState<Rfi[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<RfiStatus | 'all'>('all')
+  const [exporting, setExporting] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    async function load() {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/rfis`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: { rfis: Rfi[] } = await res.json()
+        if (!cancelled) setRfis(json.rfis)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => { cancelled = true }
+  }, [projectId, refreshKey])
+
+  const refresh = () => setRefreshKey(k => k + 1)
+  const today = new Date().toISOString().slice(0, 10)
+
+  const visible = useMemo(
+    () => (rfis ?? []).filter(r => statusFilter === 'all' || r.status === statusFilter),
+    [rfis, statusFilter]
+  )
+
+  async function doExport() {
+    if (!rfis) return
+    setExporting(true)
+    try {
+      const XLSX = await import('xlsx')
+      const ws = XLSX.utils.aoa_to_sheet([[`RFI Log — exported ${today}`], []])
+      XLSX.utils.sheet_add_json(ws, buildRfiExportRows(visible, today), {
+        header: RFI_EXPORT_COLUMNS.map(c => c.key),
+        origin: 'A3',
+      })
+      ws['!cols'] = RFI_EXPORT_COLUMNS.map(c => ({ wch: c.width }))
+
+      const wb = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(wb, ws, 'RFI Log')
+      XLSX.writeFile(wb, `rfi-log-${projectId}-${today}.xlsx`)
+    } catch (err) {
+      console.error('[RfiLogTab] export failed:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (loading && !rfis) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-indigo-200 border-t-indigo-600 mb-3" />
+          <p className="text-sm text-gray-500">Loading RFIs…</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !rfis) {
+    return <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3"><p className="text-sm text-red-700">{error ?? 'Failed to load'}</p></div>
+  }
+
+  const count = (status: RfiStatus) => rfis.filter(r => r.status === status).length
+  const overdue = rfis.filter(r => isRfiOverdue(r, today)).length
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <StatCard label="RFIs" value={rfis.length} />
+        <StatCard label="Open" value={count('open')} tone="text-blue-700" />
+        <StatCard label="Overdue" value={overdue} tone={overdue > 0 ? 'text-red-700' : 'text-gray-900'} />
+        <StatCard label="Answered" value={count('answered')} tone="text-green-700" />
+        <StatCard label="Drafts" value={count('draft')} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={e => setStatusFilter(e.target.value as RfiStatus | 'all')}
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+        >
+          <option value="all">All statuses</option>
+          {RFI_STATUSES.map(s => (
+            <option key={s} value={s}>{RFI_STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">Create RFIs from an answer in the project chat.</p>
+        <button
+          type="button"
+          onClick={doExport}
+          disabled={exporting || visible.length === 0}
+          className="ml-auto px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+        >
+          {exporting ? 'Exporting…' : 'Export XLSX'}
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-6 text-center">
+          <p className="text-sm text-gray-600">{rfis.length === 0 ? 'No RFIs yet.' : 'No RFIs with this status.'}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg bg-white overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-3 py-2 text-left">No.</th>
+                <th className="px-3 py-2 text-left">Subject</th>
+                <th className="px-3 py-2 text-left">Assigned</th>
+                <th className="px-3 py-2 text-left">Due</th>
+                <th className="px-3 py-2 text-left">Days open</th>
+                <th className="px-3 py-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(rfi => (
+                <RfiRowView
+                  key={`${rfi.id}:${rfi.updatedAt}`}
+                  rfi={rfi}
+                  today={today}
+                  projectId={projectId}
+                  onChanged={refresh}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,330 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ScheduleVersionSummary } from '@/lib/schedule/schedule-model'
+import type { ScheduleActivityChange, ScheduleDiff } from '@/lib/schedule/schedule-diff'
+import { StatCard } from '../StatCard'
+
+interface ScheduleSlipTabProps {
+  projectId: string
+}
+
+type ChangeFilter = 'all' | 'slipped' | 'float' | 'critical' | 'progress'
+
+const FILTERS: { id: ChangeFilter; label: string }[] = [
+  { id: 'all', label: 'All changes' },
+  { id: 'slipped', label: 'Finish slipped' },
+  { id: 'float', label: 'Float eroded' },
+  { id: 'critical', label: 'Newly critical' },
+  { id: 'progress', label: 'Progressed' },
+]
+
+function matchesFilter(c: ScheduleActivityChange, filter: ChangeFilter): boolean {
+  switch (filter) {
+    case 'slipped': return (c.finishSlipDays ?? 0) > 0
+    case 'float': return (c.floatDeltaDays ?? 0) < 0
+    case 'critical': return c.newlyCritical
+    case 'progress': return c.percentAfter > c.percentBefore
+    default: return true
+  }
+}
+
+function versionLabel(v: ScheduleVersionSummary): string {
+  const date = v.dataDate ?? v.versionDate
+  return `v${v.versionNumber} — ${date}${v.isBaseline ? ' (baseline)' : ''}`
+}
+
+function formatDelta(days: number | null): string {
+  if (days === null) return '—'
+  if (days === 0) return '0'
+  return days > 0 ? `+${days}d` : `${days}d`
+}
+
+function slipColor(days: number | null): string {
+  if (days === null || days === 0) return 'text-gray-500'
+  return days > 0 ? 'text-red-700 font-semibold' : 'text-green-700'
+}
+
+function floatColor(delta: number | null): string {
+  if (delta === null || delta === 0) return 'text-gray-500'
+  return delta < 0 ? 'text-amber-700 font-semibold' : 'text-green-700'
+}
+
+export function ScheduleSlipTab({ projectId }: ScheduleSlipTabProps) {
+  const [versions, setVersions] = useState<ScheduleVersionSummary[] | null>(null)
+  const [fromId, setFromId] = useState<string>('')
+  const [toId, setToId] = useState<string>('')
+  const [diff, setDiff] = useState<ScheduleDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filter, setFilter] = useState<ChangeFilter>('all')
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadVersions() {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/schedule`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: { versions: ScheduleVersionSummary[] } = await res.json()
+        if (cancelled) return
+        setVersions(json.versions)
+        if (json.versions.length >= 2) {
+          setToId(json.versions[0].id)
+          setFromId(json.versions[1].id)
+        } else {
+          setLoading(false)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load')
+          setLoading(false)
+        }
+      }
+    }
+    loadVersions()
+    return () => { cancelled = true }
+  }, [projectId])
+
+  useEffect(() => {
+    if (!fromId || !toId) return
+    let cancelled = false
+    async function loadDiff() {
+      setLoading(true)
+      setError(null)
+      try {
+        const qs = new URLSearchParams({ from: fromId, to: toId })
+        const res = await fetch(`/api/projects/${projectId}/schedule/diff?${qs}`)
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}))
+          throw new Error(body.error ?? `Request failed: ${res.status}`)
+        }
+        const json: { diff: ScheduleDiff } = await res.json()
+        if (!cancelled) setDiff(json.diff)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    loadDiff()
+    return () => { cancelled = true }
+  }, [projectId, fromId, toId])
+
+  if (versions && versions.length < 2) {
+    return (
+      <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-8 text-center space-y-2">
+        <p className="text-sm font-medium text-gray-700">
+          {versions.length === 0 ? 'No schedule imported yet' : 'Only one schedule version imported'}
+        </p>
+        <p className="text-xs text-gray-500">
+          Upload a P6 <span className="font-mono">.xer</span> or MS Project <span className="font-mono">.xml</span> export
+          as document type <span className="font-medium">Schedule</span>. Each upload becomes a new version; the slip
+          report compares any two.
+        </p>
+      </div>
+    )
+  }
+
+  const visibleChanges = diff ? diff.changes.filter(c => matchesFilter(c, filter)) : []
+  const s = diff?.summary
+
+  return (
+    <div className="space-y-4">
+      {/* Version pickers */}
+      {versions && (
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="space-y-1">
+            <span className="block text-xs font-medium text-gray-700">Compare from</span>
+            <select
+              value={fromId}
+              onChange={e => setFromId(e.target.value)}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white cursor-pointer"
+            >
+              {versions.map(v => (
+                <option key={v.id} value={v.id} disabled={v.id === toId}>{versionLabel(v)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-medium text-gray-700">To</span>
+            <select
+              value={toId}
+              onChange={e => setToId(e.target.value)}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white cursor-pointer"
+            >
+              {versions.map(v => (
+                <option key={v.id} value={v.id} disabled={v.id === fromId}>{versionLabel(v)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-indigo-200 border-t-indigo-600 mb-3" />
+            <p className="text-sm text-gray-500">Comparing schedule versions…</p>
+          </div>
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3"><p className="text-sm text-red-700">{error}</p></div>
+      )}
+
+      {!loading && !error && diff && s && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <StatCard
+              label="Project finish"
+              value={formatDelta(s.projectFinishSlipDays)}
+              tone={slipColor(s.projectFinishSlipDays)}
+            />
+            <StatCard label="Finish slipped" value={s.finishSlipCount} tone={s.finishSlipCount > 0 ? 'text-red-700' : 'text-gray-900'} />
+            <StatCard label="Float eroded" value={s.floatErodedCount} tone={s.floatErodedCount > 0 ? 'text-amber-700' : 'text-gray-900'} />
+            <StatCard label="Newly critical" value={s.newlyCriticalCount} tone={s.newlyCriticalCount > 0 ? 'text-red-700' : 'text-gray-900'} />
+            <StatCard label="Progressed" value={s.progressedCount} />
+          </div>
+          <p className="text-xs text-gray-500">
+            {s.matchedCount} activities matched • {s.addedCount} added • {s.removedCount} removed •{' '}
+            {s.tiesAddedCount} ties added • {s.tiesRemovedCount} removed • {s.tiesChangedCount} changed
+            {s.projectFinishBefore && s.projectFinishAfter && (
+              <> • finish {s.projectFinishBefore} → {s.projectFinishAfter}</>
+            )}
+          </p>
+
+          {/* Filter chips */}
+          <div className="flex flex-wrap gap-2">
+            {FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-2.5 py-1 text-xs rounded-full border cursor-pointer ${
+                  filter === f.id
+                    ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Activity changes */}
+          {visibleChanges.length === 0 ? (
+            <div className="rounded-md bg-gray-50 border border-gray-200 px-4 py-6 text-center">
+              <p className="text-sm text-gray-600">No activity changes in this view.</p>
+            </div>
+          ) : (
+            <div className="border border-gray-200 rounded-lg bg-white overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Activity</th>
+                    <th className="px-3 py-2 text-left">Finish</th>
+                    <th className="px-3 py-2 text-right">Start slip</th>
+                    <th className="px-3 py-2 text-right">Finish slip</th>
+                    <th className="px-3 py-2 text-right">Float</th>
+                    <th className="px-3 py-2 text-right">% complete</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleChanges.map(c => (
+                    <tr key={c.activityId} className="hover:bg-gray-50">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-xs text-gray-500">{c.activityId}</span>
+                          {c.isCritical && (
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${
+                              c.newlyCritical
+                                ? 'bg-red-100 text-red-800 border border-red-200'
+                                : 'bg-gray-100 text-gray-700 border border-gray-200'
+                            }`}>
+                              {c.newlyCritical ? 'Newly critical' : 'Critical'}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-gray-900">{c.activityName}</p>
+                        {c.wbsCode && <p className="text-xs text-gray-400">{c.wbsCode}</p>}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+                        {c.finishBefore ?? '—'} → {c.finishAfter ?? '—'}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${slipColor(c.startSlipDays)}`}>{formatDelta(c.startSlipDays)}</td>
+                      <td className={`px-3 py-2 text-right ${slipColor(c.finishSlipDays)}`}>{formatDelta(c.finishSlipDays)}</td>
+                      <td className={`px-3 py-2 text-right whitespace-nowrap ${floatColor(c.floatDeltaDays)}`}>
+                        {c.floatBefore ?? '—'} → {c.floatAfter ?? '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                        {c.percentBefore}% → {c.percentAfter}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Added / removed activities */}
+          {(diff.added.length > 0 || diff.removed.length > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {[
+                { title: 'Added activities', items: diff.added },
+                { title: 'Removed activities', items: diff.removed },
+              ].map(group => (
+                <div key={group.title} className="border border-gray-200 rounded-lg bg-white px-4 py-3">
+                  <p className="text-xs font-medium text-gray-700 uppercase tracking-wider mb-2">
+                    {group.title} ({group.items.length})
+                  </p>
+                  {group.items.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">none</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {group.items.map(a => (
+                        <li key={a.activityId} className="text-sm">
+                          <span className="font-mono text-xs text-gray-500 mr-2">{a.activityId}</span>
+                          <span className="text-gray-900">{a.activityName}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Logic tie changes */}
+          {(diff.tiesAdded.length > 0 || diff.tiesRemoved.length > 0 || diff.tiesChanged.length > 0) && (
+            <div className="border border-gray-200 rounded-lg bg-white px-4 py-3">
+              <p className="text-xs font-medium text-gray-700 uppercase tracking-wider mb-2">Logic changes</p>
+              <ul className="space-y-1 text-sm font-mono">
+                {diff.tiesAdded.map(t => (
+                  <li key={`a-${t.predecessorActivityId}-${t.successorActivityId}`} className="text-green-700">
+                    + {t.predecessorActivityId} → {t.successorActivityId} {t.type}{t.lagDays ? ` ${formatDelta(t.lagDays)}` : ''}
+                  </li>
+                ))}
+                {diff.tiesRemoved.map(t => (
+                  <li key={`r-${t.predecessorActivityId}-${t.successorActivityId}`} className="text-red-700">
+                    − {t.predecessorActivityId} → {t.successorActivityId} {t.type}{t.lagDays ? ` ${formatDelta(t.lagDays)}` : ''}
+                  </li>
+                ))}
+                {diff.tiesChanged.map(t => (
+                  <li key={`c-${t.predecessorActivityId}-${t.successorActivityId}`} className="text-amber-700">
+                    ~ {t.predecessorActivityId} → {t.successorActivityId} {t.before.type} {formatDelta(t.before.lagDays)} ⇒ {t.after.type} {formatDelta(t.after.lagDays)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
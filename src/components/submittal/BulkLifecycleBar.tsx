@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import {
+  ALL_LIFECYCLE_STATUSES,
+  STATUS_LABELS,
+  type SubmittalLifecycleStatus,
+} from '@/lib/chat/submittal-lifecycle'
+import type { BulkTransitionOutcome, BulkTransitionPreview } from '@/lib/chat/submittal-lifecycle-apply'
+import { LifecycleBadge } from './LifecycleBadge'
+
+interface BulkLifecycleBarProps {
+  projectId: string
+  itemIds: string[]
+  onClear: () => void
+  onApplied: (applied: Array<{ itemId: string; updatedFields: Partial<SubmittalRegisterItem> }>) => void
+}
+
+interface PreviewState {
+  toStatus: SubmittalLifecycleStatus
+  counts: Record<BulkTransitionOutcome, number>
+  preview: BulkTransitionPreview[]
+}
+
+const OUTCOME_CLASSES: Record<BulkTransitionOutcome, string> = {
+  move:      'text-green-700',
+  unchanged: 'text-gray-500',
+  blocked:   'text-red-700',
+}
+
+export function BulkLifecycleBar({ projectId, itemIds, onClear, onApplied }: BulkLifecycleBarProps) {
+  const [toStatus, setToStatus] = useState<SubmittalLifecycleStatus | ''>('')
+  const [note, setNote] = useState('')
+  const [preview, setPreview] = useState<PreviewState | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Any change to the selection or target invalidates the preview.
+  useEffect(() => {
+    setPreview(null)
+    setError(null)
+  }, [itemIds, toStatus])
+
+  const post = async (dryRun: boolean) => {
+    if (!toStatus) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/lifecycle/bulk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          item_ids: itemIds,
+          to_status: toStatus,
+          note: note.trim() || undefined,
+          dry_run: dryRun,
+          ...(!dryRun && preview
+            ? { expected_statuses: Object.fromEntries(preview.preview.map(e => [e.itemId, e.fromStatus])) }
+            : {}),
+        }),
+      })
+      const body = await res.json()
+      if (body?.preview) {
+        setPreview({ toStatus: body.toStatus, counts: body.counts, preview: body.preview })
+      }
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      if (!dryRun) {
+        onApplied(body.applied)
+        setPreview(null)
+        setNote('')
+        setToStatus('')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bulk update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-blue-200 bg-blue-50 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-blue-900">
+          {itemIds.length} item{itemIds.length === 1 ? '' : 's'} selected
+        </span>
+        <select
+          value={toStatus}
+          onChange={e => setToStatus(e.target.value as SubmittalLifecycleStatus | '')}
+          className="rounded border border-gray-300 px-2 py-1 text-sm bg-white cursor-pointer"
+        >
+          <option value="">Move to…</option>
+          {ALL_LIFECYCLE_STATUSES.map(s => (
+            <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="History note for every item (optional)"
+          className="flex-1 min-w-48 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={() => post(true)}
+          disabled={busy || !toStatus}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+        >
+          {busy && !preview ? 'Checking…' : 'Preview'}
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-xs text-blue-600 hover:text-blue-800 cursor-pointer"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-700">
+            <span className="text-green-700 font-medium">{preview.counts.move} will move</span>
+            {' · '}{preview.counts.unchanged} already {STATUS_LABELS[preview.toStatus]}
+            {' · '}
+            <span className={preview.counts.blocked > 0 ? 'text-red-700 font-medium' : ''}>
+              {preview.counts.blocked} blocked
+            </span>
+          </p>
+          <ul className="max-h-64 overflow-y-auto border border-gray-200 rounded bg-white divide-y divide-gray-100">
+            {preview.preview.map(entry => (
+              <li key={entry.itemId} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                <LifecycleBadge status={entry.fromStatus} compact />
+                <span className="flex-1 min-w-0 truncate text-gray-900">{entry.submittalItem}</span>
+                {entry.issuesSubmittalNumber && (
+                  <span className="shrink-0 text-xs font-mono text-gray-500">{entry.issuesSubmittalNumber}</span>
+                )}
+                <span className={`shrink-0 text-xs ${OUTCOME_CLASSES[entry.outcome]}`}>
+                  {entry.outcome === 'move'
+                    ? entry.path.map(s => STATUS_LABELS[s]).join(' → ')
+                    : entry.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => post(false)}
+              disabled={busy || preview.counts.move === 0}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 cursor-pointer"
+            >
+              {busy ? 'Applying…' : `Apply to ${preview.counts.move} item${preview.counts.move === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  )
+}
@@ -2,7 +2,12 @@
 
 import { useRef, useState, useEffect } from 'react'
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
-import { buildExportRows, EXPORT_COLUMNS } from '@/lib/export/submittal-export'
+import { buildExportRows, buildPlatformExportRows, EXPORT_COLUMNS } from '@/lib/export/submittal-export'
+import {
+  SUBMITTAL_LOG_PROFILE_IDS,
+  SUBMITTAL_LOG_PROFILES,
+  type SubmittalLogProfileId,
+} from '@/lib/reconciliation/submittal-log-profiles'
 
 interface ExportDropdownProps {
   projectId: string
@@ -33,28 +38,33 @@ export function ExportDropdown({
     return () => document.removeEventListener('pointerdown', onPointerDown)
   }, [open])
 
-  async function doExport(items: SubmittalRegisterItem[]) {
+  async function doExport(items: SubmittalRegisterItem[], profileId?: SubmittalLogProfileId) {
     if (items.length === 0) return
     setExporting(true)
     setOpen(false)
     try {
       const XLSX = await import('xlsx')
-      const rows = buildExportRows(items)
+      const profile = profileId ? SUBMITTAL_LOG_PROFILES[profileId] : null
+      const rows = profile ? buildPlatformExportRows(items, profile) : buildExportRows(items)
+      const columns = profile
+        ? profile.columns.map(c => ({ key: c.header, width: c.width }))
+        : EXPORT_COLUMNS
 
       const ws = XLSX.utils.json_to_sheet(rows, {
-        header: EXPORT_COLUMNS.map(c => c.key),
+        header: columns.map(c => c.key),
       })
 
-      ws['!cols'] = EXPORT_COLUMNS.map(c => ({ wch: c.width }))
+      ws['!cols'] = columns.map(c => ({ wch: c.width }))
 
       // Freeze header row
       ws['!freeze'] = { xSplit: 0, ySplit: 1 }
 
       const wb = XLSX.utils.book_new()
-      XLSX.utils.book_append_sheet(wb, ws, 'Submittal Register')
+      XLSX.utils.book_append_sheet(wb, ws, profile ? 'Submittals' : 'Submittal Register')
 
       const date = new Date().toISOString().slice(0, 10)
-      XLSX.writeFile(wb, `submittal-register-${projectId}-${date}.xlsx`)
+      const suffix = profile ? `-${profile.id}` : ''
+      XLSX.writeFile(wb, `submittal-register-${projectId}${suffix}-${date}.xlsx`)
     } catch (err) {
       console.error('[ExportDropdown] export failed:', err)
     } finally {
@@ -100,6 +110,18 @@ export function ExportDropdown({
               {allItems.length} item{allItems.length === 1 ? '' : 's'}
             </span>
           </button>
+          <div className="border-t border-gray-100 my-1" />
+          <p className="px-4 pt-1 pb-0.5 text-xs text-gray-400">Platform import file</p>
+          {SUBMITTAL_LOG_PROFILE_IDS.map(id => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => doExport(filtersActive ? filteredItems : allItems, id)}
+              className="w-full text-left px-4 py-1.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+            >
+              {SUBMITTAL_LOG_PROFILES[id].label}
+            </button>
+          ))}
         </div>
       )}
     </div>
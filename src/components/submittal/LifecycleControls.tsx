@@ -10,6 +10,7 @@ import {
   isOverdue,
   formatDueDate,
 } from '@/lib/chat/submittal-lifecycle'
+import { isRevisionDisposition } from '@/lib/chat/submittal-revisions'
 import { LifecycleBadge } from './LifecycleBadge'
 
 interface LifecycleControlsProps {
@@ -23,6 +24,7 @@ export function LifecycleControls({ item, projectId, onTransitioned }: Lifecycle
   const [historyOpen, setHistoryOpen] = useState(false)
   const [selectedStatus, setSelectedStatus] = useState<SubmittalLifecycleStatus | ''>('')
   const [note, setNote] = useState('')
+  const [packageReference, setPackageReference] = useState('')
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -49,6 +51,9 @@ export function LifecycleControls({ item, projectId, onTransitioned }: Lifecycle
             item_id: item.persistedItemId,
             to_status: selectedStatus,
             note: note.trim() || undefined,
+            ...(selectedStatus === 'submitted' && packageReference.trim()
+              ? { package_reference: packageReference.trim() }
+              : {}),
           }),
         }
       )
@@ -59,6 +64,7 @@ export function LifecycleControls({ item, projectId, onTransitioned }: Lifecycle
       onTransitioned(body.updatedFields as Partial<SubmittalRegisterItem>)
       setSelectedStatus('')
       setNote('')
+      setPackageReference('')
       setExpanded(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Update failed')
@@ -73,6 +79,12 @@ export function LifecycleControls({ item, projectId, onTransitioned }: Lifecycle
       <div className="flex flex-wrap items-center gap-2">
         <LifecycleBadge status={effectiveStatus} overdue={overdue} />
 
+        {item.submittalNumber && (
+          <span className="text-xs font-mono text-gray-600">
+            {item.revisions?.at(-1)?.submittalNumber ?? item.submittalNumber}
+          </span>
+        )}
+
         {item.lifecycleLongLeadFlag && (
           <span className="px-2 py-0.5 text-xs rounded bg-purple-50 text-purple-700 border border-purple-200">
             Long Lead
@@ -139,11 +151,20 @@ export function LifecycleControls({ item, projectId, onTransitioned }: Lifecycle
               {saving ? 'Saving…' : 'Save'}
             </button>
           </div>
+          {selectedStatus === 'submitted' && (
+            <input
+              type="text"
+              value={packageReference}
+              onChange={e => setPackageReference(e.target.value)}
+              placeholder="Package / transmittal reference (optional)"
+              className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm bg-white"
+            />
+          )}
           <input
             type="text"
             value={note}
             onChange={e => setNote(e.target.value)}
-            placeholder="Note (optional)"
+            placeholder={isRevisionDisposition(selectedStatus) ? 'Reviewer comments (optional)' : 'Note (optional)'}
             className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm bg-white"
           />
           {error && (
@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import type { SubmittalRegisterMergeSummary } from '@/lib/chat/submittal-register-merge'
+
+interface RegenerateSectionsPanelProps {
+  projectId: string
+  onClose: () => void
+  onRegenerated: () => void
+}
+
+export function RegenerateSectionsPanel({ projectId, onClose, onRegenerated }: RegenerateSectionsPanelProps) {
+  const [sections, setSections] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<{ summary: SubmittalRegisterMergeSummary | null; warnings: string[] } | null>(null)
+
+  const list = sections.split(/[,;\n]/).map(s => s.trim()).filter(Boolean)
+
+  const handleRun = async () => {
+    setBusy(true)
+    setError(null)
+    setResult(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ sections: list }),
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error([body?.error ?? `Request failed (${res.status})`, ...(body?.warnings ?? [])].join(' — '))
+      }
+      setResult({ summary: body.regeneration, warnings: body.warnings ?? [] })
+      onRegenerated()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Regeneration failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-gray-200 bg-gray-50 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={sections}
+          onChange={e => setSections(e.target.value)}
+          placeholder="Spec sections to re-extract, e.g. 03 30 00, 33 05"
+          className="flex-1 min-w-60 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={busy || list.length === 0}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 cursor-pointer"
+        >
+          {busy ? 'Re-extracting…' : 'Re-extract'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-gray-500 hover:text-gray-700 cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Items still in the spec keep their lifecycle and review state. Items no longer found are marked superseded;
+        new items are flagged for review. Other sections are not touched.
+      </p>
+      {result?.summary && (
+        <p className="text-xs text-gray-700">
+          <span className="text-green-700 font-medium">{result.summary.added} new</span>
+          {' · '}{result.summary.updated} wording changed
+          {' · '}{result.summary.unchanged} unchanged
+          {' · '}
+          <span className={result.summary.superseded > 0 ? 'text-amber-700 font-medium' : ''}>
+            {result.summary.superseded} superseded
+          </span>
+        </p>
+      )}
+      {result?.warnings.map(w => (
+        <p key={w} className="text-xs text-amber-700">{w}</p>
+      ))}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  )
+}
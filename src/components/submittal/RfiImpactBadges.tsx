@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import { RFI_IMPACT_REASON_LABELS, pendingRfiImpacts } from '@/lib/rfi/rfi-impact'
+
+interface RfiImpactBadgesProps {
+  item: SubmittalRegisterItem
+  projectId: string
+  onCleared: (updates: Partial<SubmittalRegisterItem>) => void
+}
+
+/**
+ * "Impacted by RFI-023" pills for answered RFIs that touch this submittal's
+ * spec section, each with a "Mark re-reviewed" action that clears the flag.
+ */
+export function RfiImpactBadges({ item, projectId, onCleared }: RfiImpactBadgesProps) {
+  const [clearing, setClearing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const pending = pendingRfiImpacts(item)
+  if (pending.length === 0) return null
+
+  const handleClear = async (rfiId: string) => {
+    if (!item.persistedItemId) return
+    setClearing(rfiId)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/rfi-impact`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ item_id: item.persistedItemId, rfi_id: rfiId }),
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      onCleared({ rfiImpacts: body.rfiImpacts })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed')
+    } finally {
+      setClearing(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {pending.map(impact => (
+        <span key={impact.rfiId} className="inline-flex items-center gap-1">
+          <span
+            className="px-2 py-0.5 font-medium rounded bg-amber-100 text-amber-800 border border-amber-200"
+            title={`${impact.subject} — ${impact.reasons.map(r => RFI_IMPACT_REASON_LABELS[r]).join(', ')}`}
+          >
+            Impacted by {impact.rfiNumber}
+          </span>
+          {item.persistedItemId && (
+            <button
+              type="button"
+              onClick={() => handleClear(impact.rfiId)}
+              disabled={clearing !== null}
+              className="px-2 py-0.5 text-amber-700 border border-amber-200 rounded hover:bg-amber-50 disabled:opacity-50 cursor-pointer"
+            >
+              {clearing === impact.rfiId ? 'Saving…' : 'Mark re-reviewed'}
+            </button>
+          )}
+        </span>
+      ))}
+      {error && <span className="text-red-700">{error}</span>}
+    </div>
+  )
+}
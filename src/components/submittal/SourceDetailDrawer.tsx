@@ -1,14 +1,158 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import {
+  DISPOSITION_LABELS,
+  summarizeRevisionHistory,
+  type RevisionDisposition,
+  type SubmittalRevision,
+} from '@/lib/chat/submittal-revisions'
 
 interface SourceDetailDrawerProps {
   item: SubmittalRegisterItem | null
   onClose: () => void
+  // Enables editing revision package / comments. Read-only without both.
+  projectId?: string
+  onPatchItem?: (itemId: string, updates: Partial<SubmittalRegisterItem>) => void
 }
 
-export function SourceDetailDrawer({ item, onClose }: SourceDetailDrawerProps) {
+const DISPOSITION_COLORS: Record<RevisionDisposition, string> = {
+  approved:          'bg-green-100 text-green-800',
+  approved_as_noted: 'bg-emerald-100 text-emerald-800',
+  revise_resubmit:   'bg-orange-100 text-orange-800',
+  rejected:          'bg-red-100 text-red-800',
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—'
+  return new Date(iso.length === 10 ? `${iso}T00:00:00` : iso).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric',
+  })
+}
+
+function RevisionEntry({
+  revision,
+  itemId,
+  projectId,
+  onPatchItem,
+}: {
+  revision: SubmittalRevision
+  itemId?: string
+  projectId?: string
+  onPatchItem?: (itemId: string, updates: Partial<SubmittalRegisterItem>) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [packageReference, setPackageReference] = useState(revision.packageReference ?? '')
+  const [comments, setComments] = useState(revision.reviewerComments ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const editable = Boolean(itemId && projectId && onPatchItem)
+
+  const handleSave = async () => {
+    if (!itemId || !projectId || !onPatchItem) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/revisions`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          item_id: itemId,
+          revision: revision.revision,
+          package_reference: packageReference,
+          reviewer_comments: comments,
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      onPatchItem(itemId, body.updatedFields as Partial<SubmittalRegisterItem>)
+      setEditing(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <li className="border border-gray-200 rounded p-3 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-mono font-medium text-gray-900">{revision.submittalNumber}</span>
+        <span className="text-xs text-gray-500">Rev {revision.revision}</span>
+        {revision.disposition ? (
+          <span className={`text-xs px-2 py-0.5 rounded ${DISPOSITION_COLORS[revision.disposition]}`}>
+            {DISPOSITION_LABELS[revision.disposition]}
+          </span>
+        ) : (
+          <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800">In review</span>
+        )}
+        {editable && !editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="ml-auto text-xs text-blue-600 hover:text-blue-800 cursor-pointer"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Submitted {formatDate(revision.submittedAt)}
+        {revision.reviewDueDate && ` · due ${formatDate(revision.reviewDueDate)}`}
+        {revision.returnedAt && ` · returned ${formatDate(revision.returnedAt)}`}
+        {revision.reviewer && ` · ${revision.reviewer}`}
+      </p>
+      {editing ? (
+        <div className="space-y-1.5">
+          <input
+            type="text"
+            value={packageReference}
+            onChange={e => setPackageReference(e.target.value)}
+            placeholder="Package / transmittal reference"
+            className="block w-full rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+          <textarea
+            value={comments}
+            onChange={e => setComments(e.target.value)}
+            placeholder="Reviewer comments"
+            rows={3}
+            className="block w-full rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 cursor-pointer"
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+        </div>
+      ) : (
+        <>
+          {revision.packageReference && (
+            <p className="text-xs text-gray-700">Package: {revision.packageReference}</p>
+          )}
+          {revision.reviewerComments && (
+            <p className="text-xs text-gray-700 whitespace-pre-wrap italic">{revision.reviewerComments}</p>
+          )}
+        </>
+      )}
+    </li>
+  )
+}
+
+export function SourceDetailDrawer({ item, onClose, projectId, onPatchItem }: SourceDetailDrawerProps) {
   useEffect(() => {
     if (!item) return
     const handler = (e: KeyboardEvent) => {
@@ -24,6 +168,8 @@ export function SourceDetailDrawer({ item, onClose }: SourceDetailDrawerProps) {
   const docName = item.sourceReference?.documentName
   const pageNum = item.sourceReference?.pageNumber ?? item.sourcePage
   const excerpt = item.sourceExcerpt ?? item.excerpt
+  const revisions = Array.isArray(item.revisions) ? item.revisions : []
+  const revisionSummary = summarizeRevisionHistory(revisions)
 
   return (
     <>
@@ -126,6 +272,31 @@ export function SourceDetailDrawer({ item, onClose }: SourceDetailDrawerProps) {
               </dl>
             </section>
           )}
+          {revisions.length > 0 && (
+            <section>
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Revision history
+              </p>
+              <p className="text-sm text-gray-700 mb-2">
+                {revisionSummary.cycles} review cycle{revisionSummary.cycles === 1 ? '' : 's'}
+                {revisionSummary.resubmittals > 0 &&
+                  ` (${revisionSummary.resubmittals} resubmittal${revisionSummary.resubmittals === 1 ? '' : 's'})`}
+                {revisionSummary.daysToApproval !== null && ` · approved ${revisionSummary.daysToApproval} days after first submission`}
+                {revisionSummary.returned > 0 && ` · ${revisionSummary.reviewDays} days with reviewer`}
+              </p>
+              <ul className="space-y-2">
+                {[...revisions].reverse().map(r => (
+                  <RevisionEntry
+                    key={r.revision}
+                    revision={r}
+                    itemId={item.persistedItemId}
+                    projectId={projectId}
+                    onPatchItem={onPatchItem}
+                  />
+                ))}
+              </ul>
+            </section>
+          )}
           {item.notes && (
             <section>
               <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
@@ -7,14 +7,18 @@ import type {
   SubmittalRegisterItem,
 } from '@/lib/chat/submittal-register'
 import { LifecycleControls } from './LifecycleControls'
+import { BulkLifecycleBar } from './BulkLifecycleBar'
+import { RegenerateSectionsPanel } from './RegenerateSectionsPanel'
 import { SourceDetailDrawer } from './SourceDetailDrawer'
 import { QAInlineEditor } from './QAInlineEditor'
+import { RfiImpactBadges } from './RfiImpactBadges'
 import { ExportDropdown } from './ExportDropdown'
 import {
   evaluateSubmittalCoverageQA,
   getSubmittalItemKey,
   type QAFindingType,
 } from '@/lib/chat/submittal-coverage-qa'
+import { REGENERATION_STATUS_LABELS, type RegenerationStatus } from '@/lib/chat/submittal-register-merge'
 
 interface SubmittalRegisterReviewProps {
   projectId: string
@@ -22,6 +26,8 @@ interface SubmittalRegisterReviewProps {
   onPatchItem: (itemId: string, updates: Partial<SubmittalRegisterItem>) => void
   qaFindingFilter?: QAFindingType | ''
   onQaFindingFilterChange?: (v: QAFindingType | '') => void
+  // Called after a section re-extraction wrote a new run; the caller reloads.
+  onRegenerated?: () => void
 }
 
 const REVIEW_STATUSES = [
@@ -72,6 +78,15 @@ const QA_FINDING_LABELS: Record<QAFindingType, string> = {
   low_extraction_confidence: 'Low confidence',
 }
 
+const REGENERATION_FILTERS: RegenerationStatus[] = ['new', 'updated', 'superseded']
+
+const REGENERATION_PILL_CLASSES: Record<RegenerationStatus, string> = {
+  new: 'bg-green-50 text-green-700 border border-green-200',
+  updated: 'bg-amber-50 text-amber-700 border border-amber-200',
+  unchanged: 'bg-gray-50 text-gray-500 border border-gray-200',
+  superseded: 'bg-gray-100 text-gray-600 border border-gray-300',
+}
+
 interface DraftState {
   status: ReviewStatus
   notes: string
@@ -88,6 +103,7 @@ export function SubmittalRegisterReview({
   onPatchItem,
   qaFindingFilter: qaFindingFilterProp,
   onQaFindingFilterChange,
+  onRegenerated,
 }: SubmittalRegisterReviewProps) {
   const qaFindingFilter = qaFindingFilterProp ?? ''
   const setQaFindingFilter = onQaFindingFilterChange ?? (() => {})
@@ -105,7 +121,10 @@ export function SubmittalRegisterReview({
   const [missingFOWFilter, setMissingFOWFilter] = useState(false)
   const [needByFilter, setNeedByFilter] = useState(false)
   const [lowConfidenceFilter, setLowConfidenceFilter] = useState(false)
+  const [regenerationFilter, setRegenerationFilter] = useState<RegenerationStatus | ''>('')
+  const [regenerateOpen, setRegenerateOpen] = useState(false)
   const [advancedOpen, setAdvancedOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     setDrafts({})
@@ -120,7 +139,9 @@ export function SubmittalRegisterReview({
     setMissingFOWFilter(false)
     setNeedByFilter(false)
     setLowConfidenceFilter(false)
+    setRegenerationFilter('')
     setQaFindingFilter('')
+    setSelectedIds(new Set())
   }, [data])
 
   const uniqueSdCodes = useMemo(() => {
@@ -133,6 +154,11 @@ export function SubmittalRegisterReview({
     return [...auths].sort()
   }, [data.items])
 
+  const hasRegenerationMarks = useMemo(
+    () => data.items.some(i => i.regeneration && i.regeneration.status !== 'unchanged'),
+    [data.items],
+  )
+
   const itemKeys = useMemo(
     () => new Map(data.items.map((item, i) => [item, getSubmittalItemKey(item, i)])),
     [data.items],
@@ -193,6 +219,7 @@ export function SubmittalRegisterReview({
           : item.sourceQuality === 'low' ? 0.4 : 1
         if (conf >= 0.80) return false
       }
+      if (regenerationFilter && item.regeneration?.status !== regenerationFilter) return false
       if (qaFindingFilter && !affectedItemsSet.has(itemKeys.get(item) ?? '')) return false
       return true
     }
@@ -202,9 +229,9 @@ export function SubmittalRegisterReview({
       .filter(s => s.items.length > 0)
     const ungrouped = data.ungrouped.filter(matchItem)
     return { items, groupedSections, ungrouped }
-  }, [data, searchFilter, reviewStatusFilter, specSectionFilter, sdCodeFilter, approvalAuthorityFilter, blockingRiskFilter, blocksWorkFilter, missingFOWFilter, needByFilter, lowConfidenceFilter, qaFindingFilter, affectedItemsSet, itemKeys])
+  }, [data, searchFilter, reviewStatusFilter, specSectionFilter, sdCodeFilter, approvalAuthorityFilter, blockingRiskFilter, blocksWorkFilter, missingFOWFilter, needByFilter, lowConfidenceFilter, regenerationFilter, qaFindingFilter, affectedItemsSet, itemKeys])
 
-  const filtersActive = !!(searchFilter || reviewStatusFilter || specSectionFilter || sdCodeFilter || approvalAuthorityFilter || blockingRiskFilter || blocksWorkFilter || missingFOWFilter || needByFilter || lowConfidenceFilter || qaFindingFilter)
+  const filtersActive = !!(searchFilter || reviewStatusFilter || specSectionFilter || sdCodeFilter || approvalAuthorityFilter || blockingRiskFilter || blocksWorkFilter || missingFOWFilter || needByFilter || lowConfidenceFilter || regenerationFilter || qaFindingFilter)
 
   const handleSetDraftStatus = (itemId: string, _currentStatus: ReviewStatus, currentNotes: string, status: ReviewStatus) => {
     setDrafts(prev => ({
@@ -270,6 +297,21 @@ export function SubmittalRegisterReview({
     }
   }
 
+  // Register order, so bulk first submissions number in the order shown.
+  const selectedItemIds = useMemo(
+    () => data.items.flatMap(i => (i.persistedItemId && selectedIds.has(i.persistedItemId) ? [i.persistedItemId] : [])),
+    [data.items, selectedIds],
+  )
+
+  const handleToggleSelect = (itemId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(itemId)) next.delete(itemId)
+      else next.add(itemId)
+      return next
+    })
+  }
+
   const handleResetDraft = (itemId: string) => {
     setDrafts(prev => {
       const next = { ...prev }
@@ -305,6 +347,18 @@ export function SubmittalRegisterReview({
                 <option value="">All statuses</option>
                 {REVIEW_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
               </select>
+              {hasRegenerationMarks && (
+                <select
+                  value={regenerationFilter}
+                  onChange={e => setRegenerationFilter(e.target.value as RegenerationStatus | '')}
+                  className="rounded border border-gray-300 px-2 py-1.5 text-sm bg-white cursor-pointer"
+                >
+                  <option value="">All changes</option>
+                  {REGENERATION_FILTERS.map(r => (
+                    <option key={r} value={r}>{REGENERATION_STATUS_LABELS[r]}</option>
+                  ))}
+                </select>
+              )}
               {uniqueQaFindingTypes.length > 0 && (
                 <select
                   value={qaFindingFilter}
@@ -332,6 +386,24 @@ export function SubmittalRegisterReview({
                 filteredItems={filteredData.items}
                 filtersActive={filtersActive}
               />
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedIds(new Set(filteredData.items.flatMap(i => (i.persistedItemId ? [i.persistedItemId] : []))))
+                }
+                className="text-xs text-blue-600 hover:underline cursor-pointer whitespace-nowrap"
+              >
+                Select {filtersActive ? 'shown' : 'all'}
+              </button>
+              {onRegenerated && (
+                <button
+                  type="button"
+                  onClick={() => setRegenerateOpen(o => !o)}
+                  className="text-xs text-blue-600 hover:underline cursor-pointer whitespace-nowrap"
+                >
+                  Re-extract sections
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => setAdvancedOpen(o => !o)}
@@ -352,6 +424,7 @@ export function SubmittalRegisterReview({
                     setBlocksWorkFilter(false)
                     setMissingFOWFilter(false)
                     setNeedByFilter(false)
+                    setRegenerationFilter('')
                     setQaFindingFilter('')
                   }}
                   className="text-xs text-blue-600 hover:underline cursor-pointer whitespace-nowrap"
@@ -440,6 +513,23 @@ export function SubmittalRegisterReview({
             )}
           </div>
 
+          {regenerateOpen && onRegenerated && (
+            <RegenerateSectionsPanel
+              projectId={projectId}
+              onClose={() => setRegenerateOpen(false)}
+              onRegenerated={onRegenerated}
+            />
+          )}
+
+          {selectedItemIds.length > 0 && (
+            <BulkLifecycleBar
+              projectId={projectId}
+              itemIds={selectedItemIds}
+              onClear={() => setSelectedIds(new Set())}
+              onApplied={applied => applied.forEach(a => onPatchItem(a.itemId, a.updatedFields))}
+            />
+          )}
+
           {qaFindingFilter && (
             <div className="flex items-center gap-2 px-3 py-2 bg-indigo-50 border border-indigo-200 rounded-md text-xs text-indigo-800">
               <span className="font-medium">QA filter:</span>
@@ -475,6 +565,8 @@ export function SubmittalRegisterReview({
                 onLifecycleTransitioned={onPatchItem}
                 onViewSource={setSelectedSourceItem}
                 activeQaFilter={qaFindingFilter}
+                selectedIds={selectedIds}
+                onToggleSelect={handleToggleSelect}
               />
             ))}
             {filteredData.ungrouped.length > 0 && (
@@ -490,14 +582,22 @@ export function SubmittalRegisterReview({
                 onLifecycleTransitioned={onPatchItem}
                 onViewSource={setSelectedSourceItem}
                 activeQaFilter={qaFindingFilter}
+                selectedIds={selectedIds}
+                onToggleSelect={handleToggleSelect}
               />
             )}
           </div>
         </>
       )}
       <SourceDetailDrawer
-        item={selectedSourceItem}
+        item={
+          selectedSourceItem &&
+          (data.items.find(i => i.persistedItemId && i.persistedItemId === selectedSourceItem.persistedItemId) ??
+            selectedSourceItem)
+        }
         onClose={() => setSelectedSourceItem(null)}
+        projectId={projectId}
+        onPatchItem={onPatchItem}
       />
     </div>
   )
@@ -608,6 +708,8 @@ interface SectionRenderProps {
   onLifecycleTransitioned: (itemId: string, updates: Partial<SubmittalRegisterItem>) => void
   onViewSource: (item: SubmittalRegisterItem) => void
   activeQaFilter?: QAFindingType | ''
+  selectedIds: Set<string>
+  onToggleSelect: (itemId: string) => void
 }
 
 function SectionCard({
@@ -622,6 +724,8 @@ function SectionCard({
   onLifecycleTransitioned,
   onViewSource,
   activeQaFilter,
+  selectedIds,
+  onToggleSelect,
 }: SectionRenderProps & { section: SubmittalRegisterGroup }) {
   const [open, setOpen] = useState(false)
 
@@ -680,6 +784,8 @@ function SectionCard({
               onLifecycleTransitioned={onLifecycleTransitioned}
               onViewSource={onViewSource}
               activeQaFilter={activeQaFilter}
+              selectedIds={selectedIds}
+              onToggleSelect={onToggleSelect}
             />
           ))}
         </ul>
@@ -700,6 +806,8 @@ function UngroupedCard({
   onLifecycleTransitioned,
   onViewSource,
   activeQaFilter,
+  selectedIds,
+  onToggleSelect,
 }: SectionRenderProps & { items: SubmittalRegisterItem[] }) {
   return (
     <div className="rounded-md border border-gray-200">
@@ -724,6 +832,8 @@ function UngroupedCard({
             onLifecycleTransitioned={onLifecycleTransitioned}
             onViewSource={onViewSource}
             activeQaFilter={activeQaFilter}
+            selectedIds={selectedIds}
+            onToggleSelect={onToggleSelect}
           />
         ))}
       </ul>
@@ -743,6 +853,8 @@ function ItemRow({
   onLifecycleTransitioned,
   onViewSource,
   activeQaFilter,
+  selectedIds,
+  onToggleSelect,
 }: SectionRenderProps & { item: SubmittalRegisterItem }) {
   const itemId = item.persistedItemId
   const currentStatus: ReviewStatus = isReviewStatus(item.reviewStatus) ? item.reviewStatus : 'pending'
@@ -757,10 +869,27 @@ function ItemRow({
   return (
     <li className="p-4 space-y-3">
       <div className="flex flex-wrap items-start gap-2">
+        {itemId && (
+          <input
+            type="checkbox"
+            checked={selectedIds.has(itemId)}
+            onChange={() => onToggleSelect(itemId)}
+            className="mt-0.5 cursor-pointer"
+            aria-label="Select for bulk lifecycle change"
+          />
+        )}
         <p className="flex-1 min-w-0 text-sm text-gray-900">{item.submittalItem}</p>
         <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_PILL_CLASSES[currentStatus]}`}>
           {STATUS_LABELS[currentStatus]}
         </span>
+        {item.regeneration && item.regeneration.status !== 'unchanged' && item.regeneration.status !== 'superseded' && (
+          <span
+            className={`px-2 py-0.5 text-xs font-medium rounded ${REGENERATION_PILL_CLASSES[item.regeneration.status]}`}
+            title={item.regeneration.previousExcerpt ? `Previously: ${item.regeneration.previousExcerpt}` : undefined}
+          >
+            {REGENERATION_STATUS_LABELS[item.regeneration.status]}
+          </span>
+        )}
         {hasSource && (
           <button
             type="button"
@@ -799,6 +928,12 @@ function ItemRow({
         )}
       </div>
 
+      <RfiImpactBadges
+        item={item}
+        projectId={projectId}
+        onCleared={updates => itemId && onLifecycleTransitioned(itemId, updates)}
+      />
+
       {(item.sourceReference?.specSection || item.sourceReference?.documentName || item.sourceReference?.pageNumber) && (
         <p className="text-xs text-gray-500">
           {[
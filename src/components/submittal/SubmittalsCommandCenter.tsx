@@ -10,19 +10,25 @@ import { SubmittalRegisterReview } from './SubmittalRegisterReview'
 import { ArtifactReviewQueue } from './ArtifactReviewQueue'
 import { OverviewTab } from './tabs/OverviewTab'
 import { ApprovalsTab } from './tabs/ApprovalsTab'
+import { BallInCourtTab } from './tabs/BallInCourtTab'
 import { LongLeadTab } from './tabs/LongLeadTab'
+import { PackagesTab } from './tabs/PackagesTab'
 import { ReconciliationTab } from './tabs/ReconciliationTab'
+import { RegisterDiffTab } from './tabs/RegisterDiffTab'
 import { resolveEffectiveStatus } from '@/lib/chat/submittal-lifecycle'
 
-type Tab = 'overview' | 'register' | 'queue' | 'approvals' | 'longlead' | 'reconciliation'
+type Tab = 'overview' | 'register' | 'queue' | 'approvals' | 'ballincourt' | 'packages' | 'longlead' | 'reconciliation' | 'diff'
 
 const TABS: { id: Tab; label: string }[] = [
   { id: 'overview', label: 'Overview' },
   { id: 'register', label: 'Register' },
   { id: 'queue', label: 'Review Queue' },
   { id: 'approvals', label: 'Approvals' },
+  { id: 'ballincourt', label: 'Ball in Court' },
+  { id: 'packages', label: 'Packages' },
   { id: 'longlead', label: 'Long Lead' },
   { id: 'reconciliation', label: 'Reconciliation' },
+  { id: 'diff', label: 'Run Diff' },
 ]
 
 function patchItemFields(
@@ -201,6 +207,7 @@ export function SubmittalsCommandCenter({ projectId }: SubmittalsCommandCenterPr
                 onPatchItem={patchItem}
                 qaFindingFilter={qaFindingFilter}
                 onQaFindingFilterChange={setQaFindingFilter}
+                onRegenerated={() => load('refresh')}
               />
             )}
             {activeTab === 'queue' && (
@@ -224,6 +231,18 @@ export function SubmittalsCommandCenter({ projectId }: SubmittalsCommandCenterPr
                 onPatchItem={patchItem}
               />
             )}
+            {activeTab === 'ballincourt' && (
+              <BallInCourtTab
+                projectId={projectId}
+                items={data.items}
+              />
+            )}
+            {activeTab === 'packages' && (
+              <PackagesTab
+                projectId={projectId}
+                items={data.items}
+              />
+            )}
             {activeTab === 'longlead' && (
               <LongLeadTab
                 projectId={projectId}
@@ -238,6 +257,9 @@ export function SubmittalsCommandCenter({ projectId }: SubmittalsCommandCenterPr
                 onRegisterUpdated={() => load('refresh')}
               />
             )}
+            {activeTab === 'diff' && (
+              <RegisterDiffTab projectId={projectId} />
+            )}
           </>
         )}
       </div>
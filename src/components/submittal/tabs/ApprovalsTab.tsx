@@ -1,10 +1,20 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
 import { LifecycleBadge } from '../LifecycleBadge'
 import { LifecycleControls } from '../LifecycleControls'
 import { resolveEffectiveStatus, isOverdue } from '@/lib/chat/submittal-lifecycle'
+import {
+  buildReviewerAging,
+  evaluateItemReviewSla,
+  formatReviewPeriod,
+  REVIEW_AGING_BUCKETS,
+  REVIEW_AGING_LABELS,
+  type ReviewDayBasis,
+  type ReviewPeriod,
+  type SubmittalSlaConfig,
+} from '@/lib/chat/submittal-sla'
 
 const APPROVAL_STATUSES = [
   'pending_review',
@@ -44,6 +54,147 @@ interface RowSave {
   error: string | null
 }
 
+const AGING_CELL_CLASSES: Record<string, string> = {
+  on_time:         'text-gray-700',
+  due_soon:        'text-amber-700',
+  overdue_1_7:     'text-orange-700',
+  overdue_8_14:    'text-red-700',
+  overdue_15_plus: 'text-red-800 font-semibold',
+}
+
+function PeriodInput({
+  period,
+  onChange,
+}: {
+  period: ReviewPeriod
+  onChange: (period: ReviewPeriod) => void
+}) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <input
+        type="number"
+        min={1}
+        value={period.days}
+        onChange={e => onChange({ ...period, days: Math.max(1, Number(e.target.value) || 1) })}
+        className="w-16 text-sm border border-gray-300 rounded-md px-2 py-1"
+      />
+      <select
+        value={period.basis}
+        onChange={e => onChange({ ...period, basis: e.target.value as ReviewDayBasis })}
+        className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white"
+      >
+        <option value="calendar">calendar days</option>
+        <option value="working">working days</option>
+      </select>
+    </span>
+  )
+}
+
+function ReviewPeriodSettings({
+  projectId,
+  config,
+  authorities,
+  onSaved,
+  onClose,
+}: {
+  projectId: string
+  config: SubmittalSlaConfig
+  authorities: string[]
+  onSaved: (config: SubmittalSlaConfig) => void
+  onClose: () => void
+}) {
+  const [draft, setDraft] = useState<SubmittalSlaConfig>(config)
+  const [holidays, setHolidays] = useState(config.holidays.join('\n'))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/sla`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          config: { ...draft, holidays: holidays.split(/[\s,]+/).filter(Boolean) },
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok || !body.success) throw new Error(body?.error ?? `Failed (${res.status})`)
+      onSaved(body.config as SubmittalSlaConfig)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="w-48 text-gray-600">Default review period</span>
+        <PeriodInput period={draft.defaultPeriod} onChange={p => setDraft(d => ({ ...d, defaultPeriod: p }))} />
+      </div>
+      {authorities.map(authority => {
+        const override = draft.byAuthority[authority]
+        return (
+          <div key={authority} className="flex items-center gap-3">
+            <label className="w-48 flex items-center gap-2 text-gray-600 truncate">
+              <input
+                type="checkbox"
+                checked={Boolean(override)}
+                onChange={e =>
+                  setDraft(d => {
+                    const byAuthority = { ...d.byAuthority }
+                    if (e.target.checked) byAuthority[authority] = { ...d.defaultPeriod }
+                    else delete byAuthority[authority]
+                    return { ...d, byAuthority }
+                  })
+                }
+              />
+              {authority}
+            </label>
+            {override ? (
+              <PeriodInput
+                period={override}
+                onChange={p => setDraft(d => ({ ...d, byAuthority: { ...d.byAuthority, [authority]: p } }))}
+              />
+            ) : (
+              <span className="text-xs text-gray-400">uses default</span>
+            )}
+          </div>
+        )
+      })}
+      <div>
+        <label className="block text-gray-600 mb-1">Holidays (YYYY-MM-DD, one per line)</label>
+        <textarea
+          value={holidays}
+          onChange={e => setHolidays(e.target.value)}
+          rows={3}
+          className="w-64 text-sm border border-gray-300 rounded-md px-2 py-1 font-mono"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 cursor-pointer"
+        >
+          {saving ? 'Saving…' : 'Save review periods'}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 cursor-pointer"
+        >
+          Cancel
+        </button>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
 interface ApprovalsTabProps {
   projectId: string
   items: SubmittalRegisterItem[]
@@ -53,6 +204,36 @@ interface ApprovalsTabProps {
 export function ApprovalsTab({ projectId, items, onPatchItem }: ApprovalsTabProps) {
   const [drafts, setDrafts] = useState<Record<string, DraftState>>({})
   const [rowSave, setRowSave] = useState<Record<string, RowSave>>({})
+  const [sla, setSla] = useState<SubmittalSlaConfig | null>(null)
+  const [slaError, setSlaError] = useState<string | null>(null)
+  const [editingSla, setEditingSla] = useState(false)
+  const today = new Date().toISOString().slice(0, 10)
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadSla() {
+      setSlaError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/submittal-register/sla`, { credentials: 'include' })
+        const body = await res.json()
+        if (!res.ok || !body.success) throw new Error(body?.error ?? `Request failed (${res.status})`)
+        if (!cancelled) setSla(body.config as SubmittalSlaConfig)
+      } catch (err) {
+        if (!cancelled) setSlaError(err instanceof Error ? err.message : 'Failed to load review periods')
+      }
+    }
+    loadSla()
+    return () => {
+      cancelled = true
+    }
+  }, [projectId])
+
+  const aging = useMemo(() => (sla ? buildReviewerAging(items, sla, today) : []), [items, sla, today])
+
+  const authorities = useMemo(
+    () => [...new Set(items.map(i => i.approvalAuthority?.trim()).filter((a): a is string => Boolean(a)))].sort(),
+    [items]
+  )
 
   const approvalItems = useMemo(() => {
     return items.filter(i => {
@@ -114,12 +295,85 @@ export function ApprovalsTab({ projectId, items, onPatchItem }: ApprovalsTabProp
     }
   }
 
-  if (approvalItems.length === 0) {
-    return <p className="text-sm text-gray-500 py-4">No items pending approval.</p>
-  }
-
   return (
     <div className="space-y-3">
+      {slaError && <p className="text-xs text-red-600">Review periods unavailable: {slaError}</p>}
+      {sla && (
+        <div className="border border-gray-200 rounded-lg bg-white">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">
+              Review aging by reviewer
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                default {formatReviewPeriod(sla.defaultPeriod)}
+                {Object.keys(sla.byAuthority).length > 0 &&
+                  ` · ${Object.keys(sla.byAuthority).length} authority override${Object.keys(sla.byAuthority).length === 1 ? '' : 's'}`}
+              </span>
+            </p>
+            {!editingSla && (
+              <button
+                onClick={() => setEditingSla(true)}
+                className="text-xs text-indigo-600 hover:text-indigo-800 cursor-pointer"
+              >
+                Review periods
+              </button>
+            )}
+          </div>
+          {editingSla && (
+            <div className="p-3">
+              <ReviewPeriodSettings
+                projectId={projectId}
+                config={sla}
+                authorities={authorities}
+                onSaved={config => {
+                  setSla(config)
+                  setEditingSla(false)
+                }}
+                onClose={() => setEditingSla(false)}
+              />
+            </div>
+          )}
+          {aging.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No submitted items yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="px-4 py-2 font-medium">Reviewer</th>
+                  <th className="px-2 py-2 font-medium text-right">Open</th>
+                  {REVIEW_AGING_BUCKETS.map(b => (
+                    <th key={b} className="px-2 py-2 font-medium text-right">{REVIEW_AGING_LABELS[b]}</th>
+                  ))}
+                  <th className="px-2 py-2 font-medium text-right" title="Days past due, summed over every review cycle">
+                    Delay days
+                  </th>
+                  <th className="px-4 py-2 font-medium text-right">Late returns</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {aging.map(row => (
+                  <tr key={row.reviewer}>
+                    <td className="px-4 py-1.5 text-gray-900">{row.reviewer}</td>
+                    <td className="px-2 py-1.5 text-right">{row.open}</td>
+                    {REVIEW_AGING_BUCKETS.map(b => (
+                      <td key={b} className={`px-2 py-1.5 text-right ${row.buckets[b] > 0 ? AGING_CELL_CLASSES[b] : 'text-gray-300'}`}>
+                        {row.buckets[b]}
+                      </td>
+                    ))}
+                    <td className={`px-2 py-1.5 text-right ${row.delayDays > 0 ? 'text-red-700 font-medium' : 'text-gray-500'}`}>
+                      {row.delayDays}
+                    </td>
+                    <td className="px-4 py-1.5 text-right text-gray-700">{row.lateReturns}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {approvalItems.length === 0 && (
+        <p className="text-sm text-gray-500 py-4">No items pending approval.</p>
+      )}
       {approvalItems.map((item, idx) => {
         const id = item.persistedItemId ?? String(idx)
         const currentDraft = drafts[id] ?? {
@@ -131,6 +385,7 @@ export function ApprovalsTab({ projectId, items, onPatchItem }: ApprovalsTabProp
           currentDraft.status !== ((item.reviewStatus as ReviewStatusValue) ?? 'pending') ||
           currentDraft.notes !== (item.reviewNotes ?? '')
         const overdue = isOverdue(item.lifecycleDueDate)
+        const review = sla ? evaluateItemReviewSla(item, sla, today).current : null
 
         return (
           <div key={id} className="border border-gray-200 rounded-lg p-4 bg-white space-y-3">
@@ -156,6 +411,15 @@ export function ApprovalsTab({ projectId, items, onPatchItem }: ApprovalsTabProp
               )}
             </div>
 
+            {review && (
+              <p className={`text-xs ${review.status === 'overdue' ? 'text-red-600' : review.status === 'due_soon' ? 'text-amber-700' : 'text-gray-500'}`}>
+                With reviewer since {review.submittedAt} · {formatReviewPeriod(review.period)} · due {review.dueDate}
+                {review.status === 'overdue'
+                  ? ` · ${review.daysLate} ${review.period.basis === 'working' ? 'working ' : ''}day${review.daysLate === 1 ? '' : 's'} late`
+                  : review.daysRemaining !== null && ` · ${review.daysRemaining} left`}
+              </p>
+            )}
+
             {/* Review form */}
             <div className="flex flex-wrap items-end gap-3">
               <div>
@@ -0,0 +1,333 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import {
+  buildPartyIndex,
+  PARTY_ROLE_LABELS,
+  PARTY_ROLES,
+  type PartyRole,
+  type ProjectParty,
+} from '@/lib/chat/project-parties'
+import {
+  buildBallInCourtSummary,
+  COURT_SIDE_LABELS,
+  COURT_SIDES,
+  type CourtSide,
+} from '@/lib/chat/ball-in-court'
+import { LifecycleBadge } from '../LifecycleBadge'
+
+interface BallInCourtTabProps {
+  projectId: string
+  items: SubmittalRegisterItem[]
+}
+
+const SIDE_COLORS: Record<CourtSide, string> = {
+  contractor: 'bg-amber-100 text-amber-800',
+  designer:   'bg-blue-100 text-blue-800',
+  owner:      'bg-purple-100 text-purple-800',
+}
+
+function formatDays(days: number | null): string {
+  return days === null ? '—' : `${days}d`
+}
+
+function PartyEditor({
+  projectId,
+  party,
+  onSaved,
+  onDeleted,
+}: {
+  projectId: string
+  party: ProjectParty | null
+  onSaved: (party: ProjectParty) => void
+  onDeleted?: (partyId: string) => void
+}) {
+  const [name, setName] = useState(party?.name ?? '')
+  const [role, setRole] = useState<PartyRole>(party?.role ?? 'designer')
+  const [organization, setOrganization] = useState(party?.organization ?? '')
+  const [aliases, setAliases] = useState((party?.aliases ?? []).join(', '))
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const base = `/api/projects/${projectId}/parties`
+
+  const handleSave = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(party ? `${base}/${party.id}` : base, {
+        method: party ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name,
+          role,
+          organization: organization || null,
+          aliases: aliases.split(',').map(a => a.trim()).filter(Boolean),
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      onSaved(body.party as ProjectParty)
+      if (!party) {
+        setName('')
+        setOrganization('')
+        setAliases('')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save party')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!party || !onDeleted) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`${base}/${party.id}`, { method: 'DELETE', credentials: 'include' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      onDeleted(party.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Party name"
+          className="w-48 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        <select
+          value={role}
+          onChange={e => setRole(e.target.value as PartyRole)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm bg-white"
+        >
+          {PARTY_ROLES.map(r => (
+            <option key={r} value={r}>{PARTY_ROLE_LABELS[r]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={organization}
+          onChange={e => setOrganization(e.target.value)}
+          placeholder="Organization"
+          className="w-40 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        <input
+          type="text"
+          value={aliases}
+          onChange={e => setAliases(e.target.value)}
+          placeholder="Aliases, comma separated"
+          className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={busy || !name.trim()}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 cursor-pointer"
+        >
+          {party ? 'Save' : 'Add party'}
+        </button>
+        {party && onDeleted && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={busy}
+            className="px-2 py-1 text-xs text-red-600 hover:text-red-800 disabled:opacity-50 cursor-pointer"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+export function BallInCourtTab({ projectId, items }: BallInCourtTabProps) {
+  const [parties, setParties] = useState<ProjectParty[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [managing, setManaging] = useState(false)
+  const [aliasTargets, setAliasTargets] = useState<Record<string, string>>({})
+  const [now] = useState(() => new Date().toISOString())
+
+  const load = useCallback(async () => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/parties`, { credentials: 'include' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      setParties(body.parties as ProjectParty[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load parties')
+    }
+  }, [projectId])
+
+  useEffect(() => { load() }, [load])
+
+  const summary = useMemo(
+    () => buildBallInCourtSummary(items, buildPartyIndex(parties ?? []), now),
+    [items, parties, now]
+  )
+
+  const upsert = (party: ProjectParty) =>
+    setParties(prev => {
+      const rest = (prev ?? []).filter(p => p.id !== party.id)
+      return [...rest, party].sort((a, b) => a.name.localeCompare(b.name))
+    })
+
+  const addAlias = async (name: string, key: string) => {
+    const target = (parties ?? []).find(p => p.id === aliasTargets[key])
+    if (!target) return
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/parties/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ aliases: [...target.aliases, name] }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      upsert(body.party as ProjectParty)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add alias')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        {COURT_SIDES.map(side => (
+          <div key={side} className="border border-gray-200 rounded-lg p-3 bg-white">
+            <p className="text-xs text-gray-500">With {COURT_SIDE_LABELS[side].toLowerCase()}</p>
+            <p className="text-2xl font-semibold text-gray-900">{summary.bySide[side].openCount}</p>
+            <p className="text-xs text-gray-500">avg {formatDays(summary.bySide[side].avgDaysHeld)} held</p>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="border border-gray-200 rounded-lg bg-white">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+          <p className="text-sm font-medium text-gray-900">Workload by party</p>
+          <button
+            type="button"
+            onClick={() => setManaging(m => !m)}
+            className="text-xs text-blue-600 hover:text-blue-800 cursor-pointer"
+          >
+            {managing ? 'Done' : 'Manage parties'}
+          </button>
+        </div>
+        {managing && (
+          <div className="p-3 space-y-2 border-b border-gray-100 bg-gray-50">
+            {(parties ?? []).map(party => (
+              <PartyEditor
+                key={party.id}
+                projectId={projectId}
+                party={party}
+                onSaved={upsert}
+                onDeleted={id => setParties(prev => (prev ?? []).filter(p => p.id !== id))}
+              />
+            ))}
+            <PartyEditor projectId={projectId} party={null} onSaved={upsert} />
+          </div>
+        )}
+        {summary.rows.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">No open submittals are with anyone yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 text-left">
+                <th className="px-4 py-2 font-medium">Party</th>
+                <th className="px-2 py-2 font-medium">Side</th>
+                <th className="px-2 py-2 font-medium text-right">Open</th>
+                <th className="px-2 py-2 font-medium text-right">Avg held</th>
+                <th className="px-2 py-2 font-medium text-right" title="Average over finished holds in the status history">
+                  Avg past holds
+                </th>
+                <th className="px-4 py-2 font-medium">Oldest item</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summary.rows.map(row => (
+                <tr key={row.key}>
+                  <td className="px-4 py-1.5 text-gray-900">
+                    {row.holder}
+                    {!row.party && <span className="ml-1 text-xs text-gray-400" title="Not matched to a project party">(unmatched)</span>}
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SIDE_COLORS[row.side]}`}>
+                      {COURT_SIDE_LABELS[row.side]}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1.5 text-right">{row.openCount}</td>
+                  <td className="px-2 py-1.5 text-right">{formatDays(row.avgDaysHeld)}</td>
+                  <td className="px-2 py-1.5 text-right text-gray-500">
+                    {formatDays(row.avgCompletedHoldDays)}
+                    {row.completedHolds > 0 && <span className="text-xs text-gray-400"> ({row.completedHolds})</span>}
+                  </td>
+                  <td className="px-4 py-1.5">
+                    {row.oldest ? (
+                      <span className="flex items-center gap-2 min-w-0">
+                        <span className="truncate text-gray-900">{row.oldest.submittalItem}</span>
+                        <LifecycleBadge status={row.oldest.status} compact />
+                        <span className="shrink-0 text-xs text-gray-500">{formatDays(row.oldest.daysHeld)}</span>
+                      </span>
+                    ) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {summary.unmatchedNames.length > 0 && (parties ?? []).length > 0 && (
+        <div className="border border-amber-200 rounded-lg bg-amber-50 p-3 space-y-2">
+          <p className="text-sm text-amber-800">
+            These names on register items match no party. Add them as aliases to roll them up.
+          </p>
+          {summary.unmatchedNames.map(entry => {
+            const key = `${entry.side}:${entry.name}`
+            return (
+              <div key={key} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 min-w-0 truncate text-gray-900">{entry.name}</span>
+                <span className="text-xs text-gray-500">{entry.count} item{entry.count === 1 ? '' : 's'}</span>
+                <select
+                  value={aliasTargets[key] ?? ''}
+                  onChange={e => setAliasTargets(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="rounded border border-gray-300 px-2 py-1 text-xs bg-white"
+                >
+                  <option value="">Alias of…</option>
+                  {(parties ?? []).map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => addAlias(entry.name, key)}
+                  disabled={!aliasTargets[key]}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+                >
+                  Add alias
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,14 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import type { ScheduleVersionSummary } from '@/lib/schedule/schedule-model'
+import type {
+  ActivityMatchCandidate,
+  SubmittalScheduleRisk,
+  SubmittalScheduleRiskLevel,
+  SubmittalScheduleRiskSummary,
+} from '@/lib/schedule/submittal-schedule-risk'
 import { LifecycleBadge } from '../LifecycleBadge'
 import { LifecycleControls } from '../LifecycleControls'
 import { resolveEffectiveStatus, isOverdue } from '@/lib/chat/submittal-lifecycle'
@@ -39,23 +46,230 @@ const RISK_LABELS: Record<RiskLevel, string> = {
   ordered: 'Ordered',
 }
 
+interface ScheduleLinkRow {
+  itemId: string
+  risk: SubmittalScheduleRisk
+  suggestions: ActivityMatchCandidate[]
+  projectFinishImpactDays: number | null
+}
+
+interface ScheduleLinksResponse {
+  scheduleVersion: ScheduleVersionSummary | null
+  summary: SubmittalScheduleRiskSummary
+  items: ScheduleLinkRow[]
+}
+
+const SCHEDULE_RISK_CLASSES: Partial<Record<SubmittalScheduleRiskLevel, string>> = {
+  late: 'bg-red-100 text-red-800',
+  at_risk: 'bg-amber-100 text-amber-800',
+  on_track: 'bg-green-100 text-green-800',
+}
+
+const SCHEDULE_RISK_LABELS: Partial<Record<SubmittalScheduleRiskLevel, string>> = {
+  late: 'Late for start',
+  at_risk: 'Eating float',
+  on_track: 'On track',
+}
+
+function ScheduleLinkPanel({
+  projectId,
+  item,
+  row,
+  hasSchedule,
+  onLinked,
+}: {
+  projectId: string
+  item: SubmittalRegisterItem
+  row: ScheduleLinkRow | undefined
+  hasSchedule: boolean
+  onLinked: (updates: Partial<SubmittalRegisterItem>, risk: SubmittalScheduleRisk) => void
+}) {
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (activityId: string | null, candidate?: ActivityMatchCandidate) => {
+    if (!item.persistedItemId) return
+    setSaving(activityId ?? 'clear')
+    setError(null)
+    try {
+      const res = await fetch(
+        `/api/projects/${projectId}/submittal-register/schedule-links`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            itemId: item.persistedItemId,
+            activityId,
+            matchMethod: candidate?.matchMethod,
+            matchScore: candidate?.score ?? null,
+          }),
+        }
+      )
+      const body = await res.json()
+      if (!res.ok || !body.success) {
+        throw new Error(body?.error ?? `Request failed (${res.status})`)
+      }
+      onLinked(body.updatedFields as Partial<SubmittalRegisterItem>, body.risk as SubmittalScheduleRisk)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const risk = row?.risk
+  const link = item.scheduleActivityLink
+
+  return (
+    <div className="text-xs space-y-1.5">
+      {link ? (
+        <div className="flex flex-wrap items-center gap-2 text-gray-700">
+          <span className="font-medium">Activity:</span>
+          <span className="font-mono">{link.activityId}</span>
+          <span className="truncate">{link.activityName}</span>
+          {risk?.linkStatus === 'missing_activity' && (
+            <span className="text-red-600">not in latest schedule</span>
+          )}
+          {risk?.activityIsCritical && (
+            <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700 border border-red-200">Critical path</span>
+          )}
+          <button
+            type="button"
+            onClick={() => save(null)}
+            disabled={saving !== null}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            Unlink
+          </button>
+        </div>
+      ) : row && row.suggestions.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-gray-500">Suggested activity:</span>
+          {row.suggestions.map(s => (
+            <button
+              key={s.activityId}
+              type="button"
+              onClick={() => save(s.activityId, s)}
+              disabled={saving !== null}
+              title={`Match ${Math.round(s.score * 100)}% by ${s.matchMethod.replace('_', ' ')}${s.earlyStart ? ` · starts ${s.earlyStart}` : ''}`}
+              className="px-2 py-0.5 rounded border border-blue-200 bg-blue-50 text-blue-800 hover:bg-blue-100 disabled:opacity-50"
+            >
+              {saving === s.activityId ? 'Linking…' : `Confirm ${s.activityId} ${s.activityName}`}
+            </button>
+          ))}
+        </div>
+      ) : hasSchedule ? (
+        <p className="text-gray-400">No schedule activity linked.</p>
+      ) : null}
+
+      {risk && risk.projectedReadyDate && risk.needByDate && (
+        <p className="text-gray-600">
+          Approval ~{risk.projectedApprovalDate} · ready {risk.projectedReadyDate} · needed{' '}
+          {risk.needByDate}
+          {risk.needBySource === 'item' && ' (register date)'}
+          {risk.daysLate !== null && risk.daysLate > 0 && (
+            <span className="text-red-600 font-medium"> · {risk.daysLate}d late</span>
+          )}
+          {row?.projectFinishImpactDays != null && row.projectFinishImpactDays > 0 && (
+            <span className="text-red-600"> · pushes project finish {row.projectFinishImpactDays}d</span>
+          )}
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  )
+}
+
 export function LongLeadTab({ projectId, items, onPatchItem }: LongLeadTabProps) {
+  const [schedule, setSchedule] = useState<ScheduleLinksResponse | null>(null)
+  const [scheduleError, setScheduleError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadScheduleLinks() {
+      setScheduleError(null)
+      try {
+        const res = await fetch(
+          `/api/projects/${projectId}/submittal-register/schedule-links`,
+          { credentials: 'include' }
+        )
+        const body = await res.json()
+        if (!res.ok || !body.success) {
+          throw new Error(body?.error ?? `Request failed (${res.status})`)
+        }
+        if (!cancelled) setSchedule(body as ScheduleLinksResponse)
+      } catch (err) {
+        if (!cancelled) {
+          setScheduleError(err instanceof Error ? err.message : 'Failed to load schedule links')
+        }
+      }
+    }
+    loadScheduleLinks()
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, reloadKey])
+
+  const rowsById = useMemo(
+    () => new Map((schedule?.items ?? []).map(r => [r.itemId, r])),
+    [schedule]
+  )
+
   const longLeadItems = useMemo(() => {
+    const scheduleFlagged = (i: SubmittalRegisterItem) => {
+      const level = i.persistedItemId ? rowsById.get(i.persistedItemId)?.risk.level : undefined
+      return level === 'late' || level === 'at_risk'
+    }
     return items
       .filter(
         i =>
           i.lifecycleLongLeadFlag === true ||
-          (i.lifecycleLeadTimeDays != null && i.lifecycleLeadTimeDays > 0)
+          (i.lifecycleLeadTimeDays != null && i.lifecycleLeadTimeDays > 0) ||
+          scheduleFlagged(i)
       )
       .sort((a, b) => (b.lifecycleLeadTimeDays ?? 0) - (a.lifecycleLeadTimeDays ?? 0))
-  }, [items])
+  }, [items, rowsById])
+
+  const handleLinked = (itemId: string, updates: Partial<SubmittalRegisterItem>, risk: SubmittalScheduleRisk) => {
+    onPatchItem(itemId, updates)
+    setSchedule(prev =>
+      prev && {
+        ...prev,
+        items: prev.items.map(r =>
+          r.itemId === itemId ? { ...r, risk, suggestions: [], projectFinishImpactDays: null } : r
+        ),
+      }
+    )
+    // Re-fetch so the summary and CPM impact reflect the new link.
+    setReloadKey(k => k + 1)
+  }
 
   if (longLeadItems.length === 0) {
     return <p className="text-sm text-gray-500 py-4">No long-lead items identified.</p>
   }
 
+  const summary = schedule?.summary
+  const hasSchedule = Boolean(schedule?.scheduleVersion)
+
   return (
     <div className="space-y-3">
+      {scheduleError && (
+        <p className="text-xs text-red-600">Schedule risk unavailable: {scheduleError}</p>
+      )}
+      {schedule && !hasSchedule && (
+        <p className="text-xs text-gray-500">
+          Import a P6 or MS Project schedule to check approvals against activity start dates.
+        </p>
+      )}
+      {summary && hasSchedule && (summary.late > 0 || summary.atRisk > 0) && (
+        <div className="border border-red-200 bg-red-50 rounded-lg px-4 py-2 text-sm text-red-800">
+          {summary.late} submittal{summary.late === 1 ? '' : 's'} will not be ready for their activity start
+          {summary.atRisk > 0 && `, ${summary.atRisk} more eating into float`}
+          {' '}(schedule v{schedule!.scheduleVersion!.versionNumber}).
+        </div>
+      )}
       {longLeadItems.map((item, idx) => {
         const id = item.persistedItemId ?? String(idx)
         const weeks = item.lifecycleLeadTimeDays
@@ -63,6 +277,8 @@ export function LongLeadTab({ projectId, items, onPatchItem }: LongLeadTabProps)
           : null
         const risk = deriveRisk(item)
         const overdue = isOverdue(item.lifecycleDueDate)
+        const row = item.persistedItemId ? rowsById.get(item.persistedItemId) : undefined
+        const scheduleLevel = row?.risk.level
 
         return (
           <div key={id} className="border border-gray-200 rounded-lg p-4 bg-white space-y-3">
@@ -83,6 +299,11 @@ export function LongLeadTab({ projectId, items, onPatchItem }: LongLeadTabProps)
               <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${RISK_CLASSES[risk]}`}>
                 {RISK_LABELS[risk]}
               </span>
+              {scheduleLevel && SCHEDULE_RISK_LABELS[scheduleLevel] && (
+                <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SCHEDULE_RISK_CLASSES[scheduleLevel]}`}>
+                  {SCHEDULE_RISK_LABELS[scheduleLevel]}
+                </span>
+              )}
               <LifecycleBadge
                 status={resolveEffectiveStatus(item)}
                 overdue={overdue}
@@ -95,11 +316,24 @@ export function LongLeadTab({ projectId, items, onPatchItem }: LongLeadTabProps)
               )}
             </div>
 
+            {item.persistedItemId && schedule && (
+              <ScheduleLinkPanel
+                projectId={projectId}
+                item={item}
+                row={row}
+                hasSchedule={hasSchedule}
+                onLinked={(updates, linkedRisk) => handleLinked(item.persistedItemId!, updates, linkedRisk)}
+              />
+            )}
+
             {item.persistedItemId && (
               <LifecycleControls
                 item={item}
                 projectId={projectId}
-                onTransitioned={updates => onPatchItem(item.persistedItemId!, updates)}
+                onTransitioned={updates => {
+                  onPatchItem(item.persistedItemId!, updates)
+                  setReloadKey(k => k + 1)
+                }}
               />
             )}
           </div>
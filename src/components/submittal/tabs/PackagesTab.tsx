@@ -0,0 +1,424 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import {
+  getNextPackageStatuses,
+  PACKAGE_PURPOSES,
+  PACKAGE_STATUS_COLORS,
+  PACKAGE_STATUS_LABELS,
+  PURPOSE_LABELS,
+  resolvePackageItems,
+  type PackageRollup,
+  type SubmittalPackage,
+  type SubmittalPackagePurpose,
+  type SubmittalPackageStatus,
+} from '@/lib/chat/submittal-packages'
+import { resolveEffectiveStatus } from '@/lib/chat/submittal-lifecycle'
+import { LifecycleBadge } from '../LifecycleBadge'
+
+interface PackagesTabProps {
+  projectId: string
+  items: SubmittalRegisterItem[]
+}
+
+interface PackageEntry {
+  package: SubmittalPackage
+  rollup: PackageRollup
+}
+
+const TRANSITION_LABELS: Record<SubmittalPackageStatus, string> = {
+  draft:       'Back to draft',
+  transmitted: 'Mark transmitted',
+  returned:    'Mark returned',
+  closed:      'Close package',
+}
+
+function NewPackageForm({
+  projectId,
+  items,
+  onCreated,
+  onCancel,
+}: {
+  projectId: string
+  items: SubmittalRegisterItem[]
+  onCreated: (entry: PackageEntry) => void
+  onCancel: () => void
+}) {
+  const [title, setTitle] = useState('')
+  const [purpose, setPurpose] = useState<SubmittalPackagePurpose>('for_approval')
+  const [toParty, setToParty] = useState('')
+  const [fromParty, setFromParty] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [section, setSection] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sections = useMemo(
+    () => [...new Set(items.map(i => i.specSection).filter((s): s is string => Boolean(s)))].sort(),
+    [items]
+  )
+  const candidates = useMemo(
+    () => items.filter(i => i.dedupeKey && (!section || i.specSection === section)),
+    [items, section]
+  )
+
+  const toggle = (key: string) =>
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-packages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          title,
+          purpose,
+          specSection: section || null,
+          toParty,
+          fromParty,
+          dueDate: dueDate || null,
+          // Keep register order on the transmittal.
+          dedupeKeys: items.map(i => i.dedupeKey).filter((k): k is string => Boolean(k && selected.has(k))),
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      onCreated(body as PackageEntry)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create package')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder="Package title, e.g. Cast-in-place concrete — mix designs"
+          className="col-span-2 rounded border border-gray-300 px-2 py-1.5 text-sm"
+        />
+        <select
+          value={purpose}
+          onChange={e => setPurpose(e.target.value as SubmittalPackagePurpose)}
+          className="rounded border border-gray-300 px-2 py-1.5 text-sm bg-white"
+        >
+          {PACKAGE_PURPOSES.map(p => (
+            <option key={p} value={p}>{PURPOSE_LABELS[p]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Response due
+          <input
+            type="date"
+            value={dueDate}
+            onChange={e => setDueDate(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+        </label>
+        <input
+          type="text"
+          value={toParty}
+          onChange={e => setToParty(e.target.value)}
+          placeholder="To (reviewer / A/E)"
+          className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+        />
+        <input
+          type="text"
+          value={fromParty}
+          onChange={e => setFromParty(e.target.value)}
+          placeholder="From"
+          className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select
+          value={section}
+          onChange={e => setSection(e.target.value)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm bg-white"
+        >
+          <option value="">All spec sections</option>
+          {sections.map(s => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setSelected(new Set(candidates.map(i => i.dedupeKey!)))}
+          className="text-xs text-blue-600 hover:text-blue-800 cursor-pointer"
+        >
+          Select all shown
+        </button>
+        <span className="text-xs text-gray-500">{selected.size} selected</span>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto border border-gray-200 rounded bg-white divide-y divide-gray-100">
+        {candidates.map(item => (
+          <li key={item.dedupeKey} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.has(item.dedupeKey!)}
+              onChange={() => toggle(item.dedupeKey!)}
+            />
+            <span className="text-xs text-gray-500 w-20 shrink-0">{item.specSection ?? '—'}</span>
+            <span className="flex-1 min-w-0 truncate text-gray-900">{item.submittalItem}</span>
+            {item.sdCode && <span className="text-xs text-gray-500 shrink-0">{item.sdCode}</span>}
+            <LifecycleBadge status={resolveEffectiveStatus(item)} compact />
+          </li>
+        ))}
+        {candidates.length === 0 && (
+          <li className="px-3 py-2 text-sm text-gray-500">No register items in this section.</li>
+        )}
+      </ul>
+
+      <div className="flex items-center justify-end gap-2">
+        {error && <p className="text-xs text-red-600 mr-auto">{error}</p>}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 cursor-pointer"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={saving || !title.trim() || selected.size === 0}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 cursor-pointer"
+        >
+          {saving ? 'Creating…' : 'Create package'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function PackageCard({
+  projectId,
+  entry,
+  items,
+  onUpdated,
+  onDeleted,
+}: {
+  projectId: string
+  entry: PackageEntry
+  items: SubmittalRegisterItem[]
+  onUpdated: (entry: PackageEntry) => void
+  onDeleted: (packageId: string) => void
+}) {
+  const { package: pkg, rollup } = entry
+  const [expanded, setExpanded] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const members = useMemo(() => resolvePackageItems(pkg, items).items, [pkg, items])
+  const base = `/api/projects/${projectId}/submittal-packages/${pkg.id}`
+
+  const transition = async (status: SubmittalPackageStatus) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(base, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      onUpdated(body as PackageEntry)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(base, { method: 'DELETE', credentials: 'include' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      onDeleted(pkg.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white space-y-2">
+      <div className="flex items-start gap-3">
+        <button
+          type="button"
+          onClick={() => setExpanded(e => !e)}
+          className="flex-1 min-w-0 text-left cursor-pointer"
+        >
+          <p className="text-sm font-medium text-gray-900 truncate">
+            <span className="font-mono mr-2">{pkg.packageNumber}</span>
+            {pkg.title}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {PURPOSE_LABELS[pkg.purpose]}
+            {pkg.toParty && ` · to ${pkg.toParty}`}
+            {pkg.transmittedAt && ` · sent ${pkg.transmittedAt.slice(0, 10)}`}
+            {pkg.dueDate && ` · due ${pkg.dueDate}`}
+            {pkg.returnedAt && ` · returned ${pkg.returnedAt.slice(0, 10)}`}
+          </p>
+        </button>
+        <span className="shrink-0 text-xs text-gray-600">
+          {rollup.returnedCount}/{rollup.itemCount - rollup.missingKeys.length} back
+          {rollup.approvedCount > 0 && ` · ${rollup.approvedCount} approved`}
+          {rollup.reviseResubmitCount > 0 && (
+            <span className="text-orange-700"> · {rollup.reviseResubmitCount} to resubmit</span>
+          )}
+        </span>
+        <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${PACKAGE_STATUS_COLORS[pkg.status]}`}>
+          {PACKAGE_STATUS_LABELS[pkg.status]}
+        </span>
+      </div>
+
+      {rollup.missingKeys.length > 0 && (
+        <p className="text-xs text-amber-700">
+          {rollup.missingKeys.length} packaged item{rollup.missingKeys.length === 1 ? ' is' : 's are'} no longer on the current register.
+        </p>
+      )}
+      {pkg.status === 'transmitted' && rollup.allReturned && (
+        <p className="text-xs text-blue-700">Every item has a review outcome — the package can be marked returned.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-gray-500">Transmittal:</span>
+        <a href={`${base}/transmittal?format=pdf`} className="text-blue-600 hover:text-blue-800">PDF</a>
+        <a href={`${base}/transmittal?format=doc`} className="text-blue-600 hover:text-blue-800">Word</a>
+        <a href={`${base}/transmittal?format=html`} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+          Preview
+        </a>
+        <span className="ml-auto flex items-center gap-2">
+          {getNextPackageStatuses(pkg.status).map(next => (
+            <button
+              key={next}
+              type="button"
+              onClick={() => transition(next)}
+              disabled={busy}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+            >
+              {pkg.status === 'returned' && next === 'transmitted' ? 'Resubmit' : TRANSITION_LABELS[next]}
+            </button>
+          ))}
+          {pkg.status === 'draft' && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={busy}
+              className="px-2 py-1 text-red-600 hover:text-red-800 disabled:opacity-50 cursor-pointer"
+            >
+              Delete
+            </button>
+          )}
+        </span>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {expanded && (
+        <ul className="border-t border-gray-100 pt-2 space-y-1">
+          {members.map(item => (
+            <li key={item.dedupeKey} className="flex items-center gap-2 text-sm">
+              <span className="text-xs font-mono text-gray-500 w-28 shrink-0 truncate">
+                {item.revisions?.[item.revisions.length - 1]?.submittalNumber ?? item.submittalNumber ?? '—'}
+              </span>
+              <span className="text-xs text-gray-500 w-20 shrink-0">{item.specSection ?? '—'}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-900">{item.submittalItem}</span>
+              <LifecycleBadge status={resolveEffectiveStatus(item)} compact />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function PackagesTab({ projectId, items }: PackagesTabProps) {
+  const [packages, setPackages] = useState<PackageEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+
+  const load = useCallback(async () => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/submittal-packages`, { credentials: 'include' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      setPackages(body.packages as PackageEntry[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load packages')
+    }
+  }, [projectId])
+
+  useEffect(() => { load() }, [load])
+
+  const replace = (entry: PackageEntry) =>
+    setPackages(prev => (prev ?? []).map(p => (p.package.id === entry.package.id ? entry : p)))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Group register items into a package and generate its cover transmittal.
+        </p>
+        {!creating && (
+          <button
+            type="button"
+            onClick={() => setCreating(true)}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 cursor-pointer"
+          >
+            New package
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <NewPackageForm
+          projectId={projectId}
+          items={items}
+          onCreated={entry => {
+            setPackages(prev => [...(prev ?? []), entry])
+            setCreating(false)
+          }}
+          onCancel={() => setCreating(false)}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {packages === null && !error && <p className="text-sm text-gray-500">Loading packages…</p>}
+      {packages?.length === 0 && !creating && (
+        <p className="text-sm text-gray-500 py-4">No submittal packages yet.</p>
+      )}
+      {[...(packages ?? [])].reverse().map(entry => (
+        <PackageCard
+          key={entry.package.id}
+          projectId={projectId}
+          entry={entry}
+          items={items}
+          onUpdated={replace}
+          onDeleted={id => setPackages(prev => (prev ?? []).filter(p => p.package.id !== id))}
+        />
+      ))}
+    </div>
+  )
+}
@@ -5,8 +5,21 @@ import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
 import { getSubmittalItemKey } from '@/lib/chat/submittal-coverage-qa'
 import type { NormalizedExternalRow } from '@/lib/reconciliation/submittal-log-normalizer'
 import { parseSubmittalLog } from '@/lib/reconciliation/submittal-log-normalizer'
+import {
+  SUBMITTAL_LOG_PROFILE_IDS,
+  SUBMITTAL_LOG_PROFILES,
+  type SubmittalLogProfileId,
+} from '@/lib/reconciliation/submittal-log-profiles'
 import type { ReconciliationFinding, ReconciliationResult } from '@/lib/reconciliation/submittal-reconciliation'
 import { reconcileRegisters, applyMatchDecision, normalizeExternalStatus } from '@/lib/reconciliation/submittal-reconciliation'
+import {
+  WRITE_BACK_FIELD_LABELS,
+  type ReconciliationWriteBackEntry,
+} from '@/lib/reconciliation/submittal-reconciliation-apply'
+import {
+  EXTERNAL_ROW_FIELD_LABELS,
+  type ExternalLogChangeSummary,
+} from '@/lib/reconciliation/submittal-log-resync'
 import {
   findTransitionPath,
   STATUS_LABELS,
@@ -266,6 +279,29 @@ function FindingSection({
   )
 }
 
+// ---------------------------------------------------------------------------
+// Saved decisions
+// ---------------------------------------------------------------------------
+
+interface SavedDecision {
+  external_row_id: string
+  generated_item_id: string
+  decision: 'confirmed' | 'rejected'
+}
+
+function replayDecisions(result: ReconciliationResult, decisions: SavedDecision[]): ReconciliationResult {
+  let replayed = result
+  for (const d of decisions) {
+    const finding = replayed.lowConfidenceMatches.find(
+      f => f.externalRowId === d.external_row_id && f.generatedItemId === d.generated_item_id
+    )
+    if (finding) {
+      replayed = applyMatchDecision(replayed, finding.id, d.decision)
+    }
+  }
+  return replayed
+}
+
 // ---------------------------------------------------------------------------
 // Main tab component
 // ---------------------------------------------------------------------------
@@ -276,18 +312,29 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
   const [parsing, setParsing] = useState(false)
   const [parseError, setParseError] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [logProfile, setLogProfile] = useState<SubmittalLogProfileId | 'generic' | 'auto'>('auto')
   const [reviewFinding, setReviewFinding] = useState<ReconciliationFinding | null>(null)
   const [exporting, setExporting] = useState(false)
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [sessionStatus, setSessionStatus] = useState<'in_progress' | 'complete' | null>(null)
   const [loadingSession, setLoadingSession] = useState(true)
   const [completing, setCompleting] = useState(false)
-  const [completeResult, setCompleteResult] = useState<{ updatedCount: number; skippedCount: number } | null>(null)
+  const [completeResult, setCompleteResult] = useState<{
+    updatedCount: number
+    skippedCount: number
+    unresolvedCount: number
+    writeBack: ReconciliationWriteBackEntry[]
+  } | null>(null)
+  const [completeError, setCompleteError] = useState<string | null>(null)
+  const [changeSummary, setChangeSummary] = useState<ExternalLogChangeSummary | null>(null)
   const [adoptingFindingIds, setAdoptingFindingIds] = useState<Set<string>>(new Set())
   const [adoptErrors, setAdoptErrors] = useState<Map<string, string>>(new Map())
   const [bulkAdopting, setBulkAdopting] = useState(false)
   const [bulkAdoptSummary, setBulkAdoptSummary] = useState<{ resolved: number; refused: number } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Set while the file picker is open for "Upload updated log" — the upload
+  // re-syncs the current session instead of starting over.
+  const resyncRef = useRef(false)
 
   // Load the most recent persisted session on mount
   useEffect(() => {
@@ -300,25 +347,16 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
         if (!data.session || cancelled) return
 
         const rows = data.session.external_rows as NormalizedExternalRow[]
-        let reconciled = reconcileRegisters(generatedItems, rows, {
+        const reconciled = reconcileRegisters(generatedItems, rows, {
           sourceFileName: data.session.source_file_name,
         })
 
-        // Replay saved decisions
-        for (const d of data.decisions ?? []) {
-          const finding = reconciled.lowConfidenceMatches.find(
-            f => f.externalRowId === d.external_row_id && f.generatedItemId === d.generated_item_id
-          )
-          if (finding) {
-            reconciled = applyMatchDecision(reconciled, finding.id, d.decision)
-          }
-        }
-
         if (!cancelled) {
           setExternalRows(rows)
           setSessionId(data.session.id)
           setSessionStatus(data.session.status)
-          setResult(reconciled)
+          setChangeSummary(data.session.change_summary ?? null)
+          setResult(replayDecisions(reconciled, data.decisions ?? []))
         }
       } catch {
         // Non-fatal — fall through to empty upload state
@@ -344,6 +382,16 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
     return map
   }, [externalRows])
 
+  // Rows that need review again after a re-sync: new in this upload, or
+  // changed since the previous one (their decisions were not carried).
+  const resyncStateByRowId = useMemo(() => {
+    const map = new Map<string, 'new' | 'changed'>()
+    if (!changeSummary) return map
+    changeSummary.added.forEach(r => map.set(r.externalId, 'new'))
+    changeSummary.changed.forEach(c => map.set(c.next.externalId, 'changed'))
+    return map
+  }, [changeSummary])
+
   const processFile = useCallback(async (file: File) => {
     const ext = file.name.toLowerCase()
     const validExt = ext.endsWith('.xlsx') || ext.endsWith('.xls') || ext.endsWith('.csv')
@@ -352,13 +400,17 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
       return
     }
 
+    const previousSessionId = resyncRef.current ? sessionId : null
+    resyncRef.current = false
+
     setParsing(true)
     setParseError(null)
     setExternalRows(null)
     setResult(null)
+    setChangeSummary(null)
 
     try {
-      const rows = await parseSubmittalLog(file)
+      const rows = await parseSubmittalLog(file, logProfile)
       if (rows.length === 0) {
         setParseError('No data rows found. Check that the first row contains column headers.')
         return
@@ -373,12 +425,18 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
         const res = await fetch(`/api/projects/${projectId}/reconciliation`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ source_file_name: file.name, external_rows: rows }),
+          body: JSON.stringify({
+            source_file_name: file.name,
+            external_rows: rows,
+            ...(previousSessionId ? { previous_session_id: previousSessionId } : {}),
+          }),
         })
         if (res.ok) {
           const data = await res.json()
           setSessionId(data.session.id)
           setSessionStatus('in_progress')
+          setChangeSummary(data.changeSummary ?? null)
+          if (data.decisions?.length) setResult(replayDecisions(reconciled, data.decisions))
         }
       } catch {
         // Session won't persist but UI still works
@@ -388,7 +446,7 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
     } finally {
       setParsing(false)
     }
-  }, [projectId, generatedItems])
+  }, [projectId, generatedItems, logProfile, sessionId])
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -542,15 +600,23 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
   const handleComplete = useCallback(async () => {
     if (!sessionId) return
     setCompleting(true)
+    setCompleteError(null)
     try {
       const res = await fetch(`/api/projects/${projectId}/reconciliation/${sessionId}/complete`, {
         method: 'POST',
       })
+      const data = await res.json().catch(() => ({}))
       if (res.ok) {
-        const data = await res.json()
         setSessionStatus('complete')
-        setCompleteResult({ updatedCount: data.updatedCount, skippedCount: data.skippedCount })
+        setCompleteResult({
+          updatedCount: data.updatedCount,
+          skippedCount: data.skippedCount,
+          unresolvedCount: data.unresolved?.length ?? 0,
+          writeBack: data.writeBack ?? [],
+        })
         if (data.updatedCount > 0) onRegisterUpdated?.()
+      } else {
+        setCompleteError(data.error ?? `Completing the review failed (${res.status})`)
       }
     } catch {
       // Non-fatal
@@ -646,6 +712,22 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
           <p className="text-xs text-gray-400 mt-1">Column names are matched automatically</p>
         </div>
 
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="log-profile" className="text-gray-600">Log format</label>
+          <select
+            id="log-profile"
+            value={logProfile}
+            onChange={e => setLogProfile(e.target.value as SubmittalLogProfileId | 'generic' | 'auto')}
+            className="rounded border border-gray-300 px-2 py-1 text-sm bg-white cursor-pointer"
+          >
+            <option value="auto">Detect automatically</option>
+            <option value="generic">Generic spreadsheet</option>
+            {SUBMITTAL_LOG_PROFILE_IDS.map(id => (
+              <option key={id} value={id}>{SUBMITTAL_LOG_PROFILES[id].label} export</option>
+            ))}
+          </select>
+        </div>
+
         {parseError && (
           <div className="rounded-md bg-red-50 border border-red-200 px-4 py-3">
             <p className="text-sm text-red-700">{parseError}</p>
@@ -712,7 +794,7 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
           }`}>
             {sessionStatus === 'complete'
               ? completeResult
-                ? `${completeResult.updatedCount} register item${completeResult.updatedCount !== 1 ? 's' : ''} updated${completeResult.skippedCount > 0 ? `, ${completeResult.skippedCount} skipped` : ''}`
+                ? `${completeResult.updatedCount} register item${completeResult.updatedCount !== 1 ? 's' : ''} updated${completeResult.skippedCount > 0 ? `, ${completeResult.skippedCount} skipped` : ''}${completeResult.unresolvedCount > 0 ? `, ${completeResult.unresolvedCount} confirmed match${completeResult.unresolvedCount !== 1 ? 'es' : ''} not applied — the register item no longer exists` : ''}`
                 : 'Review decisions applied to submittal register.'
               : sessionId
                 ? 'Session saved — decisions persist across page refreshes.'
@@ -729,8 +811,17 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
               {completing ? 'Applying…' : 'Complete review'}
             </button>
           )}
+          {sessionId && (
+            <button
+              onClick={() => { resyncRef.current = true; fileInputRef.current?.click() }}
+              title="Upload a newer version of this log — decisions on unchanged rows carry forward"
+              className="px-3 py-1.5 text-xs border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer whitespace-nowrap"
+            >
+              Upload updated log
+            </button>
+          )}
           <button
-            onClick={() => fileInputRef.current?.click()}
+            onClick={() => { resyncRef.current = false; fileInputRef.current?.click() }}
             className={`px-3 py-1.5 text-xs border rounded-md bg-white cursor-pointer whitespace-nowrap ${
               sessionStatus === 'complete'
                 ? 'border-green-300 text-green-700 hover:bg-green-50'
@@ -751,6 +842,89 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
         </div>
       </div>
 
+      {changeSummary && (
+        <details className="border border-gray-200 rounded-lg bg-white">
+          <summary className="px-4 py-2 text-sm text-gray-700 cursor-pointer">
+            <span className="font-medium text-gray-900">Since {changeSummary.previousFileName}</span>
+            <span className="text-gray-500">
+              {' '}({new Date(changeSummary.previousUploadedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })})
+            </span>
+            {': '}
+            <span className="text-green-700">{changeSummary.counts.added} new</span>
+            {' · '}<span className="text-amber-700">{changeSummary.counts.changed} changed</span>
+            {' · '}<span className="text-red-700">{changeSummary.counts.removed} removed</span>
+            {' · '}{changeSummary.counts.unchanged} unchanged
+            <span className="text-gray-500">
+              {' — '}{changeSummary.decisions.carried} decision{changeSummary.decisions.carried !== 1 ? 's' : ''} carried forward
+              {changeSummary.decisions.reconfirm > 0 && `, ${changeSummary.decisions.reconfirm} to re-confirm`}
+              {changeSummary.decisions.dropped > 0 && `, ${changeSummary.decisions.dropped} dropped with removed rows`}
+              {changeSummary.decisions.stale > 0 && `, ${changeSummary.decisions.stale} dropped — register item no longer exists`}
+            </span>
+          </summary>
+          <ul className="divide-y divide-gray-100 border-t border-gray-100 max-h-80 overflow-y-auto">
+            {changeSummary.added.map(r => (
+              <li key={`a-${r.externalId}`} className="px-4 py-1.5 text-xs text-gray-700">
+                <span className="font-medium text-green-700">New</span> · row {r.sourceRowNumber} · {r.submittalNumber ?? r.specSection ?? '—'} {r.title}
+              </li>
+            ))}
+            {changeSummary.changed.map(c => (
+              <li key={`c-${c.next.externalId}`} className="px-4 py-1.5 text-xs text-gray-700">
+                <span className="font-medium text-amber-700">Changed</span> · row {c.next.sourceRowNumber} · {c.next.submittalNumber ?? c.next.specSection ?? '—'} {c.next.title}
+                <span className="text-gray-500">
+                  {' — '}{c.fields.map(f => `${EXTERNAL_ROW_FIELD_LABELS[f.field]}: ${f.before ?? '—'} → ${f.after ?? '—'}`).join('; ')}
+                </span>
+                {c.previousDecisions?.length > 0 && (
+                  <span className="text-amber-700">
+                    {' — was '}{c.previousDecisions.map(d => d.decision).join(', ')}; re-confirm
+                  </span>
+                )}
+              </li>
+            ))}
+            {changeSummary.removed.map(r => (
+              <li key={`r-${r.externalId}`} className="px-4 py-1.5 text-xs text-gray-700">
+                <span className="font-medium text-red-700">Removed</span> · was row {r.sourceRowNumber} · {r.submittalNumber ?? r.specSection ?? '—'} {r.title}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {completeError && <p className="text-sm text-red-600">{completeError}</p>}
+
+      {completeResult && completeResult.writeBack.some(e => e.audit.length > 0 || e.notes.length > 0) && (
+        <details className="border border-gray-200 rounded-lg bg-white">
+          <summary className="px-4 py-2 text-sm font-medium text-gray-900 cursor-pointer">
+            Written back to the register
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {completeResult.writeBack.reduce((n, e) => n + e.audit.length, 0)} fields copied
+            </span>
+          </summary>
+          <ul className="divide-y divide-gray-100 border-t border-gray-100">
+            {completeResult.writeBack
+              .filter(e => e.audit.length > 0 || e.notes.length > 0)
+              .map(entry => (
+                <li key={entry.itemId} className="px-4 py-2 space-y-0.5">
+                  <p className="text-sm text-gray-900 truncate">{entry.submittalItem}</p>
+                  {entry.audit.map(a => (
+                    <p key={a.field} className="text-xs text-gray-600">
+                      <span className="font-medium text-gray-700">{WRITE_BACK_FIELD_LABELS[a.field]}:</span>{' '}
+                      {a.field === 'lifecycleStatus'
+                        ? `${STATUS_LABELS[a.before as SubmittalLifecycleStatus] ?? '—'} → ${STATUS_LABELS[a.after as SubmittalLifecycleStatus] ?? '—'}`
+                        : a.field === 'submittalNumber'
+                          ? `${a.before ?? '—'} → ${a.after ?? '—'}`
+                          : `${a.before?.slice(0, 10) ?? '—'} → ${a.after?.slice(0, 10) ?? '—'}`}
+                      <span className="text-gray-400"> · row {a.sourceRowNumber}</span>
+                    </p>
+                  ))}
+                  {entry.notes.map(note => (
+                    <p key={note} className="text-xs text-amber-700">{note}</p>
+                  ))}
+                </li>
+              ))}
+          </ul>
+        </details>
+      )}
+
       {/* Summary cards */}
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
         <SummaryCard
@@ -825,6 +999,11 @@ export function ReconciliationTab({ projectId, generatedItems, onRegisterUpdated
                 <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
                   {Math.round(f.confidence * 100)}% confidence
                 </span>
+                {f.externalRowId && resyncStateByRowId.has(f.externalRowId) && (
+                  <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-700">
+                    {resyncStateByRowId.get(f.externalRowId) === 'new' ? 'New in this upload' : 'Changed since last upload — re-confirm'}
+                  </span>
+                )}
               </div>
             </div>
             <button
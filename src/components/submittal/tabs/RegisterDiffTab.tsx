@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { SubmittalRegisterRunListEntry } from '@/lib/chat/submittal-register-read'
+import {
+  DIFF_FIELD_LABELS,
+  type RegisterDiffItemRef,
+  type SubmittalRegisterDiff,
+} from '@/lib/chat/submittal-register-diff'
+
+interface RegisterDiffTabProps {
+  projectId: string
+}
+
+function runLabel(run: SubmittalRegisterRunListEntry): string {
+  const when = run.completedAt
+    ? new Date(run.completedAt).toLocaleString('en-US', {
+        month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit',
+      })
+    : 'unknown time'
+  const inputs = run.inputs as { sectionFilter?: string | null } | null
+  const scope = inputs?.sectionFilter ? ` · ${inputs.sectionFilter}` : ''
+  const count = run.totalItemCount !== null ? ` · ${run.totalItemCount} items` : ''
+  return `${when}${scope}${count}`
+}
+
+function ItemRefRow({ item }: { item: RegisterDiffItemRef }) {
+  return (
+    <li className="flex items-center gap-3 px-4 py-1.5 text-sm">
+      <span className="w-24 shrink-0 font-mono text-xs text-gray-500">{item.specSection ?? '—'}</span>
+      <span className="flex-1 min-w-0 truncate text-gray-900">{item.submittalItem}</span>
+    </li>
+  )
+}
+
+export function RegisterDiffTab({ projectId }: RegisterDiffTabProps) {
+  const [runs, setRuns] = useState<SubmittalRegisterRunListEntry[] | null>(null)
+  const [baseId, setBaseId] = useState('')
+  const [headId, setHeadId] = useState('')
+  const [diff, setDiff] = useState<SubmittalRegisterDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    ;(async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/submittal-register/runs`, { credentials: 'include' })
+        const body = await res.json()
+        if (!res.ok || !body.success) throw new Error(body?.error ?? `Request failed (${res.status})`)
+        if (cancelled) return
+        const list = body.runs as SubmittalRegisterRunListEntry[]
+        setRuns(list)
+        if (list.length >= 2) {
+          setHeadId(list[0].id)
+          setBaseId(list[1].id)
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load runs')
+      }
+    })()
+    return () => { cancelled = true }
+  }, [projectId])
+
+  const compare = useCallback(async () => {
+    if (!baseId || !headId || baseId === headId) return
+    setLoading(true)
+    setError(null)
+    try {
+      const qs = new URLSearchParams({ base: baseId, head: headId })
+      const res = await fetch(`/api/projects/${projectId}/submittal-register/diff?${qs}`, { credentials: 'include' })
+      const body = await res.json()
+      if (!res.ok || !body.success) throw new Error(body?.error ?? `Request failed (${res.status})`)
+      setDiff(body.diff as SubmittalRegisterDiff)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare runs')
+      setDiff(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, baseId, headId])
+
+  useEffect(() => { compare() }, [compare])
+
+  if (runs && runs.length < 2) {
+    return <p className="text-sm text-gray-500">At least two register runs are needed to compare.</p>
+  }
+
+  const runSelect = (value: string, onChange: (v: string) => void) => (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="rounded border border-gray-300 px-2 py-1.5 text-sm bg-white cursor-pointer"
+    >
+      {(runs ?? []).map(run => (
+        <option key={run.id} value={run.id}>{runLabel(run)}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-50 rounded-md border border-gray-200 text-sm">
+        <span className="text-gray-600">Compare</span>
+        {runSelect(baseId, setBaseId)}
+        <span className="text-gray-600">→</span>
+        {runSelect(headId, setHeadId)}
+        {baseId === headId && baseId && <span className="text-xs text-amber-700">Pick two different runs</span>}
+        {loading && <span className="text-xs text-gray-500">Comparing…</span>}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {diff && (
+        <>
+          <p className="text-sm text-gray-700">
+            <span className="text-green-700 font-medium">{diff.added.length} added</span>
+            {' · '}
+            <span className="text-red-700 font-medium">{diff.removed.length} removed</span>
+            {' · '}
+            <span className="text-amber-700 font-medium">{diff.changed.length} changed</span>
+            {' · '}{diff.unchangedCount} unchanged
+            <span className="text-gray-400"> ({diff.counts.base} → {diff.counts.head} items)</span>
+          </p>
+
+          {diff.changed.length > 0 && (
+            <div className="border border-gray-200 rounded-lg bg-white">
+              <p className="px-4 py-2 border-b border-gray-100 text-sm font-medium text-gray-900">Changed</p>
+              <ul className="divide-y divide-gray-100">
+                {diff.changed.map(entry => (
+                  <li key={`${entry.base.dedupeKey}→${entry.head.dedupeKey}`} className="px-4 py-2 space-y-1">
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="w-24 shrink-0 font-mono text-xs text-gray-500">{entry.head.specSection ?? '—'}</span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900">{entry.head.submittalItem}</span>
+                      {entry.matchedBy === 'fuzzy' && (
+                        <span
+                          className="shrink-0 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600"
+                          title="Paired by title similarity — dedupe keys differ"
+                        >
+                          ~{Math.round(entry.similarity * 100)}% match
+                        </span>
+                      )}
+                    </div>
+                    <ul className="space-y-0.5 pl-[6.75rem]">
+                      {entry.changes.map(change => (
+                        <li key={change.field} className="text-xs text-gray-600">
+                          <span className="font-medium text-gray-700">{DIFF_FIELD_LABELS[change.field]}:</span>{' '}
+                          <span className="line-through text-red-700">{change.before ?? '—'}</span>
+                          {' → '}
+                          <span className="text-green-700">{change.after ?? '—'}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.added.length > 0 && (
+            <div className="border border-gray-200 rounded-lg bg-white">
+              <p className="px-4 py-2 border-b border-gray-100 text-sm font-medium text-green-800">Added</p>
+              <ul className="divide-y divide-gray-100">
+                {diff.added.map(item => <ItemRefRow key={item.dedupeKey} item={item} />)}
+              </ul>
+            </div>
+          )}
+
+          {diff.removed.length > 0 && (
+            <div className="border border-gray-200 rounded-lg bg-white">
+              <p className="px-4 py-2 border-b border-gray-100 text-sm font-medium text-red-800">Removed</p>
+              <ul className="divide-y divide-gray-100">
+                {diff.removed.map(item => <ItemRefRow key={item.dedupeKey} item={item} />)}
+              </ul>
+            </div>
+          )}
+
+          {diff.added.length + diff.removed.length + diff.changed.length === 0 && (
+            <p className="text-sm text-gray-500">No differences between these runs.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -38,6 +38,19 @@ export type Events = {
       trigger: string
     }
   }
+  /**
+   * Triggered when a sheet revision is conformed. Renders each revision page
+   * and the page it superseded, stores a red / green overlay and a described
+   * change list on sheet_revision_diffs. Idempotent — re-runs replace rows.
+   */
+  'document/sheet-diff.requested': {
+    data: {
+      documentId: string
+      projectId: string
+      /** Label identifying which code path triggered this event */
+      trigger: string
+    }
+  }
   'document/embeddings.requested': {
     data: {
       documentId: string
@@ -0,0 +1,72 @@
+/**
+ * Inngest function: document/sheet-diff.requested
+ *
+ * Visual diff of a conformed sheet revision against the pages it superseded.
+ * Each page pair is a separate step.run() — rendering two sheets and the
+ * vision pass over the changed regions can take a minute per sheet, and a
+ * failed pair only re-runs itself.
+ *
+ *   Step 1  list-pairs        — revision pages with supersedes_page_id
+ *   Steps   diff-page-{n}     — render, diff, overlay upload, vision, upsert
+ *
+ * Sent after conformDocumentRevision() succeeds for a sheet revision (vision
+ * finalize, or POST /api/projects/[id]/documents/[documentId]/revision) and
+ * by POST .../sheet-diff to re-run. Re-runs replace the stored rows.
+ */
+
+import { inngest } from '@/inngest/client'
+import { createServiceRoleClient } from '@/lib/db/supabase/service'
+import {
+  diffSheetRevisionPair,
+  listSheetDiffPairs,
+} from '@/lib/documents/sheet-diff-persistence'
+import { logProduction } from '@/lib/utils/debug'
+
+export const sheetDiffDocument = inngest.createFunction(
+  {
+    id: 'sheet-diff-document',
+    name: 'Sheet Diff Document',
+    retries: 2,
+    concurrency: { limit: 2 },
+  },
+  { event: 'document/sheet-diff.requested' },
+  async ({ event, step }) => {
+    const { documentId, trigger } = event.data
+
+    const pairs = await step.run('list-pairs', async () => {
+      const supabase = createServiceRoleClient()
+      const { pairs, error } = await listSheetDiffPairs(supabase, documentId)
+      if (error) throw new Error(`list-pairs failed: ${error}`)
+      return pairs
+    })
+
+    if (pairs.length === 0) {
+      logProduction.info('Sheet Diff', `[SKIP] document=${documentId} trigger=${trigger} no superseded pages`)
+      return { documentId, pagesDiffed: 0, skipped: true }
+    }
+
+    let changes = 0
+    let unclouded = 0
+    let failed = 0
+    for (const pair of pairs) {
+      const outcome = await step.run(`diff-page-${pair.pageNumber}`, async () => {
+        const supabase = createServiceRoleClient()
+        return diffSheetRevisionPair(supabase, pair)
+      })
+      if (outcome.status === 'completed') {
+        changes += outcome.changes
+        unclouded += outcome.unclouded
+      } else if (outcome.status === 'failed') {
+        failed++
+        logProduction.error('Sheet Diff',
+          `[PAGE-FAILED] document=${documentId} page=${pair.pageNumber} error="${outcome.error}"`
+        )
+      }
+    }
+
+    logProduction.info('Sheet Diff',
+      `[DONE] document=${documentId} trigger=${trigger} pages=${pairs.length} changes=${changes} unclouded=${unclouded} failed=${failed}`
+    )
+    return { documentId, pagesDiffed: pairs.length, changes, unclouded, failed }
+  }
+)
@@ -9,6 +9,7 @@
  *   Step 2  discover-sections — load all chunks, run CSI regex, return manifest
  *   Step 3  delete-existing   — one-time clean delete for this document
  *   Steps 4..N extract-batch-{i} — LLM extraction + immediate persistence per batch
+ *   Final   seed-inspections  — project_inspections from testing/inspection requirements
  *
  * Idempotency / retry semantics:
  *   - delete-existing runs once per function invocation (memoised on retry).
@@ -37,6 +38,7 @@ import {
 } from '@/lib/chat/spec-extraction-pipeline.ts'
 import { persistSpecExtractionResult } from '@/lib/chat/spec-extraction-persistence.ts'
 import { createAnthropicSpecLlmCaller } from '@/lib/chat/spec-extraction-llm.ts'
+import { seedInspectionsFromSpecRequirements } from '@/lib/graph/inspection-persistence'
 import { logProduction } from '@/lib/utils/debug'
 
 // ---------------------------------------------------------------------------
@@ -345,6 +347,22 @@ export const specExtractDocument = inngest.createFunction(
       batchOutcomes.push(outcome)
     }
 
+    // -----------------------------------------------------------------------
+    // Seed project_inspections from the testing / inspection requirements
+    // just written. Keyed on requirement canonical_name, so re-extraction
+    // never duplicates. A seeding failure is logged, not thrown — the spec
+    // entities are already persisted and seeding can be re-run from
+    // POST /api/projects/[id]/inspections/seed.
+    // -----------------------------------------------------------------------
+    const inspectionSeed = await step.run('seed-inspections', async () => {
+      const supabase = createServiceRoleClient()
+      const { seeded, error } = await seedInspectionsFromSpecRequirements(supabase, projectId)
+      if (error) {
+        logProduction.error('Spec Extraction', `[SEED-INSPECTIONS] document=${documentId} failed: ${error}`)
+      }
+      return { seeded, error }
+    })
+
     // -----------------------------------------------------------------------
     // Aggregate batch outcomes and return final summary.
     // -----------------------------------------------------------------------
@@ -380,6 +398,7 @@ export const specExtractDocument = inngest.createFunction(
       totalFindingsWritten,
       totalCostUsd,
       failedBatches: failedBatches.length,
+      inspectionsSeeded: inspectionSeed.seeded,
     }
   }
 )
@@ -18,6 +18,7 @@ import { processDocumentPageRange } from '@/lib/processing/vision-processor'
 import { getPdfMetadata } from '@/lib/vision/pdf-to-image'
 import { getDocumentSignedUrl } from '@/lib/db/queries/documents'
 import { logProduction } from '@/lib/utils/debug'
+import { conformDocumentRevision } from '@/lib/documents/conformed-set-persistence'
 import {
   createVisionJob,
   startVisionJob,
@@ -322,6 +323,34 @@ export const visionProcessDocument = inngest.createFunction(
       }
     })
 
+    // -------------------------------------------------------------------------
+    // Step 6: Conform revision — if this upload was marked as a revision of an
+    // earlier sheet, its freshly indexed pages supersede the current ones.
+    // Non-fatal: a failed conform is recorded on documents.conform_error.
+    // -------------------------------------------------------------------------
+    if (totalSheetsProcessed > 0) {
+      const conformStatus = await step.run('conform-revision', async () => {
+        const supabase = createServiceRoleClient()
+        const outcome = await conformDocumentRevision(supabase, documentId)
+        if (outcome.status !== 'not_revision') {
+          logProduction.info('Vision Lifecycle',
+            `[CONFORM] document=${documentId} status=${outcome.status}` +
+            ('error' in outcome ? ` error="${outcome.error}"` : '')
+          )
+        }
+        return outcome.status
+      })
+
+      // A conformed sheet revision gets a visual diff against the pages it
+      // superseded (sheet-diff-document.ts).
+      if (conformStatus === 'conformed') {
+        await step.sendEvent('request-sheet-diff', {
+          name: 'document/sheet-diff.requested',
+          data: { documentId, projectId, trigger: 'vision-conform' },
+        })
+      }
+    }
+
     return {
       documentId,
       sheetsProcessed: totalSheetsProcessed,
@@ -0,0 +1,362 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import type { Database } from '../db/supabase/types'
+import { classifyChangeDocument } from '../vision/rfi-extractor'
+import {
+  buildChangeEventDraftFromAddendum,
+  buildChangeEventDraftFromChangeDocument,
+  buildChangeEventDraftFromRfi,
+  buildRomLineItems,
+  extractTextQuantities,
+  formatChangeEventNumber,
+  nextChangeEventSequence,
+  rowToChangeEvent,
+  type ChangeEvent,
+  type ChangeEventDraft,
+  type ChangeEventRow,
+  type ChangeEventSourceType,
+  type RomQuantityInput,
+  type RomSeed,
+} from './change-event-workflow'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+type ChangeEventInsert = Database['public']['Tables']['change_events']['Insert']
+type ChangeEventUpdate = Database['public']['Tables']['change_events']['Update']
+
+const PAGE_SIZE = 1000
+
+// Concurrent creates and transitions can race for the same number; the
+// unique index rejects the loser, which re-reads the max and tries the next.
+const NUMBER_ATTEMPTS = 3
+
+// Finding types that carry the change itself; revision_metadata is dates and
+// issuer, not scope.
+const SCOPE_FINDING_TYPES = ['clarification_statement', 'superseding_language']
+
+export const CHANGE_EVENT_COLUMNS =
+  'id, pco_number, sequence, cor_number, co_number, stage, status, title, scope_description, source_type, source_id, source_label, referenced_sheets, spec_sections, rom_items, rom_low, rom_high, approved_amount, schedule_impact_days, status_history, submitted_at, executed_at, created_at, updated_at'
+
+const NUMBER_COLUMN = { pco: 'pco_number', cor: 'cor_number', co: 'co_number' } as const
+
+export async function loadChangeEvents(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ changeEvents: ChangeEvent[]; error: string | null }> {
+  const changeEvents: ChangeEvent[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('change_events')
+      .select(CHANGE_EVENT_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { changeEvents: [], error: error.message }
+    const rows = (data ?? []) as unknown as ChangeEventRow[]
+    changeEvents.push(...rows.map(rowToChangeEvent))
+    if (rows.length < PAGE_SIZE) break
+  }
+  changeEvents.sort((a, b) => (a.sequence ?? Infinity) - (b.sequence ?? Infinity))
+  return { changeEvents, error: null }
+}
+
+// Paged: COR / CO numbers are text, so the max can't be read as the first row
+// of a sort ('COR-1000' sorts before 'COR-999'), and an unpaged read stops at
+// PostgREST's row cap.
+async function nextNumber(
+  supabase: ServiceClient,
+  projectId: string,
+  stage: 'pco' | 'cor' | 'co'
+): Promise<{ sequence: number; number: string } | { error: string }> {
+  const column = NUMBER_COLUMN[stage]
+  const existing: Array<string | null> = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('change_events')
+      .select(column)
+      .eq('project_id', projectId)
+      .not(column, 'is', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { error: error.message }
+    const rows = (data ?? []) as unknown as Array<Record<string, string | null>>
+    existing.push(...rows.map(r => r[column]))
+    if (rows.length < PAGE_SIZE) break
+  }
+  const sequence = nextChangeEventSequence(stage, existing)
+  return { sequence, number: formatChangeEventNumber(stage, sequence) }
+}
+
+// Inserts the change event under the project's next PCO number.
+export async function insertNumberedChangeEvent(
+  supabase: ServiceClient,
+  projectId: string,
+  row: Omit<ChangeEventInsert, 'project_id' | 'pco_number' | 'sequence'>
+): Promise<{ changeEvent: ChangeEvent | null; error: string | null }> {
+  for (let attempt = 0; attempt < NUMBER_ATTEMPTS; attempt++) {
+    const next = await nextNumber(supabase, projectId, 'pco')
+    if ('error' in next) return { changeEvent: null, error: next.error }
+    const { data, error } = await supabase
+      .from('change_events')
+      .insert({ ...row, project_id: projectId, sequence: next.sequence, pco_number: next.number })
+      .select(CHANGE_EVENT_COLUMNS)
+      .single()
+    if (!error) return { changeEvent: rowToChangeEvent(data as unknown as ChangeEventRow), error: null }
+    if (error.code !== '23505') return { changeEvent: null, error: error.message }
+  }
+  return { changeEvent: null, error: 'Could not allocate a PCO number; try again' }
+}
+
+export type ChangeEventUpdateResult =
+  | { status: 'updated'; changeEvent: ChangeEvent }
+  | { status: 'conflict' }
+  | { status: 'error'; error: string }
+
+// Applies an edit or transition, guarded on the status the caller read so a
+// concurrent transition isn't overwritten. `allocate` numbers the event into
+// its new stage (COR on first submission, CO on execution).
+export async function updateChangeEvent(
+  supabase: ServiceClient,
+  projectId: string,
+  changeEventId: string,
+  expectedStatus: string,
+  row: ChangeEventUpdate,
+  allocate: 'cor' | 'co' | null
+): Promise<ChangeEventUpdateResult> {
+  for (let attempt = 0; attempt < NUMBER_ATTEMPTS; attempt++) {
+    const update: ChangeEventUpdate = { ...row }
+    if (allocate) {
+      const next = await nextNumber(supabase, projectId, allocate)
+      if ('error' in next) return { status: 'error', error: next.error }
+      update[NUMBER_COLUMN[allocate]] = next.number
+    }
+    const { data, error } = await supabase
+      .from('change_events')
+      .update(update)
+      .eq('id', changeEventId)
+      .eq('project_id', projectId)
+      .eq('status', expectedStatus)
+      .select(CHANGE_EVENT_COLUMNS)
+      .maybeSingle()
+    if (error) {
+      if (allocate && error.code === '23505') continue
+      return { status: 'error', error: error.message }
+    }
+    if (!data) return { status: 'conflict' }
+    return { status: 'updated', changeEvent: rowToChangeEvent(data as unknown as ChangeEventRow) }
+  }
+  return { status: 'error', error: `Could not allocate a ${allocate?.toUpperCase()} number; try again` }
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+export interface ChangeEventSourceOption {
+  sourceType: Exclude<ChangeEventSourceType, 'manual'>
+  id: string
+  label: string
+  description: string
+}
+
+// What a change event can be raised from: issued RFIs, RFI / ASI / addendum
+// entities extracted from change documents, and uploaded addenda.
+export async function listChangeEventSources(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ sources: ChangeEventSourceOption[]; error: string | null }> {
+  const [rfis, entities, documents] = await Promise.all([
+    supabase
+      .from('rfis')
+      .select('id, rfi_number, subject, status')
+      .eq('project_id', projectId)
+      .neq('status', 'draft')
+      .order('sequence', { ascending: true })
+      .limit(PAGE_SIZE),
+    supabase
+      .from('project_entities')
+      .select('id, label, display_name, canonical_name, entity_type')
+      .eq('project_id', projectId)
+      .eq('discipline', 'rfi')
+      .order('label')
+      .limit(PAGE_SIZE),
+    supabase
+      .from('documents')
+      .select('id, filename, description')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .limit(PAGE_SIZE),
+  ])
+  const failed = rfis.error ?? entities.error ?? documents.error
+  if (failed) return { sources: [], error: failed.message }
+
+  const sources: ChangeEventSourceOption[] = [
+    ...(rfis.data ?? []).map(r => ({
+      sourceType: 'rfi' as const,
+      id: r.id,
+      label: r.rfi_number,
+      description: r.subject,
+    })),
+    ...(entities.data ?? []).map(e => ({
+      sourceType: 'rfi_entity' as const,
+      id: e.id,
+      label: e.label ?? e.display_name ?? e.canonical_name,
+      description: e.display_name ?? e.canonical_name,
+    })),
+    ...(documents.data ?? [])
+      .filter(d => classifyChangeDocument(d.description ?? '', d.filename) === 'addendum')
+      .map(d => ({
+        sourceType: 'addendum' as const,
+        id: d.id,
+        label: d.filename,
+        description: d.description ?? '',
+      })),
+  ]
+  return { sources, error: null }
+}
+
+export interface ChangeEventSeed {
+  draft: ChangeEventDraft
+  rom: RomSeed
+}
+
+export type ChangeEventSeedResult =
+  | { status: 'seeded'; seed: ChangeEventSeed }
+  | { status: 'not_found' }
+  | { status: 'error'; error: string }
+
+async function loadDocumentQuantities(
+  supabase: ServiceClient,
+  projectId: string,
+  documentIds: string[]
+): Promise<{ quantities: RomQuantityInput[]; error: string | null }> {
+  if (documentIds.length === 0) return { quantities: [], error: null }
+  const { data, error } = await supabase
+    .from('project_quantities')
+    .select('item_name, quantity, unit, sheet_number')
+    .eq('project_id', projectId)
+    .in('document_id', documentIds)
+    .limit(PAGE_SIZE)
+  if (error) return { quantities: [], error: error.message }
+  return {
+    quantities: (data ?? []).map(q => ({
+      itemName: q.item_name,
+      quantity: q.quantity,
+      unit: q.unit,
+      sheetNumber: q.sheet_number,
+    })),
+    error: null,
+  }
+}
+
+function orderedStatements(findings: Array<{ finding_type: string; statement: string }>): string[] {
+  return findings
+    .filter(f => SCOPE_FINDING_TYPES.includes(f.finding_type))
+    .sort((a, b) => SCOPE_FINDING_TYPES.indexOf(a.finding_type) - SCOPE_FINDING_TYPES.indexOf(b.finding_type))
+    .map(f => f.statement)
+}
+
+// Draft title / scope and a ROM seed for a new change event. Quantities come
+// from the source document's extracted takeoff (change document and addendum
+// sources) and from quantities stated in the source's text.
+export async function loadChangeEventSeed(
+  supabase: ServiceClient,
+  projectId: string,
+  sourceType: Exclude<ChangeEventSourceType, 'manual'>,
+  sourceId: string
+): Promise<ChangeEventSeedResult> {
+  if (sourceType === 'rfi') {
+    const { data: rfi, error } = await supabase
+      .from('rfis')
+      .select('rfi_number, subject, question, suggested_solution, response, referenced_sheets, spec_sections')
+      .eq('id', sourceId)
+      .eq('project_id', projectId)
+      .maybeSingle()
+    if (error) return { status: 'error', error: error.message }
+    if (!rfi) return { status: 'not_found' }
+    const draft = buildChangeEventDraftFromRfi({
+      rfiNumber: rfi.rfi_number,
+      subject: rfi.subject,
+      question: rfi.question,
+      suggestedSolution: rfi.suggested_solution,
+      response: rfi.response,
+      referencedSheets: rfi.referenced_sheets ?? [],
+      specSections: rfi.spec_sections ?? [],
+    })
+    // The response states the changed scope; the question only when unanswered.
+    const text = rfi.response ?? [rfi.question, rfi.suggested_solution ?? ''].join('\n')
+    return { status: 'seeded', seed: { draft, rom: buildRomLineItems(extractTextQuantities(text)) } }
+  }
+
+  if (sourceType === 'rfi_entity') {
+    const { data: entity, error } = await supabase
+      .from('project_entities')
+      .select(`
+        id, label, display_name, canonical_name,
+        entity_citations ( document_id ),
+        entity_findings!entity_findings_entity_id_fkey ( finding_type, statement )
+      `)
+      .eq('id', sourceId)
+      .eq('project_id', projectId)
+      .eq('discipline', 'rfi')
+      .maybeSingle()
+    if (error) return { status: 'error', error: error.message }
+    if (!entity) return { status: 'not_found' }
+    const statements = orderedStatements(entity.entity_findings ?? [])
+    const documentIds = [...new Set((entity.entity_citations ?? []).map(c => c.document_id).filter((id): id is string => !!id))]
+    const { quantities, error: qtyError } = await loadDocumentQuantities(supabase, projectId, documentIds)
+    if (qtyError) return { status: 'error', error: qtyError }
+    const draft = buildChangeEventDraftFromChangeDocument({
+      label: entity.label,
+      displayName: entity.display_name ?? entity.canonical_name,
+      statements,
+    })
+    const rom = buildRomLineItems([...quantities, ...extractTextQuantities(statements.join('\n'))])
+    return { status: 'seeded', seed: { draft, rom } }
+  }
+
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('id, filename, description')
+    .eq('id', sourceId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (docError) return { status: 'error', error: docError.message }
+  if (!doc) return { status: 'not_found' }
+
+  const [pages, citations] = await Promise.all([
+    supabase
+      .from('document_pages')
+      .select('sheet_number')
+      .eq('document_id', doc.id)
+      .not('sheet_number', 'is', null),
+    supabase
+      .from('entity_citations')
+      .select('entity_id')
+      .eq('document_id', doc.id),
+  ])
+  if (pages.error) return { status: 'error', error: pages.error.message }
+  if (citations.error) return { status: 'error', error: citations.error.message }
+
+  // Findings of the change-document entities extracted from this addendum.
+  let statements: string[] = []
+  const entityIds = [...new Set((citations.data ?? []).map(c => c.entity_id).filter((id): id is string => !!id))]
+  if (entityIds.length > 0) {
+    const { data: entities, error } = await supabase
+      .from('project_entities')
+      .select('id, entity_findings!entity_findings_entity_id_fkey ( finding_type, statement )')
+      .in('id', entityIds)
+      .eq('discipline', 'rfi')
+    if (error) return { status: 'error', error: error.message }
+    statements = orderedStatements((entities ?? []).flatMap(e => e.entity_findings ?? []))
+  }
+
+  const { quantities, error: qtyError } = await loadDocumentQuantities(supabase, projectId, [doc.id])
+  if (qtyError) return { status: 'error', error: qtyError }
+  const draft = buildChangeEventDraftFromAddendum({
+    filename: doc.filename,
+    description: doc.description,
+    statements,
+    sheetNumbers: [...new Set((pages.data ?? []).map(p => p.sheet_number).filter((s): s is string => !!s))],
+  })
+  const rom = buildRomLineItems([...quantities, ...extractTextQuantities(statements.join('\n'))])
+  return { status: 'seeded', seed: { draft, rom } }
+}
@@ -0,0 +1,591 @@
+/**
+ * Change event log — pure logic.
+ *
+ * A change event tracks a potential change from the document that raised it
+ * (an RFI, an RFI / ASI / addendum entity extracted from a change document,
+ * or an uploaded addendum) through to an executed change order:
+ *
+ *   PCO  potential change order — scope identified and priced internally
+ *   COR  change order request   — submitted to the owner
+ *   CO   change order           — executed
+ *
+ * Status flow (stage in brackets):
+ *   open → pricing → submitted → executed          [pco → pco → cor → co]
+ *   submitted → rejected → submitted                (resubmitted)
+ *   open | pricing | rejected → void
+ *   pricing → open                                  (back to scoping)
+ *
+ * Every event is numbered 'PCO-001' when created and keeps that number; it
+ * also gets 'COR-001' when first submitted and 'CO-001' when executed, each
+ * allocated per project as max + 1.
+ *
+ * The ROM (rough order of magnitude) estimate is seeded from ROM_UNIT_COSTS:
+ * quantities extracted from the source document, or stated in its text
+ * ('120 LF of 8" water main'), are matched to a unit cost item and priced at
+ * the low and high range.
+ *
+ * Reads and writes live in change-event-persistence.ts.
+ */
+
+import { ROM_UNIT_COSTS } from '../../agents/constructionPEAgent/domainKnowledge.ts'
+import {
+  extractChangeDocIdentifier,
+  extractDetailReferences,
+  extractSheetReferences,
+  extractSpecSectionReferences,
+} from '../vision/rfi-extractor.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const CHANGE_EVENT_STAGES = ['pco', 'cor', 'co'] as const
+export type ChangeEventStage = (typeof CHANGE_EVENT_STAGES)[number]
+
+export const CHANGE_EVENT_STATUSES = ['open', 'pricing', 'submitted', 'rejected', 'executed', 'void'] as const
+export type ChangeEventStatus = (typeof CHANGE_EVENT_STATUSES)[number]
+
+export const CHANGE_EVENT_SOURCE_TYPES = ['rfi', 'rfi_entity', 'addendum', 'manual'] as const
+export type ChangeEventSourceType = (typeof CHANGE_EVENT_SOURCE_TYPES)[number]
+
+export const CHANGE_EVENT_STAGE_LABELS: Record<ChangeEventStage, string> = {
+  pco: 'PCO',
+  cor: 'COR',
+  co: 'CO',
+}
+
+export const CHANGE_EVENT_STATUS_LABELS: Record<ChangeEventStatus, string> = {
+  open: 'Open',
+  pricing: 'Pricing',
+  submitted: 'Submitted',
+  rejected: 'Rejected',
+  executed: 'Executed',
+  void: 'Void',
+}
+
+export const CHANGE_EVENT_STATUS_COLORS: Record<ChangeEventStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  pricing: 'bg-amber-100 text-amber-800',
+  submitted: 'bg-indigo-100 text-indigo-800',
+  rejected: 'bg-red-100 text-red-800',
+  executed: 'bg-green-100 text-green-800',
+  void: 'bg-slate-200 text-slate-700',
+}
+
+export const CHANGE_EVENT_SOURCE_LABELS: Record<ChangeEventSourceType, string> = {
+  rfi: 'RFI',
+  rfi_entity: 'Change document',
+  addendum: 'Addendum',
+  manual: 'Manual',
+}
+
+export interface ChangeEventStatusHistoryEntry {
+  fromStatus: ChangeEventStatus | null
+  toStatus: ChangeEventStatus
+  changedAt: string
+  changedBy?: string
+  note?: string
+}
+
+// One priced line of the ROM estimate. low / high are quantity × the cost
+// item's range, rounded to whole dollars.
+export interface RomLineItem {
+  costKey: string
+  description: string
+  quantity: number
+  unit: string
+  unitLow: number
+  unitHigh: number
+  low: number
+  high: number
+  sheetNumber?: string | null
+}
+
+export interface ChangeEvent {
+  id: string
+  pcoNumber: string
+  sequence: number | null
+  corNumber: string | null
+  coNumber: string | null
+  stage: ChangeEventStage
+  status: ChangeEventStatus
+  title: string
+  scopeDescription: string
+  sourceType: ChangeEventSourceType
+  sourceId: string | null
+  sourceLabel: string | null
+  referencedSheets: string[]
+  specSections: string[]
+  romItems: RomLineItem[]
+  romLow: number | null
+  romHigh: number | null
+  approvedAmount: number | null
+  scheduleImpactDays: number | null
+  statusHistory: ChangeEventStatusHistoryEntry[]
+  submittedAt: string | null
+  executedAt: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export interface ChangeEventRow {
+  id: string
+  pco_number: string
+  sequence: number | null
+  cor_number: string | null
+  co_number: string | null
+  stage: string | null
+  status: string | null
+  title: string
+  scope_description: string
+  source_type: string | null
+  source_id: string | null
+  source_label: string | null
+  referenced_sheets: string[] | null
+  spec_sections: string[] | null
+  rom_items: unknown
+  rom_low: number | null
+  rom_high: number | null
+  approved_amount: number | null
+  schedule_impact_days: number | null
+  status_history: unknown
+  submitted_at: string | null
+  executed_at: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+export function rowToChangeEvent(row: ChangeEventRow): ChangeEvent {
+  return {
+    id: row.id,
+    pcoNumber: row.pco_number,
+    sequence: row.sequence ?? parseChangeEventNumber('pco', row.pco_number),
+    corNumber: row.cor_number,
+    coNumber: row.co_number,
+    stage: (CHANGE_EVENT_STAGES as readonly string[]).includes(row.stage ?? '') ? (row.stage as ChangeEventStage) : 'pco',
+    status: isChangeEventStatus(row.status) ? row.status : 'open',
+    title: row.title,
+    scopeDescription: row.scope_description,
+    sourceType: isChangeEventSourceType(row.source_type) ? row.source_type : 'manual',
+    sourceId: row.source_id,
+    sourceLabel: row.source_label,
+    referencedSheets: row.referenced_sheets ?? [],
+    specSections: row.spec_sections ?? [],
+    romItems: Array.isArray(row.rom_items) ? (row.rom_items as RomLineItem[]) : [],
+    romLow: row.rom_low,
+    romHigh: row.rom_high,
+    approvedAmount: row.approved_amount,
+    scheduleImpactDays: row.schedule_impact_days,
+    statusHistory: Array.isArray(row.status_history) ? (row.status_history as ChangeEventStatusHistoryEntry[]) : [],
+    submittedAt: row.submitted_at,
+    executedAt: row.executed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export function isChangeEventStatus(v: unknown): v is ChangeEventStatus {
+  return typeof v === 'string' && (CHANGE_EVENT_STATUSES as readonly string[]).includes(v)
+}
+
+export function isChangeEventSourceType(v: unknown): v is ChangeEventSourceType {
+  return typeof v === 'string' && (CHANGE_EVENT_SOURCE_TYPES as readonly string[]).includes(v)
+}
+
+// The event's current number: CO once executed, COR once submitted, else PCO.
+export function currentChangeEventNumber(ce: Pick<ChangeEvent, 'pcoNumber' | 'corNumber' | 'coNumber'>): string {
+  return ce.coNumber ?? ce.corNumber ?? ce.pcoNumber
+}
+
+// ---------------------------------------------------------------------------
+// Numbering
+// ---------------------------------------------------------------------------
+
+export function formatChangeEventNumber(stage: ChangeEventStage, sequence: number): string {
+  return `${CHANGE_EVENT_STAGE_LABELS[stage]}-${String(sequence).padStart(3, '0')}`
+}
+
+// 'PCO-007', 'PCO 7', 'pco#7' → 7 for stage 'pco'. Null when the number is
+// not in that stage's form.
+export function parseChangeEventNumber(stage: ChangeEventStage, value: string | null | undefined): number | null {
+  const m = new RegExp(`^\\s*${CHANGE_EVENT_STAGE_LABELS[stage]}\\s*[-#]?\\s*(\\d+)\\s*$`, 'i').exec(value ?? '')
+  return m ? Number(m[1]) : null
+}
+
+// Next free sequence for a stage given the project's existing numbers for it.
+export function nextChangeEventSequence(stage: ChangeEventStage, existing: Array<string | null>): number {
+  let max = 0
+  for (const number of existing) {
+    const n = parseChangeEventNumber(stage, number)
+    if (n !== null && n > max) max = n
+  }
+  return max + 1
+}
+
+// ---------------------------------------------------------------------------
+// Status transitions
+// ---------------------------------------------------------------------------
+
+const TRANSITIONS: Record<ChangeEventStatus, ChangeEventStatus[]> = {
+  open: ['pricing', 'void'],
+  pricing: ['submitted', 'open', 'void'],
+  submitted: ['executed', 'rejected'],
+  rejected: ['submitted', 'void'],
+  executed: [],
+  void: [],
+}
+
+export function getNextChangeEventStatuses(from: ChangeEventStatus): ChangeEventStatus[] {
+  return TRANSITIONS[from]
+}
+
+export function isChangeEventLocked(ce: Pick<ChangeEvent, 'status'>): boolean {
+  return ce.status === 'executed' || ce.status === 'void'
+}
+
+export interface ChangeEventTransitionInput {
+  approvedAmount?: number | null
+  by?: string
+  note?: string
+  at?: string
+}
+
+export type ChangeEventTransitionResult =
+  | {
+      ok: true
+      entry: ChangeEventStatusHistoryEntry
+      stage: ChangeEventStage
+      // Stage whose number must be allocated with this transition, if any.
+      allocate: 'cor' | 'co' | null
+      fields: Partial<Pick<ChangeEvent, 'approvedAmount' | 'submittedAt' | 'executedAt'>>
+    }
+  | { ok: false; error: string }
+
+// Submitting needs a ROM estimate and a scope to put in front of the owner;
+// the first submission allocates the COR number (a resubmission keeps it).
+// Executing needs the approved amount and allocates the CO number.
+export function buildChangeEventTransition(
+  ce: Pick<ChangeEvent, 'status' | 'stage' | 'corNumber' | 'scopeDescription' | 'romLow' | 'approvedAmount'>,
+  toStatus: ChangeEventStatus,
+  input: ChangeEventTransitionInput = {}
+): ChangeEventTransitionResult {
+  if (!TRANSITIONS[ce.status].includes(toStatus)) {
+    return {
+      ok: false,
+      error: `Cannot move a change event from ${CHANGE_EVENT_STATUS_LABELS[ce.status]} to ${CHANGE_EVENT_STATUS_LABELS[toStatus]}`,
+    }
+  }
+  const at = input.at ?? new Date().toISOString()
+  const fields: Extract<ChangeEventTransitionResult, { ok: true }>['fields'] = {}
+  let stage = ce.stage
+  let allocate: 'cor' | 'co' | null = null
+
+  if (toStatus === 'submitted') {
+    if (!ce.scopeDescription.trim()) return { ok: false, error: 'A scope description is required to submit a COR' }
+    if (ce.romLow === null) return { ok: false, error: 'A ROM estimate is required to submit a COR' }
+    stage = 'cor'
+    if (!ce.corNumber) allocate = 'cor'
+    fields.submittedAt = at
+  }
+  if (toStatus === 'executed') {
+    const amount = input.approvedAmount ?? ce.approvedAmount
+    if (amount === null || amount === undefined || !Number.isFinite(amount)) {
+      return { ok: false, error: 'The approved amount is required to execute a change order' }
+    }
+    stage = 'co'
+    allocate = 'co'
+    fields.approvedAmount = amount
+    fields.executedAt = at
+  }
+
+  return {
+    ok: true,
+    entry: { fromStatus: ce.status, toStatus, changedAt: at, changedBy: input.by, note: input.note?.trim() || undefined },
+    stage,
+    allocate,
+    fields,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ROM estimate
+// ---------------------------------------------------------------------------
+
+export interface RomCostItem {
+  key: string
+  label: string
+  unit: string
+  lowRange: number
+  highRange: number
+}
+
+function costLabel(key: string): string {
+  return key
+    .replace(/^(\d+)_inch_/, '$1" ')
+    .replace(/_(\d+)_inch$/, ' $1"')
+    .replace(/_(\d+)_psi$/, ' $1 psi')
+    .replace(/_0_6_ft$/, " 0-6'")
+    .replace(/_di$/, ' DI')
+    .replace(/_pvc$/, ' PVC')
+    .replace(/_/g, ' ')
+    .replace(/^\w/, c => c.toUpperCase())
+}
+
+export const ROM_COST_ITEMS: RomCostItem[] = Object.entries(ROM_UNIT_COSTS).map(([key, c]) => ({
+  key,
+  label: costLabel(key),
+  unit: c.unit,
+  lowRange: c.lowRange,
+  highRange: c.highRange,
+}))
+
+// Unit spellings seen in quantity takeoffs → ROM unit, with a factor into
+// that unit (SY → SF is ×9).
+const UNIT_ALIASES: Array<{ pattern: RegExp; unit: string; factor: number }> = [
+  { pattern: /^(?:LF|L\.F\.?|LIN\.?\s*FT|FT|FEET|FOOT)$/i, unit: 'LF', factor: 1 },
+  { pattern: /^(?:CY|C\.Y\.?|CU\.?\s*YDS?|CUBIC\s+YARDS?)$/i, unit: 'CY', factor: 1 },
+  { pattern: /^(?:SF|S\.F\.?|SQ\.?\s*FT|SQUARE\s+FEET)$/i, unit: 'SF', factor: 1 },
+  { pattern: /^(?:SY|S\.Y\.?|SQ\.?\s*YDS?|SQUARE\s+YARDS?)$/i, unit: 'SF', factor: 9 },
+  { pattern: /^(?:EA|EACH|NO\.?)$/i, unit: 'EA', factor: 1 },
+  { pattern: /^(?:LBS?|POUNDS?)$/i, unit: 'LB', factor: 1 },
+]
+
+export function normalizeRomUnit(unit: string | null | undefined): { unit: string; factor: number } | null {
+  const u = (unit ?? '').trim()
+  for (const alias of UNIT_ALIASES) {
+    if (alias.pattern.test(u)) return { unit: alias.unit, factor: alias.factor }
+  }
+  return null
+}
+
+// Nominal size in inches: pipe diameter, valve size, pavement thickness.
+function sizeInches(text: string): number | null {
+  const m = /(\d{1,2})\s*(?:"|''|-?\s*in(?:ch)?\b|-?\s*inch)/i.exec(text)
+  return m ? Number(m[1]) : null
+}
+
+// Item-name rules, most specific first. The key function sees the nominal
+// size and returns null when there is no cost item for it.
+const ROM_ITEM_RULES: Array<{ pattern: RegExp; key: (size: number | null) => string | null }> = [
+  { pattern: /\bhydrant/i, key: () => 'fire_hydrant_assembly' },
+  { pattern: /\bgate\s+valve|\bvalve\b/i, key: s => (s === 8 ? 'gate_valve_8_inch' : s === 12 ? 'gate_valve_12_inch' : null) },
+  { pattern: /\bmanhole|\bMH\b/i, key: s => (s === null || s === 48 ? '48_inch_manhole' : null) },
+  { pattern: /\bsewer|\bsanitary|\bSS\b/i, key: s => (s === 8 ? '8_inch_sewer_pvc' : null) },
+  { pattern: /\bwater\b|\bDIP?\b|ductile/i, key: s => (s === 8 ? '8_inch_water_main_di' : s === 12 ? '12_inch_water_main_di' : null) },
+  { pattern: /\bcurb/i, key: () => 'concrete_curb_and_gutter' },
+  { pattern: /\bsidewalk/i, key: () => 'concrete_sidewalk_4_inch' },
+  { pattern: /\baggregate\s+base|\bbase\s+course|\bAB\b|\bcrushed\s+(?:rock|aggregate)/i, key: () => 'aggregate_base_6_inch' },
+  { pattern: /\basphalt|\bHMA\b|\bAC\s+pav/i, key: s => (s !== null && s <= 3 ? 'asphalt_concrete_2_inch' : 'asphalt_concrete_4_inch') },
+  { pattern: /\brebar\b|\breinforc/i, key: () => 'reinforcing_steel_in_place' },
+  { pattern: /\bconcrete\b/i, key: () => 'structural_concrete_4000_psi' },
+  { pattern: /\btrench/i, key: () => 'trench_excavation_0_6_ft' },
+  { pattern: /\bbackfill/i, key: () => 'structural_backfill' },
+  { pattern: /\bimport(?:ed)?\b.*\bfill\b|\bfill\b.*\bimport/i, key: () => 'import_fill' },
+  { pattern: /\bexcavat/i, key: () => 'mass_excavation' },
+]
+
+// The ROM cost item for a quantity, or null when the item has no unit cost
+// or is measured in a unit the cost item can't be priced in (asphalt in TON).
+export function matchRomCostKey(itemName: string, unit: string | null | undefined): string | null {
+  const normalized = normalizeRomUnit(unit)
+  if (!normalized) return null
+  const size = sizeInches(itemName)
+  for (const rule of ROM_ITEM_RULES) {
+    if (!rule.pattern.test(itemName)) continue
+    const key = rule.key(size)
+    if (!key) return null
+    return ROM_UNIT_COSTS[key]?.unit === normalized.unit ? key : null
+  }
+  return null
+}
+
+// Prices a quantity of a cost item. Quantity is in the item's unit — the
+// caller converts with normalizeRomUnit first.
+export function priceRomLine(
+  costKey: string,
+  quantity: number,
+  description?: string,
+  sheetNumber?: string | null
+): RomLineItem | null {
+  const cost = ROM_UNIT_COSTS[costKey]
+  if (!cost || !Number.isFinite(quantity) || quantity <= 0) return null
+  return {
+    costKey,
+    description: description?.trim() || costLabel(costKey),
+    quantity,
+    unit: cost.unit,
+    unitLow: cost.lowRange,
+    unitHigh: cost.highRange,
+    low: Math.round(quantity * cost.lowRange),
+    high: Math.round(quantity * cost.highRange),
+    sheetNumber: sheetNumber ?? null,
+  }
+}
+
+export interface RomQuantityInput {
+  itemName: string
+  quantity: number | null
+  unit: string | null
+  sheetNumber?: string | null
+}
+
+export interface RomSeed {
+  items: RomLineItem[]
+  // Item names (with quantity and unit) that no cost item covers — listed so
+  // the estimator prices them by hand.
+  unmatched: string[]
+}
+
+export function buildRomLineItems(quantities: RomQuantityInput[]): RomSeed {
+  const items: RomLineItem[] = []
+  const unmatched: string[] = []
+  for (const q of quantities) {
+    if (q.quantity === null || !(q.quantity > 0)) continue
+    const key = matchRomCostKey(q.itemName, q.unit)
+    const normalized = normalizeRomUnit(q.unit)
+    const line = key && normalized ? priceRomLine(key, q.quantity * normalized.factor, q.itemName, q.sheetNumber) : null
+    if (line) items.push(line)
+    else unmatched.push(`${q.itemName} (${q.quantity} ${q.unit ?? ''})`.replace(/\s+\)/, ')'))
+  }
+  return { items, unmatched }
+}
+
+// ROM lines as posted by the log: { costKey, quantity, description?,
+// sheetNumber? }. Prices are always re-derived from ROM_UNIT_COSTS.
+export function priceRomLineInputs(value: unknown): { items: RomLineItem[] } | { error: string } {
+  if (!Array.isArray(value)) return { error: 'romItems must be an array' }
+  const items: RomLineItem[] = []
+  for (const raw of value) {
+    const input = (raw ?? {}) as { costKey?: unknown; quantity?: unknown; description?: unknown; sheetNumber?: unknown }
+    if (typeof input.costKey !== 'string' || !ROM_UNIT_COSTS[input.costKey]) {
+      return { error: `Unknown ROM cost item: ${String(input.costKey)}` }
+    }
+    const line = priceRomLine(
+      input.costKey,
+      Number(input.quantity),
+      typeof input.description === 'string' ? input.description : undefined,
+      typeof input.sheetNumber === 'string' ? input.sheetNumber : null
+    )
+    if (!line) return { error: `Quantity for ${input.costKey} must be a positive number` }
+    items.push(line)
+  }
+  return { items }
+}
+
+export function summarizeRom(items: RomLineItem[]): { low: number; high: number } | null {
+  if (items.length === 0) return null
+  return {
+    low: items.reduce((sum, i) => sum + i.low, 0),
+    high: items.reduce((sum, i) => sum + i.high, 0),
+  }
+}
+
+const TEXT_QUANTITY =
+  /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(LF|L\.F\.|CY|C\.Y\.|SF|S\.F\.|SY|S\.Y\.|EA|LBS?)\b\.?\s+(?:of\s+)?((?:(?!\s+(?:and|plus|&)\s+\d)[^.;,\n]){3,60})/gi
+
+// Quantities stated in prose: '120 LF of 8" DI water main', '2 EA gate
+// valves'. The item name runs to the end of the clause or the next
+// quantity ('… main and 2 EA …').
+export function extractTextQuantities(text: string): RomQuantityInput[] {
+  const found: RomQuantityInput[] = []
+  for (const m of text.matchAll(TEXT_QUANTITY)) {
+    found.push({ quantity: Number(m[1].replace(/,/g, '')), unit: m[2], itemName: m[3].trim() })
+  }
+  return found
+}
+
+// ---------------------------------------------------------------------------
+// Drafting from a source
+// ---------------------------------------------------------------------------
+
+export interface ChangeEventDraft {
+  title: string
+  scopeDescription: string
+  sourceLabel: string
+  referencedSheets: string[]
+  specSections: string[]
+}
+
+const TITLE_MAX = 80
+
+function clip(text: string, max: number): string {
+  const t = text.replace(/\s+/g, ' ').trim()
+  if (t.length <= max) return t
+  return `${t.slice(0, max - 1).replace(/\s+\S*$/, '')}…`
+}
+
+// Detail references ('5/S-201') carry their sheet, so the bare sheet is dropped.
+function sheetsFrom(text: string): string[] {
+  const details = extractDetailReferences(text)
+  const onDetail = new Set(details.map(d => d.split('/')[1]))
+  const sheets = extractSheetReferences(text).filter(s => !onDetail.has(s))
+  return [...new Set([...sheets, ...details])].sort()
+}
+
+export interface RfiSourceInput {
+  rfiNumber: string
+  subject: string
+  question: string
+  suggestedSolution: string | null
+  response: string | null
+  referencedSheets: string[]
+  specSections: string[]
+}
+
+// The RFI's response is what changed the scope, so it leads the description.
+export function buildChangeEventDraftFromRfi(rfi: RfiSourceInput): ChangeEventDraft {
+  const parts = [
+    rfi.response ? `Per ${rfi.rfiNumber} response: ${rfi.response.trim()}` : `${rfi.rfiNumber}: ${rfi.question.trim()}`,
+    rfi.suggestedSolution && !rfi.response ? `Proposed: ${rfi.suggestedSolution.trim()}` : '',
+  ]
+  return {
+    title: clip(`${rfi.rfiNumber} — ${rfi.subject}`, TITLE_MAX),
+    scopeDescription: parts.filter(Boolean).join('\n\n'),
+    sourceLabel: rfi.rfiNumber,
+    referencedSheets: [...rfi.referencedSheets].sort(),
+    specSections: [...rfi.specSections].sort(),
+  }
+}
+
+export interface ChangeDocumentSourceInput {
+  label: string | null
+  displayName: string
+  // Finding statements in the order extracted — clarification first.
+  statements: string[]
+}
+
+// An RFI / ASI / addendum entity extracted from an uploaded change document.
+export function buildChangeEventDraftFromChangeDocument(doc: ChangeDocumentSourceInput): ChangeEventDraft {
+  const label = doc.label ?? doc.displayName
+  const body = doc.statements.map(s => s.trim()).filter(Boolean).join('\n')
+  return {
+    title: clip(doc.label && doc.displayName !== doc.label ? `${doc.label} — ${doc.displayName}` : label, TITLE_MAX),
+    scopeDescription: body ? `Per ${label}:\n${body}` : `Per ${label}.`,
+    sourceLabel: label,
+    referencedSheets: sheetsFrom(body),
+    specSections: extractSpecSectionReferences(body).sort(),
+  }
+}
+
+export interface AddendumSourceInput {
+  filename: string
+  description: string | null
+  // Finding statements of the addendum entity extracted from the document,
+  // when the change-document pipeline has run on it.
+  statements: string[]
+  // Sheets the addendum's pages carry.
+  sheetNumbers: string[]
+}
+
+export function buildChangeEventDraftFromAddendum(doc: AddendumSourceInput): ChangeEventDraft {
+  const id = extractChangeDocIdentifier(doc.filename) ?? extractChangeDocIdentifier(doc.description ?? '')
+  const label = id?.docType === 'addendum' ? id.label : doc.filename.replace(/\.[a-z0-9]+$/i, '')
+  const body = [doc.description ?? '', ...doc.statements].map(s => s.trim()).filter(Boolean).join('\n')
+  return {
+    title: clip(doc.description ? `${label} — ${doc.description}` : label, TITLE_MAX),
+    scopeDescription: body ? `Per ${label}:\n${body}` : `Changes issued in ${label}.`,
+    sourceLabel: label,
+    referencedSheets: [...new Set([...doc.sheetNumbers, ...sheetsFrom(body)])].sort(),
+    specSections: extractSpecSectionReferences(body).sort(),
+  }
+}
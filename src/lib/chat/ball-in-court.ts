@@ -0,0 +1,292 @@
+/**
+ * ball-in-court.ts
+ *
+ * Who is holding each submittal. The side follows the lifecycle status:
+ *
+ *   pending_submission, revise_resubmit, rejected   → contractor
+ *   submitted, pending_review                       → reviewer (designer or owner)
+ *   draft, approved, approved_as_noted, closed      → nobody
+ *
+ * Draft items are not in play yet and are left out so the contractor's
+ * count reflects work actually started; superseded items (dropped from the
+ * specs on regeneration, submittal-register-merge.ts) are out of play too.
+ * The holder on the contractor side is lifecycleResponsibleParty; on the
+ * reviewer side lifecycleAssignedReviewer, else approvalAuthority. Names resolve to project_parties where they match
+ * (project-parties.ts); an unmatched reviewer is on the owner side when the
+ * authority reads like one (Owner, Government, Contracting Officer) and the
+ * designer side otherwise.
+ *
+ * Hold durations come from lifecycleStatusHistory: a hold starts at the
+ * transition that moved the ball to its side and ends at the transition that
+ * moved it away.
+ */
+
+import type { SubmittalRegisterItem } from './submittal-register'
+import type { SubmittalLifecycleStatus } from './submittal-lifecycle'
+import { resolveEffectiveStatus } from './submittal-lifecycle.ts'
+import { resolveParty, type PartyIndex, type PartyRole, type ProjectParty } from './project-parties.ts'
+import { isSupersededItem } from './submittal-register-merge.ts'
+
+// ── Sides ─────────────────────────────────────────────────────────────────────
+
+export type CourtSide = 'contractor' | 'designer' | 'owner'
+
+export const COURT_SIDES: CourtSide[] = ['contractor', 'designer', 'owner']
+
+export const COURT_SIDE_LABELS: Record<CourtSide, string> = {
+  contractor: 'Contractor',
+  designer:   'Designer',
+  owner:      'Owner',
+}
+
+type StatusSide = 'contractor' | 'reviewer' | null
+
+const STATUS_SIDE: Record<SubmittalLifecycleStatus, StatusSide> = {
+  draft:              null,
+  pending_submission: 'contractor',
+  submitted:          'reviewer',
+  pending_review:     'reviewer',
+  approved:           null,
+  approved_as_noted:  null,
+  revise_resubmit:    'contractor',
+  rejected:           'contractor',
+  closed:             null,
+}
+
+const ROLE_SIDE: Record<PartyRole, CourtSide> = {
+  contractor:    'contractor',
+  subcontractor: 'contractor',
+  designer:      'designer',
+  consultant:    'designer',
+  owner:         'owner',
+}
+
+const OWNER_AUTHORITY = /\b(owner|government|contracting officer|client)\b/i
+
+export interface BallInCourt {
+  side: CourtSide
+  // Resolved party, or null when the free-text name matched none.
+  party: ProjectParty | null
+  // Party name, else the free-text name, else the side label.
+  holder: string
+  // Free-text name the holder came from (null when none was recorded).
+  rawName: string | null
+}
+
+export function resolveBallInCourt(item: SubmittalRegisterItem, parties: PartyIndex): BallInCourt | null {
+  if (isSupersededItem(item)) return null
+  const statusSide = STATUS_SIDE[resolveEffectiveStatus(item)]
+  if (!statusSide) return null
+
+  if (statusSide === 'contractor') {
+    const rawName = item.lifecycleResponsibleParty?.trim() || null
+    const party = resolveParty(rawName, parties)
+    return { side: 'contractor', party, holder: party?.name ?? rawName ?? COURT_SIDE_LABELS.contractor, rawName }
+  }
+
+  const rawName = item.lifecycleAssignedReviewer?.trim() || item.approvalAuthority?.trim() || null
+  const party = resolveParty(rawName, parties)
+  // A party on the contractor side cannot hold a review — fall back to the
+  // authority reading.
+  const partySide = party ? ROLE_SIDE[party.role] : null
+  const side: CourtSide =
+    partySide && partySide !== 'contractor'
+      ? partySide
+      : OWNER_AUTHORITY.test(item.approvalAuthority ?? rawName ?? '') ? 'owner' : 'designer'
+  return { side, party, holder: party?.name ?? rawName ?? COURT_SIDE_LABELS[side], rawName }
+}
+
+// ── Holds from history ────────────────────────────────────────────────────────
+
+export interface CourtHold {
+  side: StatusSide & string         // 'contractor' | 'reviewer'
+  from: string                      // ISO timestamp
+  to: string | null                 // null while still held
+}
+
+// Consecutive transitions landing on the same side merge into one hold
+// (submitted → pending_review keeps the ball with the reviewer).
+export function holdsFromHistory(item: SubmittalRegisterItem): CourtHold[] {
+  const history = Array.isArray(item.lifecycleStatusHistory) ? item.lifecycleStatusHistory : []
+  const entries = [...history].sort((a, b) => a.changedAt.localeCompare(b.changedAt))
+  const holds: CourtHold[] = []
+  let open: CourtHold | null = null
+  for (const entry of entries) {
+    const side = STATUS_SIDE[entry.toStatus] ?? null
+    if (open && open.side === side) continue
+    if (open) {
+      open.to = entry.changedAt
+      open = null
+    }
+    if (side) {
+      open = { side, from: entry.changedAt, to: null }
+      holds.push(open)
+    }
+  }
+  return holds
+}
+
+function daysBetween(fromIso: string, toIso: string): number {
+  const ms = Date.parse(toIso) - Date.parse(fromIso)
+  return Number.isFinite(ms) ? Math.max(0, ms / 86_400_000) : 0
+}
+
+// Start of the current hold: the open hold from history, else the lifecycle
+// timestamp for items transitioned before history was kept.
+export function currentHoldStart(item: SubmittalRegisterItem): string | null {
+  const holds = holdsFromHistory(item)
+  const last = holds[holds.length - 1]
+  const statusSide = STATUS_SIDE[resolveEffectiveStatus(item)]
+  if (last && last.to === null && last.side === statusSide) return last.from
+  if (statusSide === 'reviewer') return item.lifecycleSubmittedAt ?? null
+  return null
+}
+
+// ── Dashboard ─────────────────────────────────────────────────────────────────
+
+export interface CourtItemRef {
+  itemId: string | null
+  dedupeKey: string | null
+  submittalItem: string
+  specSection: string | null
+  status: SubmittalLifecycleStatus
+  daysHeld: number | null
+}
+
+export interface PartyWorkloadRow {
+  key: string                       // party id, or `name:<normalized>` / `side:<side>`
+  holder: string
+  side: CourtSide
+  party: ProjectParty | null
+  openCount: number
+  // Over open items with a known hold start.
+  avgDaysHeld: number | null
+  oldest: CourtItemRef | null
+  // Over finished holds on this party's side for the items it holds or held.
+  avgCompletedHoldDays: number | null
+  completedHolds: number
+}
+
+export interface BallInCourtSummary {
+  rows: PartyWorkloadRow[]
+  bySide: Record<CourtSide, { openCount: number; avgDaysHeld: number | null }>
+  // Free-text names that matched no party, with how many items carry them.
+  unmatchedNames: Array<{ name: string; side: CourtSide; count: number }>
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? round1(values.reduce((a, b) => a + b, 0) / values.length) : null
+}
+
+function rowKey(court: BallInCourt): string {
+  if (court.party) return court.party.id
+  return court.rawName ? `name:${court.rawName.toLowerCase()}` : `side:${court.side}`
+}
+
+export function buildBallInCourtSummary(
+  items: SubmittalRegisterItem[],
+  parties: PartyIndex,
+  now: string
+): BallInCourtSummary {
+  type Acc = { row: PartyWorkloadRow; held: number[]; completed: number[] }
+  const accs = new Map<string, Acc>()
+  const unmatched = new Map<string, { name: string; side: CourtSide; count: number }>()
+  const sideHeld: Record<CourtSide, number[]> = { contractor: [], designer: [], owner: [] }
+  const sideOpen: Record<CourtSide, number> = { contractor: 0, designer: 0, owner: 0 }
+
+  const accFor = (court: BallInCourt): Acc => {
+    const key = rowKey(court)
+    let acc = accs.get(key)
+    if (!acc) {
+      acc = {
+        row: {
+          key,
+          holder: court.holder,
+          side: court.side,
+          party: court.party,
+          openCount: 0,
+          avgDaysHeld: null,
+          oldest: null,
+          avgCompletedHoldDays: null,
+          completedHolds: 0,
+        },
+        held: [],
+        completed: [],
+      }
+      accs.set(key, acc)
+    }
+    return acc
+  }
+
+  for (const item of items) {
+    const status = resolveEffectiveStatus(item)
+    const holds = holdsFromHistory(item)
+
+    const court = resolveBallInCourt(item, parties)
+    if (court) {
+      const acc = accFor(court)
+      const start = currentHoldStart(item)
+      const daysHeld = start ? round1(daysBetween(start, now)) : null
+      acc.row.openCount++
+      sideOpen[court.side]++
+      if (daysHeld !== null) {
+        acc.held.push(daysHeld)
+        sideHeld[court.side].push(daysHeld)
+      }
+      if (!acc.row.oldest || (daysHeld ?? -1) > (acc.row.oldest.daysHeld ?? -1)) {
+        acc.row.oldest = {
+          itemId: item.persistedItemId ?? null,
+          dedupeKey: item.dedupeKey ?? null,
+          submittalItem: item.submittalItem,
+          specSection: item.specSection,
+          status,
+          daysHeld,
+        }
+      }
+      if (!court.party && court.rawName) {
+        const key = `${court.side}:${court.rawName.toLowerCase()}`
+        const entry = unmatched.get(key) ?? { name: court.rawName, side: court.side, count: 0 }
+        entry.count++
+        unmatched.set(key, entry)
+      }
+    }
+
+    // Finished holds are attributed to the item's party on that side as it
+    // stands now — history does not record who held the ball at the time.
+    for (const hold of holds) {
+      if (!hold.to) continue
+      const asIfStatus: SubmittalLifecycleStatus = hold.side === 'reviewer' ? 'pending_review' : 'revise_resubmit'
+      const holder = resolveBallInCourt({ ...item, lifecycleStatus: asIfStatus, artifactReviewStatus: undefined }, parties)
+      if (!holder) continue
+      accFor(holder).completed.push(daysBetween(hold.from, hold.to))
+    }
+  }
+
+  const rows = [...accs.values()]
+    .map(({ row, held, completed }) => ({
+      ...row,
+      avgDaysHeld: mean(held),
+      avgCompletedHoldDays: mean(completed),
+      completedHolds: completed.length,
+    }))
+    .sort(
+      (a, b) =>
+        b.openCount - a.openCount ||
+        (b.oldest?.daysHeld ?? -1) - (a.oldest?.daysHeld ?? -1) ||
+        a.holder.localeCompare(b.holder)
+    )
+
+  return {
+    rows,
+    bySide: {
+      contractor: { openCount: sideOpen.contractor, avgDaysHeld: mean(sideHeld.contractor) },
+      designer:   { openCount: sideOpen.designer,   avgDaysHeld: mean(sideHeld.designer) },
+      owner:      { openCount: sideOpen.owner,      avgDaysHeld: mean(sideHeld.owner) },
+    },
+    unmatchedNames: [...unmatched.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+  }
+}
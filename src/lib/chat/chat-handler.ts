@@ -176,6 +176,7 @@ function buildAgentSystemPrompt(
     '7. Cite your sources: sheet numbers, spec sections, RFI numbers.',
     '8. If information genuinely does not exist in the project documents, say so clearly.',
     '9. Be direct and specific. Construction decisions depend on accurate answers.',
+    '10. Drawing and spec lookups return the current conformed set; superseded revisions are excluded. Use compareRevisions for what changed between revisions of a sheet or spec section.',
     '',
   )
 
@@ -195,6 +196,10 @@ function buildAgentSystemPrompt(
     appendSubmittalRegisterPrompt(lines)
   }
 
+  if (retrievalStrategy?.taskType === 'schedule_question') {
+    appendScheduleQuestionPrompt(lines)
+  }
+
   return lines.join('\n')
 }
 
@@ -229,6 +234,19 @@ function appendSubmittalRegisterPrompt(lines: string[]): void {
   )
 }
 
+function appendScheduleQuestionPrompt(lines: string[]): void {
+  lines.push(
+    'Schedule question workflow:',
+    '1. Start with queryScheduleActivities. Filter by name, WBS, date window, critical flag, or responsible party rather than searching documents for schedule dates.',
+    '2. For sequencing questions, follow the predecessors/successors it returns with further queryScheduleActivities calls by activity code.',
+    '3. Cite the schedule version (number and data date) the tool reports. Dates change between schedule updates.',
+    '4. When linked submittals are shown as late or at risk, call that out alongside the activity dates.',
+    '5. For "what is blocking" / "what is holding up" questions, call queryEntityGraph with mode "blockers" on the activity; it walks submittal → feature of work → activity links and predecessor ties.',
+    '6. If no schedule has been imported, say so, then fall back to searchEntities for schedule narratives or lookaheads in project documents.',
+    '',
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Shared helper
 // ---------------------------------------------------------------------------
@@ -0,0 +1,49 @@
+/**
+ * Entity Graph Queries
+ *
+ * DB query layer behind the queryEntityGraph chat tool. Loads the project
+ * graph (src/lib/graph/entity-graph-read.ts) and hands it to the pure
+ * resolver/traversal in src/lib/graph/entity-graph.ts.
+ *
+ * Answers come from explicit relations — entity_relationships, FOW links,
+ * schedule links and logic ties — never from embeddings, and name the
+ * schedule version read when one was joined.
+ */
+
+import { loadProjectGraph } from '../graph/entity-graph-read'
+import {
+  formatGraphQueryAnswer,
+  runGraphQuery,
+  type GraphQuery,
+  type GraphQueryResult,
+} from '../graph/entity-graph'
+import { formatScheduleVersionCitation } from '../schedule/schedule-query'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClient = any
+
+export interface EntityGraphQueryResponse {
+  found: boolean
+  result: GraphQueryResult | null
+  formattedAnswer: string
+}
+
+export async function queryEntityGraph(
+  supabase: SupabaseClient,
+  projectId: string,
+  query: GraphQuery
+): Promise<EntityGraphQueryResponse> {
+  const loaded = await loadProjectGraph(supabase, projectId)
+  if (loaded.status === 'error') {
+    console.error('[EntityGraphQueries] Graph load failed:', loaded.error)
+    return { found: false, result: null, formattedAnswer: 'Project relationship data could not be loaded.' }
+  }
+
+  const result = runGraphQuery(loaded.graph, query)
+  const citation = loaded.scheduleVersion ? formatScheduleVersionCitation(loaded.scheduleVersion) : null
+  return {
+    found: result.start !== null && result.paths.length > 0,
+    result,
+    formattedAnswer: formatGraphQueryAnswer(result, citation),
+  }
+}
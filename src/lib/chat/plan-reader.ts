@@ -573,6 +573,7 @@ async function findPageRows(
       .select('id, document_id, page_number, sheet_number, sheet_title, has_plan_view, has_profile_view')
       .in('document_id', docIds)
       .in('sheet_number', normalizedSheets)
+      .is('superseded_by_page_id', null)
       .order('page_number', { ascending: true })
 
     if (error) {
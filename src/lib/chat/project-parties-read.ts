@@ -0,0 +1,24 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import {
+  rowToProjectParty,
+  type ProjectParty,
+  type ProjectPartyRow,
+} from './project-parties'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+export const PROJECT_PARTY_COLUMNS = 'id, name, role, organization, email, aliases'
+
+// Parties for a project, by name. A project has a handful of parties.
+export async function loadProjectParties(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ parties: ProjectParty[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('project_parties')
+    .select(PROJECT_PARTY_COLUMNS)
+    .eq('project_id', projectId)
+    .order('name', { ascending: true })
+  if (error) return { parties: [], error: error.message }
+  return { parties: ((data ?? []) as ProjectPartyRow[]).map(rowToProjectParty), error: null }
+}
@@ -0,0 +1,100 @@
+/**
+ * project-parties.ts
+ *
+ * Normalized party records (project_parties) and resolution of the free-text
+ * party names on register items — lifecycleResponsibleParty,
+ * lifecycleAssignedReviewer, approvalAuthority — onto them. Matching is on
+ * name or alias after normalizePartyName(), so "Smith Arch." and
+ * "smith arch" resolve to the same party.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type PartyRole = 'contractor' | 'subcontractor' | 'designer' | 'consultant' | 'owner'
+
+export const PARTY_ROLES: PartyRole[] = ['contractor', 'subcontractor', 'designer', 'consultant', 'owner']
+
+export const PARTY_ROLE_LABELS: Record<PartyRole, string> = {
+  contractor:    'Contractor',
+  subcontractor: 'Subcontractor',
+  designer:      'Designer',
+  consultant:    'Consultant',
+  owner:         'Owner',
+}
+
+export interface ProjectParty {
+  id: string
+  name: string
+  role: PartyRole
+  organization: string | null
+  email: string | null
+  aliases: string[]
+}
+
+export interface ProjectPartyRow {
+  id: string
+  name: string
+  role: string
+  organization: string | null
+  email: string | null
+  aliases: string[] | null
+}
+
+export function rowToProjectParty(row: ProjectPartyRow): ProjectParty {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role as PartyRole,
+    organization: row.organization,
+    email: row.email,
+    aliases: row.aliases ?? [],
+  }
+}
+
+// ── Resolution ────────────────────────────────────────────────────────────────
+
+// Lowercase, punctuation to spaces, collapsed whitespace.
+export function normalizePartyName(name: string | null | undefined): string {
+  return (name ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export type PartyIndex = Map<string, ProjectParty>
+
+// Name and aliases → party. The first party wins on a clash.
+export function buildPartyIndex(parties: ProjectParty[]): PartyIndex {
+  const index: PartyIndex = new Map()
+  for (const party of parties) {
+    for (const name of [party.name, ...party.aliases]) {
+      const key = normalizePartyName(name)
+      if (key && !index.has(key)) index.set(key, party)
+    }
+  }
+  return index
+}
+
+export function resolveParty(name: string | null | undefined, index: PartyIndex): ProjectParty | null {
+  const key = normalizePartyName(name)
+  return key ? index.get(key) ?? null : null
+}
+
+// Unique alias list, dropping blanks and anything that normalizes to the
+// party's own name.
+export function cleanAliases(name: string, aliases: unknown): string[] {
+  if (!Array.isArray(aliases)) return []
+  const own = normalizePartyName(name)
+  const seen = new Set<string>([own])
+  const out: string[] = []
+  for (const alias of aliases) {
+    if (typeof alias !== 'string') continue
+    const trimmed = alias.trim()
+    const key = normalizePartyName(trimmed)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    out.push(trimmed)
+  }
+  return out
+}
@@ -101,6 +101,11 @@ export interface QueryClassification {
   rfiNumber?: string;      // RFI/change doc identifier, e.g. "RFI-023"
   changeDocType?: 'rfi' | 'asi' | 'bulletin' | 'addendum';
 
+  // Revision comparison extras — "what changed between Rev 2 and Rev 3 of C-101"
+  revisionRef?: string;    // Sheet number or spec section, e.g. "C-101", "03 30 00"
+  fromRevision?: string;   // Older revision label, e.g. "2"
+  toRevision?: string;     // Newer revision label, e.g. "3"
+
   // Submittal / governing routing extras (Phase 6C)
   submittalId?: string;    // Submittal identifier, e.g. "03-01"
   governingDocScope?: string; // Scope description for governing doc query
@@ -715,6 +720,9 @@ const CHANGE_IMPACT_PATTERNS = [
   /what\s+(?:was|were)\s+(?:revised|changed|updated|superseded)\b/i,
   /\b(?:change\s+order|addendum|bulletin|asi)\b.{0,40}(?:what|which)\b/i,
   /what\s+(?:clarification|change)\s+(?:applies?|governs?|affects?)\b/i,
+  /what\s+changed\s+between\s+rev(?:ision)?\b/i,
+  /\brev(?:ision)?\s*[a-z0-9]+\s+(?:and|to|vs\.?)\s+rev(?:ision)?\s*[a-z0-9]+\s+of\b/i,
+  /what\s+changed\s+(?:on|in)\s+(?:sheet\s+)?[a-z]{1,3}-?\d{1,4}(?:\.\d+)?\b/i,
 ]
 
 const SUBMITTAL_LOOKUP_PATTERNS = [
@@ -788,6 +796,28 @@ function extractRFINumber(query: string): string | null {
   return null
 }
 
+/**
+ * Extract the sheet or spec section and revision labels from a revision
+ * comparison query: "what changed between Rev 2 and Rev 3 of C-101",
+ * "what changed on A-201", "Rev B vs Rev C of 03 30 00".
+ */
+function extractRevisionComparison(
+  query: string
+): { revisionRef?: string; fromRevision?: string; toRevision?: string } {
+  const pair = query.match(
+    /\brev(?:ision)?\.?\s*([a-z0-9]+)\s+(?:and|to|vs\.?)\s+rev(?:ision)?\.?\s*([a-z0-9]+)\b/i
+  )
+  const ref =
+    query.match(/\b(?:of|on|in|for)\s+(?:section\s+)?(\d{2}\s?\d{2}\s?\d{2}(?:\.\d+)?)\b/i) ??
+    query.match(/\b(?:of|on|in|for)\s+(?:sheet\s+)?(?!rfi|asi)([a-z]{1,3}-?\d{1,4}(?:\.\d+)?)\b/i)
+  if (!ref && !pair) return {}
+  return {
+    revisionRef:  ref?.[1].toUpperCase(),
+    fromRevision: pair?.[1].toUpperCase(),
+    toRevision:   pair?.[2].toUpperCase(),
+  }
+}
+
 function extractChangeDocType(
   query: string
 ): 'rfi' | 'asi' | 'bulletin' | 'addendum' | null {
@@ -1429,6 +1459,7 @@ export function classifyQuery(query: string): QueryClassification {
       confidence: 0.85,
       rfiNumber:     extractRFINumber(query) ?? undefined,
       changeDocType: extractChangeDocType(query) ?? undefined,
+      ...extractRevisionComparison(query),
       needsDirectLookup: false,
       needsVectorSearch: true,
       needsVision: false,
@@ -70,6 +70,7 @@ import {
   queryRFIsByEntity,
   queryRecentChanges,
 } from './rfi-queries'
+import { queryRevisionComparison } from './revision-queries'
 import {
   querySubmittalByEntity,
   resolveGoverningDocument,
@@ -754,6 +755,7 @@ async function attemptPhase6GraphLookup(
 ): Promise<EvidenceItem | null> {
   const rfiNumber        = analysis._routing?.rfiNumber        ?? null
   const changeDocType    = analysis._routing?.changeDocType    ?? null
+  const revisionRef      = analysis._routing?.revisionRef      ?? null
   const submittalId      = analysis._routing?.submittalId      ?? null
   const governingScope   = analysis._routing?.governingDocScope ?? analysis.rawQuery
 
@@ -824,6 +826,23 @@ async function attemptPhase6GraphLookup(
       return null
     }
 
+    // change_impact_lookup — revision comparison when a sheet or section is named
+    if (revisionRef) {
+      const result = await queryRevisionComparison(supabase, projectId, {
+        ref:          revisionRef,
+        fromRevision: analysis._routing?.fromRevision ?? null,
+        toRevision:   analysis._routing?.toRevision   ?? null,
+      })
+      if (result.found) {
+        return {
+          source:     'vision_db',
+          content:    result.formattedAnswer,
+          confidence: 0.9,
+          rawData:    result,
+        }
+      }
+    }
+
     // change_impact_lookup — all changes, optionally filtered by type
     const result = await queryRecentChanges(
       supabase,
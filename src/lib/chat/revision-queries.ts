@@ -0,0 +1,110 @@
+/**
+ * Revision Queries
+ *
+ * DB query layer behind the compareRevisions chat tool — "what changed between
+ * Rev 2 and Rev 3 of C-101". Loads the sheet's or spec section's supersession
+ * chain from document_pages (superseded pages included) and hands the two
+ * revisions to the pure diff in src/lib/documents/conformed-set.ts.
+ *
+ * Everything else in chat reads the conformed set only; this is the one path
+ * that reads superseded revisions. For sheets, the stored visual diff's change
+ * list (sheet_revision_diffs) is appended when the two revisions are adjacent.
+ */
+
+import { loadRevisionChain } from '../documents/conformed-set-persistence'
+import { loadSheetDiffsForPages } from '../documents/sheet-diff-persistence'
+import { countUncloudedChanges, formatSheetChanges } from '../documents/sheet-diff'
+import {
+  diffRevisions,
+  formatRevisionComparison,
+  selectRevisionPair,
+  type RevisionTarget,
+} from '../documents/conformed-set'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClient = any
+
+export interface RevisionComparisonLookup {
+  // Sheet number or spec section, e.g. 'C-101', '03 30 00'.
+  ref: string
+  fromRevision?: string | null
+  toRevision?: string | null
+}
+
+export interface RevisionQueryResponse {
+  found: boolean
+  formattedAnswer: string
+}
+
+// '03 30 00', '033000', '03 30 00.13' are spec sections; anything else is a sheet.
+function revisionTargetFor(ref: string): RevisionTarget {
+  return /^\s*\d{2}\s?\d{2}\s?\d{2}(?:\.\d+)?\s*$/.test(ref)
+    ? { targetType: 'spec_section', targetRef: ref.trim() }
+    : { targetType: 'sheet', targetRef: ref.trim() }
+}
+
+export async function queryRevisionComparison(
+  supabase: SupabaseClient,
+  projectId: string,
+  lookup: RevisionComparisonLookup
+): Promise<RevisionQueryResponse> {
+  const target = revisionTargetFor(lookup.ref)
+  const { chain, error } = await loadRevisionChain(supabase, projectId, target)
+  if (error) {
+    console.error('[RevisionQueries] Revision chain load failed:', error)
+    return { found: false, formattedAnswer: 'Revision history could not be loaded.' }
+  }
+  if (chain.length === 0) {
+    return {
+      found: false,
+      formattedAnswer: `No indexed pages found for ${target.targetType === 'sheet' ? 'sheet' : 'spec section'} ${target.targetRef}.`,
+    }
+  }
+
+  const pair = selectRevisionPair(chain, lookup.fromRevision, lookup.toRevision)
+  if ('error' in pair) {
+    return {
+      found: false,
+      formattedAnswer: `${target.targetRef}: ${pair.error} Revision history: ${chain.map(e => e.revision).join(' → ')}.`,
+    }
+  }
+
+  const answer = formatRevisionComparison(
+    target.targetRef,
+    chain,
+    pair.from,
+    pair.to,
+    diffRevisions(pair.from, pair.to)
+  )
+  const visual = target.targetType === 'sheet'
+    ? await visualChangeLines(supabase, pair.from.pages.map(p => p.pageId), pair.to.pages.map(p => p.pageId))
+    : []
+
+  return {
+    found: true,
+    formattedAnswer: visual.length > 0 ? `${answer}\n\n${visual.join('\n')}` : answer,
+  }
+}
+
+// Change list of the stored visual diff between these exact pages, if any.
+async function visualChangeLines(
+  supabase: SupabaseClient,
+  fromPageIds: string[],
+  toPageIds: string[]
+): Promise<string[]> {
+  const { diffs, error } = await loadSheetDiffsForPages(supabase, toPageIds)
+  if (error) {
+    console.error('[RevisionQueries] Sheet diff load failed:', error)
+    return []
+  }
+  const changes = diffs
+    .filter(d => d.status === 'completed' && fromPageIds.includes(d.previousPageId))
+    .flatMap(d => d.changes)
+  if (changes.length === 0) return []
+
+  const unclouded = countUncloudedChanges(changes)
+  return [
+    `Visual changes on the sheet (${changes.length}${unclouded > 0 ? `, ${unclouded} not clouded by the designer` : ''}):`,
+    ...formatSheetChanges(changes).map(line => `  ${line}`),
+  ]
+}
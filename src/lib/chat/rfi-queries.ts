@@ -7,6 +7,7 @@
  *   queryRFIByNumber()    — look up a specific RFI/ASI/Addendum by identifier
  *   queryRFIsByEntity()   — find change docs linked to a drawing entity/tag
  *   queryRecentChanges()  — all change docs for a project, optionally filtered
+ *   queryOpenChanges()    — every open (unanswered) change doc, no row cap
  *   formatRFIAnswer()     — format for response-writer context
  *
  * Design rules:
@@ -200,6 +201,58 @@ export async function queryRecentChanges(
   }
 }
 
+/**
+ * Return every open change document (status='new') for a project.
+ * Unlike queryRecentChanges there is no 50-row cap — look-ahead planning
+ * needs the complete open set.
+ */
+export async function queryOpenChanges(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<RFIQueryResult> {
+  const empty = buildEmptyResult(projectId, 'recent_changes', null, null)
+  const pageSize = 1000
+
+  try {
+    const rows: unknown[] = []
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await (supabase as SupabaseClient)
+        .from('project_entities')
+        .select(`
+          id, entity_type, subtype, canonical_name, display_name, label,
+          status, confidence, metadata,
+          entity_citations ( sheet_number, document_id ),
+          entity_findings!entity_findings_entity_id_fkey (
+            id, finding_type, statement, support_level, text_value, metadata
+          ),
+          entity_relationships_from: entity_relationships!entity_relationships_from_entity_id_fkey (
+            id, relationship_type, to_entity_id, metadata
+          )
+        `)
+        .eq('project_id', projectId)
+        .eq('discipline', 'rfi')
+        .eq('status', 'new')
+        .order('label')
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        console.error('[RFIQueries] queryOpenChanges error:', error.message)
+        return empty
+      }
+      rows.push(...(data ?? []))
+      if (!data || data.length < pageSize) break
+    }
+
+    if (rows.length === 0) return empty
+
+    const entities = rows.map((r: unknown) => hydrateRFIEntity(r))
+    return buildQueryResult(projectId, 'recent_changes', null, null, entities)
+  } catch (err) {
+    console.error('[RFIQueries] queryOpenChanges error:', err)
+    return empty
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Formatting
 // ---------------------------------------------------------------------------
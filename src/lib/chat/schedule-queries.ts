@@ -0,0 +1,87 @@
+/**
+ * Schedule Queries
+ *
+ * DB query layer behind the queryScheduleActivities chat tool. Loads one
+ * imported schedule version (latest by default) plus the latest submittal
+ * register run, then hands both to the pure filter/formatter in
+ * src/lib/schedule/schedule-query.ts.
+ *
+ * Every answer names the schedule version it read from so the agent can cite
+ * it; activity dates differ between updates.
+ */
+
+import { loadLatestSubmittalRegisterRun } from './submittal-register-read'
+import type { SubmittalRegisterItem } from './submittal-register'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '../schedule/schedule-read'
+import {
+  formatScheduleActivityAnswer,
+  queryScheduleSnapshot,
+  type ScheduleActivityQuery,
+  type ScheduleActivityQueryResult,
+} from '../schedule/schedule-query'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClient = any
+
+export interface ScheduleActivityLookup extends ScheduleActivityQuery {
+  /** schedule_versions.version_number — defaults to the newest version. */
+  versionNumber?: number | null
+}
+
+export interface ScheduleQueryResponse {
+  found: boolean
+  result: ScheduleActivityQueryResult | null
+  formattedAnswer: string
+}
+
+export async function queryScheduleActivities(
+  supabase: SupabaseClient,
+  projectId: string,
+  lookup: ScheduleActivityLookup
+): Promise<ScheduleQueryResponse> {
+  const { versions, error } = await listScheduleVersions(supabase, projectId)
+  if (error) {
+    console.error('[ScheduleQueries] schedule_versions query failed:', error)
+    return { found: false, result: null, formattedAnswer: 'Schedule data could not be loaded.' }
+  }
+  if (versions.length === 0) {
+    return {
+      found: false,
+      result: null,
+      formattedAnswer:
+        'No schedule has been imported for this project. A P6 (.xer) or MS Project (.xml) export must be uploaded as a schedule document first.',
+    }
+  }
+
+  const version =
+    lookup.versionNumber != null
+      ? versions.find(v => v.versionNumber === lookup.versionNumber)
+      : versions[0]
+  if (!version) {
+    const available = versions.map(v => `v${v.versionNumber}`).join(', ')
+    return {
+      found: false,
+      result: null,
+      formattedAnswer: `Schedule version ${lookup.versionNumber} not found. Available versions: ${available}.`,
+    }
+  }
+
+  const loaded = await loadScheduleVersionSnapshot(supabase, projectId, version.id)
+  if (loaded.status !== 'found') {
+    if (loaded.status === 'error') console.error('[ScheduleQueries] Snapshot load failed:', loaded.error)
+    return { found: false, result: null, formattedAnswer: 'Schedule activities could not be loaded.' }
+  }
+
+  // Linked submittals are context, not the answer — a register failure only drops them.
+  let submittals: SubmittalRegisterItem[] = []
+  const register = await loadLatestSubmittalRegisterRun(supabase, projectId)
+  if (register.status === 'found') submittals = register.run.items
+  else if (register.status === 'error') console.warn('[ScheduleQueries] Register load failed:', register.error)
+
+  const result = queryScheduleSnapshot(loaded.snapshot, lookup, submittals)
+  return {
+    found: result.totalMatches > 0,
+    result,
+    formattedAnswer: formatScheduleActivityAnswer(result),
+  }
+}
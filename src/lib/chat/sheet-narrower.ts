@@ -588,6 +588,7 @@ async function queryByTitleKeyword(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .not('sheet_title', 'is', null)
       .or(orClauses)
       .limit(100)
@@ -664,6 +665,7 @@ async function queryByStationOverlap(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title, station_start, station_end, station_start_numeric, station_end_numeric')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .eq('has_stations', true)
       .lte('station_start_numeric', stationNumeric)
       .gte('station_end_numeric', stationNumeric)
@@ -696,6 +698,7 @@ async function queryByDiscipline(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title, disciplines')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .contains('disciplines', [discipline])
       .limit(150)
 
@@ -732,6 +735,7 @@ async function queryByTextKeyword(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .not('text_content', 'is', null)
       .or(orClauses)
       .limit(50)
@@ -765,6 +769,7 @@ async function queryBySheetType(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title, sheet_type')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .in('sheet_type', preferredTypes)
       .limit(50)
 
@@ -859,6 +864,7 @@ async function expandByReferences(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .in('sheet_number', [...referencedSheets])
       .limit(20)
 
@@ -929,6 +935,7 @@ async function findMatchLineCandidates(
             .from('document_pages')
             .select('document_id, page_number, sheet_number, sheet_title')
             .eq('project_id', projectId)
+            .is('superseded_by_page_id', null)
             .eq('has_stations', true)
             .lte('station_start_numeric', midStation)
             .gte('station_end_numeric', midStation)
@@ -979,6 +986,7 @@ async function findScheduleCompanions(
       .from('document_pages')
       .select('document_id, page_number, sheet_number, sheet_title, sheet_type')
       .eq('project_id', projectId)
+      .is('superseded_by_page_id', null)
       .in('sheet_type', companionTypes)
       .limit(10)
 
@@ -0,0 +1,271 @@
+/**
+ * submittal-lifecycle-apply.ts
+ *
+ * Applies lifecycle transitions to a submittal_register_items item_payload:
+ * history entry, lifecycle timestamps, revision chain
+ * (submittal-revisions.ts) and, on → submitted, the contract review due date
+ * (submittal-sla.ts). Shared by POST /submittal-register/lifecycle (one item,
+ * one step) and POST /submittal-register/lifecycle/bulk (many items, walking
+ * the shortest legal path to a common target).
+ *
+ * Pure: no DB access. Callers load payloads, sibling submittal numbers and
+ * the SLA config, and write the returned payloads.
+ */
+
+import {
+  buildTransition,
+  findTransitionPath,
+  STATUS_LABELS,
+  timestampFieldForStatus,
+  type LifecycleHistoryEntry,
+  type SubmittalLifecycleStatus,
+} from './submittal-lifecycle.ts'
+import {
+  applyLifecycleToRevisions,
+  isRevisionDisposition,
+  nextSubmittalBaseNumber,
+  type SubmittalRevision,
+} from './submittal-revisions.ts'
+import { computeReviewDueDate, resolveReviewPeriod, type SubmittalSlaConfig } from './submittal-sla.ts'
+
+type ItemPayload = Record<string, unknown>
+
+// ── Single step ───────────────────────────────────────────────────────────────
+
+export interface LifecycleStepContext {
+  by?: string
+  note?: string
+  // When the step happened, for steps recorded after the fact (a log import).
+  // Stamps the lifecycle timestamp, the revision and the SLA due date; the
+  // history entry keeps when it was recorded. Defaults to now.
+  at?: string
+  packageReference?: string | null
+  // Review due date for → submitted: a string or null overrides the SLA;
+  // undefined computes it from slaConfig (no due date when that is null too).
+  reviewDueDate?: string | null
+  slaConfig?: SubmittalSlaConfig | null
+  // Base submittal number to issue when the item has none yet.
+  nextBaseNumber?: string
+}
+
+export type LifecycleStepResult =
+  | {
+      ok: true
+      payload: ItemPayload
+      entry: LifecycleHistoryEntry
+      timestampField: ReturnType<typeof timestampFieldForStatus>
+      revisionsChanged: boolean
+    }
+  | { ok: false; error: string }
+
+// Whether → toStatus would issue a base submittal number for this payload.
+export function needsBaseNumber(payload: ItemPayload, toStatus: SubmittalLifecycleStatus): boolean {
+  return !payload.submittalNumber && (toStatus === 'submitted' || isRevisionDisposition(toStatus))
+}
+
+export function applyLifecycleStep(
+  payload: ItemPayload,
+  toStatus: SubmittalLifecycleStatus,
+  ctx: LifecycleStepContext
+): LifecycleStepResult {
+  const fromStatus = (payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
+  const result = buildTransition(fromStatus, toStatus, ctx.by, ctx.note)
+  if (!result.ok) return result
+
+  const history: LifecycleHistoryEntry[] = Array.isArray(payload.lifecycleStatusHistory)
+    ? (payload.lifecycleStatusHistory as LifecycleHistoryEntry[])
+    : []
+
+  const updated: ItemPayload = {
+    ...payload,
+    lifecycleStatus: toStatus,
+    lifecycleStatusHistory: [...history, result.entry],
+  }
+
+  const at = ctx.at ?? result.entry.changedAt
+
+  // Set lifecycle timestamps for key transitions
+  const timestampField = timestampFieldForStatus(toStatus)
+  if (timestampField) updated[timestampField] = at
+
+  // Contract review period — a new review cycle gets its due date from the SLA
+  // unless the caller supplies one.
+  let reviewDueDate: string | null = null
+  if (toStatus === 'submitted') {
+    if (ctx.reviewDueDate !== undefined) {
+      reviewDueDate = ctx.reviewDueDate
+    } else if (ctx.slaConfig) {
+      reviewDueDate = computeReviewDueDate(
+        at,
+        resolveReviewPeriod(ctx.slaConfig, payload.approvalAuthority as string | null | undefined),
+        ctx.slaConfig
+      )
+      updated.lifecycleDueDate = reviewDueDate
+    }
+  }
+
+  // Revision chain — a base number is only needed the first time through.
+  const revisionUpdate = applyLifecycleToRevisions(
+    {
+      submittalNumber: payload.submittalNumber as string | null | undefined,
+      revisions: payload.revisions as SubmittalRevision[] | undefined,
+      lifecycleSubmittedAt: payload.lifecycleSubmittedAt as string | null | undefined,
+    },
+    toStatus,
+    {
+      at,
+      by: ctx.by,
+      note: ctx.note,
+      packageReference: ctx.packageReference ?? null,
+      nextBaseNumber: ctx.nextBaseNumber,
+      reviewDueDate,
+    }
+  )
+  if (revisionUpdate && 'error' in revisionUpdate) return { ok: false, error: revisionUpdate.error }
+  if (revisionUpdate) {
+    updated.submittalNumber = revisionUpdate.submittalNumber
+    updated.revisions = revisionUpdate.revisions
+  }
+
+  return { ok: true, payload: updated, entry: result.entry, timestampField, revisionsChanged: revisionUpdate !== null }
+}
+
+// ── Bulk ──────────────────────────────────────────────────────────────────────
+
+export interface BulkTransitionCandidate {
+  itemId: string
+  workflowRunId: string
+  specSection: string | null
+  payload: ItemPayload
+  // Row review_status. A superseded item (dropped from the specs on
+  // regeneration, submittal-register-merge.ts) is blocked.
+  reviewStatus?: string | null
+}
+
+export type BulkTransitionOutcome = 'move' | 'unchanged' | 'blocked'
+
+export interface BulkTransitionPreview {
+  itemId: string
+  submittalItem: string
+  fromStatus: SubmittalLifecycleStatus
+  toStatus: SubmittalLifecycleStatus
+  // Statuses stepped through, excluding fromStatus, including toStatus.
+  path: SubmittalLifecycleStatus[]
+  outcome: BulkTransitionOutcome
+  reason: string | null
+  // Base submittal number the item would be issued (first submission only).
+  issuesSubmittalNumber: string | null
+}
+
+export interface BulkTransitionPlan {
+  toStatus: SubmittalLifecycleStatus
+  entries: BulkTransitionPreview[]
+  // Updated payloads for the items that move, keyed by item id.
+  payloads: Map<string, ItemPayload>
+  counts: Record<BulkTransitionOutcome, number>
+}
+
+export interface BulkTransitionContext {
+  by?: string
+  note?: string
+  slaConfig?: SubmittalSlaConfig | null
+  // Base submittal numbers already issued, per workflow run.
+  issuedNumbersByRun: Map<string, Array<string | null>>
+}
+
+// Walks every candidate to toStatus along the shortest legal path. An item is
+// blocked when no path exists, when the path would record a review outcome or
+// close-out the caller did not ask for, or when a step fails. Base numbers
+// issued to earlier candidates are visible to later ones, so a batch of first
+// submissions in one section numbers consecutively.
+export function planBulkTransition(
+  candidates: BulkTransitionCandidate[],
+  toStatus: SubmittalLifecycleStatus,
+  ctx: BulkTransitionContext
+): BulkTransitionPlan {
+  const entries: BulkTransitionPreview[] = []
+  const payloads = new Map<string, ItemPayload>()
+  const counts: Record<BulkTransitionOutcome, number> = { move: 0, unchanged: 0, blocked: 0 }
+
+  for (const candidate of candidates) {
+    const fromStatus = (candidate.payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
+    const base = {
+      itemId: candidate.itemId,
+      submittalItem: String(candidate.payload.submittalItem ?? ''),
+      fromStatus,
+      toStatus,
+    }
+    const push = (entry: BulkTransitionPreview) => {
+      entries.push(entry)
+      counts[entry.outcome]++
+    }
+
+    if (candidate.reviewStatus === 'superseded') {
+      push({
+        ...base,
+        path: [],
+        outcome: 'blocked',
+        reason: 'Superseded — no longer in the specs',
+        issuesSubmittalNumber: null,
+      })
+      continue
+    }
+
+    const path = findTransitionPath(fromStatus, toStatus)
+    if (path === null) {
+      push({
+        ...base,
+        path: [],
+        outcome: 'blocked',
+        reason: `No legal path from ${STATUS_LABELS[fromStatus]} to ${STATUS_LABELS[toStatus]}`,
+        issuesSubmittalNumber: null,
+      })
+      continue
+    }
+    if (path.length === 0) {
+      push({ ...base, path, outcome: 'unchanged', reason: `Already ${STATUS_LABELS[toStatus]}`, issuesSubmittalNumber: null })
+      continue
+    }
+    const implied = path.slice(0, -1).find(s => isRevisionDisposition(s) || s === 'closed')
+    if (implied) {
+      push({
+        ...base,
+        path,
+        outcome: 'blocked',
+        reason: `Would record ${STATUS_LABELS[implied]} on the way — transition this item on its own`,
+        issuesSubmittalNumber: null,
+      })
+      continue
+    }
+
+    const issued = ctx.issuedNumbersByRun.get(candidate.workflowRunId) ?? []
+    const issuedNumber = path.some(step => needsBaseNumber(candidate.payload, step))
+      ? nextSubmittalBaseNumber(candidate.specSection, issued)
+      : null
+    let payload = candidate.payload
+    let error: string | null = null
+    for (const step of path) {
+      const result = applyLifecycleStep(payload, step, {
+        by: ctx.by,
+        note: ctx.note,
+        slaConfig: ctx.slaConfig,
+        nextBaseNumber: issuedNumber ?? undefined,
+      })
+      if (!result.ok) {
+        error = result.error
+        break
+      }
+      payload = result.payload
+    }
+    if (error) {
+      push({ ...base, path, outcome: 'blocked', reason: error, issuesSubmittalNumber: null })
+      continue
+    }
+
+    if (issuedNumber) ctx.issuedNumbersByRun.set(candidate.workflowRunId, [...issued, issuedNumber])
+    payloads.set(candidate.itemId, payload)
+    push({ ...base, path, outcome: 'move', reason: null, issuesSubmittalNumber: issuedNumber })
+  }
+
+  return { toStatus, entries, payloads, counts }
+}
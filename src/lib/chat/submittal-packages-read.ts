@@ -0,0 +1,41 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import {
+  rowToSubmittalPackage,
+  type SubmittalPackage,
+  type SubmittalPackageRow,
+} from './submittal-packages'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+export const SUBMITTAL_PACKAGE_COLUMNS =
+  'id, package_number, title, spec_section, purpose, item_dedupe_keys, status, status_history, to_party, from_party, due_date, transmitted_at, returned_at, remarks, created_at'
+
+// Packages for a project, oldest first. Projects carry tens of packages, not
+// thousands, so a single page is enough.
+export async function loadSubmittalPackages(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ packages: SubmittalPackage[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('submittal_packages')
+    .select(SUBMITTAL_PACKAGE_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+  if (error) return { packages: [], error: error.message }
+  return { packages: ((data ?? []) as SubmittalPackageRow[]).map(rowToSubmittalPackage), error: null }
+}
+
+export async function loadSubmittalPackage(
+  supabase: ServiceClient,
+  projectId: string,
+  packageId: string
+): Promise<{ pkg: SubmittalPackage | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('submittal_packages')
+    .select(SUBMITTAL_PACKAGE_COLUMNS)
+    .eq('id', packageId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+  if (error) return { pkg: null, error: error.message }
+  return { pkg: data ? rowToSubmittalPackage(data as SubmittalPackageRow) : null, error: null }
+}
@@ -0,0 +1,331 @@
+/**
+ * submittal-packages.ts
+ *
+ * Submittal packages: register items grouped under one cover transmittal.
+ * Packages have their own lifecycle (draft → transmitted → returned → closed)
+ * alongside the item lifecycle in submittal-lifecycle.ts — transmitting a
+ * package does not move its items; the package rollup reports where the
+ * items stand.
+ *
+ * Members are referenced by register dedupeKey so a package carries across
+ * register runs. buildTransmittal() turns a package plus the latest register
+ * items into the flat document model rendered by
+ * src/lib/export/transmittal-export.ts.
+ */
+
+import type { SubmittalRegisterItem } from './submittal-register'
+import {
+  resolveEffectiveStatus,
+  STATUS_LABELS,
+  type SubmittalLifecycleStatus,
+} from './submittal-lifecycle.ts'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type SubmittalPackageStatus = 'draft' | 'transmitted' | 'returned' | 'closed'
+
+export const PACKAGE_STATUSES: SubmittalPackageStatus[] = ['draft', 'transmitted', 'returned', 'closed']
+
+export type SubmittalPackagePurpose = 'for_approval' | 'for_review' | 'for_information' | 'for_record'
+
+export const PACKAGE_PURPOSES: SubmittalPackagePurpose[] = [
+  'for_approval',
+  'for_review',
+  'for_information',
+  'for_record',
+]
+
+export interface PackageHistoryEntry {
+  fromStatus: SubmittalPackageStatus | null
+  toStatus: SubmittalPackageStatus
+  changedAt: string   // ISO timestamp
+  changedBy?: string
+  note?: string
+}
+
+export interface SubmittalPackage {
+  id: string
+  packageNumber: string
+  title: string
+  specSection: string | null
+  purpose: SubmittalPackagePurpose
+  itemDedupeKeys: string[]
+  status: SubmittalPackageStatus
+  statusHistory: PackageHistoryEntry[]
+  toParty: string | null
+  fromParty: string | null
+  dueDate: string | null          // YYYY-MM-DD
+  transmittedAt: string | null    // ISO timestamp
+  returnedAt: string | null       // ISO timestamp
+  remarks: string | null
+  createdAt: string
+}
+
+export interface SubmittalPackageRow {
+  id: string
+  package_number: string
+  title: string
+  spec_section: string | null
+  purpose: string
+  item_dedupe_keys: string[] | null
+  status: string
+  status_history: unknown
+  to_party: string | null
+  from_party: string | null
+  due_date: string | null
+  transmitted_at: string | null
+  returned_at: string | null
+  remarks: string | null
+  created_at: string
+}
+
+export function rowToSubmittalPackage(row: SubmittalPackageRow): SubmittalPackage {
+  return {
+    id: row.id,
+    packageNumber: row.package_number,
+    title: row.title,
+    specSection: row.spec_section,
+    purpose: row.purpose as SubmittalPackagePurpose,
+    itemDedupeKeys: row.item_dedupe_keys ?? [],
+    status: row.status as SubmittalPackageStatus,
+    statusHistory: Array.isArray(row.status_history) ? (row.status_history as PackageHistoryEntry[]) : [],
+    toParty: row.to_party,
+    fromParty: row.from_party,
+    dueDate: row.due_date,
+    transmittedAt: row.transmitted_at,
+    returnedAt: row.returned_at,
+    remarks: row.remarks,
+    createdAt: row.created_at,
+  }
+}
+
+// ── Labels ────────────────────────────────────────────────────────────────────
+
+export const PACKAGE_STATUS_LABELS: Record<SubmittalPackageStatus, string> = {
+  draft:       'Draft',
+  transmitted: 'Transmitted',
+  returned:    'Returned',
+  closed:      'Closed',
+}
+
+export const PACKAGE_STATUS_COLORS: Record<SubmittalPackageStatus, string> = {
+  draft:       'bg-gray-100 text-gray-600',
+  transmitted: 'bg-blue-100 text-blue-800',
+  returned:    'bg-amber-100 text-amber-800',
+  closed:      'bg-gray-200 text-gray-500',
+}
+
+export const PURPOSE_LABELS: Record<SubmittalPackagePurpose, string> = {
+  for_approval:    'For Approval',
+  for_review:      'For Review & Comment',
+  for_information: 'For Information',
+  for_record:      'For Record',
+}
+
+// ── Transitions ───────────────────────────────────────────────────────────────
+//
+// returned → transmitted is a resubmittal of the same package.
+
+const PACKAGE_TRANSITIONS: Record<SubmittalPackageStatus, SubmittalPackageStatus[]> = {
+  draft:       ['transmitted', 'closed'],
+  transmitted: ['returned'],
+  returned:    ['transmitted', 'closed'],
+  closed:      [],
+}
+
+export function canTransitionPackage(from: SubmittalPackageStatus, to: SubmittalPackageStatus): boolean {
+  return (PACKAGE_TRANSITIONS[from] ?? []).includes(to)
+}
+
+export function getNextPackageStatuses(from: SubmittalPackageStatus): SubmittalPackageStatus[] {
+  return PACKAGE_TRANSITIONS[from] ?? []
+}
+
+export type PackageTransitionResult =
+  | { ok: true; entry: PackageHistoryEntry; timestamps: { transmittedAt?: string; returnedAt?: string | null } }
+  | { ok: false; error: string }
+
+export function buildPackageTransition(
+  from: SubmittalPackageStatus,
+  to: SubmittalPackageStatus,
+  changedBy?: string,
+  note?: string
+): PackageTransitionResult {
+  if (!canTransitionPackage(from, to)) {
+    return { ok: false, error: `Invalid transition: ${from} → ${to}` }
+  }
+  const changedAt = new Date().toISOString()
+  return {
+    ok: true,
+    entry: { fromStatus: from, toStatus: to, changedAt, changedBy, note },
+    // Resubmitting clears the previous return so returnedAt always belongs
+    // to the latest transmittal.
+    timestamps:
+      to === 'transmitted' ? { transmittedAt: changedAt, returnedAt: null }
+      : to === 'returned' ? { returnedAt: changedAt }
+      : {},
+  }
+}
+
+// ── Numbering ─────────────────────────────────────────────────────────────────
+
+// Next free package number `PKG-NNN`. Numbers are never reused.
+export function nextPackageNumber(existing: Array<string | null | undefined>): string {
+  let max = 0
+  for (const n of existing) {
+    const m = /^PKG-(\d+)$/.exec((n ?? '').trim())
+    if (m) max = Math.max(max, Number(m[1]))
+  }
+  return `PKG-${String(max + 1).padStart(3, '0')}`
+}
+
+// ── Rollup ────────────────────────────────────────────────────────────────────
+
+const RETURNED_ITEM_STATUSES: SubmittalLifecycleStatus[] = [
+  'approved',
+  'approved_as_noted',
+  'revise_resubmit',
+  'rejected',
+  'closed',
+]
+
+export interface PackageRollup {
+  itemCount: number
+  // dedupeKeys no longer present in the latest register run.
+  missingKeys: string[]
+  byStatus: Partial<Record<SubmittalLifecycleStatus, number>>
+  // Items with a review outcome (or closed).
+  returnedCount: number
+  approvedCount: number
+  reviseResubmitCount: number
+  // Every present item has come back — the package can be marked returned.
+  allReturned: boolean
+}
+
+export function resolvePackageItems(
+  pkg: Pick<SubmittalPackage, 'itemDedupeKeys'>,
+  registerItems: SubmittalRegisterItem[]
+): { items: SubmittalRegisterItem[]; missingKeys: string[] } {
+  const byKey = new Map<string, SubmittalRegisterItem>()
+  for (const item of registerItems) {
+    if (item.dedupeKey && !byKey.has(item.dedupeKey)) byKey.set(item.dedupeKey, item)
+  }
+  const items: SubmittalRegisterItem[] = []
+  const missingKeys: string[] = []
+  for (const key of pkg.itemDedupeKeys) {
+    const item = byKey.get(key)
+    if (item) items.push(item)
+    else missingKeys.push(key)
+  }
+  return { items, missingKeys }
+}
+
+export function summarizePackage(
+  pkg: Pick<SubmittalPackage, 'itemDedupeKeys'>,
+  registerItems: SubmittalRegisterItem[]
+): PackageRollup {
+  const { items, missingKeys } = resolvePackageItems(pkg, registerItems)
+  const byStatus: Partial<Record<SubmittalLifecycleStatus, number>> = {}
+  let returnedCount = 0
+  let approvedCount = 0
+  let reviseResubmitCount = 0
+  for (const item of items) {
+    const status = resolveEffectiveStatus(item)
+    byStatus[status] = (byStatus[status] ?? 0) + 1
+    if (RETURNED_ITEM_STATUSES.includes(status)) returnedCount++
+    if (status === 'approved' || status === 'approved_as_noted') approvedCount++
+    if (status === 'revise_resubmit' || status === 'rejected') reviseResubmitCount++
+  }
+  return {
+    itemCount: pkg.itemDedupeKeys.length,
+    missingKeys,
+    byStatus,
+    returnedCount,
+    approvedCount,
+    reviseResubmitCount,
+    allReturned: items.length > 0 && returnedCount === items.length,
+  }
+}
+
+// ── Transmittal document model ────────────────────────────────────────────────
+
+export interface TransmittalProject {
+  name: string
+  projectNumber: string | null
+  address: string | null
+}
+
+export interface TransmittalRow {
+  index: number
+  submittalNumber: string
+  specSection: string
+  description: string
+  submittalType: string
+  sdCode: string
+  approvalAuthority: string
+  requiredAction: string
+  status: string
+}
+
+export interface TransmittalDocument {
+  packageNumber: string
+  title: string
+  purpose: string
+  status: string
+  project: TransmittalProject
+  toParty: string
+  fromParty: string
+  date: string                    // YYYY-MM-DD — transmitted date, or today for a draft
+  dueDate: string | null
+  remarks: string | null
+  rows: TransmittalRow[]
+  // Members no longer on the latest register — listed so nothing drops silently.
+  missingItemCount: number
+}
+
+// Current submittal number for an item: the latest revision's number, else
+// the issued base number.
+function currentSubmittalNumber(item: SubmittalRegisterItem): string {
+  const revisions = Array.isArray(item.revisions) ? item.revisions : []
+  return revisions[revisions.length - 1]?.submittalNumber ?? item.submittalNumber ?? ''
+}
+
+function defaultRequiredAction(item: SubmittalRegisterItem, purpose: SubmittalPackagePurpose): string {
+  if (item.requiredAction?.trim()) return item.requiredAction.trim()
+  if (item.approvalRequired === true) return 'Approval'
+  if (item.approvalRequired === false) return 'Information'
+  return PURPOSE_LABELS[purpose].replace(/^For /, '')
+}
+
+export function buildTransmittal(
+  pkg: SubmittalPackage,
+  registerItems: SubmittalRegisterItem[],
+  project: TransmittalProject,
+  today: string
+): TransmittalDocument {
+  const { items, missingKeys } = resolvePackageItems(pkg, registerItems)
+  return {
+    packageNumber: pkg.packageNumber,
+    title: pkg.title,
+    purpose: PURPOSE_LABELS[pkg.purpose] ?? pkg.purpose,
+    status: PACKAGE_STATUS_LABELS[pkg.status] ?? pkg.status,
+    project,
+    toParty: pkg.toParty ?? '',
+    fromParty: pkg.fromParty ?? '',
+    date: (pkg.transmittedAt ?? today).slice(0, 10),
+    dueDate: pkg.dueDate,
+    remarks: pkg.remarks,
+    rows: items.map((item, i) => ({
+      index: i + 1,
+      submittalNumber: currentSubmittalNumber(item),
+      specSection: [item.specSection, item.sectionTitle].filter(Boolean).join(' — '),
+      description: item.submittalItem,
+      submittalType: item.submittalType ?? '',
+      sdCode: item.sdCode ?? '',
+      approvalAuthority: item.approvalAuthority ?? '',
+      requiredAction: defaultRequiredAction(item, pkg.purpose),
+      status: STATUS_LABELS[resolveEffectiveStatus(item)],
+    })),
+    missingItemCount: missingKeys.length,
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * submittal-register-diff.ts
+ *
+ * What changed between two submittal register runs — the check before an
+ * addendum's register is republished. Items pair up by dedupeKey; leftovers
+ * pair by title similarity within the same spec section (a reworded item gets
+ * a new dedupeKey but is the same submittal). Paired items are compared on
+ * the fields that matter to the contractor:
+ *
+ *   submittalType, sdCode, approvalAuthority, requiredAction
+ *
+ * plus the title for fuzzy pairs. Superseded items (submittal-register-merge.ts)
+ * count as absent, so an item superseded in the newer run shows as removed.
+ */
+
+import type { SubmittalRegisterItem } from './submittal-register'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const DIFF_FIELDS = ['submittalType', 'sdCode', 'approvalAuthority', 'requiredAction'] as const
+
+export type DiffField = (typeof DIFF_FIELDS)[number] | 'submittalItem'
+
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+  submittalItem:     'Title',
+  submittalType:     'Type',
+  sdCode:            'SD code',
+  approvalAuthority: 'Approval authority',
+  requiredAction:    'Required action',
+}
+
+export interface FieldChange {
+  field: DiffField
+  before: string | null
+  after: string | null
+}
+
+export interface RegisterDiffItemRef {
+  dedupeKey: string
+  specSection: string | null
+  submittalItem: string
+}
+
+export interface RegisterDiffChange {
+  base: RegisterDiffItemRef
+  head: RegisterDiffItemRef
+  matchedBy: 'dedupe_key' | 'fuzzy'
+  // Title similarity (0–1) for fuzzy pairs; 1 for dedupeKey pairs.
+  similarity: number
+  changes: FieldChange[]
+}
+
+export interface SubmittalRegisterDiff {
+  added: RegisterDiffItemRef[]
+  removed: RegisterDiffItemRef[]
+  changed: RegisterDiffChange[]
+  unchangedCount: number
+  counts: { base: number; head: number }
+}
+
+export interface RegisterDiffOptions {
+  // Minimum title similarity for a fuzzy pair (default 0.7).
+  fuzzyThreshold?: number
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const DEFAULT_FUZZY_THRESHOLD = 0.7
+
+// Snapshot payloads carry no review columns, so a superseded item there is
+// recognised by its regeneration mark alone.
+function isAbsent(item: SubmittalRegisterItem): boolean {
+  if (item.reviewStatus !== undefined) return item.reviewStatus === 'superseded'
+  return item.regeneration?.status === 'superseded'
+}
+
+function tokenize(s: string): Set<string> {
+  return new Set(s.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean))
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  if (a.size === 0 || b.size === 0) return 0
+  let intersection = 0
+  for (const t of a) if (b.has(t)) intersection++
+  return intersection / (a.size + b.size - intersection)
+}
+
+function normalizeSection(s: string | null | undefined): string {
+  return (s ?? '').replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+}
+
+function normalizeValue(v: string | null | undefined): string | null {
+  const trimmed = (v ?? '').replace(/\s+/g, ' ').trim()
+  return trimmed === '' ? null : trimmed
+}
+
+function sameValue(a: string | null, b: string | null): boolean {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase()
+}
+
+function keyOf(item: SubmittalRegisterItem, index: number): string {
+  return item.dedupeKey ?? `${index}:${item.submittalItem}`
+}
+
+function ref(item: SubmittalRegisterItem, key: string): RegisterDiffItemRef {
+  return { dedupeKey: key, specSection: item.specSection, submittalItem: item.submittalItem }
+}
+
+function compareItems(base: SubmittalRegisterItem, head: SubmittalRegisterItem, withTitle: boolean): FieldChange[] {
+  const fields: DiffField[] = withTitle ? ['submittalItem', ...DIFF_FIELDS] : [...DIFF_FIELDS]
+  const changes: FieldChange[] = []
+  for (const field of fields) {
+    const before = normalizeValue(base[field])
+    const after = normalizeValue(head[field])
+    if (!sameValue(before, after)) changes.push({ field, before, after })
+  }
+  return changes
+}
+
+// ── Diff ──────────────────────────────────────────────────────────────────────
+
+export function diffSubmittalRegisters(
+  baseItems: SubmittalRegisterItem[],
+  headItems: SubmittalRegisterItem[],
+  opts: RegisterDiffOptions = {}
+): SubmittalRegisterDiff {
+  const threshold = opts.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD
+  const keyed = (items: SubmittalRegisterItem[]) => {
+    const map = new Map<string, SubmittalRegisterItem>()
+    items.forEach((item, i) => {
+      const key = keyOf(item, i)
+      if (!isAbsent(item) && !map.has(key)) map.set(key, item)
+    })
+    return map
+  }
+  const base = keyed(baseItems)
+  const head = keyed(headItems)
+
+  const changed: RegisterDiffChange[] = []
+  let unchangedCount = 0
+
+  const record = (bKey: string, hKey: string, matchedBy: RegisterDiffChange['matchedBy'], similarity: number) => {
+    const b = base.get(bKey)!
+    const h = head.get(hKey)!
+    const changes = compareItems(b, h, matchedBy === 'fuzzy')
+    if (changes.length === 0) unchangedCount++
+    else changed.push({ base: ref(b, bKey), head: ref(h, hKey), matchedBy, similarity, changes })
+  }
+
+  // Pass 1 — exact dedupeKey.
+  const baseLeft = new Set<string>()
+  for (const key of base.keys()) {
+    if (head.has(key)) record(key, key, 'dedupe_key', 1)
+    else baseLeft.add(key)
+  }
+  const headLeft = new Set([...head.keys()].filter(k => !base.has(k)))
+
+  // Pass 2 — fuzzy title within the same section, best pairs first.
+  const candidates: Array<{ bKey: string; hKey: string; similarity: number }> = []
+  const headTokens = new Map([...headLeft].map(k => [k, tokenize(head.get(k)!.submittalItem)]))
+  for (const bKey of baseLeft) {
+    const b = base.get(bKey)!
+    const bSection = normalizeSection(b.specSection)
+    const bTokens = tokenize(b.submittalItem)
+    for (const hKey of headLeft) {
+      if (normalizeSection(head.get(hKey)!.specSection) !== bSection) continue
+      const similarity = jaccard(bTokens, headTokens.get(hKey)!)
+      if (similarity >= threshold) candidates.push({ bKey, hKey, similarity })
+    }
+  }
+  candidates.sort((a, b) => b.similarity - a.similarity || a.bKey.localeCompare(b.bKey))
+  for (const c of candidates) {
+    if (!baseLeft.has(c.bKey) || !headLeft.has(c.hKey)) continue
+    baseLeft.delete(c.bKey)
+    headLeft.delete(c.hKey)
+    record(c.bKey, c.hKey, 'fuzzy', Math.round(c.similarity * 100) / 100)
+  }
+
+  const bySection = (a: RegisterDiffItemRef, b: RegisterDiffItemRef) =>
+    (a.specSection ?? '').localeCompare(b.specSection ?? '') || a.submittalItem.localeCompare(b.submittalItem)
+
+  return {
+    added: [...headLeft].map(k => ref(head.get(k)!, k)).sort(bySection),
+    removed: [...baseLeft].map(k => ref(base.get(k)!, k)).sort(bySection),
+    changed: changed.sort((a, b) => bySection(a.head, b.head)),
+    unchangedCount,
+    counts: { base: base.size, head: head.size },
+  }
+}
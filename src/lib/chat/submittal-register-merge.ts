@@ -0,0 +1,225 @@
+/**
+ * submittal-register-merge.ts
+ *
+ * Incremental regeneration of the submittal register. A new extraction —
+ * usually of the few spec sections an addendum touched — is merged by
+ * dedupeKey onto the latest persisted run instead of replacing it:
+ *
+ *   in scope, still extracted    keep the item and all its workflow state
+ *                                (lifecycle, revisions, review, schedule link,
+ *                                QA fixes); refresh source evidence only.
+ *                                'updated' when the excerpt changed.
+ *   in scope, no longer found    carried forward with review status
+ *                                'superseded' — never deleted
+ *   newly extracted              added, review status 'pending', marked 'new'
+ *   out of scope                 carried forward untouched
+ *
+ * Scope is a list of section filters, matched by prefix the way the
+ * extraction query matches them ("03 30" covers 03 30 00 and 03 30 53); null
+ * means the whole register was re-extracted. A keyword-limited extraction
+ * cannot prove an item is gone, so it never supersedes.
+ */
+
+import type { SubmittalRegisterItem } from './submittal-register'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RegenerationStatus = 'new' | 'updated' | 'unchanged' | 'superseded'
+
+export const REGENERATION_STATUS_LABELS: Record<RegenerationStatus, string> = {
+  new:        'New',
+  updated:    'Wording changed',
+  unchanged:  'Unchanged',
+  superseded: 'Superseded',
+}
+
+// Stamped on every in-scope item by the merge that last touched it.
+export interface SubmittalRegenerationMark {
+  status: RegenerationStatus
+  at: string                          // ISO timestamp of the merge
+  previousExcerpt?: string | null     // 'updated' only
+}
+
+export interface SubmittalRegisterMergeOptions {
+  // Section filters re-extracted; null = the whole register.
+  sections: string[] | null
+  // False when the extraction was keyword-limited.
+  supersedeMissing: boolean
+  at: string
+}
+
+export interface SubmittalRegisterMergeSummary {
+  sections: string[] | null
+  added: number
+  updated: number
+  unchanged: number
+  superseded: number
+  carried: number                     // out of scope, untouched
+}
+
+// Source evidence refreshed from the new extraction on matched items. Every
+// other field keeps the persisted value and only falls back to the new
+// extraction when it was empty, so reviewer fixes (sdCode, approvalAuthority,
+// an accepted artifact rename) survive.
+export const REGISTER_EVIDENCE_FIELDS = [
+  'sectionTitle',
+  'sourceReference',
+  'excerpt',
+  'rawExcerpt',
+  'sourceExcerpt',
+  'sourcePage',
+  'confidence',
+  'confidenceReason',
+  'citationCompleteness',
+  'sourceQuality',
+  'duplicateCount',
+  'notes',
+  'extractionSource',
+  'extractionConfidence',
+  'extractionSourceReason',
+] as const satisfies ReadonlyArray<keyof SubmittalRegisterItem>
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function normalizeSection(value: string | null | undefined): string {
+  return (value ?? '').replace(/[^A-Za-z0-9]+/g, '').toUpperCase()
+}
+
+export function isItemInScope(item: SubmittalRegisterItem, sections: string[] | null): boolean {
+  if (sections === null) return true
+  const section = normalizeSection(item.specSection)
+  if (!section) return false
+  return sections.some(filter => {
+    const prefix = normalizeSection(filter)
+    return prefix !== '' && section.startsWith(prefix)
+  })
+}
+
+export function isSupersededItem(item: SubmittalRegisterItem): boolean {
+  return item.reviewStatus === 'superseded'
+}
+
+function normalizeExcerpt(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function keyOf(item: SubmittalRegisterItem, index: number): string {
+  return item.dedupeKey ?? `${index}:${item.submittalItem}`
+}
+
+function mergeMatched(previous: SubmittalRegisterItem, next: SubmittalRegisterItem): SubmittalRegisterItem {
+  const merged: Record<string, unknown> = { ...next }
+  for (const [key, value] of Object.entries(previous)) {
+    if (value !== null && value !== undefined) merged[key] = value
+  }
+  for (const field of REGISTER_EVIDENCE_FIELDS) {
+    merged[field] = next[field]
+  }
+  return merged as unknown as SubmittalRegisterItem
+}
+
+// ── Merge ─────────────────────────────────────────────────────────────────────
+
+// Previous items keep their register order; new items follow in extraction
+// order. previous carries read-path state (persistedItemId, reviewStatus, …)
+// as returned by loadLatestSubmittalRegisterRun.
+export function mergeSubmittalRegisterItems(
+  previous: SubmittalRegisterItem[],
+  regenerated: SubmittalRegisterItem[],
+  opts: SubmittalRegisterMergeOptions
+): { items: SubmittalRegisterItem[]; summary: SubmittalRegisterMergeSummary } {
+  const summary: SubmittalRegisterMergeSummary = {
+    sections: opts.sections,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    superseded: 0,
+    carried: 0,
+  }
+
+  const incoming = new Map<string, SubmittalRegisterItem>()
+  regenerated.forEach((item, i) => {
+    const key = keyOf(item, i)
+    if (!incoming.has(key)) incoming.set(key, item)
+  })
+
+  const items: SubmittalRegisterItem[] = []
+  const seen = new Set<string>()
+
+  previous.forEach((item, i) => {
+    const key = keyOf(item, i)
+    if (seen.has(key)) return
+    seen.add(key)
+
+    const next = incoming.get(key)
+    if (next) {
+      const merged = mergeMatched(item, next)
+      // A superseded item that is extracted again comes back for review.
+      if (isSupersededItem(item)) {
+        summary.added++
+        items.push({ ...merged, reviewStatus: 'pending', regeneration: { status: 'new', at: opts.at } })
+        return
+      }
+      const changed = normalizeExcerpt(item.excerpt) !== normalizeExcerpt(next.excerpt)
+      if (changed) summary.updated++
+      else summary.unchanged++
+      items.push({
+        ...merged,
+        regeneration: changed
+          ? { status: 'updated', at: opts.at, previousExcerpt: item.excerpt ?? null }
+          : { status: 'unchanged', at: opts.at },
+      })
+      return
+    }
+
+    if (!isItemInScope(item, opts.sections) || !opts.supersedeMissing) {
+      summary.carried++
+      items.push(item)
+      return
+    }
+
+    summary.superseded++
+    items.push(
+      isSupersededItem(item)
+        ? item
+        : { ...item, reviewStatus: 'superseded', regeneration: { status: 'superseded', at: opts.at } }
+    )
+  })
+
+  regenerated.forEach((item, i) => {
+    const key = keyOf(item, i)
+    if (seen.has(key)) return
+    seen.add(key)
+    summary.added++
+    items.push({ ...item, dedupeKey: key, reviewStatus: 'pending', regeneration: { status: 'new', at: opts.at } })
+  })
+
+  return { items, summary }
+}
+
+// ── Persistence helpers ───────────────────────────────────────────────────────
+
+export interface CarriedReviewColumns {
+  review_status: string
+  review_notes: string | null
+  reviewed_at: string | null
+  reviewed_by_role: string | null
+}
+
+// Review state lives in row columns, not item_payload; the read path merges it
+// onto the payload. Split it back out for the insert.
+export function splitReadPathFields(item: SubmittalRegisterItem): {
+  payload: SubmittalRegisterItem
+  review: CarriedReviewColumns
+} {
+  const { persistedItemId: _id, reviewStatus, reviewNotes, reviewedAt, reviewedByRole, ...payload } = item
+  return {
+    payload: payload as SubmittalRegisterItem,
+    review: {
+      review_status: reviewStatus ?? 'pending',
+      review_notes: reviewNotes ?? null,
+      reviewed_at: reviewedAt ?? null,
+      reviewed_by_role: reviewedByRole ?? null,
+    },
+  }
+}
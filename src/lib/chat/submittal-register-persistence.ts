@@ -6,6 +6,12 @@ import {
   buildSubmittalRegisterPersistedPayload,
   type SubmittalRegisterResult,
 } from './submittal-register'
+import {
+  mergeSubmittalRegisterItems,
+  splitReadPathFields,
+  type SubmittalRegisterMergeSummary,
+} from './submittal-register-merge'
+import { loadLatestSubmittalRegisterRun } from './submittal-register-read'
 
 type WorkflowRunInsert = Database['public']['Tables']['workflow_runs']['Insert']
 type WorkflowRunUpdate = Database['public']['Tables']['workflow_runs']['Update']
@@ -26,12 +32,19 @@ export interface PersistSubmittalRegisterRunOptions {
   triggeredByUserId?: string | null
   triggeredByRole?: string | null
   startedAt?: Date
+  // Merge onto the latest completed run instead of replacing it
+  // (submittal-register-merge.ts). Without a prior run this is a plain write.
+  merge?: {
+    sections: string[] | null
+    supersedeMissing: boolean
+  }
 }
 
 export interface PersistSubmittalRegisterRunOutcome {
   workflowRunId: string | null
   status: 'completed' | 'failed' | 'skipped'
   itemsWritten: number
+  regeneration?: SubmittalRegisterMergeSummary
   warning?: string
 }
 
@@ -52,7 +65,32 @@ export async function persistSubmittalRegisterRun(
     return { workflowRunId: null, status: 'skipped', itemsWritten: 0, warning }
   }
 
-  const summary = buildOutputSummary(opts.result)
+  // Merge before opening the run so a failed read leaves the register alone.
+  let result = opts.result
+  let regeneration: SubmittalRegisterMergeSummary | undefined
+  if (opts.merge) {
+    const latest = await loadLatestSubmittalRegisterRun(supabase, opts.projectId)
+    if (latest.status === 'error') {
+      const warning = `[SubmittalRegisterPersistence] Skipping persistence — previous run could not be loaded for merge: ${latest.error}`
+      console.warn(warning)
+      return { workflowRunId: null, status: 'skipped', itemsWritten: 0, warning }
+    }
+    if (latest.status === 'found') {
+      const merged = mergeSubmittalRegisterItems(latest.run.items, opts.result.items, {
+        sections: opts.merge.sections,
+        // A failed or limit-truncated extraction cannot prove an item is gone.
+        supersedeMissing:
+          opts.merge.supersedeMissing &&
+          opts.result.success &&
+          opts.result.items.length < opts.inputs.limit,
+        at: startedAt.toISOString(),
+      })
+      result = { ...opts.result, items: merged.items }
+      regeneration = merged.summary
+    }
+  }
+
+  const summary = buildOutputSummary(result)
   const baseRow: WorkflowRunInsert = {
     project_id: opts.projectId,
     workflow_type: 'submittal_register',
@@ -61,6 +99,7 @@ export async function persistSubmittalRegisterRun(
       keyword: opts.inputs.keyword,
       limit: opts.inputs.limit,
       taskType: opts.inputs.taskType ?? 'submittal_register',
+      ...(regeneration ? { mergedSections: regeneration.sections } : {}),
     },
     source_type: 'chat_tool',
     triggered_by_user_id: opts.triggeredByUserId ?? null,
@@ -87,7 +126,14 @@ export async function persistSubmittalRegisterRun(
 
     workflowRunId = insertRun.data.id as string
 
-    const itemRows = buildSubmittalRegisterItemRows(workflowRunId, opts.projectId, opts.result.items)
+    // Merged items carry review state from the read path; it goes back into
+    // the row columns, not item_payload.
+    const split = result.items.map(splitReadPathFields)
+    const itemRows = buildSubmittalRegisterItemRows(
+      workflowRunId,
+      opts.projectId,
+      split.map(s => s.payload)
+    ).map((row, i) => (regeneration ? { ...row, ...split[i].review } : row))
     let itemsWritten = 0
 
     if (itemRows.length > 0) {
@@ -103,7 +149,10 @@ export async function persistSubmittalRegisterRun(
     const completedAt = new Date()
     const completionUpdate: WorkflowRunUpdate = {
       status: 'completed',
-      output_payload: buildSubmittalRegisterPersistedPayload(opts.result, summary) as unknown as WorkflowRunUpdate['output_payload'],
+      output_payload: {
+        ...buildSubmittalRegisterPersistedPayload({ ...result, items: split.map(s => s.payload) }, summary),
+        ...(regeneration ? { regeneration } : {}),
+      } as unknown as WorkflowRunUpdate['output_payload'],
       output_summary: summary as unknown as WorkflowRunUpdate['output_summary'],
       completed_at: completedAt.toISOString(),
       duration_ms: completedAt.getTime() - startedAtMs,
@@ -119,7 +168,8 @@ export async function persistSubmittalRegisterRun(
 
     // Best-effort: remove items from all prior runs for this project now that
     // the new run is confirmed completed. A failure here does not roll back
-    // or fail the current run.
+    // or fail the current run. With merge, every prior item was carried into
+    // this run, so nothing is lost.
     const staleCleanup = await supabase
       .from('submittal_register_items')
       .delete({ count: 'exact' })
@@ -136,7 +186,7 @@ export async function persistSubmittalRegisterRun(
       )
     }
 
-    return { workflowRunId, status: 'completed', itemsWritten }
+    return { workflowRunId, status: 'completed', itemsWritten, ...(regeneration ? { regeneration } : {}) }
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err)
     console.warn(
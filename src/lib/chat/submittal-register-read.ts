@@ -106,3 +106,124 @@ export async function loadLatestSubmittalRegisterRun(
 
   return { status: 'found', run }
 }
+
+export interface SubmittalRegisterRunListEntry {
+  id: string
+  completedAt: string | null
+  triggeredByRole: string | null
+  inputs: unknown
+  totalItemCount: number | null
+}
+
+const RUN_COLUMNS =
+  'id, project_id, workflow_type, status, source_type, started_at, completed_at, duration_ms, triggered_by_user_id, triggered_by_role, inputs, error'
+
+// Completed register runs, newest first.
+export async function listSubmittalRegisterRuns(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  projectId: string,
+  limit = 50
+): Promise<{ runs: SubmittalRegisterRunListEntry[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('workflow_runs')
+    .select('id, completed_at, triggered_by_role, inputs, output_summary')
+    .eq('project_id', projectId)
+    .eq('workflow_type', 'submittal_register')
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false, nullsFirst: false })
+    .limit(limit)
+
+  if (error) return { runs: [], error: error.message }
+
+  return {
+    runs: (data ?? []).map(row => {
+      const summary = row.output_summary as { totalItemCount?: unknown } | null
+      return {
+        id: row.id,
+        completedAt: row.completed_at,
+        triggeredByRole: row.triggered_by_role,
+        inputs: row.inputs,
+        totalItemCount: typeof summary?.totalItemCount === 'number' ? summary.totalItemCount : null,
+      }
+    }),
+    error: null,
+  }
+}
+
+// Item ids and dedupe keys of the latest completed run — what a decision on
+// an item from an earlier, since-regenerated run resolves against.
+export async function loadLatestSubmittalRegisterItemKeys(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  projectId: string
+): Promise<{ items: Array<{ id: string; dedupeKey: string }>; error: string | null }> {
+  const runResult = await supabase
+    .from('workflow_runs')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('workflow_type', 'submittal_register')
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (runResult.error) return { items: [], error: runResult.error.message }
+  if (!runResult.data) return { items: [], error: null }
+
+  const items: Array<{ id: string; dedupeKey: string }> = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabase
+      .from('submittal_register_items')
+      .select('id, dedupe_key')
+      .eq('project_id', projectId)
+      .eq('workflow_run_id', runResult.data.id)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) return { items: [], error: error.message }
+
+    items.push(...(data ?? []).map(row => ({ id: row.id, dedupeKey: row.dedupe_key })))
+
+    if (!data || data.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  return { items, error: null }
+}
+
+// Any completed register run by id. Only the latest run keeps its
+// submittal_register_items rows (older ones are cleaned up on persist), so an
+// older run is rebuilt from the item snapshot in its output_payload — the
+// items as extracted or merged at the time, without later review edits.
+export async function loadSubmittalRegisterRun(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  projectId: string,
+  workflowRunId: string
+): Promise<LoadLatestSubmittalRegisterRunOutcome> {
+  const runResult = await supabase
+    .from('workflow_runs')
+    .select(`${RUN_COLUMNS}, output_payload`)
+    .eq('project_id', projectId)
+    .eq('workflow_type', 'submittal_register')
+    .eq('status', 'completed')
+    .eq('id', workflowRunId)
+    .maybeSingle()
+
+  if (runResult.error) return { status: 'error', error: runResult.error.message }
+  if (!runResult.data) return { status: 'not_found' }
+
+  const itemsResult = await fetchAllSubmittalRegisterItems(supabase, projectId, workflowRunId)
+  if (itemsResult.error) return { status: 'error', error: itemsResult.error }
+
+  const { output_payload: outputPayload, ...runRow } = runResult.data
+  const rows = itemsResult.data.length > 0
+    ? itemsResult.data
+    : snapshotItems(outputPayload).map(item_payload => ({ item_payload }))
+
+  return { status: 'found', run: reconstructLatestSubmittalRegisterRun(runRow, rows) }
+}
+
+function snapshotItems(outputPayload: unknown): unknown[] {
+  const items = (outputPayload as { items?: unknown } | null)?.items
+  return Array.isArray(items) ? items : []
+}
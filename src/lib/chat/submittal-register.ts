@@ -1,5 +1,9 @@
 import type { SourceReference } from './source-references'
 import type { SubmittalLifecycleStatus, LifecycleHistoryEntry } from './submittal-lifecycle'
+import type { SubmittalRevision } from './submittal-revisions'
+import type { SubmittalRegenerationMark } from './submittal-register-merge'
+import type { ReconciliationAuditEntry } from '../reconciliation/submittal-reconciliation-apply'
+import type { SubmittalRfiImpact } from '../rfi/rfi-impact'
 import { associateNearbySdCodes, type NearbysdOptions } from '../ingestion/nearby-sd-association.ts'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -49,6 +53,19 @@ export interface SubmittalRegisterItem {
   lifecycleApprovedAt?: string | null       // ISO timestamp
   lifecycleClosedAt?: string | null         // ISO timestamp
   lifecycleStatusHistory?: LifecycleHistoryEntry[]
+  // Revision chain. Opened/closed by lifecycle transitions (see submittal-revisions.ts);
+  // submittalNumber is the base number issued on first submission, e.g. '03 30 00-001'.
+  submittalNumber?: string | null
+  revisions?: SubmittalRevision[]
+  // Set by incremental regeneration (submittal-register-merge.ts) on items in the
+  // re-extracted sections: new, wording changed, unchanged or superseded.
+  regeneration?: SubmittalRegenerationMark
+  // One entry per field copied from an external log when a reconciliation
+  // session is completed (submittal-reconciliation-apply.ts).
+  reconciliationAudit?: ReconciliationAuditEntry[]
+  // Answered RFIs that cite this item's spec section (rfi-impact.ts); a
+  // 'pending' entry flags the item for re-review.
+  rfiImpacts?: SubmittalRfiImpact[]
   sdCode?: string | null
   approvalAuthority?: string | null
   approvalAuthorityCondition?: string | null
@@ -60,6 +77,9 @@ export interface SubmittalRegisterItem {
   activityNeedByDate?: string | null   // ISO date YYYY-MM-DD
   blocksWork?: boolean
   blockingRisk?: 'none' | 'low' | 'medium' | 'high' | null
+  // Confirmed link to a schedule activity. Written via POST /submittal-register/schedule-links
+  // into item_payload JSONB. Keyed by activity code so it carries across schedule versions.
+  scheduleActivityLink?: SubmittalScheduleLink | null
   // Extraction provenance — which pipeline produced this item and how confident.
   // Set by the source selector; undefined on legacy items (treat as 'narrative').
   extractionSource?: 'narrative' | 'ufgs_dd_form' | 'hybrid_fill'
@@ -81,6 +101,16 @@ export interface SubmittalRegisterItem {
   }
 }
 
+export interface SubmittalScheduleLink {
+  activityId: string            // schedule_activities.activity_id (P6 task code / MSP UID)
+  activityName: string
+  scheduleVersionId: string     // version the link was confirmed against
+  matchMethod: 'activity_code' | 'name' | 'wbs' | 'manual'
+  matchScore: number | null
+  confirmedAt: string           // ISO timestamp
+  confirmedBy?: string
+}
+
 export interface SubmittalRegisterResult {
   success: boolean
   projectId?: string
@@ -0,0 +1,229 @@
+/**
+ * submittal-revisions.ts
+ *
+ * Revision chains for submittal register items. Every trip through
+ * `submitted` opens a revision; the review outcome (approved, approved as
+ * noted, revise & resubmit, rejected) closes it with a disposition and the
+ * reviewer's comments. Rev 0 is the original submission, Rev 1 the first
+ * resubmittal, and so on.
+ *
+ * Numbering: each item gets a base number `<spec section>-<NNN>` the first
+ * time it is submitted (next free sequence within its section). Resubmittals
+ * append the revision: 03 30 00-001, 03 30 00-001.1, 03 30 00-001.2.
+ *
+ * Revisions live in item_payload JSONB next to lifecycleStatusHistory and are
+ * written by POST /submittal-register/lifecycle (open/close) and
+ * PATCH /submittal-register/revisions (package and comment edits).
+ */
+
+import type { SubmittalLifecycleStatus } from './submittal-lifecycle'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RevisionDisposition = 'approved' | 'approved_as_noted' | 'revise_resubmit' | 'rejected'
+
+export const REVISION_DISPOSITIONS: RevisionDisposition[] = [
+  'approved',
+  'approved_as_noted',
+  'revise_resubmit',
+  'rejected',
+]
+
+export interface SubmittalRevision {
+  revision: number                  // 0 = original submission
+  submittalNumber: string           // e.g. 03 30 00-001.1
+  submittedAt: string               // ISO timestamp
+  submittedBy?: string
+  packageReference: string | null   // transmittal no. / package name / file
+  returnedAt: string | null         // ISO timestamp; null while in review
+  reviewDueDate?: string | null     // YYYY-MM-DD — contract due date when the cycle opened (submittal-sla.ts)
+  disposition: RevisionDisposition | null
+  reviewer: string | null
+  reviewerComments: string | null
+}
+
+export const DISPOSITION_LABELS: Record<RevisionDisposition, string> = {
+  approved:          'Approved',
+  approved_as_noted: 'Approved as Noted',
+  revise_resubmit:   'Revise & Resubmit',
+  rejected:          'Rejected',
+}
+
+export function isRevisionDisposition(v: unknown): v is RevisionDisposition {
+  return typeof v === 'string' && (REVISION_DISPOSITIONS as string[]).includes(v)
+}
+
+// ── Numbering ─────────────────────────────────────────────────────────────────
+
+const NO_SECTION = 'GEN'
+
+export function formatSubmittalNumber(baseNumber: string, revision: number): string {
+  return revision > 0 ? `${baseNumber}.${revision}` : baseNumber
+}
+
+// Base number `<section>-<NNN>` — optional `.rev` suffix is ignored.
+export function parseSubmittalNumber(
+  value: string | null | undefined
+): { section: string; sequence: number; revision: number } | null {
+  const m = /^(.+)-(\d{3,})(?:\.(\d+))?$/.exec((value ?? '').trim())
+  if (!m) return null
+  return { section: m[1], sequence: Number(m[2]), revision: m[3] ? Number(m[3]) : 0 }
+}
+
+// Next free base number in `specSection`, given the base numbers already
+// issued on the register. Sequences are per section and never reused.
+export function nextSubmittalBaseNumber(
+  specSection: string | null | undefined,
+  issuedNumbers: Array<string | null | undefined>
+): string {
+  const section = specSection?.trim() || NO_SECTION
+  let max = 0
+  for (const n of issuedNumbers) {
+    const parsed = parseSubmittalNumber(n)
+    if (parsed && parsed.section === section) max = Math.max(max, parsed.sequence)
+  }
+  return `${section}-${String(max + 1).padStart(3, '0')}`
+}
+
+// ── Lifecycle → revisions ─────────────────────────────────────────────────────
+
+export interface RevisionState {
+  submittalNumber?: string | null
+  revisions?: SubmittalRevision[]
+  lifecycleSubmittedAt?: string | null
+}
+
+export interface RevisionTransitionOptions {
+  at: string                        // ISO timestamp of the transition
+  by?: string
+  note?: string
+  packageReference?: string | null
+  // Base number to issue when the item has none yet (first submission).
+  nextBaseNumber?: string
+  // Review due date for the revision being opened.
+  reviewDueDate?: string | null
+}
+
+export function openRevision(revisions: SubmittalRevision[]): SubmittalRevision | null {
+  const last = revisions[revisions.length - 1]
+  return last && last.disposition === null ? last : null
+}
+
+// Applies a lifecycle transition to the revision chain. Returns null when the
+// transition does not touch revisions.
+//
+//   → submitted              opens the next revision (Rev 0 on first submit)
+//   → approved / approved_as_noted / revise_resubmit / rejected
+//                            closes the open revision with that disposition
+//                            (approved_as_noted → revise_resubmit re-marks the
+//                            last one); an item submitted before revisions
+//                            were tracked gets a Rev 0 backfilled from
+//                            lifecycleSubmittedAt
+export function applyLifecycleToRevisions(
+  state: RevisionState,
+  toStatus: SubmittalLifecycleStatus,
+  opts: RevisionTransitionOptions
+): { submittalNumber: string; revisions: SubmittalRevision[] } | { error: string } | null {
+  const revisions = Array.isArray(state.revisions) ? state.revisions : []
+
+  if (toStatus === 'submitted') {
+    if (openRevision(revisions)) return { error: 'The current revision has not been returned yet' }
+    const baseNumber = state.submittalNumber ?? opts.nextBaseNumber
+    if (!baseNumber) return { error: 'No submittal number available' }
+    const revision = revisions.length
+    return {
+      submittalNumber: baseNumber,
+      revisions: [
+        ...revisions,
+        {
+          revision,
+          submittalNumber: formatSubmittalNumber(baseNumber, revision),
+          submittedAt: opts.at,
+          submittedBy: opts.by,
+          packageReference: opts.packageReference?.trim() || null,
+          returnedAt: null,
+          reviewDueDate: opts.reviewDueDate ?? null,
+          disposition: null,
+          reviewer: null,
+          reviewerComments: null,
+        },
+      ],
+    }
+  }
+
+  if (!isRevisionDisposition(toStatus)) return null
+
+  let chain = revisions
+  let baseNumber = state.submittalNumber ?? null
+  if (chain.length === 0) {
+    baseNumber = baseNumber ?? opts.nextBaseNumber ?? null
+    if (!baseNumber) return { error: 'No submittal number available' }
+    const revision = chain.length
+    chain = [
+      ...chain,
+      {
+        revision,
+        submittalNumber: formatSubmittalNumber(baseNumber, revision),
+        submittedAt: state.lifecycleSubmittedAt ?? opts.at,
+        packageReference: null,
+        returnedAt: null,
+        disposition: null,
+        reviewer: null,
+        reviewerComments: null,
+      },
+    ]
+  }
+
+  const current = chain[chain.length - 1]
+  const comments = current.disposition !== null && current.reviewerComments
+    ? [current.reviewerComments, opts.note].filter(Boolean).join('\n')
+    : opts.note ?? null
+  return {
+    submittalNumber: baseNumber ?? chain[0].submittalNumber,
+    revisions: [
+      ...chain.slice(0, -1),
+      {
+        ...current,
+        returnedAt: current.returnedAt ?? opts.at,
+        disposition: toStatus,
+        reviewer: opts.by ?? current.reviewer,
+        reviewerComments: comments,
+      },
+    ],
+  }
+}
+
+// ── History summary ───────────────────────────────────────────────────────────
+
+export interface RevisionHistorySummary {
+  cycles: number                    // revisions submitted
+  resubmittals: number              // cycles − 1
+  returned: number
+  inReview: boolean
+  finalDisposition: RevisionDisposition | null
+  // Calendar days the item spent with the reviewer, summed over returned revisions.
+  reviewDays: number
+  // First submission → approving return, in calendar days. Null until approved.
+  daysToApproval: number | null
+}
+
+function calendarDays(fromIso: string, toIso: string): number {
+  const ms = Date.parse(toIso.slice(0, 10)) - Date.parse(fromIso.slice(0, 10))
+  return Number.isFinite(ms) ? Math.max(0, Math.round(ms / 86_400_000)) : 0
+}
+
+export function summarizeRevisionHistory(revisions: SubmittalRevision[] | undefined): RevisionHistorySummary {
+  const chain = Array.isArray(revisions) ? revisions : []
+  const returned = chain.filter(r => r.disposition !== null && r.returnedAt)
+  const last = chain[chain.length - 1]
+  const approving = returned.find(r => r.disposition === 'approved' || r.disposition === 'approved_as_noted')
+  return {
+    cycles: chain.length,
+    resubmittals: Math.max(0, chain.length - 1),
+    returned: returned.length,
+    inReview: !!last && last.disposition === null,
+    finalDisposition: last?.disposition ?? null,
+    reviewDays: returned.reduce((sum, r) => sum + calendarDays(r.submittedAt, r.returnedAt!), 0),
+    daysToApproval: approving && chain[0] ? calendarDays(chain[0].submittedAt, approving.returnedAt!) : null,
+  }
+}
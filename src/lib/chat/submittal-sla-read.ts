@@ -0,0 +1,21 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import { DEFAULT_SUBMITTAL_SLA, normalizeSlaConfig, type SubmittalSlaConfig } from './submittal-sla'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+// Key under projects.metadata holding the review SLA config.
+export const SLA_METADATA_KEY = 'submittalReviewSla'
+
+export async function loadSubmittalSlaConfig(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ config: SubmittalSlaConfig; isDefault: boolean; error: string | null }> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('metadata')
+    .eq('id', projectId)
+    .maybeSingle()
+  if (error) return { config: DEFAULT_SUBMITTAL_SLA, isDefault: true, error: error.message }
+  const raw = (data?.metadata as Record<string, unknown> | null)?.[SLA_METADATA_KEY]
+  return { config: normalizeSlaConfig(raw), isDefault: raw == null, error: null }
+}
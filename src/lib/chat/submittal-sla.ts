@@ -0,0 +1,358 @@
+/**
+ * submittal-sla.ts
+ *
+ * Contract review periods for submittals. A project's SLA config (stored in
+ * projects.metadata.submittalReviewSla) gives a default review period and
+ * optional overrides per approvalAuthority, each counted in calendar or
+ * working days against the project work week and holiday list.
+ *
+ *   → submitted           due date = submission date + review period
+ *                         (calendar periods ending on a non-working day roll
+ *                         forward to the next working day)
+ *   returned after due    days late are the reviewer's — summed per reviewer
+ *                         as the record of owner/designer-caused delay
+ *
+ * Each review cycle is a revision (submittal-revisions.ts); the due date in
+ * force when the cycle opened is kept on the revision as reviewDueDate so a
+ * later config change does not rewrite history. Superseded items (dropped
+ * from the specs on regeneration) have no tracked review cycles.
+ */
+
+import type { SubmittalRegisterItem } from './submittal-register'
+import { resolveEffectiveStatus } from './submittal-lifecycle.ts'
+import { isSupersededItem } from './submittal-register-merge.ts'
+import { dayToIso, isoToDay } from '../schedule/cpm-engine.ts'
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export type ReviewDayBasis = 'calendar' | 'working'
+
+export interface ReviewPeriod {
+  days: number
+  basis: ReviewDayBasis
+}
+
+export interface SubmittalSlaConfig {
+  defaultPeriod: ReviewPeriod
+  // Keyed by approvalAuthority as written on the register; matched case-insensitively.
+  byAuthority: Record<string, ReviewPeriod>
+  /** 0 = Sunday … 6 = Saturday */
+  workDays: number[]
+  /** ISO dates (YYYY-MM-DD) that are non-working. */
+  holidays: string[]
+  // Open reviews due within this many days are flagged due soon.
+  dueSoonDays: number
+}
+
+export const DEFAULT_SUBMITTAL_SLA: SubmittalSlaConfig = {
+  defaultPeriod: { days: 14, basis: 'calendar' },
+  byAuthority: {},
+  workDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  dueSoonDays: 3,
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+const MAX_PERIOD_DAYS = 365
+
+function parsePeriod(raw: unknown): ReviewPeriod | null {
+  if (!raw || typeof raw !== 'object') return null
+  const { days, basis } = raw as Record<string, unknown>
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_PERIOD_DAYS) return null
+  if (basis !== 'calendar' && basis !== 'working') return null
+  return { days, basis }
+}
+
+// Strict parse for writes. Returns the first problem found.
+export function validateSlaConfig(raw: unknown): { config: SubmittalSlaConfig } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'config must be an object' }
+  const r = raw as Record<string, unknown>
+
+  const defaultPeriod = parsePeriod(r.defaultPeriod)
+  if (!defaultPeriod) {
+    return { error: `defaultPeriod must be { days: 1–${MAX_PERIOD_DAYS}, basis: 'calendar' | 'working' }` }
+  }
+
+  const byAuthority: Record<string, ReviewPeriod> = {}
+  if (r.byAuthority !== undefined) {
+    if (!r.byAuthority || typeof r.byAuthority !== 'object') return { error: 'byAuthority must be an object' }
+    for (const [authority, value] of Object.entries(r.byAuthority as Record<string, unknown>)) {
+      const period = parsePeriod(value)
+      if (!authority.trim() || !period) return { error: `Invalid review period for authority "${authority}"` }
+      byAuthority[authority.trim()] = period
+    }
+  }
+
+  let workDays = DEFAULT_SUBMITTAL_SLA.workDays
+  if (r.workDays !== undefined) {
+    if (
+      !Array.isArray(r.workDays) ||
+      r.workDays.length === 0 ||
+      !r.workDays.every(d => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      return { error: 'workDays must list weekday numbers 0 (Sunday) – 6 (Saturday)' }
+    }
+    workDays = [...new Set(r.workDays as number[])].sort()
+  }
+
+  let holidays: string[] = []
+  if (r.holidays !== undefined) {
+    if (!Array.isArray(r.holidays) || !r.holidays.every(h => typeof h === 'string' && ISO_DATE.test(h))) {
+      return { error: 'holidays must be YYYY-MM-DD dates' }
+    }
+    holidays = [...new Set(r.holidays as string[])].sort()
+  }
+
+  let dueSoonDays = DEFAULT_SUBMITTAL_SLA.dueSoonDays
+  if (r.dueSoonDays !== undefined) {
+    if (typeof r.dueSoonDays !== 'number' || !Number.isInteger(r.dueSoonDays) || r.dueSoonDays < 0) {
+      return { error: 'dueSoonDays must be a non-negative integer' }
+    }
+    dueSoonDays = r.dueSoonDays
+  }
+
+  return { config: { defaultPeriod, byAuthority, workDays, holidays, dueSoonDays } }
+}
+
+// Lenient parse for reads — anything unusable falls back to the default.
+export function normalizeSlaConfig(raw: unknown): SubmittalSlaConfig {
+  if (raw === undefined || raw === null) return DEFAULT_SUBMITTAL_SLA
+  const parsed = validateSlaConfig(raw)
+  return 'config' in parsed ? parsed.config : DEFAULT_SUBMITTAL_SLA
+}
+
+export function resolveReviewPeriod(
+  config: SubmittalSlaConfig,
+  approvalAuthority: string | null | undefined
+): ReviewPeriod {
+  const key = approvalAuthority?.trim().toLowerCase()
+  if (key) {
+    for (const [authority, period] of Object.entries(config.byAuthority)) {
+      if (authority.toLowerCase() === key) return period
+    }
+  }
+  return config.defaultPeriod
+}
+
+export function formatReviewPeriod(period: ReviewPeriod): string {
+  return `${period.days} ${period.basis === 'working' ? 'working' : 'calendar'} day${period.days === 1 ? '' : 's'}`
+}
+
+// ── Day arithmetic ────────────────────────────────────────────────────────────
+
+function workPredicate(config: SubmittalSlaConfig): (day: number) => boolean {
+  const workDays = new Set(config.workDays.length > 0 ? config.workDays : DEFAULT_SUBMITTAL_SLA.workDays)
+  const holidays = new Set(config.holidays.map(isoToDay))
+  // 1970-01-01 (day 0) was a Thursday.
+  return day => workDays.has(((day + 4) % 7 + 7) % 7) && !holidays.has(day)
+}
+
+// Due date for a review cycle starting on `submittedAt`. The submission day
+// itself does not count.
+export function computeReviewDueDate(
+  submittedAt: string,
+  period: ReviewPeriod,
+  config: SubmittalSlaConfig
+): string {
+  const isWork = workPredicate(config)
+  let day = isoToDay(submittedAt)
+  if (period.basis === 'calendar') {
+    day += period.days
+  } else {
+    for (let i = 0; i < period.days; i++) {
+      day++
+      while (!isWork(day)) day++
+    }
+  }
+  while (!isWork(day)) day++
+  return dayToIso(day)
+}
+
+// Days in (from, through] on the period's basis; negative when through < from.
+export function countReviewDays(
+  from: string,
+  through: string,
+  basis: ReviewDayBasis,
+  config: SubmittalSlaConfig
+): number {
+  const a = isoToDay(from)
+  const b = isoToDay(through)
+  if (basis === 'calendar') return b - a
+  const isWork = workPredicate(config)
+  const [lo, hi, sign] = a <= b ? [a, b, 1] : [b, a, -1]
+  let count = 0
+  for (let d = lo + 1; d <= hi; d++) if (isWork(d)) count++
+  return count * sign
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+export type ReviewSlaStatus = 'on_time' | 'due_soon' | 'overdue' | 'returned_on_time' | 'returned_late'
+
+export interface ReviewCycleSla {
+  revision: number | null           // null for an item submitted before revisions were tracked
+  submittedAt: string               // YYYY-MM-DD
+  dueDate: string                   // YYYY-MM-DD
+  returnedAt: string | null         // YYYY-MM-DD
+  period: ReviewPeriod
+  // Days past the due date (return date, or today while open), on the
+  // period's basis. 0 when on time.
+  daysLate: number
+  // Open cycles only: days left until due (negative once overdue).
+  daysRemaining: number | null
+  status: ReviewSlaStatus
+}
+
+export function evaluateReviewCycle(
+  cycle: { revision: number | null; submittedAt: string; returnedAt: string | null; dueDate?: string | null },
+  period: ReviewPeriod,
+  config: SubmittalSlaConfig,
+  today: string
+): ReviewCycleSla {
+  const submittedAt = cycle.submittedAt.slice(0, 10)
+  const returnedAt = cycle.returnedAt?.slice(0, 10) ?? null
+  const dueDate = cycle.dueDate?.slice(0, 10) || computeReviewDueDate(submittedAt, period, config)
+  const end = returnedAt ?? today
+  const daysLate = Math.max(0, countReviewDays(dueDate, end, period.basis, config))
+
+  if (returnedAt) {
+    return {
+      revision: cycle.revision, submittedAt, dueDate, returnedAt, period, daysLate, daysRemaining: null,
+      status: daysLate > 0 ? 'returned_late' : 'returned_on_time',
+    }
+  }
+  const daysRemaining = countReviewDays(today, dueDate, period.basis, config)
+  return {
+    revision: cycle.revision, submittedAt, dueDate, returnedAt, period, daysLate, daysRemaining,
+    status: daysLate > 0 ? 'overdue' : daysRemaining <= config.dueSoonDays ? 'due_soon' : 'on_time',
+  }
+}
+
+export interface ItemReviewSla {
+  cycles: ReviewCycleSla[]
+  // The cycle currently with the reviewer, if any.
+  current: ReviewCycleSla | null
+  // Days late summed over every cycle — returned late or still overdue.
+  reviewerDelayDays: number
+  lateReturns: number
+}
+
+const IN_REVIEW_STATUSES = ['submitted', 'pending_review']
+
+export function evaluateItemReviewSla(
+  item: SubmittalRegisterItem,
+  config: SubmittalSlaConfig,
+  today: string
+): ItemReviewSla {
+  if (isSupersededItem(item)) return { cycles: [], current: null, reviewerDelayDays: 0, lateReturns: 0 }
+  const period = resolveReviewPeriod(config, item.approvalAuthority)
+  const revisions = Array.isArray(item.revisions) ? item.revisions : []
+  let cycles: ReviewCycleSla[]
+  if (revisions.length > 0) {
+    cycles = revisions.map(r =>
+      evaluateReviewCycle(
+        { revision: r.revision, submittedAt: r.submittedAt, returnedAt: r.returnedAt, dueDate: r.reviewDueDate },
+        period,
+        config,
+        today
+      )
+    )
+  } else if (item.lifecycleSubmittedAt && IN_REVIEW_STATUSES.includes(resolveEffectiveStatus(item))) {
+    cycles = [
+      evaluateReviewCycle(
+        { revision: null, submittedAt: item.lifecycleSubmittedAt, returnedAt: null, dueDate: item.lifecycleDueDate },
+        period,
+        config,
+        today
+      ),
+    ]
+  } else {
+    cycles = []
+  }
+  const last = cycles[cycles.length - 1]
+  return {
+    cycles,
+    current: last && last.returnedAt === null ? last : null,
+    reviewerDelayDays: cycles.reduce((sum, c) => sum + c.daysLate, 0),
+    lateReturns: cycles.filter(c => c.status === 'returned_late').length,
+  }
+}
+
+// ── Aging per reviewer ────────────────────────────────────────────────────────
+
+export type ReviewAgingBucket = 'on_time' | 'due_soon' | 'overdue_1_7' | 'overdue_8_14' | 'overdue_15_plus'
+
+export const REVIEW_AGING_BUCKETS: ReviewAgingBucket[] = [
+  'on_time',
+  'due_soon',
+  'overdue_1_7',
+  'overdue_8_14',
+  'overdue_15_plus',
+]
+
+export const REVIEW_AGING_LABELS: Record<ReviewAgingBucket, string> = {
+  on_time:         'On time',
+  due_soon:        'Due soon',
+  overdue_1_7:     '1–7 late',
+  overdue_8_14:    '8–14 late',
+  overdue_15_plus: '15+ late',
+}
+
+export function reviewAgingBucket(cycle: ReviewCycleSla): ReviewAgingBucket {
+  if (cycle.daysLate >= 15) return 'overdue_15_plus'
+  if (cycle.daysLate >= 8) return 'overdue_8_14'
+  if (cycle.daysLate >= 1) return 'overdue_1_7'
+  return cycle.status === 'due_soon' ? 'due_soon' : 'on_time'
+}
+
+export interface ReviewerAgingRow {
+  reviewer: string
+  open: number
+  buckets: Record<ReviewAgingBucket, number>
+  maxDaysLate: number
+  // Reviewer delay over all cycles, returned and open.
+  delayDays: number
+  lateReturns: number
+}
+
+export const UNASSIGNED_REVIEWER = 'Unassigned'
+
+export function reviewerForItem(item: SubmittalRegisterItem): string {
+  return item.lifecycleAssignedReviewer?.trim() || item.approvalAuthority?.trim() || UNASSIGNED_REVIEWER
+}
+
+// One row per reviewer with any tracked review cycle, worst first.
+export function buildReviewerAging(
+  items: SubmittalRegisterItem[],
+  config: SubmittalSlaConfig,
+  today: string
+): ReviewerAgingRow[] {
+  const rows = new Map<string, ReviewerAgingRow>()
+  for (const item of items) {
+    const sla = evaluateItemReviewSla(item, config, today)
+    if (sla.cycles.length === 0) continue
+    const reviewer = reviewerForItem(item)
+    let row = rows.get(reviewer)
+    if (!row) {
+      row = {
+        reviewer,
+        open: 0,
+        buckets: { on_time: 0, due_soon: 0, overdue_1_7: 0, overdue_8_14: 0, overdue_15_plus: 0 },
+        maxDaysLate: 0,
+        delayDays: 0,
+        lateReturns: 0,
+      }
+      rows.set(reviewer, row)
+    }
+    row.delayDays += sla.reviewerDelayDays
+    row.lateReturns += sla.lateReturns
+    if (sla.current) {
+      row.open++
+      row.buckets[reviewAgingBucket(sla.current)]++
+      row.maxDaysLate = Math.max(row.maxDaysLate, sla.current.daysLate)
+    }
+  }
+  return [...rows.values()].sort(
+    (a, b) => b.maxDaysLate - a.maxDaysLate || b.delayDays - a.delayDays || a.reviewer.localeCompare(b.reviewer)
+  )
+}
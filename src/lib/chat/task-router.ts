@@ -122,6 +122,7 @@ const ROUTE_RULES: RouteRule[] = [
       { label: 'schedule', pattern: /\b(?:schedule|CPM|critical\s+path|lookahead|delay|float|predecessor|successor)\b/i },
       { label: 'sequence', pattern: /\b(?:sequence|phasing|milestone|duration|start|finish)\b/i },
       { label: 'work_date', pattern: /\b(?:today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i },
+      { label: 'dependency', pattern: /\b(?:blocking|blocked|holding\s+up|waiting\s+on|depends?\s+on)\b/i },
     ],
   },
   {
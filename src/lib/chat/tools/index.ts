@@ -20,6 +20,9 @@ import {
   formatSubmittalRegisterToolPayload,
 } from '../submittal-register'
 import { persistSubmittalRegisterRun } from '../submittal-register-persistence'
+import { queryScheduleActivities as runScheduleActivityQuery } from '../schedule-queries'
+import { queryEntityGraph as runEntityGraphQuery } from '../entity-graph-queries'
+import { queryRevisionComparison } from '../revision-queries'
 import { runPlanReader } from '../plan-reader'
 import { verifyBeforeAnswering } from '../sheet-verifier'
 import { queryComponentCount, queryAllComponentsByUtility, queryUtilityLength } from '../vision-queries'
@@ -479,6 +482,10 @@ export function buildTools(
           triggeredByUserId: userContext?.userId ?? null,
           triggeredByRole: userContext?.userRole ?? null,
           startedAt,
+          merge: {
+            sections: sectionNumber ? [sectionNumber] : null,
+            supersedeMissing: !keyword,
+          },
         })
       } catch (err) {
         console.warn(
@@ -492,6 +499,143 @@ export function buildTools(
     },
   })
 
+  // ── Tool 9: queryScheduleActivities ─────────────────────────────────────
+  const queryScheduleActivities = tool({
+    description:
+      'Query activities in the imported project schedule (P6 / MS Project). Filter by activity name or code, WBS, date window, critical flag, responsible party, or status. Returns dates, float, % complete, predecessors/successors, and linked submittals, and names the schedule version read. Use for questions about what is scheduled, when work starts or finishes, critical path, float, or sequencing.',
+    inputSchema: zodSchema(
+      z.object({
+        text: z
+          .string()
+          .optional()
+          .describe('Activity code or words from the activity name, e.g. "A1040" or "curtain wall"'),
+        wbs: z
+          .string()
+          .optional()
+          .describe('WBS code prefix or WBS name, e.g. "1.3.2" or "Envelope"'),
+        from: z
+          .string()
+          .optional()
+          .describe('Start of date window, YYYY-MM-DD. Returns activities still running on or after this date.'),
+        to: z
+          .string()
+          .optional()
+          .describe('End of date window, YYYY-MM-DD. Returns activities starting on or before this date.'),
+        criticalOnly: z.boolean().optional().describe('Only critical-path activities'),
+        responsibleParty: z
+          .string()
+          .optional()
+          .describe('Subcontractor or responsible party, e.g. "ABC Mechanical"'),
+        status: z
+          .enum(['not_started', 'in_progress', 'complete'])
+          .optional()
+          .describe('Activity progress status'),
+        versionNumber: z
+          .number()
+          .int()
+          .optional()
+          .describe('Schedule version number to read; defaults to the latest import'),
+        limit: z.number().int().min(1).max(100).optional().describe('Maximum activities to return (default 25)'),
+      })
+    ),
+    execute: async (input: {
+      text?: string
+      wbs?: string
+      from?: string
+      to?: string
+      criticalOnly?: boolean
+      responsibleParty?: string
+      status?: 'not_started' | 'in_progress' | 'complete'
+      versionNumber?: number
+      limit?: number
+    }): Promise<string> => {
+      try {
+        const result = await runScheduleActivityQuery(supabase, projectId, input)
+        return result.formattedAnswer
+      } catch (err) {
+        return `queryScheduleActivities error: ${err instanceof Error ? err.message : String(err)}`
+      }
+    },
+  })
+
+  // ── Tool 10: queryEntityGraph ───────────────────────────────────────────
+  const queryEntityGraph = tool({
+    description:
+      'Traverse the project relationship graph: spec sections, RFIs, features of work, register submittals, and schedule activities, joined by explicit links (entity relationships, submittal→FOW links, submittal→activity links, schedule logic ties). Modes: "blockers" lists open submittals, open RFIs, and incomplete predecessors upstream of a node; "neighbors" lists direct relations (direction "in" is a reverse lookup); "traverse" walks N hops; "paths" finds how two nodes connect. Use for dependency questions like "what is blocking the slab pour" or "which activities depend on this submittal" instead of document search.',
+    inputSchema: zodSchema(
+      z.object({
+        mode: z
+          .enum(['blockers', 'neighbors', 'traverse', 'paths'])
+          .describe('Query kind'),
+        node: z
+          .string()
+          .describe('Start node: words from its name ("slab pour"), an activity code, RFI number, spec section, or a node id from an earlier result'),
+        target: z
+          .string()
+          .optional()
+          .describe('End node for mode "paths", same forms as node'),
+        nodeTypes: z
+          .array(z.string())
+          .optional()
+          .describe('Restrict start-node matching to these types, e.g. ["schedule_activity"], ["submittal"], ["feature_of_work"], ["spec_section"], ["rfi"]'),
+        direction: z
+          .enum(['out', 'in', 'both'])
+          .optional()
+          .describe('Edge direction for neighbors/traverse/paths (default both). Edges point from prerequisite to dependent.'),
+        relationTypes: z
+          .array(z.string())
+          .optional()
+          .describe('Only follow these relation types, e.g. ["required_by", "belongs_to", "performed_in", "precedes", "governs", "clarifies", "submitted_for"]'),
+        maxHops: z.number().int().min(1).max(6).optional().describe('Traversal depth'),
+        limit: z.number().int().min(1).max(100).optional().describe('Maximum results (default 50)'),
+      })
+    ),
+    execute: async (input: {
+      mode: 'blockers' | 'neighbors' | 'traverse' | 'paths'
+      node: string
+      target?: string
+      nodeTypes?: string[]
+      direction?: 'out' | 'in' | 'both'
+      relationTypes?: string[]
+      maxHops?: number
+      limit?: number
+    }): Promise<string> => {
+      try {
+        const result = await runEntityGraphQuery(supabase, projectId, input)
+        return result.formattedAnswer
+      } catch (err) {
+        return `queryEntityGraph error: ${err instanceof Error ? err.message : String(err)}`
+      }
+    },
+  })
+
+  // ── Tool 11: compareRevisions ───────────────────────────────────────────
+  const compareRevisions = tool({
+    description:
+      'Compare two revisions of a drawing sheet or spec section: title, entities, detail and sheet references, and text added or removed between them, plus the full revision history. Other tools read only the current conformed set; use this for "what changed between Rev 2 and Rev 3 of C-101", "what changed on C-101 in the last revision", or "what is the revision history of 03 30 00".',
+    inputSchema: zodSchema(
+      z.object({
+        ref: z.string().describe('Sheet number or spec section, e.g. "C-101", "03 30 00"'),
+        fromRevision: z
+          .string()
+          .optional()
+          .describe('Older revision label, e.g. "2", "Rev B", "original". Defaults to the revision before toRevision.'),
+        toRevision: z
+          .string()
+          .optional()
+          .describe('Newer revision label. Defaults to the current revision.'),
+      })
+    ),
+    execute: async (input: { ref: string; fromRevision?: string; toRevision?: string }): Promise<string> => {
+      try {
+        const result = await queryRevisionComparison(supabase, projectId, input)
+        return result.formattedAnswer
+      } catch (err) {
+        return `compareRevisions error: ${err instanceof Error ? err.message : String(err)}`
+      }
+    },
+  })
+
   return {
     searchEntities,
     getSpecSection,
@@ -501,6 +645,9 @@ export function buildTools(
     searchComponents,
     queryUtilityLength: queryUtilityLengthTool,
     buildSubmittalRegister,
+    queryScheduleActivities,
+    queryEntityGraph,
+    compareRevisions,
   }
 }
 
@@ -149,6 +149,11 @@ export interface QueryAnalysis {
     rfiNumber?: string | null
     /** Change document type */
     changeDocType?: 'rfi' | 'asi' | 'bulletin' | 'addendum' | null
+    /** Sheet number or spec section for revision comparison (e.g. "C-101") */
+    revisionRef?: string | null
+    /** Older / newer revision labels (e.g. "2", "3"); null = previous / current */
+    fromRevision?: string | null
+    toRevision?: string | null
     // Phase 6C — submittal / governing routing
     /** Submittal identifier (e.g. "03-01", "16-02") */
     submittalId?: string | null
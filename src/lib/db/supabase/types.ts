@@ -127,6 +127,101 @@ export type Database = {
           },
         ]
       }
+      change_events: {
+        Row: {
+          approved_amount: number | null
+          co_number: string | null
+          cor_number: string | null
+          created_at: string
+          created_by: string | null
+          executed_at: string | null
+          id: string
+          pco_number: string
+          project_id: string
+          referenced_sheets: string[]
+          rom_high: number | null
+          rom_items: Json
+          rom_low: number | null
+          schedule_impact_days: number | null
+          scope_description: string
+          sequence: number | null
+          source_id: string | null
+          source_label: string | null
+          source_type: string
+          spec_sections: string[]
+          stage: string
+          status: string
+          status_history: Json
+          submitted_at: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          approved_amount?: number | null
+          co_number?: string | null
+          cor_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          executed_at?: string | null
+          id?: string
+          pco_number: string
+          project_id: string
+          referenced_sheets?: string[]
+          rom_high?: number | null
+          rom_items?: Json
+          rom_low?: number | null
+          schedule_impact_days?: number | null
+          scope_description?: string
+          sequence?: number | null
+          source_id?: string | null
+          source_label?: string | null
+          source_type?: string
+          spec_sections?: string[]
+          stage?: string
+          status?: string
+          status_history?: Json
+          submitted_at?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          approved_amount?: number | null
+          co_number?: string | null
+          cor_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          executed_at?: string | null
+          id?: string
+          pco_number?: string
+          project_id?: string
+          referenced_sheets?: string[]
+          rom_high?: number | null
+          rom_items?: Json
+          rom_low?: number | null
+          schedule_impact_days?: number | null
+          scope_description?: string
+          sequence?: number | null
+          source_id?: string | null
+          source_label?: string | null
+          source_type?: string
+          spec_sections?: string[]
+          stage?: string
+          status?: string
+          status_history?: Json
+          submitted_at?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       component_callouts: {
         Row: {
           associated_system: string | null
@@ -373,13 +468,19 @@ export type Database = {
           page_image_url: string | null
           page_number: number
           project_id: string
+          revision: string | null
+          revision_sequence: number
           sheet_number: string | null
           sheet_title: string | null
           sheet_type: string | null
+          spec_section: string | null
           station_end: string | null
           station_end_numeric: number | null
           station_start: string | null
           station_start_numeric: number | null
+          superseded_at: string | null
+          superseded_by_page_id: string | null
+          supersedes_page_id: string | null
           text_content: string | null
           updated_at: string | null
           utilities: string[] | null
@@ -400,13 +501,19 @@ export type Database = {
           page_image_url?: string | null
           page_number: number
           project_id: string
+          revision?: string | null
+          revision_sequence?: number
           sheet_number?: string | null
           sheet_title?: string | null
           sheet_type?: string | null
+          spec_section?: string | null
           station_end?: string | null
           station_end_numeric?: number | null
           station_start?: string | null
           station_start_numeric?: number | null
+          superseded_at?: string | null
+          superseded_by_page_id?: string | null
+          supersedes_page_id?: string | null
           text_content?: string | null
           updated_at?: string | null
           utilities?: string[] | null
@@ -427,13 +534,19 @@ export type Database = {
           page_image_url?: string | null
           page_number?: number
           project_id?: string
+          revision?: string | null
+          revision_sequence?: number
           sheet_number?: string | null
           sheet_title?: string | null
           sheet_type?: string | null
+          spec_section?: string | null
           station_end?: string | null
           station_end_numeric?: number | null
           station_start?: string | null
           station_start_numeric?: number | null
+          superseded_at?: string | null
+          superseded_by_page_id?: string | null
+          supersedes_page_id?: string | null
           text_content?: string | null
           updated_at?: string | null
           utilities?: string[] | null
@@ -480,6 +593,8 @@ export type Database = {
       }
       documents: {
         Row: {
+          conform_error: string | null
+          conformed_at: string | null
           created_at: string | null
           description: string | null
           discipline: string | null
@@ -494,6 +609,8 @@ export type Database = {
           processing_status: string | null
           project_id: string | null
           revision: string | null
+          revision_target_ref: string | null
+          revision_target_type: string | null
           sheet_number: string | null
           updated_at: string | null
           uploaded_by: string | null
@@ -505,6 +622,8 @@ export type Database = {
           vision_status: string | null
         }
         Insert: {
+          conform_error?: string | null
+          conformed_at?: string | null
           created_at?: string | null
           description?: string | null
           discipline?: string | null
@@ -519,6 +638,8 @@ export type Database = {
           processing_status?: string | null
           project_id?: string | null
           revision?: string | null
+          revision_target_ref?: string | null
+          revision_target_type?: string | null
           sheet_number?: string | null
           updated_at?: string | null
           uploaded_by?: string | null
@@ -530,6 +651,8 @@ export type Database = {
           vision_status?: string | null
         }
         Update: {
+          conform_error?: string | null
+          conformed_at?: string | null
           created_at?: string | null
           description?: string | null
           discipline?: string | null
@@ -544,6 +667,8 @@ export type Database = {
           processing_status?: string | null
           project_id?: string | null
           revision?: string | null
+          revision_target_ref?: string | null
+          revision_target_type?: string | null
           sheet_number?: string | null
           updated_at?: string | null
           uploaded_by?: string | null
@@ -1007,6 +1132,60 @@ export type Database = {
           },
         ]
       }
+      fow_submittal_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dedupe_key: string
+          fow_entity_id: string
+          id: string
+          project_id: string
+          source: string
+          spec_section: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dedupe_key: string
+          fow_entity_id: string
+          id?: string
+          project_id: string
+          source: string
+          spec_section?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dedupe_key?: string
+          fow_entity_id?: string
+          id?: string
+          project_id?: string
+          source?: string
+          spec_section?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_fsl_fow_project"
+            columns: ["fow_entity_id", "project_id"]
+            isOneToOne: false
+            referencedRelation: "project_entities"
+            referencedColumns: ["id", "project_id"]
+          },
+          {
+            foreignKeyName: "fow_submittal_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       memory_confirmations: {
         Row: {
           created_at: string
@@ -1315,6 +1494,84 @@ export type Database = {
           },
         ]
       }
+      project_inspections: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          fow_entity_id: string | null
+          id: string
+          inspection_type: string
+          inspector: string | null
+          part_reference: string | null
+          project_id: string
+          result: string | null
+          result_notes: string | null
+          scheduled_date: string | null
+          source: string
+          source_requirement_key: string | null
+          spec_section: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          fow_entity_id?: string | null
+          id?: string
+          inspection_type?: string
+          inspector?: string | null
+          part_reference?: string | null
+          project_id: string
+          result?: string | null
+          result_notes?: string | null
+          scheduled_date?: string | null
+          source?: string
+          source_requirement_key?: string | null
+          spec_section?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          fow_entity_id?: string | null
+          id?: string
+          inspection_type?: string
+          inspector?: string | null
+          part_reference?: string | null
+          project_id?: string
+          result?: string | null
+          result_notes?: string | null
+          scheduled_date?: string | null
+          source?: string
+          source_requirement_key?: string | null
+          spec_section?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_inspections_fow_entity_id_fkey"
+            columns: ["fow_entity_id"]
+            isOneToOne: false
+            referencedRelation: "project_entities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_inspections_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
           created_at: string | null
@@ -1475,6 +1732,115 @@ export type Database = {
           },
         ]
       }
+      project_parties: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          created_by: string | null
+          email: string | null
+          id: string
+          name: string
+          organization: string | null
+          project_id: string
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          organization?: string | null
+          project_id: string
+          role: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          organization?: string | null
+          project_id?: string
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_parties_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_procurement_items: {
+        Row: {
+          actual_delivery_date: string | null
+          created_at: string
+          created_by: string | null
+          description: string
+          expected_delivery_date: string | null
+          id: string
+          notes: string | null
+          order_date: string | null
+          po_number: string | null
+          project_id: string
+          promised_ship_date: string | null
+          status: string
+          submittal_dedupe_key: string
+          updated_at: string
+          vendor: string | null
+        }
+        Insert: {
+          actual_delivery_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          description: string
+          expected_delivery_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string | null
+          po_number?: string | null
+          project_id: string
+          promised_ship_date?: string | null
+          status?: string
+          submittal_dedupe_key: string
+          updated_at?: string
+          vendor?: string | null
+        }
+        Update: {
+          actual_delivery_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          expected_delivery_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string | null
+          po_number?: string | null
+          project_id?: string
+          promised_ship_date?: string | null
+          status?: string
+          submittal_dedupe_key?: string
+          updated_at?: string
+          vendor?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_procurement_items_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_quantities: {
         Row: {
           chunk_id: string | null
@@ -1965,33 +2331,46 @@ export type Database = {
       }
       reconciliation_decisions: {
         Row: {
+          carried_from_session_id: string | null
           decided_at: string
           decided_by: string | null
           decision: string
           external_row_id: string
+          generated_dedupe_key: string | null
           generated_item_id: string
           id: string
           session_id: string
         }
         Insert: {
+          carried_from_session_id?: string | null
           decided_at?: string
           decided_by?: string | null
           decision: string
           external_row_id: string
+          generated_dedupe_key?: string | null
           generated_item_id: string
           id?: string
           session_id: string
         }
         Update: {
+          carried_from_session_id?: string | null
           decided_at?: string
           decided_by?: string | null
           decision?: string
           external_row_id?: string
+          generated_dedupe_key?: string | null
           generated_item_id?: string
           id?: string
           session_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "reconciliation_decisions_carried_from_session_id_fkey"
+            columns: ["carried_from_session_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliation_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "reconciliation_decisions_session_id_fkey"
             columns: ["session_id"]
@@ -2003,36 +2382,49 @@ export type Database = {
       }
       reconciliation_sessions: {
         Row: {
+          change_summary: Json | null
           created_at: string
           created_by: string | null
           external_rows: Json
           id: string
+          previous_session_id: string | null
           project_id: string
           source_file_name: string
           status: string
           updated_at: string
         }
         Insert: {
+          change_summary?: Json | null
           created_at?: string
           created_by?: string | null
           external_rows?: Json
           id?: string
+          previous_session_id?: string | null
           project_id: string
           source_file_name: string
           status?: string
           updated_at?: string
         }
         Update: {
+          change_summary?: Json | null
           created_at?: string
           created_by?: string | null
           external_rows?: Json
           id?: string
+          previous_session_id?: string | null
           project_id?: string
           source_file_name?: string
           status?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "reconciliation_sessions_previous_session_id_fkey"
+            columns: ["previous_session_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliation_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "reconciliation_sessions_project_id_fkey"
             columns: ["project_id"]
@@ -2056,59 +2448,150 @@ export type Database = {
           },
         ]
       }
+      rfi_impacts: {
+        Row: {
+          created_at: string
+          entity_id: string | null
+          id: string
+          label: string | null
+          project_id: string
+          reasons: string[]
+          rfi_id: string
+          target_ref: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          label?: string | null
+          project_id: string
+          reasons?: string[]
+          rfi_id: string
+          target_ref: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          label?: string | null
+          project_id?: string
+          reasons?: string[]
+          rfi_id?: string
+          target_ref?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfi_impacts_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "project_entities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rfi_impacts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rfi_impacts_rfi_id_fkey"
+            columns: ["rfi_id"]
+            isOneToOne: false
+            referencedRelation: "rfis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rfis: {
         Row: {
+          answered_at: string | null
+          answered_by: string | null
           assigned_to: string | null
+          closed_at: string | null
           created_at: string | null
+          created_by: string | null
           due_date: string | null
           id: string
           metadata: Json | null
+          opened_at: string | null
           priority: string | null
           project_id: string | null
           question: string
+          referenced_sheets: string[]
           related_activities: string[] | null
           related_documents: string[] | null
           response: string | null
           rfi_number: string
+          sequence: number | null
+          source_question: string | null
+          spec_sections: string[]
           status: string | null
+          status_history: Json
           subject: string
           submitted_by: string | null
+          suggested_solution: string | null
           updated_at: string | null
         }
         Insert: {
+          answered_at?: string | null
+          answered_by?: string | null
           assigned_to?: string | null
+          closed_at?: string | null
           created_at?: string | null
+          created_by?: string | null
           due_date?: string | null
           id?: string
           metadata?: Json | null
+          opened_at?: string | null
           priority?: string | null
           project_id?: string | null
           question: string
+          referenced_sheets?: string[]
           related_activities?: string[] | null
           related_documents?: string[] | null
           response?: string | null
           rfi_number: string
+          sequence?: number | null
+          source_question?: string | null
+          spec_sections?: string[]
           status?: string | null
+          status_history?: Json
           subject: string
           submitted_by?: string | null
+          suggested_solution?: string | null
           updated_at?: string | null
         }
         Update: {
+          answered_at?: string | null
+          answered_by?: string | null
           assigned_to?: string | null
+          closed_at?: string | null
           created_at?: string | null
+          created_by?: string | null
           due_date?: string | null
           id?: string
           metadata?: Json | null
+          opened_at?: string | null
           priority?: string | null
           project_id?: string | null
           question?: string
+          referenced_sheets?: string[]
           related_activities?: string[] | null
           related_documents?: string[] | null
           response?: string | null
           rfi_number?: string
+          sequence?: number | null
+          source_question?: string | null
+          spec_sections?: string[]
           status?: string | null
+          status_history?: Json
           subject?: string
           submitted_by?: string | null
+          suggested_solution?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -2251,29 +2734,44 @@ export type Database = {
       }
       schedule_versions: {
         Row: {
+          activity_count: number
           created_at: string | null
+          created_by: string | null
+          data_date: string | null
           description: string | null
           id: string
           is_baseline: boolean | null
           project_id: string | null
+          source_file_name: string | null
+          source_format: string | null
           version_date: string
           version_number: number
         }
         Insert: {
+          activity_count?: number
           created_at?: string | null
+          created_by?: string | null
+          data_date?: string | null
           description?: string | null
           id?: string
           is_baseline?: boolean | null
           project_id?: string | null
+          source_file_name?: string | null
+          source_format?: string | null
           version_date: string
           version_number: number
         }
         Update: {
+          activity_count?: number
           created_at?: string | null
+          created_by?: string | null
+          data_date?: string | null
           description?: string | null
           id?: string
           is_baseline?: boolean | null
           project_id?: string | null
+          source_file_name?: string | null
+          source_format?: string | null
           version_date?: string
           version_number?: number
         }
@@ -2386,6 +2884,169 @@ export type Database = {
           },
         ]
       }
+      sheet_revision_diffs: {
+        Row: {
+          alignment: Json | null
+          changed_ratio: number | null
+          changes: Json
+          created_at: string
+          document_id: string
+          error: string | null
+          from_revision: string | null
+          id: string
+          overlay_path: string | null
+          page_id: string
+          previous_page_id: string
+          project_id: string
+          sheet_number: string | null
+          status: string
+          to_revision: string | null
+          unclouded_count: number
+          updated_at: string
+          vision_cost_usd: number
+        }
+        Insert: {
+          alignment?: Json | null
+          changed_ratio?: number | null
+          changes?: Json
+          created_at?: string
+          document_id: string
+          error?: string | null
+          from_revision?: string | null
+          id?: string
+          overlay_path?: string | null
+          page_id: string
+          previous_page_id: string
+          project_id: string
+          sheet_number?: string | null
+          status: string
+          to_revision?: string | null
+          unclouded_count?: number
+          updated_at?: string
+          vision_cost_usd?: number
+        }
+        Update: {
+          alignment?: Json | null
+          changed_ratio?: number | null
+          changes?: Json
+          created_at?: string
+          document_id?: string
+          error?: string | null
+          from_revision?: string | null
+          id?: string
+          overlay_path?: string | null
+          page_id?: string
+          previous_page_id?: string
+          project_id?: string
+          sheet_number?: string | null
+          status?: string
+          to_revision?: string | null
+          unclouded_count?: number
+          updated_at?: string
+          vision_cost_usd?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sheet_revision_diffs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sheet_revision_diffs_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "document_pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sheet_revision_diffs_previous_page_id_fkey"
+            columns: ["previous_page_id"]
+            isOneToOne: false
+            referencedRelation: "document_pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sheet_revision_diffs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submittal_packages: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          from_party: string | null
+          id: string
+          item_dedupe_keys: string[]
+          package_number: string
+          project_id: string
+          purpose: string
+          remarks: string | null
+          returned_at: string | null
+          spec_section: string | null
+          status: string
+          status_history: Json
+          title: string
+          to_party: string | null
+          transmitted_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          from_party?: string | null
+          id?: string
+          item_dedupe_keys?: string[]
+          package_number: string
+          project_id: string
+          purpose?: string
+          remarks?: string | null
+          returned_at?: string | null
+          spec_section?: string | null
+          status?: string
+          status_history?: Json
+          title: string
+          to_party?: string | null
+          transmitted_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          from_party?: string | null
+          id?: string
+          item_dedupe_keys?: string[]
+          package_number?: string
+          project_id?: string
+          purpose?: string
+          remarks?: string | null
+          returned_at?: string | null
+          spec_section?: string | null
+          status?: string
+          status_history?: Json
+          title?: string
+          to_party?: string | null
+          transmitted_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submittal_packages_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       submittal_register_items: {
         Row: {
           approval_required: boolean | null
@@ -3274,6 +3935,10 @@ export type Database = {
       }
     }
     Functions: {
+      apply_submittal_item_payloads: {
+        Args: { p_project_id: string; p_updates: Json }
+        Returns: number
+      }
       calculate_utility_length: {
         Args: { p_project_id: string; p_utility_name: string }
         Returns: {
@@ -0,0 +1,340 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import { sheetNumberVariants } from '../rfi/rfi-impact'
+import {
+  buildRevisionChain,
+  isRevisionTargetType,
+  pageSpecSection,
+  planConformance,
+  revisionTargetKey,
+  type ConformPage,
+  type RevisionChainEntry,
+  type RevisionPageSnapshot,
+  type RevisionTarget,
+} from './conformed-set'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+const PAGE_SIZE = 1000
+const ID_CHUNK = 200
+
+const CONFORM_PAGE_COLUMNS =
+  'id, document_id, page_number, sheet_number, spec_section, revision, revision_sequence, superseded_by_page_id'
+
+interface ConformPageRow {
+  id: string
+  document_id: string
+  page_number: number
+  sheet_number: string | null
+  spec_section: string | null
+  revision: string | null
+  revision_sequence: number | null
+  superseded_by_page_id: string | null
+}
+
+function rowToConformPage(row: ConformPageRow): ConformPage {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    pageNumber: row.page_number,
+    sheetNumber: row.sheet_number,
+    specSection: row.spec_section,
+    revision: row.revision,
+    revisionSequence: row.revision_sequence ?? 0,
+    supersededByPageId: row.superseded_by_page_id,
+  }
+}
+
+export type ConformOutcome =
+  | { status: 'conformed'; revision: string; revisionSequence: number; pageIds: string[]; supersededPageIds: string[] }
+  | { status: 'not_revision' }
+  // Pages are not indexed yet; conforming runs again when they are.
+  | { status: 'pending' }
+  | { status: 'no_pages'; error: string }
+  | { status: 'not_newer'; error: string }
+  | { status: 'error'; error: string }
+
+// Page text of a document's chunks, keyed by page number.
+async function loadChunkPages(
+  supabase: ServiceClient,
+  documentIds: string[],
+  pageNumbers?: number[]
+): Promise<{ pages: Map<string, string>; error: string | null }> {
+  const pages = new Map<string, string>()
+  for (let i = 0; i < documentIds.length; i += ID_CHUNK) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase
+        .from('document_chunks')
+        .select('document_id, page_number, content')
+        .in('document_id', documentIds.slice(i, i + ID_CHUNK))
+        .not('page_number', 'is', null)
+      if (pageNumbers) query = query.in('page_number', pageNumbers)
+      const { data, error } = await query
+        .order('document_id', { ascending: true })
+        .order('chunk_index', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+      if (error) return { pages, error: error.message }
+      for (const c of data ?? []) {
+        const key = `${c.document_id}::${c.page_number}`
+        pages.set(key, pages.has(key) ? `${pages.get(key)}\n${c.content}` : c.content)
+      }
+      if ((data ?? []).length < PAGE_SIZE) break
+    }
+  }
+  return { pages, error: null }
+}
+
+/**
+ * Spec documents are not vision-indexed, so a section revision first writes
+ * document_pages rows from document_chunks: every page of the revision
+ * document, and the pages of earlier spec documents headed or footed with the
+ * section. Existing rows keep their supersession columns.
+ */
+async function ensureSpecSectionPages(
+  supabase: ServiceClient,
+  projectId: string,
+  documentId: string,
+  sectionKey: string,
+  sectionLabel: string
+): Promise<string | null> {
+  const own = await loadChunkPages(supabase, [documentId])
+  if (own.error) return own.error
+
+  const { data: specDocs, error: docErr } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('document_type', 'spec')
+    .neq('id', documentId)
+  if (docErr) return docErr.message
+
+  // Pages that mention the section, then their full text to read the heading.
+  const mentioned = new Set<string>()
+  const priorIds = (specDocs ?? []).map(d => d.id)
+  for (const pattern of new Set([sectionLabel, sectionKey])) {
+    for (let i = 0; i < priorIds.length; i += ID_CHUNK) {
+      const { data, error } = await supabase
+        .from('document_chunks')
+        .select('document_id, page_number')
+        .in('document_id', priorIds.slice(i, i + ID_CHUNK))
+        .not('page_number', 'is', null)
+        .ilike('content', `%${pattern}%`)
+        .limit(PAGE_SIZE)
+      if (error) return error.message
+      for (const c of data ?? []) mentioned.add(`${c.document_id}::${c.page_number}`)
+    }
+  }
+  const mentionedDocs = [...new Set([...mentioned].map(k => k.split('::')[0]))]
+  const mentionedPages = [...new Set([...mentioned].map(k => Number(k.split('::')[1])))]
+  const prior = mentionedDocs.length > 0
+    ? await loadChunkPages(supabase, mentionedDocs, mentionedPages)
+    : { pages: new Map<string, string>(), error: null }
+  if (prior.error) return prior.error
+
+  const rows: Array<{
+    document_id: string
+    project_id: string
+    page_number: number
+    sheet_type: string
+    spec_section: string
+    text_content: string
+  }> = []
+  for (const [key, text] of own.pages) {
+    const [docId, page] = key.split('::')
+    rows.push({ document_id: docId, project_id: projectId, page_number: Number(page), sheet_type: 'unknown', spec_section: sectionKey, text_content: text })
+  }
+  for (const [key, text] of prior.pages) {
+    if (!mentioned.has(key) || pageSpecSection(text) !== sectionKey) continue
+    const [docId, page] = key.split('::')
+    rows.push({ document_id: docId, project_id: projectId, page_number: Number(page), sheet_type: 'unknown', spec_section: sectionKey, text_content: text })
+  }
+
+  for (let i = 0; i < rows.length; i += ID_CHUNK) {
+    const { error } = await supabase
+      .from('document_pages')
+      .upsert(rows.slice(i, i + ID_CHUNK), { onConflict: 'document_id,page_number' })
+    if (error) return error.message
+  }
+  return null
+}
+
+async function recordConformResult(
+  supabase: ServiceClient,
+  documentId: string,
+  error: string | null
+): Promise<void> {
+  const { error: updateErr } = await supabase
+    .from('documents')
+    .update(error ? { conform_error: error } : { conformed_at: new Date().toISOString(), conform_error: null })
+    .eq('id', documentId)
+  if (updateErr) console.error('[ConformedSet] Conform status write failed:', updateErr.message)
+}
+
+/**
+ * Joins a revision document's pages to the supersession chain of its target
+ * sheet or spec section (planConformance). Safe to re-run: a conformed
+ * document plans no further supersessions. Called when the document's pages
+ * are indexed (vision finalize for drawings, text processing for specs) and
+ * when a revision is marked on an existing upload.
+ */
+export async function conformDocumentRevision(
+  supabase: ServiceClient,
+  documentId: string
+): Promise<ConformOutcome> {
+  const { data: doc, error: docErr } = await supabase
+    .from('documents')
+    .select('id, project_id, revision, revision_target_type, revision_target_ref')
+    .eq('id', documentId)
+    .maybeSingle()
+  if (docErr) return { status: 'error', error: docErr.message }
+  if (!doc || !doc.project_id) return { status: 'error', error: 'Document not found' }
+  if (!isRevisionTargetType(doc.revision_target_type) || !doc.revision_target_ref || !doc.revision) {
+    return { status: 'not_revision' }
+  }
+
+  const projectId = doc.project_id
+  const target: RevisionTarget = { targetType: doc.revision_target_type, targetRef: doc.revision_target_ref }
+  const key = revisionTargetKey(target)
+
+  if (target.targetType === 'spec_section') {
+    const specErr = await ensureSpecSectionPages(supabase, projectId, documentId, key, target.targetRef)
+    if (specErr) return { status: 'error', error: specErr }
+  }
+
+  const { data: ownRows, error: ownErr } = await supabase
+    .from('document_pages')
+    .select(CONFORM_PAGE_COLUMNS)
+    .eq('document_id', documentId)
+  if (ownErr) return { status: 'error', error: ownErr.message }
+  if ((ownRows ?? []).length === 0) return { status: 'pending' }
+
+  let candidates = supabase.from('document_pages').select(CONFORM_PAGE_COLUMNS).eq('project_id', projectId)
+  candidates = target.targetType === 'sheet'
+    ? candidates.in('sheet_number', sheetNumberVariants([target.targetRef]))
+    : candidates.eq('spec_section', key)
+  const { data: projectRows, error: projectErr } = await candidates
+  if (projectErr) return { status: 'error', error: projectErr.message }
+
+  const plan = planConformance(
+    target,
+    doc.revision,
+    documentId,
+    (ownRows as ConformPageRow[]).map(rowToConformPage),
+    (projectRows as ConformPageRow[]).map(rowToConformPage)
+  )
+  if (plan.status === 'no_pages') {
+    const error = `No page of this document is ${target.targetType === 'sheet' ? 'sheet' : 'section'} ${target.targetRef}`
+    await recordConformResult(supabase, documentId, error)
+    return { status: 'no_pages', error }
+  }
+  if (plan.status === 'not_newer') {
+    const error = `Rev ${doc.revision} is not newer than the current Rev ${plan.currentRevision} of ${target.targetRef}`
+    await recordConformResult(supabase, documentId, error)
+    return { status: 'not_newer', error }
+  }
+
+  for (const p of plan.pages) {
+    const { error } = await supabase
+      .from('document_pages')
+      .update({
+        sheet_number: p.sheetNumber,
+        spec_section: p.specSection,
+        revision: p.revision,
+        revision_sequence: p.revisionSequence,
+        ...(p.supersedesPageId ? { supersedes_page_id: p.supersedesPageId } : {}),
+      })
+      .eq('id', p.pageId)
+    if (error) return { status: 'error', error: error.message }
+  }
+
+  // Guarded on superseded_by_page_id IS NULL: a concurrent conform of another
+  // revision keeps the supersession it wrote first.
+  const supersededAt = new Date().toISOString()
+  const supersededPageIds: string[] = []
+  for (const s of plan.superseded) {
+    const { data, error } = await supabase
+      .from('document_pages')
+      .update({ superseded_by_page_id: s.supersededByPageId, superseded_at: supersededAt })
+      .eq('id', s.pageId)
+      .is('superseded_by_page_id', null)
+      .select('id')
+    if (error) return { status: 'error', error: error.message }
+    if ((data ?? []).length > 0) supersededPageIds.push(s.pageId)
+  }
+
+  await recordConformResult(supabase, documentId, null)
+  return {
+    status: 'conformed',
+    revision: plan.pages[0].revision,
+    revisionSequence: plan.pages[0].revisionSequence,
+    pageIds: plan.pages.map(p => p.pageId),
+    supersededPageIds,
+  }
+}
+
+interface RevisionPageRow extends ConformPageRow {
+  sheet_title: string | null
+  text_content: string | null
+  detail_refs: string[] | null
+  cross_references: string[] | null
+}
+
+/**
+ * Every page ever issued for a sheet or spec section, superseded ones
+ * included, grouped into revisions (buildRevisionChain).
+ */
+export async function loadRevisionChain(
+  supabase: ServiceClient,
+  projectId: string,
+  target: RevisionTarget
+): Promise<{ chain: RevisionChainEntry[]; error: string | null }> {
+  let query = supabase
+    .from('document_pages')
+    .select(`${CONFORM_PAGE_COLUMNS}, sheet_title, text_content, detail_refs, cross_references`)
+    .eq('project_id', projectId)
+  query = target.targetType === 'sheet'
+    ? query.in('sheet_number', sheetNumberVariants([target.targetRef]))
+    : query.eq('spec_section', revisionTargetKey(target))
+  const { data, error } = await query
+  if (error) return { chain: [], error: error.message }
+  const rows = (data ?? []) as unknown as RevisionPageRow[]
+  if (rows.length === 0) return { chain: [], error: null }
+
+  const { data: docs, error: docErr } = await supabase
+    .from('documents')
+    .select('id, filename')
+    .in('id', [...new Set(rows.map(r => r.document_id))])
+  if (docErr) return { chain: [], error: docErr.message }
+  const filenames = new Map((docs ?? []).map(d => [d.id, d.filename]))
+
+  const entities = new Map<string, string[]>()
+  const pageIds = rows.map(r => r.id)
+  for (let i = 0; i < pageIds.length; i += ID_CHUNK) {
+    const { data: ents, error: entErr } = await supabase
+      .from('sheet_entities')
+      .select('document_page_id, entity_type, entity_value')
+      .in('document_page_id', pageIds.slice(i, i + ID_CHUNK))
+    if (entErr) return { chain: [], error: entErr.message }
+    for (const e of ents ?? []) {
+      if (!entities.has(e.document_page_id)) entities.set(e.document_page_id, [])
+      entities.get(e.document_page_id)!.push(`${e.entity_type}: ${e.entity_value}`)
+    }
+  }
+
+  const snapshots: RevisionPageSnapshot[] = rows.map(r => ({
+    pageId: r.id,
+    documentId: r.document_id,
+    filename: filenames.get(r.document_id) ?? r.document_id,
+    pageNumber: r.page_number,
+    sheetNumber: r.sheet_number,
+    sheetTitle: r.sheet_title,
+    specSection: r.spec_section,
+    revision: r.revision,
+    revisionSequence: r.revision_sequence ?? 0,
+    supersededByPageId: r.superseded_by_page_id,
+    textContent: r.text_content,
+    detailRefs: r.detail_refs ?? [],
+    crossReferences: r.cross_references ?? [],
+    entities: entities.get(r.id) ?? [],
+  }))
+  return { chain: buildRevisionChain(snapshots), error: null }
+}
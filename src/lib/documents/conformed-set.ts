@@ -0,0 +1,374 @@
+/**
+ * Conformed set — pure logic for document revisions.
+ *
+ * An upload can be marked as a revision of an earlier sheet ('C-101') or spec
+ * section ('03 30 00'). Once its pages are indexed, the matching pages of the
+ * new document supersede the current pages for that sheet or section:
+ *
+ *   document_pages.supersedes_page_id     new page → the page it replaced
+ *   document_pages.superseded_by_page_id  old page → the page that replaced it
+ *   document_pages.revision_sequence      0 for the original, +1 per revision
+ *
+ * The conformed set is every page with superseded_by_page_id IS NULL; chat
+ * retrieval reads only those unless a revision comparison asks for history.
+ * Deleting a revision document nulls superseded_by_page_id on the pages it
+ * replaced (ON DELETE SET NULL), so the previous revision is current again.
+ *
+ * conformed-set-persistence.ts applies the plan.
+ */
+
+import { normalizeSpecSectionForFow } from '../graph/fow-readiness.ts'
+import { sheetKey } from '../rfi/rfi-impact.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const REVISION_TARGET_TYPES = ['sheet', 'spec_section'] as const
+export type RevisionTargetType = (typeof REVISION_TARGET_TYPES)[number]
+
+export interface RevisionTarget {
+  targetType: RevisionTargetType
+  // Sheet number or spec section as entered, e.g. 'C-101', '03 30 00'.
+  targetRef: string
+}
+
+/** document_pages row as conforming needs it. */
+export interface ConformPage {
+  id: string
+  documentId: string
+  pageNumber: number
+  sheetNumber: string | null
+  // 6-digit section for spec pages.
+  specSection: string | null
+  revision: string | null
+  revisionSequence: number
+  supersededByPageId: string | null
+}
+
+export interface ConformPageUpdate {
+  pageId: string
+  sheetNumber: string | null
+  specSection: string | null
+  revision: string
+  revisionSequence: number
+  supersedesPageId: string | null
+}
+
+export type ConformancePlan =
+  | {
+      status: 'planned'
+      pages: ConformPageUpdate[]
+      superseded: Array<{ pageId: string; supersededByPageId: string }>
+    }
+  | { status: 'no_pages' }
+  | { status: 'not_newer'; currentRevision: string }
+
+/** One page of a sheet or section at one revision, with what a diff reads. */
+export interface RevisionPageSnapshot {
+  pageId: string
+  documentId: string
+  filename: string
+  pageNumber: number
+  sheetNumber: string | null
+  sheetTitle: string | null
+  specSection: string | null
+  revision: string | null
+  revisionSequence: number
+  supersededByPageId: string | null
+  textContent: string | null
+  detailRefs: string[]
+  crossReferences: string[]
+  // 'entity_type: value', e.g. 'structure: MH-12'.
+  entities: string[]
+}
+
+export interface RevisionChainEntry {
+  // Label as uploaded ('3', 'B'), or 'Original' for the unrevised set.
+  revision: string
+  revisionSequence: number
+  documentId: string
+  filename: string
+  current: boolean
+  pages: RevisionPageSnapshot[]
+}
+
+export interface RevisionDiff {
+  titleChange: { from: string | null; to: string | null } | null
+  addedLines: string[]
+  removedLines: string[]
+  addedEntities: string[]
+  removedEntities: string[]
+  addedDetailRefs: string[]
+  removedDetailRefs: string[]
+  addedCrossReferences: string[]
+  removedCrossReferences: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Revision labels and targets
+// ---------------------------------------------------------------------------
+
+// 'Rev 3', 'REV. 3', 'Revision 3', 'R3' → '3'; 'Rev B' → 'B'.
+export function normalizeRevisionLabel(label: string | null | undefined): string {
+  if (!label) return ''
+  return label
+    .trim()
+    .replace(/^(?:rev(?:ision)?\.?|r(?=\d))\s*/i, '')
+    .replace(/^#/, '')
+    .trim()
+    .toUpperCase()
+}
+
+/** Numeric labels compare as numbers, others ('A' < 'B' < 'AA') by length then text. */
+export function compareRevisionLabels(a: string, b: string): number {
+  const x = normalizeRevisionLabel(a)
+  const y = normalizeRevisionLabel(b)
+  if (/^\d+$/.test(x) && /^\d+$/.test(y)) return Number(x) - Number(y)
+  if (x.length !== y.length) return x.length - y.length
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+export function isRevisionTargetType(value: unknown): value is RevisionTargetType {
+  return typeof value === 'string' && (REVISION_TARGET_TYPES as readonly string[]).includes(value)
+}
+
+// Comparison key: sheet key ('C101') or 6-digit section ('033000').
+export function revisionTargetKey(target: RevisionTarget): string {
+  return target.targetType === 'sheet'
+    ? sheetKey(target.targetRef)
+    : normalizeSpecSectionForFow(target.targetRef)
+}
+
+function pageKey(page: Pick<ConformPage, 'sheetNumber' | 'specSection'>, targetType: RevisionTargetType): string | null {
+  if (targetType === 'sheet') return page.sheetNumber ? sheetKey(page.sheetNumber) : null
+  return page.specSection
+}
+
+/**
+ * Section a spec page belongs to: its 'SECTION 03 30 00' heading, else the
+ * '03 30 00 - 4' page footer. Null when the page names neither.
+ */
+export function pageSpecSection(text: string | null | undefined): string | null {
+  if (!text) return null
+  const heading = text.match(/\bSECTION\s+(\d{2}\s?\d{2}\s?\d{2})\b/i)
+  if (heading) return normalizeSpecSectionForFow(heading[1])
+  const footer = text.match(/^\s*(\d{2}\s\d{2}\s\d{2})\s*[-–]\s*\d+\s*$/m)
+  return footer ? normalizeSpecSectionForFow(footer[1]) : null
+}
+
+// ---------------------------------------------------------------------------
+// Conformance
+// ---------------------------------------------------------------------------
+
+/**
+ * Plans how the revision document's pages join the supersession chain.
+ *
+ * Revision pages are the document's pages for the target. A single-page sheet
+ * upload whose title block was not read counts as the target sheet, and a
+ * spec revision with no recognised section pages counts whole. The current
+ * pages of the target in other documents are superseded by the first revision
+ * page; the revision must be newer than the current revision label.
+ *
+ * Re-running after a successful conform plans no supersessions and keeps the
+ * sequence already stored on the revision pages.
+ */
+export function planConformance(
+  target: RevisionTarget,
+  revision: string,
+  documentId: string,
+  documentPages: ConformPage[],
+  projectPages: ConformPage[]
+): ConformancePlan {
+  const key = revisionTargetKey(target)
+  const byPage = (a: ConformPage, b: ConformPage) => a.pageNumber - b.pageNumber
+
+  let revisionPages = documentPages.filter(p => pageKey(p, target.targetType) === key).sort(byPage)
+  if (revisionPages.length === 0) {
+    if (target.targetType === 'spec_section') revisionPages = [...documentPages].sort(byPage)
+    else if (documentPages.length === 1 && !documentPages[0].sheetNumber) revisionPages = documentPages
+  }
+  if (revisionPages.length === 0) return { status: 'no_pages' }
+
+  const current = projectPages
+    .filter(p => p.documentId !== documentId && !p.supersededByPageId && pageKey(p, target.targetType) === key)
+    .sort((a, b) => b.revisionSequence - a.revisionSequence || byPage(a, b))
+
+  const newest = current.find(p => p.revision)
+  if (newest?.revision && compareRevisionLabels(revision, newest.revision) <= 0) {
+    return { status: 'not_newer', currentRevision: newest.revision }
+  }
+
+  const head = revisionPages[0]
+  const revisionSequence = current.length > 0
+    ? Math.max(...current.map(p => p.revisionSequence)) + 1
+    : head.revisionSequence
+  const supersedesPageId = current.length > 0 ? current[0].id : null
+
+  return {
+    status: 'planned',
+    pages: revisionPages.map(p => ({
+      pageId: p.id,
+      sheetNumber: target.targetType === 'sheet' ? (p.sheetNumber ?? target.targetRef) : p.sheetNumber,
+      specSection: target.targetType === 'spec_section' ? key : p.specSection,
+      revision: normalizeRevisionLabel(revision),
+      revisionSequence,
+      // Only the head page carries the back-link; re-runs keep it.
+      supersedesPageId: p.id === head.id ? supersedesPageId : null,
+    })),
+    superseded: current.map(p => ({ pageId: p.id, supersededByPageId: head.id })),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Revision chain and comparison
+// ---------------------------------------------------------------------------
+
+/** Groups a sheet's or section's pages by document, oldest revision first. */
+export function buildRevisionChain(pages: RevisionPageSnapshot[]): RevisionChainEntry[] {
+  const byDocument = new Map<string, RevisionPageSnapshot[]>()
+  for (const p of pages) {
+    if (!byDocument.has(p.documentId)) byDocument.set(p.documentId, [])
+    byDocument.get(p.documentId)!.push(p)
+  }
+  return [...byDocument.values()]
+    .map(docPages => {
+      const sorted = [...docPages].sort((a, b) => a.pageNumber - b.pageNumber)
+      const first = sorted[0]
+      return {
+        revision: first.revision ? normalizeRevisionLabel(first.revision) : 'Original',
+        revisionSequence: first.revisionSequence,
+        documentId: first.documentId,
+        filename: first.filename,
+        current: sorted.some(p => !p.supersededByPageId),
+        pages: sorted,
+      }
+    })
+    .sort((a, b) => a.revisionSequence - b.revisionSequence)
+}
+
+/**
+ * Picks the two chain entries to compare. 'to' defaults to the current
+ * revision and 'from' to the revision before 'to'. Labels match loosely:
+ * 'Rev 2', '2' and 'R2' are the same revision; 'original' / '0' is the
+ * unrevised set.
+ */
+export function selectRevisionPair(
+  chain: RevisionChainEntry[],
+  fromRevision?: string | null,
+  toRevision?: string | null
+): { from: RevisionChainEntry; to: RevisionChainEntry } | { error: string } {
+  if (chain.length < 2) return { error: 'Only one revision is on file.' }
+
+  const find = (label: string) => {
+    const wanted = normalizeRevisionLabel(label)
+    return chain.find(e =>
+      normalizeRevisionLabel(e.revision) === wanted ||
+      (e.revision === 'Original' && (wanted === 'ORIGINAL' || wanted === '0'))
+    )
+  }
+  const labels = chain.map(e => e.revision).join(', ')
+
+  const to = toRevision ? find(toRevision) : (chain.find(e => e.current) ?? chain[chain.length - 1])
+  if (!to) return { error: `Revision ${toRevision} is not on file (available: ${labels}).` }
+
+  const toIndex = chain.indexOf(to)
+  const from = fromRevision ? find(fromRevision) : chain[toIndex - 1]
+  if (!from) {
+    return { error: fromRevision ? `Revision ${fromRevision} is not on file (available: ${labels}).` : `Nothing precedes revision ${to.revision}.` }
+  }
+  if (from === to) return { error: 'Pick two different revisions to compare.' }
+  return chain.indexOf(from) < toIndex ? { from, to } : { from: to, to: from }
+}
+
+// Short lines are mostly dimension fragments and page furniture.
+const MIN_LINE_LENGTH = 4
+
+function textLines(pages: RevisionPageSnapshot[]): string[] {
+  const lines = new Set<string>()
+  for (const p of pages) {
+    for (const raw of (p.textContent ?? '').split('\n')) {
+      const line = raw.replace(/\s+/g, ' ').trim()
+      if (line.length >= MIN_LINE_LENGTH) lines.add(line)
+    }
+  }
+  return [...lines]
+}
+
+function setDiff(from: string[], to: string[]): { added: string[]; removed: string[] } {
+  const a = new Set(from)
+  const b = new Set(to)
+  return {
+    added: [...b].filter(x => !a.has(x)),
+    removed: [...a].filter(x => !b.has(x)),
+  }
+}
+
+export function diffRevisions(from: RevisionChainEntry, to: RevisionChainEntry): RevisionDiff {
+  const fromTitle = from.pages[0]?.sheetTitle ?? null
+  const toTitle = to.pages[0]?.sheetTitle ?? null
+  const lines = setDiff(textLines(from.pages), textLines(to.pages))
+  const entities = setDiff(from.pages.flatMap(p => p.entities), to.pages.flatMap(p => p.entities))
+  const details = setDiff(from.pages.flatMap(p => p.detailRefs), to.pages.flatMap(p => p.detailRefs))
+  const refs = setDiff(from.pages.flatMap(p => p.crossReferences), to.pages.flatMap(p => p.crossReferences))
+  return {
+    titleChange: fromTitle !== toTitle ? { from: fromTitle, to: toTitle } : null,
+    addedLines: lines.added,
+    removedLines: lines.removed,
+    addedEntities: entities.added,
+    removedEntities: entities.removed,
+    addedDetailRefs: details.added,
+    removedDetailRefs: details.removed,
+    addedCrossReferences: refs.added,
+    removedCrossReferences: refs.removed,
+  }
+}
+
+// Lines shown per added/removed list; the rest are counted.
+const MAX_LINES_SHOWN = 25
+
+function revisionName(entry: RevisionChainEntry): string {
+  return entry.revision === 'Original' ? 'the original issue' : `Rev ${entry.revision}`
+}
+
+export function formatRevisionComparison(
+  ref: string,
+  chain: RevisionChainEntry[],
+  from: RevisionChainEntry,
+  to: RevisionChainEntry,
+  diff: RevisionDiff
+): string {
+  const lines = [
+    `Changes to ${ref} from ${revisionName(from)} (${from.filename}) to ${revisionName(to)} (${to.filename}):`,
+    `Revision history: ${chain.map(e => (e.current ? `${e.revision} (current)` : e.revision)).join(' → ')}`,
+    '',
+  ]
+
+  const list = (label: string, items: string[]) => {
+    if (items.length === 0) return
+    lines.push(`${label} (${items.length}):`)
+    for (const item of items.slice(0, MAX_LINES_SHOWN)) lines.push(`  - ${item}`)
+    if (items.length > MAX_LINES_SHOWN) lines.push(`  … ${items.length - MAX_LINES_SHOWN} more`)
+  }
+
+  if (diff.titleChange) {
+    lines.push(`Title: "${diff.titleChange.from ?? '—'}" → "${diff.titleChange.to ?? '—'}"`)
+  }
+  list('Added entities', diff.addedEntities)
+  list('Removed entities', diff.removedEntities)
+  list('Added detail references', diff.addedDetailRefs)
+  list('Removed detail references', diff.removedDetailRefs)
+  list('Added sheet references', diff.addedCrossReferences)
+  list('Removed sheet references', diff.removedCrossReferences)
+  list('Added text', diff.addedLines)
+  list('Removed text', diff.removedLines)
+
+  const changed = diff.titleChange || [
+    diff.addedEntities, diff.removedEntities, diff.addedDetailRefs, diff.removedDetailRefs,
+    diff.addedCrossReferences, diff.removedCrossReferences, diff.addedLines, diff.removedLines,
+  ].some(l => l.length > 0)
+  if (!changed) lines.push('No differences found in the indexed text, entities or references.')
+
+  lines.push('', 'Compared from indexed sheet text and extracted entities; confirm clouded changes on the drawings.')
+  return lines.join('\n')
+}
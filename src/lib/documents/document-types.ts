@@ -4,7 +4,8 @@
  * The user picks a type at upload time and the pipeline branches on it:
  *   - drawing  → full vision pipeline (callout + crossing + termination + quantity)
  *   - spec     → text-only; spec-extractor will run when wired (A3)
- *   - schedule → text-only; schedule-extractor when built (deferred)
+ *   - schedule → .xer / .xml exports import into schedule_versions (schedule-parser);
+ *                PDFs are text-only
  *   - submittal→ text-only; chunked + embedded for retrieval
  *   - other    → text-only; minimal handling
  *
@@ -34,7 +35,7 @@ export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
 export const DOCUMENT_TYPE_HELP: Record<DocumentType, string> = {
   drawing: 'Plans, details, redlines. Goes through vision analysis.',
   spec: 'CSI-format specifications, project manuals. Text extraction only.',
-  schedule: 'Project schedule (P6, MS Project, Gantt). Text extraction only.',
+  schedule: 'Project schedule. P6 .xer and MS Project .xml import as a schedule version; PDFs are text extraction only.',
   submittal: 'Product data, shop drawings, manufacturer cut sheets. Text extraction only.',
   other: 'Anything that does not fit the above. Text extraction only.',
 }
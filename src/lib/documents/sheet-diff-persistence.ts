@@ -0,0 +1,337 @@
+/**
+ * Visual sheet diff persistence: for each page of a conformed sheet revision
+ * and the page it superseded, render both, pixel-diff them (sheet-diff.ts),
+ * upload the red / green overlay to the documents bucket, describe each
+ * changed region with a focused vision pass and store the result on
+ * sheet_revision_diffs against the newer document.
+ *
+ * Runs from the document/sheet-diff.requested Inngest function, one page pair
+ * per step.
+ */
+
+import { createServiceRoleClient } from '../db/supabase/service'
+import { getDocumentSignedUrl } from '../db/queries/documents'
+import {
+  analyzeSheetWithVision,
+  buildSheetChangePrompt,
+  parseSheetChangeResult,
+} from '../vision/claude-vision'
+import {
+  changeKind,
+  countUncloudedChanges,
+  diffSheetImages,
+  padRegion,
+  renderDiffOverlay,
+  type SheetAlignment,
+  type SheetChange,
+} from './sheet-diff'
+import { cropRegionPair, encodeRasterPng, renderRevisionPair } from './sheet-diff-render'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+// Regions sent to vision per page pair (largest first); the rest are listed
+// without a description.
+const MAX_VISION_REGIONS = 8
+// Context around a region in the vision crop, so revision clouds are in frame.
+const VISION_CROP_PAD = 64
+// Below this share of changed ink the sheets are treated as identical.
+const MIN_CHANGED_RATIO = 0.0005
+
+// Vision answer for a region that is only line weight or shading noise.
+const NO_CHANGE_PATTERN = /^no substantive change/i
+
+/** A revision page and the page it superseded. */
+export interface SheetDiffPair {
+  projectId: string
+  documentId: string
+  pageId: string
+  pageNumber: number
+  sheetNumber: string | null
+  revision: string | null
+  previousPageId: string
+  previousDocumentId: string
+  previousPageNumber: number
+  previousRevision: string | null
+}
+
+export type SheetDiffOutcome =
+  | { status: 'completed'; changes: number; unclouded: number; costUsd: number }
+  | { status: 'no_changes' }
+  | { status: 'failed'; error: string }
+
+/** Stored diff as the API and chat read it. */
+export interface StoredSheetDiff {
+  id: string
+  documentId: string
+  pageId: string
+  previousPageId: string
+  sheetNumber: string | null
+  fromRevision: string | null
+  toRevision: string | null
+  status: 'completed' | 'no_changes' | 'failed'
+  overlayPath: string | null
+  alignment: SheetAlignment | null
+  changedRatio: number | null
+  changes: SheetChange[]
+  uncloudedCount: number
+  error: string | null
+  updatedAt: string
+}
+
+interface SheetDiffRow {
+  id: string
+  document_id: string
+  page_id: string
+  previous_page_id: string
+  sheet_number: string | null
+  from_revision: string | null
+  to_revision: string | null
+  status: string
+  overlay_path: string | null
+  alignment: unknown
+  changed_ratio: number | null
+  changes: unknown
+  unclouded_count: number
+  error: string | null
+  updated_at: string
+}
+
+const SHEET_DIFF_COLUMNS =
+  'id, document_id, page_id, previous_page_id, sheet_number, from_revision, to_revision, status, overlay_path, alignment, changed_ratio, changes, unclouded_count, error, updated_at'
+
+function rowToStoredDiff(row: SheetDiffRow): StoredSheetDiff {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    pageId: row.page_id,
+    previousPageId: row.previous_page_id,
+    sheetNumber: row.sheet_number,
+    fromRevision: row.from_revision,
+    toRevision: row.to_revision,
+    status: row.status as StoredSheetDiff['status'],
+    overlayPath: row.overlay_path,
+    alignment: (row.alignment as SheetAlignment | null) ?? null,
+    changedRatio: row.changed_ratio === null ? null : Number(row.changed_ratio),
+    changes: Array.isArray(row.changes) ? (row.changes as SheetChange[]) : [],
+    uncloudedCount: row.unclouded_count,
+    error: row.error,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Page pairs to diff for a sheet revision document: each of its pages that
+ * supersedes an earlier page. Empty for spec revisions and unconformed
+ * documents.
+ */
+export async function listSheetDiffPairs(
+  supabase: ServiceClient,
+  documentId: string
+): Promise<{ pairs: SheetDiffPair[]; error: string | null }> {
+  const { data: doc, error: docErr } = await supabase
+    .from('documents')
+    .select('id, project_id, revision_target_type')
+    .eq('id', documentId)
+    .maybeSingle()
+  if (docErr) return { pairs: [], error: docErr.message }
+  if (!doc?.project_id || doc.revision_target_type !== 'sheet') return { pairs: [], error: null }
+
+  const { data: pages, error: pageErr } = await supabase
+    .from('document_pages')
+    .select('id, page_number, sheet_number, revision, supersedes_page_id')
+    .eq('document_id', documentId)
+    .not('supersedes_page_id', 'is', null)
+  if (pageErr) return { pairs: [], error: pageErr.message }
+  if (!pages || pages.length === 0) return { pairs: [], error: null }
+
+  const { data: previous, error: prevErr } = await supabase
+    .from('document_pages')
+    .select('id, document_id, page_number, revision')
+    .in('id', pages.map(p => p.supersedes_page_id as string))
+  if (prevErr) return { pairs: [], error: prevErr.message }
+  const previousById = new Map((previous ?? []).map(p => [p.id, p]))
+
+  const pairs: SheetDiffPair[] = []
+  for (const p of pages) {
+    const prev = previousById.get(p.supersedes_page_id as string)
+    if (!prev) continue
+    pairs.push({
+      projectId: doc.project_id,
+      documentId,
+      pageId: p.id,
+      pageNumber: p.page_number,
+      sheetNumber: p.sheet_number,
+      revision: p.revision,
+      previousPageId: prev.id,
+      previousDocumentId: prev.document_id,
+      previousPageNumber: prev.page_number,
+      previousRevision: prev.revision,
+    })
+  }
+  return { pairs, error: null }
+}
+
+async function downloadDocumentPdf(supabase: ServiceClient, documentId: string): Promise<Buffer> {
+  const { data: doc, error } = await supabase
+    .from('documents')
+    .select('file_path')
+    .eq('id', documentId)
+    .maybeSingle()
+  if (error) throw new Error(`Document lookup failed: ${error.message}`)
+  if (!doc?.file_path) throw new Error(`Document ${documentId} has no file`)
+  const signedUrl = await getDocumentSignedUrl(supabase, doc.file_path)
+  const response = await fetch(signedUrl)
+  if (!response.ok) throw new Error(`PDF download failed (${response.status})`)
+  return Buffer.from(await response.arrayBuffer())
+}
+
+export function sheetDiffOverlayPath(pair: Pick<SheetDiffPair, 'projectId' | 'documentId' | 'pageId'>): string {
+  // First folder is the project id, which the documents bucket policies check.
+  return `${pair.projectId}/sheet-diffs/${pair.documentId}/${pair.pageId}.png`
+}
+
+async function saveSheetDiff(
+  supabase: ServiceClient,
+  pair: SheetDiffPair,
+  fields: {
+    status: StoredSheetDiff['status']
+    overlayPath?: string | null
+    alignment?: SheetAlignment | null
+    changedRatio?: number | null
+    changes?: SheetChange[]
+    costUsd?: number
+    error?: string | null
+  }
+): Promise<string | null> {
+  const changes = fields.changes ?? []
+  const { error } = await supabase
+    .from('sheet_revision_diffs')
+    .upsert(
+      {
+        project_id: pair.projectId,
+        document_id: pair.documentId,
+        page_id: pair.pageId,
+        previous_page_id: pair.previousPageId,
+        sheet_number: pair.sheetNumber,
+        from_revision: pair.previousRevision,
+        to_revision: pair.revision,
+        status: fields.status,
+        overlay_path: fields.overlayPath ?? null,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        alignment: (fields.alignment ?? null) as any,
+        changed_ratio: fields.changedRatio ?? null,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        changes: changes as any,
+        unclouded_count: countUncloudedChanges(changes),
+        vision_cost_usd: fields.costUsd ?? 0,
+        error: fields.error ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'page_id,previous_page_id' }
+    )
+  return error ? error.message : null
+}
+
+/**
+ * Renders, diffs and describes one page pair and stores the result. Failures
+ * are stored as status 'failed' rather than thrown, except the final write.
+ */
+export async function diffSheetRevisionPair(
+  supabase: ServiceClient,
+  pair: SheetDiffPair
+): Promise<SheetDiffOutcome> {
+  let outcome: SheetDiffOutcome
+  try {
+    const toPdf = await downloadDocumentPdf(supabase, pair.documentId)
+    const fromPdf = pair.previousDocumentId === pair.documentId
+      ? toPdf
+      : await downloadDocumentPdf(supabase, pair.previousDocumentId)
+    const { from, to } = await renderRevisionPair(fromPdf, pair.previousPageNumber, toPdf, pair.pageNumber)
+    const diff = diffSheetImages(from, to)
+
+    if (diff.changedRatio < MIN_CHANGED_RATIO || diff.regions.length === 0) {
+      const saveErr = await saveSheetDiff(supabase, pair, {
+        status: 'no_changes',
+        alignment: diff.alignment,
+        changedRatio: diff.changedRatio,
+      })
+      if (saveErr) throw new Error(saveErr)
+      return { status: 'no_changes' }
+    }
+
+    const overlayPath = sheetDiffOverlayPath(pair)
+    const overlayPng = await encodeRasterPng(renderDiffOverlay(diff, to.width, to.height))
+    const { error: uploadErr } = await supabase.storage
+      .from('documents')
+      .upload(overlayPath, overlayPng, { contentType: 'image/png', upsert: true })
+    if (uploadErr) throw new Error(`Overlay upload failed: ${uploadErr.message}`)
+
+    const prompt = buildSheetChangePrompt(pair.sheetNumber, pair.previousRevision, pair.revision)
+    const changes: SheetChange[] = []
+    let costUsd = 0
+    for (const [i, region] of diff.regions.entries()) {
+      const change: SheetChange = { region, kind: changeKind(region), description: null, clouded: null }
+      if (i < MAX_VISION_REGIONS) {
+        try {
+          const crop = await cropRegionPair(from, to, padRegion(region, VISION_CROP_PAD, to.width, to.height), diff.alignment)
+          const result = await analyzeSheetWithVision(crop, { customPrompt: prompt, taskType: 'extraction', maxTokens: 1024 })
+          costUsd += result.costUsd
+          const parsed = parseSheetChangeResult(result.rawAnalysis ?? '')
+          if (parsed.description && NO_CHANGE_PATTERN.test(parsed.description)) continue
+          change.description = parsed.description
+          change.clouded = parsed.clouded
+        } catch (err) {
+          console.error(`[SheetDiff] Vision pass failed for page ${pair.pageId} region ${i}:`, err)
+        }
+      }
+      changes.push(change)
+    }
+
+    const saveErr = await saveSheetDiff(supabase, pair, {
+      status: changes.length > 0 ? 'completed' : 'no_changes',
+      overlayPath,
+      alignment: diff.alignment,
+      changedRatio: diff.changedRatio,
+      changes,
+      costUsd,
+    })
+    if (saveErr) throw new Error(saveErr)
+    outcome = changes.length > 0
+      ? { status: 'completed', changes: changes.length, unclouded: countUncloudedChanges(changes), costUsd }
+      : { status: 'no_changes' }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err)
+    const saveErr = await saveSheetDiff(supabase, pair, { status: 'failed', error })
+    if (saveErr) throw new Error(`Sheet diff write failed: ${saveErr}`)
+    outcome = { status: 'failed', error }
+  }
+  return outcome
+}
+
+/** Stored diffs for a revision document, by sheet. */
+export async function loadSheetDiffs(
+  supabase: ServiceClient,
+  documentId: string
+): Promise<{ diffs: StoredSheetDiff[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('sheet_revision_diffs')
+    .select(SHEET_DIFF_COLUMNS)
+    .eq('document_id', documentId)
+    .order('sheet_number', { ascending: true })
+  if (error) return { diffs: [], error: error.message }
+  return { diffs: ((data ?? []) as unknown as SheetDiffRow[]).map(rowToStoredDiff), error: null }
+}
+
+/** Stored diffs for specific revision pages (chat revision comparison). */
+export async function loadSheetDiffsForPages(
+  supabase: ServiceClient,
+  pageIds: string[]
+): Promise<{ diffs: StoredSheetDiff[]; error: string | null }> {
+  if (pageIds.length === 0) return { diffs: [], error: null }
+  const { data, error } = await supabase
+    .from('sheet_revision_diffs')
+    .select(SHEET_DIFF_COLUMNS)
+    .in('page_id', pageIds)
+  if (error) return { diffs: [], error: error.message }
+  return { diffs: ((data ?? []) as unknown as SheetDiffRow[]).map(rowToStoredDiff), error: null }
+}
@@ -0,0 +1,105 @@
+/**
+ * Rendering side of the visual sheet diff: PDF pages to RGBA rasters with
+ * convertPdfPageToImage, PNG encoding of the overlay, and side-by-side crops
+ * of a changed region for the vision pass. Pixel comparison is in
+ * sheet-diff.ts.
+ */
+
+import { convertPdfPageToImage } from '../vision/pdf-to-image'
+import type { RasterImage, SheetAlignment, SheetChangeRegion } from './sheet-diff'
+
+// Same lazy load as pdf-to-image.ts — keeps webpack away from the native module.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let napiCanvas: any = null
+async function getCanvas() {
+  if (!napiCanvas) {
+    napiCanvas = await import('@napi-rs/canvas')
+  }
+  return napiCanvas
+}
+
+// Render size for both revisions. Matches the vision pipeline's page renders.
+const RENDER_OPTIONS = { scale: 2.0, maxWidth: 2048, maxHeight: 2048, format: 'png' as const }
+
+// Gap between the previous and new crop in a side-by-side image.
+const CROP_GUTTER = 16
+
+/**
+ * Renders one page of each revision at the same size. The previous revision
+ * is scaled to the new revision's dimensions when the sheet size changed.
+ */
+export async function renderRevisionPair(
+  fromPdf: Buffer,
+  fromPageNumber: number,
+  toPdf: Buffer,
+  toPageNumber: number
+): Promise<{ from: RasterImage; to: RasterImage }> {
+  const toImage = await convertPdfPageToImage(toPdf, toPageNumber, RENDER_OPTIONS)
+  const fromImage = await convertPdfPageToImage(fromPdf, fromPageNumber, RENDER_OPTIONS)
+  const to = await decodeToRaster(toImage.buffer, toImage.width, toImage.height)
+  const from = await decodeToRaster(fromImage.buffer, to.width, to.height)
+  return { from, to }
+}
+
+async function decodeToRaster(png: Buffer, width: number, height: number): Promise<RasterImage> {
+  const { createCanvas, loadImage } = await getCanvas()
+  const image = await loadImage(png)
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, width, height)
+  ctx.drawImage(image, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+  return { width, height, data }
+}
+
+export async function encodeRasterPng(image: RasterImage): Promise<Buffer> {
+  const { createCanvas } = await getCanvas()
+  const canvas = createCanvas(image.width, image.height)
+  const ctx = canvas.getContext('2d')
+  const imageData = ctx.createImageData(image.width, image.height)
+  imageData.data.set(image.data)
+  ctx.putImageData(imageData, 0, 0)
+  return canvas.toBuffer('image/png')
+}
+
+/**
+ * Previous revision (left) and new revision (right) of one region, the
+ * previous crop taken through the alignment so both show the same area.
+ */
+export async function cropRegionPair(
+  from: RasterImage,
+  to: RasterImage,
+  region: SheetChangeRegion,
+  alignment: SheetAlignment
+): Promise<Buffer> {
+  const { createCanvas } = await getCanvas()
+  const canvas = createCanvas(region.width * 2 + CROP_GUTTER, region.height)
+  const ctx = canvas.getContext('2d')
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  const crop = ctx.createImageData(region.width, region.height)
+  const paste = (source: RasterImage, offsetX: number, offsetY: number, left: number) => {
+    crop.data.fill(255)
+    for (let y = 0; y < region.height; y++) {
+      const sy = region.y + y - offsetY
+      if (sy < 0 || sy >= source.height) continue
+      for (let x = 0; x < region.width; x++) {
+        const sx = region.x + x - offsetX
+        if (sx < 0 || sx >= source.width) continue
+        const s = (sy * source.width + sx) * 4
+        const d = (y * region.width + x) * 4
+        crop.data[d] = source.data[s]
+        crop.data[d + 1] = source.data[s + 1]
+        crop.data[d + 2] = source.data[s + 2]
+        crop.data[d + 3] = 255
+      }
+    }
+    ctx.putImageData(crop, left, 0)
+  }
+
+  paste(from, alignment.dx, alignment.dy, 0)
+  paste(to, 0, 0, region.width + CROP_GUTTER)
+  return canvas.toBuffer('image/png')
+}
@@ -0,0 +1,456 @@
+/**
+ * Visual sheet diff between two revisions of a drawing.
+ *
+ * Pure pixel work on rendered pages (RGBA rasters). Rendering lives in
+ * sheet-diff-render.ts; storage and the vision pass that describes each change
+ * in sheet-diff-persistence.ts.
+ *
+ *   inkMask         dark pixels of a rendered sheet
+ *   alignMasks      shift of the previous revision that best overlays the new
+ *                   one (reissued sheets often move a few pixels on the page)
+ *   diffMasks       ink only in the new revision (added) or only in the
+ *                   previous one (removed), with a small tolerance so
+ *                   anti-aliasing and sub-pixel shifts do not count
+ *   findChangeRegions  changed pixels clustered into boxes for the vision pass
+ *   renderDiffOverlay  red / green overlay: removed red, added green,
+ *                   unchanged linework grey
+ */
+
+/** Rendered page, 4 bytes per pixel (RGBA). */
+export interface RasterImage {
+  width: number
+  height: number
+  data: Uint8Array | Uint8ClampedArray
+}
+
+/** Shift applied to the previous revision: previous (x - dx, y - dy) overlays new (x, y). */
+export interface SheetAlignment {
+  dx: number
+  dy: number
+  // Share of the new revision's ink that lands on previous ink after the shift.
+  overlap: number
+}
+
+export interface SheetChangeRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+  addedPixels: number
+  removedPixels: number
+}
+
+export type SheetChangeKind = 'added' | 'removed' | 'modified'
+
+/** One changed region as stored on sheet_revision_diffs.changes. */
+export interface SheetChange {
+  region: SheetChangeRegion
+  kind: SheetChangeKind
+  // From the vision pass; null when it was skipped or failed.
+  description: string | null
+  // Whether the designer enclosed the change in a revision cloud or delta.
+  clouded: boolean | null
+}
+
+export interface SheetDiffResult {
+  alignment: SheetAlignment
+  inkPixels: number
+  addedPixels: number
+  removedPixels: number
+  // Changed pixels as a share of the new revision's ink.
+  changedRatio: number
+  regions: SheetChangeRegion[]
+  added: Uint8Array
+  removed: Uint8Array
+  common: Uint8Array
+}
+
+export interface SheetDiffOptions {
+  // Luminance below which a pixel is ink (0-255).
+  inkThreshold?: number
+  // Largest shift searched when aligning, in pixels.
+  maxShift?: number
+  // Ink within this many pixels in the other revision counts as unchanged.
+  tolerance?: number
+  // Grid cell used to cluster changed pixels.
+  cellSize?: number
+  // Changed pixels a cell needs before it counts; filters speckle.
+  minCellPixels?: number
+  maxRegions?: number
+}
+
+const DEFAULT_OPTIONS: Required<SheetDiffOptions> = {
+  inkThreshold: 160,
+  maxShift: 48,
+  tolerance: 2,
+  cellSize: 24,
+  minCellPixels: 12,
+  maxRegions: 12,
+}
+
+// Coarse alignment runs on blocks of this many pixels.
+const ALIGN_BLOCK = 8
+// Ink pixels sampled when refining the alignment at full resolution.
+const ALIGN_SAMPLE = 50_000
+
+// ---------------------------------------------------------------------------
+// Masks
+// ---------------------------------------------------------------------------
+
+export function inkMask(image: RasterImage, threshold = DEFAULT_OPTIONS.inkThreshold): Uint8Array {
+  const { width, height, data } = image
+  const mask = new Uint8Array(width * height)
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    // Transparent pixels are paper.
+    if (data[p + 3] < 128) continue
+    const luminance = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]
+    if (luminance < threshold) mask[i] = 1
+  }
+  return mask
+}
+
+/** Grows ink by `radius` pixels in every direction (square neighbourhood). */
+export function dilateMask(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  if (radius <= 0) return mask.slice()
+  const horizontal = new Uint8Array(mask.length)
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let run = 0
+    for (let x = 0; x < Math.min(radius, width); x++) run += mask[row + x]
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) run += mask[row + x + radius]
+      if (x - radius - 1 >= 0) run -= mask[row + x - radius - 1]
+      if (run > 0) horizontal[row + x] = 1
+    }
+  }
+  const out = new Uint8Array(mask.length)
+  for (let x = 0; x < width; x++) {
+    let run = 0
+    for (let y = 0; y < Math.min(radius, height); y++) run += horizontal[y * width + x]
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) run += horizontal[(y + radius) * width + x]
+      if (y - radius - 1 >= 0) run -= horizontal[(y - radius - 1) * width + x]
+      if (run > 0) out[y * width + x] = 1
+    }
+  }
+  return out
+}
+
+/** out(x, y) = mask(x - dx, y - dy); paper outside the source. */
+export function shiftMask(mask: Uint8Array, width: number, height: number, dx: number, dy: number): Uint8Array {
+  const out = new Uint8Array(mask.length)
+  for (let y = 0; y < height; y++) {
+    const sy = y - dy
+    if (sy < 0 || sy >= height) continue
+    for (let x = 0; x < width; x++) {
+      const sx = x - dx
+      if (sx >= 0 && sx < width) out[y * width + x] = mask[sy * width + sx]
+    }
+  }
+  return out
+}
+
+function downsample(mask: Uint8Array, width: number, height: number, block: number) {
+  const w = Math.ceil(width / block)
+  const h = Math.ceil(height / block)
+  const out = new Uint8Array(w * h)
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / block) * w
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) out[row + Math.floor(x / block)] = 1
+    }
+  }
+  return { mask: out, width: w, height: h }
+}
+
+// ---------------------------------------------------------------------------
+// Alignment
+// ---------------------------------------------------------------------------
+
+function overlapAt(
+  from: Uint8Array,
+  width: number,
+  height: number,
+  toInk: Int32Array,
+  dx: number,
+  dy: number
+): number {
+  let hits = 0
+  for (let i = 0; i < toInk.length; i++) {
+    const x = (toInk[i] % width) - dx
+    const y = Math.floor(toInk[i] / width) - dy
+    if (x >= 0 && x < width && y >= 0 && y < height && from[y * width + x]) hits++
+  }
+  return hits
+}
+
+function inkIndices(mask: Uint8Array, limit: number): Int32Array {
+  let count = 0
+  for (let i = 0; i < mask.length; i++) count += mask[i]
+  const stride = Math.max(1, Math.ceil(count / limit))
+  const out = new Int32Array(Math.ceil(count / stride))
+  let seen = 0
+  let n = 0
+  for (let i = 0; i < mask.length && n < out.length; i++) {
+    if (!mask[i]) continue
+    if (seen++ % stride === 0) out[n++] = i
+  }
+  return out.subarray(0, n)
+}
+
+/**
+ * Finds the shift of the previous revision that best overlays the new one:
+ * a coarse search over ALIGN_BLOCK-pixel blocks, refined at full resolution.
+ */
+export function alignMasks(
+  from: Uint8Array,
+  to: Uint8Array,
+  width: number,
+  height: number,
+  maxShift = DEFAULT_OPTIONS.maxShift
+): SheetAlignment {
+  const coarseFrom = downsample(from, width, height, ALIGN_BLOCK)
+  const coarseTo = downsample(to, width, height, ALIGN_BLOCK)
+  const coarseInk = inkIndices(coarseTo.mask, Number.MAX_SAFE_INTEGER)
+  const coarseRange = Math.ceil(maxShift / ALIGN_BLOCK)
+
+  let best = { dx: 0, dy: 0, hits: -1 }
+  for (let dy = -coarseRange; dy <= coarseRange; dy++) {
+    for (let dx = -coarseRange; dx <= coarseRange; dx++) {
+      const hits = overlapAt(coarseFrom.mask, coarseFrom.width, coarseFrom.height, coarseInk, dx, dy)
+      // Prefer the smaller shift on ties so blank sheets stay put.
+      if (hits > best.hits || (hits === best.hits && Math.abs(dx) + Math.abs(dy) < Math.abs(best.dx) + Math.abs(best.dy))) {
+        best = { dx, dy, hits }
+      }
+    }
+  }
+
+  const toInk = inkIndices(to, ALIGN_SAMPLE)
+  if (toInk.length === 0) return { dx: 0, dy: 0, overlap: 0 }
+
+  let fine = { dx: 0, dy: 0, hits: -1 }
+  const cx = best.dx * ALIGN_BLOCK
+  const cy = best.dy * ALIGN_BLOCK
+  for (let dy = cy - ALIGN_BLOCK; dy <= cy + ALIGN_BLOCK; dy++) {
+    for (let dx = cx - ALIGN_BLOCK; dx <= cx + ALIGN_BLOCK; dx++) {
+      if (Math.abs(dx) > maxShift || Math.abs(dy) > maxShift) continue
+      const hits = overlapAt(from, width, height, toInk, dx, dy)
+      if (hits > fine.hits || (hits === fine.hits && Math.abs(dx) + Math.abs(dy) < Math.abs(fine.dx) + Math.abs(fine.dy))) {
+        fine = { dx, dy, hits }
+      }
+    }
+  }
+  return { dx: fine.dx, dy: fine.dy, overlap: fine.hits / toInk.length }
+}
+
+// ---------------------------------------------------------------------------
+// Diff and regions
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares the previous revision (already aligned) with the new one. Ink with
+ * no ink within `tolerance` pixels in the other revision is added or removed.
+ */
+export function diffMasks(
+  fromAligned: Uint8Array,
+  to: Uint8Array,
+  width: number,
+  height: number,
+  tolerance = DEFAULT_OPTIONS.tolerance
+): { added: Uint8Array; removed: Uint8Array; common: Uint8Array } {
+  const nearFrom = dilateMask(fromAligned, width, height, tolerance)
+  const nearTo = dilateMask(to, width, height, tolerance)
+  const added = new Uint8Array(to.length)
+  const removed = new Uint8Array(to.length)
+  const common = new Uint8Array(to.length)
+  for (let i = 0; i < to.length; i++) {
+    if (to[i] && !nearFrom[i]) added[i] = 1
+    else if (to[i]) common[i] = 1
+    if (fromAligned[i] && !nearTo[i]) removed[i] = 1
+  }
+  return { added, removed, common }
+}
+
+/**
+ * Clusters changed pixels: grid cells with at least `minCellPixels` changed
+ * pixels, joined with their 8 neighbours, one box per cluster. Largest first.
+ */
+export function findChangeRegions(
+  added: Uint8Array,
+  removed: Uint8Array,
+  width: number,
+  height: number,
+  options: Pick<SheetDiffOptions, 'cellSize' | 'minCellPixels' | 'maxRegions'> = {}
+): SheetChangeRegion[] {
+  const cellSize = options.cellSize ?? DEFAULT_OPTIONS.cellSize
+  const minCellPixels = options.minCellPixels ?? DEFAULT_OPTIONS.minCellPixels
+  const maxRegions = options.maxRegions ?? DEFAULT_OPTIONS.maxRegions
+
+  const cols = Math.ceil(width / cellSize)
+  const rows = Math.ceil(height / cellSize)
+  const addedCells = new Int32Array(cols * rows)
+  const removedCells = new Int32Array(cols * rows)
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cellSize) * cols
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (added[i]) addedCells[row + Math.floor(x / cellSize)]++
+      if (removed[i]) removedCells[row + Math.floor(x / cellSize)]++
+    }
+  }
+
+  const active = (c: number) => addedCells[c] + removedCells[c] >= minCellPixels
+  const visited = new Uint8Array(cols * rows)
+  const regions: SheetChangeRegion[] = []
+
+  for (let start = 0; start < cols * rows; start++) {
+    if (visited[start] || !active(start)) continue
+    visited[start] = 1
+    const stack = [start]
+    let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0
+    let addedPixels = 0
+    let removedPixels = 0
+    while (stack.length > 0) {
+      const c = stack.pop()!
+      const col = c % cols
+      const row = Math.floor(c / cols)
+      minCol = Math.min(minCol, col); maxCol = Math.max(maxCol, col)
+      minRow = Math.min(minRow, row); maxRow = Math.max(maxRow, row)
+      addedPixels += addedCells[c]
+      removedPixels += removedCells[c]
+      for (let ny = row - 1; ny <= row + 1; ny++) {
+        for (let nx = col - 1; nx <= col + 1; nx++) {
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue
+          const n = ny * cols + nx
+          if (!visited[n] && active(n)) {
+            visited[n] = 1
+            stack.push(n)
+          }
+        }
+      }
+    }
+    const x = minCol * cellSize
+    const y = minRow * cellSize
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxCol + 1) * cellSize) - x,
+      height: Math.min(height, (maxRow + 1) * cellSize) - y,
+      addedPixels,
+      removedPixels,
+    })
+  }
+
+  return regions
+    .sort((a, b) => b.addedPixels + b.removedPixels - (a.addedPixels + a.removedPixels))
+    .slice(0, maxRegions)
+}
+
+/** 'added' or 'removed' when at least 85% of a region's changed pixels are one kind. */
+export function changeKind(region: SheetChangeRegion): SheetChangeKind {
+  const total = region.addedPixels + region.removedPixels
+  if (total === 0) return 'modified'
+  if (region.addedPixels / total >= 0.85) return 'added'
+  if (region.removedPixels / total >= 0.85) return 'removed'
+  return 'modified'
+}
+
+/** Grows a region by `pad` pixels, clipped to the sheet. */
+export function padRegion(region: SheetChangeRegion, pad: number, width: number, height: number): SheetChangeRegion {
+  const x = Math.max(0, region.x - pad)
+  const y = Math.max(0, region.y - pad)
+  return {
+    ...region,
+    x,
+    y,
+    width: Math.min(width, region.x + region.width + pad) - x,
+    height: Math.min(height, region.y + region.height + pad) - y,
+  }
+}
+
+/**
+ * Diffs two rendered revisions of the same size. `from` is the previous
+ * revision, `to` the new one.
+ */
+export function diffSheetImages(
+  from: RasterImage,
+  to: RasterImage,
+  options: SheetDiffOptions = {}
+): SheetDiffResult {
+  if (from.width !== to.width || from.height !== to.height) {
+    throw new Error(`Sheet images differ in size: ${from.width}x${from.height} vs ${to.width}x${to.height}`)
+  }
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const { width, height } = to
+
+  const fromMask = inkMask(from, opts.inkThreshold)
+  const toMask = inkMask(to, opts.inkThreshold)
+  const alignment = alignMasks(fromMask, toMask, width, height, opts.maxShift)
+  const fromAligned = shiftMask(fromMask, width, height, alignment.dx, alignment.dy)
+  const { added, removed, common } = diffMasks(fromAligned, toMask, width, height, opts.tolerance)
+
+  let inkPixels = 0
+  let addedPixels = 0
+  let removedPixels = 0
+  for (let i = 0; i < toMask.length; i++) {
+    inkPixels += toMask[i]
+    addedPixels += added[i]
+    removedPixels += removed[i]
+  }
+
+  return {
+    alignment,
+    inkPixels,
+    addedPixels,
+    removedPixels,
+    changedRatio: inkPixels > 0 ? (addedPixels + removedPixels) / inkPixels : 0,
+    regions: findChangeRegions(added, removed, width, height, opts),
+    added,
+    removed,
+    common,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Overlay
+// ---------------------------------------------------------------------------
+
+const OVERLAY_ADDED = [0, 153, 51]
+const OVERLAY_REMOVED = [214, 39, 40]
+const OVERLAY_COMMON = [170, 170, 170]
+
+/** White sheet with unchanged linework grey, removed ink red, added ink green. */
+export function renderDiffOverlay(diff: SheetDiffResult, width: number, height: number): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (let i = 0, p = 0; i < width * height; i++, p += 4) {
+    const color = diff.added[i]
+      ? OVERLAY_ADDED
+      : diff.removed[i]
+        ? OVERLAY_REMOVED
+        : diff.common[i]
+          ? OVERLAY_COMMON
+          : null
+    if (!color) continue
+    data[p] = color[0]
+    data[p + 1] = color[1]
+    data[p + 2] = color[2]
+  }
+  return { width, height, data }
+}
+
+// ---------------------------------------------------------------------------
+// Change list
+// ---------------------------------------------------------------------------
+
+/** One line per change, unclouded changes flagged — for chat answers and logs. */
+export function formatSheetChanges(changes: SheetChange[]): string[] {
+  return changes.map((c, i) => {
+    const what = c.description ?? `${c.kind[0].toUpperCase()}${c.kind.slice(1)} linework (not described)`
+    const cloud = c.clouded === false ? ' — not clouded' : ''
+    return `${i + 1}. ${what}${cloud}`
+  })
+}
+
+export function countUncloudedChanges(changes: SheetChange[]): number {
+  return changes.filter(c => c.clouded === false).length
+}
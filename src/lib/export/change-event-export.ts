@@ -0,0 +1,58 @@
+import {
+  CHANGE_EVENT_SOURCE_LABELS,
+  CHANGE_EVENT_STAGE_LABELS,
+  CHANGE_EVENT_STATUS_LABELS,
+  type ChangeEvent,
+} from '@/lib/change-events/change-event-workflow'
+import type { ExportRow } from './submittal-export'
+
+// Column display order for the change event log — one row per event.
+export const CHANGE_EVENT_EXPORT_COLUMNS: { key: string; width: number }[] = [
+  { key: 'PCO No.',          width: 10 },
+  { key: 'COR No.',          width: 10 },
+  { key: 'CO No.',           width: 10 },
+  { key: 'Stage',            width: 7  },
+  { key: 'Status',           width: 10 },
+  { key: 'Title',            width: 40 },
+  { key: 'Source',           width: 18 },
+  { key: 'Scope',            width: 60 },
+  { key: 'Sheets',           width: 20 },
+  { key: 'Spec Sections',    width: 16 },
+  { key: 'ROM Low',          width: 12 },
+  { key: 'ROM High',         width: 12 },
+  { key: 'ROM Basis',        width: 60 },
+  { key: 'Approved Amount',  width: 14 },
+  { key: 'Schedule Days',    width: 9  },
+  { key: 'Submitted',        width: 11 },
+  { key: 'Executed',         width: 11 },
+]
+
+function day(v: string | null): string {
+  return v ? v.slice(0, 10) : ''
+}
+
+function money(v: number | null): string {
+  return v === null ? '' : String(v)
+}
+
+export function buildChangeEventExportRows(changeEvents: ChangeEvent[]): ExportRow[] {
+  return changeEvents.map(ce => ({
+    'PCO No.':         ce.pcoNumber,
+    'COR No.':         ce.corNumber ?? '',
+    'CO No.':          ce.coNumber ?? '',
+    'Stage':           CHANGE_EVENT_STAGE_LABELS[ce.stage],
+    'Status':          CHANGE_EVENT_STATUS_LABELS[ce.status],
+    'Title':           ce.title,
+    'Source':          ce.sourceLabel ?? CHANGE_EVENT_SOURCE_LABELS[ce.sourceType],
+    'Scope':           ce.scopeDescription,
+    'Sheets':          ce.referencedSheets.join(', '),
+    'Spec Sections':   ce.specSections.join(', '),
+    'ROM Low':         money(ce.romLow),
+    'ROM High':        money(ce.romHigh),
+    'ROM Basis':       ce.romItems.map(i => `${i.quantity} ${i.unit} ${i.description}`).join('; '),
+    'Approved Amount': money(ce.approvedAmount),
+    'Schedule Days':   ce.scheduleImpactDays === null ? '' : String(ce.scheduleImpactDays),
+    'Submitted':       day(ce.submittedAt),
+    'Executed':        day(ce.executedAt),
+  }))
+}
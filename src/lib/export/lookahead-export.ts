@@ -0,0 +1,65 @@
+import type { Lookahead } from '@/lib/schedule/lookahead'
+import type { ExportRow } from './submittal-export'
+
+// Column display order for the look-ahead sheet — one row per activity.
+export const LOOKAHEAD_EXPORT_COLUMNS: { key: string; width: number }[] = [
+  { key: 'Week',               width: 7  },
+  { key: 'Activity ID',        width: 12 },
+  { key: 'Activity',           width: 40 },
+  { key: 'WBS',                width: 20 },
+  { key: 'Responsible Party',  width: 20 },
+  { key: 'Start',              width: 11 },
+  { key: 'Finish',             width: 11 },
+  { key: 'Duration (days)',    width: 10 },
+  { key: '% Complete',         width: 9  },
+  { key: 'Total Float',        width: 9  },
+  { key: 'Critical',           width: 8  },
+  { key: 'Readiness',          width: 11 },
+  { key: 'Features of Work',   width: 30 },
+  { key: 'Open Submittals',    width: 48 },
+  { key: 'Open RFIs',          width: 36 },
+]
+
+const READINESS_LABEL: Record<string, string> = {
+  ready: 'Ready',
+  open_items: 'Open items',
+  blocked: 'Blocked',
+}
+
+function str(v: string | number | null | undefined): string {
+  return v != null ? String(v) : ''
+}
+
+export function buildLookaheadExportRows(lookahead: Lookahead): ExportRow[] {
+  return lookahead.activities.map(({ activity: a, startWeek, openSubmittals, openRfis, features, readiness }) => ({
+    'Week':              startWeek === 0 ? 'In progress' : String(startWeek),
+    'Activity ID':       a.activityId,
+    'Activity':          a.activityName,
+    'WBS':               [a.wbsCode, a.wbsName].filter(Boolean).join(' '),
+    'Responsible Party': str(a.responsibleParty),
+    'Start':             str(a.actualStart ?? a.earlyStart),
+    'Finish':            str(a.actualFinish ?? a.earlyFinish),
+    'Duration (days)':   str(a.durationDays),
+    '% Complete':        str(a.percentComplete),
+    'Total Float':       str(a.totalFloatDays),
+    'Critical':          a.isCritical ? 'Yes' : 'No',
+    'Readiness':         READINESS_LABEL[readiness] ?? readiness,
+    'Features of Work':  features
+      .map(f => `${f.name} (${f.readinessPercent}%${
+        f.openHoldPointCount > 0 ? `, ${f.openHoldPointCount} open hold point${f.openHoldPointCount !== 1 ? 's' : ''}` : ''
+      })`)
+      .join('; '),
+    'Open Submittals':   openSubmittals
+      .map(s => `${[s.specSection, s.submittalItem].filter(Boolean).join(' ')} [${s.status}]`)
+      .join('; '),
+    'Open RFIs':         openRfis.map(r => [r.label, r.title].filter(Boolean).join(' ')).join('; '),
+  }))
+}
+
+/** Sheet title row content, e.g. "3-Week Look-ahead 2024-03-11 – 2024-03-31 (schedule v4)". */
+export function lookaheadExportTitle(lookahead: Lookahead): string {
+  const { window, version } = lookahead
+  return `${window.weeks}-Week Look-ahead ${window.start} – ${window.end} (schedule v${version.versionNumber}${
+    version.dataDate ? `, data date ${version.dataDate}` : ''
+  })`
+}
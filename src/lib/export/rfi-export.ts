@@ -0,0 +1,54 @@
+import { RFI_STATUS_LABELS, rfiDaysOpen, type Rfi } from '@/lib/rfi/rfi-workflow'
+import type { ExportRow } from './submittal-export'
+
+// Column display order for the RFI log — one row per RFI.
+export const RFI_EXPORT_COLUMNS: { key: string; width: number }[] = [
+  { key: 'RFI No.',            width: 10 },
+  { key: 'Subject',            width: 40 },
+  { key: 'Status',             width: 10 },
+  { key: 'Priority',           width: 9  },
+  { key: 'Question',           width: 60 },
+  { key: 'Suggested Solution', width: 48 },
+  { key: 'Sheets',             width: 20 },
+  { key: 'Spec Sections',      width: 16 },
+  { key: 'Assigned To',        width: 20 },
+  { key: 'Opened',             width: 11 },
+  { key: 'Due',                width: 11 },
+  { key: 'Answered',           width: 11 },
+  { key: 'Days Open',          width: 9  },
+  { key: 'Response',           width: 60 },
+  { key: 'Answered By',        width: 20 },
+  { key: 'Closed',             width: 11 },
+]
+
+const PRIORITY_LABEL: Record<string, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  critical: 'Critical',
+}
+
+function day(v: string | null): string {
+  return v ? v.slice(0, 10) : ''
+}
+
+export function buildRfiExportRows(rfis: Rfi[], today: string): ExportRow[] {
+  return rfis.map(r => ({
+    'RFI No.':            r.rfiNumber,
+    'Subject':            r.subject,
+    'Status':             RFI_STATUS_LABELS[r.status],
+    'Priority':           PRIORITY_LABEL[r.priority] ?? r.priority,
+    'Question':           r.question,
+    'Suggested Solution': r.suggestedSolution ?? '',
+    'Sheets':             r.referencedSheets.join(', '),
+    'Spec Sections':      r.specSections.join(', '),
+    'Assigned To':        r.assignedTo ?? '',
+    'Opened':             day(r.openedAt),
+    'Due':                day(r.dueDate),
+    'Answered':           day(r.answeredAt),
+    'Days Open':          String(rfiDaysOpen(r, today) ?? ''),
+    'Response':           r.response ?? '',
+    'Answered By':        r.answeredBy ?? '',
+    'Closed':             day(r.closedAt),
+  }))
+}
@@ -0,0 +1,145 @@
+// Minimal PDF writer — text and rules on fixed-size pages, built-in Helvetica
+// fonts only (no embedding), WinAnsi encoding. Enough for tabular documents
+// such as transmittals without pulling a PDF library into the bundle.
+//
+// Coordinates are PDF points with the origin at the bottom-left of the page.
+
+export interface PdfText {
+  x: number
+  y: number
+  text: string
+  size: number
+  bold?: boolean
+}
+
+export interface PdfRule {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  width?: number
+}
+
+export interface PdfPage {
+  texts: PdfText[]
+  rules: PdfRule[]
+}
+
+export const LETTER = { width: 612, height: 792 }
+
+// Average Helvetica glyph widths (per 1000 em) — close enough for wrapping.
+const NARROW = new Set('iljtfrI.,;:!\'|()[] ')
+const WIDE = new Set('mwMW@%')
+
+export function measureText(text: string, size: number, bold = false): number {
+  let units = 0
+  for (const ch of text) {
+    if (NARROW.has(ch)) units += 280
+    else if (WIDE.has(ch)) units += 860
+    else if (ch >= 'A' && ch <= 'Z') units += 660
+    else units += 540
+  }
+  return (units * size * (bold ? 1.05 : 1)) / 1000
+}
+
+// Greedy word wrap; words longer than the line are hard-broken.
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      let rest = word
+      while (measureText(rest, size, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1
+        while (cut > 1 && measureText(rest.slice(0, cut), size, bold) > maxWidth) cut--
+        lines.push(rest.slice(0, cut))
+        rest = rest.slice(cut)
+      }
+      line = rest
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+// Map to WinAnsi (Latin-1 subset plus typographic punctuation); anything else
+// becomes '?'. Parentheses and backslashes are escaped for string literals.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80,
+}
+
+function pdfString(text: string): string {
+  let out = ''
+  for (const ch of text) {
+    const code = WIN_ANSI_EXTRAS[ch] ?? ch.charCodeAt(0)
+    const c = code <= 0xff && ch.length === 1 ? code : 0x3f
+    if (c === 0x28 || c === 0x29 || c === 0x5c) out += '\\' + String.fromCharCode(c)
+    else if (c < 0x20) out += ' '
+    else out += String.fromCharCode(c)
+  }
+  return `(${out})`
+}
+
+function fmt(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+function pageContent(page: PdfPage): string {
+  const ops: string[] = []
+  for (const r of page.rules) {
+    ops.push(`${fmt(r.width ?? 0.5)} w ${fmt(r.x1)} ${fmt(r.y1)} m ${fmt(r.x2)} ${fmt(r.y2)} l S`)
+  }
+  for (const t of page.texts) {
+    ops.push(`BT /${t.bold ? 'F2' : 'F1'} ${fmt(t.size)} Tf ${fmt(t.x)} ${fmt(t.y)} Td ${pdfString(t.text)} Tj ET`)
+  }
+  return ops.join('\n')
+}
+
+export function buildPdf(
+  pages: PdfPage[],
+  opts: { width?: number; height?: number; title?: string } = {}
+): Uint8Array<ArrayBuffer> {
+  const width = opts.width ?? LETTER.width
+  const height = opts.height ?? LETTER.height
+
+  // Object numbers: 1 catalog, 2 pages, 3 Helvetica, 4 Helvetica-Bold,
+  // 5 info, then (page, content) pairs.
+  const objects: string[] = []
+  const kids = pages.map((_, i) => `${6 + i * 2} 0 R`)
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push(`<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${pages.length} >>`)
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  objects.push(`<< /Producer (construction-copilot)${opts.title ? ` /Title ${pdfString(opts.title)}` : ''} >>`)
+  pages.forEach((page, i) => {
+    const content = pageContent(page)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`
+    )
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  // Every character is a single byte (see pdfString), so string length is
+  // the byte offset.
+  let out = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xrefAt = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  for (const offset of offsets) out += `${String(offset).padStart(10, '0')} 00000 n \n`
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`
+
+  const bytes = new Uint8Array(out.length)
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff
+  return bytes
+}
@@ -3,6 +3,7 @@ import {
   evaluateSubmittalCoverageQA,
   getSubmittalItemKey,
 } from '@/lib/chat/submittal-coverage-qa'
+import { toPlatformRow, type SubmittalLogProfile } from '@/lib/reconciliation/submittal-log-profiles'
 
 // Flat record of string values — one row per submittal item.
 // Format-agnostic: used by XLSX today, reusable for PDF/CSV later.
@@ -25,6 +26,8 @@ export const EXPORT_COLUMNS: { key: string; width: number }[] = [
   { key: 'Reviewed By',         width: 14 },
   // C — Lifecycle
   { key: 'Lifecycle Status',    width: 18 },
+  { key: 'Submittal No.',       width: 16 },
+  { key: 'Review Cycles',       width: 10 },
   { key: 'Due Date',            width: 12 },
   { key: 'Responsible Party',   width: 20 },
   { key: 'Submitted At',        width: 16 },
@@ -114,6 +117,8 @@ export function buildExportRows(items: SubmittalRegisterItem[]): ExportRow[] {
 
       // C — Lifecycle
       'Lifecycle Status':  str(item.lifecycleStatus ?? 'draft'),
+      'Submittal No.':     str(item.revisions?.length ? item.revisions[item.revisions.length - 1].submittalNumber : item.submittalNumber),
+      'Review Cycles':     str(item.revisions?.length || null),
       'Due Date':          str(item.lifecycleDueDate),
       'Responsible Party': str(item.lifecycleResponsibleParty),
       'Submitted At':      str(item.lifecycleSubmittedAt),
@@ -151,3 +156,12 @@ export function buildExportRows(items: SubmittalRegisterItem[]): ExportRow[] {
     }
   })
 }
+
+// The register in a platform's submittal log import layout (Procore, ACC,
+// e-Builder); columns come from profile.columns.
+export function buildPlatformExportRows(
+  items: SubmittalRegisterItem[],
+  profile: SubmittalLogProfile
+): Record<string, string>[] {
+  return buildExportRows(items).map(row => toPlatformRow(row, profile))
+}
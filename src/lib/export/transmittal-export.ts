@@ -0,0 +1,206 @@
+import type { TransmittalDocument, TransmittalRow } from '@/lib/chat/submittal-packages'
+import { buildPdf, LETTER, measureText, wrapText, type PdfPage } from './simple-pdf.ts'
+
+// Columns on the transmittal item table — shared by the HTML and PDF layouts.
+// PDF widths are points on a portrait letter page with 36pt margins.
+export const TRANSMITTAL_COLUMNS: { key: keyof TransmittalRow; label: string; pdfWidth: number }[] = [
+  { key: 'index',             label: '#',                  pdfWidth: 20  },
+  { key: 'submittalNumber',   label: 'Submittal No.',      pdfWidth: 74  },
+  { key: 'specSection',       label: 'Spec Section',       pdfWidth: 92  },
+  { key: 'description',       label: 'Description',        pdfWidth: 150 },
+  { key: 'sdCode',            label: 'SD',                 pdfWidth: 34  },
+  { key: 'approvalAuthority', label: 'Approval Authority', pdfWidth: 70  },
+  { key: 'requiredAction',    label: 'Required Action',    pdfWidth: 100 },
+]
+
+export function transmittalFileName(doc: TransmittalDocument, ext: 'pdf' | 'html' | 'doc'): string {
+  const slug = doc.packageNumber.replace(/[^A-Za-z0-9._-]+/g, '-')
+  return `transmittal-${slug}-${doc.date}.${ext}`
+}
+
+function headerFields(doc: TransmittalDocument): Array<[string, string]> {
+  return [
+    ['Project', [doc.project.name, doc.project.projectNumber && `(${doc.project.projectNumber})`].filter(Boolean).join(' ')],
+    ['Package', `${doc.packageNumber} — ${doc.title}`],
+    ['Date', doc.date],
+    ['To', doc.toParty],
+    ['From', doc.fromParty],
+    ['Transmitted', doc.purpose],
+    ['Response Due', doc.dueDate ?? ''],
+  ]
+}
+
+// ── HTML (browser print / Word) ──────────────────────────────────────────────
+
+function esc(v: string | number): string {
+  return String(v)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Standalone HTML transmittal. With `word: true` the document carries the
+// Office namespaces and print-view hint so Word opens it as a .doc in page
+// layout; otherwise it is a print-ready page for the browser.
+export function renderTransmittalHtml(doc: TransmittalDocument, opts: { word?: boolean } = {}): string {
+  const word = opts.word === true
+  const title = `Transmittal ${doc.packageNumber}`
+  const header = headerFields(doc)
+    .map(([label, value]) => `<tr><th>${esc(label)}</th><td>${esc(value)}</td></tr>`)
+    .join('\n')
+  const head = TRANSMITTAL_COLUMNS.map(c => `<th>${esc(c.label)}</th>`).join('')
+  const body = doc.rows
+    .map(row => `<tr>${TRANSMITTAL_COLUMNS.map(c => `<td>${esc(row[c.key])}</td>`).join('')}</tr>`)
+    .join('\n')
+  const missing = doc.missingItemCount > 0
+    ? `<p class="note">${doc.missingItemCount} packaged item${doc.missingItemCount === 1 ? ' is' : 's are'} no longer on the current register and ${doc.missingItemCount === 1 ? 'is' : 'are'} not listed.</p>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html${word ? ' xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40"' : ''}>
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+${word ? '<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View><w:Zoom>100</w:Zoom></w:WordDocument></xml><![endif]-->' : ''}
+<style>
+  @page { size: letter; margin: 0.5in; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #111; }
+  h1 { font-size: 16pt; margin: 0 0 4pt; }
+  .sub { color: #555; margin: 0 0 12pt; }
+  table { border-collapse: collapse; width: 100%; }
+  .fields th { text-align: left; width: 1.3in; padding: 2pt 6pt 2pt 0; color: #555; font-weight: normal; }
+  .fields td { padding: 2pt 0; }
+  .items { margin-top: 14pt; }
+  .items th { background: #eee; text-align: left; font-size: 9pt; }
+  .items th, .items td { border: 1px solid #999; padding: 3pt 4pt; vertical-align: top; }
+  .items tr { page-break-inside: avoid; }
+  .note { color: #a00; font-size: 9pt; }
+  .remarks { margin-top: 14pt; white-space: pre-wrap; }
+  .sign { margin-top: 36pt; }
+  .sign td { padding-top: 24pt; border-top: 1px solid #111; width: 45%; font-size: 9pt; }
+  .sign td.gap { border: none; width: 10%; }
+</style>
+</head>
+<body>
+<h1>TRANSMITTAL</h1>
+<p class="sub">${esc(doc.project.name)}${doc.project.address ? ` · ${esc(doc.project.address)}` : ''}</p>
+<table class="fields">
+${header}
+</table>
+<table class="items">
+<thead><tr>${head}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+<p>${doc.rows.length} item${doc.rows.length === 1 ? '' : 's'} transmitted.</p>
+${missing}
+${doc.remarks ? `<div class="remarks"><strong>Remarks:</strong>\n${esc(doc.remarks)}</div>` : ''}
+<table class="sign"><tr><td>Sent by / date</td><td class="gap"></td><td>Received by / date</td></tr></table>
+</body>
+</html>
+`
+}
+
+// ── PDF ───────────────────────────────────────────────────────────────────────
+
+const MARGIN = 36
+const CELL_PAD = 3
+const FONT = 8
+const LINE = 10
+
+export function renderTransmittalPdf(doc: TransmittalDocument): Uint8Array<ArrayBuffer> {
+  const pages: PdfPage[] = []
+  const right = LETTER.width - MARGIN
+  let page: PdfPage = { texts: [], rules: [] }
+  let y = 0
+
+  const tableHeader = () => {
+    let x = MARGIN
+    page.rules.push({ x1: MARGIN, y1: y + 2, x2: right, y2: y + 2 })
+    y -= LINE
+    for (const col of TRANSMITTAL_COLUMNS) {
+      page.texts.push({ x: x + CELL_PAD, y, text: col.label, size: FONT, bold: true })
+      x += col.pdfWidth
+    }
+    y -= 4
+    page.rules.push({ x1: MARGIN, y1: y, x2: right, y2: y })
+  }
+
+  const startPage = (first: boolean) => {
+    page = { texts: [], rules: [] }
+    pages.push(page)
+    y = LETTER.height - MARGIN - 14
+    page.texts.push({ x: MARGIN, y, text: 'TRANSMITTAL', size: 16, bold: true })
+    const number = doc.packageNumber
+    page.texts.push({ x: right - measureText(number, 12, true), y, text: number, size: 12, bold: true })
+    y -= 16
+    page.texts.push({ x: MARGIN, y, text: doc.project.name, size: 10 })
+    y -= 8
+    page.rules.push({ x1: MARGIN, y1: y, x2: right, y2: y, width: 1 })
+    y -= 14
+    if (first) {
+      for (const [label, value] of headerFields(doc)) {
+        page.texts.push({ x: MARGIN, y, text: label, size: 9 })
+        const lines = wrapText(value || '—', right - MARGIN - 90, 9)
+        for (const line of lines) {
+          page.texts.push({ x: MARGIN + 90, y, text: line, size: 9, bold: label === 'Package' })
+          y -= 12
+        }
+      }
+      y -= 8
+    }
+    tableHeader()
+  }
+
+  startPage(true)
+
+  for (const row of doc.rows) {
+    const cells = TRANSMITTAL_COLUMNS.map(col =>
+      wrapText(String(row[col.key] ?? ''), col.pdfWidth - CELL_PAD * 2, FONT)
+    )
+    const height = Math.max(...cells.map(c => c.length)) * LINE + 4
+    if (y - height < MARGIN + 20) startPage(false)
+    let x = MARGIN
+    cells.forEach((lines, i) => {
+      lines.forEach((line, j) => {
+        page.texts.push({ x: x + CELL_PAD, y: y - LINE * (j + 1), text: line, size: FONT })
+      })
+      x += TRANSMITTAL_COLUMNS[i].pdfWidth
+    })
+    y -= height
+    page.rules.push({ x1: MARGIN, y1: y, x2: right, y2: y, width: 0.25 })
+  }
+
+  // Footer block: counts, remarks, signature lines.
+  const footer: Array<{ text: string; size: number; bold?: boolean }> = [
+    { text: `${doc.rows.length} item${doc.rows.length === 1 ? '' : 's'} transmitted.`, size: 9 },
+  ]
+  if (doc.missingItemCount > 0) {
+    footer.push({ text: `${doc.missingItemCount} packaged item(s) no longer on the current register are not listed.`, size: 9 })
+  }
+  if (doc.remarks) {
+    footer.push({ text: 'Remarks:', size: 9, bold: true })
+    for (const line of wrapText(doc.remarks, right - MARGIN, 9)) footer.push({ text: line, size: 9 })
+  }
+  if (y - (footer.length * 12 + 60) < MARGIN) startPage(false)
+  y -= 16
+  for (const f of footer) {
+    page.texts.push({ x: MARGIN, y, text: f.text, size: f.size, bold: f.bold })
+    y -= 12
+  }
+  y -= 36
+  const half = (right - MARGIN) / 2 - 20
+  page.rules.push({ x1: MARGIN, y1: y, x2: MARGIN + half, y2: y })
+  page.rules.push({ x1: right - half, y1: y, x2: right, y2: y })
+  page.texts.push({ x: MARGIN, y: y - 10, text: 'Sent by / date', size: 8 })
+  page.texts.push({ x: right - half, y: y - 10, text: 'Received by / date', size: 8 })
+
+  pages.forEach((p, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`
+    p.texts.push({ x: right - measureText(label, 8), y: MARGIN - 14, text: label, size: 8 })
+  })
+
+  return buildPdf(pages, { title: `Transmittal ${doc.packageNumber}` })
+}
@@ -0,0 +1,163 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '../chat/submittal-register-read'
+import { listScheduleVersions, loadScheduleVersionSnapshot } from '../schedule/schedule-read'
+import type { ScheduleVersionSnapshot, ScheduleVersionSummary } from '../schedule/schedule-model'
+import { loadFowSubmittalLinks } from './fow-links'
+import {
+  applyFowLinkSyncPlan,
+  planFowSubmittalLinkSync,
+  rowToFowEntity,
+  type FowEntity,
+} from './fow-readiness'
+import {
+  buildProjectGraph,
+  type EntityGraph,
+  type GraphEntityRecord,
+  type GraphRelationshipRecord,
+} from './entity-graph'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+export type LoadProjectGraphOutcome =
+  | { status: 'found'; graph: EntityGraph; scheduleVersion: ScheduleVersionSummary | null }
+  | { status: 'error'; error: string }
+
+const PAGE_SIZE = 1000
+const ID_CHUNK = 200
+
+const ENTITY_COLUMNS = 'id, entity_type, discipline, canonical_name, display_name, label, status'
+
+interface EntityRow {
+  id: string
+  entity_type: string
+  discipline: string
+  canonical_name: string
+  display_name: string | null
+  label: string | null
+  status: string | null
+}
+
+interface RelationshipRow {
+  from_entity_id: string
+  to_entity_id: string
+  relationship_type: string
+}
+
+function rowToGraphEntity(row: EntityRow): GraphEntityRecord {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    discipline: row.discipline,
+    canonicalName: row.canonical_name,
+    displayName: row.display_name,
+    label: row.label,
+    status: row.status,
+  }
+}
+
+/**
+ * Loads everything buildProjectGraph joins: every entity_relationships row
+ * and its endpoint entities, all spec / RFI entities, features of work and
+ * their submittal links, the latest register run, and one schedule version
+ * (newest unless `scheduleVersionId` is given).
+ *
+ * FOW links are the stored rows plus what inference would add, computed in
+ * memory — reading the graph never writes.
+ */
+export async function loadProjectGraph(
+  supabase: ServiceClient,
+  projectId: string,
+  opts: { scheduleVersionId?: string | null } = {}
+): Promise<LoadProjectGraphOutcome> {
+  const relationships: GraphRelationshipRecord[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('entity_relationships')
+      .select('from_entity_id, to_entity_id, relationship_type')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { status: 'error', error: error.message }
+    const rows = (data ?? []) as RelationshipRow[]
+    relationships.push(
+      ...rows.map(r => ({
+        fromEntityId: r.from_entity_id,
+        toEntityId: r.to_entity_id,
+        relationshipType: r.relationship_type,
+      }))
+    )
+    if (rows.length < PAGE_SIZE) break
+  }
+
+  const entities = new Map<string, GraphEntityRecord>()
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_entities')
+      .select(ENTITY_COLUMNS)
+      .eq('project_id', projectId)
+      .in('discipline', ['spec', 'rfi'])
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { status: 'error', error: error.message }
+    const rows = (data ?? []) as EntityRow[]
+    for (const row of rows) entities.set(row.id, rowToGraphEntity(row))
+    if (rows.length < PAGE_SIZE) break
+  }
+
+  const { data: fowRows, error: fowErr } = await supabase
+    .from('project_entities')
+    .select('id, project_id, canonical_name, display_name, discipline, status, metadata')
+    .eq('project_id', projectId)
+    .eq('entity_type', 'feature_of_work')
+  if (fowErr) return { status: 'error', error: fowErr.message }
+  const fows: FowEntity[] = (fowRows ?? []).map(rowToFowEntity)
+  const fowIds = new Set(fows.map(f => f.id))
+
+  const missing = new Set<string>()
+  for (const r of relationships) {
+    for (const id of [r.fromEntityId, r.toEntityId]) {
+      if (!entities.has(id) && !fowIds.has(id)) missing.add(id)
+    }
+  }
+  const missingIds = [...missing]
+  for (let i = 0; i < missingIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('project_entities')
+      .select(ENTITY_COLUMNS)
+      .eq('project_id', projectId)
+      .in('id', missingIds.slice(i, i + ID_CHUNK))
+    if (error) return { status: 'error', error: error.message }
+    for (const row of (data ?? []) as EntityRow[]) entities.set(row.id, rowToGraphEntity(row))
+  }
+
+  const register = await loadLatestSubmittalRegisterRun(supabase, projectId)
+  if (register.status === 'error') return { status: 'error', error: register.error }
+  const submittals = register.status === 'found' ? register.run.items : []
+
+  const stored = await loadFowSubmittalLinks(supabase, projectId)
+  if (stored.error) return { status: 'error', error: stored.error }
+  const fowLinks = applyFowLinkSyncPlan(stored.links, planFowSubmittalLinkSync(fows, submittals, stored.links))
+
+  let schedule: ScheduleVersionSnapshot | null = null
+  let versionId = opts.scheduleVersionId ?? null
+  if (!versionId) {
+    const { versions, error } = await listScheduleVersions(supabase, projectId)
+    if (error) return { status: 'error', error }
+    versionId = versions[0]?.id ?? null
+  }
+  if (versionId) {
+    const loaded = await loadScheduleVersionSnapshot(supabase, projectId, versionId)
+    if (loaded.status === 'error') return { status: 'error', error: loaded.error }
+    if (loaded.status === 'found') schedule = loaded.snapshot
+  }
+
+  const graph = buildProjectGraph({
+    entities: [...entities.values()],
+    relationships,
+    fows,
+    fowLinks,
+    submittals,
+    schedule,
+  })
+  return { status: 'found', graph, scheduleVersion: schedule?.version ?? null }
+}
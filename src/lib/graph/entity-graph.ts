@@ -0,0 +1,622 @@
+/**
+ * Project entity graph — pure traversal over entity_relationships plus the
+ * relations that live outside it.
+ *
+ * entity_relationships (migration 00038) only connects project_entities rows.
+ * Register submittals, features of work and schedule activities are joined
+ * to it here so a question like "what is blocking the slab pour" can walk
+ * submittal → FOW → activity:
+ *
+ *   submittal     —submitted_for→  spec section    item.specSection
+ *   submittal     —belongs_to→     FOW             fow_submittal_links
+ *   submittal     —required_by→    activity        item.scheduleActivityLink
+ *   spec section  —governs→        FOW             fow.specSections
+ *   FOW           —performed_in→   activity        name match / linked submittal
+ *   activity      —precedes→       activity        schedule logic ties
+ *
+ * Derived edges point from prerequisite to dependent, so blockers of a node
+ * are found by walking its incoming edges.
+ *
+ * Node ids are prefixed by kind: `entity:<uuid>`, `submittal:<dedupeKey>`,
+ * `activity:<activity code>`.
+ *
+ * entity-graph-read.ts loads the inputs.
+ */
+
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import { resolveEffectiveStatus } from '../chat/submittal-lifecycle.ts'
+import {
+  normalizeSpecSectionForFow,
+  type FowEntity,
+  type FowSubmittalLink,
+} from './fow-readiness.ts'
+import { fowMatchesActivity } from '../schedule/lookahead.ts'
+import { currentStart, type ScheduleVersionSnapshot } from '../schedule/schedule-model.ts'
+import { activityNameTokens } from '../schedule/submittal-schedule-risk.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GraphNodeKind = 'entity' | 'submittal' | 'schedule_activity'
+
+export interface GraphNode {
+  id: string
+  kind: GraphNodeKind
+  /** entity_type for entities ('spec_section', 'feature_of_work', 'rfi', …); else the kind. */
+  type: string
+  discipline: string | null
+  label: string
+  /** Citation handle: spec section, RFI number, activity code. */
+  ref: string | null
+  status: string | null
+  /** Outstanding work — unapproved submittal, open RFI, incomplete activity. */
+  open: boolean
+  /** Submittal due date or activity start. */
+  date: string | null
+}
+
+export type GraphEdgeSource =
+  | 'entity_relationships'
+  | 'spec_section'
+  | 'fow_link'
+  | 'schedule_link'
+  | 'fow_activity'
+  | 'schedule_tie'
+
+export interface GraphEdge {
+  from: string
+  to: string
+  type: string
+  source: GraphEdgeSource
+}
+
+export interface EntityGraph {
+  nodes: Map<string, GraphNode>
+  out: Map<string, GraphEdge[]>
+  in: Map<string, GraphEdge[]>
+}
+
+/** project_entities row as the graph needs it. */
+export interface GraphEntityRecord {
+  id: string
+  entityType: string
+  discipline: string
+  canonicalName: string
+  displayName: string | null
+  label: string | null
+  status: string | null
+}
+
+export interface GraphRelationshipRecord {
+  fromEntityId: string
+  toEntityId: string
+  relationshipType: string
+}
+
+export interface ProjectGraphInput {
+  entities: GraphEntityRecord[]
+  relationships: GraphRelationshipRecord[]
+  fows?: FowEntity[]
+  fowLinks?: FowSubmittalLink[]
+  submittals?: SubmittalRegisterItem[]
+  schedule?: ScheduleVersionSnapshot | null
+}
+
+export type GraphDirection = 'out' | 'in' | 'both'
+
+export interface GraphTraversalOptions {
+  direction?: GraphDirection
+  /** Only follow these edge types. */
+  relationTypes?: string[]
+  maxHops?: number
+}
+
+export interface GraphStep {
+  edge: GraphEdge
+  /** Direction the edge was walked in. */
+  direction: 'out' | 'in'
+  node: GraphNode
+}
+
+export interface GraphPath {
+  start: GraphNode
+  steps: GraphStep[]
+}
+
+// ---------------------------------------------------------------------------
+// Ids
+// ---------------------------------------------------------------------------
+
+export function entityNodeId(entityId: string): string {
+  return `entity:${entityId}`
+}
+
+export function submittalNodeId(dedupeKey: string): string {
+  return `submittal:${dedupeKey}`
+}
+
+export function activityNodeId(activityId: string): string {
+  return `activity:${activityId}`
+}
+
+// ---------------------------------------------------------------------------
+// Build
+// ---------------------------------------------------------------------------
+
+const CLOSED_SUBMITTAL_STATUSES = new Set(['approved', 'approved_as_noted', 'closed'])
+
+export function createEntityGraph(): EntityGraph {
+  return { nodes: new Map(), out: new Map(), in: new Map() }
+}
+
+export function addGraphNode(graph: EntityGraph, node: GraphNode): void {
+  if (!graph.nodes.has(node.id)) graph.nodes.set(node.id, node)
+}
+
+/** Adds an edge between known nodes; duplicates (same from/to/type) are skipped. */
+export function addGraphEdge(graph: EntityGraph, edge: GraphEdge): void {
+  if (edge.from === edge.to) return
+  if (!graph.nodes.has(edge.from) || !graph.nodes.has(edge.to)) return
+  const outgoing = graph.out.get(edge.from) ?? []
+  if (outgoing.some(e => e.to === edge.to && e.type === edge.type)) return
+  outgoing.push(edge)
+  graph.out.set(edge.from, outgoing)
+  const incoming = graph.in.get(edge.to) ?? []
+  incoming.push(edge)
+  graph.in.set(edge.to, incoming)
+}
+
+function entityToNode(e: GraphEntityRecord): GraphNode {
+  const isSpec = e.entityType === 'spec_section'
+  return {
+    id: entityNodeId(e.id),
+    kind: 'entity',
+    type: e.entityType,
+    discipline: e.discipline,
+    label: e.displayName ?? e.label ?? e.canonicalName,
+    ref: e.label ?? (isSpec ? e.canonicalName : null),
+    status: e.status,
+    open: e.discipline === 'rfi' && e.status === 'new',
+    date: null,
+  }
+}
+
+export function buildProjectGraph(input: ProjectGraphInput): EntityGraph {
+  const graph = createEntityGraph()
+  const fows = input.fows ?? []
+  const submittals = (input.submittals ?? []).filter(s => s.dedupeKey)
+
+  // Entities + stored relationships
+  for (const e of input.entities) addGraphNode(graph, entityToNode(e))
+  for (const fow of fows) {
+    addGraphNode(graph, {
+      id: entityNodeId(fow.id),
+      kind: 'entity',
+      type: 'feature_of_work',
+      discipline: fow.discipline,
+      label: fow.displayName,
+      ref: null,
+      status: fow.status,
+      open: false,
+      date: null,
+    })
+  }
+  for (const r of input.relationships) {
+    addGraphEdge(graph, {
+      from: entityNodeId(r.fromEntityId),
+      to: entityNodeId(r.toEntityId),
+      type: r.relationshipType,
+      source: 'entity_relationships',
+    })
+  }
+
+  // Spec section entities by normalized section number
+  const specNodesBySection = new Map<string, string[]>()
+  for (const e of input.entities) {
+    if (e.entityType !== 'spec_section') continue
+    const section = normalizeSpecSectionForFow(e.label ?? e.canonicalName)
+    if (!section) continue
+    if (!specNodesBySection.has(section)) specNodesBySection.set(section, [])
+    specNodesBySection.get(section)!.push(entityNodeId(e.id))
+  }
+
+  for (const fow of fows) {
+    for (const s of fow.specSections) {
+      for (const specId of specNodesBySection.get(normalizeSpecSectionForFow(s)) ?? []) {
+        addGraphEdge(graph, { from: specId, to: entityNodeId(fow.id), type: 'governs', source: 'spec_section' })
+      }
+    }
+  }
+
+  // Schedule activities + logic ties
+  const schedule = input.schedule ?? null
+  if (schedule) {
+    for (const a of schedule.activities) {
+      addGraphNode(graph, {
+        id: activityNodeId(a.activityId),
+        kind: 'schedule_activity',
+        type: 'schedule_activity',
+        discipline: 'schedule',
+        label: a.activityName,
+        ref: a.activityId,
+        status: a.status,
+        open: a.status !== 'complete',
+        date: currentStart(a),
+      })
+    }
+    for (const t of schedule.ties) {
+      addGraphEdge(graph, {
+        from: activityNodeId(t.predecessorActivityId),
+        to: activityNodeId(t.successorActivityId),
+        type: 'precedes',
+        source: 'schedule_tie',
+      })
+    }
+  }
+
+  // Register submittals
+  for (const item of submittals) {
+    const status = resolveEffectiveStatus(item)
+    addGraphNode(graph, {
+      id: submittalNodeId(item.dedupeKey!),
+      kind: 'submittal',
+      type: 'submittal',
+      discipline: 'submittal',
+      label: [item.specSection, item.submittalItem].filter(Boolean).join(' '),
+      ref: item.specSection,
+      status,
+      open: !CLOSED_SUBMITTAL_STATUSES.has(status),
+      date: item.lifecycleDueDate ?? null,
+    })
+    const id = submittalNodeId(item.dedupeKey!)
+    for (const specId of specNodesBySection.get(normalizeSpecSectionForFow(item.specSection)) ?? []) {
+      addGraphEdge(graph, { from: id, to: specId, type: 'submitted_for', source: 'spec_section' })
+    }
+    const activityId = item.scheduleActivityLink?.activityId
+    if (activityId) {
+      addGraphEdge(graph, { from: id, to: activityNodeId(activityId), type: 'required_by', source: 'schedule_link' })
+    }
+  }
+
+  for (const link of input.fowLinks ?? []) {
+    if (link.status !== 'active') continue
+    addGraphEdge(graph, {
+      from: submittalNodeId(link.dedupeKey),
+      to: entityNodeId(link.fowId),
+      type: 'belongs_to',
+      source: 'fow_link',
+    })
+  }
+
+  // FOW → activity: same rule as the look-ahead — name match, or a submittal
+  // linked to the activity belongs to the FOW.
+  if (schedule) {
+    for (const fow of fows) {
+      const fowId = entityNodeId(fow.id)
+      for (const a of schedule.activities) {
+        if (fowMatchesActivity(fow, a)) {
+          addGraphEdge(graph, { from: fowId, to: activityNodeId(a.activityId), type: 'performed_in', source: 'fow_activity' })
+        }
+      }
+      for (const e of graph.in.get(fowId) ?? []) {
+        if (e.type !== 'belongs_to') continue
+        for (const req of graph.out.get(e.from) ?? []) {
+          if (req.type !== 'required_by') continue
+          addGraphEdge(graph, { from: fowId, to: req.to, type: 'performed_in', source: 'fow_activity' })
+        }
+      }
+    }
+  }
+
+  return graph
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve free text to nodes: exact id, exact ref (activity code, RFI number,
+ * spec section), then nodes whose label contains every word of the text.
+ */
+export function resolveGraphNodes(
+  graph: EntityGraph,
+  text: string,
+  opts: { types?: string[]; limit?: number } = {}
+): GraphNode[] {
+  const limit = opts.limit ?? 10
+  const typeOk = (n: GraphNode) => !opts.types || opts.types.length === 0 || opts.types.includes(n.type)
+  const direct = graph.nodes.get(text)
+  if (direct && typeOk(direct)) return [direct]
+
+  const needle = text.trim().toLowerCase()
+  if (!needle) return []
+  const byRef = [...graph.nodes.values()].filter(n => typeOk(n) && n.ref?.toLowerCase() === needle)
+  if (byRef.length > 0) return byRef.slice(0, limit)
+
+  const tokens = activityNameTokens(text)
+  if (tokens.size === 0) return []
+  const scored: Array<{ node: GraphNode; extra: number }> = []
+  for (const node of graph.nodes.values()) {
+    if (!typeOk(node)) continue
+    const have = activityNameTokens(node.label)
+    let all = true
+    for (const t of tokens) if (!have.has(t)) { all = false; break }
+    if (all) scored.push({ node, extra: have.size - tokens.size })
+  }
+  // Tightest label first — "Slab Pour" before "Slab Pour Level 2 Prep"
+  scored.sort((a, b) => a.extra - b.extra || a.node.label.localeCompare(b.node.label))
+  return scored.slice(0, limit).map(s => s.node)
+}
+
+// ---------------------------------------------------------------------------
+// Traversal
+// ---------------------------------------------------------------------------
+
+function stepsFrom(graph: EntityGraph, nodeId: string, opts: GraphTraversalOptions): GraphStep[] {
+  const direction = opts.direction ?? 'both'
+  const typeOk = (e: GraphEdge) => !opts.relationTypes || opts.relationTypes.length === 0 || opts.relationTypes.includes(e.type)
+  const steps: GraphStep[] = []
+  if (direction !== 'in') {
+    for (const e of graph.out.get(nodeId) ?? []) {
+      if (typeOk(e)) steps.push({ edge: e, direction: 'out', node: graph.nodes.get(e.to)! })
+    }
+  }
+  if (direction !== 'out') {
+    for (const e of graph.in.get(nodeId) ?? []) {
+      if (typeOk(e)) steps.push({ edge: e, direction: 'in', node: graph.nodes.get(e.from)! })
+    }
+  }
+  return steps
+}
+
+/** One hop. direction 'in' is the reverse lookup — what points at this node. */
+export function graphNeighbors(
+  graph: EntityGraph,
+  nodeId: string,
+  opts: Omit<GraphTraversalOptions, 'maxHops'> = {}
+): GraphStep[] {
+  return stepsFrom(graph, nodeId, opts)
+}
+
+/**
+ * Breadth-first walk up to maxHops (default 2). Each reached node is returned
+ * once, with the shortest path that reached it.
+ */
+export function traverseGraph(
+  graph: EntityGraph,
+  startId: string,
+  opts: GraphTraversalOptions & { expand?: (node: GraphNode, depth: number) => boolean } = {}
+): GraphPath[] {
+  const start = graph.nodes.get(startId)
+  if (!start) return []
+  const maxHops = opts.maxHops ?? 2
+  const seen = new Set([startId])
+  const out: GraphPath[] = []
+  let frontier: GraphPath[] = [{ start, steps: [] }]
+
+  for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+    const next: GraphPath[] = []
+    for (const path of frontier) {
+      const tail = path.steps.length > 0 ? path.steps[path.steps.length - 1].node : start
+      if (path.steps.length > 0 && opts.expand && !opts.expand(tail, depth - 1)) continue
+      for (const step of stepsFrom(graph, tail.id, opts)) {
+        if (seen.has(step.node.id)) continue
+        seen.add(step.node.id)
+        const extended = { start, steps: [...path.steps, step] }
+        out.push(extended)
+        next.push(extended)
+      }
+    }
+    frontier = next
+  }
+  return out
+}
+
+/**
+ * Simple paths (no repeated node) from one node to another, shortest first,
+ * up to maxHops (default 4) and `limit` paths (default 5).
+ */
+export function findGraphPaths(
+  graph: EntityGraph,
+  fromId: string,
+  toId: string,
+  opts: GraphTraversalOptions & { limit?: number } = {}
+): GraphPath[] {
+  const start = graph.nodes.get(fromId)
+  if (!start || !graph.nodes.has(toId) || fromId === toId) return []
+  const maxHops = opts.maxHops ?? 4
+  const limit = opts.limit ?? 5
+  const found: GraphPath[] = []
+  let frontier: GraphPath[] = [{ start, steps: [] }]
+
+  for (let depth = 1; depth <= maxHops && frontier.length > 0 && found.length < limit; depth++) {
+    const next: GraphPath[] = []
+    for (const path of frontier) {
+      const tail = path.steps.length > 0 ? path.steps[path.steps.length - 1].node : start
+      const onPath = new Set([fromId, ...path.steps.map(s => s.node.id)])
+      for (const step of stepsFrom(graph, tail.id, opts)) {
+        if (onPath.has(step.node.id)) continue
+        const extended = { start, steps: [...path.steps, step] }
+        if (step.node.id === toId) {
+          found.push(extended)
+          if (found.length >= limit) break
+        } else {
+          next.push(extended)
+        }
+      }
+      if (found.length >= limit) break
+    }
+    frontier = next
+  }
+  return found
+}
+
+/** Edge types that mean "must be resolved before". */
+export const BLOCKING_RELATION_TYPES = [
+  'required_by',
+  'belongs_to',
+  'performed_in',
+  'precedes',
+  'governs',
+  'clarifies',
+  'submitted_for',
+]
+
+/**
+ * Open nodes upstream of `targetId`: walks incoming dependency edges up to
+ * maxHops (default 3). Other schedule activities are reported but not walked
+ * through — a predecessor's own submittals are that activity's blockers.
+ */
+export function findGraphBlockers(
+  graph: EntityGraph,
+  targetId: string,
+  opts: { maxHops?: number } = {}
+): GraphPath[] {
+  return traverseGraph(graph, targetId, {
+    direction: 'in',
+    relationTypes: BLOCKING_RELATION_TYPES,
+    maxHops: opts.maxHops ?? 3,
+    expand: node => node.kind !== 'schedule_activity',
+  }).filter(p => p.steps[p.steps.length - 1].node.open)
+}
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+export type GraphQueryMode = 'neighbors' | 'traverse' | 'paths' | 'blockers'
+
+export const GRAPH_QUERY_MODES: GraphQueryMode[] = ['neighbors', 'traverse', 'paths', 'blockers']
+
+export interface GraphQuery {
+  mode: GraphQueryMode
+  /** Node id, or text resolved with resolveGraphNodes. */
+  node: string
+  /** Path end for mode 'paths' — id or text. */
+  target?: string | null
+  /** Restrict text resolution of `node` to these node types. */
+  nodeTypes?: string[]
+  direction?: GraphDirection
+  relationTypes?: string[]
+  maxHops?: number
+  limit?: number
+}
+
+export interface GraphQueryResult {
+  query: GraphQuery
+  start: GraphNode | null
+  /** Other nodes the text matched, for disambiguation. */
+  alternatives: GraphNode[]
+  target: GraphNode | null
+  /** Neighbors come back as one-step paths. */
+  paths: GraphPath[]
+  /** Paths found before `limit` was applied. */
+  totalPaths: number
+}
+
+const MAX_GRAPH_HOPS = 6
+
+export function runGraphQuery(graph: EntityGraph, query: GraphQuery): GraphQueryResult {
+  const limit = query.limit ?? 50
+  const maxHops = Math.min(query.maxHops ?? (query.mode === 'paths' ? 4 : query.mode === 'blockers' ? 3 : 2), MAX_GRAPH_HOPS)
+  const matches = resolveGraphNodes(graph, query.node, { types: query.nodeTypes, limit: 6 })
+  const start = matches[0] ?? null
+  const empty: GraphQueryResult = { query, start, alternatives: matches.slice(1), target: null, paths: [], totalPaths: 0 }
+  if (!start) return empty
+
+  const opts = { direction: query.direction, relationTypes: query.relationTypes, maxHops }
+  let paths: GraphPath[]
+  let target: GraphNode | null = null
+  switch (query.mode) {
+    case 'neighbors':
+      paths = graphNeighbors(graph, start.id, opts).map(step => ({ start, steps: [step] }))
+      break
+    case 'traverse':
+      paths = traverseGraph(graph, start.id, opts)
+      break
+    case 'blockers':
+      paths = findGraphBlockers(graph, start.id, { maxHops })
+      break
+    case 'paths':
+      target = query.target ? resolveGraphNodes(graph, query.target, { limit: 1 })[0] ?? null : null
+      paths = target ? findGraphPaths(graph, start.id, target.id, { ...opts, limit }) : []
+      break
+  }
+  return { ...empty, target, paths: paths.slice(0, limit), totalPaths: paths.length }
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const KIND_LABEL: Record<GraphNodeKind, string> = {
+  entity: 'entity',
+  submittal: 'submittal',
+  schedule_activity: 'activity',
+}
+
+export function describeGraphNode(node: GraphNode): string {
+  const type = node.kind === 'entity' ? node.type.replace(/_/g, ' ') : KIND_LABEL[node.kind]
+  const ref = node.ref && !node.label.includes(node.ref) ? `${node.ref} ` : ''
+  const status = node.status ? ` — ${node.status.replace(/_/g, ' ')}` : ''
+  const date = node.date ? ` (${node.kind === 'submittal' ? 'due' : 'start'} ${node.date})` : ''
+  return `[${type}] ${ref}${node.label}${status}${date}`
+}
+
+/** "Slab Pour ←performed_in— Concrete ←belongs_to— 03 30 00 Rebar shop drawings" */
+export function formatGraphPath(path: GraphPath): string {
+  let text = path.start.label
+  for (const s of path.steps) {
+    text += s.direction === 'out' ? ` —${s.edge.type}→ ` : ` ←${s.edge.type}— `
+    text += s.node.label
+  }
+  return text
+}
+
+/** Plain-text answer for the chat tool. */
+export function formatGraphQueryAnswer(result: GraphQueryResult, scheduleVersionLabel: string | null): string {
+  const { query, start } = result
+  if (!start) {
+    return `No project entity, submittal, feature of work, or schedule activity matched "${query.node}".`
+  }
+
+  const lines: string[] = []
+  lines.push(`Start: ${describeGraphNode(start)}`)
+  if (result.alternatives.length > 0) {
+    lines.push(`Other matches: ${result.alternatives.map(n => `${n.label} (${n.id})`).join('; ')}`)
+  }
+  if (scheduleVersionLabel) lines.push(`Schedule: ${scheduleVersionLabel}`)
+  lines.push('')
+
+  if (query.mode === 'paths' && !result.target) {
+    lines.push(query.target ? `No node matched target "${query.target}".` : 'A target is required for path queries.')
+    return lines.join('\n')
+  }
+
+  if (result.paths.length === 0) {
+    lines.push(
+      query.mode === 'blockers'
+        ? 'No open submittals, RFIs, or predecessor activities found upstream.'
+        : query.mode === 'paths'
+          ? `No path to ${result.target!.label} within ${query.maxHops ?? 4} hops.`
+          : 'No related nodes found.'
+    )
+    return lines.join('\n')
+  }
+
+  const heading: Record<GraphQueryMode, string> = {
+    neighbors: 'Directly related',
+    traverse: 'Reachable',
+    paths: `Paths to ${result.target?.label ?? ''}`,
+    blockers: 'Open items upstream (blockers)',
+  }
+  lines.push(`${heading[query.mode]} (${result.totalPaths}${result.totalPaths > result.paths.length ? `, showing ${result.paths.length}` : ''}):`)
+  for (const path of result.paths) {
+    const end = path.steps[path.steps.length - 1].node
+    lines.push(query.mode === 'paths' ? `- ${formatGraphPath(path)}` : `- ${describeGraphNode(end)}`)
+    if (query.mode !== 'paths') lines.push(`    via ${formatGraphPath(path)}`)
+  }
+  return lines.join('\n')
+}
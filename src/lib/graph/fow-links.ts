@@ -0,0 +1,146 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import {
+  applyFowLinkSyncPlan,
+  planFowSubmittalLinkSync,
+  type FowEntity,
+  type FowLinkSource,
+  type FowLinkStatus,
+  type FowSubmittalLink,
+} from './fow-readiness'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+const PAGE_SIZE = 1000
+
+const LINK_COLUMNS = 'id, fow_entity_id, dedupe_key, spec_section, source, status'
+
+interface FowSubmittalLinkRow {
+  id: string
+  fow_entity_id: string
+  dedupe_key: string
+  spec_section: string | null
+  source: string
+  status: string
+}
+
+function rowToFowSubmittalLink(row: FowSubmittalLinkRow): FowSubmittalLink {
+  return {
+    id: row.id,
+    fowId: row.fow_entity_id,
+    dedupeKey: row.dedupe_key,
+    specSection: row.spec_section,
+    source: row.source as FowLinkSource,
+    status: row.status as FowLinkStatus,
+  }
+}
+
+export async function loadFowSubmittalLinks(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ links: FowSubmittalLink[]; error: string | null }> {
+  const links: FowSubmittalLink[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabase
+      .from('fow_submittal_links')
+      .select(LINK_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) return { links: [], error: error.message }
+    const rows = (data ?? []) as FowSubmittalLinkRow[]
+    links.push(...rows.map(rowToFowSubmittalLink))
+    if (rows.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+  return { links, error: null }
+}
+
+/**
+ * Loads the project's links and writes whatever planFowSubmittalLinkSync
+ * infers from the current register run. Returns the links in effect.
+ *
+ * A failed write is logged and the in-memory result is still returned — the
+ * next read retries the same inference, so callers can render regardless.
+ */
+export async function syncFowSubmittalLinks(
+  supabase: ServiceClient,
+  projectId: string,
+  fows: FowEntity[],
+  submittals: SubmittalRegisterItem[]
+): Promise<{ links: FowSubmittalLink[]; error: string | null }> {
+  const loaded = await loadFowSubmittalLinks(supabase, projectId)
+  if (loaded.error) return loaded
+
+  const plan = planFowSubmittalLinkSync(fows, submittals, loaded.links)
+
+  if (plan.toDelete.length > 0) {
+    const { error } = await supabase
+      .from('fow_submittal_links')
+      .delete()
+      .eq('project_id', projectId)
+      .in('id', plan.toDelete)
+    if (error) console.error('[fow-links] Stale link delete failed:', error.message)
+  }
+
+  if (plan.toInsert.length > 0) {
+    const rows = plan.toInsert.map(l => ({
+      project_id: projectId,
+      fow_entity_id: l.fowId,
+      dedupe_key: l.dedupeKey,
+      spec_section: l.specSection,
+      source: l.source,
+      status: l.status,
+    }))
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      const { error } = await supabase
+        .from('fow_submittal_links')
+        .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'fow_entity_id,dedupe_key', ignoreDuplicates: true })
+      if (error) {
+        console.error('[fow-links] Inferred link insert failed:', error.message)
+        break
+      }
+    }
+  }
+
+  return { links: applyFowLinkSyncPlan(loaded.links, plan), error: null }
+}
+
+/**
+ * Adds (status 'active') or removes (status 'removed') a link by hand. Either
+ * way the row's source becomes 'user', so inference leaves it alone.
+ */
+export async function setFowSubmittalLink(
+  supabase: ServiceClient,
+  args: {
+    projectId: string
+    fowId: string
+    dedupeKey: string
+    specSection: string | null
+    status: FowLinkStatus
+    userId: string
+  }
+): Promise<{ link: FowSubmittalLink | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('fow_submittal_links')
+    .upsert(
+      {
+        project_id: args.projectId,
+        fow_entity_id: args.fowId,
+        dedupe_key: args.dedupeKey,
+        spec_section: args.specSection,
+        source: 'user',
+        status: args.status,
+        created_by: args.userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'fow_entity_id,dedupe_key' }
+    )
+    .select(LINK_COLUMNS)
+    .single()
+
+  if (error) return { link: null, error: error.message }
+  return { link: rowToFowSubmittalLink(data as FowSubmittalLinkRow), error: null }
+}
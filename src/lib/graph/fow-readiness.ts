@@ -4,11 +4,24 @@
  * Phase 8A revision: model after pebs-app DFOWs.
  *
  * FOW carries `specSections: string[]` (in project_entities.metadata).
- * A submittal belongs to a FOW if its specSection is in that FOW's specSections.
- * No fowEntityId on submittal — relationship is fully derived.
+ * Submittal membership is persisted in fow_submittal_links, keyed on the
+ * register item's dedupeKey so links survive register re-runs. Links are
+ * inferred from spec sections and item.relatedFOW (planFowSubmittalLinkSync)
+ * and can be added or removed by hand; a removal is kept as a tombstone.
+ *
+ * Inspections and hold points (project_inspections) are a second readiness
+ * input: readinessPercent covers submittals and inspections together, and an
+ * open hold point caps it below 100.
  */
 
 import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import {
+  isInspectionFailed,
+  isInspectionSatisfied,
+  isOpenHoldPoint,
+  type ProjectInspection,
+} from './inspections.ts'
+import { isSupersededItem } from '../chat/submittal-register-merge.ts'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,6 +42,20 @@ export interface FowEntity {
   subcontractor: string | null
 }
 
+export type FowLinkSource = 'spec_section' | 'related_fow' | 'user'
+export type FowLinkStatus = 'active' | 'removed'
+
+/** One fow_submittal_links row. */
+export interface FowSubmittalLink {
+  id?: string
+  fowId: string
+  dedupeKey: string
+  /** Item's spec section when the link was made. */
+  specSection: string | null
+  source: FowLinkSource
+  status: FowLinkStatus
+}
+
 export interface FowReadiness {
   fow: FowEntity
   requiredSubmittals: SubmittalRegisterItem[]
@@ -38,6 +65,47 @@ export interface FowReadiness {
   totalCount: number
   readinessPercent: number
   blockers: SubmittalRegisterItem[]
+  /** dedupeKey → how the submittal was linked. Present when computed from links. */
+  linkSources?: Record<string, FowLinkSource>
+  inspections: ProjectInspection[]
+  satisfiedInspectionCount: number
+  failedInspectionCount: number
+  openHoldPointCount: number
+  /** Failed inspections, open hold points, then other open inspections. */
+  inspectionBlockers: ProjectInspection[]
+}
+
+/** Shape of project_entities.metadata for entity_type='feature_of_work'. */
+export interface FowMetadata {
+  specSections?: string[]
+  trade?: string | null
+  subcontractor?: string | null
+  sequence?: number
+}
+
+export function rowToFowEntity(row: {
+  id: string
+  project_id: string
+  canonical_name: string
+  display_name: string | null
+  discipline: string
+  status: string | null
+  metadata: unknown
+}): FowEntity {
+  const meta = (row.metadata ?? {}) as FowMetadata
+  const status = (row.status as FowReviewStatus) ?? 'active'
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    canonicalName: row.canonical_name,
+    displayName: row.display_name ?? row.canonical_name,
+    discipline: row.discipline,
+    status,
+    sequence: typeof meta.sequence === 'number' ? meta.sequence : 0,
+    specSections: Array.isArray(meta.specSections) ? meta.specSections : [],
+    trade: meta.trade ?? null,
+    subcontractor: meta.subcontractor ?? null,
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -80,18 +148,43 @@ export function getCsiDivision(s: string | null | undefined): string {
 // Pure computation
 // ---------------------------------------------------------------------------
 
+/**
+ * Readiness of one FOW over its required submittals and inspections.
+ * Pass the project's links to record each submittal's link provenance on
+ * the result.
+ *
+ * readinessPercent = (approved submittals + satisfied inspections) / (all of
+ * both). An open hold point keeps it at 99 or below even when rounding would
+ * reach 100. Superseded submittals (dropped from the specs on regeneration)
+ * are not required.
+ */
 export function computeFowReadiness(
   fow: FowEntity,
-  requiredSubmittals: SubmittalRegisterItem[]
+  submittals: SubmittalRegisterItem[],
+  opts: { links?: FowSubmittalLink[]; inspections?: ProjectInspection[] } = {}
 ): FowReadiness {
+  const requiredSubmittals = submittals.filter(item => !isSupersededItem(item))
+  const { links } = opts
+  const inspections = opts.inspections ?? []
   const approved = requiredSubmittals.filter(isApproved)
   const blocked = requiredSubmittals.filter(isBlocked)
   const total = requiredSubmittals.length
   const pending = total - approved.length - blocked.length
 
-  const readinessPercent = total === 0 ? 100 : Math.round((approved.length / total) * 100)
+  const satisfied = inspections.filter(isInspectionSatisfied)
+  const failed = inspections.filter(isInspectionFailed)
+  const holdPoints = inspections.filter(i => isOpenHoldPoint(i) && !isInspectionFailed(i))
+  const otherOpen = inspections.filter(
+    i => !isInspectionSatisfied(i) && !isInspectionFailed(i) && !isOpenHoldPoint(i)
+  )
 
-  return {
+  const denominator = total + inspections.length
+  let readinessPercent = denominator === 0
+    ? 100
+    : Math.round(((approved.length + satisfied.length) / denominator) * 100)
+  if (holdPoints.length + failed.length > 0) readinessPercent = Math.min(readinessPercent, 99)
+
+  const result: FowReadiness = {
     fow,
     requiredSubmittals,
     approvedCount: approved.length,
@@ -100,7 +193,19 @@ export function computeFowReadiness(
     totalCount: total,
     readinessPercent,
     blockers: [...blocked, ...requiredSubmittals.filter(i => !isApproved(i) && !isBlocked(i))],
+    inspections,
+    satisfiedInspectionCount: satisfied.length,
+    failedInspectionCount: failed.length,
+    openHoldPointCount: inspections.filter(isOpenHoldPoint).length,
+    inspectionBlockers: [...failed, ...holdPoints, ...otherOpen],
   }
+  if (links) {
+    result.linkSources = {}
+    for (const link of links) {
+      if (link.fowId === fow.id && link.status === 'active') result.linkSources[link.dedupeKey] = link.source
+    }
+  }
+  return result
 }
 
 export function rankFowByReadiness(results: FowReadiness[]): FowReadiness[] {
@@ -108,7 +213,7 @@ export function rankFowByReadiness(results: FowReadiness[]): FowReadiness[] {
     if (a.readinessPercent !== b.readinessPercent) {
       return a.readinessPercent - b.readinessPercent
     }
-    return b.blockers.length - a.blockers.length
+    return (b.blockers.length + b.inspectionBlockers.length) - (a.blockers.length + a.inspectionBlockers.length)
   })
 }
 
@@ -146,6 +251,150 @@ export function groupSubmittalsByFowSpecSections(
   return out
 }
 
+/**
+ * Group inspections into FOWs. An inspection with an explicit fowId belongs
+ * to that FOW only; otherwise to every FOW whose specSections contain its
+ * spec section.
+ */
+export function groupInspectionsByFow(
+  fows: FowEntity[],
+  inspections: ProjectInspection[]
+): Map<string, ProjectInspection[]> {
+  const out = new Map<string, ProjectInspection[]>()
+  for (const fow of fows) out.set(fow.id, [])
+
+  const fowSections = new Map<string, Set<string>>()
+  for (const fow of fows) {
+    fowSections.set(fow.id, new Set(fow.specSections.map(s => normalizeSpecSectionForFow(s)).filter(Boolean)))
+  }
+
+  for (const inspection of inspections) {
+    if (inspection.fowId) {
+      out.get(inspection.fowId)?.push(inspection)
+      continue
+    }
+    const normalized = normalizeSpecSectionForFow(inspection.specSection)
+    if (!normalized) continue
+    for (const fow of fows) {
+      if (fowSections.get(fow.id)!.has(normalized)) out.get(fow.id)!.push(inspection)
+    }
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Persisted links (fow_submittal_links)
+// ---------------------------------------------------------------------------
+
+export interface FowLinkSyncPlan {
+  toInsert: FowSubmittalLink[]
+  /** ids of inferred links whose spec section left the FOW. */
+  toDelete: string[]
+}
+
+function linkPairKey(fowId: string, dedupeKey: string): string {
+  return `${fowId}|${dedupeKey}`
+}
+
+/**
+ * Work out which inferred links to write for the current register run.
+ *
+ * - `related_fow`: item.relatedFOW normalizes to the FOW's canonical name
+ * - `spec_section`: item's spec section is in the FOW's specSections
+ *
+ * A pair that already has a row — active or removed — is left alone, so a
+ * user removal is never re-inferred and a user link is never relabelled.
+ * Active `spec_section` links whose stored section is no longer in the FOW
+ * are deleted; `related_fow` and `user` links are only removed by hand.
+ */
+export function planFowSubmittalLinkSync(
+  fows: FowEntity[],
+  submittals: SubmittalRegisterItem[],
+  links: FowSubmittalLink[]
+): FowLinkSyncPlan {
+  const fowSections = new Map<string, Set<string>>()
+  for (const fow of fows) {
+    fowSections.set(fow.id, new Set(fow.specSections.map(s => normalizeSpecSectionForFow(s)).filter(Boolean)))
+  }
+  const fowByName = new Map(fows.map(f => [f.canonicalName, f]))
+
+  const toDelete: string[] = []
+  const existing = new Set<string>()
+  for (const link of links) {
+    const sections = fowSections.get(link.fowId)
+    const stale =
+      link.status === 'active' &&
+      link.source === 'spec_section' &&
+      sections !== undefined &&
+      !sections.has(normalizeSpecSectionForFow(link.specSection))
+    if (stale && link.id) {
+      toDelete.push(link.id)
+      continue
+    }
+    existing.add(linkPairKey(link.fowId, link.dedupeKey))
+  }
+
+  const toInsert: FowSubmittalLink[] = []
+  const plan = (fowId: string, item: SubmittalRegisterItem, source: FowLinkSource) => {
+    const key = linkPairKey(fowId, item.dedupeKey!)
+    if (existing.has(key)) return
+    existing.add(key)
+    toInsert.push({ fowId, dedupeKey: item.dedupeKey!, specSection: item.specSection, source, status: 'active' })
+  }
+
+  for (const item of submittals) {
+    if (!item.dedupeKey) continue
+    if (item.relatedFOW) {
+      const fow = fowByName.get(normalizeFowName(item.relatedFOW))
+      if (fow) plan(fow.id, item, 'related_fow')
+    }
+    const normalized = normalizeSpecSectionForFow(item.specSection)
+    if (!normalized) continue
+    for (const fow of fows) {
+      if (fowSections.get(fow.id)!.has(normalized)) plan(fow.id, item, 'spec_section')
+    }
+  }
+
+  return { toInsert, toDelete }
+}
+
+/** Links as they stand once `plan` is applied — for callers that skip a reload. */
+export function applyFowLinkSyncPlan(
+  links: FowSubmittalLink[],
+  plan: FowLinkSyncPlan
+): FowSubmittalLink[] {
+  const deleted = new Set(plan.toDelete)
+  return [...links.filter(l => !l.id || !deleted.has(l.id)), ...plan.toInsert]
+}
+
+/**
+ * Group submittals into FOWs by active persisted link. Items match on
+ * dedupeKey, so links made against an earlier register run still apply.
+ */
+export function groupSubmittalsByFowLinks(
+  fows: FowEntity[],
+  submittals: SubmittalRegisterItem[],
+  links: FowSubmittalLink[]
+): Map<string, SubmittalRegisterItem[]> {
+  const out = new Map<string, SubmittalRegisterItem[]>()
+  for (const fow of fows) out.set(fow.id, [])
+
+  const byDedupeKey = new Map<string, SubmittalRegisterItem[]>()
+  for (const s of submittals) {
+    if (!s.dedupeKey) continue
+    if (!byDedupeKey.has(s.dedupeKey)) byDedupeKey.set(s.dedupeKey, [])
+    byDedupeKey.get(s.dedupeKey)!.push(s)
+  }
+
+  for (const link of links) {
+    if (link.status !== 'active') continue
+    const list = out.get(link.fowId)
+    if (!list) continue
+    list.push(...(byDedupeKey.get(link.dedupeKey) ?? []))
+  }
+  return out
+}
+
 // ---------------------------------------------------------------------------
 // Name normalization
 // ---------------------------------------------------------------------------
@@ -0,0 +1,107 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import {
+  INSPECTION_REQUIREMENT_FAMILIES,
+  planInspectionSeeds,
+  rowToProjectInspection,
+  type ProjectInspection,
+  type ProjectInspectionRow,
+  type SpecInspectionRequirement,
+} from './inspections'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+const PAGE_SIZE = 1000
+
+export const INSPECTION_COLUMNS =
+  'id, fow_entity_id, title, inspection_type, spec_section, part_reference, status, scheduled_date, inspector, result, result_notes, completed_at, source, source_requirement_key'
+
+interface SpecRequirementRow {
+  canonical_name: string
+  display_name: string | null
+  subtype: string | null
+  metadata: { parentSectionNumber?: string | null; partReference?: string | null } | null
+  entity_findings: Array<{ statement: string | null }> | null
+}
+
+export async function loadProjectInspections(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ inspections: ProjectInspection[]; error: string | null }> {
+  const inspections: ProjectInspection[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_inspections')
+      .select(INSPECTION_COLUMNS)
+      .eq('project_id', projectId)
+      .order('spec_section', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { inspections: [], error: error.message }
+    const rows = (data ?? []) as ProjectInspectionRow[]
+    inspections.push(...rows.map(rowToProjectInspection))
+    if (rows.length < PAGE_SIZE) break
+  }
+  return { inspections, error: null }
+}
+
+/**
+ * Creates a project_inspections row for every extracted testing/inspection
+ * requirement that has none yet. Safe to re-run: rows are keyed on the
+ * requirement's canonical_name and inserts ignore duplicates.
+ */
+export async function seedInspectionsFromSpecRequirements(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ seeded: number; error: string | null }> {
+  const requirements: SpecInspectionRequirement[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_entities')
+      .select('canonical_name, display_name, subtype, metadata, entity_findings!entity_findings_entity_id_fkey(statement)')
+      .eq('project_id', projectId)
+      .eq('discipline', 'spec')
+      .eq('entity_type', 'spec_requirement')
+      .in('subtype', [...INSPECTION_REQUIREMENT_FAMILIES])
+      .order('canonical_name', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { seeded: 0, error: error.message }
+    const rows = (data ?? []) as unknown as SpecRequirementRow[]
+    for (const row of rows) {
+      requirements.push({
+        canonicalName: row.canonical_name,
+        family: row.subtype ?? '',
+        sectionNumber: row.metadata?.parentSectionNumber ?? null,
+        partReference: row.metadata?.partReference ?? null,
+        statement: row.entity_findings?.[0]?.statement ?? row.display_name ?? '',
+      })
+    }
+    if (rows.length < PAGE_SIZE) break
+  }
+  if (requirements.length === 0) return { seeded: 0, error: null }
+
+  const existing = await loadProjectInspections(supabase, projectId)
+  if (existing.error) return { seeded: 0, error: existing.error }
+  const keys = new Set(
+    existing.inspections.map(i => i.sourceRequirementKey).filter((k): k is string => !!k)
+  )
+
+  const seeds = planInspectionSeeds(requirements, keys)
+  for (let i = 0; i < seeds.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('project_inspections')
+      .upsert(
+        seeds.slice(i, i + PAGE_SIZE).map(s => ({
+          project_id: projectId,
+          title: s.title,
+          inspection_type: s.inspectionType,
+          spec_section: s.specSection,
+          part_reference: s.partReference,
+          source: 'spec',
+          source_requirement_key: s.sourceRequirementKey,
+        })),
+        { onConflict: 'project_id,source_requirement_key', ignoreDuplicates: true }
+      )
+    if (error) return { seeded: i, error: error.message }
+  }
+  return { seeded: seeds.length, error: null }
+}
@@ -0,0 +1,165 @@
+/**
+ * Project inspections (Phase 8C) — pure logic.
+ *
+ * Special inspections, tests and hold points that gate a feature of work.
+ * Seeded from spec_requirement entities whose family is testing_requirement
+ * or inspection_requirement, then tracked by hand (scheduled date, inspector,
+ * result). computeFowReadiness counts them alongside submittals; an open hold
+ * point keeps a FOW below 100%.
+ *
+ * Rows are read and written by inspection-persistence.ts.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const INSPECTION_TYPES = ['hold_point', 'special_inspection', 'test', 'inspection'] as const
+export type InspectionType = (typeof INSPECTION_TYPES)[number]
+
+export const INSPECTION_STATUSES = ['required', 'scheduled', 'complete', 'waived'] as const
+export type InspectionStatus = (typeof INSPECTION_STATUSES)[number]
+
+export const INSPECTION_RESULTS = ['pass', 'pass_with_comments', 'fail'] as const
+export type InspectionResult = (typeof INSPECTION_RESULTS)[number]
+
+export interface ProjectInspection {
+  id: string
+  /** Explicit FOW; null = every FOW whose specSections contain specSection. */
+  fowId: string | null
+  title: string
+  inspectionType: InspectionType
+  specSection: string | null
+  partReference: string | null
+  status: InspectionStatus
+  scheduledDate: string | null
+  inspector: string | null
+  result: InspectionResult | null
+  resultNotes: string | null
+  completedAt: string | null
+  source: 'spec' | 'manual'
+  /** canonical_name of the seeding spec_requirement entity. */
+  sourceRequirementKey: string | null
+}
+
+export interface ProjectInspectionRow {
+  id: string
+  fow_entity_id: string | null
+  title: string
+  inspection_type: string
+  spec_section: string | null
+  part_reference: string | null
+  status: string
+  scheduled_date: string | null
+  inspector: string | null
+  result: string | null
+  result_notes: string | null
+  completed_at: string | null
+  source: string
+  source_requirement_key: string | null
+}
+
+export function rowToProjectInspection(row: ProjectInspectionRow): ProjectInspection {
+  return {
+    id: row.id,
+    fowId: row.fow_entity_id,
+    title: row.title,
+    inspectionType: row.inspection_type as InspectionType,
+    specSection: row.spec_section,
+    partReference: row.part_reference,
+    status: row.status as InspectionStatus,
+    scheduledDate: row.scheduled_date,
+    inspector: row.inspector,
+    result: row.result as InspectionResult | null,
+    resultNotes: row.result_notes,
+    completedAt: row.completed_at,
+    source: row.source === 'spec' ? 'spec' : 'manual',
+    sourceRequirementKey: row.source_requirement_key,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Status classification
+// ---------------------------------------------------------------------------
+
+/** Passed (with or without comments) or waived. */
+export function isInspectionSatisfied(i: ProjectInspection): boolean {
+  if (i.status === 'waived') return true
+  return i.status === 'complete' && (i.result === 'pass' || i.result === 'pass_with_comments')
+}
+
+export function isInspectionFailed(i: ProjectInspection): boolean {
+  return i.status === 'complete' && i.result === 'fail'
+}
+
+/** A hold point that has not been released. Work past it cannot proceed. */
+export function isOpenHoldPoint(i: ProjectInspection): boolean {
+  return i.inspectionType === 'hold_point' && !isInspectionSatisfied(i)
+}
+
+// ---------------------------------------------------------------------------
+// Seeding from spec requirements
+// ---------------------------------------------------------------------------
+
+export const INSPECTION_REQUIREMENT_FAMILIES = ['testing_requirement', 'inspection_requirement'] as const
+
+/** A spec_requirement entity as the seeder needs it. */
+export interface SpecInspectionRequirement {
+  /** project_entities.canonical_name — stable across re-extraction. */
+  canonicalName: string
+  family: string
+  sectionNumber: string | null
+  partReference: string | null
+  statement: string
+}
+
+export interface InspectionSeed {
+  title: string
+  inspectionType: InspectionType
+  specSection: string | null
+  partReference: string | null
+  sourceRequirementKey: string
+}
+
+const HOLD_POINT_RE = /\b(?:hold|witness)\s*points?\b|\bdo\s+not\s+(?:proceed|cover|conceal|place|pour)\b|\bprior\s+to\s+(?:covering|concealing|concealment|placing|placement)\b/i
+const SPECIAL_INSPECTION_RE = /\bspecial\s+inspect(?:ion|or)s?\b/i
+
+export function classifyInspectionType(statement: string, family: string): InspectionType {
+  if (HOLD_POINT_RE.test(statement)) return 'hold_point'
+  if (SPECIAL_INSPECTION_RE.test(statement)) return 'special_inspection'
+  return family === 'testing_requirement' ? 'test' : 'inspection'
+}
+
+const MAX_TITLE = 160
+
+function inspectionTitle(statement: string): string {
+  const text = statement.trim().replace(/\s+/g, ' ')
+  return text.length > MAX_TITLE ? `${text.slice(0, MAX_TITLE - 1)}…` : text
+}
+
+/**
+ * Seeds for every testing/inspection requirement whose canonical name has no
+ * row yet (`existingKeys` = source_requirement_key of current rows). A deleted
+ * row is re-seeded on the next run; mark it 'waived' to retire it.
+ */
+export function planInspectionSeeds(
+  requirements: SpecInspectionRequirement[],
+  existingKeys: Set<string>
+): InspectionSeed[] {
+  const families = new Set<string>(INSPECTION_REQUIREMENT_FAMILIES)
+  const seen = new Set(existingKeys)
+  const seeds: InspectionSeed[] = []
+  for (const req of requirements) {
+    if (!families.has(req.family) || seen.has(req.canonicalName)) continue
+    if (!req.statement.trim()) continue
+    seen.add(req.canonicalName)
+    seeds.push({
+      title: inspectionTitle(req.statement),
+      inspectionType: classifyInspectionType(req.statement, req.family),
+      specSection: req.sectionNumber,
+      partReference: req.partReference,
+      sourceRequirementKey: req.canonicalName,
+    })
+  }
+  return seeds
+}
@@ -0,0 +1,29 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import { rowToProcurementItem, type ProcurementItem, type ProcurementItemRow } from './procurement'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+const PAGE_SIZE = 1000
+
+export const PROCUREMENT_COLUMNS =
+  'id, submittal_dedupe_key, description, po_number, vendor, status, order_date, promised_ship_date, expected_delivery_date, actual_delivery_date, notes'
+
+export async function loadProcurementItems(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ items: ProcurementItem[]; error: string | null }> {
+  const items: ProcurementItem[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_procurement_items')
+      .select(PROCUREMENT_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { items: [], error: error.message }
+    const rows = (data ?? []) as ProcurementItemRow[]
+    items.push(...rows.map(rowToProcurementItem))
+    if (rows.length < PAGE_SIZE) break
+  }
+  return { items, error: null }
+}
@@ -0,0 +1,247 @@
+/**
+ * Procurement tracking (Phase 8D) — pure logic.
+ *
+ * A procurement item is a PO line released by an approved submittal. It is
+ * tied to the submittal by register dedupeKey, and through the submittal's
+ * scheduleActivityLink to the activity that needs the material.
+ *
+ * The timeline compares when material will land against that need-by date.
+ * Landing date, first known wins:
+ *   actual       actualDeliveryDate
+ *   expected     expectedDeliveryDate
+ *   promised     promisedShipDate (vendor commitment; transit not modelled)
+ *   order_lead   orderDate + submittal lead time
+ *   projected    projected approval + lead time (computeSubmittalScheduleRisk)
+ * Levels mirror submittal schedule risk: late after the activity's late start
+ * (or after need-by when no late start is known), at_risk between early and
+ * late start. Superseded submittals (dropped from the specs on regeneration)
+ * release nothing and tie to no procurement item.
+ *
+ * Rows are read and written by procurement-persistence.ts.
+ */
+
+import type { SubmittalRegisterItem } from '@/lib/chat/submittal-register'
+import { resolveEffectiveStatus } from '../chat/submittal-lifecycle.ts'
+import { isSupersededItem } from '../chat/submittal-register-merge.ts'
+import { daysBetween, type ScheduleActivity } from '../schedule/schedule-model.ts'
+import { computeSubmittalScheduleRisk } from '../schedule/submittal-schedule-risk.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const PROCUREMENT_STATUSES = ['not_ordered', 'ordered', 'shipped', 'delivered', 'cancelled'] as const
+export type ProcurementStatus = (typeof PROCUREMENT_STATUSES)[number]
+
+export interface ProcurementItem {
+  id: string
+  /** Register dedupeKey of the submittal that released the order. */
+  submittalDedupeKey: string
+  description: string
+  poNumber: string | null
+  vendor: string | null
+  status: ProcurementStatus
+  orderDate: string | null
+  promisedShipDate: string | null
+  expectedDeliveryDate: string | null
+  actualDeliveryDate: string | null
+  notes: string | null
+}
+
+export interface ProcurementItemRow {
+  id: string
+  submittal_dedupe_key: string
+  description: string
+  po_number: string | null
+  vendor: string | null
+  status: string
+  order_date: string | null
+  promised_ship_date: string | null
+  expected_delivery_date: string | null
+  actual_delivery_date: string | null
+  notes: string | null
+}
+
+export function rowToProcurementItem(row: ProcurementItemRow): ProcurementItem {
+  return {
+    id: row.id,
+    submittalDedupeKey: row.submittal_dedupe_key,
+    description: row.description,
+    poNumber: row.po_number,
+    vendor: row.vendor,
+    status: row.status as ProcurementStatus,
+    orderDate: row.order_date,
+    promisedShipDate: row.promised_ship_date,
+    expectedDeliveryDate: row.expected_delivery_date,
+    actualDeliveryDate: row.actual_delivery_date,
+    notes: row.notes,
+  }
+}
+
+export type ProcurementLandingSource = 'actual' | 'expected' | 'promised' | 'order_lead' | 'projected'
+
+export type ProcurementTimelineLevel = 'late' | 'at_risk' | 'on_track' | 'delivered' | 'unscheduled' | 'cancelled'
+
+export interface ProcurementTimelineEntry {
+  item: ProcurementItem
+  /** Null when the releasing submittal is not in the latest register run. */
+  submittal: SubmittalRegisterItem | null
+  level: ProcurementTimelineLevel
+  landingDate: string | null
+  landingSource: ProcurementLandingSource | null
+  activityId: string | null
+  activityName: string | null
+  activityIsCritical: boolean
+  needByDate: string | null
+  needBySource: 'activity' | 'item' | null
+  lateStart: string | null
+  leadTimeDays: number
+  /** landingDate − needByDate in calendar days. Positive = late. */
+  daysLate: number | null
+}
+
+export interface ProcurementTimelineSummary {
+  total: number
+  late: number
+  atRisk: number
+  onTrack: number
+  delivered: number
+  unscheduled: number
+  /** Approved long-lead submittals with no procurement item. */
+  unorderedReleases: number
+}
+
+export interface ProcurementTimeline {
+  entries: ProcurementTimelineEntry[]
+  /** Approved long-lead submittals that have released no procurement item yet. */
+  candidates: SubmittalRegisterItem[]
+  summary: ProcurementTimelineSummary
+}
+
+// ---------------------------------------------------------------------------
+// Landing date
+// ---------------------------------------------------------------------------
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * When the material lands, from the most authoritative date on the item.
+ * `projectedReadyDate` is the submittal's approval + lead time, used when
+ * nothing has been ordered.
+ */
+export function projectProcurementLanding(
+  item: ProcurementItem,
+  leadTimeDays: number,
+  projectedReadyDate: string | null
+): { landingDate: string | null; landingSource: ProcurementLandingSource | null } {
+  if (item.actualDeliveryDate) return { landingDate: item.actualDeliveryDate, landingSource: 'actual' }
+  if (item.expectedDeliveryDate) return { landingDate: item.expectedDeliveryDate, landingSource: 'expected' }
+  if (item.promisedShipDate) return { landingDate: item.promisedShipDate, landingSource: 'promised' }
+  if (item.orderDate) return { landingDate: addDays(item.orderDate, leadTimeDays), landingSource: 'order_lead' }
+  if (projectedReadyDate) return { landingDate: projectedReadyDate, landingSource: 'projected' }
+  return { landingDate: null, landingSource: null }
+}
+
+// ---------------------------------------------------------------------------
+// Timeline
+// ---------------------------------------------------------------------------
+
+/** Approved (or approved-as-noted) and flagged long-lead or given a lead time. */
+export function releasesProcurement(item: SubmittalRegisterItem): boolean {
+  const status = resolveEffectiveStatus(item)
+  if (status !== 'approved' && status !== 'approved_as_noted') return false
+  return item.lifecycleLongLeadFlag === true || (item.lifecycleLeadTimeDays ?? 0) > 0
+}
+
+export interface BuildProcurementTimelineInput {
+  items: ProcurementItem[]
+  /** Latest register run. */
+  submittals: SubmittalRegisterItem[]
+  /** Latest schedule version's activities; empty when none imported. */
+  activities: ScheduleActivity[]
+  /** YYYY-MM-DD */
+  today: string
+}
+
+const LEVEL_ORDER: Record<ProcurementTimelineLevel, number> = {
+  late: 0, at_risk: 1, unscheduled: 2, on_track: 3, delivered: 4, cancelled: 5,
+}
+
+export function buildProcurementTimeline(input: BuildProcurementTimelineInput): ProcurementTimeline {
+  const today = input.today.slice(0, 10)
+  const submittals = input.submittals.filter(s => !isSupersededItem(s))
+  const byKey = new Map<string, SubmittalRegisterItem>()
+  for (const s of submittals) if (s.dedupeKey) byKey.set(s.dedupeKey, s)
+  const byActivityId = new Map(input.activities.map(a => [a.activityId, a]))
+
+  const entries = input.items.map((item): ProcurementTimelineEntry => {
+    const submittal = byKey.get(item.submittalDedupeKey) ?? null
+    const link = submittal?.scheduleActivityLink ?? null
+    const activity = link ? byActivityId.get(link.activityId) ?? null : null
+    const risk = submittal ? computeSubmittalScheduleRisk(submittal, activity, { today }) : null
+    const leadTimeDays = risk?.leadTimeDays ?? 0
+    const { landingDate, landingSource } = projectProcurementLanding(
+      item,
+      leadTimeDays,
+      risk?.projectedReadyDate ?? null
+    )
+
+    const entry: ProcurementTimelineEntry = {
+      item,
+      submittal,
+      level: 'unscheduled',
+      landingDate,
+      landingSource,
+      activityId: risk?.activityId ?? null,
+      activityName: risk?.activityName ?? null,
+      activityIsCritical: risk?.activityIsCritical ?? false,
+      needByDate: risk?.needByDate ?? null,
+      needBySource: risk?.needBySource ?? null,
+      lateStart: risk?.lateStart ?? null,
+      leadTimeDays,
+      daysLate: null,
+    }
+    if (item.status === 'cancelled') return { ...entry, level: 'cancelled' }
+
+    const daysLate = daysBetween(entry.needByDate, landingDate)
+    if (item.status === 'delivered' || item.actualDeliveryDate) {
+      return { ...entry, level: 'delivered', daysLate }
+    }
+    if (daysLate === null) return entry
+
+    let level: ProcurementTimelineLevel = 'on_track'
+    if (daysLate > 0) level = entry.lateStart && landingDate! <= entry.lateStart ? 'at_risk' : 'late'
+    return { ...entry, level, daysLate }
+  })
+
+  entries.sort((a, b) =>
+    LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level] ||
+    (b.daysLate ?? -Infinity) - (a.daysLate ?? -Infinity) ||
+    (a.needByDate ?? '9999').localeCompare(b.needByDate ?? '9999') ||
+    a.item.description.localeCompare(b.item.description)
+  )
+
+  const released = new Set(input.items.map(i => i.submittalDedupeKey))
+  const candidates = submittals.filter(
+    s => s.dedupeKey && !released.has(s.dedupeKey) && releasesProcurement(s)
+  )
+
+  const summary: ProcurementTimelineSummary = {
+    total: entries.length,
+    late: 0, atRisk: 0, onTrack: 0, delivered: 0, unscheduled: 0,
+    unorderedReleases: candidates.length,
+  }
+  for (const e of entries) {
+    if (e.level === 'late') summary.late++
+    else if (e.level === 'at_risk') summary.atRisk++
+    else if (e.level === 'on_track') summary.onTrack++
+    else if (e.level === 'delivered') summary.delivered++
+    else if (e.level === 'unscheduled') summary.unscheduled++
+  }
+
+  return { entries, candidates, summary }
+}
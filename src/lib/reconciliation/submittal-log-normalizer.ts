@@ -1,3 +1,11 @@
+import {
+  detectSubmittalLogProfile,
+  readPlatformRow,
+  SUBMITTAL_LOG_PROFILES,
+  type SubmittalLogProfile,
+  type SubmittalLogProfileId,
+} from './submittal-log-profiles.ts'
+
 export interface NormalizedExternalRow {
   externalId: string
   specSection: string | null
@@ -165,6 +173,26 @@ export function normalizeRows(
   })
 }
 
+// Converts rows of a named platform export (submittal-log-profiles.ts) to
+// normalized rows. Exported for harness testing.
+export function normalizeProfileRows(
+  rawRows: Record<string, unknown>[],
+  profile: SubmittalLogProfile,
+  fileName: string
+): NormalizedExternalRow[] {
+  return rawRows.map((row, index) => {
+    const fields = readPlatformRow(row, profile)
+    return {
+      externalId: `${profile.id}-${index}`,
+      ...fields,
+      normalizedTitle: buildNormalizedTitle(fields.title),
+      sourceRowNumber: index + 2,
+      sourceFileName: fileName,
+      rawRow: row,
+    }
+  })
+}
+
 // ---------------------------------------------------------------------------
 // NAVFAC DD-form submittal register format
 // Merged-cell headers produce mostly __EMPTY_N keys. This format uses
@@ -258,7 +286,12 @@ function parseNavfacFormat(
 }
 
 // Parses an XLSX or CSV File into normalized rows. Client-side only (uses File API + xlsx).
-export async function parseSubmittalLog(file: File): Promise<NormalizedExternalRow[]> {
+// profile: a named platform layout, 'generic' for header-alias matching, or
+// 'auto' to detect a platform export by its headers.
+export async function parseSubmittalLog(
+  file: File,
+  profile: SubmittalLogProfileId | 'generic' | 'auto' = 'auto'
+): Promise<NormalizedExternalRow[]> {
   const XLSX = await import('xlsx')
   const ab = await file.arrayBuffer()
   const wb = XLSX.read(new Uint8Array(ab), { type: 'array', raw: false, cellDates: false })
@@ -281,6 +314,11 @@ export async function parseSubmittalLog(file: File): Promise<NormalizedExternalR
     return parseNavfacFormat(rawArrays as (string | null)[][], file.name)
   }
 
+  const platform = profile === 'auto'
+    ? detectSubmittalLogProfile(headers)
+    : profile === 'generic' ? null : SUBMITTAL_LOG_PROFILES[profile]
+  if (platform) return normalizeProfileRows(jsonRows, platform, file.name)
+
   const headerMap = normalizeHeaders(headers)
   return normalizeRows(jsonRows, headerMap, file.name)
 }
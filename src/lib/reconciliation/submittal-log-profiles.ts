@@ -0,0 +1,419 @@
+import type { SubmittalLifecycleStatus } from '../chat/submittal-lifecycle'
+import type { ExportRow } from '../export/submittal-export'
+
+// ---------------------------------------------------------------------------
+// Named submittal log profiles for the platforms owners mandate: Procore,
+// Autodesk Construction Cloud (Build) and e-Builder. Each profile is the
+// platform's submittal log layout — column names, status vocabulary, number
+// and date formats — and is used both ways:
+//
+//   import  readPlatformRow maps an exported platform log row to the fields
+//           normalizeRows produces from a generic spreadsheet
+//   export  toPlatformRow maps a buildExportRows row to the platform's
+//           import template
+//
+// Submittal numbers are held here as '03 30 00-001' (Rev 0) and
+// '03 30 00-001.2' (Rev 2), as issued by submittal-revisions.ts.
+// ---------------------------------------------------------------------------
+
+export type SubmittalLogProfileId = 'procore' | 'acc' | 'ebuilder'
+
+export const SUBMITTAL_LOG_PROFILE_IDS: SubmittalLogProfileId[] = ['procore', 'acc', 'ebuilder']
+
+type PlatformField =
+  | 'specSection'
+  | 'specSectionTitle'
+  | 'number'
+  | 'revision'
+  | 'title'
+  | 'type'
+  | 'status'
+  | 'response'
+  | 'responsibleParty'
+  | 'reviewer'
+  | 'dueDate'
+  | 'submittedAt'
+  | 'returnedAt'
+  | 'requiredOnSite'
+  | 'description'
+
+export interface SubmittalLogProfile {
+  id: SubmittalLogProfileId
+  label: string
+  // Export column order; header names are also what import looks for.
+  columns: { header: string; width: number; field: PlatformField }[]
+  // Headers only this platform's export has — used by detection.
+  signatureHeaders: string[]
+  // 'spaced' 03 30 00 · 'compact' 033000 · 'titled' 03 30 00 - Cast-in-Place Concrete
+  sectionFormat: 'spaced' | 'compact' | 'titled'
+  number: {
+    section: 'spaced' | 'compact'
+    // Sequence zero-padding (0 = none).
+    pad: number
+    // Revision in its own column, or appended to the number as -R<n>.
+    revision: 'column' | 'suffix'
+  }
+  dateFormat: 'mdy' | 'iso'
+  statusExport: Record<SubmittalLifecycleStatus, string>
+  // Review outcome column, for platforms that keep it apart from the workflow status.
+  responseExport?: Partial<Record<SubmittalLifecycleStatus, string>>
+  // Lowercased platform status (and response) → lifecycle status.
+  statusImport: Record<string, SubmittalLifecycleStatus>
+}
+
+export const SUBMITTAL_LOG_PROFILES: Record<SubmittalLogProfileId, SubmittalLogProfile> = {
+  procore: {
+    id: 'procore',
+    label: 'Procore',
+    columns: [
+      { header: 'Spec Section',           width: 34, field: 'specSection' },
+      { header: 'Number',                 width: 12, field: 'number' },
+      { header: 'Revision',               width: 9,  field: 'revision' },
+      { header: 'Title',                  width: 48, field: 'title' },
+      { header: 'Type',                   width: 22, field: 'type' },
+      { header: 'Status',                 width: 20, field: 'status' },
+      { header: 'Responsible Contractor', width: 24, field: 'responsibleParty' },
+      { header: 'Approvers',              width: 22, field: 'reviewer' },
+      { header: 'Sent Date',              width: 12, field: 'submittedAt' },
+      { header: 'Returned Date',          width: 12, field: 'returnedAt' },
+      { header: 'Final Due Date',         width: 12, field: 'dueDate' },
+      { header: 'Required On-Site Date',  width: 14, field: 'requiredOnSite' },
+      { header: 'Description',            width: 48, field: 'description' },
+    ],
+    signatureHeaders: ['Responsible Contractor', 'Approvers', 'Final Due Date', 'Required On-Site Date', 'Ball In Court', 'Submittal Manager'],
+    sectionFormat: 'titled',
+    number: { section: 'compact', pad: 0, revision: 'column' },
+    dateFormat: 'mdy',
+    statusExport: {
+      draft:              'Draft',
+      pending_submission: 'Open',
+      submitted:          'Pending',
+      pending_review:     'Pending',
+      approved:           'Approved',
+      approved_as_noted:  'Approved as Noted',
+      revise_resubmit:    'Revise and Resubmit',
+      rejected:           'Rejected',
+      closed:             'Closed',
+    },
+    statusImport: {
+      'draft':                 'draft',
+      'open':                  'pending_submission',
+      'pending':               'pending_review',
+      'submitted':             'submitted',
+      'approved':              'approved',
+      'approved as noted':     'approved_as_noted',
+      'revise and resubmit':   'revise_resubmit',
+      'rejected':              'rejected',
+      'closed':                'closed',
+      'void':                  'closed',
+    },
+  },
+
+  acc: {
+    id: 'acc',
+    label: 'Autodesk Construction Cloud',
+    columns: [
+      { header: 'Spec section',           width: 12, field: 'specSection' },
+      { header: 'Spec section title',     width: 28, field: 'specSectionTitle' },
+      { header: 'Number',                 width: 14, field: 'number' },
+      { header: 'Revision',               width: 9,  field: 'revision' },
+      { header: 'Title',                  width: 48, field: 'title' },
+      { header: 'Type',                   width: 22, field: 'type' },
+      { header: 'Status',                 width: 22, field: 'status' },
+      { header: 'Response',               width: 20, field: 'response' },
+      { header: 'Responsible contractor', width: 24, field: 'responsibleParty' },
+      { header: 'Reviewer',               width: 22, field: 'reviewer' },
+      { header: 'Sent date',              width: 12, field: 'submittedAt' },
+      { header: 'Response date',          width: 12, field: 'returnedAt' },
+      { header: 'Manager due date',       width: 14, field: 'dueDate' },
+      { header: 'Required on job date',   width: 14, field: 'requiredOnSite' },
+      { header: 'Description',            width: 48, field: 'description' },
+    ],
+    signatureHeaders: ['Spec section title', 'Response', 'Manager due date', 'Required on job date', 'Submitter due date'],
+    sectionFormat: 'compact',
+    number: { section: 'compact', pad: 3, revision: 'column' },
+    dateFormat: 'iso',
+    statusExport: {
+      draft:              'Draft',
+      pending_submission: 'Waiting for submission',
+      submitted:          'In review',
+      pending_review:     'In review',
+      approved:           'Reviewed',
+      approved_as_noted:  'Reviewed',
+      revise_resubmit:    'Reviewed',
+      rejected:           'Reviewed',
+      closed:             'Closed',
+    },
+    responseExport: {
+      approved:          'Approved',
+      approved_as_noted: 'Approved as noted',
+      revise_resubmit:   'Revise and resubmit',
+      rejected:          'Rejected',
+    },
+    statusImport: {
+      'draft':                  'draft',
+      'waiting for submission': 'pending_submission',
+      'submitted':              'submitted',
+      'in review':              'pending_review',
+      'closed':                 'closed',
+      'void':                   'closed',
+      // Response column
+      'approved':               'approved',
+      'approved as noted':      'approved_as_noted',
+      'revise and resubmit':    'revise_resubmit',
+      'rejected':               'rejected',
+    },
+  },
+
+  ebuilder: {
+    id: 'ebuilder',
+    label: 'e-Builder',
+    columns: [
+      { header: 'Submittal Number', width: 18, field: 'number' },
+      { header: 'Spec Section',     width: 12, field: 'specSection' },
+      { header: 'Title',            width: 48, field: 'title' },
+      { header: 'Submittal Type',   width: 22, field: 'type' },
+      { header: 'Status',           width: 20, field: 'status' },
+      { header: 'Submitted By',     width: 24, field: 'responsibleParty' },
+      { header: 'Reviewer',         width: 22, field: 'reviewer' },
+      { header: 'Date Submitted',   width: 12, field: 'submittedAt' },
+      { header: 'Date Returned',    width: 12, field: 'returnedAt' },
+      { header: 'Date Due',         width: 12, field: 'dueDate' },
+      { header: 'Date Required',    width: 12, field: 'requiredOnSite' },
+      { header: 'Comments',         width: 48, field: 'description' },
+    ],
+    signatureHeaders: ['Submittal Number', 'Date Submitted', 'Date Returned', 'Date Due', 'Submitted By'],
+    sectionFormat: 'spaced',
+    number: { section: 'spaced', pad: 3, revision: 'suffix' },
+    dateFormat: 'mdy',
+    statusExport: {
+      draft:              'Not Submitted',
+      pending_submission: 'Not Submitted',
+      submitted:          'Submitted',
+      pending_review:     'Under Review',
+      approved:           'Approved',
+      approved_as_noted:  'Approved as Noted',
+      revise_resubmit:    'Revise & Resubmit',
+      rejected:           'Rejected',
+      closed:             'Closed',
+    },
+    statusImport: {
+      'not submitted':      'pending_submission',
+      'submitted':          'submitted',
+      'under review':       'pending_review',
+      'approved':           'approved',
+      'approved as noted':  'approved_as_noted',
+      'revise & resubmit':  'revise_resubmit',
+      'revise and resubmit': 'revise_resubmit',
+      'rejected':           'rejected',
+      'closed':             'closed',
+    },
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Format helpers
+// ---------------------------------------------------------------------------
+
+function headerKey(raw: string): string {
+  return raw.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function sectionDigits(section: string): string | null {
+  const digits = section.replace(/[^0-9]/g, '')
+  return digits.length >= 6 ? digits : null
+}
+
+function spacedSection(digits: string): string {
+  const base = `${digits.slice(0, 2)} ${digits.slice(2, 4)} ${digits.slice(4, 6)}`
+  return digits.length > 6 ? `${base}.${digits.slice(6)}` : base
+}
+
+function formatSection(section: string, style: 'spaced' | 'compact'): string {
+  const digits = sectionDigits(section)
+  if (!digits) return section
+  return style === 'compact' ? digits : spacedSection(digits)
+}
+
+// '03 30 00-001.2' → { section: '03 30 00', sequence: 1, revision: 2 }
+function parseCanonicalNumber(value: string): { section: string; sequence: number; revision: number } | null {
+  const m = value.trim().match(/^(.+?)-(\d+)(?:\.(\d+))?$/)
+  if (!m) return null
+  return { section: m[1], sequence: Number(m[2]), revision: m[3] ? Number(m[3]) : 0 }
+}
+
+export function formatPlatformNumber(
+  canonical: string,
+  profile: SubmittalLogProfile
+): { number: string; revision: string } {
+  const parsed = parseCanonicalNumber(canonical)
+  if (!parsed) return { number: canonical, revision: '' }
+  const seq = profile.number.pad > 0 ? String(parsed.sequence).padStart(profile.number.pad, '0') : String(parsed.sequence)
+  const base = `${formatSection(parsed.section, profile.number.section)}-${seq}`
+  if (profile.number.revision === 'suffix') {
+    return { number: parsed.revision > 0 ? `${base}-R${parsed.revision}` : base, revision: '' }
+  }
+  return { number: base, revision: String(parsed.revision) }
+}
+
+// Platform number (+ revision column) → '03 30 00-001' / '03 30 00-001.2'.
+// Unrecognised numbers are returned as given.
+export function parsePlatformNumber(
+  number: string,
+  revision: string | null,
+  profile: SubmittalLogProfile
+): string {
+  const m = number.trim().match(/^(.+?)-(\d+)(?:-R(\d+))?$/i)
+  const digits = m ? sectionDigits(m[1]) : null
+  if (!m || !digits) return number.trim()
+  const rev = profile.number.revision === 'suffix' ? Number(m[3] ?? 0) : Number(revision ?? 0) || 0
+  const base = `${spacedSection(digits)}-${m[2].padStart(3, '0')}`
+  return rev > 0 ? `${base}.${rev}` : base
+}
+
+function formatDate(value: string, format: 'mdy' | 'iso'): string {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!m) return value
+  return format === 'iso' ? `${m[1]}-${m[2]}-${m[3]}` : `${m[2]}/${m[3]}/${m[1]}`
+}
+
+function parseDate(value: string): string {
+  const mdy = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (mdy) return `${mdy[3]}-${mdy[1].padStart(2, '0')}-${mdy[2].padStart(2, '0')}`
+  const iso = value.trim().match(/^(\d{4}-\d{2}-\d{2})/)
+  return iso ? iso[1] : value.trim()
+}
+
+function isLifecycleStatus(value: string, profile: SubmittalLogProfile): value is SubmittalLifecycleStatus {
+  return value in profile.statusExport
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+// The profile whose signature headers best match, when at least two do.
+export function detectSubmittalLogProfile(headers: string[]): SubmittalLogProfile | null {
+  const present = new Set(headers.map(headerKey))
+  let best: { profile: SubmittalLogProfile; score: number } | null = null
+  for (const id of SUBMITTAL_LOG_PROFILE_IDS) {
+    const profile = SUBMITTAL_LOG_PROFILES[id]
+    const score = profile.signatureHeaders.filter(h => present.has(headerKey(h))).length
+    if (score >= 2 && (!best || score > best.score)) best = { profile, score }
+  }
+  return best?.profile ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+// One buildExportRows row in the platform's import layout.
+export function toPlatformRow(row: ExportRow, profile: SubmittalLogProfile): Record<string, string> {
+  const status = row['Lifecycle Status'] && isLifecycleStatus(row['Lifecycle Status'], profile)
+    ? row['Lifecycle Status']
+    : 'draft'
+  const number = row['Submittal No.'] ? formatPlatformNumber(row['Submittal No.'], profile) : { number: '', revision: '' }
+  const section = row['Spec Section'] ?? ''
+  const date = (v: string | undefined) => (v ? formatDate(v, profile.dateFormat) : '')
+
+  const values: Record<PlatformField, string> = {
+    specSection:
+      profile.sectionFormat === 'titled'
+        ? [formatSection(section, 'spaced'), row['Section Title']].filter(Boolean).join(' - ')
+        : section ? formatSection(section, profile.sectionFormat) : '',
+    specSectionTitle: row['Section Title'] ?? '',
+    number:           number.number,
+    revision:         number.revision,
+    title:            row['Submittal Item'] ?? '',
+    type:             row['Submittal Type'] || row['SD Code'] || '',
+    status:           profile.statusExport[status],
+    response:         profile.responseExport?.[status] ?? '',
+    responsibleParty: row['Responsible Party'] ?? '',
+    reviewer:         row['Approval Authority'] ?? '',
+    dueDate:          date(row['Due Date']),
+    submittedAt:      date(row['Submitted At']),
+    returnedAt:       date(row['Approved At']),
+    requiredOnSite:   date(row['Need-by Date']),
+    description:      row['Source Excerpt'] ?? '',
+  }
+
+  const out: Record<string, string> = {}
+  for (const col of profile.columns) out[col.header] = values[col.field]
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export interface PlatformRowFields {
+  specSection: string | null
+  submittalNumber: string | null
+  title: string | null
+  description: string | null
+  sdCode: string | null
+  // Lifecycle status id, or the platform's own word when it is not in the vocabulary.
+  status: string | null
+  submittedAt: string | null
+  returnedAt: string | null
+  approvedAt: string | null
+  dueDate: string | null
+  responsibleParty: string | null
+  reviewer: string | null
+  remarks: string | null
+}
+
+function cell(row: Record<string, unknown>, header: string): string | null {
+  const v = row[header]
+  if (v === null || v === undefined) return null
+  const s = String(v).trim()
+  return s || null
+}
+
+export function readPlatformRow(row: Record<string, unknown>, profile: SubmittalLogProfile): PlatformRowFields {
+  // Match the profile's headers case- and punctuation-insensitively.
+  const byKey = new Map(Object.keys(row).map(k => [headerKey(k), k]))
+  const get = (field: PlatformField): string | null => {
+    const col = profile.columns.find(c => c.field === field)
+    const header = col ? byKey.get(headerKey(col.header)) : undefined
+    return header ? cell(row, header) : null
+  }
+  const date = (field: PlatformField) => {
+    const v = get(field)
+    return v ? parseDate(v) : null
+  }
+
+  // 'titled' sections read '03 30 00 - Cast-in-Place Concrete'.
+  const sectionRaw = get('specSection')
+  const digits = sectionRaw ? sectionDigits(sectionRaw.split(' - ')[0]) : null
+  const specSection = digits ? spacedSection(digits) : sectionRaw
+
+  const numberRaw = get('number')
+  const type = get('type')
+  const sd = type?.match(/\bSD-?\s?(\d{1,2})\b/i)
+
+  // A review response outranks the workflow status unless the item is closed.
+  const statusWord = get('status')
+  const responseWord = get('response')
+  const workflow = statusWord ? profile.statusImport[statusWord.toLowerCase()] ?? statusWord : null
+  const response = responseWord ? profile.statusImport[responseWord.toLowerCase()] ?? responseWord : null
+  const status = response && workflow !== 'closed' ? response : workflow
+  const returnedAt = date('returnedAt')
+
+  return {
+    specSection,
+    submittalNumber: numberRaw ? parsePlatformNumber(numberRaw, get('revision'), profile) : null,
+    title: get('title'),
+    description: get('description'),
+    sdCode: sd ? `SD-${sd[1].padStart(2, '0')}` : null,
+    status,
+    submittedAt: date('submittedAt'),
+    returnedAt,
+    approvedAt: status === 'approved' || status === 'approved_as_noted' ? returnedAt : null,
+    dueDate: date('dueDate'),
+    responsibleParty: get('responsibleParty'),
+    reviewer: get('reviewer'),
+    remarks: null,
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * submittal-log-resync.ts
+ *
+ * Re-sync of a reconciliation session against a new upload of the same
+ * external log — owners republish their log weekly. Rows of the two uploads
+ * are paired by a stable identity (the base submittal number, else spec
+ * section + title) rather than by their positional externalId, then compared:
+ *
+ *   added      row only in the new upload
+ *   removed    row only in the previous upload
+ *   changed    paired row with any field different
+ *   unchanged  paired row with every field the same
+ *
+ * Match decisions (confirmed / rejected) made on the previous session are
+ * carried onto the new upload's row ids only for unchanged rows. A changed
+ * row — even one whose only change is its status or a date — may now match
+ * a different register item, so its previous decisions are not carried but
+ * listed on the change for re-confirmation. Decisions on removed rows are
+ * dropped. Only new and changed rows need review.
+ *
+ * A decision points at a register item by id, and regenerating the register
+ * replaces every item row. Each decision also records the item's dedupe key;
+ * resolveDecisionItemId() maps a decision whose item is gone to the latest
+ * run's item with the same key. Carried decisions that resolve to nothing are
+ * stale and not carried.
+ */
+
+import type { NormalizedExternalRow } from './submittal-log-normalizer'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const EXTERNAL_ROW_FIELDS = [
+  'specSection',
+  'submittalNumber',
+  'title',
+  'sdCode',
+  'status',
+  'submittedAt',
+  'returnedAt',
+  'approvedAt',
+  'dueDate',
+  'responsibleParty',
+  'reviewer',
+  'remarks',
+] as const
+
+export type ExternalRowField = (typeof EXTERNAL_ROW_FIELDS)[number]
+
+// A change to any of these means the row may now be a different submittal.
+const IDENTITY_FIELDS: ExternalRowField[] = ['specSection', 'title', 'sdCode']
+
+export const EXTERNAL_ROW_FIELD_LABELS: Record<ExternalRowField, string> = {
+  specSection:      'Spec section',
+  submittalNumber:  'Submittal no.',
+  title:            'Title',
+  sdCode:           'SD code',
+  status:           'Status',
+  submittedAt:      'Submitted',
+  returnedAt:       'Returned',
+  approvedAt:       'Approved',
+  dueDate:          'Due',
+  responsibleParty: 'Responsible party',
+  reviewer:         'Reviewer',
+  remarks:          'Remarks',
+}
+
+export interface ExternalRowRef {
+  externalId: string
+  sourceRowNumber: number
+  specSection: string | null
+  submittalNumber: string | null
+  title: string | null
+}
+
+export interface ExternalRowChange {
+  previous: ExternalRowRef
+  next: ExternalRowRef
+  fields: Array<{ field: ExternalRowField; before: string | null; after: string | null }>
+  // Section, title or SD code changed — the row may now be a different submittal.
+  identityChanged: boolean
+  // Decisions made on the previous row. Not carried: the row needs re-confirmation.
+  previousDecisions: Array<Pick<ReconciliationDecisionRecord, 'generatedItemId' | 'decision'>>
+}
+
+export interface ReconciliationDecisionRecord {
+  externalRowId: string
+  generatedItemId: string
+  decision: 'confirmed' | 'rejected'
+  // Dedupe key of the item when the decision was made; survives regeneration.
+  generatedDedupeKey: string | null
+  decidedBy: string | null
+  decidedAt: string
+  // Session the decision was first made in; null when made in its own session.
+  carriedFromSessionId: string | null
+}
+
+export interface PreviousReconciliationSession {
+  sessionId: string
+  sourceFileName: string
+  createdAt: string
+  rows: NormalizedExternalRow[]
+  decisions: ReconciliationDecisionRecord[]
+}
+
+export interface ExternalLogChangeSummary {
+  previousSessionId: string
+  previousFileName: string
+  previousUploadedAt: string
+  counts: { added: number; removed: number; changed: number; unchanged: number }
+  added: ExternalRowRef[]
+  removed: ExternalRowRef[]
+  changed: ExternalRowChange[]
+  // carried: onto unchanged rows. reconfirm: on changed rows, not carried.
+  // dropped: on removed rows. stale: on unchanged rows, but the register item
+  // no longer exists in the latest run.
+  decisions: { carried: number; reconfirm: number; dropped: number; stale: number }
+}
+
+// The latest register run's items, for resolving decisions made on an
+// earlier run.
+export interface RegisterItemIndex {
+  itemIds: Set<string>
+  itemIdByDedupeKey: Map<string, string>
+}
+
+export interface ReconciliationResyncPlan {
+  summary: ExternalLogChangeSummary
+  // Decisions for the new session, keyed to the new upload's row ids.
+  decisions: ReconciliationDecisionRecord[]
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function normalizeValue(v: string | null | undefined): string | null {
+  const trimmed = (v ?? '').replace(/\s+/g, ' ').trim()
+  return trimmed === '' ? null : trimmed
+}
+
+function sameValue(a: string | null, b: string | null): boolean {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase()
+}
+
+// Revision suffixes ('.2', '-R2', ' Rev 2') are dropped so a resubmission
+// pairs with the row it revises.
+function baseNumberKey(value: string | null): string | null {
+  const compact = (value ?? '')
+    .toUpperCase()
+    .replace(/\s*REV\.?\s*\d+$/, '')
+    .replace(/-R\d+$/, '')
+    .replace(/\.\d+$/, '')
+    .replace(/[^A-Z0-9-]/g, '')
+  return compact === '' ? null : compact
+}
+
+export function externalRowIdentity(row: NormalizedExternalRow): string {
+  const number = baseNumberKey(row.submittalNumber)
+  if (number) return `no:${number}`
+  const section = (row.specSection ?? '').replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+  const title = (row.normalizedTitle ?? row.title ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+  return `st:${section}|${title}`
+}
+
+// Identity → rows in upload order; repeated identities pair by occurrence.
+function indexRows(rows: NormalizedExternalRow[]): Map<string, NormalizedExternalRow> {
+  const seen = new Map<string, number>()
+  const index = new Map<string, NormalizedExternalRow>()
+  for (const row of rows) {
+    const identity = externalRowIdentity(row)
+    const n = seen.get(identity) ?? 0
+    seen.set(identity, n + 1)
+    index.set(`${identity}#${n}`, row)
+  }
+  return index
+}
+
+function ref(row: NormalizedExternalRow): ExternalRowRef {
+  return {
+    externalId: row.externalId,
+    sourceRowNumber: row.sourceRowNumber,
+    specSection: row.specSection,
+    submittalNumber: row.submittalNumber,
+    title: row.title,
+  }
+}
+
+export function indexRegisterItems(items: Array<{ id: string; dedupeKey: string }>): RegisterItemIndex {
+  const itemIdByDedupeKey = new Map<string, string>()
+  for (const item of items) {
+    if (!itemIdByDedupeKey.has(item.dedupeKey)) itemIdByDedupeKey.set(item.dedupeKey, item.id)
+  }
+  return { itemIds: new Set(items.map(i => i.id)), itemIdByDedupeKey }
+}
+
+// The item a decision applies to now: its own item while that still exists,
+// else the latest run's item with the same dedupe key; null when neither does.
+export function resolveDecisionItemId(
+  decision: Pick<ReconciliationDecisionRecord, 'generatedItemId' | 'generatedDedupeKey'>,
+  register: RegisterItemIndex
+): string | null {
+  if (register.itemIds.has(decision.generatedItemId)) return decision.generatedItemId
+  if (!decision.generatedDedupeKey) return null
+  return register.itemIdByDedupeKey.get(decision.generatedDedupeKey) ?? null
+}
+
+// ── Plan ──────────────────────────────────────────────────────────────────────
+
+// With a register index, carried decisions are re-pointed at the latest run's
+// items; without one their item ids are kept as they are.
+
+export function planReconciliationResync(
+  previous: PreviousReconciliationSession,
+  nextRows: NormalizedExternalRow[],
+  register?: RegisterItemIndex
+): ReconciliationResyncPlan {
+  const before = indexRows(previous.rows)
+  const after = indexRows(nextRows)
+
+  const added: ExternalRowRef[] = []
+  const removed: ExternalRowRef[] = []
+  const changed: ExternalRowChange[] = []
+  let unchanged = 0
+  // Previous externalId → new externalId, for rows whose decisions carry.
+  const carryTo = new Map<string, string>()
+  // Previous externalId → change, for rows whose decisions need re-confirmation.
+  const changeByPreviousId = new Map<string, ExternalRowChange>()
+
+  for (const [key, prevRow] of before) {
+    const nextRow = after.get(key)
+    if (!nextRow) {
+      removed.push(ref(prevRow))
+      continue
+    }
+    const fields: ExternalRowChange['fields'] = []
+    for (const field of EXTERNAL_ROW_FIELDS) {
+      const b = normalizeValue(prevRow[field])
+      const a = normalizeValue(nextRow[field])
+      if (!sameValue(b, a)) fields.push({ field, before: b, after: a })
+    }
+    if (fields.length === 0) {
+      unchanged++
+      carryTo.set(prevRow.externalId, nextRow.externalId)
+      continue
+    }
+    const change: ExternalRowChange = {
+      previous: ref(prevRow),
+      next: ref(nextRow),
+      fields,
+      identityChanged: fields.some(f => IDENTITY_FIELDS.includes(f.field)),
+      previousDecisions: [],
+    }
+    changed.push(change)
+    changeByPreviousId.set(prevRow.externalId, change)
+  }
+  for (const [key, nextRow] of after) {
+    if (!before.has(key)) added.push(ref(nextRow))
+  }
+
+  const decisions: ReconciliationDecisionRecord[] = []
+  const carriedKeys = new Set<string>()
+  let reconfirm = 0
+  let dropped = 0
+  let stale = 0
+  for (const d of previous.decisions) {
+    const generatedItemId = register ? resolveDecisionItemId(d, register) : d.generatedItemId
+    const change = changeByPreviousId.get(d.externalRowId)
+    if (change) {
+      change.previousDecisions.push({ generatedItemId: generatedItemId ?? d.generatedItemId, decision: d.decision })
+      reconfirm++
+      continue
+    }
+    const externalRowId = carryTo.get(d.externalRowId)
+    if (!externalRowId) {
+      dropped++
+      continue
+    }
+    if (!generatedItemId) {
+      stale++
+      continue
+    }
+    // An old and a re-made decision on the same row can resolve to one item.
+    const key = `${externalRowId}|${generatedItemId}`
+    if (carriedKeys.has(key)) continue
+    carriedKeys.add(key)
+    decisions.push({
+      ...d,
+      externalRowId,
+      generatedItemId,
+      carriedFromSessionId: d.carriedFromSessionId ?? previous.sessionId,
+    })
+  }
+
+  return {
+    summary: {
+      previousSessionId: previous.sessionId,
+      previousFileName: previous.sourceFileName,
+      previousUploadedAt: previous.createdAt,
+      counts: { added: added.length, removed: removed.length, changed: changed.length, unchanged },
+      added,
+      removed,
+      changed,
+      decisions: { carried: decisions.length, reconfirm, dropped, stale },
+    },
+    decisions,
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * submittal-reconciliation-apply.ts
+ *
+ * Write-back of an external submittal log onto the generated register when a
+ * reconciliation session is completed. For every confirmed match the log's
+ *
+ *   status          → lifecycleStatus (walked step by step, applyLifecycleStep)
+ *   submittal no.   → submittalNumber       (only while the item has none)
+ *   submitted date  → lifecycleSubmittedAt
+ *   approved date   → lifecycleApprovedAt
+ *   due date        → lifecycleDueDate
+ *
+ * is copied onto the item payload, and each field copied gets one entry in
+ * the payload's `reconciliationAudit` trail naming the session and the log
+ * row it came from. The status only moves forward: a log that is behind the
+ * register, or whose status would record a review outcome or close-out on the
+ * way, leaves the status alone. Submitted and approved dates are only copied
+ * onto an item whose status has got that far.
+ *
+ * The walk is back-dated to the log: a revision it opens or returns records
+ * the log's submitted / returned dates rather than the completion time, and
+ * its review due date is the log's, else computed from the project SLA.
+ *
+ * Pure: no DB access. The complete route loads payloads and sibling submittal
+ * numbers and writes the returned payloads.
+ */
+
+import {
+  findTransitionPath,
+  STATUS_LABELS,
+  type SubmittalLifecycleStatus,
+} from '../chat/submittal-lifecycle.ts'
+import { applyLifecycleStep, needsBaseNumber } from '../chat/submittal-lifecycle-apply.ts'
+import {
+  isRevisionDisposition,
+  nextSubmittalBaseNumber,
+  parseSubmittalNumber,
+} from '../chat/submittal-revisions.ts'
+import type { SubmittalSlaConfig } from '../chat/submittal-sla.ts'
+import type { NormalizedExternalRow } from './submittal-log-normalizer'
+import { normalizeExternalStatus } from './submittal-reconciliation.ts'
+
+type ItemPayload = Record<string, unknown>
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ReconciliationWriteBackField =
+  | 'lifecycleStatus'
+  | 'submittalNumber'
+  | 'lifecycleSubmittedAt'
+  | 'lifecycleApprovedAt'
+  | 'lifecycleDueDate'
+
+export const WRITE_BACK_FIELD_LABELS: Record<ReconciliationWriteBackField, string> = {
+  lifecycleStatus:      'Status',
+  submittalNumber:      'Submittal number',
+  lifecycleSubmittedAt: 'Submitted',
+  lifecycleApprovedAt:  'Approved',
+  lifecycleDueDate:     'Due date',
+}
+
+export interface ReconciliationAuditEntry {
+  field: ReconciliationWriteBackField
+  before: string | null
+  after: string | null
+  at: string
+  by?: string
+  sessionId: string
+  sourceFileName: string
+  sourceRowNumber: number
+}
+
+export interface ReconciliationWriteBackCandidate {
+  itemId: string
+  workflowRunId: string
+  specSection: string | null
+  payload: ItemPayload
+  row: NormalizedExternalRow
+}
+
+export type ReconciliationWriteBackOutcome = 'updated' | 'unchanged'
+
+export interface ReconciliationWriteBackEntry {
+  itemId: string
+  submittalItem: string
+  externalRowId: string
+  fromStatus: SubmittalLifecycleStatus
+  toStatus: SubmittalLifecycleStatus
+  outcome: ReconciliationWriteBackOutcome
+  // Fields copied, one audit entry each.
+  audit: ReconciliationAuditEntry[]
+  // Why log values were not copied, e.g. a status behind the register.
+  notes: string[]
+}
+
+export interface ReconciliationWriteBackPlan {
+  entries: ReconciliationWriteBackEntry[]
+  // Updated payloads for the items with at least one field copied, keyed by item id.
+  payloads: Map<string, ItemPayload>
+  counts: Record<ReconciliationWriteBackOutcome, number>
+}
+
+export interface ReconciliationWriteBackContext {
+  sessionId: string
+  by?: string
+  // Base submittal numbers already issued, per workflow run. Only consulted when
+  // the status walk submits an item that neither the register nor the log numbers.
+  issuedNumbersByRun: Map<string, Array<string | null>>
+  // Review periods for a submission the walk opens without a log due date.
+  slaConfig?: SubmittalSlaConfig | null
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+// Log dates arrive as ISO (platform profiles) or as typed in the sheet, read
+// month first. A date that is not on the calendar — a day-first '13/05/2026'
+// — is not recognised.
+export function parseLogDate(value: string | null | undefined): string | null {
+  const trimmed = (value ?? '').trim()
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed)
+  if (iso) return calendarDate(iso[1], iso[2], iso[3])
+  const mdy = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(trimmed)
+  if (!mdy) return null
+  return calendarDate(mdy[3].length === 2 ? `20${mdy[3]}` : mdy[3], mdy[1], mdy[2])
+}
+
+function calendarDate(year: string, month: string, day: string): string | null {
+  const m = Number(month)
+  const d = Number(day)
+  // Day 0 of the next month is the last day of this one.
+  if (m < 1 || m > 12 || d < 1 || d > new Date(Date.UTC(Number(year), m, 0)).getUTCDate()) return null
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+function logTimestamp(value: string | null | undefined): string | null {
+  const date = parseLogDate(value)
+  return date ? `${date}T00:00:00.000Z` : null
+}
+
+// The register keeps base numbers; a revision suffix ('03 30 00-004.2') is dropped.
+function baseNumberOf(value: string | null | undefined): string | null {
+  const trimmed = (value ?? '').trim()
+  if (!trimmed) return null
+  return parseSubmittalNumber(trimmed) ? trimmed.replace(/\.\d+$/, '') : trimmed
+}
+
+function stringOrNull(v: unknown): string | null {
+  return typeof v === 'string' && v !== '' ? v : null
+}
+
+const WRITE_BACK_TARGETS = new Set<SubmittalLifecycleStatus>([
+  'submitted',
+  'pending_review',
+  'approved',
+  'approved_as_noted',
+  'revise_resubmit',
+  'rejected',
+  'closed',
+])
+
+const UNSUBMITTED = new Set<SubmittalLifecycleStatus>(['draft', 'pending_submission'])
+const APPROVED = new Set<SubmittalLifecycleStatus>(['approved', 'approved_as_noted', 'closed'])
+
+// ── Plan ──────────────────────────────────────────────────────────────────────
+
+export function planReconciliationWriteBack(
+  candidates: ReconciliationWriteBackCandidate[],
+  ctx: ReconciliationWriteBackContext
+): ReconciliationWriteBackPlan {
+  const entries: ReconciliationWriteBackEntry[] = []
+  const payloads = new Map<string, ItemPayload>()
+  const counts: Record<ReconciliationWriteBackOutcome, number> = { updated: 0, unchanged: 0 }
+
+  for (const candidate of candidates) {
+    const { row } = candidate
+    const original = candidate.payload
+    const fromStatus = (original.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
+    const at = new Date().toISOString()
+    const audit: ReconciliationAuditEntry[] = []
+    const notes: string[] = []
+    const record = (field: ReconciliationWriteBackField, before: string | null, after: string | null) => {
+      audit.push({
+        field,
+        before,
+        after,
+        at,
+        by: ctx.by,
+        sessionId: ctx.sessionId,
+        sourceFileName: row.sourceFileName,
+        sourceRowNumber: row.sourceRowNumber,
+      })
+    }
+    let payload: ItemPayload = original
+
+    // Number first, so a submission walked below opens its revision under it.
+    const logNumber = baseNumberOf(row.submittalNumber)
+    const currentNumber = stringOrNull(original.submittalNumber)
+    if (logNumber && !currentNumber) {
+      payload = { ...payload, submittalNumber: logNumber }
+      record('submittalNumber', null, logNumber)
+    } else if (logNumber && currentNumber && logNumber !== currentNumber) {
+      notes.push(`Log number ${logNumber} differs from register number ${currentNumber} — kept ${currentNumber}`)
+    }
+
+    const target = normalizeExternalStatus(row.status) as SubmittalLifecycleStatus | null
+    if (target && WRITE_BACK_TARGETS.has(target)) {
+      const path = findTransitionPath(fromStatus, target)
+      const implied = path?.slice(0, -1).find(s => isRevisionDisposition(s) || s === 'closed')
+      if (path === null) {
+        notes.push(`Register is at ${STATUS_LABELS[fromStatus]}; log status ${STATUS_LABELS[target]} not applied`)
+      } else if (implied) {
+        notes.push(`Log status ${STATUS_LABELS[target]} would record ${STATUS_LABELS[implied]} on the way — not applied`)
+      } else if (path.length > 0) {
+        const issued = ctx.issuedNumbersByRun.get(candidate.workflowRunId) ?? []
+        const issuedNumber = path.some(step => needsBaseNumber(payload, step))
+          ? nextSubmittalBaseNumber(candidate.specSection, issued)
+          : null
+        const submittedAt = logTimestamp(row.submittedAt)
+        const returnedAt = logTimestamp(row.returnedAt)
+        const approvedAt = logTimestamp(row.approvedAt)
+        const dueDate = parseLogDate(row.dueDate)
+        let walked = payload
+        let error: string | null = null
+        for (const step of path) {
+          const stepAt = step === 'submitted'
+            ? submittedAt
+            : isRevisionDisposition(step)
+              ? returnedAt ?? (APPROVED.has(step) ? approvedAt : null)
+              : null
+          const result = applyLifecycleStep(walked, step, {
+            by: ctx.by,
+            note: `Updated via reconciliation (${row.sourceFileName} row ${row.sourceRowNumber})`,
+            at: stepAt ?? undefined,
+            reviewDueDate: dueDate ?? undefined,
+            slaConfig: ctx.slaConfig,
+            nextBaseNumber: issuedNumber ?? undefined,
+          })
+          if (!result.ok) {
+            error = result.error
+            break
+          }
+          walked = result.payload
+        }
+        if (error) {
+          notes.push(`Log status ${STATUS_LABELS[target]} not applied: ${error}`)
+        } else {
+          if (issuedNumber) ctx.issuedNumbersByRun.set(candidate.workflowRunId, [...issued, issuedNumber])
+          payload = walked
+          record('lifecycleStatus', fromStatus, target)
+        }
+      }
+    } else if (row.status && !target) {
+      notes.push(`Log status "${row.status}" not recognised`)
+    }
+
+    // Log dates win over register timestamps and over the "now" of a step the
+    // log has no date for. A register timestamp on the same day as the log
+    // date is kept as it was.
+    const status = (payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? 'draft'
+    const dates: Array<[ReconciliationWriteBackField, string | null, boolean, boolean]> = [
+      ['lifecycleSubmittedAt', row.submittedAt, true, !UNSUBMITTED.has(status)],
+      ['lifecycleApprovedAt', row.approvedAt, true, APPROVED.has(status)],
+      ['lifecycleDueDate', row.dueDate, false, true],
+    ]
+    for (const [field, raw, isTimestamp, applies] of dates) {
+      if (!raw) continue
+      const date = parseLogDate(raw)
+      if (!date) {
+        notes.push(`${WRITE_BACK_FIELD_LABELS[field]} date "${raw}" not recognised`)
+        continue
+      }
+      if (!applies) {
+        notes.push(`${WRITE_BACK_FIELD_LABELS[field]} date not copied — item is ${STATUS_LABELS[status]}`)
+        continue
+      }
+      const before = stringOrNull(original[field])
+      if (before?.slice(0, 10) === date) {
+        if (payload[field] !== original[field]) payload = { ...payload, [field]: original[field] }
+        continue
+      }
+      const after = isTimestamp ? `${date}T00:00:00.000Z` : date
+      payload = { ...payload, [field]: after }
+      record(field, before, after)
+    }
+
+    const outcome: ReconciliationWriteBackOutcome = audit.length > 0 ? 'updated' : 'unchanged'
+    if (outcome === 'updated') {
+      const trail = Array.isArray(original.reconciliationAudit)
+        ? (original.reconciliationAudit as ReconciliationAuditEntry[])
+        : []
+      payloads.set(candidate.itemId, { ...payload, reconciliationAudit: [...trail, ...audit] })
+    }
+    entries.push({
+      itemId: candidate.itemId,
+      submittalItem: String(original.submittalItem ?? ''),
+      externalRowId: row.externalId,
+      fromStatus,
+      toStatus: (payload.lifecycleStatus as SubmittalLifecycleStatus | undefined) ?? fromStatus,
+      outcome,
+      audit,
+      notes,
+    })
+    counts[outcome]++
+  }
+
+  return { entries, payloads, counts }
+}
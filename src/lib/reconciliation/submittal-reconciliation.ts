@@ -95,6 +95,7 @@ const STATUS_MAP: Record<string, string> = {
   'under review': 'pending_review',
   'in review': 'pending_review',
   'review': 'pending_review',
+  'pending submission': 'pending_submission',
   'not submitted': 'draft',
   'not started': 'draft',
   'open': 'draft',
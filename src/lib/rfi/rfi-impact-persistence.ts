@@ -0,0 +1,252 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import { loadLatestSubmittalRegisterRun } from '../chat/submittal-register-read'
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import {
+  collectRfiReferences,
+  flagSubmittalRfiImpact,
+  sheetNumberVariants,
+  traceRfiImpact,
+  unflagSubmittalRfiImpact,
+  type RfiImpactEntityRecord,
+  type RfiImpactReason,
+  type RfiImpactTarget,
+  type RfiImpactTargetType,
+  type RfiImpactTrace,
+} from './rfi-impact'
+import type { Rfi } from './rfi-workflow'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+const PAGE_SIZE = 1000
+const ID_CHUNK = 200
+
+export const RFI_IMPACT_COLUMNS = 'rfi_id, target_type, target_ref, entity_id, label, reasons'
+
+export interface StoredRfiImpact extends RfiImpactTarget {
+  rfiId: string
+}
+
+interface RfiImpactRow {
+  rfi_id: string
+  target_type: string
+  target_ref: string
+  entity_id: string | null
+  label: string | null
+  reasons: string[] | null
+}
+
+function rowToStoredRfiImpact(row: RfiImpactRow): StoredRfiImpact {
+  return {
+    rfiId: row.rfi_id,
+    targetType: row.target_type as RfiImpactTargetType,
+    targetRef: row.target_ref,
+    entityId: row.entity_id,
+    label: row.label ?? row.target_ref,
+    reasons: (row.reasons ?? []) as RfiImpactReason[],
+  }
+}
+
+export async function loadRfiImpacts(
+  supabase: ServiceClient,
+  projectId: string,
+  filter: { rfiId?: string; targetType?: RfiImpactTargetType; targetRefs?: string[] }
+): Promise<{ impacts: StoredRfiImpact[]; error: string | null }> {
+  let query = supabase.from('rfi_impacts').select(RFI_IMPACT_COLUMNS).eq('project_id', projectId)
+  if (filter.rfiId) query = query.eq('rfi_id', filter.rfiId)
+  if (filter.targetType) query = query.eq('target_type', filter.targetType)
+  if (filter.targetRefs) query = query.in('target_ref', filter.targetRefs)
+  const { data, error } = await query.order('created_at', { ascending: true })
+  if (error) return { impacts: [], error: error.message }
+  return { impacts: ((data ?? []) as RfiImpactRow[]).map(rowToStoredRfiImpact), error: null }
+}
+
+async function loadImpactEntities(
+  supabase: ServiceClient,
+  projectId: string,
+  sheets: string[],
+  details: string[]
+): Promise<{ entities: RfiImpactEntityRecord[]; error: string | null }> {
+  const locations = new Map<string, { sheetNumbers: string[]; detailRefs: string[] }>()
+  const at = (id: string) => {
+    if (!locations.has(id)) locations.set(id, { sheetNumbers: [], detailRefs: [] })
+    return locations.get(id)!
+  }
+
+  if (sheets.length > 0) {
+    const { data, error } = await supabase
+      .from('entity_locations')
+      .select('entity_id, sheet_number, detail_ref')
+      .eq('project_id', projectId)
+      .in('sheet_number', sheetNumberVariants(sheets))
+    if (error) return { entities: [], error: error.message }
+    for (const l of data ?? []) {
+      if (l.sheet_number) at(l.entity_id).sheetNumbers.push(l.sheet_number)
+      if (l.detail_ref) at(l.entity_id).detailRefs.push(l.detail_ref)
+    }
+  }
+  if (details.length > 0) {
+    const { data, error } = await supabase
+      .from('entity_locations')
+      .select('entity_id, detail_ref')
+      .eq('project_id', projectId)
+      .in('detail_ref', details)
+    if (error) return { entities: [], error: error.message }
+    for (const l of data ?? []) {
+      if (l.detail_ref) at(l.entity_id).detailRefs.push(l.detail_ref)
+    }
+  }
+
+  const entities: RfiImpactEntityRecord[] = []
+  const ids = [...locations.keys()]
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('project_entities')
+      .select('id, entity_type, discipline, canonical_name, display_name, label')
+      .eq('project_id', projectId)
+      .in('id', ids.slice(i, i + ID_CHUNK))
+    if (error) return { entities: [], error: error.message }
+    for (const e of data ?? []) {
+      entities.push({
+        id: e.id,
+        entityType: e.entity_type,
+        discipline: e.discipline,
+        label: e.label,
+        displayName: e.display_name,
+        canonicalName: e.canonical_name,
+        ...locations.get(e.id)!,
+      })
+    }
+  }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_entities')
+      .select('id, entity_type, discipline, canonical_name, display_name, label')
+      .eq('project_id', projectId)
+      .eq('entity_type', 'spec_section')
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { entities: [], error: error.message }
+    for (const e of data ?? []) {
+      if (locations.has(e.id)) continue
+      entities.push({
+        id: e.id,
+        entityType: e.entity_type,
+        discipline: e.discipline,
+        label: e.label,
+        displayName: e.display_name,
+        canonicalName: e.canonical_name,
+        sheetNumbers: [],
+        detailRefs: [],
+      })
+    }
+    if ((data ?? []).length < PAGE_SIZE) break
+  }
+
+  return { entities, error: null }
+}
+
+export type TraceRfiImpactOutcome =
+  | { status: 'traced'; trace: RfiImpactTrace; flaggedItemIds: string[]; unflaggedItemIds: string[] }
+  | { status: 'conflict'; error: string }
+  | { status: 'error'; error: string }
+
+/**
+ * Traces the RFI's impact, replaces its rfi_impacts rows and flags the
+ * impacted submittals of the latest register run for re-review. Items of that
+ * run no longer impacted lose this RFI's flag. Register payloads are written
+ * in one transaction (apply_submittal_item_payloads); a lifecycle change
+ * racing the write returns 'conflict'.
+ */
+export async function traceAndStoreRfiImpact(
+  supabase: ServiceClient,
+  projectId: string,
+  rfi: Rfi
+): Promise<TraceRfiImpactOutcome> {
+  const references = collectRfiReferences(rfi)
+
+  const loaded = await loadImpactEntities(supabase, projectId, references.sheets, references.details)
+  if (loaded.error) return { status: 'error', error: loaded.error }
+
+  const register = await loadLatestSubmittalRegisterRun(supabase, projectId)
+  if (register.status === 'error') return { status: 'error', error: register.error }
+  const items: SubmittalRegisterItem[] = register.status === 'found' ? register.run.items : []
+
+  const trace = traceRfiImpact(references, { entities: loaded.entities, submittals: items })
+
+  const { error: deleteErr } = await supabase.from('rfi_impacts').delete().eq('rfi_id', rfi.id)
+  if (deleteErr) return { status: 'error', error: deleteErr.message }
+  if (trace.targets.length > 0) {
+    const { error: insertErr } = await supabase.from('rfi_impacts').insert(
+      trace.targets.map(t => ({
+        project_id: projectId,
+        rfi_id: rfi.id,
+        target_type: t.targetType,
+        target_ref: t.targetRef,
+        entity_id: t.entityId,
+        label: t.label,
+        reasons: t.reasons,
+      }))
+    )
+    if (insertErr) return { status: 'error', error: insertErr.message }
+  }
+
+  // Register items to flag (traced) or unflag (flagged by an earlier trace).
+  const reasonsByKey = new Map(
+    trace.targets.filter(t => t.targetType === 'submittal').map(t => [t.targetRef, t.reasons])
+  )
+  const touched = items.filter(i =>
+    i.persistedItemId &&
+    ((i.dedupeKey && reasonsByKey.has(i.dedupeKey)) || i.rfiImpacts?.some(e => e.rfiId === rfi.id))
+  )
+  if (touched.length === 0) return { status: 'traced', trace, flaggedItemIds: [], unflaggedItemIds: [] }
+
+  const payloads = new Map<string, Record<string, unknown>>()
+  const ids = touched.map(i => i.persistedItemId!)
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('submittal_register_items')
+      .select('id, item_payload')
+      .eq('project_id', projectId)
+      .in('id', ids.slice(i, i + ID_CHUNK))
+    if (error) return { status: 'error', error: error.message }
+    for (const row of data ?? []) payloads.set(row.id, row.item_payload as Record<string, unknown>)
+  }
+
+  const at = new Date().toISOString()
+  const flaggedItemIds: string[] = []
+  const unflaggedItemIds: string[] = []
+  const updates: Array<{ id: string; expected_status: string; item_payload: Record<string, unknown> }> = []
+  for (const item of touched) {
+    const payload = payloads.get(item.persistedItemId!)
+    if (!payload) continue
+    const current = payload.rfiImpacts as SubmittalRegisterItem['rfiImpacts']
+    const reasons = item.dedupeKey ? reasonsByKey.get(item.dedupeKey) : undefined
+    const rfiImpacts = reasons
+      ? flagSubmittalRfiImpact(current, rfi, reasons, at)
+      : unflagSubmittalRfiImpact(current, rfi.id)
+    if (JSON.stringify(rfiImpacts) === JSON.stringify(current ?? [])) continue
+    ;(reasons ? flaggedItemIds : unflaggedItemIds).push(item.persistedItemId!)
+    updates.push({
+      id: item.persistedItemId!,
+      expected_status: (payload.lifecycleStatus as string | undefined) ?? 'draft',
+      item_payload: { ...payload, rfiImpacts },
+    })
+  }
+
+  if (updates.length > 0) {
+    const { error: applyErr } = await supabase.rpc('apply_submittal_item_payloads', {
+      p_project_id: projectId,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      p_updates: updates as any,
+    })
+    if (applyErr) {
+      if (applyErr.code === '40001') {
+        return { status: 'conflict', error: 'A flagged submittal changed while tracing — trace the RFI again' }
+      }
+      return { status: 'error', error: applyErr.message }
+    }
+  }
+
+  return { status: 'traced', trace, flaggedItemIds, unflaggedItemIds }
+}
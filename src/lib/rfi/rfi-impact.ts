@@ -0,0 +1,301 @@
+/**
+ * RFI impact tracing — pure logic.
+ *
+ * When an RFI is answered, everything it touches is traced from the sheet,
+ * detail and spec section references in its question, suggested solution and
+ * response (plus the sheets and sections entered on the RFI itself):
+ *
+ *   sheet         cited directly, or as the sheet of a cited detail
+ *   spec_section  cited directly
+ *   entity        located on a cited sheet or detail (entity_locations), or
+ *                 the spec_section entity of a cited section
+ *   submittal     register item submitted for a cited section
+ *
+ * Impacted submittals are flagged for re-review: an entry is added to the
+ * item's rfiImpacts until someone marks it re-reviewed. Answering a reopened
+ * RFI again flags its submittals again.
+ *
+ * Targets are stored in rfi_impacts (migration 00062). Submittals are keyed
+ * by dedupeKey so the relation survives register re-runs.
+ *
+ * rfi-impact-persistence.ts loads the inputs and stores the trace.
+ */
+
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import {
+  extractDetailReferences,
+  extractSheetReferences,
+  extractSpecSectionReferences,
+} from '../vision/rfi-extractor.ts'
+import { normalizeSpecSectionForFow } from '../graph/fow-readiness.ts'
+import type { Rfi } from './rfi-workflow'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const RFI_IMPACT_TARGET_TYPES = ['sheet', 'spec_section', 'entity', 'submittal'] as const
+export type RfiImpactTargetType = (typeof RFI_IMPACT_TARGET_TYPES)[number]
+
+export type RfiImpactReason =
+  | 'cited_sheet'
+  | 'cited_detail'
+  | 'cited_section'
+  | 'on_cited_sheet'
+  | 'at_cited_detail'
+  | 'in_cited_section'
+
+export const RFI_IMPACT_REASON_LABELS: Record<RfiImpactReason, string> = {
+  cited_sheet: 'Sheet cited',
+  cited_detail: 'Detail cited',
+  cited_section: 'Section cited',
+  on_cited_sheet: 'On a cited sheet',
+  at_cited_detail: 'At a cited detail',
+  in_cited_section: 'In a cited section',
+}
+
+export interface RfiReferences {
+  // Sheet numbers as written, e.g. 'S-201'; includes the sheets of cited details.
+  sheets: string[]
+  // Detail references, e.g. '5/S-501'.
+  details: string[]
+  // 'NN NN NN'.
+  specSections: string[]
+}
+
+export interface RfiImpactTarget {
+  targetType: RfiImpactTargetType
+  // Sheet number, 6-digit section, entity id or submittal dedupeKey.
+  targetRef: string
+  label: string
+  entityId: string | null
+  reasons: RfiImpactReason[]
+}
+
+/** project_entities row with its sheet locations, as tracing needs it. */
+export interface RfiImpactEntityRecord {
+  id: string
+  entityType: string
+  discipline: string
+  label: string | null
+  displayName: string | null
+  canonicalName: string
+  sheetNumbers: string[]
+  detailRefs: string[]
+}
+
+export type RfiImpactSubmittalRecord = Pick<
+  SubmittalRegisterItem,
+  'dedupeKey' | 'specSection' | 'submittalItem' | 'submittalNumber'
+>
+
+export interface RfiImpactTrace {
+  references: RfiReferences
+  targets: RfiImpactTarget[]
+  counts: Record<RfiImpactTargetType, number>
+}
+
+/** Re-review flag stored on a register item's payload (rfiImpacts). */
+export interface SubmittalRfiImpact {
+  rfiId: string
+  rfiNumber: string
+  subject: string
+  reasons: RfiImpactReason[]
+  flaggedAt: string
+  reReviewStatus: 'pending' | 'cleared'
+  clearedAt?: string | null
+  clearedBy?: string | null
+}
+
+// ---------------------------------------------------------------------------
+// References
+// ---------------------------------------------------------------------------
+
+// 'S-201', 's201', 'S 201' → 'S201' for comparison.
+export function sheetKey(sheet: string): string {
+  return sheet.toUpperCase().replace(/[^A-Z0-9.]/g, '')
+}
+
+// Stored sheet numbers are spelled either way: 'S-201' and 'S201'.
+export function sheetNumberVariants(sheets: string[]): string[] {
+  const out = new Set<string>()
+  for (const s of sheets) {
+    const key = sheetKey(s)
+    out.add(s)
+    out.add(key)
+    out.add(key.replace(/^([A-Z]+)(\d)/, '$1-$2'))
+  }
+  return [...out]
+}
+
+// '5/S-501' → '5/S501'.
+function detailKey(detail: string): string {
+  const [mark, sheet] = detail.split('/')
+  return `${mark.trim().toUpperCase()}/${sheetKey(sheet ?? '')}`
+}
+
+function formatSection(key: string): string {
+  return `${key.slice(0, 2)} ${key.slice(2, 4)} ${key.slice(4, 6)}`
+}
+
+export function collectRfiReferences(
+  rfi: Pick<Rfi, 'question' | 'suggestedSolution' | 'response' | 'referencedSheets' | 'specSections'>
+): RfiReferences {
+  const text = [rfi.question, rfi.suggestedSolution, rfi.response].filter(Boolean).join('\n')
+  const entered = rfi.referencedSheets.join('\n')
+
+  const details = new Map<string, string>()
+  for (const d of [...extractDetailReferences(text), ...extractDetailReferences(entered)]) {
+    if (!details.has(detailKey(d))) details.set(detailKey(d), d)
+  }
+
+  const sheets = new Map<string, string>()
+  const detailSheets = [...details.values()].map(d => d.split('/')[1])
+  for (const s of [...extractSheetReferences(text), ...extractSheetReferences(entered), ...detailSheets]) {
+    if (!sheets.has(sheetKey(s))) sheets.set(sheetKey(s), s)
+  }
+
+  const sections = new Set<string>()
+  for (const s of [...extractSpecSectionReferences(text), ...rfi.specSections]) {
+    const key = normalizeSpecSectionForFow(s)
+    if (/^\d{6}$/.test(key) && key !== '000000') sections.add(key)
+  }
+
+  return {
+    sheets: [...sheets.values()].sort(),
+    details: [...details.values()].sort(),
+    specSections: [...sections].sort().map(formatSection),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Trace
+// ---------------------------------------------------------------------------
+
+export function traceRfiImpact(
+  references: RfiReferences,
+  data: { entities: RfiImpactEntityRecord[]; submittals: RfiImpactSubmittalRecord[] }
+): RfiImpactTrace {
+  const targets = new Map<string, RfiImpactTarget>()
+  const add = (t: Omit<RfiImpactTarget, 'reasons'>, reason: RfiImpactReason) => {
+    const key = `${t.targetType}:${t.targetRef}`
+    const existing = targets.get(key)
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason)
+    } else {
+      targets.set(key, { ...t, reasons: [reason] })
+    }
+  }
+
+  const detailKeys = new Set(references.details.map(detailKey))
+  for (const sheet of references.sheets) {
+    const key = sheetKey(sheet)
+    // The extractor also reads the sheet inside '5/S-501' as a sheet citation,
+    // so a sheet with cited details is reported for its details.
+    const onDetails = references.details.filter(d => sheetKey(d.split('/')[1] ?? '') === key)
+    const label = onDetails.length > 0 ? `${sheet} (${onDetails.join(', ')})` : sheet
+    add({ targetType: 'sheet', targetRef: key, label, entityId: null }, onDetails.length > 0 ? 'cited_detail' : 'cited_sheet')
+  }
+
+  const sectionKeys = new Set(references.specSections.map(s => normalizeSpecSectionForFow(s)))
+  for (const section of references.specSections) {
+    add(
+      { targetType: 'spec_section', targetRef: normalizeSpecSectionForFow(section), label: section, entityId: null },
+      'cited_section'
+    )
+  }
+
+  const sheetKeys = new Set(references.sheets.map(sheetKey))
+  for (const e of data.entities) {
+    const target = {
+      targetType: 'entity' as const,
+      targetRef: e.id,
+      label: e.label ?? e.displayName ?? e.canonicalName,
+      entityId: e.id,
+    }
+    if (e.detailRefs.some(d => detailKeys.has(detailKey(d)))) add(target, 'at_cited_detail')
+    if (e.sheetNumbers.some(s => sheetKeys.has(sheetKey(s)))) add(target, 'on_cited_sheet')
+    if (
+      e.entityType === 'spec_section' &&
+      sectionKeys.has(normalizeSpecSectionForFow(e.label ?? e.canonicalName))
+    ) {
+      add(target, 'in_cited_section')
+    }
+  }
+
+  for (const item of data.submittals) {
+    if (!item.dedupeKey || !item.specSection) continue
+    if (!sectionKeys.has(normalizeSpecSectionForFow(item.specSection))) continue
+    add(
+      {
+        targetType: 'submittal',
+        targetRef: item.dedupeKey,
+        label: [item.submittalNumber ?? item.specSection, item.submittalItem].filter(Boolean).join(' '),
+        entityId: null,
+      },
+      'in_cited_section'
+    )
+  }
+
+  const list = [...targets.values()]
+  const counts = { sheet: 0, spec_section: 0, entity: 0, submittal: 0 }
+  for (const t of list) counts[t.targetType]++
+  return { references, targets: list, counts }
+}
+
+// ---------------------------------------------------------------------------
+// Re-review flags on register items
+// ---------------------------------------------------------------------------
+
+/**
+ * Adds or refreshes the RFI's entry in a register item's rfiImpacts. A pending
+ * entry keeps its flaggedAt. An entry cleared after the RFI was answered stays
+ * cleared; one cleared before the current answer is flagged again.
+ */
+export function flagSubmittalRfiImpact(
+  existing: SubmittalRfiImpact[] | undefined,
+  rfi: Pick<Rfi, 'id' | 'rfiNumber' | 'subject' | 'answeredAt'>,
+  reasons: RfiImpactReason[],
+  at: string
+): SubmittalRfiImpact[] {
+  const list = existing ?? []
+  const prior = list.find(e => e.rfiId === rfi.id)
+  const stillCleared =
+    prior?.reReviewStatus === 'cleared' && !!prior.clearedAt && !!rfi.answeredAt && prior.clearedAt >= rfi.answeredAt
+  const entry: SubmittalRfiImpact = stillCleared || prior?.reReviewStatus === 'pending'
+    ? { ...prior!, rfiNumber: rfi.rfiNumber, subject: rfi.subject, reasons }
+    : {
+        rfiId: rfi.id,
+        rfiNumber: rfi.rfiNumber,
+        subject: rfi.subject,
+        reasons,
+        flaggedAt: at,
+        reReviewStatus: 'pending',
+        clearedAt: null,
+        clearedBy: null,
+      }
+  return prior ? list.map(e => (e.rfiId === rfi.id ? entry : e)) : [...list, entry]
+}
+
+// Drops the RFI's entry — the item is no longer in a traced section.
+export function unflagSubmittalRfiImpact(
+  existing: SubmittalRfiImpact[] | undefined,
+  rfiId: string
+): SubmittalRfiImpact[] {
+  return (existing ?? []).filter(e => e.rfiId !== rfiId)
+}
+
+export function clearSubmittalRfiImpact(
+  existing: SubmittalRfiImpact[] | undefined,
+  rfiId: string,
+  by: string | null,
+  at: string
+): SubmittalRfiImpact[] | null {
+  const list = existing ?? []
+  if (!list.some(e => e.rfiId === rfiId)) return null
+  return list.map(e => (e.rfiId === rfiId ? { ...e, reReviewStatus: 'cleared', clearedAt: at, clearedBy: by } : e))
+}
+
+export function pendingRfiImpacts(item: { rfiImpacts?: SubmittalRfiImpact[] }): SubmittalRfiImpact[] {
+  return (item.rfiImpacts ?? []).filter(e => e.reReviewStatus === 'pending')
+}
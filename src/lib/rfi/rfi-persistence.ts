@@ -0,0 +1,64 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import type { Database } from '../db/supabase/types'
+import { formatRfiNumber, nextRfiSequence, rowToRfi, type Rfi, type RfiRow } from './rfi-workflow'
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+type RfiInsert = Database['public']['Tables']['rfis']['Insert']
+
+const PAGE_SIZE = 1000
+
+// Concurrent creates can race for the same number; the unique index rejects
+// the loser, which re-reads the max and tries the next one.
+const NUMBER_ATTEMPTS = 3
+
+export const RFI_COLUMNS =
+  'id, rfi_number, sequence, subject, question, suggested_solution, referenced_sheets, spec_sections, status, priority, due_date, assigned_to, response, answered_by, source_question, status_history, opened_at, answered_at, closed_at, created_at, updated_at'
+
+export async function loadRfis(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ rfis: Rfi[]; error: string | null }> {
+  const rfis: Rfi[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rfis')
+      .select(RFI_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) return { rfis: [], error: error.message }
+    const rows = (data ?? []) as unknown as RfiRow[]
+    rfis.push(...rows.map(rowToRfi))
+    if (rows.length < PAGE_SIZE) break
+  }
+  rfis.sort((a, b) => (a.sequence ?? Infinity) - (b.sequence ?? Infinity))
+  return { rfis, error: null }
+}
+
+// Inserts the RFI under the project's next number.
+export async function insertNumberedRfi(
+  supabase: ServiceClient,
+  projectId: string,
+  row: Omit<RfiInsert, 'project_id' | 'rfi_number' | 'sequence'>
+): Promise<{ rfi: Rfi | null; error: string | null }> {
+  for (let attempt = 0; attempt < NUMBER_ATTEMPTS; attempt++) {
+    // Highest number only — an unbounded read stops at PostgREST's row cap.
+    const { data: existing, error: readErr } = await supabase
+      .from('rfis')
+      .select('sequence, rfi_number')
+      .eq('project_id', projectId)
+      .order('sequence', { ascending: false, nullsFirst: false })
+      .limit(1)
+    if (readErr) return { rfi: null, error: readErr.message }
+
+    const sequence = nextRfiSequence((existing ?? []).map(r => ({ sequence: r.sequence, rfiNumber: r.rfi_number })))
+    const { data, error } = await supabase
+      .from('rfis')
+      .insert({ ...row, project_id: projectId, sequence, rfi_number: formatRfiNumber(sequence) })
+      .select(RFI_COLUMNS)
+      .single()
+    if (!error) return { rfi: rowToRfi(data as unknown as RfiRow), error: null }
+    if (error.code !== '23505') return { rfi: null, error: error.message }
+  }
+  return { rfi: null, error: 'Could not allocate an RFI number; try again' }
+}
@@ -0,0 +1,292 @@
+/**
+ * RFI authoring workflow — pure logic.
+ *
+ * RFIs written by the project team (as opposed to the RFI entities extracted
+ * from uploaded change documents, src/lib/vision/rfi-extractor.ts). An RFI is
+ * usually drafted from a chat answer: the question asked, the sheets and spec
+ * sections the answer cites, and the answer's recommendation as the
+ * contractor's suggested solution. The user edits the draft before saving.
+ *
+ * Status flow:
+ *   draft → open → answered → closed
+ *   open → closed       (withdrawn)
+ *   answered → open     (response did not resolve the question)
+ *
+ * Numbers are 'RFI-001', allocated per project as max + 1 on first save.
+ *
+ * Reads and writes live in rfi-persistence.ts.
+ */
+
+import {
+  extractDetailReferences,
+  extractSheetReferences,
+  extractSpecSectionReferences,
+} from '../vision/rfi-extractor.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const RFI_STATUSES = ['draft', 'open', 'answered', 'closed'] as const
+export type RfiStatus = (typeof RFI_STATUSES)[number]
+
+export const RFI_PRIORITIES = ['low', 'normal', 'high', 'critical'] as const
+export type RfiPriority = (typeof RFI_PRIORITIES)[number]
+
+export const RFI_STATUS_LABELS: Record<RfiStatus, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  answered: 'Answered',
+  closed: 'Closed',
+}
+
+export const RFI_STATUS_COLORS: Record<RfiStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  open: 'bg-blue-100 text-blue-800',
+  answered: 'bg-green-100 text-green-800',
+  closed: 'bg-slate-200 text-slate-700',
+}
+
+export interface RfiStatusHistoryEntry {
+  fromStatus: RfiStatus | null
+  toStatus: RfiStatus
+  changedAt: string
+  changedBy?: string
+  note?: string
+}
+
+export interface Rfi {
+  id: string
+  rfiNumber: string
+  sequence: number | null
+  subject: string
+  question: string
+  suggestedSolution: string | null
+  referencedSheets: string[]
+  specSections: string[]
+  status: RfiStatus
+  priority: RfiPriority
+  dueDate: string | null
+  assignedTo: string | null
+  response: string | null
+  answeredBy: string | null
+  sourceQuestion: string | null
+  statusHistory: RfiStatusHistoryEntry[]
+  openedAt: string | null
+  answeredAt: string | null
+  closedAt: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export interface RfiRow {
+  id: string
+  rfi_number: string
+  sequence: number | null
+  subject: string
+  question: string
+  suggested_solution: string | null
+  referenced_sheets: string[] | null
+  spec_sections: string[] | null
+  status: string | null
+  priority: string | null
+  due_date: string | null
+  assigned_to: string | null
+  response: string | null
+  answered_by: string | null
+  source_question: string | null
+  status_history: unknown
+  opened_at: string | null
+  answered_at: string | null
+  closed_at: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+export function rowToRfi(row: RfiRow): Rfi {
+  return {
+    id: row.id,
+    rfiNumber: row.rfi_number,
+    sequence: row.sequence ?? parseRfiNumber(row.rfi_number),
+    subject: row.subject,
+    question: row.question,
+    suggestedSolution: row.suggested_solution,
+    referencedSheets: row.referenced_sheets ?? [],
+    specSections: row.spec_sections ?? [],
+    status: isRfiStatus(row.status) ? row.status : 'open',
+    priority: (RFI_PRIORITIES as readonly string[]).includes(row.priority ?? '') ? (row.priority as RfiPriority) : 'normal',
+    dueDate: row.due_date,
+    assignedTo: row.assigned_to,
+    response: row.response,
+    answeredBy: row.answered_by,
+    sourceQuestion: row.source_question,
+    statusHistory: Array.isArray(row.status_history) ? (row.status_history as RfiStatusHistoryEntry[]) : [],
+    openedAt: row.opened_at,
+    answeredAt: row.answered_at,
+    closedAt: row.closed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export function isRfiStatus(v: unknown): v is RfiStatus {
+  return typeof v === 'string' && (RFI_STATUSES as readonly string[]).includes(v)
+}
+
+// ---------------------------------------------------------------------------
+// Numbering
+// ---------------------------------------------------------------------------
+
+export function formatRfiNumber(sequence: number): string {
+  return `RFI-${String(sequence).padStart(3, '0')}`
+}
+
+// 'RFI-007', 'RFI 7', 'rfi#7' → 7. Null when the number is not in RFI form.
+export function parseRfiNumber(value: string | null | undefined): number | null {
+  const m = /^\s*RFI\s*[-#]?\s*(\d+)\s*$/i.exec(value ?? '')
+  return m ? Number(m[1]) : null
+}
+
+// Next free sequence given the project's existing RFI numbers.
+export function nextRfiSequence(existing: Array<{ sequence: number | null; rfiNumber: string }>): number {
+  let max = 0
+  for (const r of existing) {
+    const n = r.sequence ?? parseRfiNumber(r.rfiNumber)
+    if (n !== null && n > max) max = n
+  }
+  return max + 1
+}
+
+// ---------------------------------------------------------------------------
+// Status transitions
+// ---------------------------------------------------------------------------
+
+const TRANSITIONS: Record<RfiStatus, RfiStatus[]> = {
+  draft: ['open'],
+  open: ['answered', 'closed'],
+  answered: ['closed', 'open'],
+  closed: [],
+}
+
+export function getNextRfiStatuses(from: RfiStatus): RfiStatus[] {
+  return TRANSITIONS[from]
+}
+
+export interface RfiTransitionInput {
+  response?: string | null
+  answeredBy?: string | null
+  by?: string
+  note?: string
+  at?: string
+}
+
+export type RfiTransitionResult =
+  | {
+      ok: true
+      entry: RfiStatusHistoryEntry
+      // Columns to write alongside status and status_history.
+      fields: Partial<Pick<Rfi, 'response' | 'answeredBy' | 'openedAt' | 'answeredAt' | 'closedAt'>>
+    }
+  | { ok: false; error: string }
+
+// An RFI can only be answered with a response. Opening stamps openedAt once
+// (a reopen keeps the first); answering stamps answeredAt and records who
+// answered; closing stamps closedAt.
+export function buildRfiTransition(
+  rfi: Pick<Rfi, 'status' | 'response' | 'openedAt'>,
+  toStatus: RfiStatus,
+  input: RfiTransitionInput = {}
+): RfiTransitionResult {
+  if (!TRANSITIONS[rfi.status].includes(toStatus)) {
+    return {
+      ok: false,
+      error: `Cannot move an RFI from ${RFI_STATUS_LABELS[rfi.status]} to ${RFI_STATUS_LABELS[toStatus]}`,
+    }
+  }
+  const at = input.at ?? new Date().toISOString()
+  const fields: Extract<RfiTransitionResult, { ok: true }>['fields'] = {}
+
+  if (toStatus === 'open' && !rfi.openedAt) fields.openedAt = at
+  if (toStatus === 'answered') {
+    const response = input.response?.trim() || rfi.response?.trim() || ''
+    if (!response) return { ok: false, error: 'A response is required to mark an RFI answered' }
+    fields.response = response
+    fields.answeredAt = at
+    fields.answeredBy = input.answeredBy?.trim() || null
+  }
+  if (toStatus === 'closed') fields.closedAt = at
+
+  return {
+    ok: true,
+    entry: { fromStatus: rfi.status, toStatus, changedAt: at, changedBy: input.by, note: input.note?.trim() || undefined },
+    fields,
+  }
+}
+
+// Days the RFI has been open (or was open, once answered). Null while a draft.
+export function rfiDaysOpen(rfi: Pick<Rfi, 'openedAt' | 'answeredAt' | 'closedAt'>, today: string): number | null {
+  if (!rfi.openedAt) return null
+  const end = rfi.answeredAt ?? rfi.closedAt ?? `${today}T00:00:00.000Z`
+  return Math.max(0, Math.floor((Date.parse(end) - Date.parse(rfi.openedAt)) / 86_400_000))
+}
+
+export function isRfiOverdue(rfi: Pick<Rfi, 'status' | 'dueDate'>, today: string): boolean {
+  return rfi.status === 'open' && rfi.dueDate !== null && rfi.dueDate < today
+}
+
+// ---------------------------------------------------------------------------
+// Drafting from a chat answer
+// ---------------------------------------------------------------------------
+
+export interface RfiDraft {
+  subject: string
+  question: string
+  suggestedSolution: string
+  referencedSheets: string[]
+  specSections: string[]
+}
+
+const SUBJECT_MAX = 80
+const SOLUTION_MAX = 1200
+
+// Sentences that read as a recommendation become the suggested solution.
+const RECOMMENDATION = /\b(?:recommend|suggest|propose|should|consider|could|option|alternatively|resolve)\w*\b/i
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\r/g, '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.replace(/^[\s>*#\-•\d.)]+/, '').replace(/\*\*/g, '').trim())
+    .filter(s => s.length > 0)
+}
+
+function subjectFrom(question: string): string {
+  const first = sentences(question)[0] ?? question.trim()
+  const subject = first.replace(/[?.!]+$/, '')
+  if (subject.length <= SUBJECT_MAX) return subject
+  return `${subject.slice(0, SUBJECT_MAX - 1).replace(/\s+\S*$/, '')}…`
+}
+
+// Detail references ('5/S-201') carry their sheet, so the bare sheet is dropped.
+function sheetsFrom(text: string): string[] {
+  const details = extractDetailReferences(text)
+  const onDetail = new Set(details.map(d => d.split('/')[1]))
+  const sheets = extractSheetReferences(text).filter(s => !onDetail.has(s))
+  return [...new Set([...sheets, ...details])].sort()
+}
+
+export function buildRfiDraftFromAnswer(chatQuestion: string, chatAnswer: string): RfiDraft {
+  const combined = `${chatQuestion}\n${chatAnswer}`
+  const recommendation = sentences(chatAnswer).filter(s => RECOMMENDATION.test(s)).join(' ')
+  const solution = recommendation.length > SOLUTION_MAX
+    ? `${recommendation.slice(0, SOLUTION_MAX - 1).replace(/\s+\S*$/, '')}…`
+    : recommendation
+
+  return {
+    subject: subjectFrom(chatQuestion),
+    question: chatQuestion.trim(),
+    suggestedSolution: solution,
+    referencedSheets: sheetsFrom(combined),
+    specSections: extractSpecSectionReferences(combined).sort(),
+  }
+}
@@ -0,0 +1,547 @@
+/**
+ * Critical path method engine over schedule activities + logic ties.
+ *
+ * Recomputes early/late dates, total float and criticality from the version's
+ * own logic instead of trusting the float the uploaded file carried, and
+ * answers "what if this activity starts N working days late".
+ *
+ * Model:
+ *   - Time is a line of whole days. Activity starts are the start boundary of
+ *     a working day; finishes are the boundary right after the last working
+ *     day (exclusive), so an FS successor can start at the predecessor's
+ *     finish boundary after snapping to the next working day.
+ *   - Durations and lags are working days. Lag is counted on the successor's
+ *     calendar; each activity's own dates snap to its own calendar.
+ *   - All four relationship types (FS, SS, FF, SF), positive or negative lag.
+ *   - Progress: complete activities keep their actual dates; in-progress
+ *     activities keep their actual start and finish `remaining` working days
+ *     after the data date; nothing unstarted starts before the data date.
+ *   - Activities with no predecessors start at their imported early start
+ *     (stands in for the P6/MSP constraint we don't import), else at the
+ *     project start.
+ *   - Total float = working days from early finish to late finish. Critical =
+ *     not complete and total float <= criticalFloatThreshold (default 0).
+ *
+ * Pure transform — no I/O.
+ */
+
+import type { ScheduleActivity, ScheduleTie } from './schedule-model.ts'
+
+// ---------------------------------------------------------------------------
+// Calendars
+// ---------------------------------------------------------------------------
+
+export interface WorkCalendar {
+  name: string
+  /** 0 = Sunday … 6 = Saturday */
+  workDays: number[]
+  /** ISO dates (YYYY-MM-DD) that are non-working on this calendar. */
+  holidays: string[]
+}
+
+export const STANDARD_5_DAY_CALENDAR: WorkCalendar = {
+  name: '5-Day',
+  workDays: [1, 2, 3, 4, 5],
+  holidays: [],
+}
+
+/**
+ * Best-effort calendar from the imported calendar name. Schedulers name
+ * calendars consistently enough ("7 Day", "6-Day Work Week", "24/7") that
+ * the work-week length is recoverable; everything else is Mon–Fri.
+ */
+export function calendarFromName(name: string | null | undefined): WorkCalendar {
+  const n = (name ?? '').toLowerCase()
+  if (/\b7[\s-]*day|24\s*\/\s*7|seven[\s-]*day|continuous/.test(n)) {
+    return { name: name ?? '7-Day', workDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] }
+  }
+  if (/\b6[\s-]*day|six[\s-]*day/.test(n)) {
+    return { name: name ?? '6-Day', workDays: [1, 2, 3, 4, 5, 6], holidays: [] }
+  }
+  return { ...STANDARD_5_DAY_CALENDAR, name: name ?? STANDARD_5_DAY_CALENDAR.name }
+}
+
+const DAY_MS = 86_400_000
+
+export function isoToDay(iso: string): number {
+  return Math.round(Date.parse(`${iso.slice(0, 10)}T00:00:00Z`) / DAY_MS)
+}
+
+export function dayToIso(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+/** Signed working days in [from, to) on `calendar` — e.g. how late a need date is in schedule terms. */
+export function workingDaysBetween(
+  from: string,
+  to: string,
+  calendar: WorkCalendar = STANDARD_5_DAY_CALENDAR
+): number {
+  return buildCalendarOps(calendar).countWork(isoToDay(from), isoToDay(to))
+}
+
+interface CalendarOps {
+  isWork(day: number): boolean
+  /** First working-day start at or after `t`. */
+  snapStart(t: number): number
+  /** Last finish boundary (day after a working day) at or before `t`. */
+  snapFinish(t: number): number
+  /** Last working-day start at or before `t`. */
+  snapStartBack(t: number): number
+  /** Finish boundary `n` working days after start boundary `t` (n < 0 → retreat). */
+  advance(t: number, n: number): number
+  /** Start boundary `n` working days before finish boundary `t`. */
+  retreat(t: number, n: number): number
+  /** Latest finish boundary that leaves `n` working days before boundary `t`. */
+  retreatFinish(t: number, n: number): number
+  /** Signed count of working days in [a, b). */
+  countWork(a: number, b: number): number
+}
+
+function buildCalendarOps(cal: WorkCalendar): CalendarOps {
+  const workDays = new Set(cal.workDays.length > 0 ? cal.workDays : STANDARD_5_DAY_CALENDAR.workDays)
+  const holidays = new Set(cal.holidays.map(isoToDay))
+  // 1970-01-01 (day 0) was a Thursday.
+  const isWork = (day: number) => workDays.has(((day + 4) % 7 + 7) % 7) && !holidays.has(day)
+
+  const snapStart = (t: number) => { let x = t; while (!isWork(x)) x++; return x }
+  const snapFinish = (t: number) => { let x = t; while (!isWork(x - 1)) x--; return x }
+  const snapStartBack = (t: number) => { let x = t; while (!isWork(x)) x--; return x }
+
+  function retreat(t: number, n: number): number {
+    if (n < 0) return advance(t, -n)
+    let x = t
+    for (let i = 0; i < n; i++) {
+      x--
+      while (!isWork(x)) x--
+    }
+    return x
+  }
+
+  function advance(t: number, n: number): number {
+    if (n < 0) return retreat(t, -n)
+    let x = t
+    for (let i = 0; i < n; i++) x = snapStart(x) + 1
+    return x
+  }
+
+  function retreatFinish(t: number, n: number): number {
+    if (n < 0) return snapFinish(advance(snapStart(t), -n))
+    let x = t
+    for (let i = 0; i < n; i++) x = snapFinish(x) - 1
+    return snapFinish(x)
+  }
+
+  function countWork(a: number, b: number): number {
+    if (a === b) return 0
+    const [lo, hi, sign] = a < b ? [a, b, 1] : [b, a, -1]
+    let count = 0
+    for (let d = lo; d < hi; d++) if (isWork(d)) count++
+    return count * sign
+  }
+
+  return { isWork, snapStart, snapFinish, snapStartBack, advance, retreat, retreatFinish, countWork }
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CpmNetwork {
+  activities: ScheduleActivity[]
+  ties: ScheduleTie[]
+}
+
+export interface CpmOptions {
+  /** Status date. Unstarted work can't start before it; remaining work is scheduled from it. */
+  dataDate?: string | null
+  /** Start for open-start activities without an imported early start. Defaults to the earliest date in the network. */
+  projectStart?: string | null
+  /** Calendars keyed by the activity's `calendar` name. Unmatched names fall back to calendarFromName(). */
+  calendars?: Record<string, WorkCalendar>
+  /** Project-wide non-working dates applied to every calendar. */
+  holidays?: string[]
+  /** Working days of delay per activityId: pushes an unstarted activity's start, or an in-progress activity's finish. */
+  delays?: Record<string, number>
+  criticalFloatThreshold?: number
+}
+
+export interface CpmActivityResult {
+  activityId: string
+  activityName: string
+  earlyStart: string
+  earlyFinish: string
+  lateStart: string
+  lateFinish: string
+  durationDays: number
+  totalFloatDays: number
+  isCritical: boolean
+  /** Predecessors whose tie set this activity's early dates. */
+  drivingPredecessorIds: string[]
+}
+
+export interface CpmResult {
+  activities: CpmActivityResult[]
+  projectStart: string
+  projectFinish: string
+  /** Critical activity IDs in early-start order. */
+  criticalPath: string[]
+  warnings: string[]
+}
+
+export type CpmRunResult =
+  | { ok: true; result: CpmResult }
+  | { ok: false; error: string; cycleActivityIds: string[] }
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+function resolveCalendar(name: string | null, options: CpmOptions): WorkCalendar {
+  const base = (name && options.calendars?.[name]) || calendarFromName(name)
+  return { ...base, holidays: [...base.holidays, ...(options.holidays ?? [])] }
+}
+
+interface Node {
+  activity: ScheduleActivity
+  cal: CalendarOps
+  duration: number
+  preds: ScheduleTie[]
+  succs: ScheduleTie[]
+  es: number
+  ef: number
+  ls: number
+  lf: number
+  fixed: boolean
+  driving: string[]
+}
+
+export function runCpm(network: CpmNetwork, options: CpmOptions = {}): CpmRunResult {
+  const warnings: string[] = []
+  const threshold = options.criticalFloatThreshold ?? 0
+
+  const opsByCalendar = new Map<string, CalendarOps>()
+  function opsFor(name: string | null): CalendarOps {
+    const key = name ?? ''
+    let ops = opsByCalendar.get(key)
+    if (!ops) {
+      ops = buildCalendarOps(resolveCalendar(name, options))
+      opsByCalendar.set(key, ops)
+    }
+    return ops
+  }
+
+  const nodes = new Map<string, Node>()
+  for (const a of network.activities) {
+    if (nodes.has(a.activityId)) {
+      warnings.push(`Duplicate activity ${a.activityId} ignored.`)
+      continue
+    }
+    nodes.set(a.activityId, {
+      activity: a,
+      cal: opsFor(a.calendar),
+      duration: Math.max(0, Math.round(a.durationDays ?? 0)),
+      preds: [],
+      succs: [],
+      es: 0, ef: 0, ls: 0, lf: 0,
+      fixed: false,
+      driving: [],
+    })
+  }
+  if (nodes.size === 0) {
+    return { ok: false, error: 'Schedule has no activities', cycleActivityIds: [] }
+  }
+
+  let danglingTies = 0
+  for (const t of network.ties) {
+    const pred = nodes.get(t.predecessorActivityId)
+    const succ = nodes.get(t.successorActivityId)
+    if (!pred || !succ || pred === succ) { danglingTies++; continue }
+    pred.succs.push(t)
+    succ.preds.push(t)
+  }
+  if (danglingTies > 0) warnings.push(`${danglingTies} tie(s) reference unknown activities and were ignored.`)
+
+  // Topological order (Kahn). Anything left over sits on a logic loop.
+  const inDegree = new Map<string, number>()
+  for (const [id, n] of nodes) inDegree.set(id, n.preds.length)
+  const queue = [...nodes.keys()].filter(id => inDegree.get(id) === 0)
+  const order: Node[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    const node = nodes.get(id)!
+    order.push(node)
+    for (const t of node.succs) {
+      const remaining = inDegree.get(t.successorActivityId)! - 1
+      inDegree.set(t.successorActivityId, remaining)
+      if (remaining === 0) queue.push(t.successorActivityId)
+    }
+  }
+  if (order.length !== nodes.size) {
+    const cycleActivityIds = [...nodes.keys()].filter(id => (inDegree.get(id) ?? 0) > 0).sort()
+    return { ok: false, error: 'Logic loop detected — CPM requires an acyclic network', cycleActivityIds }
+  }
+
+  const dataDay = options.dataDate ? isoToDay(options.dataDate) : null
+  const knownStarts = network.activities
+    .map(a => a.actualStart ?? a.earlyStart)
+    .filter((d): d is string => !!d)
+    .map(isoToDay)
+  const projectStartDay = options.projectStart
+    ? isoToDay(options.projectStart)
+    : knownStarts.length > 0 ? Math.min(...knownStarts) : dataDay ?? isoToDay(new Date().toISOString())
+
+  // ── Forward pass ───────────────────────────────────────────────────────────
+  for (const node of order) {
+    const a = node.activity
+    const { cal, duration } = node
+    const delay = Math.max(0, Math.round(options.delays?.[a.activityId] ?? 0))
+
+    if (a.status === 'complete' && a.actualStart && a.actualFinish) {
+      node.es = isoToDay(a.actualStart)
+      node.ef = isoToDay(a.actualFinish) + 1
+      node.fixed = true
+      continue
+    }
+
+    if (a.actualStart && a.status !== 'not_started') {
+      node.es = isoToDay(a.actualStart)
+      const remaining = Math.max(0, Math.round(duration * (1 - a.percentComplete / 100)))
+      const resumeFrom = cal.snapStart(Math.max(node.es, dataDay ?? node.es))
+      node.ef = cal.advance(resumeFrom, remaining + delay)
+      continue
+    }
+
+    let start = node.preds.length === 0
+      ? (a.earlyStart ? isoToDay(a.earlyStart) : projectStartDay)
+      : Number.NEGATIVE_INFINITY
+    if (dataDay !== null) start = Math.max(start, dataDay)
+
+    const candidates: Array<{ id: string; start: number }> = []
+    for (const t of node.preds) {
+      const p = nodes.get(t.predecessorActivityId)!
+      let bound: number
+      switch (t.type) {
+        case 'SS': bound = cal.snapStart(cal.advance(p.es, t.lagDays)); break
+        case 'FF': bound = cal.retreat(cal.advance(p.ef, t.lagDays), duration); break
+        case 'SF': bound = cal.retreat(cal.advance(p.es, t.lagDays), duration); break
+        default: bound = cal.snapStart(cal.advance(p.ef, t.lagDays))
+      }
+      candidates.push({ id: p.activity.activityId, start: bound })
+      start = Math.max(start, bound)
+    }
+    if (!Number.isFinite(start)) start = projectStartDay
+
+    node.es = cal.snapStart(start)
+    node.driving = candidates.filter(c => cal.snapStart(c.start) === node.es).map(c => c.id)
+    if (delay > 0) node.es = cal.snapStart(cal.advance(node.es, delay))
+    node.ef = cal.advance(node.es, duration)
+  }
+
+  const projectFinishDay = Math.max(...order.map(n => n.ef))
+
+  // ── Backward pass ──────────────────────────────────────────────────────────
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = order[i]
+    const { cal, duration } = node
+
+    if (node.fixed) {
+      node.ls = node.es
+      node.lf = node.ef
+      continue
+    }
+
+    let finish = node.succs.length === 0 ? projectFinishDay : Number.POSITIVE_INFINITY
+    for (const t of node.succs) {
+      const s = nodes.get(t.successorActivityId)!
+      if (s.fixed) continue
+      const lagCal = s.cal
+      let bound: number
+      switch (t.type) {
+        case 'SS': bound = cal.advance(cal.snapStartBack(lagCal.retreat(s.ls, t.lagDays)), duration); break
+        case 'FF': bound = lagCal.retreatFinish(s.lf, t.lagDays); break
+        case 'SF': bound = cal.advance(cal.snapStartBack(lagCal.retreat(s.lf, t.lagDays)), duration); break
+        default: bound = lagCal.retreatFinish(s.ls, t.lagDays)
+      }
+      finish = Math.min(finish, bound)
+    }
+    if (!Number.isFinite(finish)) finish = projectFinishDay
+
+    node.lf = cal.snapFinish(finish)
+    node.ls = cal.retreat(node.lf, duration)
+  }
+
+  // ── Results ────────────────────────────────────────────────────────────────
+  const results: CpmActivityResult[] = []
+  for (const a of network.activities) {
+    const node = nodes.get(a.activityId)
+    if (!node || node.activity !== a) continue
+    const { cal, duration } = node
+    const totalFloatDays = node.fixed ? 0 : cal.countWork(node.ef, node.lf)
+    const displayStart = (t: number) => dayToIso(cal.snapStart(t))
+    const displayFinish = (start: number, finish: number) =>
+      duration === 0 && !node.fixed ? displayStart(start) : dayToIso(finish - 1)
+    results.push({
+      activityId: a.activityId,
+      activityName: a.activityName,
+      earlyStart: dayToIso(node.es),
+      earlyFinish: displayFinish(node.es, node.ef),
+      lateStart: displayStart(node.ls),
+      lateFinish: displayFinish(node.ls, node.lf),
+      durationDays: duration,
+      totalFloatDays,
+      isCritical: !node.fixed && totalFloatDays <= threshold,
+      drivingPredecessorIds: node.driving,
+    })
+  }
+
+  const projectFinish = results.reduce((max, r) => (r.earlyFinish > max ? r.earlyFinish : max), results[0].earlyFinish)
+  const criticalPath = results
+    .filter(r => r.isCritical)
+    .sort((x, y) => x.earlyStart.localeCompare(y.earlyStart) || x.activityId.localeCompare(y.activityId))
+    .map(r => r.activityId)
+
+  return {
+    ok: true,
+    result: {
+      activities: results,
+      projectStart: dayToIso(Math.min(...order.map(n => n.es))),
+      projectFinish,
+      criticalPath,
+      warnings,
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// What-if: delay one activity
+// ---------------------------------------------------------------------------
+
+export interface CpmDelayImpactRow {
+  activityId: string
+  activityName: string
+  finishBefore: string
+  finishAfter: string
+  /** Working days on the activity's calendar; positive = later. */
+  finishSlipDays: number
+  floatBefore: number
+  floatAfter: number
+  becameCritical: boolean
+}
+
+export interface CpmDelayImpact {
+  activityId: string
+  delayDays: number
+  projectFinishBefore: string
+  projectFinishAfter: string
+  /** Calendar days the project finish moves. */
+  projectFinishSlipDays: number
+  /** True when the delay is fully absorbed by float (project finish unchanged). */
+  absorbedByFloat: boolean
+  floatBefore: number
+  /** Downstream activities whose early finish moved, worst first. */
+  impacted: CpmDelayImpactRow[]
+}
+
+export type CpmDelayRunResult =
+  | { ok: true; impact: CpmDelayImpact; base: CpmResult; delayed: CpmResult }
+  | { ok: false; error: string; cycleActivityIds: string[] }
+
+export function simulateActivityDelay(
+  network: CpmNetwork,
+  activityId: string,
+  delayDays: number,
+  options: CpmOptions = {}
+): CpmDelayRunResult {
+  if (!network.activities.some(a => a.activityId === activityId)) {
+    return { ok: false, error: `Activity ${activityId} not found`, cycleActivityIds: [] }
+  }
+  const base = runCpm(network, options)
+  if (!base.ok) return base
+  const delayed = runCpm(network, {
+    ...options,
+    delays: { ...(options.delays ?? {}), [activityId]: (options.delays?.[activityId] ?? 0) + delayDays },
+  })
+  if (!delayed.ok) return delayed
+
+  const calendarByActivity = new Map(network.activities.map(a => [a.activityId, a.calendar]))
+  const baseById = new Map(base.result.activities.map(r => [r.activityId, r]))
+  const impacted: CpmDelayImpactRow[] = []
+  for (const after of delayed.result.activities) {
+    const before = baseById.get(after.activityId)
+    if (!before || before.earlyFinish === after.earlyFinish) continue
+    const ops = buildCalendarOps(resolveCalendar(calendarByActivity.get(after.activityId) ?? null, options))
+    impacted.push({
+      activityId: after.activityId,
+      activityName: after.activityName,
+      finishBefore: before.earlyFinish,
+      finishAfter: after.earlyFinish,
+      finishSlipDays: ops.countWork(isoToDay(before.earlyFinish), isoToDay(after.earlyFinish)),
+      floatBefore: before.totalFloatDays,
+      floatAfter: after.totalFloatDays,
+      becameCritical: !before.isCritical && after.isCritical,
+    })
+  }
+  impacted.sort((x, y) => y.finishSlipDays - x.finishSlipDays || x.activityId.localeCompare(y.activityId))
+
+  const projectFinishSlipDays = isoToDay(delayed.result.projectFinish) - isoToDay(base.result.projectFinish)
+  return {
+    ok: true,
+    base: base.result,
+    delayed: delayed.result,
+    impact: {
+      activityId,
+      delayDays,
+      projectFinishBefore: base.result.projectFinish,
+      projectFinishAfter: delayed.result.projectFinish,
+      projectFinishSlipDays,
+      absorbedByFloat: projectFinishSlipDays <= 0,
+      floatBefore: baseById.get(activityId)?.totalFloatDays ?? 0,
+      impacted,
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Imported vs computed
+// ---------------------------------------------------------------------------
+
+export interface CpmFloatDiscrepancy {
+  activityId: string
+  activityName: string
+  importedFloatDays: number | null
+  computedFloatDays: number
+  importedCritical: boolean
+  computedCritical: boolean
+}
+
+/**
+ * Activities where the file's float / critical flag disagrees with our own
+ * pass — usually constraints, leveling, or out-of-sequence progress in the
+ * source schedule that we don't model.
+ */
+export function findFloatDiscrepancies(
+  network: CpmNetwork,
+  result: CpmResult,
+  toleranceDays = 0
+): CpmFloatDiscrepancy[] {
+  const byId = new Map(result.activities.map(r => [r.activityId, r]))
+  const out: CpmFloatDiscrepancy[] = []
+  for (const a of network.activities) {
+    const r = byId.get(a.activityId)
+    if (!r || a.status === 'complete') continue
+    const floatDiffers =
+      a.totalFloatDays === null || Math.abs(a.totalFloatDays - r.totalFloatDays) > toleranceDays
+    if (floatDiffers || a.isCritical !== r.isCritical) {
+      out.push({
+        activityId: a.activityId,
+        activityName: a.activityName,
+        importedFloatDays: a.totalFloatDays,
+        computedFloatDays: r.totalFloatDays,
+        importedCritical: a.isCritical,
+        computedCritical: r.isCritical,
+      })
+    }
+  }
+  return out
+}
@@ -0,0 +1,336 @@
+/**
+ * Look-ahead schedule generator (3-week / 6-week).
+ *
+ * Replaces the superintendent's Friday spreadsheet: takes one schedule
+ * version, keeps the incomplete activities whose span intersects the next N
+ * weeks, and attaches what could stop each one from starting:
+ *   - open submittals — confirmed schedule links plus the open submittals of
+ *     the activity's features of work
+ *   - open RFIs — referencing one of the activity's spec sections, or sharing
+ *     at least two name words with the activity
+ *   - FOW readiness — computeFowReadiness() for every FOW tied to the activity
+ *
+ * An activity ties to a FOW when a linked submittal's spec section belongs to
+ * it, or when every word of the FOW name appears in the activity or WBS name.
+ * A FOW's submittals come from its persisted links when `fowLinks` is given,
+ * else from spec-section matching. Superseded submittals (dropped from the
+ * specs on regeneration) are left out.
+ */
+
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import type { RFIEntity } from '../chat/types'
+import { resolveEffectiveStatus, type SubmittalLifecycleStatus } from '../chat/submittal-lifecycle.ts'
+import { isSupersededItem } from '../chat/submittal-register-merge.ts'
+import {
+  computeFowReadiness,
+  groupInspectionsByFow,
+  groupSubmittalsByFowLinks,
+  groupSubmittalsByFowSpecSections,
+  normalizeSpecSectionForFow,
+  type FowEntity,
+  type FowSubmittalLink,
+} from '../graph/fow-readiness.ts'
+import type { ProjectInspection } from '../graph/inspections'
+import {
+  currentFinish,
+  currentStart,
+  type ScheduleActivity,
+  type ScheduleVersionSnapshot,
+  type ScheduleVersionSummary,
+} from './schedule-model.ts'
+import { filterScheduleActivities } from './schedule-query.ts'
+import {
+  activityNameTokens,
+  computeSubmittalScheduleRisk,
+  type SubmittalScheduleRiskLevel,
+} from './submittal-schedule-risk.ts'
+
+export const LOOKAHEAD_WEEK_OPTIONS = [3, 6] as const
+export type LookaheadWeeks = (typeof LOOKAHEAD_WEEK_OPTIONS)[number]
+
+export interface LookaheadWindow {
+  /** Monday the look-ahead starts. */
+  start: string
+  /** Sunday the look-ahead ends (inclusive). */
+  end: string
+  weeks: number
+}
+
+export type LookaheadReadiness = 'ready' | 'open_items' | 'blocked'
+
+export interface LookaheadSubmittal {
+  itemId: string | null
+  specSection: string | null
+  submittalItem: string
+  status: SubmittalLifecycleStatus
+  dueDate: string | null
+  riskLevel: SubmittalScheduleRiskLevel
+  /** How it was tied to the activity. */
+  via: 'schedule_link' | 'fow'
+}
+
+export interface LookaheadRfi {
+  id: string
+  label: string | null
+  title: string
+  dateIssued: string | null
+  via: 'spec_section' | 'name'
+}
+
+export interface LookaheadFow {
+  fowId: string
+  name: string
+  readinessPercent: number
+  approvedCount: number
+  totalCount: number
+  blockedCount: number
+  openHoldPointCount: number
+}
+
+export interface LookaheadActivity {
+  activity: ScheduleActivity
+  /** 1-based look-ahead week the activity starts in; 0 when it started before the window. */
+  startWeek: number
+  openSubmittals: LookaheadSubmittal[]
+  openRfis: LookaheadRfi[]
+  features: LookaheadFow[]
+  readiness: LookaheadReadiness
+}
+
+export interface Lookahead {
+  version: ScheduleVersionSummary
+  window: LookaheadWindow
+  activities: LookaheadActivity[]
+  summary: {
+    activityCount: number
+    ready: number
+    openItems: number
+    blocked: number
+    openSubmittalCount: number
+    openRfiCount: number
+  }
+}
+
+export interface LookaheadInput {
+  snapshot: ScheduleVersionSnapshot
+  /** YYYY-MM-DD the look-ahead is built on (usually a Friday). */
+  asOf: string
+  weeks: number
+  submittals?: SubmittalRegisterItem[]
+  rfis?: RFIEntity[]
+  fows?: FowEntity[]
+  /** Persisted submittal → FOW links (fow_submittal_links). */
+  fowLinks?: FowSubmittalLink[]
+  /** project_inspections — open hold points keep a FOW below 100%. */
+  inspections?: ProjectInspection[]
+}
+
+// ---------------------------------------------------------------------------
+// Window
+// ---------------------------------------------------------------------------
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Monday-aligned window of `weeks` weeks. Built Friday through Sunday it
+ * starts the coming Monday; built Monday through Thursday it starts this
+ * week's Monday.
+ */
+export function lookaheadWindow(asOf: string, weeks: number): LookaheadWindow {
+  const day = new Date(`${asOf.slice(0, 10)}T00:00:00Z`).getUTCDay() // 0 = Sunday
+  const offset = day === 0 ? 1 : day >= 5 ? 8 - day : 1 - day
+  const start = addDays(asOf, offset)
+  return { start, end: addDays(start, weeks * 7 - 1), weeks }
+}
+
+function weekOf(window: LookaheadWindow, date: string | null): number {
+  if (!date || date < window.start) return 0
+  const days = Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${window.start}T00:00:00Z`)) / 86_400_000)
+  return Math.min(window.weeks, Math.floor(days / 7) + 1)
+}
+
+// ---------------------------------------------------------------------------
+// Generator
+// ---------------------------------------------------------------------------
+
+const CLOSED_SUBMITTAL_STATUSES = new Set<SubmittalLifecycleStatus>(['approved', 'approved_as_noted', 'closed'])
+const BLOCKING_SUBMITTAL_STATUSES = new Set<SubmittalLifecycleStatus>(['revise_resubmit', 'rejected'])
+
+function submittalKey(item: SubmittalRegisterItem): string {
+  return item.persistedItemId ?? `${item.specSection ?? ''}|${item.submittalItem}`
+}
+
+/** True when every word of the FOW name appears in the activity or WBS name. */
+export function fowMatchesActivity(fow: FowEntity, activity: ScheduleActivity): boolean {
+  const fowTokens = activityNameTokens(fow.displayName)
+  if (fowTokens.size === 0) return false
+  const have = activityNameTokens(`${activity.activityName} ${activity.wbsName ?? ''}`)
+  for (const t of fowTokens) if (!have.has(t)) return false
+  return true
+}
+
+function rfiMatches(
+  rfi: RFIEntity,
+  specSections: Set<string>,
+  nameTokens: Set<string>
+): LookaheadRfi['via'] | null {
+  for (const ref of rfi.references) {
+    if (ref.refType === 'spec_section' && specSections.has(normalizeSpecSectionForFow(ref.ref))) {
+      return 'spec_section'
+    }
+  }
+  const rfiTokens = activityNameTokens(rfi.displayName)
+  let shared = 0
+  for (const t of rfiTokens) if (nameTokens.has(t)) shared++
+  return shared >= 2 ? 'name' : null
+}
+
+export function buildLookahead(input: LookaheadInput): Lookahead {
+  const { snapshot, asOf } = input
+  const submittals = (input.submittals ?? []).filter(item => !isSupersededItem(item))
+  const rfis = (input.rfis ?? []).filter(r => r.status === 'new')
+  const fows = input.fows ?? []
+  const window = lookaheadWindow(asOf, input.weeks)
+  const today = asOf.slice(0, 10)
+
+  const candidates = filterScheduleActivities(snapshot.activities, { from: window.start, to: window.end })
+    .filter(a => a.status !== 'complete')
+
+  const linkedByActivity = new Map<string, SubmittalRegisterItem[]>()
+  for (const item of submittals) {
+    const activityId = item.scheduleActivityLink?.activityId
+    if (!activityId) continue
+    if (!linkedByActivity.has(activityId)) linkedByActivity.set(activityId, [])
+    linkedByActivity.get(activityId)!.push(item)
+  }
+
+  const submittalsByFow = input.fowLinks
+    ? groupSubmittalsByFowLinks(fows, submittals, input.fowLinks)
+    : groupSubmittalsByFowSpecSections(fows, submittals)
+  const inspectionsByFow = groupInspectionsByFow(fows, input.inspections ?? [])
+  const fowSections = new Map(
+    fows.map(f => [f.id, new Set(f.specSections.map(normalizeSpecSectionForFow).filter(Boolean))])
+  )
+
+  const activities = candidates.map((activity): LookaheadActivity => {
+    const linked = linkedByActivity.get(activity.activityId) ?? []
+    const linkedSections = new Set(linked.map(i => normalizeSpecSectionForFow(i.specSection)).filter(Boolean))
+
+    const activityFows = fows.filter(f => {
+      const sections = fowSections.get(f.id)!
+      for (const s of linkedSections) if (sections.has(s)) return true
+      return fowMatchesActivity(f, activity)
+    })
+
+    const features = activityFows.map((f): LookaheadFow => {
+      const readiness = computeFowReadiness(f, submittalsByFow.get(f.id) ?? [], {
+        inspections: inspectionsByFow.get(f.id) ?? [],
+      })
+      return {
+        fowId: f.id,
+        name: f.displayName,
+        readinessPercent: readiness.readinessPercent,
+        approvedCount: readiness.approvedCount,
+        totalCount: readiness.totalCount,
+        blockedCount: readiness.blockedCount,
+        openHoldPointCount: readiness.openHoldPointCount,
+      }
+    })
+
+    const seen = new Set<string>()
+    const openSubmittals: LookaheadSubmittal[] = []
+    const addSubmittal = (item: SubmittalRegisterItem, via: LookaheadSubmittal['via']) => {
+      const key = submittalKey(item)
+      if (seen.has(key)) return
+      seen.add(key)
+      const status = resolveEffectiveStatus(item)
+      if (CLOSED_SUBMITTAL_STATUSES.has(status)) return
+      const risk = computeSubmittalScheduleRisk(
+        item,
+        via === 'schedule_link' ? activity : null,
+        { today }
+      )
+      openSubmittals.push({
+        itemId: item.persistedItemId ?? null,
+        specSection: item.specSection,
+        submittalItem: item.submittalItem,
+        status,
+        dueDate: item.lifecycleDueDate ?? null,
+        riskLevel: risk.level,
+        via,
+      })
+    }
+    for (const item of linked) addSubmittal(item, 'schedule_link')
+    for (const f of activityFows) for (const item of submittalsByFow.get(f.id) ?? []) addSubmittal(item, 'fow')
+
+    const specSections = new Set(linkedSections)
+    for (const f of activityFows) for (const s of fowSections.get(f.id)!) specSections.add(s)
+    const nameTokens = activityNameTokens(activity.activityName)
+    const openRfis: LookaheadRfi[] = []
+    for (const rfi of rfis) {
+      const via = rfiMatches(rfi, specSections, nameTokens)
+      if (!via) continue
+      openRfis.push({
+        id: rfi.id,
+        label: rfi.label,
+        title: rfi.displayName,
+        dateIssued: rfi.dateIssued,
+        via,
+      })
+    }
+
+    const blocked = openSubmittals.some(
+      s => BLOCKING_SUBMITTAL_STATUSES.has(s.status) || (s.via === 'schedule_link' && s.riskLevel === 'late')
+    )
+    const readiness: LookaheadReadiness = blocked
+      ? 'blocked'
+      : openSubmittals.length > 0 || openRfis.length > 0 || features.some(f => f.readinessPercent < 100)
+        ? 'open_items'
+        : 'ready'
+
+    const start = currentStart(activity)
+    return {
+      activity,
+      startWeek: weekOf(window, start),
+      openSubmittals,
+      openRfis,
+      features,
+      readiness,
+    }
+  })
+
+  const openSubmittalKeys = new Set<string>()
+  const openRfiIds = new Set<string>()
+  for (const a of activities) {
+    for (const s of a.openSubmittals) openSubmittalKeys.add(s.itemId ?? `${s.specSection}|${s.submittalItem}`)
+    for (const r of a.openRfis) openRfiIds.add(r.id)
+  }
+
+  return {
+    version: snapshot.version,
+    window,
+    activities,
+    summary: {
+      activityCount: activities.length,
+      ready: activities.filter(a => a.readiness === 'ready').length,
+      openItems: activities.filter(a => a.readiness === 'open_items').length,
+      blocked: activities.filter(a => a.readiness === 'blocked').length,
+      openSubmittalCount: openSubmittalKeys.size,
+      openRfiCount: openRfiIds.size,
+    },
+  }
+}
+
+/** Calendar days the activity runs inside the window — for bar rendering. */
+export function lookaheadSpan(window: LookaheadWindow, activity: ScheduleActivity): { offset: number; length: number } {
+  const start = currentStart(activity) ?? window.start
+  const finish = currentFinish(activity) ?? start
+  const from = start < window.start ? window.start : start
+  const to = finish > window.end ? window.end : finish
+  const day = (iso: string) => Math.round(Date.parse(`${iso}T00:00:00Z`) / 86_400_000)
+  return { offset: day(from) - day(window.start), length: Math.max(1, day(to) - day(from) + 1) }
+}
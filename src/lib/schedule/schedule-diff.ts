@@ -0,0 +1,239 @@
+/**
+ * Schedule version diff — "what slipped since the last update".
+ *
+ * Compares two schedule versions activity-by-activity, matched on
+ * activity_id (P6 task code / MSP UID), and reports:
+ *   - start / finish slips (current = actual when recorded, else early dates)
+ *   - float erosion (total float decreased)
+ *   - newly critical / no longer critical activities
+ *   - percent-complete changes
+ *   - added / removed activities
+ *   - added / removed / changed logic ties
+ *
+ * Slips are calendar days between dates — the versions may use different
+ * calendars, and calendar days are what the PE reports to the owner.
+ * Float deltas are in the schedule's own (working) days.
+ */
+
+import {
+  currentFinish,
+  currentStart,
+  daysBetween,
+  type ScheduleActivity,
+  type ScheduleTie,
+  type ScheduleVersionSnapshot,
+  type ScheduleVersionSummary,
+} from './schedule-model.ts'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScheduleActivityChange {
+  activityId: string
+  activityName: string
+  wbsCode: string | null
+  responsibleParty: string | null
+  startBefore: string | null
+  startAfter: string | null
+  finishBefore: string | null
+  finishAfter: string | null
+  /** Positive = later than the prior version. */
+  startSlipDays: number | null
+  finishSlipDays: number | null
+  floatBefore: number | null
+  floatAfter: number | null
+  /** after − before. Negative = float eroded. */
+  floatDeltaDays: number | null
+  wasCritical: boolean
+  isCritical: boolean
+  newlyCritical: boolean
+  noLongerCritical: boolean
+  percentBefore: number
+  percentAfter: number
+  nameChanged: boolean
+}
+
+export interface ScheduleTieChange {
+  predecessorActivityId: string
+  successorActivityId: string
+  before: { type: ScheduleTie['type']; lagDays: number }
+  after: { type: ScheduleTie['type']; lagDays: number }
+}
+
+export interface ScheduleDiffSummary {
+  matchedCount: number
+  changedCount: number
+  addedCount: number
+  removedCount: number
+  startSlipCount: number
+  finishSlipCount: number
+  finishGainCount: number
+  floatErodedCount: number
+  newlyCriticalCount: number
+  noLongerCriticalCount: number
+  progressedCount: number
+  tiesAddedCount: number
+  tiesRemovedCount: number
+  tiesChangedCount: number
+  /** Largest finish slip among matched activities (0 when nothing slipped). */
+  maxFinishSlipDays: number
+  /** Project finish (latest current finish) movement, calendar days. */
+  projectFinishBefore: string | null
+  projectFinishAfter: string | null
+  projectFinishSlipDays: number | null
+}
+
+export interface ScheduleDiff {
+  from: ScheduleVersionSummary
+  to: ScheduleVersionSummary
+  /** Matched activities with at least one reported change, worst finish slip first. */
+  changes: ScheduleActivityChange[]
+  added: ScheduleActivity[]
+  removed: ScheduleActivity[]
+  tiesAdded: ScheduleTie[]
+  tiesRemoved: ScheduleTie[]
+  tiesChanged: ScheduleTieChange[]
+  summary: ScheduleDiffSummary
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+function tieKey(t: ScheduleTie): string {
+  return `${t.predecessorActivityId}\u0000${t.successorActivityId}`
+}
+
+function latestDate(dates: Array<string | null>): string | null {
+  let latest: string | null = null
+  for (const d of dates) if (d && (latest === null || d > latest)) latest = d
+  return latest
+}
+
+export function compareActivities(
+  before: ScheduleActivity,
+  after: ScheduleActivity
+): ScheduleActivityChange {
+  const startBefore = currentStart(before)
+  const startAfter = currentStart(after)
+  const finishBefore = currentFinish(before)
+  const finishAfter = currentFinish(after)
+  const floatDeltaDays =
+    before.totalFloatDays !== null && after.totalFloatDays !== null
+      ? after.totalFloatDays - before.totalFloatDays
+      : null
+
+  return {
+    activityId: after.activityId,
+    activityName: after.activityName,
+    wbsCode: after.wbsCode,
+    responsibleParty: after.responsibleParty,
+    startBefore,
+    startAfter,
+    finishBefore,
+    finishAfter,
+    startSlipDays: daysBetween(startBefore, startAfter),
+    finishSlipDays: daysBetween(finishBefore, finishAfter),
+    floatBefore: before.totalFloatDays,
+    floatAfter: after.totalFloatDays,
+    floatDeltaDays,
+    wasCritical: before.isCritical,
+    isCritical: after.isCritical,
+    newlyCritical: !before.isCritical && after.isCritical,
+    noLongerCritical: before.isCritical && !after.isCritical,
+    percentBefore: before.percentComplete,
+    percentAfter: after.percentComplete,
+    nameChanged: before.activityName !== after.activityName,
+  }
+}
+
+export function hasReportableChange(c: ScheduleActivityChange): boolean {
+  return (
+    (c.startSlipDays ?? 0) !== 0 ||
+    (c.finishSlipDays ?? 0) !== 0 ||
+    (c.floatDeltaDays ?? 0) !== 0 ||
+    c.newlyCritical ||
+    c.noLongerCritical ||
+    c.percentBefore !== c.percentAfter ||
+    c.nameChanged
+  )
+}
+
+export function diffScheduleVersions(
+  from: ScheduleVersionSnapshot,
+  to: ScheduleVersionSnapshot
+): ScheduleDiff {
+  const beforeById = new Map(from.activities.map(a => [a.activityId, a]))
+  const afterById = new Map(to.activities.map(a => [a.activityId, a]))
+
+  const changes: ScheduleActivityChange[] = []
+  const added: ScheduleActivity[] = []
+  let matchedCount = 0
+
+  for (const after of to.activities) {
+    const before = beforeById.get(after.activityId)
+    if (!before) { added.push(after); continue }
+    matchedCount++
+    const change = compareActivities(before, after)
+    if (hasReportableChange(change)) changes.push(change)
+  }
+  const removed = from.activities.filter(a => !afterById.has(a.activityId))
+
+  changes.sort((a, b) =>
+    (b.finishSlipDays ?? 0) - (a.finishSlipDays ?? 0) ||
+    (a.floatDeltaDays ?? 0) - (b.floatDeltaDays ?? 0) ||
+    a.activityId.localeCompare(b.activityId)
+  )
+
+  const tiesBefore = new Map(from.ties.map(t => [tieKey(t), t]))
+  const tiesAfter = new Map(to.ties.map(t => [tieKey(t), t]))
+  const tiesAdded = to.ties.filter(t => !tiesBefore.has(tieKey(t)))
+  const tiesRemoved = from.ties.filter(t => !tiesAfter.has(tieKey(t)))
+  const tiesChanged: ScheduleTieChange[] = []
+  for (const t of to.ties) {
+    const prior = tiesBefore.get(tieKey(t))
+    if (prior && (prior.type !== t.type || prior.lagDays !== t.lagDays)) {
+      tiesChanged.push({
+        predecessorActivityId: t.predecessorActivityId,
+        successorActivityId: t.successorActivityId,
+        before: { type: prior.type, lagDays: prior.lagDays },
+        after: { type: t.type, lagDays: t.lagDays },
+      })
+    }
+  }
+
+  const projectFinishBefore = latestDate(from.activities.map(currentFinish))
+  const projectFinishAfter = latestDate(to.activities.map(currentFinish))
+
+  return {
+    from: from.version,
+    to: to.version,
+    changes,
+    added,
+    removed,
+    tiesAdded,
+    tiesRemoved,
+    tiesChanged,
+    summary: {
+      matchedCount,
+      changedCount: changes.length,
+      addedCount: added.length,
+      removedCount: removed.length,
+      startSlipCount: changes.filter(c => (c.startSlipDays ?? 0) > 0).length,
+      finishSlipCount: changes.filter(c => (c.finishSlipDays ?? 0) > 0).length,
+      finishGainCount: changes.filter(c => (c.finishSlipDays ?? 0) < 0).length,
+      floatErodedCount: changes.filter(c => (c.floatDeltaDays ?? 0) < 0).length,
+      newlyCriticalCount: changes.filter(c => c.newlyCritical).length,
+      noLongerCriticalCount: changes.filter(c => c.noLongerCritical).length,
+      progressedCount: changes.filter(c => c.percentAfter > c.percentBefore).length,
+      tiesAddedCount: tiesAdded.length,
+      tiesRemovedCount: tiesRemoved.length,
+      tiesChangedCount: tiesChanged.length,
+      maxFinishSlipDays: Math.max(0, ...changes.map(c => c.finishSlipDays ?? 0)),
+      projectFinishBefore,
+      projectFinishAfter,
+      projectFinishSlipDays: daysBetween(projectFinishBefore, projectFinishAfter),
+    },
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * In-memory shape of one persisted schedule version.
+ *
+ * schedule_activities / activity_predecessors rows are mapped into these
+ * camelCase records by schedule-read.ts. Ties are expressed by activity code
+ * (activity_id), not row uuid, so two versions can be compared directly.
+ */
+
+import type { ScheduleRelationshipType, ScheduleSourceFormat, ParsedActivityStatus } from './schedule-parser'
+
+export interface ScheduleVersionSummary {
+  id: string
+  versionNumber: number
+  versionDate: string
+  description: string | null
+  isBaseline: boolean
+  sourceFormat: ScheduleSourceFormat | null
+  sourceFileName: string | null
+  dataDate: string | null
+  activityCount: number
+  createdAt: string | null
+}
+
+export interface ScheduleActivity {
+  /** schedule_activities.id */
+  id: string
+  activityId: string
+  activityName: string
+  wbsCode: string | null
+  wbsName: string | null
+  earlyStart: string | null
+  earlyFinish: string | null
+  lateStart: string | null
+  lateFinish: string | null
+  actualStart: string | null
+  actualFinish: string | null
+  durationDays: number | null
+  totalFloatDays: number | null
+  percentComplete: number
+  isCritical: boolean
+  isMilestone: boolean
+  status: ParsedActivityStatus
+  responsibleParty: string | null
+  calendar: string | null
+}
+
+export interface ScheduleTie {
+  predecessorActivityId: string
+  successorActivityId: string
+  type: ScheduleRelationshipType
+  lagDays: number
+}
+
+export interface ScheduleVersionSnapshot {
+  version: ScheduleVersionSummary
+  activities: ScheduleActivity[]
+  ties: ScheduleTie[]
+}
+
+export interface ScheduleActivityRow {
+  id: string
+  activity_id: string
+  activity_name: string
+  wbs_code: string | null
+  early_start: string | null
+  early_finish: string | null
+  late_start: string | null
+  late_finish: string | null
+  actual_start: string | null
+  actual_finish: string | null
+  duration_days: number | null
+  total_float_days: number | null
+  percent_complete: number | null
+  is_critical: boolean | null
+  responsible_party: string | null
+  calendar: string | null
+  metadata: unknown
+}
+
+export interface ScheduleVersionRow {
+  id: string
+  version_number: number
+  version_date: string
+  description: string | null
+  is_baseline: boolean | null
+  source_format: string | null
+  source_file_name: string | null
+  data_date: string | null
+  activity_count: number
+  created_at: string | null
+}
+
+interface ScheduleActivityMetadata {
+  wbsName?: string | null
+  status?: ParsedActivityStatus
+  isMilestone?: boolean
+}
+
+export function rowToScheduleActivity(row: ScheduleActivityRow): ScheduleActivity {
+  const meta = (row.metadata ?? {}) as ScheduleActivityMetadata
+  const percentComplete = Number(row.percent_complete ?? 0)
+  const status: ParsedActivityStatus =
+    meta.status ??
+    (row.actual_finish || percentComplete >= 100 ? 'complete'
+      : row.actual_start || percentComplete > 0 ? 'in_progress'
+      : 'not_started')
+  return {
+    id: row.id,
+    activityId: row.activity_id,
+    activityName: row.activity_name,
+    wbsCode: row.wbs_code,
+    wbsName: meta.wbsName ?? null,
+    earlyStart: row.early_start,
+    earlyFinish: row.early_finish,
+    lateStart: row.late_start,
+    lateFinish: row.late_finish,
+    actualStart: row.actual_start,
+    actualFinish: row.actual_finish,
+    durationDays: row.duration_days,
+    totalFloatDays: row.total_float_days,
+    percentComplete,
+    isCritical: row.is_critical === true,
+    isMilestone: meta.isMilestone === true,
+    status,
+    responsibleParty: row.responsible_party,
+    calendar: row.calendar,
+  }
+}
+
+export function rowToScheduleVersion(row: ScheduleVersionRow): ScheduleVersionSummary {
+  return {
+    id: row.id,
+    versionNumber: row.version_number,
+    versionDate: row.version_date,
+    description: row.description,
+    isBaseline: row.is_baseline === true,
+    sourceFormat: (row.source_format as ScheduleSourceFormat | null) ?? null,
+    sourceFileName: row.source_file_name,
+    dataDate: row.data_date,
+    activityCount: row.activity_count,
+    createdAt: row.created_at,
+  }
+}
+
+/** Forecast/actual start: actual when recorded, else early. */
+export function currentStart(a: ScheduleActivity): string | null {
+  return a.actualStart ?? a.earlyStart
+}
+
+/** Forecast/actual finish: actual when recorded, else early. */
+export function currentFinish(a: ScheduleActivity): string | null {
+  return a.actualFinish ?? a.earlyFinish
+}
+
+/** Whole calendar days from a to b (b − a). Null when either is missing. */
+export function daysBetween(a: string | null, b: string | null): number | null {
+  if (!a || !b) return null
+  const ms = Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)
+  return Number.isFinite(ms) ? Math.round(ms / 86_400_000) : null
+}
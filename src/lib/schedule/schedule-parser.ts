@@ -0,0 +1,549 @@
+/**
+ * Schedule export parser — Primavera P6 XER and MS Project XML (MSPDI).
+ *
+ * Pure: no DB, no DOM. Takes the raw file text and returns activities with
+ * early/late/actual dates, float, WBS and logic ties in a format-neutral shape
+ * that schedule-persistence.ts writes into schedule_versions /
+ * schedule_activities / activity_predecessors.
+ *
+ * Unit conventions:
+ *   - Dates are ISO dates (YYYY-MM-DD). Times of day are dropped.
+ *   - Durations, float and lag are whole working days, converted from the
+ *     source's hours (P6) or tenths of minutes (MSP) using the activity's
+ *     calendar hours-per-day. Elapsed lags use 24h days.
+ *   - activityId is the user-facing, version-stable key: P6 task_code, MSP UID.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ScheduleSourceFormat = 'p6_xer' | 'msp_xml'
+
+export type ScheduleRelationshipType = 'FS' | 'SS' | 'FF' | 'SF'
+
+export const SCHEDULE_RELATIONSHIP_TYPES: ScheduleRelationshipType[] = ['FS', 'SS', 'FF', 'SF']
+
+export type ParsedActivityStatus = 'not_started' | 'in_progress' | 'complete'
+
+export interface ParsedScheduleActivity {
+  activityId: string
+  activityName: string
+  wbsCode: string | null
+  wbsName: string | null
+  earlyStart: string | null
+  earlyFinish: string | null
+  lateStart: string | null
+  lateFinish: string | null
+  actualStart: string | null
+  actualFinish: string | null
+  durationDays: number | null
+  totalFloatDays: number | null
+  percentComplete: number
+  isCritical: boolean
+  isMilestone: boolean
+  status: ParsedActivityStatus
+  responsibleParty: string | null
+  calendar: string | null
+  hoursPerDay: number
+  /** Source-system row key (P6 task_id / MSP UID). Kept for traceability. */
+  sourceKey: string
+}
+
+export interface ParsedScheduleRelationship {
+  predecessorActivityId: string
+  successorActivityId: string
+  type: ScheduleRelationshipType
+  lagDays: number
+}
+
+export interface ParsedSchedule {
+  format: ScheduleSourceFormat
+  projectName: string | null
+  dataDate: string | null
+  activities: ParsedScheduleActivity[]
+  relationships: ParsedScheduleRelationship[]
+  warnings: string[]
+}
+
+export type ParseScheduleResult =
+  | { ok: true; schedule: ParsedSchedule }
+  | { ok: false; error: string }
+
+const DEFAULT_HOURS_PER_DAY = 8
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/** "2024-01-15 08:00", "2024-01-15T08:00:00" → "2024-01-15". Null on junk. */
+export function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const m = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!m) return null
+  return `${m[1]}-${m[2]}-${m[3]}`
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function hoursToDays(hours: number | null, hoursPerDay: number): number | null {
+  if (hours === null) return null
+  return Math.round(hours / (hoursPerDay > 0 ? hoursPerDay : DEFAULT_HOURS_PER_DAY))
+}
+
+function clampPercent(value: number | null): number {
+  if (value === null) return 0
+  return Math.min(100, Math.max(0, Math.round(value * 100) / 100))
+}
+
+function cleanText(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null
+  const s = value.trim()
+  return s || null
+}
+
+// Milestones carry a single date; keep the DB's early_start <= early_finish
+// check satisfiable when a source exports them out of order.
+function orderDates(start: string | null, finish: string | null): [string | null, string | null] {
+  if (start && finish && start > finish) return [start, start]
+  return [start, finish]
+}
+
+export function detectScheduleFormat(
+  fileName: string,
+  text: string
+): ScheduleSourceFormat | null {
+  const head = text.slice(0, 4000)
+  if (/^﻿?ERMHDR/.test(head) || /(^|\n)%T\t/.test(head)) return 'p6_xer'
+  if (/<Project[\s>]/.test(head) && (/schemas\.microsoft\.com\/project/.test(head) || /<Tasks>/.test(text))) {
+    return 'msp_xml'
+  }
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.xer')) return 'p6_xer'
+  if (lower.endsWith('.xml')) return 'msp_xml'
+  return null
+}
+
+export function isScheduleExportFileName(fileName: string): boolean {
+  return /\.(xer|xml)$/i.test(fileName)
+}
+
+export function parseScheduleFile(fileName: string, text: string): ParseScheduleResult {
+  const format = detectScheduleFormat(fileName, text)
+  if (format === null) {
+    return { ok: false, error: 'Unrecognized schedule format. Upload a Primavera P6 .xer or MS Project .xml export.' }
+  }
+  const schedule = format === 'p6_xer' ? parseP6Xer(text) : parseMsProjectXml(text)
+  if (schedule.activities.length === 0) {
+    return { ok: false, error: `No activities found in ${format === 'p6_xer' ? 'XER' : 'MS Project XML'} file.` }
+  }
+  return { ok: true, schedule }
+}
+
+// ---------------------------------------------------------------------------
+// Primavera P6 XER
+//
+// Tab-delimited: `%T <table>` starts a table, `%F` lists field names, `%R`
+// rows follow, `%E` ends the file. Tables used: PROJECT, CALENDAR, PROJWBS,
+// TASK, TASKPRED, and optionally ACTVTYPE/ACTVCODE/TASKACTV for a
+// responsibility activity code.
+// ---------------------------------------------------------------------------
+
+type XerRow = Record<string, string>
+
+export function parseXerTables(text: string): Map<string, XerRow[]> {
+  const tables = new Map<string, XerRow[]>()
+  let current: string | null = null
+  let fields: string[] = []
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (!rawLine) continue
+    const cells = rawLine.split('\t')
+    const marker = cells[0]
+    if (marker === '%T') {
+      current = cells[1]?.trim() ?? null
+      fields = []
+      if (current && !tables.has(current)) tables.set(current, [])
+    } else if (marker === '%F') {
+      fields = cells.slice(1).map(f => f.trim())
+    } else if (marker === '%R' && current) {
+      const row: XerRow = {}
+      fields.forEach((field, i) => { row[field] = cells[i + 1] ?? '' })
+      tables.get(current)!.push(row)
+    } else if (marker === '%E') {
+      break
+    }
+  }
+  return tables
+}
+
+const P6_RELATIONSHIP_TYPES: Record<string, ScheduleRelationshipType> = {
+  PR_FS: 'FS',
+  PR_SS: 'SS',
+  PR_FF: 'FF',
+  PR_SF: 'SF',
+}
+
+const RESPONSIBILITY_CODE_PATTERN = /responsib|subcontract|\bsub\b|trade|contractor/i
+
+export function parseP6Xer(text: string): ParsedSchedule {
+  const tables = parseXerTables(text)
+  const warnings: string[] = []
+
+  const projects = tables.get('PROJECT') ?? []
+  if (projects.length > 1) {
+    warnings.push(`XER contains ${projects.length} projects; all activities were imported into one version.`)
+  }
+  const project = projects[0]
+
+  const calendars = new Map<string, { name: string | null; hoursPerDay: number }>()
+  for (const c of tables.get('CALENDAR') ?? []) {
+    const hours = toNumber(c.day_hr_cnt)
+    calendars.set(c.clndr_id, {
+      name: cleanText(c.clndr_name),
+      hoursPerDay: hours && hours > 0 ? hours : DEFAULT_HOURS_PER_DAY,
+    })
+  }
+
+  // WBS path: short names from the top non-project node down, joined by '.'.
+  const wbsRows = new Map<string, XerRow>()
+  for (const w of tables.get('PROJWBS') ?? []) wbsRows.set(w.wbs_id, w)
+  const wbsCodeCache = new Map<string, string | null>()
+  function wbsCode(wbsId: string | undefined): string | null {
+    if (!wbsId) return null
+    if (wbsCodeCache.has(wbsId)) return wbsCodeCache.get(wbsId)!
+    const parts: string[] = []
+    const seen = new Set<string>()
+    let cursor = wbsRows.get(wbsId)
+    while (cursor && !seen.has(cursor.wbs_id) && cursor.proj_node_flag !== 'Y') {
+      seen.add(cursor.wbs_id)
+      parts.unshift(cursor.wbs_short_name?.trim() || cursor.wbs_id)
+      cursor = wbsRows.get(cursor.parent_wbs_id)
+    }
+    const code = parts.length > 0 ? parts.join('.') : null
+    wbsCodeCache.set(wbsId, code)
+    return code
+  }
+
+  // Responsibility: first activity code type whose name looks like a
+  // responsible-party dimension (Responsibility, Subcontractor, Trade...).
+  const responsibleByTask = new Map<string, string>()
+  const codeType = (tables.get('ACTVTYPE') ?? []).find(t => RESPONSIBILITY_CODE_PATTERN.test(t.actv_code_type ?? ''))
+  if (codeType) {
+    const codeNames = new Map<string, string>()
+    for (const c of tables.get('ACTVCODE') ?? []) {
+      if (c.actv_code_type_id !== codeType.actv_code_type_id) continue
+      const label = cleanText(c.actv_code_name) ?? cleanText(c.short_name)
+      if (label) codeNames.set(c.actv_code_id, label)
+    }
+    for (const ta of tables.get('TASKACTV') ?? []) {
+      const label = codeNames.get(ta.actv_code_id)
+      if (label && !responsibleByTask.has(ta.task_id)) responsibleByTask.set(ta.task_id, label)
+    }
+  }
+
+  const activities: ParsedScheduleActivity[] = []
+  const codeByTaskId = new Map<string, string>()
+  const hoursByTaskId = new Map<string, number>()
+  const seenCodes = new Set<string>()
+  let skippedWbsSummaries = 0
+
+  for (const t of tables.get('TASK') ?? []) {
+    if (t.task_type === 'TT_WBS') { skippedWbsSummaries++; continue }
+    const activityId = cleanText(t.task_code) ?? cleanText(t.task_id)
+    if (!activityId) continue
+    if (seenCodes.has(activityId)) {
+      warnings.push(`Duplicate activity ID "${activityId}" skipped.`)
+      continue
+    }
+    seenCodes.add(activityId)
+
+    const calendar = calendars.get(t.clndr_id)
+    const hoursPerDay = calendar?.hoursPerDay ?? DEFAULT_HOURS_PER_DAY
+    const status: ParsedActivityStatus =
+      t.status_code === 'TK_Complete' ? 'complete'
+      : t.status_code === 'TK_Active' ? 'in_progress'
+      : 'not_started'
+    const totalFloatDays = hoursToDays(toNumber(t.total_float_hr_cnt), hoursPerDay)
+    const percent = toNumber(t.phys_complete_pct) ?? (status === 'complete' ? 100 : null)
+
+    const [earlyStart, earlyFinish] = orderDates(
+      toIsoDate(t.early_start_date) ?? toIsoDate(t.act_start_date),
+      toIsoDate(t.early_end_date) ?? toIsoDate(t.act_end_date),
+    )
+    const [lateStart, lateFinish] = orderDates(toIsoDate(t.late_start_date), toIsoDate(t.late_end_date))
+
+    const wbs = wbsRows.get(t.wbs_id)
+    activities.push({
+      activityId,
+      activityName: cleanText(t.task_name) ?? activityId,
+      wbsCode: wbsCode(t.wbs_id),
+      wbsName: cleanText(wbs?.wbs_name),
+      earlyStart,
+      earlyFinish,
+      lateStart,
+      lateFinish,
+      actualStart: toIsoDate(t.act_start_date),
+      actualFinish: toIsoDate(t.act_end_date),
+      durationDays: hoursToDays(toNumber(t.target_drtn_hr_cnt), hoursPerDay),
+      totalFloatDays,
+      percentComplete: clampPercent(percent),
+      isCritical: t.driving_path_flag === 'Y' || (status !== 'complete' && totalFloatDays !== null && totalFloatDays <= 0),
+      isMilestone: t.task_type === 'TT_Mile' || t.task_type === 'TT_FinMile',
+      status,
+      responsibleParty: responsibleByTask.get(t.task_id) ?? null,
+      calendar: calendar?.name ?? null,
+      hoursPerDay,
+      sourceKey: t.task_id,
+    })
+    codeByTaskId.set(t.task_id, activityId)
+    hoursByTaskId.set(t.task_id, hoursPerDay)
+  }
+  if (skippedWbsSummaries > 0) {
+    warnings.push(`${skippedWbsSummaries} WBS summary task(s) skipped.`)
+  }
+
+  const relationships: ParsedScheduleRelationship[] = []
+  let unresolvedTies = 0
+  for (const p of tables.get('TASKPRED') ?? []) {
+    const successor = codeByTaskId.get(p.task_id)
+    const predecessor = codeByTaskId.get(p.pred_task_id)
+    const type = P6_RELATIONSHIP_TYPES[p.pred_type]
+    if (!successor || !predecessor || !type) { unresolvedTies++; continue }
+    relationships.push({
+      predecessorActivityId: predecessor,
+      successorActivityId: successor,
+      type,
+      lagDays: hoursToDays(toNumber(p.lag_hr_cnt), hoursByTaskId.get(p.task_id) ?? DEFAULT_HOURS_PER_DAY) ?? 0,
+    })
+  }
+  if (unresolvedTies > 0) {
+    warnings.push(`${unresolvedTies} logic tie(s) reference activities outside this file and were skipped.`)
+  }
+
+  return {
+    format: 'p6_xer',
+    projectName: cleanText(project?.proj_short_name) ?? null,
+    dataDate: toIsoDate(project?.last_recalc_date) ?? toIsoDate(project?.next_data_date),
+    activities,
+    relationships,
+    warnings,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MS Project XML (MSPDI)
+//
+// Flat enough to read without a DOM: each <Task> is a block of simple child
+// elements plus nested <PredecessorLink>, <ExtendedAttribute>, <Baseline> and
+// <TimephasedData> blocks that are stripped before the child fields are read.
+// Durations are ISO-8601 (PT40H0M0S); lag and slack are tenths of minutes.
+// ---------------------------------------------------------------------------
+
+const MSP_RELATIONSHIP_TYPES: Record<string, ScheduleRelationshipType> = {
+  '0': 'FF',
+  '1': 'FS',
+  '2': 'SF',
+  '3': 'SS',
+}
+
+// LagFormat codes that are elapsed (24h) units; 19/20 are percent lags.
+const MSP_ELAPSED_LAG_FORMATS = new Set(['4', '6', '8', '10', '12', '36', '38', '40', '42', '44'])
+const MSP_PERCENT_LAG_FORMATS = new Set(['19', '20', '51', '52'])
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const out: string[] = []
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')
+  let m: RegExpExecArray | null
+  while ((m = re.exec(xml)) !== null) out.push(m[1])
+  return out
+}
+
+function stripBlocks(xml: string, tags: string[]): string {
+  let out = xml
+  for (const tag of tags) {
+    out = out.replace(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'g'), '')
+  }
+  return out
+}
+
+function xmlField(xml: string, tag: string): string | null {
+  const m = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))
+  return m ? cleanText(decodeXml(m[1])) : null
+}
+
+/** ISO-8601 duration (PT40H0M0S, P2DT4H, -PT8H) → hours. */
+export function parseIsoDurationHours(value: string | null | undefined): number | null {
+  if (!value) return null
+  const m = value.trim().match(/^(-)?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/)
+  if (!m) return null
+  const hours =
+    Number(m[2] ?? 0) * 24 +
+    Number(m[3] ?? 0) +
+    Number(m[4] ?? 0) / 60 +
+    Number(m[5] ?? 0) / 3600
+  return m[1] ? -hours : hours
+}
+
+const MSP_NESTED_TASK_BLOCKS = ['PredecessorLink', 'ExtendedAttribute', 'Baseline', 'TimephasedData']
+const MSP_NESTED_PROJECT_BLOCKS = [
+  'Tasks', 'Resources', 'Assignments', 'Calendars',
+  'ExtendedAttributes', 'OutlineCodes', 'WBSMasks',
+]
+
+export function parseMsProjectXml(text: string): ParsedSchedule {
+  const warnings: string[] = []
+  const header = stripBlocks(text, MSP_NESTED_PROJECT_BLOCKS)
+  const minutesPerDay = toNumber(xmlField(header, 'MinutesPerDay')) ?? DEFAULT_HOURS_PER_DAY * 60
+  const hoursPerDay = minutesPerDay / 60
+
+  const calendarNames = new Map<string, string>()
+  const calendarsXml = xmlBlocks(text, 'Calendars')[0] ?? ''
+  for (const cal of xmlBlocks(calendarsXml, 'Calendar')) {
+    const flat = stripBlocks(cal, ['WeekDays', 'Exceptions', 'WorkWeeks'])
+    const uid = xmlField(flat, 'UID')
+    const name = xmlField(flat, 'Name')
+    if (uid && name) calendarNames.set(uid, name)
+  }
+  const defaultCalendar = calendarNames.get(xmlField(header, 'CalendarUID') ?? '') ?? null
+
+  const tasksXml = xmlBlocks(text, 'Tasks')[0] ?? ''
+  const taskBlocks = xmlBlocks(tasksXml, 'Task')
+
+  // Summary tasks become WBS names for their children (keyed by outline number).
+  const summaryNames = new Map<string, string>()
+  for (const block of taskBlocks) {
+    const flat = stripBlocks(block, MSP_NESTED_TASK_BLOCKS)
+    if (xmlField(flat, 'Summary') === '1') {
+      const outline = xmlField(flat, 'OutlineNumber')
+      const name = xmlField(flat, 'Name')
+      if (outline && name) summaryNames.set(outline, name)
+    }
+  }
+
+  const activities: ParsedScheduleActivity[] = []
+  const pendingLinks: Array<{ successor: string; block: string }> = []
+  const uidToActivity = new Map<string, ParsedScheduleActivity>()
+  let skippedSummaries = 0
+
+  for (const block of taskBlocks) {
+    const flat = stripBlocks(block, MSP_NESTED_TASK_BLOCKS)
+    const uid = xmlField(flat, 'UID')
+    const name = xmlField(flat, 'Name')
+    if (!uid || !name || xmlField(flat, 'IsNull') === '1') continue
+    if (xmlField(flat, 'Summary') === '1') { skippedSummaries++; continue }
+    if (uidToActivity.has(uid)) {
+      warnings.push(`Duplicate task UID "${uid}" skipped.`)
+      continue
+    }
+
+    const percent = toNumber(xmlField(flat, 'PercentComplete'))
+    const actualStart = toIsoDate(xmlField(flat, 'ActualStart'))
+    const actualFinish = toIsoDate(xmlField(flat, 'ActualFinish'))
+    const status: ParsedActivityStatus =
+      actualFinish || (percent ?? 0) >= 100 ? 'complete'
+      : actualStart || (percent ?? 0) > 0 ? 'in_progress'
+      : 'not_started'
+    const slackTenthsMin = toNumber(xmlField(flat, 'TotalSlack'))
+    const totalFloatDays = slackTenthsMin === null ? null : Math.round(slackTenthsMin / 10 / minutesPerDay)
+
+    const [earlyStart, earlyFinish] = orderDates(
+      toIsoDate(xmlField(flat, 'EarlyStart')) ?? toIsoDate(xmlField(flat, 'Start')),
+      toIsoDate(xmlField(flat, 'EarlyFinish')) ?? toIsoDate(xmlField(flat, 'Finish')),
+    )
+    const [lateStart, lateFinish] = orderDates(
+      toIsoDate(xmlField(flat, 'LateStart')),
+      toIsoDate(xmlField(flat, 'LateFinish')),
+    )
+
+    const outline = xmlField(flat, 'OutlineNumber')
+    const parentOutline = outline && outline.includes('.') ? outline.slice(0, outline.lastIndexOf('.')) : null
+    const calendarUid = xmlField(flat, 'CalendarUID')
+
+    const activity: ParsedScheduleActivity = {
+      activityId: uid,
+      activityName: name,
+      wbsCode: xmlField(flat, 'WBS') ?? outline,
+      wbsName: parentOutline ? summaryNames.get(parentOutline) ?? null : null,
+      earlyStart,
+      earlyFinish,
+      lateStart,
+      lateFinish,
+      actualStart,
+      actualFinish,
+      durationDays: hoursToDays(parseIsoDurationHours(xmlField(flat, 'Duration')), hoursPerDay),
+      totalFloatDays,
+      percentComplete: clampPercent(percent),
+      isCritical: xmlField(flat, 'Critical') === '1',
+      isMilestone: xmlField(flat, 'Milestone') === '1',
+      status,
+      responsibleParty: xmlField(flat, 'Contact'),
+      calendar: (calendarUid && calendarUid !== '-1' ? calendarNames.get(calendarUid) : null) ?? defaultCalendar,
+      hoursPerDay,
+      sourceKey: uid,
+    }
+    activities.push(activity)
+    uidToActivity.set(uid, activity)
+    for (const link of xmlBlocks(block, 'PredecessorLink')) pendingLinks.push({ successor: uid, block: link })
+  }
+  if (skippedSummaries > 0) {
+    warnings.push(`${skippedSummaries} summary task(s) skipped.`)
+  }
+
+  const relationships: ParsedScheduleRelationship[] = []
+  let unresolvedTies = 0
+  let percentLags = 0
+  for (const { successor, block } of pendingLinks) {
+    const predecessorUid = xmlField(block, 'PredecessorUID')
+    const type = MSP_RELATIONSHIP_TYPES[xmlField(block, 'Type') ?? '1']
+    if (!predecessorUid || !uidToActivity.has(predecessorUid) || !type) { unresolvedTies++; continue }
+
+    const lagFormat = xmlField(block, 'LagFormat') ?? '7'
+    const lagTenthsMin = toNumber(xmlField(block, 'LinkLag')) ?? 0
+    let lagDays = 0
+    if (MSP_PERCENT_LAG_FORMATS.has(lagFormat)) {
+      if (lagTenthsMin !== 0) percentLags++
+    } else {
+      const minutesPerLagDay = MSP_ELAPSED_LAG_FORMATS.has(lagFormat) ? 1440 : minutesPerDay
+      lagDays = Math.round(lagTenthsMin / 10 / minutesPerLagDay)
+    }
+
+    relationships.push({
+      predecessorActivityId: predecessorUid,
+      successorActivityId: successor,
+      type,
+      lagDays,
+    })
+  }
+  if (unresolvedTies > 0) {
+    warnings.push(`${unresolvedTies} logic tie(s) reference summary or missing tasks and were skipped.`)
+  }
+  if (percentLags > 0) {
+    warnings.push(`${percentLags} percent-based lag(s) imported as zero lag.`)
+  }
+
+  return {
+    format: 'msp_xml',
+    projectName: xmlField(header, 'Title') ?? xmlField(header, 'Name'),
+    dataDate: toIsoDate(xmlField(header, 'StatusDate')) ?? toIsoDate(xmlField(header, 'CurrentDate')),
+    activities,
+    relationships,
+    warnings,
+  }
+}
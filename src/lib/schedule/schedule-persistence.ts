@@ -0,0 +1,186 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '../db/supabase/types'
+import type { ParsedSchedule, ParsedScheduleActivity } from './schedule-parser'
+
+type ScheduleVersionInsert = Database['public']['Tables']['schedule_versions']['Insert']
+type ScheduleActivityInsert = Database['public']['Tables']['schedule_activities']['Insert']
+type ActivityPredecessorInsert = Database['public']['Tables']['activity_predecessors']['Insert']
+
+// Keeps each insert payload well under PostgREST's request size limit for
+// multi-thousand-activity P6 exports.
+const INSERT_BATCH_SIZE = 500
+
+export interface PersistScheduleVersionOptions {
+  projectId: string
+  schedule: ParsedSchedule
+  sourceFileName: string
+  description?: string | null
+  isBaseline?: boolean
+  createdByUserId?: string | null
+}
+
+export interface PersistScheduleVersionOutcome {
+  status: 'completed' | 'failed'
+  versionId: string | null
+  versionNumber: number | null
+  activitiesWritten: number
+  relationshipsWritten: number
+  error?: string
+}
+
+export function buildScheduleActivityRow(
+  projectId: string,
+  versionId: string,
+  activity: ParsedScheduleActivity
+): ScheduleActivityInsert {
+  return {
+    project_id: projectId,
+    version_id: versionId,
+    activity_id: activity.activityId,
+    activity_name: activity.activityName,
+    early_start: activity.earlyStart,
+    early_finish: activity.earlyFinish,
+    late_start: activity.lateStart,
+    late_finish: activity.lateFinish,
+    actual_start: activity.actualStart,
+    actual_finish: activity.actualFinish,
+    duration_days: activity.durationDays,
+    percent_complete: activity.percentComplete,
+    is_critical: activity.isCritical,
+    total_float_days: activity.totalFloatDays,
+    wbs_code: activity.wbsCode,
+    responsible_party: activity.responsibleParty,
+    calendar: activity.calendar,
+    metadata: {
+      sourceKey: activity.sourceKey,
+      wbsName: activity.wbsName,
+      status: activity.status,
+      isMilestone: activity.isMilestone,
+      hoursPerDay: activity.hoursPerDay,
+    } as Json,
+  }
+}
+
+/**
+ * Write one uploaded schedule as a new schedule_versions row plus its
+ * activities and logic ties. Version numbers are allocated max + 1 per
+ * project. Prior versions are never modified — they are the comparison base
+ * for slip reporting.
+ *
+ * Not transactional (PostgREST); on any failure after the version row is
+ * created, the partial version is deleted so a retry starts clean.
+ */
+export async function persistScheduleVersion(
+  supabase: SupabaseClient<Database>,
+  opts: PersistScheduleVersionOptions
+): Promise<PersistScheduleVersionOutcome> {
+  const { projectId, schedule } = opts
+
+  const latest = await supabase
+    .from('schedule_versions')
+    .select('version_number')
+    .eq('project_id', projectId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (latest.error) {
+    return failed(`schedule_versions lookup failed: ${latest.error.message}`)
+  }
+  const versionNumber = (latest.data?.version_number ?? 0) + 1
+
+  const versionRow: ScheduleVersionInsert = {
+    project_id: projectId,
+    version_number: versionNumber,
+    version_date: schedule.dataDate ?? new Date().toISOString().slice(0, 10),
+    description: opts.description ?? schedule.projectName ?? opts.sourceFileName,
+    is_baseline: opts.isBaseline ?? false,
+    source_format: schedule.format,
+    source_file_name: opts.sourceFileName,
+    data_date: schedule.dataDate,
+    activity_count: 0,
+    created_by: opts.createdByUserId ?? null,
+  }
+  const insertVersion = await supabase
+    .from('schedule_versions')
+    .insert(versionRow)
+    .select('id')
+    .single()
+  if (insertVersion.error || !insertVersion.data?.id) {
+    return failed(`schedule_versions insert failed: ${insertVersion.error?.message ?? 'no row returned'}`)
+  }
+  const versionId = insertVersion.data.id as string
+
+  try {
+    const uuidByActivityId = new Map<string, string>()
+    for (let i = 0; i < schedule.activities.length; i += INSERT_BATCH_SIZE) {
+      const batch = schedule.activities
+        .slice(i, i + INSERT_BATCH_SIZE)
+        .map(a => buildScheduleActivityRow(projectId, versionId, a))
+      const insertActivities = await supabase
+        .from('schedule_activities')
+        .insert(batch)
+        .select('id, activity_id')
+      if (insertActivities.error) {
+        throw new Error(`schedule_activities insert failed: ${insertActivities.error.message}`)
+      }
+      for (const row of insertActivities.data ?? []) {
+        uuidByActivityId.set(row.activity_id, row.id)
+      }
+    }
+
+    const predecessorRows: ActivityPredecessorInsert[] = []
+    for (const rel of schedule.relationships) {
+      const activityUuid = uuidByActivityId.get(rel.successorActivityId)
+      const predecessorUuid = uuidByActivityId.get(rel.predecessorActivityId)
+      if (!activityUuid || !predecessorUuid) continue
+      predecessorRows.push({
+        activity_id: activityUuid,
+        predecessor_id: predecessorUuid,
+        relationship_type: rel.type,
+        lag_days: rel.lagDays,
+      })
+    }
+    for (let i = 0; i < predecessorRows.length; i += INSERT_BATCH_SIZE) {
+      const insertTies = await supabase
+        .from('activity_predecessors')
+        .insert(predecessorRows.slice(i, i + INSERT_BATCH_SIZE))
+      if (insertTies.error) {
+        throw new Error(`activity_predecessors insert failed: ${insertTies.error.message}`)
+      }
+    }
+
+    const updateVersion = await supabase
+      .from('schedule_versions')
+      .update({ activity_count: uuidByActivityId.size })
+      .eq('id', versionId)
+    if (updateVersion.error) {
+      throw new Error(`schedule_versions update failed: ${updateVersion.error.message}`)
+    }
+
+    return {
+      status: 'completed',
+      versionId,
+      versionNumber,
+      activitiesWritten: uuidByActivityId.size,
+      relationshipsWritten: predecessorRows.length,
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.warn(`[SchedulePersistence] ${message} — removing partial version ${versionId}`)
+    // activity_predecessors cascade from schedule_activities.
+    await supabase.from('schedule_activities').delete().eq('version_id', versionId)
+    await supabase.from('schedule_versions').delete().eq('id', versionId)
+    return failed(message)
+  }
+}
+
+function failed(error: string): PersistScheduleVersionOutcome {
+  return {
+    status: 'failed',
+    versionId: null,
+    versionNumber: null,
+    activitiesWritten: 0,
+    relationshipsWritten: 0,
+    error,
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Schedule activity query — filter a schedule version snapshot and format the
+ * result for the chat agent (queryScheduleActivities tool).
+ *
+ * Filters combine with AND: name / activity code text, WBS (code prefix or
+ * name), date window (activity span overlaps [from, to] using actual dates
+ * where recorded), critical flag, responsible party and status. Each hit
+ * carries its logic ties and the submittals confirmed against it
+ * (SubmittalRegisterItem.scheduleActivityLink).
+ */
+
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import { resolveEffectiveStatus, type SubmittalLifecycleStatus } from '../chat/submittal-lifecycle.ts'
+import {
+  currentFinish,
+  currentStart,
+  type ScheduleActivity,
+  type ScheduleTie,
+  type ScheduleVersionSnapshot,
+  type ScheduleVersionSummary,
+} from './schedule-model.ts'
+import type { ParsedActivityStatus, ScheduleRelationshipType } from './schedule-parser'
+import {
+  activityNameTokens,
+  computeSubmittalScheduleRisk,
+  type SubmittalScheduleRiskLevel,
+} from './submittal-schedule-risk.ts'
+
+export const DEFAULT_SCHEDULE_QUERY_LIMIT = 25
+export const MAX_SCHEDULE_QUERY_LIMIT = 100
+
+export interface ScheduleActivityQuery {
+  /** Activity code or words from the activity name. */
+  text?: string | null
+  /** WBS code prefix or words from the WBS name. */
+  wbs?: string | null
+  /** YYYY-MM-DD — activity must still be running on/after this date. */
+  from?: string | null
+  /** YYYY-MM-DD — activity must start on/before this date. */
+  to?: string | null
+  criticalOnly?: boolean
+  responsibleParty?: string | null
+  status?: ParsedActivityStatus | null
+  limit?: number
+}
+
+export interface ScheduleActivityLogicLink {
+  activityId: string
+  activityName: string | null
+  type: ScheduleRelationshipType
+  lagDays: number
+}
+
+export interface ScheduleActivityLinkedSubmittal {
+  itemId: string | null
+  specSection: string | null
+  submittalItem: string
+  status: SubmittalLifecycleStatus
+  riskLevel: SubmittalScheduleRiskLevel
+  projectedReadyDate: string | null
+}
+
+export interface ScheduleActivityQueryHit {
+  activity: ScheduleActivity
+  predecessors: ScheduleActivityLogicLink[]
+  successors: ScheduleActivityLogicLink[]
+  linkedSubmittals: ScheduleActivityLinkedSubmittal[]
+}
+
+export interface ScheduleActivityQueryResult {
+  version: ScheduleVersionSummary
+  query: ScheduleActivityQuery
+  totalMatches: number
+  hits: ScheduleActivityQueryHit[]
+}
+
+function matchesText(a: ScheduleActivity, text: string): boolean {
+  const needle = text.trim().toLowerCase()
+  if (!needle) return true
+  if (a.activityId.toLowerCase() === needle) return true
+  if (a.activityName.toLowerCase().includes(needle)) return true
+  const wanted = activityNameTokens(needle)
+  if (wanted.size === 0) return false
+  const have = activityNameTokens(`${a.activityId} ${a.activityName}`)
+  for (const t of wanted) if (!have.has(t)) return false
+  return true
+}
+
+function matchesWbs(a: ScheduleActivity, wbs: string): boolean {
+  const needle = wbs.trim().toLowerCase()
+  if (!needle) return true
+  if (a.wbsCode && a.wbsCode.toLowerCase().startsWith(needle)) return true
+  return !!a.wbsName && a.wbsName.toLowerCase().includes(needle)
+}
+
+function matchesWindow(a: ScheduleActivity, from: string | null | undefined, to: string | null | undefined): boolean {
+  if (!from && !to) return true
+  const start = currentStart(a)
+  const finish = currentFinish(a) ?? start
+  if (!start) return false
+  if (from && finish && finish < from) return false
+  if (to && start > to) return false
+  return true
+}
+
+export function filterScheduleActivities(
+  activities: ScheduleActivity[],
+  query: ScheduleActivityQuery
+): ScheduleActivity[] {
+  const party = query.responsibleParty?.trim().toLowerCase()
+  return activities
+    .filter(a =>
+      (!query.text || matchesText(a, query.text)) &&
+      (!query.wbs || matchesWbs(a, query.wbs)) &&
+      matchesWindow(a, query.from, query.to) &&
+      (!query.criticalOnly || a.isCritical) &&
+      (!party || (a.responsibleParty ?? '').toLowerCase().includes(party)) &&
+      (!query.status || a.status === query.status)
+    )
+    .sort((x, y) =>
+      (currentStart(x) ?? '9999').localeCompare(currentStart(y) ?? '9999') ||
+      x.activityId.localeCompare(y.activityId)
+    )
+}
+
+export function queryScheduleSnapshot(
+  snapshot: ScheduleVersionSnapshot,
+  query: ScheduleActivityQuery,
+  submittals: SubmittalRegisterItem[] = [],
+  today: string = new Date().toISOString().slice(0, 10)
+): ScheduleActivityQueryResult {
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_SCHEDULE_QUERY_LIMIT), MAX_SCHEDULE_QUERY_LIMIT)
+  const matches = filterScheduleActivities(snapshot.activities, query)
+  const names = new Map(snapshot.activities.map(a => [a.activityId, a.activityName]))
+
+  const tiesInto = new Map<string, ScheduleTie[]>()
+  const tiesOutOf = new Map<string, ScheduleTie[]>()
+  for (const t of snapshot.ties) {
+    if (!tiesInto.has(t.successorActivityId)) tiesInto.set(t.successorActivityId, [])
+    tiesInto.get(t.successorActivityId)!.push(t)
+    if (!tiesOutOf.has(t.predecessorActivityId)) tiesOutOf.set(t.predecessorActivityId, [])
+    tiesOutOf.get(t.predecessorActivityId)!.push(t)
+  }
+
+  const submittalsByActivity = new Map<string, SubmittalRegisterItem[]>()
+  for (const item of submittals) {
+    const activityId = item.scheduleActivityLink?.activityId
+    if (!activityId) continue
+    if (!submittalsByActivity.has(activityId)) submittalsByActivity.set(activityId, [])
+    submittalsByActivity.get(activityId)!.push(item)
+  }
+
+  const hits = matches.slice(0, limit).map((activity): ScheduleActivityQueryHit => ({
+    activity,
+    predecessors: (tiesInto.get(activity.activityId) ?? []).map(t => ({
+      activityId: t.predecessorActivityId,
+      activityName: names.get(t.predecessorActivityId) ?? null,
+      type: t.type,
+      lagDays: t.lagDays,
+    })),
+    successors: (tiesOutOf.get(activity.activityId) ?? []).map(t => ({
+      activityId: t.successorActivityId,
+      activityName: names.get(t.successorActivityId) ?? null,
+      type: t.type,
+      lagDays: t.lagDays,
+    })),
+    linkedSubmittals: (submittalsByActivity.get(activity.activityId) ?? []).map(item => {
+      const risk = computeSubmittalScheduleRisk(item, activity, { today })
+      return {
+        itemId: item.persistedItemId ?? null,
+        specSection: item.specSection,
+        submittalItem: item.submittalItem,
+        status: resolveEffectiveStatus(item),
+        riskLevel: risk.level,
+        projectedReadyDate: risk.projectedReadyDate,
+      }
+    }),
+  }))
+
+  return { version: snapshot.version, query, totalMatches: matches.length, hits }
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+export function formatScheduleVersionCitation(version: ScheduleVersionSummary): string {
+  const parts = [`schedule v${version.versionNumber}`]
+  if (version.dataDate) parts.push(`data date ${version.dataDate}`)
+  if (version.sourceFileName) parts.push(version.sourceFileName)
+  if (version.isBaseline) parts.push('baseline')
+  return parts.join(', ')
+}
+
+function describeQuery(q: ScheduleActivityQuery): string {
+  const parts: string[] = []
+  if (q.text) parts.push(`name/code "${q.text}"`)
+  if (q.wbs) parts.push(`WBS "${q.wbs}"`)
+  if (q.from || q.to) parts.push(`window ${q.from ?? '…'} → ${q.to ?? '…'}`)
+  if (q.criticalOnly) parts.push('critical only')
+  if (q.responsibleParty) parts.push(`responsible "${q.responsibleParty}"`)
+  if (q.status) parts.push(`status ${q.status}`)
+  return parts.length > 0 ? parts.join('; ') : 'all activities'
+}
+
+function formatLogic(links: ScheduleActivityLogicLink[]): string {
+  return links
+    .map(l => `${l.activityId}${l.activityName ? ` ${l.activityName}` : ''} (${l.type}${l.lagDays ? ` ${l.lagDays > 0 ? '+' : ''}${l.lagDays}d` : ''})`)
+    .join('; ')
+}
+
+export function formatScheduleActivityAnswer(result: ScheduleActivityQueryResult): string {
+  const citation = formatScheduleVersionCitation(result.version)
+  const lines: string[] = [`Schedule activities — ${describeQuery(result.query)}`, `Source: ${citation}`]
+
+  if (result.totalMatches === 0) {
+    lines.push('', 'No activities matched. Try fewer filters or different name keywords.')
+    return lines.join('\n')
+  }
+
+  const shown = result.hits.length < result.totalMatches ? ` (showing ${result.hits.length})` : ''
+  lines.push(`Matches: ${result.totalMatches}${shown}`, '')
+
+  for (const { activity: a, predecessors, successors, linkedSubmittals } of result.hits) {
+    const flags = [a.isCritical ? 'CRITICAL' : null, a.isMilestone ? 'milestone' : null].filter(Boolean).join(', ')
+    lines.push(`${a.activityId} — ${a.activityName}${flags ? ` [${flags}]` : ''}`)
+    if (a.wbsCode || a.wbsName) lines.push(`  WBS: ${[a.wbsCode, a.wbsName].filter(Boolean).join(' ')}`)
+    const start = a.actualStart ? `${a.actualStart} (actual)` : a.earlyStart ?? 'n/a'
+    const finish = a.actualFinish ? `${a.actualFinish} (actual)` : a.earlyFinish ?? 'n/a'
+    lines.push(`  Start: ${start} | Finish: ${finish}${a.durationDays != null ? ` | Duration: ${a.durationDays}d` : ''}`)
+    const status = [`${a.status.replace('_', ' ')}, ${a.percentComplete}%`]
+    if (a.totalFloatDays != null) status.push(`total float ${a.totalFloatDays}d`)
+    if (a.lateFinish) status.push(`late finish ${a.lateFinish}`)
+    lines.push(`  Status: ${status.join(' | ')}`)
+    if (a.responsibleParty) lines.push(`  Responsible: ${a.responsibleParty}`)
+    if (predecessors.length > 0) lines.push(`  Predecessors: ${formatLogic(predecessors)}`)
+    if (successors.length > 0) lines.push(`  Successors: ${formatLogic(successors)}`)
+    for (const s of linkedSubmittals) {
+      const ready = s.projectedReadyDate ? `, ready ~${s.projectedReadyDate}` : ''
+      lines.push(`  Submittal: ${[s.specSection, s.submittalItem].filter(Boolean).join(' ')} — ${s.status}, ${s.riskLevel.replace('_', ' ')}${ready}`)
+    }
+    lines.push('')
+  }
+
+  lines.push(`Cite as: ${citation}.`)
+  return lines.join('\n')
+}
@@ -0,0 +1,114 @@
+import { createServiceRoleClient } from '../db/supabase/service'
+import {
+  rowToScheduleActivity,
+  rowToScheduleVersion,
+  type ScheduleActivityRow,
+  type ScheduleTie,
+  type ScheduleVersionRow,
+  type ScheduleVersionSnapshot,
+  type ScheduleVersionSummary,
+} from './schedule-model'
+import { SCHEDULE_RELATIONSHIP_TYPES, type ScheduleRelationshipType } from './schedule-parser'
+
+export type LoadScheduleVersionOutcome =
+  | { status: 'found'; snapshot: ScheduleVersionSnapshot }
+  | { status: 'not_found' }
+  | { status: 'error'; error: string }
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>
+
+type ActivityWithTiesRow = ScheduleActivityRow & {
+  activity_predecessors: Array<{
+    predecessor_id: string | null
+    relationship_type: string | null
+    lag_days: number | null
+  }> | null
+}
+
+const PAGE_SIZE = 1000
+
+const VERSION_COLUMNS =
+  'id, version_number, version_date, description, is_baseline, source_format, source_file_name, data_date, activity_count, created_at'
+
+const ACTIVITY_COLUMNS =
+  'id, activity_id, activity_name, wbs_code, early_start, early_finish, late_start, late_finish, actual_start, actual_finish, duration_days, total_float_days, percent_complete, is_critical, responsible_party, calendar, metadata'
+
+export async function listScheduleVersions(
+  supabase: ServiceClient,
+  projectId: string
+): Promise<{ versions: ScheduleVersionSummary[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('schedule_versions')
+    .select(VERSION_COLUMNS)
+    .eq('project_id', projectId)
+    .order('version_number', { ascending: false })
+
+  if (error) return { versions: [], error: error.message }
+  return { versions: ((data ?? []) as ScheduleVersionRow[]).map(rowToScheduleVersion), error: null }
+}
+
+/**
+ * Loads one version's activities and logic ties. Ties come back embedded on
+ * their successor row and are re-keyed from row uuid to activity code.
+ */
+export async function loadScheduleVersionSnapshot(
+  supabase: ServiceClient,
+  projectId: string,
+  versionId: string
+): Promise<LoadScheduleVersionOutcome> {
+  const versionResult = await supabase
+    .from('schedule_versions')
+    .select(VERSION_COLUMNS)
+    .eq('project_id', projectId)
+    .eq('id', versionId)
+    .maybeSingle()
+
+  if (versionResult.error) return { status: 'error', error: versionResult.error.message }
+  if (!versionResult.data) return { status: 'not_found' }
+
+  const rows: ActivityWithTiesRow[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabase
+      .from('schedule_activities')
+      .select(`${ACTIVITY_COLUMNS}, activity_predecessors!activity_predecessors_activity_id_fkey(predecessor_id, relationship_type, lag_days)`)
+      .eq('project_id', projectId)
+      .eq('version_id', versionId)
+      .order('activity_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) return { status: 'error', error: error.message }
+
+    rows.push(...((data ?? []) as unknown as ActivityWithTiesRow[]))
+
+    if (!data || data.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  const codeById = new Map(rows.map(r => [r.id, r.activity_id]))
+  const ties: ScheduleTie[] = []
+  for (const row of rows) {
+    for (const p of row.activity_predecessors ?? []) {
+      const predecessorCode = p.predecessor_id ? codeById.get(p.predecessor_id) : undefined
+      if (!predecessorCode) continue
+      const type = (SCHEDULE_RELATIONSHIP_TYPES as string[]).includes(p.relationship_type ?? '')
+        ? (p.relationship_type as ScheduleRelationshipType)
+        : 'FS'
+      ties.push({
+        predecessorActivityId: predecessorCode,
+        successorActivityId: row.activity_id,
+        type,
+        lagDays: p.lag_days ?? 0,
+      })
+    }
+  }
+
+  return {
+    status: 'found',
+    snapshot: {
+      version: rowToScheduleVersion(versionResult.data as ScheduleVersionRow),
+      activities: rows.map(rowToScheduleActivity),
+      ties,
+    },
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Submittal → schedule activity linking and approval-vs-start risk.
+ *
+ * Linking: SubmittalRegisterItem.scheduleActivity is free text typed by the
+ * PE or carried from a log import. suggestActivityMatches() ranks activities
+ * from the latest schedule version against that text (or, when empty, the
+ * item's FOW / item name / section title). Nothing is linked automatically —
+ * the user confirms a candidate and the link is stored on the item as
+ * `scheduleActivityLink`, keyed by activity code so it survives re-imports.
+ *
+ * Risk: projected approval = submit date + review turnaround, projected
+ * ready-for-work = approval + lifecycleLeadTimeDays. A submittal is flagged
+ * when ready-for-work lands after the linked activity's early start:
+ *   at_risk — after early start but on/before late start (eats float)
+ *   late    — after late start (or no late date known): drives the activity
+ * All offsets are calendar days — contract review periods and vendor lead
+ * times are quoted that way.
+ */
+
+import type { SubmittalRegisterItem } from '../chat/submittal-register'
+import { resolveEffectiveStatus } from '../chat/submittal-lifecycle.ts'
+import { isSupersededItem } from '../chat/submittal-register-merge.ts'
+import { daysBetween, type ScheduleActivity } from './schedule-model.ts'
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+export interface ActivityMatchCandidate {
+  activityId: string
+  activityName: string
+  wbsCode: string | null
+  earlyStart: string | null
+  score: number
+  matchMethod: 'activity_code' | 'name' | 'wbs'
+}
+
+export const MIN_ACTIVITY_MATCH_SCORE = 0.3
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with',
+  // submittal boilerplate that never appears in activity names
+  'submittal', 'submittals', 'product', 'data', 'shop', 'drawing', 'drawings', 'sample', 'samples',
+  'certificate', 'certificates', 'manufacturer', 'manufacturers', 'literature', 'sd',
+])
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+export function activityNameTokens(text: string | null | undefined): Set<string> {
+  const tokens = new Set<string>()
+  for (const raw of (text ?? '').toLowerCase().split(/[^a-z0-9]+/)) {
+    if (!raw || STOPWORDS.has(raw)) continue
+    if (/^\d+$/.test(raw) && raw.length < 2) continue
+    tokens.add(stem(raw))
+  }
+  return tokens
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let n = 0
+  for (const t of a) if (b.has(t)) n++
+  return n
+}
+
+function matchQueryText(item: SubmittalRegisterItem): { text: string; explicit: boolean } {
+  if (item.scheduleActivity && item.scheduleActivity.trim()) {
+    return { text: item.scheduleActivity, explicit: true }
+  }
+  return {
+    text: [item.relatedFOW, item.submittalItem, item.sectionTitle].filter(Boolean).join(' '),
+    explicit: false,
+  }
+}
+
+/**
+ * Rank activities for a submittal. Explicit free-text activity references
+ * are matched by activity code first, then by name (Dice coefficient);
+ * inferred queries (FOW / item name) score by how much of the activity name
+ * they contain — at least two shared tokens — discounted since they were
+ * never meant to name an activity. WBS name overlap can lift a weak match.
+ */
+export function suggestActivityMatches(
+  item: SubmittalRegisterItem,
+  activities: ScheduleActivity[],
+  limit = 3
+): ActivityMatchCandidate[] {
+  const { text, explicit } = matchQueryText(item)
+  const query = activityNameTokens(text)
+  if (query.size === 0) return []
+  const rawLower = text.toLowerCase()
+
+  const candidates: ActivityMatchCandidate[] = []
+  for (const a of activities) {
+    const base = {
+      activityId: a.activityId,
+      activityName: a.activityName,
+      wbsCode: a.wbsCode,
+      earlyStart: a.earlyStart,
+    }
+
+    if (explicit && new RegExp(`(^|[^a-z0-9])${escapeRegExp(a.activityId.toLowerCase())}($|[^a-z0-9])`).test(rawLower)) {
+      candidates.push({ ...base, score: 1, matchMethod: 'activity_code' })
+      continue
+    }
+
+    const name = activityNameTokens(a.activityName)
+    if (name.size === 0) continue
+    const shared = overlap(query, name)
+    let score = explicit
+      ? (2 * shared) / (query.size + name.size)
+      : shared >= Math.min(2, name.size) ? 0.8 * (shared / name.size) : 0
+    let matchMethod: ActivityMatchCandidate['matchMethod'] = 'name'
+
+    const wbs = activityNameTokens(a.wbsName)
+    if (wbs.size > 0 && overlap(query, wbs) > 0) {
+      const wbsScore = 0.5 * (overlap(query, wbs) / wbs.size)
+      if (wbsScore > score) matchMethod = 'wbs'
+      score = Math.min(0.99, Math.max(score, wbsScore) + (shared > 0 ? 0.1 : 0))
+    }
+
+    score = Math.round(score * 100) / 100
+    if (score >= MIN_ACTIVITY_MATCH_SCORE) candidates.push({ ...base, score, matchMethod })
+  }
+
+  return candidates
+    .sort((x, y) => y.score - x.score || (x.earlyStart ?? '').localeCompare(y.earlyStart ?? '') || x.activityId.localeCompare(y.activityId))
+    .slice(0, limit)
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Items worth linking: long-lead, flagged as blocking, or already naming an activity. Never superseded ones. */
+export function needsScheduleLink(item: SubmittalRegisterItem): boolean {
+  if (isSupersededItem(item)) return false
+  return (
+    item.lifecycleLongLeadFlag === true ||
+    (item.lifecycleLeadTimeDays ?? 0) > 0 ||
+    item.blocksWork === true ||
+    !!item.scheduleActivity?.trim()
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Risk
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_REVIEW_TURNAROUND_DAYS = 14
+
+export type SubmittalScheduleRiskLevel = 'late' | 'at_risk' | 'on_track' | 'complete' | 'unscheduled'
+
+export interface SubmittalScheduleRisk {
+  level: SubmittalScheduleRiskLevel
+  linkStatus: 'linked' | 'missing_activity' | 'unlinked'
+  activityId: string | null
+  activityName: string | null
+  activityIsCritical: boolean
+  /** Date the work needs the material: linked activity early start (or actual start), else the item's own need-by date. */
+  needByDate: string | null
+  needBySource: 'activity' | 'item' | null
+  lateStart: string | null
+  projectedSubmitDate: string | null
+  projectedApprovalDate: string | null
+  projectedReadyDate: string | null
+  reviewTurnaroundDays: number
+  leadTimeDays: number
+  /** projectedReadyDate − needByDate in calendar days. Positive = late. */
+  daysLate: number | null
+}
+
+export interface SubmittalScheduleRiskOptions {
+  /** YYYY-MM-DD. Unsubmitted work can't be submitted before today. */
+  today: string
+  reviewTurnaroundDays?: number
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function maxDate(a: string, b: string): string {
+  return a > b ? a : b
+}
+
+export function computeSubmittalScheduleRisk(
+  item: SubmittalRegisterItem,
+  activity: ScheduleActivity | null,
+  options: SubmittalScheduleRiskOptions
+): SubmittalScheduleRisk {
+  const today = options.today.slice(0, 10)
+  const reviewTurnaroundDays = options.reviewTurnaroundDays ?? DEFAULT_REVIEW_TURNAROUND_DAYS
+  const leadTimeDays = Math.max(0, item.lifecycleLeadTimeDays ?? 0)
+  const link = item.scheduleActivityLink ?? null
+
+  const linkStatus: SubmittalScheduleRisk['linkStatus'] = !link ? 'unlinked' : activity ? 'linked' : 'missing_activity'
+  const activityNeedBy = activity ? activity.actualStart ?? activity.earlyStart : null
+  const itemNeedBy = item.activityNeedByDate ?? item.activityStartDate ?? null
+  const needByDate = activityNeedBy ?? itemNeedBy
+  const needBySource: SubmittalScheduleRisk['needBySource'] = activityNeedBy ? 'activity' : itemNeedBy ? 'item' : null
+
+  const base: SubmittalScheduleRisk = {
+    level: 'unscheduled',
+    linkStatus,
+    activityId: activity?.activityId ?? link?.activityId ?? null,
+    activityName: activity?.activityName ?? link?.activityName ?? null,
+    activityIsCritical: activity?.isCritical ?? false,
+    needByDate,
+    needBySource,
+    lateStart: activity?.lateStart ?? null,
+    projectedSubmitDate: null,
+    projectedApprovalDate: null,
+    projectedReadyDate: null,
+    reviewTurnaroundDays,
+    leadTimeDays,
+    daysLate: null,
+  }
+
+  const status = resolveEffectiveStatus(item)
+  if (status === 'closed') return { ...base, level: 'complete' }
+
+  let submit: string
+  let approval: string
+  if (status === 'approved' || status === 'approved_as_noted') {
+    approval = (item.lifecycleApprovedAt ?? today).slice(0, 10)
+    submit = (item.lifecycleSubmittedAt ?? approval).slice(0, 10)
+  } else if ((status === 'submitted' || status === 'pending_review') && item.lifecycleSubmittedAt) {
+    submit = item.lifecycleSubmittedAt.slice(0, 10)
+    // An overdue review can't come back in the past.
+    approval = maxDate(addDays(submit, reviewTurnaroundDays), today)
+  } else {
+    const planned = item.lifecycleDueDate && item.lifecycleDueDate > today ? item.lifecycleDueDate : today
+    submit = planned.slice(0, 10)
+    approval = addDays(submit, reviewTurnaroundDays)
+  }
+  const ready = addDays(approval, leadTimeDays)
+
+  const projected = {
+    ...base,
+    projectedSubmitDate: submit,
+    projectedApprovalDate: approval,
+    projectedReadyDate: ready,
+  }
+  if (!needByDate) return projected
+
+  const daysLate = daysBetween(needByDate, ready)
+  let level: SubmittalScheduleRiskLevel = 'on_track'
+  if (daysLate !== null && daysLate > 0) {
+    level = activity?.lateStart && ready <= activity.lateStart ? 'at_risk' : 'late'
+  }
+  return { ...projected, level, daysLate }
+}
+
+export interface SubmittalScheduleRiskSummary {
+  late: number
+  atRisk: number
+  onTrack: number
+  complete: number
+  unscheduled: number
+  linked: number
+  missingActivity: number
+}
+
+export function summarizeSubmittalScheduleRisk(risks: SubmittalScheduleRisk[]): SubmittalScheduleRiskSummary {
+  const summary: SubmittalScheduleRiskSummary = {
+    late: 0, atRisk: 0, onTrack: 0, complete: 0, unscheduled: 0, linked: 0, missingActivity: 0,
+  }
+  for (const r of risks) {
+    if (r.level === 'late') summary.late++
+    else if (r.level === 'at_risk') summary.atRisk++
+    else if (r.level === 'on_track') summary.onTrack++
+    else if (r.level === 'complete') summary.complete++
+    else summary.unscheduled++
+    if (r.linkStatus === 'linked') summary.linked++
+    if (r.linkStatus === 'missing_activity') summary.missingActivity++
+  }
+  return summary
+}
@@ -1145,3 +1145,56 @@ export function parseFocusedEndStationResult(
     return { endStation: null, confidence: 0 }
   }
 }
+
+/**
+ * Focused prompt for describing one changed region of a reissued sheet. The
+ * image shows the previous revision on the left and the new revision on the
+ * right. Used by the visual sheet diff — NOT the main extraction prompt.
+ */
+export function buildSheetChangePrompt(
+  sheetNumber: string | null,
+  fromRevision: string | null,
+  toRevision: string | null
+): string {
+  const sheet = sheetNumber ? `sheet ${sheetNumber}` : 'this sheet'
+  const from = fromRevision ? `Rev ${fromRevision}` : 'the previous issue'
+  const to = toRevision ? `Rev ${toRevision}` : 'the new revision'
+  return `This image is a cropped area of ${sheet}. LEFT half: ${from}. RIGHT half: ${to}.
+Your ONLY task: describe what changed in this area between the two halves.
+
+Describe the change the way a field engineer would note it, in one sentence:
+- "Storm inlet CB-4 moved about 10 ft east; rim changed from 103.90 to 104.20"
+- "Added 8-in gate valve and note 'SEE DETAIL 5/C-501'"
+- "Removed existing fence callout"
+Name labels, dimensions, elevations and notes exactly as printed.
+If the halves differ only by line weight, shading or a shift of the whole area, say "No substantive change".
+
+Also report whether the change on the RIGHT half is enclosed by a revision cloud (scalloped outline) or marked with a revision delta triangle.
+
+Return ONLY valid JSON (no markdown, no explanation):
+{ "description": "Added 8-in gate valve at STA 12+40", "clouded": true }
+
+Use "clouded": null if you cannot tell.`
+}
+
+/**
+ * Parse the JSON response from a focused sheet change call.
+ */
+export function parseSheetChangeResult(
+  raw: string
+): { description: string | null; clouded: boolean | null } {
+  try {
+    const cleaned = raw.replace(/```[a-z]*\n?/g, '').trim()
+    const parsed = JSON.parse(cleaned)
+    const description =
+      typeof parsed.description === 'string' && parsed.description.trim()
+        ? parsed.description.trim()
+        : null
+    return {
+      description,
+      clouded: typeof parsed.clouded === 'boolean' ? parsed.clouded : null,
+    }
+  } catch {
+    return { description: null, clouded: null }
+  }
+}
@@ -182,8 +182,9 @@ export function extractSheetReferences(text: string): string[] {
   ]
 
   for (const pattern of sheetPatterns) {
+    const re = new RegExp(pattern.source, pattern.flags)
     let m: RegExpExecArray | null
-    while ((m = new RegExp(pattern.source, pattern.flags).exec(text)) !== null) {
+    while ((m = re.exec(text)) !== null) {
       refs.add(m[1])
     }
   }
@@ -203,8 +204,9 @@ export function extractDetailReferences(text: string): string[] {
   ]
 
   for (const pattern of patterns) {
+    const re = new RegExp(pattern.source, pattern.flags)
     let m: RegExpExecArray | null
-    while ((m = new RegExp(pattern.source, pattern.flags).exec(text)) !== null) {
+    while ((m = re.exec(text)) !== null) {
       refs.add(m[1])
     }
   }
@@ -225,8 +227,9 @@ export function extractSpecSectionReferences(text: string): string[] {
   ]
 
   for (const pattern of patterns) {
+    const re = new RegExp(pattern.source, pattern.flags)
     let m: RegExpExecArray | null
-    while ((m = new RegExp(pattern.source, pattern.flags).exec(text)) !== null) {
+    while ((m = re.exec(text)) !== null) {
       const raw = m[1].replace(/\s+/g, '')
       const norm = `${raw.slice(0, 2)} ${raw.slice(2, 4)} ${raw.slice(4, 6)}`
       refs.add(norm)
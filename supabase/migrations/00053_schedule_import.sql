@@ -0,0 +1,59 @@
+-- Migration 00053 — schedule import provenance on schedule_versions.
+--
+-- Background: the schedule tables from 00002 (schedule_versions,
+-- schedule_activities, activity_predecessors) have never been written to.
+-- The P6 XER / MS Project XML importer (src/lib/schedule/schedule-parser.ts +
+-- schedule-persistence.ts) now creates one schedule_versions row per upload
+-- and writes activities + logic ties under it.
+--
+-- This migration only adds provenance columns and integrity guards the
+-- importer relies on. No existing columns are changed and no data is written.
+--
+--   schedule_versions
+--     source_format     'p6_xer' | 'msp_xml'
+--     source_file_name  original upload name
+--     data_date         P6 last_recalc_date / MSP StatusDate (nullable)
+--     activity_count    rows written to schedule_activities for this version
+--     created_by        uploading user
+--
+--   Uniqueness
+--     (project_id, version_number) on schedule_versions — version numbers are
+--       allocated as max + 1 per project.
+--     (version_id, activity_id) on schedule_activities — activity codes are
+--       the match key for version-to-version comparison.
+--
+-- Idempotent: ADD COLUMN IF NOT EXISTS, named-constraint guards,
+-- CREATE INDEX IF NOT EXISTS.
+
+ALTER TABLE schedule_versions
+    ADD COLUMN IF NOT EXISTS source_format    TEXT,
+    ADD COLUMN IF NOT EXISTS source_file_name TEXT,
+    ADD COLUMN IF NOT EXISTS data_date        DATE,
+    ADD COLUMN IF NOT EXISTS activity_count   INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS created_by       UUID REFERENCES auth.users(id);
+
+DO $$ BEGIN
+    ALTER TABLE schedule_versions
+        ADD CONSTRAINT chk_schedule_versions_source_format
+            CHECK (source_format IS NULL OR source_format IN ('p6_xer', 'msp_xml'));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE schedule_versions
+        ADD CONSTRAINT uq_schedule_versions_project_number UNIQUE (project_id, version_number);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE schedule_activities
+        ADD CONSTRAINT uq_schedule_activities_version_code UNIQUE (version_id, activity_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_schedule_activities_version
+    ON schedule_activities(version_id);
+CREATE INDEX IF NOT EXISTS idx_activity_predecessors_predecessor
+    ON activity_predecessors(predecessor_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_versions_project_recent
+    ON schedule_versions(project_id, version_number DESC);
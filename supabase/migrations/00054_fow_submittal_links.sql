@@ -0,0 +1,91 @@
+-- Migration 00054 — persisted submittal → feature-of-work links.
+--
+-- Background: FOW membership was derived at read time by matching a
+-- submittal's spec section against the FOW's metadata.specSections
+-- (groupSubmittalsByFowSpecSections). Links could not be edited, and the
+-- relatedFOW text on register items was ignored.
+--
+-- fow_submittal_links stores one row per (FOW, submittal) pair, keyed on the
+-- register item's dedupe_key rather than submittal_register_items.id, so a
+-- link made against one workflow_runs snapshot applies to the same item in
+-- every later register run.
+--
+--   source      how the link was created
+--     'spec_section'  inferred from the FOW's spec sections
+--     'related_fow'   backfilled from item.relatedFOW via normalizeFowName
+--     'user'          added by hand
+--   status      'active' | 'removed' — a user removal is kept as a tombstone
+--               so inference does not re-create the link on the next read
+--   spec_section  the item's spec section when the link was made; lets
+--               inferred links be dropped when the FOW's sections change
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, named-constraint guards,
+-- CREATE INDEX IF NOT EXISTS, DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS fow_submittal_links (
+    id              UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id      UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- FOW FK enforced via composite constraint (fk_fsl_fow_project)
+    fow_entity_id   UUID         NOT NULL,
+    dedupe_key      TEXT         NOT NULL,
+    spec_section    TEXT,
+
+    source          TEXT         NOT NULL
+        CHECK (source IN ('spec_section', 'related_fow', 'user')),
+    status          TEXT         NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'removed')),
+
+    created_by      UUID         REFERENCES auth.users(id),
+    created_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+    ALTER TABLE fow_submittal_links
+        ADD CONSTRAINT fk_fsl_fow_project
+            FOREIGN KEY (fow_entity_id, project_id)
+            REFERENCES project_entities(id, project_id) ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE fow_submittal_links
+        ADD CONSTRAINT uq_fsl_fow_dedupe_key UNIQUE (fow_entity_id, dedupe_key);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_fsl_project_dedupe_key
+    ON fow_submittal_links(project_id, dedupe_key);
+
+ALTER TABLE fow_submittal_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view fow_submittal_links for their projects"   ON fow_submittal_links;
+DROP POLICY IF EXISTS "Users can manage fow_submittal_links for their projects" ON fow_submittal_links;
+DROP POLICY IF EXISTS "Service role has full access to fow_submittal_links"     ON fow_submittal_links;
+
+CREATE POLICY "Users can view fow_submittal_links for their projects"
+ON fow_submittal_links FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = fow_submittal_links.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can manage fow_submittal_links for their projects"
+ON fow_submittal_links FOR ALL
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = fow_submittal_links.project_id
+    AND pm.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = fow_submittal_links.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to fow_submittal_links"
+ON fow_submittal_links
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,97 @@
+-- Migration 00055 — project_inspections: special inspections, tests and hold
+-- points that gate a feature of work.
+--
+-- Background: spec extraction already classifies `testing_requirement` and
+-- `inspection_requirement` findings (spec_requirement entities, subtype =
+-- family), but nothing tracked whether those inspections happened. A FOW
+-- could show 100% ready with an open hold point.
+--
+-- One row per inspection. Rows seeded from spec requirements carry
+-- source_requirement_key = the requirement entity's canonical_name, so
+-- re-extracting specs (which deletes and re-creates spec entities) does not
+-- duplicate or orphan them.
+--
+--   inspection_type  'hold_point' | 'special_inspection' | 'test' | 'inspection'
+--   status           'required' | 'scheduled' | 'complete' | 'waived'
+--   result           'pass' | 'pass_with_comments' | 'fail' — set when complete
+--   fow_entity_id    explicit FOW; NULL = every FOW whose specSections contain
+--                    spec_section
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, named-constraint guards,
+-- CREATE INDEX IF NOT EXISTS, DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS project_inspections (
+    id                      UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id              UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Simple FK so a FOW delete can SET NULL; the route checks project scope.
+    fow_entity_id           UUID         REFERENCES project_entities(id) ON DELETE SET NULL,
+
+    title                   TEXT         NOT NULL,
+    inspection_type         TEXT         NOT NULL DEFAULT 'inspection'
+        CHECK (inspection_type IN ('hold_point', 'special_inspection', 'test', 'inspection')),
+    spec_section            TEXT,
+    part_reference          TEXT,
+
+    status                  TEXT         NOT NULL DEFAULT 'required'
+        CHECK (status IN ('required', 'scheduled', 'complete', 'waived')),
+    scheduled_date          DATE,
+    inspector               TEXT,
+    result                  TEXT
+        CHECK (result IS NULL OR result IN ('pass', 'pass_with_comments', 'fail')),
+    result_notes            TEXT,
+    completed_at            TIMESTAMPTZ,
+
+    source                  TEXT         NOT NULL DEFAULT 'manual'
+        CHECK (source IN ('spec', 'manual')),
+    source_requirement_key  TEXT,
+
+    created_by              UUID         REFERENCES auth.users(id),
+    created_at              TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+    updated_at              TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+    ALTER TABLE project_inspections
+        ADD CONSTRAINT uq_inspections_requirement_key UNIQUE (project_id, source_requirement_key);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_inspections_project_status
+    ON project_inspections(project_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_inspections_fow
+    ON project_inspections(fow_entity_id)
+    WHERE fow_entity_id IS NOT NULL;
+
+ALTER TABLE project_inspections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project_inspections for their projects"   ON project_inspections;
+DROP POLICY IF EXISTS "Users can manage project_inspections for their projects" ON project_inspections;
+DROP POLICY IF EXISTS "Service role has full access to project_inspections"     ON project_inspections;
+
+CREATE POLICY "Users can view project_inspections for their projects"
+ON project_inspections FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_inspections.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can manage project_inspections for their projects"
+ON project_inspections FOR ALL
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_inspections.project_id
+    AND pm.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_inspections.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to project_inspections"
+ON project_inspections
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
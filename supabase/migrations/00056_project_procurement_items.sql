@@ -0,0 +1,82 @@
+-- Migration 00056 — project_procurement_items: purchase orders released by
+-- approved submittals.
+--
+-- Background: the register tracks long-lead items (lifecycleLongLeadFlag,
+-- lifecycleLeadTimeDays) only up to approval. Once the submittal comes back
+-- approved nobody records the PO, the vendor's promised ship date or the
+-- actual delivery, so "when does the material land?" had no answer.
+--
+-- One row per PO line. The releasing submittal is referenced by its register
+-- dedupe_key (like fow_submittal_links), so the link survives re-running the
+-- register workflow — persisted item ids change on every run.
+--
+--   status  'not_ordered' | 'ordered' | 'shipped' | 'delivered' | 'cancelled'
+--
+-- Landing date precedence (src/lib/graph/procurement.ts): actual delivery →
+-- expected delivery → promised ship → order date + lead time → projected
+-- approval + lead time.
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS,
+-- DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS project_procurement_items (
+    id                      UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id              UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- submittal_register_items.dedupe_key of the releasing submittal.
+    submittal_dedupe_key    TEXT         NOT NULL,
+
+    description             TEXT         NOT NULL,
+    po_number               TEXT,
+    vendor                  TEXT,
+
+    status                  TEXT         NOT NULL DEFAULT 'not_ordered'
+        CHECK (status IN ('not_ordered', 'ordered', 'shipped', 'delivered', 'cancelled')),
+    order_date              DATE,
+    promised_ship_date      DATE,
+    expected_delivery_date  DATE,
+    actual_delivery_date    DATE,
+    notes                   TEXT,
+
+    created_by              UUID         REFERENCES auth.users(id),
+    created_at              TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+    updated_at              TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_procurement_project_status
+    ON project_procurement_items(project_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_procurement_submittal
+    ON project_procurement_items(project_id, submittal_dedupe_key);
+
+ALTER TABLE project_procurement_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project_procurement_items for their projects"   ON project_procurement_items;
+DROP POLICY IF EXISTS "Users can manage project_procurement_items for their projects" ON project_procurement_items;
+DROP POLICY IF EXISTS "Service role has full access to project_procurement_items"     ON project_procurement_items;
+
+CREATE POLICY "Users can view project_procurement_items for their projects"
+ON project_procurement_items FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_procurement_items.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can manage project_procurement_items for their projects"
+ON project_procurement_items FOR ALL
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_procurement_items.project_id
+    AND pm.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_procurement_items.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to project_procurement_items"
+ON project_procurement_items
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,94 @@
+-- Migration 00057 — submittal_packages: register items grouped into a
+-- transmitted package.
+--
+-- Background: submittals go to the reviewer in packages under a cover
+-- transmittal, but the register only tracked items one at a time. There was
+-- no record of which items travelled together, when the package went out or
+-- came back, and the transmittal itself was typed up by hand.
+--
+-- One row per package. Members are held as register dedupe_keys (like
+-- fow_submittal_links and project_procurement_items), so a package survives
+-- re-running the register workflow — persisted item ids change on every run.
+-- Order of item_dedupe_keys is the order items are listed on the transmittal.
+--
+--   status    'draft' | 'transmitted' | 'returned' | 'closed'
+--             transitions and history rules live in
+--             src/lib/chat/submittal-packages.ts; status_history mirrors
+--             item_payload.lifecycleStatusHistory on register items
+--   purpose   what the transmittal asks of the recipient
+--             'for_approval' | 'for_review' | 'for_information' | 'for_record'
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, named-constraint guards,
+-- CREATE INDEX IF NOT EXISTS, DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS submittal_packages (
+    id                  UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id          UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    package_number      TEXT         NOT NULL,
+    title               TEXT         NOT NULL,
+    spec_section        TEXT,
+    purpose             TEXT         NOT NULL DEFAULT 'for_approval'
+        CHECK (purpose IN ('for_approval', 'for_review', 'for_information', 'for_record')),
+
+    item_dedupe_keys    TEXT[]       NOT NULL DEFAULT '{}',
+
+    status              TEXT         NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'transmitted', 'returned', 'closed')),
+    status_history      JSONB        NOT NULL DEFAULT '[]'::jsonb,
+
+    to_party            TEXT,
+    from_party          TEXT,
+    due_date            DATE,
+    transmitted_at      TIMESTAMPTZ,
+    returned_at         TIMESTAMPTZ,
+    remarks             TEXT,
+
+    created_by          UUID         REFERENCES auth.users(id),
+    created_at          TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+    ALTER TABLE submittal_packages
+        ADD CONSTRAINT uq_submittal_packages_number UNIQUE (project_id, package_number);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_submittal_packages_project_status
+    ON submittal_packages(project_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_submittal_packages_dedupe_keys
+    ON submittal_packages USING GIN (item_dedupe_keys);
+
+ALTER TABLE submittal_packages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view submittal_packages for their projects"   ON submittal_packages;
+DROP POLICY IF EXISTS "Users can manage submittal_packages for their projects" ON submittal_packages;
+DROP POLICY IF EXISTS "Service role has full access to submittal_packages"     ON submittal_packages;
+
+CREATE POLICY "Users can view submittal_packages for their projects"
+ON submittal_packages FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = submittal_packages.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can manage submittal_packages for their projects"
+ON submittal_packages FOR ALL
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = submittal_packages.project_id
+    AND pm.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = submittal_packages.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to submittal_packages"
+ON submittal_packages
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,75 @@
+-- Migration 00058 — project_parties: normalized contractor / designer / owner
+-- records for ball-in-court tracking.
+--
+-- Background: register items name their parties in free text
+-- (lifecycleResponsibleParty, lifecycleAssignedReviewer, approvalAuthority),
+-- so "Smith Arch.", "Smith Architects" and "A/E" were three different
+-- reviewers and workload could not be rolled up per party.
+--
+-- One row per party. Free-text names on register items resolve to a party by
+-- name or any alias (case- and punctuation-insensitive, see
+-- src/lib/chat/project-parties.ts); the item payloads are not rewritten.
+--
+--   role  'contractor' | 'subcontractor' | 'designer' | 'consultant' | 'owner'
+--         contractor/subcontractor hold the ball while an item is being
+--         prepared or revised; designer/consultant/owner while it is in review
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, named-constraint guards,
+-- CREATE INDEX IF NOT EXISTS, DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS project_parties (
+    id              UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id      UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    name            TEXT         NOT NULL,
+    role            TEXT         NOT NULL
+        CHECK (role IN ('contractor', 'subcontractor', 'designer', 'consultant', 'owner')),
+    organization    TEXT,
+    email           TEXT,
+    aliases         TEXT[]       NOT NULL DEFAULT '{}',
+
+    created_by      UUID         REFERENCES auth.users(id),
+    created_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+    ALTER TABLE project_parties
+        ADD CONSTRAINT uq_project_parties_name UNIQUE (project_id, name);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_project_parties_project_role
+    ON project_parties(project_id, role);
+
+ALTER TABLE project_parties ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project_parties for their projects"   ON project_parties;
+DROP POLICY IF EXISTS "Users can manage project_parties for their projects" ON project_parties;
+DROP POLICY IF EXISTS "Service role has full access to project_parties"     ON project_parties;
+
+CREATE POLICY "Users can view project_parties for their projects"
+ON project_parties FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_parties.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can manage project_parties for their projects"
+ON project_parties FOR ALL
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_parties.project_id
+    AND pm.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = project_parties.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to project_parties"
+ON project_parties
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
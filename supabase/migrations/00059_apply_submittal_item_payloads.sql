@@ -0,0 +1,41 @@
+-- Migration 00059 — apply_submittal_item_payloads: write many register item
+-- payloads in one transaction.
+--
+-- Background: lifecycle transitions are computed in the app
+-- (src/lib/chat/submittal-lifecycle-apply.ts) and written back as whole
+-- item_payload JSONB documents. PostgREST has no multi-statement transaction,
+-- so a bulk transition written row by row could leave half a batch moved.
+--
+-- p_updates is a JSON array of
+--   { "id": <uuid>, "expected_status": <lifecycle status>, "item_payload": {...} }
+-- Each row is only written while its current lifecycleStatus (draft when
+-- unset) still equals expected_status. A missing row or a status that moved
+-- since the caller read it raises serialization_failure (40001) and nothing in
+-- the batch is written. Returns the number of rows written.
+--
+-- SECURITY INVOKER: callers are subject to submittal_register_items RLS; the
+-- API routes call it with the service-role client.
+
+CREATE OR REPLACE FUNCTION apply_submittal_item_payloads(p_project_id UUID, p_updates JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    u        JSONB;
+    written  INTEGER := 0;
+BEGIN
+    FOR u IN SELECT value FROM jsonb_array_elements(p_updates) LOOP
+        UPDATE submittal_register_items
+           SET item_payload = u->'item_payload'
+         WHERE id = (u->>'id')::UUID
+           AND project_id = p_project_id
+           AND COALESCE(item_payload->>'lifecycleStatus', 'draft') = u->>'expected_status';
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Submittal item % is missing or its status has changed', u->>'id'
+                USING ERRCODE = '40001';
+        END IF;
+        written := written + 1;
+    END LOOP;
+    RETURN written;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- Migration 00060 — reconciliation re-sync: link a session to the upload it
+-- replaces and carry match decisions forward.
+--
+-- Background: owners republish their submittal log weekly. Each upload was a
+-- fresh session (00052) and every low-confidence match had to be reviewed
+-- again. A re-sync session now points at the session it was re-run from;
+-- decisions on log rows that are unchanged since that upload are copied into
+-- the new session (src/lib/reconciliation/submittal-log-resync.ts). Changed
+-- rows are listed in the change summary with their previous decisions for
+-- re-confirmation, so only new or changed rows need review.
+--
+--   reconciliation_sessions
+--     previous_session_id  session this upload was re-synced against
+--     change_summary       rows added / removed / changed versus that session,
+--                          decisions carried, to re-confirm and dropped (JSONB)
+--
+--   reconciliation_decisions
+--     carried_from_session_id  session the decision was first made in; NULL
+--                              for decisions made in this session
+--
+-- Idempotent: ADD COLUMN IF NOT EXISTS, CREATE INDEX IF NOT EXISTS.
+
+ALTER TABLE reconciliation_sessions
+    ADD COLUMN IF NOT EXISTS previous_session_id UUID REFERENCES reconciliation_sessions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS change_summary      JSONB;
+
+ALTER TABLE reconciliation_decisions
+    ADD COLUMN IF NOT EXISTS carried_from_session_id UUID REFERENCES reconciliation_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_sessions_previous
+    ON reconciliation_sessions (previous_session_id);
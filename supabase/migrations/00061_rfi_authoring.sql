@@ -0,0 +1,58 @@
+-- Migration 00061 — RFI authoring: drafted, numbered RFIs with response
+-- tracking on the rfis table.
+--
+-- Background: the rfis table from 00001 has never been written to — RFIs only
+-- existed as entities extracted from uploaded change documents (discipline
+-- 'rfi', src/lib/vision/rfi-extractor.ts). RFIs are now authored in the app,
+-- usually from a chat answer (src/lib/rfi/rfi-workflow.ts), numbered per
+-- project and tracked through
+--
+--   draft → open → answered → closed      (answered → open reopens)
+--
+-- 'responded' from 00001 is renamed 'answered'.
+--
+--   rfis
+--     sequence            per-project RFI number, rendered as rfi_number 'RFI-007'
+--     referenced_sheets   sheet / detail references, e.g. {'S-201', '5/S-501'}
+--     spec_sections       e.g. {'03 30 00'}
+--     suggested_solution  contractor's proposed resolution
+--     source_question     chat question the RFI was drafted from (nullable)
+--     status_history      [{ fromStatus, toStatus, changedAt, changedBy?, note? }]
+--     opened_at / answered_at / closed_at
+--     answered_by         responder name as written on the response
+--     created_by          authoring user
+--
+--   Uniqueness
+--     (project_id, sequence) and (project_id, rfi_number) — numbers are
+--       allocated as max + 1 per project; a concurrent create retries.
+--
+-- Idempotent: ADD COLUMN IF NOT EXISTS, DROP CONSTRAINT IF EXISTS before ADD,
+-- CREATE UNIQUE INDEX IF NOT EXISTS.
+
+ALTER TABLE rfis DROP CONSTRAINT IF EXISTS rfis_status_check;
+ALTER TABLE rfis DROP CONSTRAINT IF EXISTS chk_rfis_status;
+
+-- After the 00001 CHECK is dropped — it does not allow 'answered'.
+UPDATE rfis SET status = 'answered' WHERE status = 'responded';
+
+ALTER TABLE rfis
+    ADD CONSTRAINT chk_rfis_status CHECK (status IN ('draft', 'open', 'answered', 'closed'));
+
+ALTER TABLE rfis
+    ADD COLUMN IF NOT EXISTS sequence            INTEGER,
+    ADD COLUMN IF NOT EXISTS referenced_sheets   TEXT[]      NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS spec_sections       TEXT[]      NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS suggested_solution  TEXT,
+    ADD COLUMN IF NOT EXISTS source_question     TEXT,
+    ADD COLUMN IF NOT EXISTS status_history      JSONB       NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS opened_at           TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS answered_at         TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS answered_by         TEXT,
+    ADD COLUMN IF NOT EXISTS closed_at           TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS created_by          UUID REFERENCES auth.users(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_rfis_project_sequence
+    ON rfis (project_id, sequence) WHERE sequence IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_rfis_project_number
+    ON rfis (project_id, rfi_number);
@@ -0,0 +1,60 @@
+-- Migration 00062 — rfi_impacts: what an answered RFI touches.
+--
+-- Background: an RFI answer can change a drawing or spec requirement, but
+-- nothing recorded which sheets, entities or submittals it affects. When an
+-- RFI is answered its question, suggested solution and response are scanned
+-- for sheet, detail and spec section references
+-- (src/lib/rfi/rfi-impact.ts) and one row is written per affected target.
+-- Re-tracing an RFI replaces its rows.
+--
+--   target_type  'sheet' | 'spec_section' | 'entity' | 'submittal'
+--   target_ref   sheet number without punctuation ('S201'), 6-digit spec
+--                section ('033000'), project_entities id, or the submittal's
+--                register dedupe_key (like fow_submittal_links, so the link
+--                survives re-running the register workflow)
+--   entity_id    set for target_type 'entity'
+--   reasons      e.g. {'on_cited_sheet', 'at_cited_detail'}
+--
+-- Impacted submittals are also flagged for re-review on the latest register
+-- run (item_payload.rfiImpacts).
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS,
+-- DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS rfi_impacts (
+    id           UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id   UUID         NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    rfi_id       UUID         NOT NULL REFERENCES rfis(id) ON DELETE CASCADE,
+
+    target_type  TEXT         NOT NULL
+        CHECK (target_type IN ('sheet', 'spec_section', 'entity', 'submittal')),
+    target_ref   TEXT         NOT NULL,
+    entity_id    UUID         REFERENCES project_entities(id) ON DELETE CASCADE,
+    label        TEXT,
+    reasons      TEXT[]       NOT NULL DEFAULT '{}',
+
+    created_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_rfi_impacts_target UNIQUE (rfi_id, target_type, target_ref)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfi_impacts_target
+    ON rfi_impacts(project_id, target_type, target_ref);
+
+ALTER TABLE rfi_impacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view rfi_impacts for their projects"   ON rfi_impacts;
+DROP POLICY IF EXISTS "Service role has full access to rfi_impacts"     ON rfi_impacts;
+
+CREATE POLICY "Users can view rfi_impacts for their projects"
+ON rfi_impacts FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = rfi_impacts.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to rfi_impacts"
+ON rfi_impacts
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
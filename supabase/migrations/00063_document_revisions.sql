@@ -0,0 +1,117 @@
+-- Migration 00063 — Document revisions and the conformed set.
+--
+-- Background: documents.revision has never been written and nothing linked a
+-- reissued sheet to the one it replaces, so retrieval mixed superseded and
+-- current drawings. An upload can now be marked as a revision of an earlier
+-- sheet or spec section (src/lib/documents/conformed-set.ts). Once its pages
+-- are indexed they supersede the current pages for that sheet or section.
+--
+--   documents
+--     revision               revision label as uploaded ('3', 'B'); existing column
+--     revision_target_type   'sheet' | 'spec_section'
+--     revision_target_ref    sheet number or section as entered ('C-101', '03 30 00')
+--     conformed_at           last successful conform; NULL while pages are pending
+--     conform_error          why the last conform did not apply
+--
+--   document_pages
+--     spec_section           6-digit section for spec pages ('033000'). Spec
+--                            documents are not vision-indexed; their page rows
+--                            are written from document_chunks when a section
+--                            revision is conformed.
+--     revision               revision label of this page's document
+--     revision_sequence      0 for the original issue, +1 per revision
+--     supersedes_page_id     page this one replaced
+--     superseded_by_page_id  page that replaced this one; NULL = current.
+--                            ON DELETE SET NULL: deleting a revision document
+--                            makes the previous revision current again.
+--     superseded_at
+--
+-- search_documents skips chunks on superseded pages, so vector retrieval reads
+-- the conformed set. Chunks of documents without page rows are unaffected.
+--
+-- Idempotent: ADD COLUMN IF NOT EXISTS, DROP CONSTRAINT IF EXISTS before ADD,
+-- CREATE INDEX IF NOT EXISTS, CREATE OR REPLACE FUNCTION.
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS revision_target_type TEXT,
+    ADD COLUMN IF NOT EXISTS revision_target_ref  TEXT,
+    ADD COLUMN IF NOT EXISTS conformed_at         TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS conform_error        TEXT;
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS chk_documents_revision_target_type;
+ALTER TABLE documents
+    ADD CONSTRAINT chk_documents_revision_target_type
+    CHECK (revision_target_type IS NULL OR revision_target_type IN ('sheet', 'spec_section'));
+
+ALTER TABLE document_pages
+    ADD COLUMN IF NOT EXISTS spec_section          TEXT,
+    ADD COLUMN IF NOT EXISTS revision              TEXT,
+    ADD COLUMN IF NOT EXISTS revision_sequence     INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS supersedes_page_id    UUID REFERENCES document_pages(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS superseded_by_page_id UUID REFERENCES document_pages(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS superseded_at         TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_dpages_current_sheet
+    ON document_pages(project_id, sheet_number)
+    WHERE superseded_by_page_id IS NULL AND sheet_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dpages_spec_section
+    ON document_pages(project_id, spec_section)
+    WHERE spec_section IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dpages_superseded
+    ON document_pages(document_id, page_number)
+    WHERE superseded_by_page_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION search_documents(
+  query_embedding vector(1536),
+  match_count integer DEFAULT 10,
+  similarity_threshold float DEFAULT 0.5,
+  filter_project_id uuid DEFAULT NULL,
+  filter_document_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_number integer,
+  similarity float,
+  document_filename text,
+  sheet_number text,
+  project_id uuid
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id AS chunk_id,
+    dc.document_id,
+    dc.chunk_index,
+    dc.content,
+    dc.page_number,
+    1 - (de.embedding <=> query_embedding) AS similarity,
+    d.filename AS document_filename,
+    d.sheet_number,
+    d.project_id
+  FROM document_embeddings de
+  JOIN document_chunks dc ON de.chunk_id = dc.id
+  JOIN documents d ON dc.document_id = d.id
+  WHERE
+    (filter_project_id IS NULL OR d.project_id = filter_project_id)
+    AND (filter_document_ids IS NULL OR d.id = ANY(filter_document_ids))
+    AND (1 - (de.embedding <=> query_embedding)) >= similarity_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM document_pages dp
+      WHERE dp.document_id = dc.document_id
+        AND dp.page_number = dc.page_number
+        AND dp.superseded_by_page_id IS NOT NULL
+    )
+  ORDER BY de.embedding <=> query_embedding ASC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_documents IS
+  'Semantic search with sheet number and document filtering. Skips chunks on superseded document_pages (00063), so results come from the conformed set.';
@@ -0,0 +1,74 @@
+-- Migration 00064 — sheet_revision_diffs: visual diff of a reissued sheet.
+--
+-- Background: conforming a drawing revision (00063) links each new sheet page
+-- to the page it supersedes, but the field team still has to spot what moved
+-- on the sheet, and designers do not cloud every change. After a revision is
+-- conformed both pages are rendered, aligned and pixel-diffed
+-- (src/lib/documents/sheet-diff.ts). A red / green overlay is stored in the
+-- documents bucket and each changed region is described by a vision pass
+-- that also notes whether the region is clouded. One row per new page and
+-- the page it superseded; re-running replaces the row.
+--
+--   document_id       the newer (revision) document
+--   page_id           new revision page
+--   previous_page_id  page it superseded
+--   status            'completed' | 'no_changes' | 'failed'
+--   overlay_path      storage path in the 'documents' bucket
+--   alignment         { dx, dy, overlap } shift applied to the previous page
+--   changed_ratio     changed pixels / ink pixels of the new page
+--   changes           [{ region, kind, description, clouded }]
+--   unclouded_count   changes the vision pass found outside any revision cloud
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS,
+-- DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS sheet_revision_diffs (
+    id                UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id        UUID          NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    document_id       UUID          NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    page_id           UUID          NOT NULL REFERENCES document_pages(id) ON DELETE CASCADE,
+    previous_page_id  UUID          NOT NULL REFERENCES document_pages(id) ON DELETE CASCADE,
+
+    sheet_number      TEXT,
+    from_revision     TEXT,
+    to_revision       TEXT,
+
+    status            TEXT          NOT NULL
+        CHECK (status IN ('completed', 'no_changes', 'failed')),
+    overlay_path      TEXT,
+    alignment         JSONB,
+    changed_ratio     NUMERIC(8, 5),
+    changes           JSONB         NOT NULL DEFAULT '[]'::jsonb,
+    unclouded_count   INTEGER       NOT NULL DEFAULT 0,
+    vision_cost_usd   NUMERIC(10, 4) NOT NULL DEFAULT 0,
+    error             TEXT,
+
+    created_at        TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_sheet_revision_diffs_pages UNIQUE (page_id, previous_page_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_revision_diffs_document
+    ON sheet_revision_diffs(document_id);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_revision_diffs_sheet
+    ON sheet_revision_diffs(project_id, sheet_number);
+
+ALTER TABLE sheet_revision_diffs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view sheet_revision_diffs for their projects"   ON sheet_revision_diffs;
+DROP POLICY IF EXISTS "Service role has full access to sheet_revision_diffs"     ON sheet_revision_diffs;
+
+CREATE POLICY "Users can view sheet_revision_diffs for their projects"
+ON sheet_revision_diffs FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = sheet_revision_diffs.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to sheet_revision_diffs"
+ON sheet_revision_diffs
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,101 @@
+-- Migration 00065 — change_events: PCO → COR → CO log tied to RFIs and addenda.
+--
+-- Background: RFI answers and addenda change scope, but nothing tracked the
+-- cost and time that follow. A change event is raised from an RFI, an RFI /
+-- ASI / addendum entity extracted from a change document (discipline 'rfi'),
+-- or an uploaded addendum, priced with a ROM estimate seeded from
+-- ROM_UNIT_COSTS and the source's quantities
+-- (src/lib/change-events/change-event-workflow.ts), and tracked through
+--
+--   open → pricing → submitted → executed     (submitted → rejected → submitted)
+--   open | pricing | rejected → void
+--
+--   change_events
+--     sequence / pco_number  per-project PCO number 'PCO-007', kept for life
+--     cor_number             'COR-003', allocated on first submission
+--     co_number              'CO-002', allocated on execution
+--     stage                  'pco' | 'cor' | 'co'
+--     source_type            'rfi' | 'rfi_entity' | 'addendum' | 'manual'
+--     source_id              rfis.id, project_entities.id or documents.id
+--                            (no FK — the source may be deleted, the log stays)
+--     source_label           'RFI-012', 'ADDENDUM-002' as shown in the log
+--     rom_items              [{ costKey, description, quantity, unit, unitLow,
+--                              unitHigh, low, high, sheetNumber? }]
+--     rom_low / rom_high     totals of rom_items, null when unpriced
+--     approved_amount        executed CO value
+--     schedule_impact_days   claimed time extension in calendar days
+--     status_history         [{ fromStatus, toStatus, changedAt, changedBy?, note? }]
+--
+--   Uniqueness
+--     (project_id, pco_number), (project_id, cor_number), (project_id,
+--       co_number) — numbers are allocated as max + 1 per project; a
+--       concurrent create or transition retries.
+--
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS,
+-- DROP POLICY IF EXISTS before CREATE POLICY.
+
+CREATE TABLE IF NOT EXISTS change_events (
+    id                    UUID           PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id            UUID           NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    sequence              INTEGER,
+    pco_number            TEXT           NOT NULL,
+    cor_number            TEXT,
+    co_number             TEXT,
+    stage                 TEXT           NOT NULL DEFAULT 'pco'
+        CHECK (stage IN ('pco', 'cor', 'co')),
+    status                TEXT           NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'pricing', 'submitted', 'rejected', 'executed', 'void')),
+
+    title                 TEXT           NOT NULL,
+    scope_description     TEXT           NOT NULL DEFAULT '',
+    source_type           TEXT           NOT NULL DEFAULT 'manual'
+        CHECK (source_type IN ('rfi', 'rfi_entity', 'addendum', 'manual')),
+    source_id             UUID,
+    source_label          TEXT,
+    referenced_sheets     TEXT[]         NOT NULL DEFAULT '{}',
+    spec_sections         TEXT[]         NOT NULL DEFAULT '{}',
+
+    rom_items             JSONB          NOT NULL DEFAULT '[]'::jsonb,
+    rom_low               NUMERIC(14,2),
+    rom_high              NUMERIC(14,2),
+    approved_amount       NUMERIC(14,2),
+    schedule_impact_days  INTEGER,
+
+    status_history        JSONB          NOT NULL DEFAULT '[]'::jsonb,
+    submitted_at          TIMESTAMPTZ,
+    executed_at           TIMESTAMPTZ,
+    created_by            UUID           REFERENCES auth.users(id),
+    created_at            TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+    updated_at            TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_change_events_project_pco
+    ON change_events (project_id, pco_number);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_change_events_project_cor
+    ON change_events (project_id, cor_number) WHERE cor_number IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_change_events_project_co
+    ON change_events (project_id, co_number) WHERE co_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_change_events_source
+    ON change_events (project_id, source_type, source_id);
+
+ALTER TABLE change_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view change_events for their projects"   ON change_events;
+DROP POLICY IF EXISTS "Service role has full access to change_events"     ON change_events;
+
+CREATE POLICY "Users can view change_events for their projects"
+ON change_events FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM project_members pm
+    WHERE pm.project_id = change_events.project_id
+    AND pm.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role has full access to change_events"
+ON change_events
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,27 @@
+-- Migration 00066 — reconciliation decisions record the register item's
+-- dedupe key.
+--
+-- Background: a decision points at a submittal_register_items row by id
+-- (00052). Regenerating the register writes a new run and deletes the prior
+-- run's rows, so a decision made — or carried forward (00060) — before the
+-- regeneration pointed at a row that no longer exists, and completing the
+-- session skipped it. The dedupe key survives regeneration; re-sync and
+-- completion resolve a missing item id to the latest run's item with the
+-- same key (src/lib/reconciliation/submittal-log-resync.ts).
+--
+--   reconciliation_decisions
+--     generated_dedupe_key  dedupe_key of the item when the decision was made;
+--                           NULL when the item was not a persisted row
+--
+-- Existing decisions are backfilled from items that still exist.
+--
+-- Idempotent: ADD COLUMN IF NOT EXISTS; the backfill only fills NULLs.
+
+ALTER TABLE reconciliation_decisions
+    ADD COLUMN IF NOT EXISTS generated_dedupe_key TEXT;
+
+UPDATE reconciliation_decisions d
+   SET generated_dedupe_key = i.dedupe_key
+  FROM submittal_register_items i
+ WHERE d.generated_dedupe_key IS NULL
+   AND i.id::text = d.generated_item_id;